@@ -15,13 +15,51 @@ import {
   DropdownMenuContent,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const GRANULARITIES = {
+  day: {
+    label: "Daily",
+    unit: "Day",
+    available: ["0", "1", "2", "3", "7", "14", "30"],
+    defaultIntervals: "0,1,2,3,7,14,30",
+  },
+  week: {
+    label: "Weekly",
+    unit: "Week",
+    available: ["0", "1", "2", "3", "4", "8", "12"],
+    defaultIntervals: "0,1,2,3,4,8",
+  },
+  month: {
+    label: "Monthly",
+    unit: "Month",
+    available: ["0", "1", "2", "3", "6", "12"],
+    defaultIntervals: "0,1,2,3,6",
+  },
+};
 
-const AVAILABLE_INTERVALS = ["0", "1", "2", "3", "7", "14", "30"];
+const NO_BREAKDOWN = "none";
+
+const BREAKDOWNS = [
+  { value: NO_BREAKDOWN, label: "No breakdown" },
+  { value: "country", label: "Country" },
+  { value: "device", label: "First device" },
+  { value: "referrer", label: "First referrer" },
+  { value: "landing_page", label: "Landing page" },
+];
 
 export const CohortFilters = ({
   startDate,
   endDate,
   intervals,
+  granularity = "day",
+  breakdown = "",
   onFiltersChange,
 }) => {
   const [dateRange, setDateRange] = useState({
@@ -41,10 +79,12 @@ export const CohortFilters = ({
         dateRange.from.toISOString().split("T")[0],
         dateRange.to.toISOString().split("T")[0],
         intervals,
+        granularity,
+        breakdown,
       );
       setPickerOpen(false);
     }
-  }, [dateRange, intervals, onFiltersChange]);
+  }, [dateRange, intervals, granularity, breakdown, onFiltersChange]);
 
   const handleIntervalToggle = useCallback(
     (interval) => {
@@ -56,9 +96,36 @@ export const CohortFilters = ({
           .sort((a, b) => parseInt(a) - parseInt(b))
           .join(",");
       }
-      onFiltersChange(startDate, endDate, newIntervals);
+      onFiltersChange(startDate, endDate, newIntervals, granularity, breakdown);
     },
-    [intervalArray, startDate, endDate, onFiltersChange],
+    [intervalArray, startDate, endDate, granularity, breakdown, onFiltersChange],
+  );
+
+  // Intervals are counted in the new period, so they start from its defaults
+  const handleGranularityChange = useCallback(
+    (newGranularity) => {
+      onFiltersChange(
+        startDate,
+        endDate,
+        GRANULARITIES[newGranularity].defaultIntervals,
+        newGranularity,
+        breakdown,
+      );
+    },
+    [startDate, endDate, breakdown, onFiltersChange],
+  );
+
+  const handleBreakdownChange = useCallback(
+    (newBreakdown) => {
+      onFiltersChange(
+        startDate,
+        endDate,
+        intervals,
+        granularity,
+        newBreakdown === NO_BREAKDOWN ? "" : newBreakdown,
+      );
+    },
+    [startDate, endDate, intervals, granularity, onFiltersChange],
   );
 
   const handleReset = useCallback(() => {
@@ -67,13 +134,13 @@ export const CohortFilters = ({
 
     const newStart = thirtyDaysAgo.toISOString().split("T")[0];
     const newEnd = now.toISOString().split("T")[0];
-    const defaultIntervals = "0,1,2,3,7,14,30";
+    const defaultIntervals = GRANULARITIES.day.defaultIntervals;
 
     setDateRange({
       from: parseISO(newStart),
       to: parseISO(newEnd),
     });
-    onFiltersChange(newStart, newEnd, defaultIntervals);
+    onFiltersChange(newStart, newEnd, defaultIntervals, "day", "");
   }, [onFiltersChange]);
 
   return (
@@ -107,27 +174,60 @@ export const CohortFilters = ({
         </PopoverContent>
       </Popover>
 
+      {/* Granularity */}
+      <Select value={granularity} onValueChange={handleGranularityChange}>
+        <SelectTrigger className="w-[120px] text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(GRANULARITIES).map(([value, { label }]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
       {/* Intervals Dropdown */}
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
           <Button variant="outline" className="gap-2 text-sm">
-            <span>Days: {intervalArray.length}</span>
+            <span>
+              {GRANULARITIES[granularity].unit}s: {intervalArray.length}
+            </span>
             <ChevronDown className="w-4 h-4" />
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="start" className="w-56">
-          {AVAILABLE_INTERVALS.map((interval) => (
+          {GRANULARITIES[granularity].available.map((interval) => (
             <DropdownMenuCheckboxItem
               key={interval}
               checked={intervalArray.includes(interval)}
               onCheckedChange={() => handleIntervalToggle(interval)}
             >
-              Day {interval}
+              {GRANULARITIES[granularity].unit} {interval}
             </DropdownMenuCheckboxItem>
           ))}
         </DropdownMenuContent>
       </DropdownMenu>
 
+      {/* Breakdown */}
+      <Select
+        value={breakdown || NO_BREAKDOWN}
+        onValueChange={handleBreakdownChange}
+      >
+        <SelectTrigger className="w-[150px] text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BREAKDOWNS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
       {/* Reset Button */}
       <Button
         onClick={handleReset}
@@ -3,7 +3,7 @@ import React from "react";
 import { CohortCell } from "./CohortCell";
 import { formatDateDisplay } from "@/utils/dateFormatter";
 
-export const CohortTable = ({ cohorts, intervals }) => {
+export const CohortTable = ({ cohorts, intervals, unit = "Day" }) => {
   if (cohorts.length === 0) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -20,7 +20,7 @@ export const CohortTable = ({ cohorts, intervals }) => {
         <thead>
           <tr className="bg-slate-50 dark:bg-slate-900">
             <th className="border border-slate-200 dark:border-slate-700 px-4 py-3 text-left font-semibold text-sm text-slate-700 dark:text-slate-300 w-32">
-              Cohort Date
+              {unit === "Day" ? "Cohort Date" : `Cohort ${unit}`}
             </th>
             <th className="border border-slate-200 dark:border-slate-700 px-4 py-3 text-center font-semibold text-sm text-slate-700 dark:text-slate-300 w-16">
               Size
@@ -31,7 +31,7 @@ export const CohortTable = ({ cohorts, intervals }) => {
                 className="border border-slate-200 dark:border-slate-700 px-2 py-3 text-center font-semibold text-sm text-slate-700 dark:text-slate-300"
                 style={{ width: "60px" }}
               >
-                Day {interval}
+                {unit} {interval}
               </th>
             ))}
           </tr>
@@ -1,64 +1,332 @@
 "use client";
-import React from "react";
+import React, { useEffect, useState } from "react";
+import { AlertCircle, Plus, Trash2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { useProject } from "@/app/_context/ProjectContext";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useFunnel } from "@/hooks/useFunnel";
+import { useFormAnalytics } from "@/hooks/useFormAnalytics";
 
-const FUNNEL_DATA = [
-  { name: "Landed", value: 5000, drop: "0%", color: "#3b82f6" },
-  { name: "Viewed Product", value: 3200, drop: "36%", color: "#60a5fa" },
-  { name: "Add to Cart", value: 1800, drop: "44%", color: "#93c5fd" },
-  { name: "Checkout Start", value: 1200, drop: "33%", color: "#bfdbfe" },
-  { name: "Purchase", value: 950, drop: "21%", color: "#10b981" }, // Green for success
+const STEP_COLORS = ["#3b82f6", "#60a5fa", "#93c5fd", "#bfdbfe", "#dbeafe"];
+const SUCCESS_COLOR = "#10b981"; // Green for the final step
+
+const MAX_STEPS = 10;
+
+const DEFAULT_STEPS = [
+  { type: "pageview", urlPattern: "/" },
+  { type: "pageview", urlPattern: "/pricing" },
+  { type: "pageview", urlPattern: "/signup*" },
 ];
 
-const FORM_DATA = [
-  { field: "Email", status: "good", dropoff: 2 },
-  { field: "Password", status: "good", dropoff: 5 },
-  { field: "Phone Number", status: "critical", dropoff: 62 },
-  { field: "Company Name", status: "warning", dropoff: 12 },
+const CONVERSION_WINDOWS = [
+  { label: "1 hour", value: 60 * 60 },
+  { label: "1 day", value: 24 * 60 * 60 },
+  { label: "7 days", value: 7 * 24 * 60 * 60 },
+  { label: "30 days", value: 30 * 24 * 60 * 60 },
 ];
 
+// The field each step type is matched on
+const STEP_FIELDS = {
+  pageview: { key: "urlPattern", placeholder: "/products/*" },
+  click: { key: "selector", placeholder: "#add-to-cart" },
+  custom: { key: "eventName", placeholder: "purchase_completed" },
+};
+
+const formatDuration = (seconds) => {
+  if (seconds === null || seconds === undefined) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+};
+
+const lastThirtyDays = () => {
+  const now = new Date();
+  const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  return {
+    startDate: thirtyDaysAgo.toISOString().split("T")[0],
+    endDate: now.toISOString().split("T")[0],
+  };
+};
+
+// Field drop-off thresholds (% of abandoned sessions ending on the field)
+const FIELD_CRITICAL_DROPOFF = 40;
+const FIELD_WARNING_DROPOFF = 10;
+
+const fieldStatus = (dropOffRate) =>
+  dropOffRate >= FIELD_CRITICAL_DROPOFF ? "critical" : dropOffRate >= FIELD_WARNING_DROPOFF ? "warning" : "good";
+
 export const FunnelTab = () => {
+  const { activeProject } = useProject();
+  const projectId = activeProject?._id;
+
+  // Saved funnel definition, per project
+  const [steps, setSteps, stepsLoaded] = useLocalStorage(
+    `funnel_steps_${projectId}`,
+    DEFAULT_STEPS,
+  );
+  const [conversionWindowSeconds, setConversionWindowSeconds] = useLocalStorage(
+    `funnel_window_${projectId}`,
+    CONVERSION_WINDOWS[2].value,
+  );
+
+  // Steps being edited, applied on "Run funnel"
+  const [draftSteps, setDraftSteps] = useState(DEFAULT_STEPS);
+  const [range] = useState(lastThirtyDays);
+
+  useEffect(() => {
+    if (stepsLoaded) setDraftSteps(steps);
+  }, [steps, stepsLoaded]);
+
+  const { data, loading, error } = useFunnel({
+    projectId,
+    startDate: range.startDate,
+    endDate: range.endDate,
+    steps: stepsLoaded ? steps : [],
+    conversionWindowSeconds,
+  });
+
+  const [selectedFormId, setSelectedFormId] = useState(null);
+  const { data: formData, loading: formsLoading, error: formsError } = useFormAnalytics({
+    projectId,
+    startDate: range.startDate,
+    endDate: range.endDate,
+  });
+  const forms = formData?.forms || [];
+  // Default to the form with the most sessions (backend orders by sessions)
+  const selectedForm = forms.find((form) => form.formId === selectedFormId) || forms[0];
+  const formFields = (selectedForm?.fields || [])
+    .map((field) => ({ ...field, status: fieldStatus(field.dropOffRate) }))
+    .sort((a, b) => b.dropOffRate - a.dropOffRate);
+
+  const updateDraftStep = (index, patch) => {
+    setDraftSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  const changeStepType = (index, type) => {
+    const current = draftSteps[index];
+    const value = current[STEP_FIELDS[current.type].key] || "";
+    updateDraftStep(index, { type, urlPattern: undefined, selector: undefined, eventName: undefined, [STEP_FIELDS[type].key]: value });
+  };
+
+  const removeDraftStep = (index) => {
+    setDraftSteps((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addDraftStep = () => {
+    setDraftSteps((prev) => [...prev, { type: "pageview", urlPattern: "" }]);
+  };
+
+  const draftIsValid =
+    draftSteps.length >= 2 &&
+    draftSteps.every((step) => (step[STEP_FIELDS[step.type].key] || "").trim().length > 0);
+
+  const runFunnel = () => {
+    // Strip empty optional fields so the backend schema sees clean steps
+    setSteps(
+      draftSteps.map((step) => {
+        const key = STEP_FIELDS[step.type].key;
+        return { type: step.type, [key]: step[key].trim(), ...(step.label ? { label: step.label } : {}) };
+      }),
+    );
+  };
+
+  const chartData = (data?.steps || []).map((step, index, all) => ({
+    name: step.label,
+    value: step.entrants,
+    drop: `${step.dropOffRate}%`,
+    color: index === all.length - 1 ? SUCCESS_COLOR : STEP_COLORS[Math.min(index, STEP_COLORS.length - 1)],
+  }));
+
+  if (!activeProject) {
+    return <div className="text-slate-500">No project selected</div>;
+  }
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full overflow-y-auto">
         
         {/* Custom Conversion Funnel */}
         <Card className="border-slate-200 dark:border-slate-800 shadow-sm h-full">
             <CardHeader>
-                <CardTitle className="text-base">Checkout Conversion Funnel</CardTitle>
+                <div className="flex items-center justify-between gap-3">
+                    <CardTitle className="text-base">Conversion Funnel</CardTitle>
+                    {data && (
+                        <span className="text-sm font-semibold text-emerald-600">
+                            {data.overallConversionRate}% converted
+                        </span>
+                    )}
+                </div>
+                <p className="text-xs text-slate-500">
+                    Last 30 days · steps must happen in order within the conversion window
+                </p>
             </CardHeader>
-            <CardContent className="h-[400px]">
-                <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={FUNNEL_DATA} layout="vertical" margin={{ left: 40, right: 40 }}>
-                        <XAxis type="number" hide />
-                        <YAxis dataKey="name" type="category" width={100} tick={{fontSize: 12}} />
-                        <Tooltip 
-                            cursor={{fill: 'transparent'}} 
-                            contentStyle={{ backgroundColor: '#0f172a', border: 'none', borderRadius: '8px', color: '#fff' }} 
-                        />
-                        <Bar dataKey="value" barSize={40} radius={[0, 4, 4, 0]}>
-                            {FUNNEL_DATA.map((entry, index) => (
-                                <Cell key={`cell-${index}`} fill={entry.color} />
+            <CardContent className="space-y-4">
+                {/* Step Editor */}
+                <div className="space-y-2">
+                    {draftSteps.map((step, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <span className="w-5 text-xs text-slate-400 text-right">{index + 1}</span>
+                            <Select value={step.type} onValueChange={(type) => changeStepType(index, type)}>
+                                <SelectTrigger className="w-[120px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="pageview">Page view</SelectItem>
+                                    <SelectItem value="click">Click</SelectItem>
+                                    <SelectItem value="custom">Custom event</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Input
+                                value={step[STEP_FIELDS[step.type].key] || ""}
+                                placeholder={STEP_FIELDS[step.type].placeholder}
+                                onChange={(e) => updateDraftStep(index, { [STEP_FIELDS[step.type].key]: e.target.value })}
+                            />
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={draftSteps.length <= 2}
+                                onClick={() => removeDraftStep(index)}
+                            >
+                                <Trash2 />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <Button variant="outline" size="sm" disabled={draftSteps.length >= MAX_STEPS} onClick={addDraftStep}>
+                        <Plus /> Add step
+                    </Button>
+                    <Select
+                        value={String(conversionWindowSeconds)}
+                        onValueChange={(value) => setConversionWindowSeconds(Number(value))}
+                    >
+                        <SelectTrigger className="w-[140px] h-8">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {CONVERSION_WINDOWS.map((window) => (
+                                <SelectItem key={window.value} value={String(window.value)}>
+                                    Within {window.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Button size="sm" className="ml-auto" disabled={!draftIsValid || loading} onClick={runFunnel}>
+                        Run funnel
+                    </Button>
+                </div>
+
+                {/* Error State */}
+                {error && !loading && (
+                    <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                        <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+                        <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+                    </div>
+                )}
+
+                {/* Loading State */}
+                {loading && (
+                    <div className="h-[300px] rounded-lg bg-slate-100 dark:bg-slate-800 animate-pulse" />
+                )}
+
+                {/* Funnel Chart */}
+                {!loading && !error && data && (
+                    <>
+                        <div className="h-[300px]">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={chartData} layout="vertical" margin={{ left: 40, right: 40 }}>
+                                    <XAxis type="number" hide />
+                                    <YAxis dataKey="name" type="category" width={100} tick={{fontSize: 12}} />
+                                    <Tooltip 
+                                        cursor={{fill: 'transparent'}} 
+                                        contentStyle={{ backgroundColor: '#0f172a', border: 'none', borderRadius: '8px', color: '#fff' }} 
+                                    />
+                                    <Bar dataKey="value" barSize={40} radius={[0, 4, 4, 0]}>
+                                        {chartData.map((entry, index) => (
+                                            <Cell key={`cell-${index}`} fill={entry.color} />
+                                        ))}
+                                    </Bar>
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        {/* Step Breakdown */}
+                        <div className="divide-y divide-slate-100 dark:divide-slate-800 text-sm">
+                            {data.steps.map((step) => (
+                                <div key={step.index} className="flex items-center justify-between py-2">
+                                    <span className="font-medium text-slate-700 dark:text-slate-300 truncate">{step.label}</span>
+                                    <div className="flex gap-4 text-xs text-slate-500 shrink-0">
+                                        <span>{step.entrants} users</span>
+                                        <span>{step.conversionRate}%</span>
+                                        {step.index > 0 && (
+                                            <>
+                                                <span className="text-red-500">-{step.dropOffRate}%</span>
+                                                <span>median {formatDuration(step.medianSecondsFromPrevious)}</span>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
                             ))}
-                        </Bar>
-                    </BarChart>
-                </ResponsiveContainer>
+                        </div>
+                    </>
+                )}
             </CardContent>
         </Card>
 
         {/* Form Analytics */}
         <Card className="border-slate-200 dark:border-slate-800 shadow-sm h-full">
             <CardHeader>
-                <CardTitle className="text-base">Signup Form Friction</CardTitle>
-                <p className="text-xs text-slate-500">Field-level abandonment rates</p>
+                <div className="flex items-center justify-between gap-3">
+                    <CardTitle className="text-base">Form Friction</CardTitle>
+                    {forms.length > 1 && (
+                        <Select value={selectedForm?.formId} onValueChange={setSelectedFormId}>
+                            <SelectTrigger className="w-[180px] h-8">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {forms.map((form) => (
+                                    <SelectItem key={form.formId} value={form.formId}>
+                                        {form.formId}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
+                </div>
+                <p className="text-xs text-slate-500">
+                    {selectedForm
+                        ? `${selectedForm.abandonmentRate}% of ${selectedForm.sessions} sessions abandoned · median ${formatDuration(selectedForm.medianCompletionSeconds)} to submit`
+                        : "Field-level abandonment rates"}
+                </p>
             </CardHeader>
             <CardContent className="space-y-6">
-                {FORM_DATA.map((field, i) => (
-                    <div key={i} className="group">
+                {formsError && !formsLoading && (
+                    <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                        <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+                        <p className="text-sm text-red-700 dark:text-red-300">{formsError}</p>
+                    </div>
+                )}
+
+                {formsLoading && (
+                    <div className="h-[300px] rounded-lg bg-slate-100 dark:bg-slate-800 animate-pulse" />
+                )}
+
+                {!formsLoading && !formsError && forms.length === 0 && (
+                    <p className="text-sm text-slate-500">
+                        No form interactions recorded yet. Forms are tracked automatically by the SDK&apos;s FormAnalyticsPlugin.
+                    </p>
+                )}
+
+                {!formsLoading && !formsError && formFields.map((field) => (
+                    <div key={field.fieldName} className="group">
                         <div className="flex justify-between text-sm mb-2">
-                            <span className="font-medium text-slate-700 dark:text-slate-300">{field.field}</span>
+                            <span className="font-medium text-slate-700 dark:text-slate-300">{field.fieldName}</span>
                             <span className={`${field.status === 'critical' ? 'text-red-500 font-bold' : field.status === 'warning' ? 'text-orange-500' : 'text-slate-500'}`}>
-                                {field.dropoff}% Drop-off
+                                {field.dropOffRate}% Drop-off
                             </span>
                         </div>
                         <div className="w-full bg-slate-100 dark:bg-slate-800 h-3 rounded-full overflow-hidden">
@@ -67,12 +335,16 @@ export const FunnelTab = () => {
                                     field.status === 'critical' ? 'bg-red-500' : 
                                     field.status === 'warning' ? 'bg-orange-400' : 'bg-slate-300 dark:bg-slate-600'
                                 }`} 
-                                style={{ width: `${field.dropoff}%` }} 
+                                style={{ width: `${field.dropOffRate}%` }} 
                             />
                         </div>
+                        <div className="mt-1 flex gap-4 text-xs text-slate-400">
+                            <span>{field.refills} refills</span>
+                            <span>median {formatDuration(field.medianTimeSeconds === null ? null : Math.round(field.medianTimeSeconds))} in field</span>
+                        </div>
                         {field.status === 'critical' && (
                             <div className="mt-2 text-xs bg-red-50 dark:bg-red-900/10 text-red-600 p-2 rounded border border-red-100 dark:border-red-900/30">
-                                <strong>Insight:</strong> 62% of users quit here. Consider making "Phone Number" optional or removing strict validation.
+                                <strong>Insight:</strong> {field.dropOffRate}% of abandoning users quit at &quot;{field.fieldName}&quot;. Consider making it optional or relaxing its validation.
                             </div>
                         )}
                     </div>
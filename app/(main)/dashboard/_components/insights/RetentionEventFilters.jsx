@@ -0,0 +1,115 @@
+"use client";
+import React, { useState } from "react";
+import { ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const EVENT_TYPES = [
+  { value: "custom", label: "Custom event", placeholder: "signed_up" },
+  { value: "pageview", label: "Page view", placeholder: "/projects/*" },
+];
+
+// "custom:signed_up" <-> { type: "custom", value: "signed_up" }
+const parseEvent = (event) => {
+  const separator = event?.indexOf(":") ?? -1;
+  if (separator <= 0) return { type: "custom", value: "" };
+  return {
+    type: event.slice(0, separator),
+    value: event.slice(separator + 1),
+  };
+};
+
+const EventInput = ({ label, event, onChange }) => (
+  <div className="flex items-center gap-2">
+    <span className="text-xs text-slate-500 whitespace-nowrap">{label}</span>
+    <Select
+      value={event.type}
+      onValueChange={(type) => onChange({ ...event, type })}
+    >
+      <SelectTrigger className="w-[130px] h-8 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {EVENT_TYPES.map((type) => (
+          <SelectItem key={type.value} value={type.value}>
+            {type.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <Input
+      value={event.value}
+      onChange={(e) => onChange({ ...event, value: e.target.value })}
+      placeholder={
+        EVENT_TYPES.find((type) => type.value === event.type)?.placeholder
+      }
+      className="h-8 w-[160px]"
+    />
+  </div>
+);
+
+/**
+ * Retention definition: any activity, or "did startEvent, then returned and did returnEvent"
+ * events is null for activity retention, or { startEvent, returnEvent } strings
+ */
+export const RetentionEventFilters = ({ events, onEventsChange }) => {
+  const [mode, setMode] = useState(events ? "event" : "activity");
+  const [startEvent, setStartEvent] = useState(parseEvent(events?.startEvent));
+  const [returnEvent, setReturnEvent] = useState(
+    parseEvent(events?.returnEvent),
+  );
+
+  const isValid = startEvent.value.trim() && returnEvent.value.trim();
+
+  const handleModeChange = (newMode) => {
+    setMode(newMode);
+    if (newMode === "activity") onEventsChange(null);
+  };
+
+  const handleApply = () => {
+    onEventsChange({
+      startEvent: `${startEvent.type}:${startEvent.value.trim()}`,
+      returnEvent: `${returnEvent.type}:${returnEvent.value.trim()}`,
+    });
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-3 p-4 bg-white dark:bg-slate-950 rounded-lg border border-slate-200 dark:border-slate-700 items-start lg:items-center">
+      <Select value={mode} onValueChange={handleModeChange}>
+        <SelectTrigger className="w-[170px] text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="activity">Returned (any activity)</SelectItem>
+          <SelectItem value="event">Returned and did X</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === "event" && (
+        <>
+          <EventInput
+            label="Did"
+            event={startEvent}
+            onChange={setStartEvent}
+          />
+          <ArrowRight className="w-4 h-4 text-slate-400 hidden lg:block" />
+          <EventInput
+            label="Then"
+            event={returnEvent}
+            onChange={setReturnEvent}
+          />
+          <Button size="sm" disabled={!isValid} onClick={handleApply}>
+            Apply
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -2,7 +2,8 @@
 import React, { useEffect, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { AlertCircle } from "lucide-react";
-import { CohortFilters } from "./CohortFilters";
+import { CohortFilters, GRANULARITIES } from "./CohortFilters";
+import { RetentionEventFilters } from "./RetentionEventFilters";
 import { CohortTable } from "./CohortTable";
 import { CohortSkeleton } from "@/components/skeleton/cohortSkeleton";
 import { useRetentionCohorts } from "@/hooks/useRetentionCohorts";
@@ -13,7 +14,11 @@ export const RetentionTab = ({ projectId }) => {
 
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
-  const [intervals, setIntervals] = useState("0,1,2,3,7,14,30");
+  const [intervals, setIntervals] = useState(GRANULARITIES.day.defaultIntervals);
+  const [granularity, setGranularity] = useState("day");
+  const [breakdown, setBreakdown] = useState("");
+  // Event retention: { startEvent, returnEvent }, null for any activity
+  const [events, setEvents] = useState(null);
   const [isInitialized, setIsInitialized] = useState(false);
 
   // Initialize from URL or set defaults
@@ -21,11 +26,15 @@ export const RetentionTab = ({ projectId }) => {
     const urlStart = searchParams?.get("startDate");
     const urlEnd = searchParams?.get("endDate");
     const urlIntervals = searchParams?.get("intervals");
+    const urlGranularity = searchParams?.get("granularity");
+    const urlBreakdown = searchParams?.get("breakdown");
 
     if (urlStart && urlEnd) {
       setStartDate(urlStart);
       setEndDate(urlEnd);
       if (urlIntervals) setIntervals(urlIntervals);
+      if (GRANULARITIES[urlGranularity]) setGranularity(urlGranularity);
+      if (urlBreakdown) setBreakdown(urlBreakdown);
     } else {
       // Set default to last 30 days
       const now = new Date();
@@ -47,19 +56,32 @@ export const RetentionTab = ({ projectId }) => {
     startDate,
     endDate,
     intervals,
+    granularity,
+    breakdown,
+    events,
   });
 
   // Update URL when filters change
-  const handleFiltersChange = (newStart, newEnd, newIntervals) => {
+  const handleFiltersChange = (
+    newStart,
+    newEnd,
+    newIntervals,
+    newGranularity,
+    newBreakdown,
+  ) => {
     setStartDate(newStart);
     setEndDate(newEnd);
     setIntervals(newIntervals);
+    setGranularity(newGranularity);
+    setBreakdown(newBreakdown);
 
     // Update URL params
     const params = new URLSearchParams();
     params.set("startDate", newStart);
     params.set("endDate", newEnd);
     params.set("intervals", newIntervals);
+    params.set("granularity", newGranularity);
+    if (newBreakdown) params.set("breakdown", newBreakdown);
 
     router.replace(`?${params.toString()}`);
   };
@@ -75,8 +97,11 @@ export const RetentionTab = ({ projectId }) => {
         startDate={startDate}
         endDate={endDate}
         intervals={intervals}
+        granularity={granularity}
+        breakdown={breakdown}
         onFiltersChange={handleFiltersChange}
       />
+      <RetentionEventFilters events={events} onEventsChange={setEvents} />
 
       {/* Loading State */}
       {loading && <CohortSkeleton />}
@@ -94,8 +119,28 @@ export const RetentionTab = ({ projectId }) => {
         <CohortTable
           cohorts={data.cohorts}
           intervals={intervals.split(",").map((i) => i.trim())}
+          unit={GRANULARITIES[granularity].unit}
         />
       )}
+
+      {/* One matrix per segment */}
+      {!loading &&
+        !error &&
+        data?.segments?.map((segment) => (
+          <div key={segment.segment} className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+              {segment.segment}
+              <span className="ml-2 font-normal text-slate-500">
+                {segment.size} users
+              </span>
+            </h3>
+            <CohortTable
+              cohorts={segment.cohorts}
+              intervals={intervals.split(",").map((i) => i.trim())}
+              unit={GRANULARITIES[granularity].unit}
+            />
+          </div>
+        ))}
     </div>
   );
 };
@@ -1,72 +1,334 @@
 "use client";
-import React from "react";
+import React, { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { GitMerge, Search, ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  GitMerge,
+  Search,
+  ArrowRight,
+  AlertCircle,
+  Clock,
+  MapPin,
+  Monitor,
+  Smartphone,
+  MousePointerClick,
+  Zap,
+  Play,
+} from "lucide-react";
+import { useProject } from "@/app/_context/ProjectContext";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useSessionSearch } from "@/hooks/useSessionSearch";
+import { formatDurationMs, truncateClientId } from "@/utils/formatters";
+import { SkeletonPulse } from "@/components/skeleton/dashboardSkeletons";
+
+const ANY = "any";
+
+const SORT_OPTIONS = [
+  { value: "recent", label: "Most recent" },
+  { value: "duration", label: "Longest" },
+  { value: "events", label: "Most events" },
+];
+
+const DEVICE_OPTIONS = [
+  { value: ANY, label: "Any device" },
+  { value: "desktop", label: "Desktop" },
+  { value: "mobile", label: "Mobile" },
+  { value: "tablet", label: "Tablet" },
+];
+
+const MIN_DURATION_OPTIONS = [
+  { value: ANY, label: "Any length" },
+  { value: "10000", label: "≥ 10s" },
+  { value: "30000", label: "≥ 30s" },
+  { value: "60000", label: "≥ 1m" },
+  { value: "300000", label: "≥ 5m" },
+];
+
+// Tri-state filters: any, only sessions with the signal, only without
+const SIGNAL_OPTIONS = [
+  { value: ANY, label: "Any" },
+  { value: "true", label: "Yes" },
+  { value: "false", label: "No" },
+];
+
+const EMPTY_FILTERS = {
+  query: "",
+  url: "",
+  event: "",
+  country: "",
+  device: ANY,
+  startDate: "",
+  endDate: "",
+  minDurationMs: ANY,
+  hasRageClicks: ANY,
+  hasErrors: ANY,
+  sort: "recent",
+};
+
+const FilterSelect = ({ value, onChange, options, className = "w-[130px]" }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className={`${className} h-8`}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {options.map((option) => (
+        <SelectItem key={option.value} value={option.value}>
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Backend filters from the form: "any" and empty values are left out
+const toSearchFilters = (filters, query) => ({
+  // User ids and client ids are both searched from the same box
+  ...(query.startsWith("client:")
+    ? { clientId: query.slice("client:".length).trim() }
+    : { userId: query.trim() }),
+  url: filters.url.trim(),
+  event: filters.event.trim(),
+  country: filters.country.trim(),
+  device: filters.device === ANY ? undefined : filters.device,
+  startDate: filters.startDate,
+  endDate: filters.endDate,
+  minDurationMs:
+    filters.minDurationMs === ANY ? undefined : Number(filters.minDurationMs),
+  hasRageClicks:
+    filters.hasRageClicks === ANY ? undefined : filters.hasRageClicks === "true",
+  hasErrors:
+    filters.hasErrors === ANY ? undefined : filters.hasErrors === "true",
+  sort: filters.sort,
+});
+
+const SessionResult = ({ session, onSelect }) => (
+  <li className="flex justify-between items-center gap-3 p-3 bg-slate-50 dark:bg-slate-900 rounded-lg border border-slate-100 dark:border-slate-800">
+    <div className="min-w-0">
+      <div className="text-sm font-medium text-slate-700 dark:text-slate-300 truncate">
+        {session.userId || truncateClientId(session.clientId)}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500 dark:text-slate-400 mt-1">
+        <span className="flex items-center gap-1">
+          <Clock className="w-3 h-3 shrink-0" />
+          {formatDurationMs(session.duration)}
+        </span>
+        <span className="flex items-center gap-1">
+          <MapPin className="w-3 h-3 shrink-0" />
+          {session.location || "—"}
+        </span>
+        <span className="flex items-center gap-1 capitalize">
+          {session.device === "mobile" ? (
+            <Smartphone className="w-3 h-3 shrink-0" />
+          ) : (
+            <Monitor className="w-3 h-3 shrink-0" />
+          )}
+          {session.device || "Unknown"}
+        </span>
+        <span>{session.eventsCount} events</span>
+        {session.rageClicks > 0 && (
+          <span className="text-red-600 dark:text-red-400 font-bold flex items-center gap-1">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            {session.rageClicks} Rage
+          </span>
+        )}
+        {session.deadClicks > 0 && (
+          <span className="text-amber-600 dark:text-amber-400 font-bold flex items-center gap-1">
+            <MousePointerClick className="w-3 h-3 shrink-0" />
+            {session.deadClicks} Dead
+          </span>
+        )}
+        {session.errorClicks > 0 && (
+          <span className="text-red-600 dark:text-red-400 font-bold flex items-center gap-1">
+            <Zap className="w-3 h-3 shrink-0" />
+            {session.errorClicks} Error
+          </span>
+        )}
+      </div>
+    </div>
+    <div className="text-right shrink-0">
+      <div className="text-[10px] text-slate-400 mb-1">
+        {new Date(session.startedAt).toLocaleString()}
+      </div>
+      {onSelect && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7"
+          onClick={() => onSelect(session)}
+        >
+          <Play className="w-3 h-3 mr-1" />
+          Replay
+        </Button>
+      )}
+    </div>
+  </li>
+);
+
+export const SearchTab = ({ onSessionSelect }) => {
+  const { activeProject } = useProject();
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+
+  // Typed filters wait for the user to stop typing
+  const query = useDebounce(filters.query);
+  const url = useDebounce(filters.url);
+  const event = useDebounce(filters.event);
+  const country = useDebounce(filters.country);
+
+  const { sessions, loading, loadingMore, error, hasMore, loadMore } =
+    useSessionSearch({
+      projectId: activeProject?._id,
+      filters: toSearchFilters({ ...filters, url, event, country }, query),
+    });
+
+  const setFilter = (key) => (value) =>
+    setFilters((previous) => ({ ...previous, [key]: value }));
 
-export const SearchTab = () => {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 h-full overflow-y-auto">
-      {/* Internal Search */}
-      <Card className="border-slate-200 dark:border-slate-800 shadow-sm">
+      {/* Session Search */}
+      <Card className="md:col-span-2 border-slate-200 dark:border-slate-800 shadow-sm">
         <CardHeader>
-          <CardTitle className="text-base">Internal Site Search</CardTitle>
+          <CardTitle className="text-base">Session Search</CardTitle>
           <p className="text-xs text-slate-500">
-            What users are typing in your search bar
+            Find sessions by user, page, event, device or frustration signals
           </p>
         </CardHeader>
-        <CardContent>
-          <ul className="space-y-2">
-            {[
-              {
-                term: "Dark Mode",
-                count: 420,
-                result: "0 Results",
-                status: "miss",
-              },
-              {
-                term: "Refund Policy",
-                count: 150,
-                result: "Found /legal/refunds",
-                status: "hit",
-              },
-              {
-                term: "API Keys",
-                count: 85,
-                result: "Found /settings/api",
-                status: "hit",
-              },
-              {
-                term: "Delete Account",
-                count: 12,
-                result: "0 Results",
-                status: "miss",
-              },
-            ].map((item, i) => (
-              <li
-                key={i}
-                className="flex justify-between items-center p-3 bg-slate-50 dark:bg-slate-900 rounded-lg border border-slate-100 dark:border-slate-800"
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-2" />
+              <Input
+                value={filters.query}
+                onChange={(e) => setFilter("query")(e.target.value)}
+                placeholder="User ID (or client:<clientId>)"
+                className="h-8 pl-8"
+              />
+            </div>
+            <Input
+              value={filters.url}
+              onChange={(e) => setFilter("url")(e.target.value)}
+              placeholder="Visited URL contains"
+              className="h-8 w-[180px]"
+            />
+            <Input
+              value={filters.event}
+              onChange={(e) => setFilter("event")(e.target.value)}
+              placeholder="Custom event"
+              className="h-8 w-[150px]"
+            />
+            <Input
+              value={filters.country}
+              onChange={(e) => setFilter("country")(e.target.value)}
+              placeholder="Country (US)"
+              maxLength={2}
+              className="h-8 w-[110px] uppercase"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            <Input
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilter("startDate")(e.target.value)}
+              className="h-8 w-[140px]"
+            />
+            <ArrowRight className="w-3 h-3" />
+            <Input
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilter("endDate")(e.target.value)}
+              className="h-8 w-[140px]"
+            />
+            <FilterSelect
+              value={filters.device}
+              onChange={setFilter("device")}
+              options={DEVICE_OPTIONS}
+            />
+            <FilterSelect
+              value={filters.minDurationMs}
+              onChange={setFilter("minDurationMs")}
+              options={MIN_DURATION_OPTIONS}
+            />
+            <span className="ml-2">Rage clicks</span>
+            <FilterSelect
+              value={filters.hasRageClicks}
+              onChange={setFilter("hasRageClicks")}
+              options={SIGNAL_OPTIONS}
+              className="w-[80px]"
+            />
+            <span className="ml-2">Errors</span>
+            <FilterSelect
+              value={filters.hasErrors}
+              onChange={setFilter("hasErrors")}
+              options={SIGNAL_OPTIONS}
+              className="w-[80px]"
+            />
+            <div className="ml-auto flex items-center gap-2">
+              <FilterSelect
+                value={filters.sort}
+                onChange={setFilter("sort")}
+                options={SORT_OPTIONS}
+                className="w-[140px]"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8"
+                onClick={() => setFilters(EMPTY_FILTERS)}
               >
-                <div className="flex items-center gap-3">
-                  <div className="p-1.5 bg-white dark:bg-slate-800 rounded shadow-sm">
-                    <Search className="w-4 h-4 text-slate-400" />
-                  </div>
-                  <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                    "{item.term}"
-                  </span>
-                </div>
-                <div className="text-right">
-                  <div className="text-xs font-bold text-slate-900 dark:text-white">
-                    {item.count} searches
-                  </div>
-                  <div
-                    className={`text-[10px] font-medium ${item.status === "miss" ? "text-red-500" : "text-green-500"}`}
-                  >
-                    {item.result}
-                  </div>
-                </div>
-              </li>
-            ))}
-          </ul>
+                Reset
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <SkeletonPulse key={i} className="h-14 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center text-sm text-slate-500 py-8">
+              No sessions match these filters
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {sessions.map((session) => (
+                <SessionResult
+                  key={session.id}
+                  session={session}
+                  onSelect={onSessionSelect}
+                />
+              ))}
+            </ul>
+          )}
+
+          {hasMore && !loading && (
+            <div className="flex justify-center">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={loadingMore}
+                onClick={loadMore}
+              >
+                {loadingMore ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
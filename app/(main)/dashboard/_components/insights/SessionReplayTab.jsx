@@ -17,6 +17,8 @@ import { formatDurationMs, truncateClientId } from "@/utils/formatters";
 import { SkeletonPulse } from "@/components/skeleton/dashboardSkeletons";
 import ErrorState from "@/components/ErrorState";
 import { RrwebPlayer } from "@/components/RrwebPlayer";
+import { useProject } from "@/app/_context/ProjectContext";
+import { useReplayEvents } from "@/hooks/useReplayEvents";
 
 const TIMELINE_EVENTS = [];
 
@@ -117,6 +119,9 @@ export const SessionReplayTab = ({
   sessions = [],
   loading = false,
   error = null,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore = () => {},
   sessionDetails = null,
   loadingDetails = false,
   detailsError = null,
@@ -125,6 +130,15 @@ export const SessionReplayTab = ({
   const [selectedSessionId, setSelectedSessionId] = useState(null);
   const [selectedReplayIndex, setSelectedReplayIndex] = useState(0);
 
+  // Replay events are loaded on demand, for the selected replay only
+  const { activeProject } = useProject();
+  const selectedReplay = sessionDetails?.replays?.[selectedReplayIndex];
+  const { data: replayEvents, loading: loadingReplayEvents } =
+    useReplayEvents({
+      projectId: activeProject?._id,
+      replay: selectedReplay,
+    });
+
   // Handle session selection
   const handleSelectSession = (sessionId) => {
     setSelectedSessionId(sessionId);
@@ -232,10 +246,34 @@ export const SessionReplayTab = ({
                         {session.rageClicks} Rage
                       </span>
                     )}
+                    {session.deadClicks > 0 && (
+                      <span className="text-amber-600 dark:text-amber-400 font-bold flex items-center gap-1 truncate">
+                        <MousePointerClick className="w-3 h-3 shrink-0" />
+                        {session.deadClicks} Dead
+                      </span>
+                    )}
+                    {session.errorClicks > 0 && (
+                      <span className="text-red-600 dark:text-red-400 font-bold flex items-center gap-1 truncate">
+                        <Zap className="w-3 h-3 shrink-0" />
+                        {session.errorClicks} Error
+                      </span>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             ))}
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={loadingMore}
+                  onClick={onLoadMore}
+                >
+                  {loadingMore ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
           </div>
         </ScrollArea>
       </div>
@@ -243,21 +281,11 @@ export const SessionReplayTab = ({
       {/* MIDDLE: Player (6 cols) */}
       <div className="lg:col-span-6 flex flex-col gap-4">
         <SessionPlayer
-          replayEvents={
-            sessionDetails?.replays && sessionDetails.replays.length > 0
-              ? sessionDetails.replays[selectedReplayIndex]?.events?.map(
-                  (e) => e.rrwebPayload
-                )
-              : null
-          }
-          pageUrl={
-            sessionDetails?.replays && sessionDetails.replays.length > 0
-              ? sessionDetails.replays[selectedReplayIndex]?.events?.[0]?.url
-              : selectedSession?.url
-          }
-          loading={loadingDetails}
+          replayEvents={replayEvents?.map((e) => e.rrwebPayload) ?? null}
+          pageUrl={selectedReplay ? selectedReplay.url : selectedSession?.url}
+          loading={loadingDetails || loadingReplayEvents}
         />
-        <div className="grid grid-cols-3 gap-4">
+        <div className="grid grid-cols-3 sm:grid-cols-5 gap-4">
           {[
             {
               label: "Events",
@@ -277,6 +305,22 @@ export const SessionReplayTab = ({
                   ? "text-red-600 dark:text-red-400"
                   : "text-slate-900 dark:text-white",
             },
+            {
+              label: "Dead Clicks",
+              value: selectedSession?.deadClicks || "0",
+              color:
+                selectedSession?.deadClicks > 0
+                  ? "text-amber-600 dark:text-amber-400"
+                  : "text-slate-900 dark:text-white",
+            },
+            {
+              label: "Error Clicks",
+              value: selectedSession?.errorClicks || "0",
+              color:
+                selectedSession?.errorClicks > 0
+                  ? "text-red-600 dark:text-red-400"
+                  : "text-slate-900 dark:text-white",
+            },
           ].map((stat, i) => (
             <div
               key={i}
@@ -333,12 +377,8 @@ export const SessionReplayTab = ({
             /* Replays list */
             <div className="space-y-2 p-3">
               {sessionDetails.replays.map((replay, idx) => {
-                const startTime = replay.events?.[0]?.timestamp
-                  ? new Date(replay.events[0].timestamp)
-                  : null;
-                const endTime = replay.events?.[replay.events.length - 1]
-                  ?.timestamp
-                  ? new Date(replay.events[replay.events.length - 1].timestamp)
+                const startTime = replay.startTime
+                  ? new Date(replay.startTime)
                   : null;
 
                 return (
@@ -362,11 +402,9 @@ export const SessionReplayTab = ({
                             {startTime.toLocaleString()}
                           </div>
                         )}
-                        {replay.events && (
-                          <div className="text-[10px] text-slate-500 dark:text-slate-400">
-                            {replay.events.length} events
-                          </div>
-                        )}
+                        <div className="text-[10px] text-slate-500 dark:text-slate-400">
+                          {replay.eventCount} events
+                        </div>
                       </div>
                     </div>
                   </div>
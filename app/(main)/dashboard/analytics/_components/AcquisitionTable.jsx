@@ -0,0 +1,123 @@
+"use client";
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+const CHANNEL_LABELS = {
+  organic_search: "Organic Search",
+  social: "Social",
+  paid: "Paid",
+  email: "Email",
+  direct: "Direct",
+  referral: "Referral",
+};
+
+const BREAKDOWNS = [
+  {
+    value: "channels",
+    label: "Channels",
+    key: "channel",
+    format: (channel) => CHANNEL_LABELS[channel] || channel,
+  },
+  { value: "sources", label: "Sources", key: "source" },
+  { value: "campaigns", label: "Campaigns", key: "campaign" },
+];
+
+const formatNumber = (value) => new Intl.NumberFormat("en-US").format(value);
+
+const AcquisitionRows = ({ rows, rowKey, format = (value) => value }) => {
+  if (!rows || rows.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400 py-4">
+        No data available for this date range
+      </p>
+    );
+  }
+
+  const maxVisitors = Math.max(...rows.map((row) => row.visitors || 0), 1);
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-slate-500 border-b border-slate-100 dark:border-slate-800">
+          <th className="text-left font-medium py-2">Name</th>
+          <th className="text-right font-medium py-2">Visitors</th>
+          <th className="text-right font-medium py-2">Sessions</th>
+          <th className="text-right font-medium py-2">Bounce rate</th>
+          <th className="text-right font-medium py-2">Conversions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr
+            key={row[rowKey]}
+            className="border-b border-slate-50 dark:border-slate-900 last:border-0"
+          >
+            <td className="py-2 pr-4">
+              <span className="font-medium text-slate-700 dark:text-slate-300">
+                {format(row[rowKey])}
+              </span>
+              <div className="w-full bg-slate-100 dark:bg-slate-800 h-1.5 rounded-full mt-1.5 overflow-hidden">
+                <div
+                  className="bg-brand-500 h-full rounded-full"
+                  style={{
+                    width: `${Math.max(4, Math.round((row.visitors / maxVisitors) * 100))}%`,
+                  }}
+                ></div>
+              </div>
+            </td>
+            <td className="text-right text-slate-700 dark:text-slate-300">
+              {formatNumber(row.visitors)}
+            </td>
+            <td className="text-right text-slate-500">
+              {formatNumber(row.sessions)}
+            </td>
+            <td className="text-right text-slate-500">{row.bounceRate}%</td>
+            <td className="text-right text-slate-500">
+              {formatNumber(row.conversions)}{" "}
+              <span className="text-xs">({row.conversionRate}%)</span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Where visitors come from: first-touch channel, source and campaign
+ * of their sessions, with bounce rate and conversions
+ */
+const AcquisitionTable = ({ data }) => {
+  return (
+    <Card className="border-slate-200 dark:border-slate-800 shadow-sm flex-1">
+      <CardHeader>
+        <CardTitle className="text-base font-semibold text-slate-900 dark:text-white">
+          Acquisition
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="channels">
+          <TabsList>
+            {BREAKDOWNS.map((breakdown) => (
+              <TabsTrigger key={breakdown.value} value={breakdown.value}>
+                {breakdown.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {BREAKDOWNS.map((breakdown) => (
+            <TabsContent key={breakdown.value} value={breakdown.value}>
+              <AcquisitionRows
+                rows={data?.[breakdown.value]}
+                rowKey={breakdown.key}
+                format={breakdown.format}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AcquisitionTable;
@@ -0,0 +1,109 @@
+"use client";
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+const formatNumber = (value) => new Intl.NumberFormat("en-US").format(value);
+
+// Column shown per tab: the count the pages are ranked by, then its rate
+const RANKINGS = [
+  {
+    value: "entryPages",
+    label: "Entry pages",
+    countLabel: "Entries",
+    count: (page) => page.entries,
+    rateLabel: "Bounce rate",
+    rate: (page) => page.bounceRate,
+  },
+  {
+    value: "exitPages",
+    label: "Exit pages",
+    countLabel: "Exits",
+    count: (page) => page.exits,
+    rateLabel: "Exit rate",
+    rate: (page) => page.exitRate,
+  },
+];
+
+const RankingRows = ({ pages, ranking }) => {
+  if (!pages || pages.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400 py-4">
+        No data available for this date range
+      </p>
+    );
+  }
+
+  const maxCount = Math.max(...pages.map((page) => ranking.count(page) || 0), 1);
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-slate-500 border-b border-slate-100 dark:border-slate-800">
+          <th className="text-left font-medium py-2">Page</th>
+          <th className="text-right font-medium py-2">{ranking.countLabel}</th>
+          <th className="text-right font-medium py-2">{ranking.rateLabel}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {pages.map((page) => (
+          <tr
+            key={page.path}
+            className="border-b border-slate-50 dark:border-slate-900 last:border-0"
+          >
+            <td className="py-2 pr-4">
+              <span className="font-medium text-slate-700 dark:text-slate-300">
+                {page.path}
+              </span>
+              <div className="w-full bg-slate-100 dark:bg-slate-800 h-1.5 rounded-full mt-1.5 overflow-hidden">
+                <div
+                  className="bg-brand-500 h-full rounded-full"
+                  style={{
+                    width: `${Math.max(4, Math.round((ranking.count(page) / maxCount) * 100))}%`,
+                  }}
+                ></div>
+              </div>
+            </td>
+            <td className="text-right text-slate-700 dark:text-slate-300">
+              {formatNumber(ranking.count(page))}
+            </td>
+            <td className="text-right text-slate-500">{ranking.rate(page)}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Pages sessions start and end on, with bounce and exit rates
+ */
+const EntryExitPagesTable = ({ data }) => {
+  return (
+    <Card className="border-slate-200 dark:border-slate-800 shadow-sm flex-1">
+      <CardHeader>
+        <CardTitle className="text-base font-semibold text-slate-900 dark:text-white">
+          Entry & Exit Pages
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="entryPages">
+          <TabsList>
+            {RANKINGS.map((ranking) => (
+              <TabsTrigger key={ranking.value} value={ranking.value}>
+                {ranking.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {RANKINGS.map((ranking) => (
+            <TabsContent key={ranking.value} value={ranking.value}>
+              <RankingRows pages={data?.[ranking.value]} ranking={ranking} />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EntryExitPagesTable;
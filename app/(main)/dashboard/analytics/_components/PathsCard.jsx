@@ -0,0 +1,166 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Layer, Rectangle, ResponsiveContainer, Sankey, Tooltip } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePaths } from "@/hooks/usePaths";
+
+const STEP_OPTIONS = [1, 2, 3, 4, 5];
+
+// Session start / end markers returned by the backend
+const BOUNDARY_NODES = ["(entry)", "(exit)"];
+
+/**
+ * Sankey node with its page name, placed outside the bar
+ */
+const PathNode = ({ x, y, width, height, payload, containerWidth }) => {
+  const isBoundary = BOUNDARY_NODES.includes(payload.name);
+  const labelOnLeft = x + width + 6 > containerWidth - 120;
+
+  return (
+    <Layer>
+      <Rectangle
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={isBoundary ? "#94a3b8" : "#3b82f6"}
+        fillOpacity={0.9}
+      />
+      <text
+        x={labelOnLeft ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={labelOnLeft ? "end" : "start"}
+        dominantBaseline="middle"
+        fontSize={12}
+        className="fill-slate-600 dark:fill-slate-300"
+      >
+        {payload.name}
+      </text>
+    </Layer>
+  );
+};
+
+/**
+ * Most common page sequences after (or before) a page, as a Sankey chart
+ */
+const PathsCard = ({ projectId, startDate, endDate, defaultPage }) => {
+  const [page, setPage] = useState(defaultPage || "/");
+  const [draftPage, setDraftPage] = useState(page);
+  const [direction, setDirection] = useState("next");
+  const [steps, setSteps] = useState(3);
+
+  // Follow the top entry page until the user picks a page
+  useEffect(() => {
+    if (defaultPage) {
+      setPage(defaultPage);
+      setDraftPage(defaultPage);
+    }
+  }, [defaultPage]);
+
+  const { data, loading, error } = usePaths({
+    projectId,
+    startDate,
+    endDate,
+    page,
+    direction,
+    steps,
+  });
+
+  const applyPage = () => {
+    const trimmed = draftPage.trim();
+    if (trimmed) setPage(trimmed);
+  };
+
+  const hasLinks = data?.links?.length > 0;
+
+  return (
+    <Card className="border-slate-200 dark:border-slate-800 shadow-sm flex-1">
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <CardTitle className="text-base font-semibold text-slate-900 dark:text-white">
+          User Paths
+        </CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={direction} onValueChange={setDirection}>
+            <SelectTrigger className="w-[130px] h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="next">Starting at</SelectItem>
+              <SelectItem value="previous">Ending at</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={draftPage}
+            onChange={(e) => setDraftPage(e.target.value)}
+            onBlur={applyPage}
+            onKeyDown={(e) => e.key === "Enter" && applyPage()}
+            placeholder="/pricing"
+            className="w-[180px] h-9 text-sm"
+          />
+          <Select
+            value={String(steps)}
+            onValueChange={(value) => setSteps(Number(value))}
+          >
+            <SelectTrigger className="w-[100px] h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STEP_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option} {option === 1 ? "step" : "steps"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="h-[360px] rounded-lg bg-slate-100 dark:bg-slate-900 animate-pulse" />
+        )}
+
+        {!loading && error && (
+          <p className="text-sm text-red-500 py-4">{error}</p>
+        )}
+
+        {!loading && !error && !hasLinks && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 py-4">
+            No sessions visited {page} in this date range
+          </p>
+        )}
+
+        {!loading && !error && hasLinks && (
+          <>
+            <p className="text-xs text-slate-500 mb-4">
+              Top {data.sequences.length} paths of{" "}
+              {new Intl.NumberFormat("en-US").format(data.sessions)} sessions
+            </p>
+            <div className="h-[360px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <Sankey
+                  data={{ nodes: data.nodes, links: data.links }}
+                  node={<PathNode />}
+                  nodePadding={24}
+                  margin={{ top: 8, right: 8, bottom: 8, left: 8 }}
+                  link={{ stroke: "#93c5fd", strokeOpacity: 0.4 }}
+                >
+                  <Tooltip />
+                </Sankey>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PathsCard;
@@ -15,6 +15,9 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import AnalyticsHeader from "./_components/AnalyticsHeader";
 import TrafficChart from "./_components/TrafficChart";
 import TopPagesTable from "./_components/TopPagesTable";
+import AcquisitionTable from "./_components/AcquisitionTable";
+import EntryExitPagesTable from "./_components/EntryExitPagesTable";
+import PathsCard from "./_components/PathsCard";
 import DemographicsCard from "./_components/DemographicsCard";
 import HeatmapCard from "./_components/HeatmapCard";
 import MetricsGrid from "./_components/MetricsGrid";
@@ -34,6 +37,7 @@ import confusedCatImage from "@/assets/confused-cat.png";
 // Date utilities
 import {
   getDefaultDateRange,
+  getBrowserTimezone,
   formatDateISO,
   formatDateRangeDisplay,
   parseISO,
@@ -64,6 +68,7 @@ export default function AnalyticsPage() {
   // Convex action
   const getTrafficData = useAction(api.analytics.getTrafficData);
   const getTopPages = useAction(api.analytics.getTopPages);
+  const getAcquisition = useAction(api.analytics.getAcquisition);
 
   // Fetch data when URL params change
   useEffect(() => {
@@ -75,19 +80,28 @@ export default function AnalyticsPage() {
       setLoading(true);
       setError(null);
       try {
-        const [traffic, topPages] = await Promise.all([
+        const timezone = getBrowserTimezone();
+        const [traffic, topPages, acquisition] = await Promise.all([
           getTrafficData({
             projectId: activeProject._id,
             startDate,
             endDate,
+            timezone,
           }),
           getTopPages({
             projectId: activeProject._id,
             startDate,
             endDate,
+            timezone,
+          }),
+          getAcquisition({
+            projectId: activeProject._id,
+            startDate,
+            endDate,
+            timezone,
           }),
         ]);
-        setTrafficData({ ...traffic, topPages });
+        setTrafficData({ ...traffic, topPages, acquisition });
         setError(null);
       } catch (err) {
         console.error("Error fetching traffic data:", err);
@@ -219,6 +233,23 @@ export default function AnalyticsPage() {
               loading={loading}
             />
           </div>
+
+          <div className="grid grid-cols-1">
+            <EntryExitPagesTable data={trafficData.topPages} />
+          </div>
+
+          <div className="grid grid-cols-1">
+            <PathsCard
+              projectId={activeProject?._id}
+              startDate={startDate}
+              endDate={endDate}
+              defaultPage={trafficData.topPages?.entryPages?.[0]?.path}
+            />
+          </div>
+
+          <div className="grid grid-cols-1">
+            <AcquisitionTable data={trafficData.acquisition} />
+          </div>
         </>
       )}
     </div>
@@ -29,7 +29,9 @@ export default function DeepInsightPage() {
 
   // Sessions state
   const [sessions, setSessions] = useState([]);
+  const [sessionsCursor, setSessionsCursor] = useState(null);
   const [loadingSessions, setLoadingSessions] = useState(false);
+  const [loadingMoreSessions, setLoadingMoreSessions] = useState(false);
   const [sessionsError, setSessionsError] = useState(null);
 
   // Session details state
@@ -41,7 +43,7 @@ export default function DeepInsightPage() {
   const getSessions = useAction(api.analytics.getSessions);
   const getSessionById = useAction(api.analytics.getSessionById);
 
-  // Fetch sessions on component mount and when project changes
+  // Fetch the first page of sessions on mount and when the project changes
   useEffect(() => {
     if (!activeProject || !isLoaded) {
       return;
@@ -55,6 +57,7 @@ export default function DeepInsightPage() {
           projectId: activeProject._id,
         });
         setSessions(response.sessions || []);
+        setSessionsCursor(response.nextCursor || null);
       } catch (err) {
         console.error("Error fetching sessions:", err);
         setSessionsError(err?.message || "Failed to load sessions");
@@ -66,6 +69,32 @@ export default function DeepInsightPage() {
     fetchSessions();
   }, [activeProject, isLoaded, getSessions]);
 
+  // Next page of sessions, after the ones already listed
+  const handleLoadMoreSessions = async () => {
+    if (!activeProject || !sessionsCursor || loadingMoreSessions) return;
+
+    setLoadingMoreSessions(true);
+    setSessionsError(null);
+    try {
+      const response = await getSessions({
+        projectId: activeProject._id,
+        cursor: sessionsCursor,
+      });
+      const page = response.sessions || [];
+      // A session opened from search may already be at the top of the list
+      setSessions((previous) => [
+        ...previous,
+        ...page.filter((s) => !previous.some((p) => p.id === s.id)),
+      ]);
+      setSessionsCursor(response.nextCursor || null);
+    } catch (err) {
+      console.error("Error fetching sessions:", err);
+      setSessionsError(err?.message || "Failed to load sessions");
+    } finally {
+      setLoadingMoreSessions(false);
+    }
+  };
+
   // Handle session selection and fetch details
   const handleSessionSelect = async (sessionId) => {
     if (!activeProject) return;
@@ -86,6 +115,16 @@ export default function DeepInsightPage() {
     }
   };
 
+  // Open a session found in search in the replay tab
+  const handleSearchResultSelect = (session) => {
+    setSessions((previous) => [
+      session,
+      ...previous.filter((s) => s.id !== session.id),
+    ]);
+    setActiveTab("behavior");
+    handleSessionSelect(session.id);
+  };
+
   if (!isLoaded) {
     return null; // Prevent hydration mismatch
   }
@@ -160,6 +199,9 @@ export default function DeepInsightPage() {
                 sessions={sessions}
                 loading={loadingSessions}
                 error={sessionsError}
+                hasMore={sessionsCursor !== null}
+                loadingMore={loadingMoreSessions}
+                onLoadMore={handleLoadMoreSessions}
                 sessionDetails={sessionDetails}
                 loadingDetails={loadingDetails}
                 detailsError={detailsError}
@@ -173,7 +215,7 @@ export default function DeepInsightPage() {
               <CohortTab />
             </TabsContent>
             <TabsContent value="search" className="mt-0 h-full">
-              <SearchTab />
+              <SearchTab onSessionSelect={handleSearchResultSelect} />
             </TabsContent>
           </div>
         </Tabs>
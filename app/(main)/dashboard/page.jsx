@@ -45,6 +45,7 @@ import { api } from "@/convex/_generated/api";
 // Date utilities
 import {
   getDefaultDateRange,
+  getBrowserTimezone,
   formatDateISO,
   formatDateRangeDisplay,
   formatChartLabel,
@@ -107,6 +108,7 @@ export default function DashboardOverview() {
           projectId: activeProject._id,
           startDate,
           endDate,
+          timezone: getBrowserTimezone(),
         });
         setOverviewData(data);
       } catch (err) {
@@ -0,0 +1,90 @@
+"use client";
+import React, { useMemo } from "react";
+import { Users, Loader2 } from "lucide-react";
+import { useWebVitals } from "@/hooks/useWebVitals";
+import { MetricCard } from "./MetricCard";
+
+const FIELD_DAYS = 28;
+
+const FIELD_METRICS = [
+  { key: "LCP", label: "Largest Contentful Paint", desc: "75% of real visits painted the largest element within this time." },
+  { key: "INP", label: "Interaction to Next Paint", desc: "75% of real visits responded to interactions within this time." },
+  { key: "CLS", label: "Cumulative Layout Shift", desc: "75% of real visits shifted less than this." },
+  { key: "FCP", label: "First Contentful Paint", desc: "75% of real visits painted first content within this time." },
+  { key: "TTFB", label: "Time to First Byte", desc: "75% of real visits received the first byte within this time." },
+];
+
+// Real-user (field) p75 for the scanned URL and device, next to the lab scores
+export const FieldVitals = ({ projectId, url, device }) => {
+  const { startDate, endDate, path } = useMemo(() => {
+    const end = new Date();
+    const start = new Date(end.getTime() - (FIELD_DAYS - 1) * 24 * 60 * 60 * 1000);
+    let pathname;
+    try {
+      pathname = url ? new URL(url).pathname : undefined;
+    } catch (e) {
+      pathname = undefined;
+    }
+    return {
+      startDate: start.toISOString().split("T")[0],
+      endDate: end.toISOString().split("T")[0],
+      path: pathname,
+    };
+  }, [url]);
+
+  const { data, loading, error } = useWebVitals({ projectId, startDate, endDate, path });
+
+  const rows = (data?.byDevice || []).filter((row) => row.device === device);
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-4">
+        <div className="w-1 h-6 bg-blue-500 rounded-full" />
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white">Real Users</h3>
+        <span className="text-sm text-slate-500">
+          p75 from visitors on {device} over the last {FIELD_DAYS} days{path ? ` (${path})` : ""}.
+        </span>
+      </div>
+
+      {loading ? (
+        <div className="h-32 flex items-center justify-center text-slate-400">
+          <Loader2 className="animate-spin mr-2 w-4 h-4" /> Loading field data...
+        </div>
+      ) : error || rows.length === 0 ? (
+        <div className="h-32 flex flex-col items-center justify-center text-slate-400 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-xl">
+          <Users className="w-6 h-6 mb-2 opacity-50" />
+          <p className="text-sm">{error || "No real-user data for this page yet."}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-px bg-slate-200 dark:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden">
+          {FIELD_METRICS.map((m) => {
+            const row = rows.find((r) => r.metric === m.key);
+            return (
+              <div key={m.key} className="bg-white dark:bg-slate-900">
+                <MetricCard
+                  label={m.label}
+                  value={row ? formatValue(m.key, row.p75) : "—"}
+                  score={toScore(row?.rating)}
+                  description={row ? `${m.desc} (${row.samples} samples)` : "No samples yet."}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+function formatValue(metric, value) {
+  if (metric === "CLS") return value.toFixed(2);
+  if (metric === "INP") return `${Math.round(value)} ms`;
+  return `${(value / 1000).toFixed(1)} s`;
+}
+
+// Backend ratings -> MetricCard scores
+function toScore(rating) {
+  if (rating === "good") return "good";
+  if (rating === "needs-improvement") return "average";
+  return rating === "poor" ? "poor" : "average";
+}
@@ -7,8 +7,9 @@ import { MetricCard } from "./MetricCard";
 import { AuditItem } from "./AuditItem"; 
 import { Filmstrip } from "./Filmstrip"; 
 import { ScoreGauge } from "./ScoreGuage";
+import { FieldVitals } from "./FieldVitals";
 
-const LighthouseWrapper = ({ data }) => {
+const LighthouseWrapper = ({ data, projectId, url }) => {
   const [device, setDevice] = useState("mobile");
   const [filmstripData, setFilmstripData] = useState([]);
   
@@ -106,7 +107,12 @@ const LighthouseWrapper = ({ data }) => {
         </div>
       </section>
 
-      {/* 4. FILMSTRIP */}
+      {/* 4. REAL USERS (FIELD DATA) */}
+      {projectId && (
+        <FieldVitals projectId={projectId} url={url} device={device} />
+      )}
+
+      {/* 5. FILMSTRIP */}
       {filmstripData.length > 0 && (
         <section className="mt-8">
             <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-4 px-2">Visual Loading Progress</h4>
@@ -114,7 +120,7 @@ const LighthouseWrapper = ({ data }) => {
         </section>
       )}
 
-      {/* 5. OPPORTUNITIES & DIAGNOSTICS (ACCORDION) */}
+      {/* 6. OPPORTUNITIES & DIAGNOSTICS (ACCORDION) */}
       <section className="space-y-8">
         
         {/* Opportunities */}
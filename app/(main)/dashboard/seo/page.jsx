@@ -139,6 +139,8 @@ export default function SeoPage() {
                  scanResult ? (
                     <LighthouseWrapper 
                         data={scanResult} 
+                        projectId={activeProject?._id}
+                        url={scanResult.url || url}
                         mobileScreen={scanResult.mobileScreen}
                         desktopScreen={scanResult.desktopScreen}
                     /> 
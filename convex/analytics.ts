@@ -105,6 +105,7 @@ export const getOverview = action({
     projectId: v.string(),
     startDate: v.string(),
     endDate: v.string(),
+    timezone: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -124,6 +125,9 @@ export const getOverview = action({
       startDate: args.startDate,
       endDate: args.endDate,
     });
+    if (args.timezone) {
+      params.set("timezone", args.timezone);
+    }
 
     const response = await analyticsFetch(`/analytics/overview?${params}`);
 
@@ -136,6 +140,7 @@ export const getTrafficData = action({
     projectId: v.string(),
     startDate: v.string(),
     endDate: v.string(),
+    timezone: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -155,6 +160,9 @@ export const getTrafficData = action({
       startDate: args.startDate,
       endDate: args.endDate,
     });
+    if (args.timezone) {
+      params.set("timezone", args.timezone);
+    }
 
     const response = await analyticsFetch(`/analytics/traffic?${params}`);
 
@@ -205,6 +213,7 @@ export const getTopPages = action({
     projectId: v.string(),
     startDate: v.string(),
     endDate: v.string(),
+    timezone: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -224,6 +233,9 @@ export const getTopPages = action({
       startDate: args.startDate,
       endDate: args.endDate,
     });
+    if (args.timezone) {
+      params.set("timezone", args.timezone);
+    }
 
     const response = await analyticsFetch(`/analytics/top-pages?${params}`);
     return response;
@@ -234,6 +246,20 @@ export const getTopPages = action({
 export const getSessions = action({
   args: {
     projectId: v.string(),
+    startDate: v.optional(v.string()),
+    endDate: v.optional(v.string()),
+    country: v.optional(v.string()),
+    device: v.optional(v.string()),
+    userId: v.optional(v.string()),
+    clientId: v.optional(v.string()),
+    url: v.optional(v.string()),
+    event: v.optional(v.string()),
+    minDurationMs: v.optional(v.number()),
+    hasRageClicks: v.optional(v.boolean()),
+    hasErrors: v.optional(v.boolean()),
+    sort: v.optional(v.string()),
+    cursor: v.optional(v.string()),
+    limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -247,9 +273,19 @@ export const getSessions = action({
       projectId: args.projectId,
     });
 
+    // Only send the filters that are set
+    const { projectId, ...filters } = args;
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    }
+
     // Call backend API
+    const query = params.toString();
     const response = await analyticsFetch(
-      `/sessions/projects/${args.projectId}`,
+      `/sessions/projects/${projectId}${query ? `?${query}` : ""}`,
     );
     return response;
   },
@@ -388,6 +424,12 @@ export const fetchHeatmapData = action({
   args: {
     projectId: v.id("projects"),
     fullUrl: v.string(),
+    startDate: v.optional(v.string()),
+    endDate: v.optional(v.string()),
+    screenClass: v.optional(v.string()),
+    layoutHash: v.optional(v.string()),
+    country: v.optional(v.string()),
+    visitorType: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -399,9 +441,71 @@ export const fetchHeatmapData = action({
       projectId: args.projectId,
     });
 
+    // Optional click heatmap filters (date range, device, layout, segment)
+    const params = new URLSearchParams();
+    for (const key of [
+      "startDate",
+      "endDate",
+      "screenClass",
+      "layoutHash",
+      "country",
+      "visitorType",
+    ] as const) {
+      const value = args[key];
+      if (value) {
+        params.set(key, value);
+      }
+    }
+    const query = params.toString() ? `?${params}` : "";
+
     // Call analytics backend to fetch heatmap data
     const response = await analyticsFetch(
-      `/heatmaps/${args.projectId}/${encodeURIComponent(args.fullUrl)}`,
+      `/heatmaps/${args.projectId}/${encodeURIComponent(args.fullUrl)}${query}`,
+    );
+
+    return response;
+  },
+});
+
+// Click Map: GET /heatmaps/:projectId/:url/elements
+export const fetchHeatmapElements = action({
+  args: {
+    projectId: v.id("projects"),
+    fullUrl: v.string(),
+    startDate: v.optional(v.string()),
+    endDate: v.optional(v.string()),
+    screenClass: v.optional(v.string()),
+    layoutHash: v.optional(v.string()),
+    limit: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    const params = new URLSearchParams();
+    for (const key of [
+      "startDate",
+      "endDate",
+      "screenClass",
+      "layoutHash",
+      "limit",
+    ] as const) {
+      const value = args[key];
+      if (value) {
+        params.set(key, value);
+      }
+    }
+    const query = params.toString() ? `?${params}` : "";
+
+    // Call analytics backend to rank the clicked elements of the page
+    const response = await analyticsFetch(
+      `/heatmaps/${args.projectId}/${encodeURIComponent(args.fullUrl)}/elements${query}`,
     );
 
     return response;
@@ -415,6 +519,12 @@ export const getRetentionCohorts = action({
     startDate: v.string(),
     endDate: v.string(),
     intervals: v.string(),
+    timezone: v.optional(v.string()),
+    granularity: v.optional(v.string()),
+    breakdown: v.optional(v.string()),
+    mode: v.optional(v.string()),
+    startEvent: v.optional(v.string()),
+    returnEvent: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -435,8 +545,367 @@ export const getRetentionCohorts = action({
       endDate: args.endDate,
       intervals: args.intervals,
     });
+    if (args.timezone) {
+      params.set("timezone", args.timezone);
+    }
+    if (args.granularity) {
+      params.set("granularity", args.granularity);
+    }
+    if (args.breakdown) {
+      params.set("breakdown", args.breakdown);
+    }
+    if (args.mode) {
+      params.set("mode", args.mode);
+    }
+    if (args.startEvent) {
+      params.set("startEvent", args.startEvent);
+    }
+    if (args.returnEvent) {
+      params.set("returnEvent", args.returnEvent);
+    }
 
     const response = await analyticsFetch(`/analytics/retention?${params}`);
     return response;
   },
 });
+
+// Funnels: POST /analytics/funnels
+export const getFunnel = action({
+  args: {
+    projectId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    steps: v.array(
+      v.union(
+        v.object({
+          type: v.literal("pageview"),
+          urlPattern: v.string(),
+          label: v.optional(v.string()),
+        }),
+        v.object({
+          type: v.literal("click"),
+          selector: v.string(),
+          urlPattern: v.optional(v.string()),
+          label: v.optional(v.string()),
+        }),
+        v.object({
+          type: v.literal("custom"),
+          eventName: v.string(),
+          label: v.optional(v.string()),
+        }),
+      ),
+    ),
+    conversionWindowSeconds: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call analytics backend to compute the funnel
+    const response = await analyticsFetch(`/analytics/funnels`, "POST", {
+      body: JSON.stringify(args),
+    });
+    return response;
+  },
+});
+
+// Form Analytics: GET /analytics/forms
+export const getFormAnalytics = action({
+  args: {
+    projectId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    formId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call analytics backend to fetch form field analytics
+    const params = new URLSearchParams({
+      projectId: args.projectId,
+      startDate: args.startDate,
+      endDate: args.endDate,
+    });
+    if (args.formId) {
+      params.set("formId", args.formId);
+    }
+
+    const response = await analyticsFetch(`/analytics/forms?${params}`);
+    return response;
+  },
+});
+
+// Web Vitals (real users, p75): GET /analytics/vitals
+export const getWebVitals = action({
+  args: {
+    projectId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    metric: v.optional(v.string()),
+    path: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call analytics backend to fetch web vitals
+    const params = new URLSearchParams({
+      projectId: args.projectId,
+      startDate: args.startDate,
+      endDate: args.endDate,
+    });
+    if (args.metric) {
+      params.set("metric", args.metric);
+    }
+    if (args.path) {
+      params.set("path", args.path);
+    }
+
+    const response = await analyticsFetch(`/analytics/vitals?${params}`);
+    return response;
+  },
+});
+
+// Error Tracking (issues grouped by fingerprint): GET /analytics/errors
+export const getErrorIssues = action({
+  args: {
+    projectId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call analytics backend to fetch error issues
+    const params = new URLSearchParams({
+      projectId: args.projectId,
+      startDate: args.startDate,
+      endDate: args.endDate,
+    });
+    if (args.limit !== undefined) {
+      params.set("limit", String(args.limit));
+    }
+
+    const response = await analyticsFetch(`/analytics/errors?${params}`);
+    return response;
+  },
+});
+
+// Frustration signals (rage, dead, error clicks, U-turns): GET /analytics/frustration
+export const getFrustration = action({
+  args: {
+    projectId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    sort: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call analytics backend to rank pages and elements by frustration signals
+    const params = new URLSearchParams({
+      projectId: args.projectId,
+      startDate: args.startDate,
+      endDate: args.endDate,
+    });
+    if (args.sort) {
+      params.set("sort", args.sort);
+    }
+    if (args.limit !== undefined) {
+      params.set("limit", String(args.limit));
+    }
+
+    const response = await analyticsFetch(`/analytics/frustration?${params}`);
+    return response;
+  },
+});
+
+// Acquisition (visitors, bounce rate, conversions per channel / campaign / source): GET /analytics/acquisition
+export const getAcquisition = action({
+  args: {
+    projectId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    timezone: v.optional(v.string()),
+    conversionEvent: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call analytics backend to break traffic down by first-touch attribution
+    const params = new URLSearchParams({
+      projectId: args.projectId,
+      startDate: args.startDate,
+      endDate: args.endDate,
+    });
+    if (args.timezone) {
+      params.set("timezone", args.timezone);
+    }
+    if (args.conversionEvent) {
+      params.set("conversionEvent", args.conversionEvent);
+    }
+    if (args.limit !== undefined) {
+      params.set("limit", String(args.limit));
+    }
+
+    const response = await analyticsFetch(`/analytics/acquisition?${params}`);
+    return response;
+  },
+});
+
+// Page paths (most common next / previous page sequences, Sankey graph): GET /analytics/paths
+export const getPaths = action({
+  args: {
+    projectId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    page: v.string(),
+    direction: v.optional(v.union(v.literal("next"), v.literal("previous"))),
+    steps: v.optional(v.number()),
+    timezone: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call analytics backend to follow sessions from (or back to) the page
+    const params = new URLSearchParams({
+      projectId: args.projectId,
+      startDate: args.startDate,
+      endDate: args.endDate,
+      page: args.page,
+    });
+    if (args.direction) {
+      params.set("direction", args.direction);
+    }
+    if (args.steps !== undefined) {
+      params.set("steps", String(args.steps));
+    }
+    if (args.timezone) {
+      params.set("timezone", args.timezone);
+    }
+    if (args.limit !== undefined) {
+      params.set("limit", String(args.limit));
+    }
+
+    const response = await analyticsFetch(`/analytics/paths?${params}`);
+    return response;
+  },
+});
+
+// Replay Chunk: GET /sessions/replays/{replayId}/chunks/{sequence}
+export const getReplayChunk = action({
+  args: {
+    projectId: v.string(),
+    replayId: v.string(),
+    sequence: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call backend API (the gzip chunk is decoded by fetch)
+    const response = await analyticsFetch(
+      `/sessions/replays/${encodeURIComponent(args.replayId)}/chunks/${args.sequence}`,
+    );
+    return response;
+  },
+});
+
+// Live Replay Events: GET /sessions/replays/{replayId}/live
+export const getLiveReplayEvents = action({
+  args: {
+    projectId: v.string(),
+    replayId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    // Verify user has access to this project
+    await ctx.runQuery(internal.analytics.verifyProjectAccess, {
+      clerkId: identity.subject,
+      projectId: args.projectId,
+    });
+
+    // Call backend API
+    const response = await analyticsFetch(
+      `/sessions/replays/${encodeURIComponent(args.replayId)}/live`,
+    );
+    return response;
+  },
+});
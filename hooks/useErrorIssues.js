@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+export const useErrorIssues = ({ projectId, startDate, endDate, limit }) => {
+  const [data, setData] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(null);
+
+  const getErrorIssues = useAction(api.analytics.getErrorIssues);
+
+  const fetch = useCallback(async () => {
+    // Validate that required params are defined
+    if (!projectId || !startDate || !endDate) {
+      setData(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await getErrorIssues({
+        projectId,
+        startDate,
+        endDate,
+        ...(limit ? { limit } : {}),
+      });
+      setData(result);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch error issues",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, startDate, endDate, limit, getErrorIssues]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  return { data, loading, error, refetch: fetch };
+};
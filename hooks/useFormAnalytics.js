@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+export const useFormAnalytics = ({ projectId, startDate, endDate, formId }) => {
+  const [data, setData] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(null);
+
+  const getFormAnalytics = useAction(api.analytics.getFormAnalytics);
+
+  const fetch = useCallback(async () => {
+    // Validate that required params are defined
+    if (!projectId || !startDate || !endDate) {
+      setData(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await getFormAnalytics({
+        projectId,
+        startDate,
+        endDate,
+        ...(formId ? { formId } : {}),
+      });
+      setData(result);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch form analytics",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, startDate, endDate, formId, getFormAnalytics]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  return { data, loading, error, refetch: fetch };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+export const useFunnel = ({
+  projectId,
+  startDate,
+  endDate,
+  steps,
+  conversionWindowSeconds,
+}) => {
+  const [data, setData] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(null);
+
+  const getFunnel = useAction(api.analytics.getFunnel);
+
+  // Steps are an array; key the fetch on their content, not identity
+  const stepsKey = JSON.stringify(steps || []);
+
+  const fetch = useCallback(async () => {
+    const parsedSteps = JSON.parse(stepsKey);
+
+    // A funnel needs a project, a range and at least 2 steps
+    if (!projectId || !startDate || !endDate || parsedSteps.length < 2) {
+      setData(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await getFunnel({
+        projectId,
+        startDate,
+        endDate,
+        steps: parsedSteps,
+        conversionWindowSeconds,
+      });
+      setData(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch funnel");
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    projectId,
+    startDate,
+    endDate,
+    stepsKey,
+    conversionWindowSeconds,
+    getFunnel,
+  ]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  return { data, loading, error, refetch: fetch };
+};
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { getBrowserTimezone } from "@/utils/dateFormatter";
+
+export const usePaths = ({
+  projectId,
+  startDate,
+  endDate,
+  page,
+  direction = "next",
+  steps = 3,
+}) => {
+  const [data, setData] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(null);
+
+  const getPaths = useAction(api.analytics.getPaths);
+
+  const fetch = useCallback(async () => {
+    // Paths start (or end) on a page
+    if (!projectId || !startDate || !endDate || !page) {
+      setData(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await getPaths({
+        projectId,
+        startDate,
+        endDate,
+        page,
+        direction,
+        steps,
+        timezone: getBrowserTimezone(),
+      });
+      setData(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch paths");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, startDate, endDate, page, direction, steps, getPaths]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  return { data, loading, error, refetch: fetch };
+};
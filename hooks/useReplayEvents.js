@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+/**
+ * Events of a replay, loaded from its manifest: every compacted chunk,
+ * then the live events not compacted yet
+ */
+export const useReplayEvents = ({ projectId, replay }) => {
+  const [data, setData] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(null);
+
+  const getReplayChunk = useAction(api.analytics.getReplayChunk);
+  const getLiveReplayEvents = useAction(api.analytics.getLiveReplayEvents);
+
+  const fetch = useCallback(async () => {
+    if (!projectId || !replay) {
+      setData(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { replayId } = replay;
+      const [chunks, live] = await Promise.all([
+        Promise.all(
+          (replay.chunks || []).map((chunk) =>
+            getReplayChunk({ projectId, replayId, sequence: chunk.sequence }),
+          ),
+        ),
+        replay.live
+          ? getLiveReplayEvents({ projectId, replayId })
+          : Promise.resolve({ events: [] }),
+      ]);
+
+      // One event per eventId, in time order (chunks and live can overlap)
+      const seen = new Set();
+      const events = [...chunks.flat(), ...live.events]
+        .filter((event) => {
+          if (seen.has(event.eventId)) return false;
+          seen.add(event.eventId);
+          return true;
+        })
+        .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+
+      setData(events);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch replay events",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, replay, getReplayChunk, getLiveReplayEvents]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  return { data, loading, error, refetch: fetch };
+};
@@ -1,12 +1,16 @@
 import { useCallback, useEffect, useState } from "react";
 import { useAction } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { getBrowserTimezone } from "@/utils/dateFormatter";
 
 export const useRetentionCohorts = ({
   projectId,
   startDate,
   endDate,
   intervals,
+  granularity,
+  breakdown,
+  events,
 }) => {
   const [data, setData] = useState(null);
   const [loading, setLoading] = useState(false);
@@ -30,6 +34,17 @@ export const useRetentionCohorts = ({
         startDate,
         endDate,
         intervals,
+        timezone: getBrowserTimezone(),
+        ...(granularity ? { granularity } : {}),
+        ...(breakdown ? { breakdown } : {}),
+        // Event retention: { startEvent, returnEvent } as "custom:name" / "pageview:/path*"
+        ...(events
+          ? {
+              mode: "event",
+              startEvent: events.startEvent,
+              returnEvent: events.returnEvent,
+            }
+          : {}),
       });
       setData(result);
     } catch (err) {
@@ -39,7 +54,16 @@ export const useRetentionCohorts = ({
     } finally {
       setLoading(false);
     }
-  }, [projectId, startDate, endDate, intervals, getRetentionCohorts]);
+  }, [
+    projectId,
+    startDate,
+    endDate,
+    intervals,
+    granularity,
+    breakdown,
+    events,
+    getRetentionCohorts,
+  ]);
 
   useEffect(() => {
     fetch();
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+// Drop empty filters so the backend only sees the ones that are set
+const activeFilters = (filters) =>
+  Object.fromEntries(
+    Object.entries(filters).filter(
+      ([, value]) => value !== undefined && value !== null && value !== "",
+    ),
+  );
+
+export const useSessionSearch = ({ projectId, filters, limit = 25 }) => {
+  const [sessions, setSessions] = useState([]);
+  const [nextCursor, setNextCursor] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState(null);
+
+  const getSessions = useAction(api.analytics.getSessions);
+  const filtersKey = JSON.stringify(activeFilters(filters));
+
+  const search = useCallback(
+    async (cursor) => {
+      const result = await getSessions({
+        projectId,
+        ...JSON.parse(filtersKey),
+        limit,
+        ...(cursor ? { cursor } : {}),
+      });
+      return {
+        sessions: result?.sessions || [],
+        nextCursor: result?.nextCursor || null,
+      };
+    },
+    [projectId, filtersKey, limit, getSessions],
+  );
+
+  // First page: runs again whenever the filters change
+  const fetch = useCallback(async () => {
+    if (!projectId) {
+      setSessions([]);
+      setNextCursor(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const page = await search();
+      setSessions(page.sessions);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to search sessions",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, search]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    setError(null);
+
+    try {
+      const page = await search(nextCursor);
+      setSessions((previous) => [...previous, ...page.sessions]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to search sessions",
+      );
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, search]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  return {
+    sessions,
+    loading,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refetch: fetch,
+  };
+};
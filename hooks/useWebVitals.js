@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+export const useWebVitals = ({ projectId, startDate, endDate, path }) => {
+  const [data, setData] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(null);
+
+  const getWebVitals = useAction(api.analytics.getWebVitals);
+
+  const fetch = useCallback(async () => {
+    // Validate that required params are defined
+    if (!projectId || !startDate || !endDate) {
+      setData(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await getWebVitals({
+        projectId,
+        startDate,
+        endDate,
+        ...(path ? { path } : {}),
+      });
+      setData(result);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch web vitals",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, startDate, endDate, path, getWebVitals]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  return { data, loading, error, refetch: fetch };
+};
@@ -0,0 +1,17 @@
+CREATE TABLE "custom_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"user_id" text,
+	"event_name" text NOT NULL,
+	"properties" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"url" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "custom_events_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+CREATE INDEX "custom_events_project_name_ts_idx" ON "custom_events" USING btree ("project_id","event_name","timestamp");--> statement-breakpoint
+CREATE INDEX "custom_events_properties_idx" ON "custom_events" USING gin ("properties");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "events" ADD COLUMN "selector" text;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "event_name" text;--> statement-breakpoint
+CREATE INDEX "events_project_type_ts_idx" ON "events" USING btree ("project_id","type","timestamp");
\ No newline at end of file
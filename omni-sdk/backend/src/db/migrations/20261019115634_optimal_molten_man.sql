@@ -0,0 +1,20 @@
+CREATE TABLE "form_interactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"user_id" text,
+	"url" text NOT NULL,
+	"form_id" text NOT NULL,
+	"field_name" text,
+	"selector" text NOT NULL,
+	"input_type" text NOT NULL,
+	"action" text NOT NULL,
+	"duration_ms" integer,
+	"timestamp" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "form_interactions_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+CREATE INDEX "form_interactions_project_form_ts_idx" ON "form_interactions" USING btree ("project_id","form_id","timestamp");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "user_aliases" (
+	"project_id" text NOT NULL,
+	"alias_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "user_aliases_project_alias_key" UNIQUE("project_id","alias_id")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "traits" jsonb;--> statement-breakpoint
+CREATE INDEX "user_aliases_project_user_idx" ON "user_aliases" USING btree ("project_id","user_id");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "web_vitals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"user_id" text,
+	"url" text NOT NULL,
+	"path" text NOT NULL,
+	"metric" text NOT NULL,
+	"value" double precision NOT NULL,
+	"rating" text NOT NULL,
+	"selector" text,
+	"navigation_type" text,
+	"device" text,
+	"country" text,
+	"timestamp" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "web_vitals_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+CREATE INDEX "web_vitals_project_metric_ts_idx" ON "web_vitals" USING btree ("project_id","metric","timestamp");
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "error_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"fingerprint" text NOT NULL,
+	"session_id" text NOT NULL,
+	"replay_id" text,
+	"client_id" text NOT NULL,
+	"user_id" text,
+	"url" text NOT NULL,
+	"error_type" text NOT NULL,
+	"message" text NOT NULL,
+	"stack" text,
+	"source" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "error_events_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+CREATE TABLE "error_issues" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" text NOT NULL,
+	"fingerprint" text NOT NULL,
+	"error_type" text NOT NULL,
+	"message" text NOT NULL,
+	"culprit" text,
+	"first_seen_at" timestamp with time zone NOT NULL,
+	"last_seen_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "error_issues_project_fingerprint_key" UNIQUE("project_id","fingerprint")
+);
+--> statement-breakpoint
+CREATE INDEX "error_events_project_fingerprint_ts_idx" ON "error_events" USING btree ("project_id","fingerprint","timestamp");
\ No newline at end of file
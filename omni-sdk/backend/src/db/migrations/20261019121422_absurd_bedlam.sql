@@ -0,0 +1,18 @@
+CREATE TABLE "scroll_depths" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" text NOT NULL,
+	"page_view_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"url" text NOT NULL,
+	"screen_class" text,
+	"max_depth" double precision NOT NULL,
+	"max_scroll_y" integer,
+	"page_height" integer,
+	"viewport_height" integer,
+	"timestamp" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "scroll_depths_project_page_view_key" UNIQUE("project_id","page_view_id")
+);
+--> statement-breakpoint
+CREATE INDEX "scroll_depths_project_url_screen_idx" ON "scroll_depths" USING btree ("project_id","url","screen_class");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "heatmap_activity" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" text NOT NULL,
+	"url" text NOT NULL,
+	"type" text NOT NULL,
+	"screen_class" text NOT NULL,
+	"grid_x" integer NOT NULL,
+	"grid_y" integer NOT NULL,
+	"value" double precision DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "heatmap_activity_cell_key" UNIQUE("project_id","url","type","screen_class","grid_x","grid_y")
+);
+--> statement-breakpoint
+CREATE TABLE "heatmap_aggregated_replays" (
+	"replay_id" text PRIMARY KEY NOT NULL,
+	"project_id" text NOT NULL,
+	"event_count" integer NOT NULL,
+	"aggregated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "rrweb_events_replay_ts_idx" ON "rrweb_events" USING btree ("replay_id","timestamp");
\ No newline at end of file
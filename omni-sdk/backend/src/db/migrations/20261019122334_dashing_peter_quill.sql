@@ -0,0 +1,8 @@
+ALTER TABLE "heatmap_clicks" ADD COLUMN "event_id" text;--> statement-breakpoint
+ALTER TABLE "heatmap_clicks" ADD COLUMN "client_id" text;--> statement-breakpoint
+ALTER TABLE "heatmap_clicks" ADD COLUMN "user_id" text;--> statement-breakpoint
+ALTER TABLE "heatmap_clicks" ADD COLUMN "country" text;--> statement-breakpoint
+ALTER TABLE "heatmap_clicks" ADD COLUMN "timestamp" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+UPDATE "heatmap_clicks" SET "timestamp" = "last_click_at";--> statement-breakpoint
+CREATE INDEX "heatmap_clicks_project_url_ts_idx" ON "heatmap_clicks" USING btree ("project_id","url","timestamp");--> statement-breakpoint
+ALTER TABLE "heatmap_clicks" ADD CONSTRAINT "heatmap_clicks_event_id_unique" UNIQUE("event_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "heatmap_clicks" ADD COLUMN "xpath" text;--> statement-breakpoint
+ALTER TABLE "heatmap_clicks" ADD COLUMN "element_key" text;--> statement-breakpoint
+CREATE INDEX "heatmap_clicks_session_ts_idx" ON "heatmap_clicks" USING btree ("session_id","timestamp");
\ No newline at end of file
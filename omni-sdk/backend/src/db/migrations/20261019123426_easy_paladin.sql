@@ -0,0 +1,24 @@
+CREATE TABLE "dead_clicks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" text NOT NULL,
+	"click_event_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"user_id" text,
+	"url" text NOT NULL,
+	"selector" text NOT NULL,
+	"xpath" text,
+	"tag_name" text NOT NULL,
+	"response_ms" integer,
+	"response_type" text,
+	"window_ms" integer NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "dead_clicks_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+CREATE INDEX "dead_clicks_project_ts_idx" ON "dead_clicks" USING btree ("project_id","timestamp");--> statement-breakpoint
+CREATE INDEX "dead_clicks_session_ts_idx" ON "dead_clicks" USING btree ("session_id","timestamp");--> statement-breakpoint
+CREATE INDEX "dead_clicks_click_event_idx" ON "dead_clicks" USING btree ("click_event_id");--> statement-breakpoint
+CREATE INDEX "error_events_session_ts_idx" ON "error_events" USING btree ("session_id","timestamp");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX "events_session_type_idx" ON "events" USING btree ("session_id","type");--> statement-breakpoint
+CREATE INDEX "sessions_project_created_idx" ON "sessions" USING btree ("project_id","created_at");
\ No newline at end of file
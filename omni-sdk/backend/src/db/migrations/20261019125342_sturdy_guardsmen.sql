@@ -0,0 +1,3 @@
+ALTER TABLE "user_daily_activity" ADD COLUMN "first_activity_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+UPDATE "user_daily_activity" SET "first_activity_at" = "last_activity_at";--> statement-breakpoint
+UPDATE "user_daily_activity" a SET "first_activity_at" = e."first_at" FROM (SELECT "project_id", COALESCE("user_id", "client_id") AS "distinct_id", DATE("timestamp" AT TIME ZONE 'UTC') AS "activity_date", MIN("timestamp") AS "first_at" FROM "events" GROUP BY 1, 2, 3) e WHERE a."project_id" = e."project_id" AND a."distinct_id" = e."distinct_id" AND a."activity_date" = e."activity_date" AND e."first_at" < a."first_activity_at";
@@ -0,0 +1,7 @@
+ALTER TABLE "sessions" ADD COLUMN "channel" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "source" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "medium" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "campaign" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "term" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "content" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "referrer_domain" text;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "dead_letter_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"batch_id" text NOT NULL,
+	"event_type" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"location" text,
+	"error" text NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"first_failed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_failed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"redriven_at" timestamp with time zone,
+	CONSTRAINT "dead_letter_events_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+CREATE INDEX "dead_letter_events_last_failed_idx" ON "dead_letter_events" USING btree ("last_failed_at");--> statement-breakpoint
+CREATE INDEX "dead_letter_events_project_last_failed_idx" ON "dead_letter_events" USING btree ("project_id","last_failed_at");
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE "replay_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"replay_id" text NOT NULL,
+	"sequence" integer NOT NULL,
+	"start_time" timestamp with time zone NOT NULL,
+	"end_time" timestamp with time zone NOT NULL,
+	"event_count" integer NOT NULL,
+	"raw_bytes" integer NOT NULL,
+	"compressed_bytes" integer NOT NULL,
+	"full_snapshot_at" timestamp with time zone,
+	"data" "bytea" NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "replay_chunks_replay_sequence_unique" UNIQUE("replay_id","sequence")
+);
+--> statement-breakpoint
+CREATE TABLE "replay_manifests" (
+	"replay_id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"user_id" text,
+	"url" text NOT NULL,
+	"start_time" timestamp with time zone NOT NULL,
+	"end_time" timestamp with time zone NOT NULL,
+	"event_count" integer NOT NULL,
+	"chunk_count" integer NOT NULL,
+	"raw_bytes" integer NOT NULL,
+	"compressed_bytes" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "replay_chunks_replay_start_idx" ON "replay_chunks" USING btree ("replay_id","start_time");--> statement-breakpoint
+CREATE INDEX "replay_manifests_session_idx" ON "replay_manifests" USING btree ("session_id");
\ No newline at end of file
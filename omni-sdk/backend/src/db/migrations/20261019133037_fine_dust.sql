@@ -0,0 +1,16 @@
+CREATE TABLE "data_subject_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" text NOT NULL,
+	"subject_hash" text NOT NULL,
+	"type" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"requested_by" text,
+	"reason" text,
+	"row_counts" jsonb,
+	"error" text,
+	"requested_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE INDEX "data_subject_requests_project_requested_idx" ON "data_subject_requests" USING btree ("project_id","requested_at");--> statement-breakpoint
+CREATE INDEX "data_subject_requests_subject_idx" ON "data_subject_requests" USING btree ("subject_hash");
\ No newline at end of file
@@ -6,116 +6,615 @@ import {
   jsonb,
   numeric,
   integer,
+  doublePrecision,
   date,
   index,
   unique,
+  customType,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
+// Binary column (node-postgres reads bytea as a Buffer)
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
 /**
  * Sessions table - stores session metadata
+ *
+ * Attribution columns hold the first touch: how the visitor arrived, parsed from
+ * the URL and referrer of the session's first event (see utils/attribution).
+ * They are set once and never overwritten by later events
+ *
+ * Indexes:
+ * - (projectId, createdAt): session search, most recent first
  */
-export const sessions = pgTable("sessions", {
-  id: text("id").primaryKey(), // session_id from SDK
-  projectId: text("project_id").notNull(),
-  clientId: text("client_id").notNull(),
-  userId: text("user_id"),
-  location: text("location").default("ET").notNull(), // ISO 2-letter country code
-  device: text("device"), // 'mobile' | 'tablet' | 'desktop'
-  createdAt: timestamp("created_at", { withTimezone: true })
-    .defaultNow()
-    .notNull(),
-  updatedAt: timestamp("updated_at", { withTimezone: true })
-    .defaultNow()
-    .notNull(),
-});
+export const sessions = pgTable(
+  "sessions",
+  {
+    id: text("id").primaryKey(), // session_id from SDK
+    projectId: text("project_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    location: text("location").default("ET").notNull(), // ISO 2-letter country code
+    device: text("device"), // 'mobile' | 'tablet' | 'desktop'
+    channel: text("channel"), // 'organic_search' | 'social' | 'paid' | 'email' | 'direct' | 'referral'
+    source: text("source"), // utm_source, ad network or referrer domain
+    medium: text("medium"), // utm_medium
+    campaign: text("campaign"), // utm_campaign
+    term: text("term"), // utm_term
+    content: text("content"), // utm_content
+    referrerDomain: text("referrer_domain"), // external referrer host, without www.
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("sessions_project_created_idx").on(table.projectId, table.createdAt),
+  ]
+);
 
 /**
  * Events table - tracks all event types (rrweb, click, pageview, input, route, custom)
  * Generic event store for accurate event counting across all event sources
  * Note: Detailed event data is stored in specialized tables (rrwebEvents, heatmapClicks)
+ *
+ * selector / eventName are denormalized so funnels can match click and custom
+ * steps without joining the specialized tables
  */
-export const events = pgTable("events", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
-  projectId: text("project_id").notNull(),
-  sessionId: text("session_id").notNull(),
-  clientId: text("client_id").notNull(),
-  userId: text("user_id"),
-  type: text("type").notNull(), // 'rrweb', 'click', 'pageview', 'input', 'route', 'custom', 'session_snapshot'
-  timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
-  url: text("url").notNull(),
-  referrer: text("referrer"),
-  createdAt: timestamp("created_at", { withTimezone: true })
-    .defaultNow()
-    .notNull(),
-});
+export const events = pgTable(
+  "events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    sessionId: text("session_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    type: text("type").notNull(), // 'rrweb', 'click', 'pageview', 'input', 'route', 'custom', 'session_snapshot', 'identify', 'web_vital', 'error', 'scroll', 'dead_click'
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    url: text("url").notNull(),
+    referrer: text("referrer"),
+    selector: text("selector"), // click events only
+    eventName: text("event_name"), // custom events only
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("events_project_type_ts_idx").on(
+      table.projectId,
+      table.type,
+      table.timestamp
+    ),
+    // Per-session lookups: event counts, visited pages, custom events
+    index("events_session_type_idx").on(table.sessionId, table.type),
+  ]
+);
 
 /**
  * RRweb events table - stores session replay events in order
+ * Holds the events of live replays; finished replays are compacted into
+ * replay_chunks and their rows deleted
+ *
+ * Indexes:
+ * - (replayId, timestamp): replay playback and heatmap aggregation per replay
  */
-export const rrwebEvents = pgTable("rrweb_events", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  sessionId: text("session_id").notNull(),
-  replayId: text("replay_id").notNull(), // tab-scoped replay ID
-  eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
-  projectId: text("project_id").notNull(),
-  clientId: text("client_id").notNull(),
-  userId: text("user_id"),
-  timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
-  url: text("url").notNull(),
-  referrer: text("referrer"),
-  // Raw rrweb payload (verbatim from SDK)
-  rrwebPayload: jsonb("rrweb_payload").notNull(),
-  schemaVersion: text("schema_version").notNull(),
-  // Page info for later filtering
-  pageWidth: integer("page_width"),
-  pageHeight: integer("page_height"),
-  viewportWidth: integer("viewport_width"),
-  viewportHeight: integer("viewport_height"),
-  createdAt: timestamp("created_at", { withTimezone: true })
-    .defaultNow()
-    .notNull(),
-});
+export const rrwebEvents = pgTable(
+  "rrweb_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: text("session_id").notNull(),
+    replayId: text("replay_id").notNull(), // tab-scoped replay ID
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    url: text("url").notNull(),
+    referrer: text("referrer"),
+    // Raw rrweb payload (verbatim from SDK)
+    rrwebPayload: jsonb("rrweb_payload").notNull(),
+    schemaVersion: text("schema_version").notNull(),
+    // Page info for later filtering
+    pageWidth: integer("page_width"),
+    pageHeight: integer("page_height"),
+    viewportWidth: integer("viewport_width"),
+    viewportHeight: integer("viewport_height"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("rrweb_events_replay_ts_idx").on(table.replayId, table.timestamp),
+  ]
+);
+
+/**
+ * Replay chunks table - compacted session replay events
+ * Finished replays are moved out of rrweb_events into gzip-compressed,
+ * time-ordered chunks (see utils/replayChunks), served to the player on demand
+ *
+ * Schema notes:
+ * - sequence: order of the chunk in its replay, from 0; events that arrive
+ *   after compaction get later chunks, which may overlap earlier ones in time
+ * - data: gzip of the JSON array of replay events (as returned by the API)
+ * - rawBytes / compressedBytes: JSON size before and after compression
+ * - fullSnapshotAt: first rrweb full snapshot in the chunk, a point playback
+ *   can start from
+ *
+ * Indexes:
+ * - (replayId, sequence): unique, chunk lookup
+ * - (replayId, startTime): chunks of a time range
+ */
+export const replayChunks = pgTable(
+  "replay_chunks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    replayId: text("replay_id").notNull(),
+    sequence: integer("sequence").notNull(),
+    startTime: timestamp("start_time", { withTimezone: true }).notNull(),
+    endTime: timestamp("end_time", { withTimezone: true }).notNull(),
+    eventCount: integer("event_count").notNull(),
+    rawBytes: integer("raw_bytes").notNull(),
+    compressedBytes: integer("compressed_bytes").notNull(),
+    fullSnapshotAt: timestamp("full_snapshot_at", { withTimezone: true }),
+    data: bytea("data").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    unique("replay_chunks_replay_sequence_unique").on(
+      table.replayId,
+      table.sequence
+    ),
+    index("replay_chunks_replay_start_idx").on(table.replayId, table.startTime),
+  ]
+);
+
+/**
+ * Replay manifests table - one row per compacted replay (tab)
+ * Totals over its replay_chunks, updated with every compaction
+ *
+ * Indexes:
+ * - (sessionId): replays of a session
+ */
+export const replayManifests = pgTable(
+  "replay_manifests",
+  {
+    replayId: text("replay_id").primaryKey(),
+    sessionId: text("session_id").notNull(),
+    projectId: text("project_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    url: text("url").notNull(), // first page of the replay
+    startTime: timestamp("start_time", { withTimezone: true }).notNull(),
+    endTime: timestamp("end_time", { withTimezone: true }).notNull(),
+    eventCount: integer("event_count").notNull(),
+    chunkCount: integer("chunk_count").notNull(),
+    rawBytes: integer("raw_bytes").notNull(),
+    compressedBytes: integer("compressed_bytes").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("replay_manifests_session_idx").on(table.sessionId)]
+);
 
 /**
- * Heatmap clicks table - aggregated click data for heatmap rendering
+ * Heatmap clicks table - one row per click, aggregated into the grid at query time
  * Uses a 50x50 grid (0-50 for each normalized axis)
+ *
+ * Schema notes:
+ * - eventId: dedup key; NULL on legacy rows that were pre-aggregated per cell (count > 1)
+ * - country / clientId / userId: filter by country and new vs returning visitors
+ * - layoutHash: page version the click was recorded on, heatmaps are grouped by it
+ * - elementKey: xpath tail + text hash, groups clicks per element for click maps
+ *
+ * Indexes:
+ * - (projectId, url, timestamp): date-range heatmap queries
+ * - (sessionId, timestamp): rage clicks and click-through per session
+ */
+export const heatmapClicks = pgTable(
+  "heatmap_clicks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    sessionId: text("session_id").notNull(),
+    clientId: text("client_id"),
+    userId: text("user_id"),
+    url: text("url").notNull(),
+    // Grid bucket (0-49 for both axes in 50x50 grid)
+    gridX: integer("grid_x").notNull(),
+    gridY: integer("grid_y").notNull(),
+    // Denormalized click info for reference
+    xNorm: numeric("x_norm", { precision: 5, scale: 4 }).notNull(),
+    yNorm: numeric("y_norm", { precision: 5, scale: 4 }).notNull(),
+    pageX: integer("page_x"),
+    pageY: integer("page_y"),
+    // Element info
+    selector: text("selector"),
+    xpath: text("xpath"),
+    tagName: text("tag_name"),
+    elementTextHash: text("element_text_hash"),
+    elementKey: text("element_key"), // stable element id for click maps (utils/elementKey)
+    // Layout info
+    screenClass: text("screen_class"), // 'mobile' | 'tablet' | 'desktop'
+    layoutHash: text("layout_hash"),
+    pageWidth: integer("page_width"),
+    pageHeight: integer("page_height"),
+    viewportWidth: integer("viewport_width"),
+    viewportHeight: integer("viewport_height"),
+    country: text("country"), // ISO 2-letter country code
+    // Aggregation
+    count: integer("count").notNull().default(1),
+    timestamp: timestamp("timestamp", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    lastClickAt: timestamp("last_click_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("heatmap_clicks_project_url_ts_idx").on(
+      table.projectId,
+      table.url,
+      table.timestamp
+    ),
+    index("heatmap_clicks_session_ts_idx").on(
+      table.sessionId,
+      table.timestamp
+    ),
+  ]
+);
+
+/**
+ * Heatmap activity table - move and attention heatmaps derived from rrweb replays
+ * Same 50x50 grid as heatmap_clicks, filled by the heatmap aggregation job
+ *
+ * Schema notes:
+ * - type: 'move' (pointer positions recorded in the cell) | 'attention' (ms the cell was in the viewport)
+ * - screenClass: derived from the replay's viewport width
+ * - value is additive: each aggregated replay adds to it
+ */
+export const heatmapActivity = pgTable(
+  "heatmap_activity",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: text("project_id").notNull(),
+    url: text("url").notNull(),
+    type: text("type").notNull(),
+    screenClass: text("screen_class").notNull(),
+    gridX: integer("grid_x").notNull(),
+    gridY: integer("grid_y").notNull(),
+    value: doublePrecision("value").notNull().default(0),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    unique("heatmap_activity_cell_key").on(
+      table.projectId,
+      table.url,
+      table.type,
+      table.screenClass,
+      table.gridX,
+      table.gridY
+    ),
+  ]
+);
+
+/**
+ * Heatmap aggregated replays table - replays already folded into heatmap_activity
+ * Written in the same transaction as the cells, so a replay is never counted twice
  */
-export const heatmapClicks = pgTable("heatmap_clicks", {
-  id: uuid("id").primaryKey().defaultRandom(),
+export const heatmapAggregatedReplays = pgTable("heatmap_aggregated_replays", {
+  replayId: text("replay_id").primaryKey(),
   projectId: text("project_id").notNull(),
-  sessionId: text("session_id").notNull(),
-  url: text("url").notNull(),
-  // Grid bucket (0-49 for both axes in 50x50 grid)
-  gridX: integer("grid_x").notNull(),
-  gridY: integer("grid_y").notNull(),
-  // Denormalized click info for reference
-  xNorm: numeric("x_norm", { precision: 5, scale: 4 }).notNull(),
-  yNorm: numeric("y_norm", { precision: 5, scale: 4 }).notNull(),
-  pageX: integer("page_x"),
-  pageY: integer("page_y"),
-  // Element info
-  selector: text("selector"),
-  tagName: text("tag_name"),
-  elementTextHash: text("element_text_hash"),
-  // Layout info
-  screenClass: text("screen_class"), // 'mobile' | 'tablet' | 'desktop'
-  layoutHash: text("layout_hash"),
-  pageWidth: integer("page_width"),
-  pageHeight: integer("page_height"),
-  viewportWidth: integer("viewport_width"),
-  viewportHeight: integer("viewport_height"),
-  // Aggregation
-  count: integer("count").notNull().default(1),
-  lastClickAt: timestamp("last_click_at", { withTimezone: true })
-    .defaultNow()
-    .notNull(),
-  createdAt: timestamp("created_at", { withTimezone: true })
+  eventCount: integer("event_count").notNull(),
+  aggregatedAt: timestamp("aggregated_at", { withTimezone: true })
     .defaultNow()
     .notNull(),
 });
 
+/**
+ * Scroll depths table - maximum scroll depth per page view (type: 'scroll')
+ * One row per (projectId, pageViewId), reported by ScrollDepthPlugin
+ *
+ * Schema notes:
+ * - maxDepth: bottom of the viewport / page height (0-1, same scale as yNorm)
+ * - the SDK may report a page view more than once; only deeper reports widen the row
+ *
+ * Indexes:
+ * - (projectId, url, screenClass): scroll-reach heatmap per URL and device
+ */
+export const scrollDepths = pgTable(
+  "scroll_depths",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: text("project_id").notNull(),
+    pageViewId: text("page_view_id").notNull(), // from SDK, one per page view
+    sessionId: text("session_id").notNull(),
+    clientId: text("client_id").notNull(),
+    url: text("url").notNull(),
+    screenClass: text("screen_class"), // 'mobile' | 'tablet' | 'desktop'
+    maxDepth: doublePrecision("max_depth").notNull(),
+    maxScrollY: integer("max_scroll_y"),
+    pageHeight: integer("page_height"),
+    viewportHeight: integer("viewport_height"),
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    unique("scroll_depths_project_page_view_key").on(
+      table.projectId,
+      table.pageViewId
+    ),
+    index("scroll_depths_project_url_screen_idx").on(
+      table.projectId,
+      table.url,
+      table.screenClass
+    ),
+  ]
+);
+
+/**
+ * Custom events table - user-defined events from tracker.trackCustom()
+ * One row per custom event with its name and arbitrary JSON properties
+ *
+ * Indexes:
+ * - (projectId, eventName, timestamp): per-event counts and time series
+ * - properties (GIN): property filters using JSONB containment (@>)
+ */
+export const customEvents = pgTable(
+  "custom_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    sessionId: text("session_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    eventName: text("event_name").notNull(),
+    properties: jsonb("properties").notNull().default({}),
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    url: text("url").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("custom_events_project_name_ts_idx").on(
+      table.projectId,
+      table.eventName,
+      table.timestamp
+    ),
+    index("custom_events_properties_idx").using("gin", table.properties),
+  ]
+);
+
+/**
+ * Form interactions table - field-level form analytics (type: 'input')
+ * One row per focus / blur / change / submit, never stores field values
+ *
+ * Schema notes:
+ * - fieldName is NULL for submit rows (form-level)
+ * - durationMs is only set on blur (time since the field was focused)
+ *
+ * Indexes:
+ * - (projectId, formId, timestamp): per-form abandonment and field stats
+ */
+export const formInteractions = pgTable(
+  "form_interactions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    sessionId: text("session_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    url: text("url").notNull(),
+    formId: text("form_id").notNull(),
+    fieldName: text("field_name"),
+    selector: text("selector").notNull(),
+    inputType: text("input_type").notNull(),
+    action: text("action").notNull(), // 'focus' | 'blur' | 'change' | 'submit'
+    durationMs: integer("duration_ms"),
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("form_interactions_project_form_ts_idx").on(
+      table.projectId,
+      table.formId,
+      table.timestamp
+    ),
+  ]
+);
+
+/**
+ * Web vitals table - real-user performance (type: 'web_vital')
+ * One row per metric per page load, reported by WebVitalsPlugin
+ *
+ * Schema notes:
+ * - metric: 'LCP' | 'INP' | 'CLS' | 'FCP' | 'TTFB'
+ * - value: milliseconds, except CLS (unitless layout shift score)
+ * - path: URL path without origin and query string (grouping key)
+ * - selector: attribution element (LCP element, largest shift, slowest interaction)
+ * - device: screenClass; country: geolocated at ingest
+ *
+ * Indexes:
+ * - (projectId, metric, timestamp): p75 aggregations per date range
+ */
+export const webVitals = pgTable(
+  "web_vitals",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    sessionId: text("session_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    url: text("url").notNull(),
+    path: text("path").notNull(),
+    metric: text("metric").notNull(),
+    value: doublePrecision("value").notNull(),
+    rating: text("rating").notNull(), // 'good' | 'needs-improvement' | 'poor'
+    selector: text("selector"),
+    navigationType: text("navigation_type"),
+    device: text("device"),
+    country: text("country"),
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("web_vitals_project_metric_ts_idx").on(
+      table.projectId,
+      table.metric,
+      table.timestamp
+    ),
+  ]
+);
+
+/**
+ * Error issues table - error groups (type: 'error')
+ * One row per (projectId, fingerprint); occurrences live in error_events
+ *
+ * Schema notes:
+ * - fingerprint: hash of error type + normalized top stack frames (utils/errorFingerprint)
+ * - message/culprit are taken from the first occurrence
+ * - firstSeenAt/lastSeenAt are widened on every occurrence (order independent)
+ */
+export const errorIssues = pgTable(
+  "error_issues",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: text("project_id").notNull(),
+    fingerprint: text("fingerprint").notNull(),
+    errorType: text("error_type").notNull(),
+    message: text("message").notNull(),
+    culprit: text("culprit"), // top stack frame, e.g. "handleClick (/static/js/main.js)"
+    firstSeenAt: timestamp("first_seen_at", { withTimezone: true }).notNull(),
+    lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    unique("error_issues_project_fingerprint_key").on(
+      table.projectId,
+      table.fingerprint
+    ),
+  ]
+);
+
+/**
+ * Error events table - error occurrences (type: 'error')
+ * One row per captured error, linked to its issue by fingerprint
+ *
+ * Schema notes:
+ * - replayId links the occurrence to its session replay (GET /replays/:replayId)
+ * - source: 'onerror' | 'unhandledrejection'
+ *
+ * Indexes:
+ * - (projectId, fingerprint, timestamp): per-issue counts and latest occurrences
+ * - (sessionId, timestamp): errors following a click (error clicks)
+ */
+export const errorEvents = pgTable(
+  "error_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    fingerprint: text("fingerprint").notNull(),
+    sessionId: text("session_id").notNull(),
+    replayId: text("replay_id"),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    url: text("url").notNull(),
+    errorType: text("error_type").notNull(),
+    message: text("message").notNull(),
+    stack: text("stack"),
+    source: text("source").notNull(),
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("error_events_project_fingerprint_ts_idx").on(
+      table.projectId,
+      table.fingerprint,
+      table.timestamp
+    ),
+    index("error_events_session_ts_idx").on(table.sessionId, table.timestamp),
+  ]
+);
+
+/**
+ * Dead clicks table - clicks the page did not respond to (type: 'dead_click')
+ * One row per report from ClickTrackingPlugin, linked to the click by clickEventId
+ *
+ * Schema notes:
+ * - timestamp is the time of the click (clickedAt), not of the report
+ * - responseMs: first DOM mutation / network request / focus / scroll after the click,
+ *   null if none within windowMs. The SDK only reports clicks with responseMs >= 500;
+ *   queries count a click as dead when responseMs is null or >= their threshold
+ * - element identity (elementKey) is read from the click's heatmap_clicks row
+ *
+ * Indexes:
+ * - (projectId, timestamp): project-wide aggregation per selector
+ * - (sessionId, timestamp): dead clicks of a session
+ * - clickEventId: join to the click (heatmap_clicks.event_id, events.event_id)
+ */
+export const deadClicks = pgTable(
+  "dead_clicks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    clickEventId: text("click_event_id").notNull(),
+    projectId: text("project_id").notNull(),
+    sessionId: text("session_id").notNull(),
+    clientId: text("client_id").notNull(),
+    userId: text("user_id"),
+    url: text("url").notNull(),
+    selector: text("selector").notNull(),
+    xpath: text("xpath"),
+    tagName: text("tag_name").notNull(),
+    responseMs: integer("response_ms"),
+    responseType: text("response_type"), // 'mutation' | 'network' | 'focus' | 'scroll'
+    windowMs: integer("window_ms").notNull(),
+    timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("dead_clicks_project_ts_idx").on(table.projectId, table.timestamp),
+    index("dead_clicks_session_ts_idx").on(table.sessionId, table.timestamp),
+    index("dead_clicks_click_event_idx").on(table.clickEventId),
+  ]
+);
+
 /**
  * Users table - retention analytics identity cache
  * Stores the first time a distinct user (userId ?? clientId) was seen per project
@@ -134,6 +633,7 @@ export const users = pgTable(
     distinctId: text("distinct_id").notNull(), // userId ?? clientId (analytics identity)
     firstSeenAt: timestamp("first_seen_at", { withTimezone: true }).notNull(), // UTC, immutable
     country: text("country"), // ISO-2 country code (e.g., 'US', 'GB', 'ET'). Set on first-seen, immutable.
+    traits: jsonb("traits"), // identify() traits, merged on every identify call (userId rows only)
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -164,6 +664,10 @@ export const users = pgTable(
  * - activityDate is stored as DATE (not timestamp) in UTC
  * - Computed from event timestamp as DATE(timestamp AT TIME ZONE 'UTC')
  * - One row per day per user, regardless of event count
+ * - firstActivityAt/lastActivityAt bound the activity within the UTC day. A UTC
+ *   day overlaps at most two local days (barring DST changes in half-hour-offset
+ *   timezones), so the local days a user was active on are the local dates of
+ *   these two timestamps
  *
  * Indexes:
  * - (projectId, activityDate): for day-N cohort queries
@@ -175,6 +679,9 @@ export const userDailyActivity = pgTable(
     projectId: text("project_id").notNull(),
     distinctId: text("distinct_id").notNull(), // userId ?? clientId
     activityDate: date("activity_date").notNull(), // DATE in UTC, e.g. '2025-01-15'
+    firstActivityAt: timestamp("first_activity_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(), // timestamp of earliest event that day
     lastActivityAt: timestamp("last_activity_at", { withTimezone: true })
       .defaultNow()
       .notNull(), // timestamp of most recent event that day
@@ -197,11 +704,156 @@ export const userDailyActivity = pgTable(
   ]
 );
 
+/**
+ * User aliases table - identity stitching
+ * Links an anonymous clientId to the userId it was identified as (tracker.identify)
+ * Queries resolve identity as userId ?? alias.userId ?? clientId, so the anonymous
+ * history before login and the logged-in history count as one person
+ *
+ * Constraints:
+ * - One row per (projectId, aliasId): the first identify on a clientId wins
+ * - tracker.reset() on logout rotates the clientId, so shared devices get new aliases
+ */
+export const userAliases = pgTable(
+  "user_aliases",
+  {
+    projectId: text("project_id").notNull(),
+    aliasId: text("alias_id").notNull(), // anonymous clientId
+    userId: text("user_id").notNull(), // identified userId
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    unique("user_aliases_project_alias_key").on(
+      table.projectId,
+      table.aliasId
+    ),
+    index("user_aliases_project_user_idx").on(table.projectId, table.userId),
+  ]
+);
+
+/**
+ * Project write keys table - ingest authentication
+ * Maps the public writeKey sent by the SDK (?writeKey=) to a project
+ *
+ * Schema notes:
+ * - Keys are stored as SHA-256 hashes, never in plain text
+ * - keyPrefix keeps the first characters for identification in listings
+ * - expiresAt is NULL for the current key; set on rotation to give old keys a grace period
+ * - revokedAt disables a key immediately, regardless of expiresAt
+ */
+export const projectWriteKeys = pgTable(
+  "project_write_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: text("project_id").notNull(),
+    keyHash: text("key_hash").notNull().unique(),
+    keyPrefix: text("key_prefix").notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("project_write_keys_project_idx").on(table.projectId)]
+);
+
+/**
+ * Dead letter events table - ingestion events the worker failed to store
+ * One row per event, with the original payload so it can be re-driven
+ *
+ * Schema notes:
+ * - payload: the event verbatim as queued by POST /ingest
+ * - location: country of its batch, re-queued with the event
+ * - attempts: times the event failed (retries and re-drives included)
+ * - error: message of the latest failure
+ * - redrivenAt: last re-queue through the admin API; the row is deleted once
+ *   the re-driven event is stored
+ *
+ * Indexes:
+ * - (lastFailedAt): listing and DLQ age, oldest first
+ * - (projectId, lastFailedAt): listing per project
+ */
+export const deadLetterEvents = pgTable(
+  "dead_letter_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: text("event_id").notNull().unique(), // from SDK (dedup key)
+    projectId: text("project_id").notNull(),
+    batchId: text("batch_id").notNull(),
+    eventType: text("event_type").notNull(),
+    payload: jsonb("payload").notNull(),
+    location: text("location"),
+    error: text("error").notNull(),
+    attempts: integer("attempts").default(1).notNull(),
+    firstFailedAt: timestamp("first_failed_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    lastFailedAt: timestamp("last_failed_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    redrivenAt: timestamp("redriven_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("dead_letter_events_last_failed_idx").on(table.lastFailedAt),
+    index("dead_letter_events_project_last_failed_idx").on(
+      table.projectId,
+      table.lastFailedAt
+    ),
+  ]
+);
+
+/**
+ * Data subject requests table - audit log of GDPR/CCPA access and erasure requests
+ * One row per request made through /admin/data-subjects
+ *
+ * Schema notes:
+ * - subjectHash: SHA-256 of the distinct ID, so the log outlives an erasure
+ *   without keeping the identifier (hash an ID to find its requests)
+ * - type: 'export' | 'erasure'
+ * - status: 'pending' | 'completed' | 'failed'
+ * - rowCounts: rows exported or erased per table
+ *
+ * Indexes:
+ * - (projectId, requestedAt): listing per project, most recent first
+ * - (subjectHash): requests about a distinct ID
+ */
+export const dataSubjectRequests = pgTable(
+  "data_subject_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: text("project_id").notNull(),
+    subjectHash: text("subject_hash").notNull(),
+    type: text("type").notNull(),
+    status: text("status").notNull().default("pending"),
+    requestedBy: text("requested_by"),
+    reason: text("reason"),
+    rowCounts: jsonb("row_counts"),
+    error: text("error"),
+    requestedAt: timestamp("requested_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("data_subject_requests_project_requested_idx").on(
+      table.projectId,
+      table.requestedAt
+    ),
+    index("data_subject_requests_subject_idx").on(table.subjectHash),
+  ]
+);
+
 // Relations (optional, not used in this phase but good for type safety)
 export const sessionsRelations = relations(sessions, ({ many }) => ({
   events: many(events),
   rrwebEvents: many(rrwebEvents),
   heatmapClicks: many(heatmapClicks),
+  customEvents: many(customEvents),
+  formInteractions: many(formInteractions),
+  webVitals: many(webVitals),
+  errorEvents: many(errorEvents),
 }));
 
 export const eventsRelations = relations(events, ({ one }) => ({
@@ -218,9 +870,54 @@ export const rrwebEventsRelations = relations(rrwebEvents, ({ one }) => ({
   }),
 }));
 
+export const customEventsRelations = relations(customEvents, ({ one }) => ({
+  session: one(sessions, {
+    fields: [customEvents.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
+export const formInteractionsRelations = relations(
+  formInteractions,
+  ({ one }) => ({
+    session: one(sessions, {
+      fields: [formInteractions.sessionId],
+      references: [sessions.id],
+    }),
+  })
+);
+
+export const webVitalsRelations = relations(webVitals, ({ one }) => ({
+  session: one(sessions, {
+    fields: [webVitals.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
+export const errorEventsRelations = relations(errorEvents, ({ one }) => ({
+  session: one(sessions, {
+    fields: [errorEvents.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
 export const heatmapClicksRelations = relations(heatmapClicks, ({ one }) => ({
   session: one(sessions, {
     fields: [heatmapClicks.sessionId],
     references: [sessions.id],
   }),
 }));
+
+export const scrollDepthsRelations = relations(scrollDepths, ({ one }) => ({
+  session: one(sessions, {
+    fields: [scrollDepths.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
+export const deadClicksRelations = relations(deadClicks, ({ one }) => ({
+  session: one(sessions, {
+    fields: [deadClicks.sessionId],
+    references: [sessions.id],
+  }),
+}));
@@ -0,0 +1,89 @@
+import { acquisitionRepository } from "../repositories";
+import type { AcquisitionCounts } from "../repositories/AcquisitionRepository";
+import { acquisitionQuerySchema } from "../schemas/acquisition";
+
+/**
+ * Percentage of sessions, 2 decimals
+ */
+function percentOfSessions(count: number, sessions: number): number {
+  return sessions > 0 ? parseFloat(((count / sessions) * 100).toFixed(2)) : 0;
+}
+
+/**
+ * Counts to response metrics: bounces and conversions as rates
+ */
+function toMetrics(counts: AcquisitionCounts) {
+  return {
+    visitors: counts.visitors,
+    sessions: counts.sessions,
+    bounceRate: percentOfSessions(counts.bounces, counts.sessions),
+    conversions: counts.conversions,
+    conversionRate: percentOfSessions(counts.conversions, counts.sessions),
+  };
+}
+
+/**
+ * Acquisition handler - visitors, bounce rate and conversions per channel,
+ * campaign and source, from the first-touch attribution of sessions
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getAcquisitionHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  timezone?: string;
+  conversionEvent?: string;
+  limit?: string;
+}) {
+  // Validate query parameters
+  const query = acquisitionQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    timezone: queryParams.timezone,
+    conversionEvent: queryParams.conversionEvent,
+    limit: queryParams.limit,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, startDate, endDate, timezone, conversionEvent, limit } =
+    query.data;
+
+  const acquisition = await acquisitionRepository.getAcquisition(
+    projectId,
+    startDate,
+    endDate,
+    timezone,
+    conversionEvent,
+    limit
+  );
+
+  return {
+    data: {
+      range: { start: startDate, end: endDate },
+      timezone,
+      conversionEvent: conversionEvent ?? null,
+      totals: toMetrics(acquisition.totals),
+      channels: acquisition.channels.map(({ channel, ...counts }) => ({
+        channel,
+        ...toMetrics(counts),
+      })),
+      campaigns: acquisition.campaigns.map(({ campaign, ...counts }) => ({
+        campaign,
+        ...toMetrics(counts),
+      })),
+      sources: acquisition.sources.map(({ source, ...counts }) => ({
+        source,
+        ...toMetrics(counts),
+      })),
+    },
+    statusCode: 200,
+  };
+}
@@ -0,0 +1,74 @@
+import { customEventRepository } from "../repositories";
+import { customEventsQuerySchema } from "../schemas/customEvents";
+
+/**
+ * Custom events handler - returns counts, unique users and a daily
+ * time series per event name
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getCustomEventsHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  eventName?: string;
+  properties?: string;
+}) {
+  // Validate query parameters
+  const query = customEventsQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    eventName: queryParams.eventName,
+    properties: queryParams.properties,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  if (query.data.startDate > query.data.endDate) {
+    return {
+      error: "startDate must be before or equal to endDate",
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, startDate, endDate, eventName, properties } = query.data;
+
+  const [summaries, series] = await Promise.all([
+    customEventRepository.getEventSummaries(
+      projectId,
+      startDate,
+      endDate,
+      eventName,
+      properties
+    ),
+    customEventRepository.getEventTimeSeries(
+      projectId,
+      startDate,
+      endDate,
+      eventName,
+      properties
+    ),
+  ]);
+
+  // Attach each event name's daily points to its summary
+  const events = summaries.map((summary) => ({
+    ...summary,
+    series: series
+      .filter((point) => point.eventName === summary.eventName)
+      .map(({ date, count, uniqueUsers }) => ({ date, count, uniqueUsers })),
+  }));
+
+  return {
+    data: {
+      range: { startDate, endDate },
+      events,
+    },
+    statusCode: 200,
+  };
+}
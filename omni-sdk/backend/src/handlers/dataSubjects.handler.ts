@@ -0,0 +1,215 @@
+import { dataSubjectRepository, rrwebRepository } from "../repositories";
+import {
+  dataSubjectParamsSchema,
+  dataSubjectRequestBodySchema,
+  listDataSubjectRequestsQuerySchema,
+} from "../schemas/dataSubjects";
+import {
+  deriveRrwebHeatmapCells,
+  type RrwebHeatmapCell,
+} from "../utils/rrwebHeatmap";
+
+/**
+ * Validate the distinct ID and the audit fields of a request
+ */
+function parseRequest(projectId: string, distinctId: string, body: unknown) {
+  const params = dataSubjectParamsSchema.safeParse({ projectId, distinctId });
+  if (!params.success) {
+    return {
+      error: "Validation failed",
+      details: params.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const audit = dataSubjectRequestBodySchema.safeParse(body ?? {});
+  if (!audit.success) {
+    return {
+      error: "Validation failed",
+      details: audit.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  return { params: params.data, audit: audit.data };
+}
+
+/**
+ * Mark a request failed in the audit log and rethrow its error
+ */
+async function failRequest(requestId: string, error: unknown): Promise<never> {
+  await dataSubjectRepository.failRequest(
+    requestId,
+    error instanceof Error ? error.message : String(error)
+  );
+  throw error;
+}
+
+/**
+ * Export data subject handler - everything held for a distinct ID, as one
+ * JSON archive (access request). Recorded in the audit log
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function exportDataSubjectHandler(
+  projectId: string,
+  distinctId: string,
+  body: unknown
+) {
+  const parsed = parseRequest(projectId, distinctId, body);
+  if (parsed.error !== undefined) {
+    return parsed;
+  }
+  const { params, audit } = parsed;
+
+  const request = await dataSubjectRepository.createRequest({
+    ...params,
+    ...audit,
+    type: "export",
+  });
+
+  try {
+    const subject = await dataSubjectRepository.resolveSubject(
+      params.projectId,
+      params.distinctId
+    );
+    const tables = await dataSubjectRepository.exportSubject(subject);
+
+    const replays = [];
+    for (const replayId of subject.replayIds) {
+      replays.push({
+        replayId,
+        events: await rrwebRepository.getReplayEvents(replayId),
+      });
+    }
+
+    const rowCounts: Record<string, number> = {};
+    for (const [table, rows] of Object.entries(tables)) {
+      rowCounts[table] = rows.length;
+    }
+    rowCounts.rrwebEvents = replays.reduce(
+      (total, replay) => total + replay.events.length,
+      0
+    );
+
+    await dataSubjectRepository.completeRequest(request.id, rowCounts);
+
+    return {
+      data: {
+        requestId: request.id,
+        projectId: params.projectId,
+        distinctId: params.distinctId,
+        exportedAt: new Date(),
+        identities: {
+          clientIds: subject.clientIds,
+          sessionIds: subject.sessionIds,
+        },
+        tables,
+        replays,
+      },
+      statusCode: 200,
+    };
+  } catch (error) {
+    return failRequest(request.id, error);
+  }
+}
+
+/**
+ * Erase data subject handler - delete everything held for a distinct ID
+ * (erasure request) and correct the aggregates it contributed to.
+ * Recorded in the audit log
+ *
+ * The move/attention heatmap cells of its aggregated replays are derived
+ * again from the events they were aggregated with, to be subtracted
+ */
+export async function eraseDataSubjectHandler(
+  projectId: string,
+  distinctId: string,
+  body: unknown
+) {
+  const parsed = parseRequest(projectId, distinctId, body);
+  if (parsed.error !== undefined) {
+    return parsed;
+  }
+  const { params, audit } = parsed;
+
+  const request = await dataSubjectRepository.createRequest({
+    ...params,
+    ...audit,
+    type: "erasure",
+  });
+
+  try {
+    const subject = await dataSubjectRepository.resolveSubject(
+      params.projectId,
+      params.distinctId
+    );
+
+    const activity: RrwebHeatmapCell[] = [];
+    const aggregated = await dataSubjectRepository.getAggregatedReplays(
+      subject.replayIds
+    );
+    for (const { replayId, eventCount } of aggregated) {
+      // Aggregation counted the events stored at the time, the first ones
+      const replayEvents = await rrwebRepository.getReplayEvents(replayId);
+      activity.push(
+        ...deriveRrwebHeatmapCells(
+          replayEvents.slice(0, eventCount).map((event) => ({
+            timestamp: new Date(event.timestamp),
+            url: event.url,
+            rrwebPayload: event.rrwebPayload,
+            pageWidth: event.pageWidth,
+            pageHeight: event.pageHeight,
+            viewportWidth: event.viewportWidth,
+            viewportHeight: event.viewportHeight,
+          }))
+        )
+      );
+    }
+
+    const erased = await dataSubjectRepository.eraseSubject(subject, activity);
+    await dataSubjectRepository.completeRequest(request.id, erased);
+
+    return {
+      data: {
+        requestId: request.id,
+        projectId: params.projectId,
+        distinctId: params.distinctId,
+        erased,
+      },
+      statusCode: 200,
+    };
+  } catch (error) {
+    return failRequest(request.id, error);
+  }
+}
+
+/**
+ * List data subject requests handler - the audit log, most recent first
+ */
+export async function listDataSubjectRequestsHandler(query: {
+  projectId?: string;
+  distinctId?: string;
+  limit?: string;
+  offset?: string;
+}) {
+  const parsed = listDataSubjectRequestsQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return {
+      error: "Validation failed",
+      details: parsed.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, distinctId, limit, offset } = parsed.data;
+  const result = await dataSubjectRepository.listRequests(
+    { projectId, distinctId },
+    limit,
+    offset
+  );
+
+  return {
+    data: result,
+    statusCode: 200,
+  };
+}
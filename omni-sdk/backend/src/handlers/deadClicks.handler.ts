@@ -0,0 +1,99 @@
+import { deadClickRepository } from "../repositories";
+import { deadClicksQuerySchema } from "../schemas/deadClicks";
+
+/**
+ * Share of clicks, 0 when there were none
+ */
+function toRate(count: number, clicks: number): number {
+  return clicks > 0 ? count / clicks : 0;
+}
+
+/**
+ * Dead clicks handler - returns the elements whose clicks most often get no
+ * response (dead clicks) or are followed by an error (error clicks), with the
+ * latest affected session
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getDeadClicksHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  deadThresholdMs?: string;
+  errorWindowMs?: string;
+  minClicks?: string;
+  limit?: string;
+}) {
+  // Validate query parameters
+  const query = deadClicksQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    url: queryParams.url,
+    deadThresholdMs: queryParams.deadThresholdMs,
+    errorWindowMs: queryParams.errorWindowMs,
+    minClicks: queryParams.minClicks,
+    limit: queryParams.limit,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const {
+    projectId,
+    startDate,
+    endDate,
+    url,
+    deadThresholdMs,
+    errorWindowMs,
+    minClicks,
+    limit,
+  } = query.data;
+
+  if (startDate > endDate) {
+    return {
+      error: "startDate must be on or before endDate",
+      statusCode: 400,
+    };
+  }
+
+  const { totals, elements } = await deadClickRepository.getDeadClickElements(
+    projectId,
+    startDate,
+    endDate,
+    { url, deadThresholdMs, errorWindowMs, minClicks, limit }
+  );
+
+  return {
+    data: {
+      range: { startDate, endDate },
+      thresholds: { deadThresholdMs, errorWindowMs, minClicks },
+      totals: {
+        clicks: totals.clicks,
+        deadClicks: totals.deadClicks,
+        deadClickRate: toRate(totals.deadClicks, totals.clicks),
+        errorClicks: totals.errorClicks,
+        errorClickRate: toRate(totals.errorClicks, totals.clicks),
+      },
+      elements: elements.map(({ latestOccurrence, ...element }) => ({
+        ...element,
+        deadClickRate: toRate(element.deadClicks, element.clicks),
+        errorClickRate: toRate(element.errorClicks, element.clicks),
+        latestOccurrence: latestOccurrence
+          ? {
+              ...latestOccurrence,
+              sessionUrl: `/sessions/${encodeURIComponent(
+                latestOccurrence.sessionId
+              )}`,
+            }
+          : null,
+      })),
+    },
+    statusCode: 200,
+  };
+}
@@ -0,0 +1,183 @@
+import { z } from "zod";
+import type { Queue } from "bullmq";
+import type { Event, IncomingBatch } from "../types";
+import { deadLetterRepository } from "../repositories";
+import {
+  listDeadLettersQuerySchema,
+  redriveDeadLettersSchema,
+  purgeDeadLettersSchema,
+} from "../schemas/deadLetters";
+
+// Events per re-drive job (one job per location and chunk)
+const REDRIVE_BATCH_SIZE = 100;
+
+/**
+ * List dead letters handler - failed ingestion events, without payloads
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function listDeadLettersHandler(query: {
+  projectId?: string;
+  eventType?: string;
+  limit?: string;
+  offset?: string;
+}) {
+  const parsed = listDeadLettersQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return {
+      error: "Validation failed",
+      details: parsed.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, eventType, limit, offset } = parsed.data;
+  const result = await deadLetterRepository.list(
+    { projectId, eventType },
+    limit,
+    offset
+  );
+
+  return {
+    data: result,
+    statusCode: 200,
+  };
+}
+
+/**
+ * Get dead letter handler - one failed event with its original payload
+ */
+export async function getDeadLetterHandler(id: string) {
+  if (!z.string().uuid().safeParse(id).success) {
+    return {
+      error: "id must be a UUID",
+      statusCode: 400,
+    };
+  }
+
+  const deadLetter = await deadLetterRepository.getById(id);
+  if (!deadLetter) {
+    return {
+      error: "Dead letter not found",
+      statusCode: 404,
+    };
+  }
+
+  return {
+    data: deadLetter,
+    statusCode: 200,
+  };
+}
+
+/**
+ * Re-drive dead letters handler - queue failed events for ingestion again
+ * Events are queued as redrive batches grouped by location; the worker deletes
+ * each dead letter once its event is stored, or records the new failure
+ */
+export async function redriveDeadLettersHandler(
+  queue: Queue<IncomingBatch>,
+  body: unknown
+) {
+  const parsed = redriveDeadLettersSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return {
+      error: "Validation failed",
+      details: parsed.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { ids, projectId, eventType, limit } = parsed.data;
+  const deadLetters = await deadLetterRepository.getForRedrive(
+    { ids, projectId, eventType },
+    limit
+  );
+
+  const byLocation = new Map<string, typeof deadLetters>();
+  for (const deadLetter of deadLetters) {
+    const location = deadLetter.location || "";
+    byLocation.set(location, [
+      ...(byLocation.get(location) || []),
+      deadLetter,
+    ]);
+  }
+
+  const runId = Date.now();
+  const jobs: string[] = [];
+
+  for (const [location, group] of byLocation) {
+    for (let i = 0; i < group.length; i += REDRIVE_BATCH_SIZE) {
+      const chunk = group.slice(i, i + REDRIVE_BATCH_SIZE);
+      const batchId = `redrive-${runId}-${jobs.length + 1}`;
+      const jobData = {
+        batchId,
+        timestamp: runId,
+        events: chunk.map((deadLetter) => deadLetter.payload as Event),
+        location: location || undefined,
+        redrive: true,
+      };
+
+      await queue.add("ingest", jobData, { jobId: batchId });
+      await deadLetterRepository.markRedriven(
+        chunk.map((deadLetter) => deadLetter.id)
+      );
+      jobs.push(batchId);
+    }
+  }
+
+  return {
+    data: { redriven: deadLetters.length, jobs },
+    statusCode: 202,
+  };
+}
+
+/**
+ * Delete dead letter handler - drop one failed event
+ */
+export async function deleteDeadLetterHandler(id: string) {
+  if (!z.string().uuid().safeParse(id).success) {
+    return {
+      error: "id must be a UUID",
+      statusCode: 400,
+    };
+  }
+
+  const deleted = await deadLetterRepository.deleteById(id);
+  if (!deleted) {
+    return {
+      error: "Dead letter not found",
+      statusCode: 404,
+    };
+  }
+
+  return {
+    data: { deleted: 1 },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Purge dead letters handler - drop every failed event matching a filter
+ */
+export async function purgeDeadLettersHandler(body: unknown) {
+  const parsed = purgeDeadLettersSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return {
+      error: "Validation failed",
+      details: parsed.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { ids, projectId, eventType, before } = parsed.data;
+  const deleted = await deadLetterRepository.purge({
+    ids,
+    projectId,
+    eventType,
+    before: before ? new Date(before) : undefined,
+  });
+
+  return {
+    data: { deleted },
+    statusCode: 200,
+  };
+}
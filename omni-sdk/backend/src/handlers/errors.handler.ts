@@ -0,0 +1,116 @@
+import { errorRepository } from "../repositories";
+import {
+  errorIssuesQuerySchema,
+  errorIssueQuerySchema,
+} from "../schemas/errors";
+
+/**
+ * Link to the session replay an error happened in
+ */
+function toReplayUrl(replayId: string | null): string | null {
+  return replayId ? `/replays/${encodeURIComponent(replayId)}` : null;
+}
+
+/**
+ * Error issues handler - returns issues (grouped errors) with occurrence
+ * counts, affected users and the replay of the latest occurrence
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getErrorIssuesHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: string;
+}) {
+  // Validate query parameters
+  const query = errorIssuesQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    limit: queryParams.limit,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, startDate, endDate, limit } = query.data;
+
+  const issues = await errorRepository.getIssues(
+    projectId,
+    startDate,
+    endDate,
+    limit
+  );
+
+  return {
+    data: {
+      range: { startDate, endDate },
+      issues: issues.map(({ fingerprint, latestOccurrence, ...issue }) => ({
+        issueId: fingerprint,
+        ...issue,
+        latestOccurrence: {
+          ...latestOccurrence,
+          replayUrl: toReplayUrl(latestOccurrence.replayId),
+        },
+      })),
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Error issue handler - returns one issue and its latest occurrences,
+ * each with a link to its session replay
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getErrorIssueHandler(
+  issueId: string,
+  queryParams: { projectId?: string; limit?: string }
+) {
+  // Validate parameters
+  const query = errorIssueQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    issueId,
+    limit: queryParams.limit,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const issue = await errorRepository.getIssueWithOccurrences(
+    query.data.projectId,
+    query.data.issueId,
+    query.data.limit
+  );
+
+  if (!issue) {
+    return {
+      error: "Issue not found",
+      statusCode: 404,
+    };
+  }
+
+  const { fingerprint, occurrences, ...rest } = issue;
+
+  return {
+    data: {
+      issueId: fingerprint,
+      ...rest,
+      occurrences: occurrences.map((occurrence) => ({
+        ...occurrence,
+        replayUrl: toReplayUrl(occurrence.replayId),
+      })),
+    },
+    statusCode: 200,
+  };
+}
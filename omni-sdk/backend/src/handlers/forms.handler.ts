@@ -0,0 +1,86 @@
+import { formAnalyticsRepository } from "../repositories";
+import { formAnalyticsQuerySchema } from "../schemas/forms";
+
+/**
+ * Milliseconds to seconds, 2 decimals (null stays null)
+ */
+function toSeconds(ms: number | null): number | null {
+  return ms === null ? null : parseFloat((ms / 1000).toFixed(2));
+}
+
+/**
+ * Form analytics handler - returns per-form abandonment and per-field
+ * drop-off, refills and time spent
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getFormAnalyticsHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  formId?: string;
+}) {
+  // Validate query parameters
+  const query = formAnalyticsQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    formId: queryParams.formId,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, startDate, endDate, formId } = query.data;
+
+  const [summaries, fieldStats] = await Promise.all([
+    formAnalyticsRepository.getFormSummaries(
+      projectId,
+      startDate,
+      endDate,
+      formId
+    ),
+    formAnalyticsRepository.getFieldStats(projectId, startDate, endDate, formId),
+  ]);
+
+  const forms = summaries.map((summary) => {
+    const abandonments = summary.sessions - summary.submissions;
+
+    const fields = fieldStats
+      .filter((field) => field.formId === summary.formId)
+      .map((field) => ({
+        fieldName: field.fieldName,
+        sessions: field.sessions,
+        dropOffs: field.dropOffs,
+        dropOffRate:
+          abandonments > 0
+            ? parseFloat(((field.dropOffs / abandonments) * 100).toFixed(2))
+            : 0,
+        refills: field.refills,
+        avgTimeSeconds: toSeconds(field.avgTimeMs),
+        medianTimeSeconds: toSeconds(field.medianTimeMs),
+      }));
+
+    return {
+      ...summary,
+      abandonments,
+      abandonmentRate:
+        summary.sessions > 0
+          ? parseFloat(((abandonments / summary.sessions) * 100).toFixed(2))
+          : 0,
+      fields,
+    };
+  });
+
+  return {
+    data: {
+      range: { startDate, endDate },
+      forms,
+    },
+    statusCode: 200,
+  };
+}
@@ -0,0 +1,149 @@
+import { frustrationRepository } from "../repositories";
+import { frustrationQuerySchema } from "../schemas/frustration";
+
+/**
+ * Current vs previous value with the percentage change
+ */
+function toSignal(current: number, previous: number) {
+  return {
+    current,
+    previous,
+    changePct:
+      previous > 0
+        ? parseFloat((((current - previous) / previous) * 100).toFixed(2))
+        : current > 0
+          ? 100
+          : 0,
+  };
+}
+
+/**
+ * Frustration handler - ranks pages and elements by rage clicks, dead clicks,
+ * error clicks and U-turns, with the change vs the previous period and the
+ * sessions that show each signal
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getFrustrationHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  sort?: string;
+  minClicks?: string;
+  thresholdMs?: string;
+  deadThresholdMs?: string;
+  errorWindowMs?: string;
+  uTurnMs?: string;
+  limit?: string;
+  sessionLimit?: string;
+}) {
+  // Validate query parameters
+  const query = frustrationQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    sort: queryParams.sort,
+    minClicks: queryParams.minClicks,
+    thresholdMs: queryParams.thresholdMs,
+    deadThresholdMs: queryParams.deadThresholdMs,
+    errorWindowMs: queryParams.errorWindowMs,
+    uTurnMs: queryParams.uTurnMs,
+    limit: queryParams.limit,
+    sessionLimit: queryParams.sessionLimit,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const {
+    projectId,
+    startDate,
+    endDate,
+    sort,
+    limit,
+    sessionLimit,
+    ...thresholds
+  } = query.data;
+
+  const frustration = await frustrationRepository.getFrustration(
+    projectId,
+    startDate,
+    endDate,
+    thresholds,
+    sort,
+    limit,
+    sessionLimit
+  );
+
+  // Session links carry the thresholds so the session shows the same signals
+  const sessionQuery = new URLSearchParams({
+    minClicks: String(thresholds.minClicks),
+    thresholdMs: String(thresholds.thresholdMs),
+    deadThresholdMs: String(thresholds.deadThresholdMs),
+    errorWindowMs: String(thresholds.errorWindowMs),
+  }).toString();
+  const withSessionUrl = <T extends { sessionId: string }>(session: T) => ({
+    ...session,
+    sessionUrl: `/sessions/${encodeURIComponent(session.sessionId)}?${sessionQuery}`,
+  });
+
+  const { current, previous } = frustration.totals;
+  const sum = (counts: {
+    rageClicks: number;
+    deadClicks: number;
+    errorClicks: number;
+    uTurns?: number;
+  }) =>
+    counts.rageClicks +
+    counts.deadClicks +
+    counts.errorClicks +
+    (counts.uTurns ?? 0);
+
+  return {
+    data: {
+      range: frustration.range,
+      comparison: frustration.comparison,
+      thresholds,
+      totals: {
+        rageClicks: toSignal(current.rageClicks, previous.rageClicks),
+        deadClicks: toSignal(current.deadClicks, previous.deadClicks),
+        errorClicks: toSignal(current.errorClicks, previous.errorClicks),
+        uTurns: toSignal(current.uTurns, previous.uTurns),
+        total: toSignal(sum(current), sum(previous)),
+      },
+      urls: frustration.urls.map((page) => ({
+        url: page.url,
+        pageViews: page.pageViews,
+        clicks: page.clicks,
+        rageClicks: toSignal(page.rageClicks, page.previous.rageClicks),
+        deadClicks: toSignal(page.deadClicks, page.previous.deadClicks),
+        errorClicks: toSignal(page.errorClicks, page.previous.errorClicks),
+        uTurns: toSignal(page.uTurns, page.previous.uTurns),
+        total: toSignal(sum(page), sum(page.previous)),
+        frustratedSessions: page.frustratedSessions,
+        sessions: page.sessions.map(withSessionUrl),
+      })),
+      selectors: frustration.elements.map((element) => ({
+        url: element.url,
+        elementKey: element.elementKey,
+        selector: element.selector,
+        tagName: element.tagName,
+        clicks: element.clicks,
+        rageClicks: toSignal(element.rageClicks, element.previous.rageClicks),
+        deadClicks: toSignal(element.deadClicks, element.previous.deadClicks),
+        errorClicks: toSignal(
+          element.errorClicks,
+          element.previous.errorClicks
+        ),
+        total: toSignal(sum(element), sum(element.previous)),
+        frustratedSessions: element.frustratedSessions,
+        sessions: element.sessions.map(withSessionUrl),
+      })),
+    },
+    statusCode: 200,
+  };
+}
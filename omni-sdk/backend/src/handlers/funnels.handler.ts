@@ -0,0 +1,95 @@
+import { funnelRepository } from "../repositories";
+import { funnelRequestSchema, type FunnelStep } from "../schemas/funnels";
+
+/**
+ * Default display label for a step without an explicit label
+ */
+function stepLabel(step: FunnelStep): string {
+  if (step.label) return step.label;
+  switch (step.type) {
+    case "pageview":
+      return step.urlPattern;
+    case "click":
+      return step.selector;
+    case "custom":
+      return step.eventName;
+  }
+}
+
+/**
+ * Percentage of part over total, 2 decimals (0 when total is 0)
+ */
+function percent(part: number, total: number): number {
+  if (total === 0) return 0;
+  return parseFloat(((part / total) * 100).toFixed(2));
+}
+
+/**
+ * Funnel handler - computes an ordered conversion funnel
+ * Returns per-step entrants, conversion and drop-off rates, and median
+ * time between steps
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getFunnelHandler(body: unknown) {
+  // Validate request body
+  const request = funnelRequestSchema.safeParse(body);
+
+  if (!request.success) {
+    return {
+      error: "Validation failed",
+      details: request.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, startDate, endDate, steps, conversionWindowSeconds } =
+    request.data;
+
+  const rows = await funnelRepository.getFunnel(
+    projectId,
+    startDate,
+    endDate,
+    steps,
+    conversionWindowSeconds
+  );
+
+  const byIndex = new Map(rows.map((row) => [row.stepIndex, row]));
+  const firstEntrants = byIndex.get(0)?.entrants ?? 0;
+
+  const funnelSteps = steps.map((step, index) => {
+    const row = byIndex.get(index);
+    const entrants = row?.entrants ?? 0;
+    const previousEntrants =
+      index === 0 ? entrants : (byIndex.get(index - 1)?.entrants ?? 0);
+    const dropOff = previousEntrants - entrants;
+    // Step 1 is the baseline: 100% of its own entrants
+    const baseline = entrants > 0 ? 100 : 0;
+
+    return {
+      index,
+      label: stepLabel(step),
+      type: step.type,
+      entrants,
+      conversionRate:
+        index === 0 ? baseline : percent(entrants, firstEntrants),
+      stepConversionRate:
+        index === 0 ? baseline : percent(entrants, previousEntrants),
+      dropOff,
+      dropOffRate: percent(dropOff, previousEntrants),
+      medianSecondsFromPrevious:
+        index === 0 ? null : (row?.medianSecondsFromPrevious ?? null),
+    };
+  });
+
+  const lastEntrants = funnelSteps[funnelSteps.length - 1]?.entrants ?? 0;
+
+  return {
+    data: {
+      range: { startDate, endDate },
+      conversionWindowSeconds,
+      overallConversionRate: percent(lastEntrants, firstEntrants),
+      steps: funnelSteps,
+    },
+    statusCode: 200,
+  };
+}
@@ -1,6 +1,7 @@
 import type { Queue } from "bullmq";
 import type { IncomingBatch } from "../types";
 import { checkDbConnection } from "../db/client";
+import { deadLetterRepository } from "../repositories";
 
 /**
  * Health handler - returns system health status
@@ -24,6 +25,14 @@ export async function healthHandler(queue: Queue<IncomingBatch>) {
     console.error("[Health] Error getting queue counts:", error);
   }
 
+  // Dead letters are reported, they do not make the system unhealthy
+  let deadLetters = null;
+  try {
+    deadLetters = await deadLetterRepository.getStats();
+  } catch (error) {
+    console.error("[Health] Error getting dead letter stats:", error);
+  }
+
   const isHealthy = dbOk && queueHealth !== null;
 
   return {
@@ -37,6 +46,7 @@ export async function healthHandler(queue: Queue<IncomingBatch>) {
           failed: queueHealth.failed,
         }
       : null,
+    deadLetters,
     statusCode: isHealthy ? 200 : 503,
   };
 }
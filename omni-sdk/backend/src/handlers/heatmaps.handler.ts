@@ -1,10 +1,34 @@
 import { heatmapRepository } from "../repositories";
+import {
+  heatmapQuerySchema,
+  clickElementsQuerySchema,
+} from "../schemas/heatmaps";
+
+// Rows and columns of the heatmap grid (same as the click grid)
+const GRID_SIZE = 50;
+
+// Upper bound on folds returned for very long pages
+const MAX_FOLDS = 20;
 
 /**
  * Heatmap handler - fetch aggregated heatmap data for a specific URL
  * This function only contains business logic, no Hono/OpenAPI framework code
+ *
+ * Clicks are grouped per page layout (layoutHash) so a redesign never mixes
+ * into the overlay of the previous version; the grid shows one layout
  */
-export async function getHeatmapHandler(projectId: string, url: string) {
+export async function getHeatmapHandler(
+  projectId: string,
+  url: string,
+  queryParams: {
+    startDate?: string;
+    endDate?: string;
+    screenClass?: string;
+    layoutHash?: string;
+    country?: string;
+    visitorType?: string;
+  } = {}
+) {
   // Validate that both projectId and url are provided
   if (!projectId || !url) {
     return {
@@ -13,66 +37,381 @@ export async function getHeatmapHandler(projectId: string, url: string) {
     };
   }
 
+  const query = heatmapQuerySchema.safeParse({ type: "click", ...queryParams });
+
+  if (!query.success) {
+    return {
+      error: "Invalid query parameters",
+      details: query.error.flatten(),
+      statusCode: 400,
+    };
+  }
+
+  const { startDate, endDate, screenClass, layoutHash, country, visitorType } =
+    query.data;
+
+  if (startDate && endDate && startDate > endDate) {
+    return {
+      error: "startDate must be before or equal to endDate",
+      statusCode: 400,
+    };
+  }
+
   // Decode URL if it has been URL-encoded (e.g., spaces become %20)
   const decodedUrl = decodeURIComponent(url);
 
-  // Fetch heatmap click data for this project and URL from the repository
-  const clicks = await heatmapRepository.getHeatmapForUrl(
+  // Layout summaries + grid cells of the selected layout
+  const { layouts, layoutHash: shownLayoutHash, cells } =
+    await heatmapRepository.getHeatmapForUrl(projectId, decodedUrl, {
+      startDate,
+      endDate,
+      screenClass,
+      layoutHash,
+      country,
+      visitorType,
+    });
+
+  const shownLayout = layouts.find(
+    (layout) => layout.layoutHash === shownLayoutHash
+  );
+
+  // Map aggregated cells into a grid structure optimized for heatmap rendering
+  const gridData = cells.map((cell) => ({
+    gridX: cell.gridX, // Grid X coordinate
+    gridY: cell.gridY, // Grid Y coordinate
+    count: cell.count, // Click count for this cell
+    xNorm: parseFloat(cell.xNorm.toFixed(4)), // Average normalized X position (0-1)
+    yNorm: parseFloat(cell.yNorm.toFixed(4)), // Average normalized Y position (0-1)
+    selector: cell.selector, // Most clicked CSS selector in the cell
+    tagName: cell.tagName, // HTML tag name
+    elementTextHash: cell.elementTextHash, // Hash of element text
+    screenClass: cell.screenClass, // Screen class (desktop, mobile, etc.)
+  }));
+
+  // Return the aggregated heatmap data
+  return {
+    data: {
+      projectId,
+      url: decodedUrl,
+      filters: {
+        startDate: startDate ?? null,
+        endDate: endDate ?? null,
+        screenClass: screenClass ?? null,
+        country: country ?? null,
+        visitorType: visitorType ?? null,
+      },
+      layoutHash: shownLayoutHash, // Layout shown in the grid
+      clickCount: cells.reduce((sum, cell) => sum + cell.count, 0), // Clicks of the shown layout
+      gridSize: GRID_SIZE, // Size of the grid for rendering
+      screenClasses: shownLayout?.screenClasses ?? [], // Screen classes of the shown layout
+      pageWidth: shownLayout?.pageWidth ?? null, // Median page width of the shown layout
+      pageHeight: shownLayout?.pageHeight ?? null, // Median page height of the shown layout
+      layouts, // All layouts matching the filters, most clicked first
+      grid: gridData, // Heatmap grid data
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Click map handler - rank the clicked elements of a URL
+ * Elements are keyed by xpath tail + text hash, so the ranking survives small DOM changes
+ */
+export async function getClickElementsHandler(
+  projectId: string,
+  url: string,
+  queryParams: {
+    startDate?: string;
+    endDate?: string;
+    screenClass?: string;
+    layoutHash?: string;
+    country?: string;
+    visitorType?: string;
+    limit?: string;
+  } = {}
+) {
+  // Validate that both projectId and url are provided
+  if (!projectId || !url) {
+    return {
+      error: "projectId and url are required",
+      statusCode: 400,
+    };
+  }
+
+  const query = clickElementsQuerySchema.safeParse(queryParams);
+
+  if (!query.success) {
+    return {
+      error: "Invalid query parameters",
+      details: query.error.flatten(),
+      statusCode: 400,
+    };
+  }
+
+  const {
+    startDate,
+    endDate,
+    screenClass,
+    layoutHash,
+    country,
+    visitorType,
+    limit,
+  } = query.data;
+
+  if (startDate && endDate && startDate > endDate) {
+    return {
+      error: "startDate must be before or equal to endDate",
+      statusCode: 400,
+    };
+  }
+
+  const decodedUrl = decodeURIComponent(url);
+
+  const { pageClicks, elements } = await heatmapRepository.getClickElements(
     projectId,
-    decodedUrl
+    decodedUrl,
+    { startDate, endDate, screenClass, layoutHash, country, visitorType },
+    limit
   );
 
-  // If no clicks exist for this URL, return a default response
-  if (clicks.length === 0) {
+  return {
+    data: {
+      projectId,
+      url: decodedUrl,
+      layoutHash: layoutHash ?? null,
+      pageClicks,
+      elements: elements.map((element, i) => ({
+        rank: i + 1,
+        elementKey: element.elementKey,
+        selector: element.selector,
+        xpath: element.xpath,
+        tagName: element.tagName,
+        elementTextHash: element.elementTextHash,
+        clicks: element.clicks,
+        clickShare: toPercentage(element.clicks, pageClicks),
+        uniqueClickers: element.uniqueClickers,
+        clickThroughs: element.clickThroughs,
+        clickThroughRate: toPercentage(element.clickThroughs, element.clicks),
+        rageClicks: element.rageClicks,
+        rageClickShare: toPercentage(element.rageClicks, element.clicks),
+        deadClicks: element.deadClicks,
+        deadClickShare: toPercentage(element.deadClicks, element.clicks),
+        box: {
+          xMin: parseFloat(element.box.xMin.toFixed(4)),
+          xMax: parseFloat(element.box.xMax.toFixed(4)),
+          yMin: parseFloat(element.box.yMin.toFixed(4)),
+          yMax: parseFloat(element.box.yMax.toFixed(4)),
+        },
+        lastClickAt: element.lastClickAt,
+      })),
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Scroll heatmap handler - "% of page views reaching each fold" for a URL
+ * Built from the max scroll depth of every page view (ScrollDepthPlugin)
+ */
+export async function getScrollHeatmapHandler(
+  projectId: string,
+  url: string,
+  queryParams: { screenClass?: string } = {}
+) {
+  // Validate that both projectId and url are provided
+  if (!projectId || !url) {
     return {
-      data: {
-        projectId,
-        url: decodedUrl,
-        clickCount: 0, // No clicks
-        grid: [], // Empty grid
-      },
-      statusCode: 200, // HTTP 200 OK
+      error: "projectId and url are required",
+      statusCode: 400,
     };
   }
 
-  // Calculate total clicks by summing the 'count' of each click entry
-  // If 'count' is missing, assume 1 click
-  const totalClicks = clicks.reduce((sum, c) => sum + (c.count || 1), 0);
-
-  // Extract all unique screen classes from the clicks for different device/screen sizes
-  const screenClasses = [
-    ...new Set(clicks.map((c) => c.screenClass).filter(Boolean)), // Remove null/undefined
-  ];
-
-  // Map raw click data into a grid structure optimized for heatmap rendering
-  const gridData = clicks.map((click) => ({
-    gridX: click.gridX, // Grid X coordinate
-    gridY: click.gridY, // Grid Y coordinate
-    count: click.count || 1, // Click count for this cell
-    xNorm: parseFloat(click.xNorm.toString()), // Normalized X position (0-1)
-    yNorm: parseFloat(click.yNorm.toString()), // Normalized Y position (0-1)
-    selector: click.selector, // CSS selector of clicked element
-    tagName: click.tagName, // HTML tag name
-    elementTextHash: click.elementTextHash, // Hash of element text
-    screenClass: click.screenClass, // Screen class (desktop, mobile, etc.)
-  }));
+  const query = heatmapQuerySchema.safeParse({
+    type: "scroll",
+    screenClass: queryParams.screenClass,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Invalid query parameters",
+      details: query.error.flatten(),
+      statusCode: 400,
+    };
+  }
+
+  const screenClass = query.data.screenClass ?? null;
+  const decodedUrl = decodeURIComponent(url);
+
+  const { buckets, screenClasses } =
+    await heatmapRepository.getScrollDepthsForUrl(
+      projectId,
+      decodedUrl,
+      screenClass ?? undefined
+    );
+
+  // Page views per depth row -> page views that reached at least each row
+  const counts = new Array(GRID_SIZE).fill(0);
+  for (const bucket of buckets) {
+    counts[bucket.gridY] += bucket.pageViews;
+  }
+
+  const pageViews = counts.reduce((sum, count) => sum + count, 0);
+
+  const reach: Array<{
+    gridY: number;
+    yNorm: number;
+    pageViews: number;
+    percentage: number;
+  }> = [];
+  let reached = 0;
+  for (let gridY = GRID_SIZE - 1; gridY >= 0; gridY--) {
+    reached += counts[gridY];
+    reach.unshift({
+      gridY,
+      yNorm: gridY / GRID_SIZE,
+      pageViews: reached,
+      percentage: toPercentage(reached, pageViews),
+    });
+  }
+
+  // Page and viewport heights of the selected device (or the most common one)
+  const selected = screenClass
+    ? screenClasses.find((s) => s.screenClass === screenClass)
+    : screenClasses[0];
+  const pageHeight = selected?.pageHeight ?? null;
+  const viewportHeight = selected?.viewportHeight ?? null;
+
+  // Fold n ends n viewport heights down the page; reach is read from the grid row
+  const folds: Array<{ fold: number; yNorm: number; percentage: number }> = [];
+  if (pageViews > 0 && pageHeight && viewportHeight) {
+    const foldCount = Math.min(
+      Math.ceil(pageHeight / viewportHeight),
+      MAX_FOLDS
+    );
+    for (let fold = 1; fold <= foldCount; fold++) {
+      const yNorm = Math.min((fold * viewportHeight) / pageHeight, 1);
+      const row = Math.min(Math.floor(yNorm * GRID_SIZE), GRID_SIZE - 1);
+      folds.push({
+        fold,
+        yNorm: parseFloat(yNorm.toFixed(4)),
+        percentage: reach[row].percentage,
+      });
+    }
+  }
+
+  // Average depth of the selected page views, weighted by page views
+  const included = screenClass
+    ? screenClasses.filter((s) => s.screenClass === screenClass)
+    : screenClasses;
+  const includedViews = included.reduce((sum, s) => sum + s.pageViews, 0);
+  const averageDepth =
+    includedViews > 0
+      ? included.reduce((sum, s) => sum + s.averageDepth * s.pageViews, 0) /
+        includedViews
+      : 0;
 
-  // Return the aggregated heatmap data
   return {
     data: {
       projectId,
       url: decodedUrl,
-      clickCount: totalClicks, // Total clicks on this URL
-      gridSize: 50, // Size of the grid for rendering
-      screenClasses, // All detected screen classes
-      pageWidth: clicks[0]?.pageWidth, // Width of the page (from first click entry)
-      pageHeight: clicks[0]?.pageHeight, // Height of the page (from first click entry)
-      grid: gridData, // Heatmap grid data
+      type: "scroll" as const,
+      screenClass,
+      pageViews,
+      averageDepth: parseFloat(averageDepth.toFixed(4)),
+      gridSize: GRID_SIZE,
+      pageHeight,
+      viewportHeight,
+      screenClasses: screenClasses.map((s) => ({
+        screenClass: s.screenClass,
+        pageViews: s.pageViews,
+        averageDepth: parseFloat(s.averageDepth.toFixed(4)),
+      })),
+      reach: pageViews > 0 ? reach : [],
+      folds,
     },
     statusCode: 200,
   };
 }
 
+/**
+ * Move / attention heatmap handler - cells derived from session replays
+ * Filled by the heatmap aggregation job, so replays show up once they are finished
+ */
+export async function getActivityHeatmapHandler(
+  projectId: string,
+  url: string,
+  queryParams: { type?: string; screenClass?: string }
+) {
+  // Validate that both projectId and url are provided
+  if (!projectId || !url) {
+    return {
+      error: "projectId and url are required",
+      statusCode: 400,
+    };
+  }
+
+  const query = heatmapQuerySchema.safeParse({
+    type: queryParams.type,
+    screenClass: queryParams.screenClass,
+  });
+
+  if (
+    !query.success ||
+    (query.data.type !== "move" && query.data.type !== "attention")
+  ) {
+    return {
+      error: "Invalid query parameters",
+      details: query.success ? undefined : query.error.flatten(),
+      statusCode: 400,
+    };
+  }
+
+  const type = query.data.type;
+  const screenClass = query.data.screenClass ?? null;
+  const decodedUrl = decodeURIComponent(url);
+
+  const { cells, screenClasses } = await heatmapRepository.getActivityForUrl(
+    projectId,
+    decodedUrl,
+    type,
+    screenClass ?? undefined
+  );
+
+  const total = cells.reduce((sum, cell) => sum + cell.value, 0);
+  const maxValue = cells.reduce((max, cell) => Math.max(max, cell.value), 0);
+
+  return {
+    data: {
+      projectId,
+      url: decodedUrl,
+      type,
+      screenClass,
+      unit: type === "move" ? ("positions" as const) : ("ms" as const),
+      gridSize: GRID_SIZE,
+      total,
+      maxValue,
+      screenClasses,
+      grid: cells.map((cell) => ({
+        gridX: cell.gridX,
+        gridY: cell.gridY,
+        xNorm: (cell.gridX + 0.5) / GRID_SIZE,
+        yNorm: (cell.gridY + 0.5) / GRID_SIZE,
+        value: cell.value,
+        intensity:
+          maxValue > 0 ? parseFloat((cell.value / maxValue).toFixed(4)) : 0,
+      })),
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Share of total as a percentage with one decimal
+ */
+function toPercentage(count: number, total: number): number {
+  return total > 0 ? parseFloat(((count / total) * 100).toFixed(1)) : 0;
+}
+
 /**
  * List heatmaps handler - list all URLs that have heatmap data for a project
  */
@@ -8,10 +8,47 @@ export { ingestHandler } from "./ingest.handler";
 export {
   getSessionHandler,
   getReplayHandler,
+  streamReplayHandler,
+  getReplayManifestHandler,
+  getReplayChunkHandler,
+  getLiveReplayEventsHandler,
   getProjectSessionsHandler,
 } from "./sessions.handler";
-export { getHeatmapHandler, listHeatmapsHandler } from "./heatmaps.handler";
+export {
+  getHeatmapHandler,
+  getScrollHeatmapHandler,
+  getActivityHeatmapHandler,
+  getClickElementsHandler,
+  listHeatmapsHandler,
+} from "./heatmaps.handler";
 export { getRetentionHandler } from "./retention.handler";
 export { getTrafficAnalyticsHandler } from "./traffic.handler";
 export { getOverviewAnalyticsHandler } from "./overview.handler";
 export { getTopPagesHandler } from "./topPages.handler";
+export {
+  listWriteKeysHandler,
+  createWriteKeyHandler,
+  rotateWriteKeysHandler,
+  revokeWriteKeyHandler,
+} from "./projectKeys.handler";
+export { getCustomEventsHandler } from "./customEvents.handler";
+export { getFunnelHandler } from "./funnels.handler";
+export { getFormAnalyticsHandler } from "./forms.handler";
+export { getWebVitalsHandler } from "./vitals.handler";
+export { getErrorIssuesHandler, getErrorIssueHandler } from "./errors.handler";
+export { getDeadClicksHandler } from "./deadClicks.handler";
+export { getFrustrationHandler } from "./frustration.handler";
+export { getAcquisitionHandler } from "./acquisition.handler";
+export { getPathsHandler } from "./paths.handler";
+export {
+  listDeadLettersHandler,
+  getDeadLetterHandler,
+  redriveDeadLettersHandler,
+  deleteDeadLetterHandler,
+  purgeDeadLettersHandler,
+} from "./deadLetters.handler";
+export {
+  exportDataSubjectHandler,
+  eraseDataSubjectHandler,
+  listDataSubjectRequestsHandler,
+} from "./dataSubjects.handler";
@@ -2,15 +2,23 @@ import type { Queue, Job } from "bullmq";
 import type { IncomingBatch } from "../types";
 import { getCountryFromHeader } from "../utils/geolocation";
 import { BatchSchema } from "../schemas/ingest";
+import { projectKeyRepository } from "../repositories";
 
 /**
- * Ingest handler - accepts batch, validates, enqueues
+ * Ingest handler - accepts batch, validates, authenticates, enqueues
  * No Hono/OpenAPI code here, just business logic
+ *
+ * Authentication:
+ * - 401 if the writeKey is missing, unknown, expired or revoked
+ * - 403 if any event targets a projectId the key does not belong to
+ * Projects without any registered key are accepted as before (rollout):
+ * enforcement starts with their first key
  */
 export async function ingestHandler(
   batch: unknown,
   xForwardedFor: string | undefined,
-  queue: Queue<IncomingBatch>
+  queue: Queue<IncomingBatch>,
+  writeKey: string | undefined
 ) {
   // Validate batch
   const validation = BatchSchema.safeParse(batch);
@@ -25,6 +33,34 @@ export async function ingestHandler(
 
   const batchData = validation.data;
 
+  // Resolve writeKey to a project
+  const resolvedKey = writeKey
+    ? await projectKeyRepository.resolveWriteKey(writeKey)
+    : null;
+
+  if (!resolvedKey) {
+    const projectIds = [
+      ...new Set(batchData.events.map((event) => event.projectId)),
+    ];
+    if (await projectKeyRepository.hasKeys(projectIds)) {
+      return {
+        error: writeKey ? "Invalid or expired writeKey" : "Missing writeKey",
+        statusCode: 401,
+      };
+    }
+  }
+
+  // Every event must belong to the key's project
+  const foreignEvent =
+    resolvedKey &&
+    batchData.events.find((event) => event.projectId !== resolvedKey.projectId);
+  if (foreignEvent) {
+    return {
+      error: `writeKey is not valid for project ${foreignEvent.projectId}`,
+      statusCode: 403,
+    };
+  }
+
   // Get location from x-forwarded-for header (Render proxy)
   const location = await getCountryFromHeader(xForwardedFor);
 
@@ -1,5 +1,6 @@
 import { overviewAnalyticsRepository } from "../repositories";
 import { overviewQuerySchema } from "../schemas/overview";
+import { isValidTimezone, formatDateInTimezone } from "../utils/timezone";
 
 /**
  * Overview analytics handler - executive summary dashboard
@@ -9,13 +10,18 @@ export async function getOverviewAnalyticsHandler(queryParams: {
   projectId?: string;
   startDate?: string;
   endDate?: string;
+  timezone?: string;
 }) {
-  // Default to last 30 days if not specified
+  const timezone = queryParams.timezone || "UTC";
+
+  // Default to last 30 days if not specified, "today" being in the timezone
+  // (an invalid timezone is rejected by validation below)
   const today = new Date();
   const thirtyDaysAgo = new Date(today);
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-  const formatDate = (d: Date) => d.toISOString().split("T")[0];
+  const formatDate = (d: Date) =>
+    formatDateInTimezone(d, isValidTimezone(timezone) ? timezone : "UTC");
   const defaultEndDate = formatDate(today);
   const defaultStartDate = formatDate(thirtyDaysAgo);
 
@@ -24,6 +30,7 @@ export async function getOverviewAnalyticsHandler(queryParams: {
     projectId: queryParams.projectId,
     startDate: queryParams.startDate || defaultStartDate,
     endDate: queryParams.endDate || defaultEndDate,
+    timezone,
   };
 
   const query = overviewQuerySchema.safeParse(params);
@@ -40,7 +47,8 @@ export async function getOverviewAnalyticsHandler(queryParams: {
   const metrics = await overviewAnalyticsRepository.getOverviewAnalytics(
     query.data.projectId,
     params.startDate,
-    params.endDate
+    params.endDate,
+    query.data.timezone
   );
 
   // Calculate percentage changes
@@ -55,6 +63,7 @@ export async function getOverviewAnalyticsHandler(queryParams: {
   const response = {
     range: metrics.range,
     comparison: metrics.comparison,
+    timezone: query.data.timezone,
     cards: {
       totalVisits: {
         current: metrics.totalVisitsCurrent,
@@ -0,0 +1,122 @@
+import { pathsRepository } from "../repositories";
+import { pathsQuerySchema } from "../schemas/paths";
+
+/**
+ * Sankey nodes and links of page sequences
+ * A node is a page at a step, so a page visited twice makes two nodes and
+ * the graph has no cycles
+ */
+function toSankey(sequences: Array<{ steps: string[]; sessions: number }>) {
+  const nodes: Array<{ name: string; step: number }> = [];
+  const nodeIndexes = new Map<string, number>();
+  const links = new Map<
+    string,
+    { source: number; target: number; value: number }
+  >();
+
+  const nodeIndex = (name: string, step: number) => {
+    const key = `${step}:${name}`;
+    let index = nodeIndexes.get(key);
+    if (index === undefined) {
+      index = nodes.push({ name, step }) - 1;
+      nodeIndexes.set(key, index);
+    }
+    return index;
+  };
+
+  for (const sequence of sequences) {
+    for (let step = 1; step < sequence.steps.length; step++) {
+      const source = nodeIndex(sequence.steps[step - 1], step - 1);
+      const target = nodeIndex(sequence.steps[step], step);
+      const key = `${source}:${target}`;
+      const link = links.get(key);
+      if (link) {
+        link.value += sequence.sessions;
+      } else {
+        links.set(key, { source, target, value: sequence.sessions });
+      }
+    }
+  }
+
+  return { nodes, links: Array.from(links.values()) };
+}
+
+/**
+ * Paths handler - most common page sequences after or before a page,
+ * with a Sankey graph of them
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getPathsHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  timezone?: string;
+  page?: string;
+  direction?: string;
+  steps?: string;
+  limit?: string;
+}) {
+  // Validate query parameters
+  const query = pathsQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    timezone: queryParams.timezone,
+    page: queryParams.page,
+    direction: queryParams.direction,
+    steps: queryParams.steps,
+    limit: queryParams.limit,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const {
+    projectId,
+    startDate,
+    endDate,
+    timezone,
+    page,
+    direction,
+    steps,
+    limit,
+  } = query.data;
+
+  const paths = await pathsRepository.getPaths(
+    projectId,
+    startDate,
+    endDate,
+    timezone,
+    page,
+    direction,
+    steps,
+    limit
+  );
+
+  return {
+    data: {
+      range: { start: startDate, end: endDate },
+      timezone,
+      page,
+      direction,
+      steps,
+      sessions: paths.sessions,
+      sequences: paths.sequences.map((sequence) => ({
+        ...sequence,
+        percentage:
+          paths.sessions > 0
+            ? parseFloat(
+                ((sequence.sessions / paths.sessions) * 100).toFixed(2)
+              )
+            : 0,
+      })),
+      ...toSankey(paths.sequences),
+    },
+    statusCode: 200,
+  };
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { projectKeyRepository } from "../repositories";
+import {
+  createWriteKeySchema,
+  rotateWriteKeySchema,
+} from "../schemas/projectKeys";
+
+/**
+ * List write keys handler - all keys of a project, never the plain-text value
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function listWriteKeysHandler(projectId: string) {
+  if (!projectId) {
+    return {
+      error: "projectId is required",
+      statusCode: 400,
+    };
+  }
+
+  const keys = await projectKeyRepository.listKeys(projectId);
+
+  return {
+    data: { projectId, keys },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Create write key handler - issue or register a key for a project
+ */
+export async function createWriteKeyHandler(projectId: string, body: unknown) {
+  if (!projectId) {
+    return {
+      error: "projectId is required",
+      statusCode: 400,
+    };
+  }
+
+  const parsed = createWriteKeySchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return {
+      error: "Validation failed",
+      details: parsed.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const key = await projectKeyRepository.createKey(
+    projectId,
+    parsed.data.writeKey
+  );
+
+  return {
+    data: key,
+    statusCode: 201,
+  };
+}
+
+/**
+ * Rotate write keys handler - issue a new key, old keys expire after a grace period
+ */
+export async function rotateWriteKeysHandler(projectId: string, body: unknown) {
+  if (!projectId) {
+    return {
+      error: "projectId is required",
+      statusCode: 400,
+    };
+  }
+
+  const parsed = rotateWriteKeySchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return {
+      error: "Validation failed",
+      details: parsed.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const key = await projectKeyRepository.rotateKey(
+    projectId,
+    parsed.data.graceSeconds
+  );
+
+  return {
+    data: key,
+    statusCode: 201,
+  };
+}
+
+/**
+ * Revoke write key handler - disable a key immediately
+ */
+export async function revokeWriteKeyHandler(projectId: string, keyId: string) {
+  if (!projectId || !keyId) {
+    return {
+      error: "projectId and keyId are required",
+      statusCode: 400,
+    };
+  }
+
+  if (!z.string().uuid().safeParse(keyId).success) {
+    return {
+      error: "keyId must be a UUID",
+      statusCode: 400,
+    };
+  }
+
+  const key = await projectKeyRepository.revokeKey(projectId, keyId);
+  if (!key) {
+    return {
+      error: "Write key not found",
+      statusCode: 404,
+    };
+  }
+
+  return {
+    data: key,
+    statusCode: 200,
+  };
+}
@@ -1,15 +1,93 @@
 import { retentionRepository } from "../repositories";
-import { retentionQuerySchema } from "../schemas/retention";
+import {
+  retentionQuerySchema,
+  type RetentionMode,
+} from "../schemas/retention";
+
+type CohortCounts = {
+  date: string;
+  size: number;
+  retention: Record<number, number>;
+};
+
+/**
+ * Transform a cohort's retention counts to percentages
+ * In activity mode period 0 is the cohort itself (100%); in event mode it is
+ * the share that did the return event in the same period as the start event
+ */
+function toRetentionPercentages(
+  cohort: CohortCounts,
+  intervals: number[],
+  mode: RetentionMode
+) {
+  const retentionPercentages: Record<number, number> = {};
+
+  if (mode === "activity") {
+    const day0Pct = cohort.size > 0 ? 1.0 : 0;
+    retentionPercentages[0] = day0Pct;
+  }
+
+  for (const interval of intervals) {
+    if (interval === 0 && mode === "activity") continue;
+    const retainedCount = cohort.retention[interval] || 0;
+    const pct =
+      cohort.size > 0 ? parseFloat((retainedCount / cohort.size).toFixed(2)) : 0;
+    retentionPercentages[interval] = pct;
+  }
+
+  return {
+    date: cohort.date,
+    size: cohort.size,
+    retention: retentionPercentages,
+  };
+}
+
+/**
+ * Add up cohorts of disjoint groups of people, by cohort date
+ */
+function sumCohorts(groups: CohortCounts[][]): CohortCounts[] {
+  const byDate = new Map<string, CohortCounts>();
+
+  for (const cohorts of groups) {
+    for (const cohort of cohorts) {
+      const total = byDate.get(cohort.date) ?? {
+        date: cohort.date,
+        size: 0,
+        retention: {},
+      };
+      total.size += cohort.size;
+      for (const [interval, count] of Object.entries(cohort.retention)) {
+        const offset = Number(interval);
+        total.retention[offset] = (total.retention[offset] || 0) + count;
+      }
+      byDate.set(cohort.date, total);
+    }
+  }
+
+  return Array.from(byDate.values()).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
 
 /**
  * Retention handler - provides cohort-based user retention analysis
+ * With a breakdown, also returns one cohort matrix per segment: the largest
+ * segmentLimit segments, the rest merged into "(other)"
+ * In event mode, cohorts and returns come from startEvent and returnEvent
  * No Hono/OpenAPI code, just business logic
  */
 export async function getRetentionHandler(queryParams: {
   projectId?: string;
   startDate?: string;
   endDate?: string;
+  timezone?: string;
+  granularity?: string;
   intervals?: string;
+  breakdown?: string;
+  segmentLimit?: string;
+  mode?: string;
+  startEvent?: string;
+  returnEvent?: string;
 }) {
   // Parse and validate with Zod
   const parsedQuery = retentionQuerySchema.safeParse(queryParams);
@@ -25,42 +103,86 @@ export async function getRetentionHandler(queryParams: {
     };
   }
 
-  const { projectId, startDate, endDate, intervals } = parsedQuery.data;
-
-  // Fetch retention data
-  const cohortData = await retentionRepository.getRetentionCohorts(
+  const {
     projectId,
     startDate,
     endDate,
-    intervals
-  );
+    timezone,
+    granularity,
+    intervals,
+    breakdown,
+    segmentLimit,
+    mode,
+    startEvent,
+    returnEvent,
+  } = parsedQuery.data;
 
-  // Transform counts to percentages
-  const cohorts = cohortData.map((cohort) => {
-    const retentionPercentages: Record<number, number> = {};
+  const events =
+    mode === "event" && startEvent && returnEvent
+      ? { startEvent, returnEvent }
+      : undefined;
+  const definition = { timezone, granularity, mode, ...events };
 
-    const day0Pct = cohort.size > 0 ? 1.0 : 0;
-    retentionPercentages[0] = day0Pct;
-
-    for (const interval of intervals) {
-      if (interval === 0) continue;
-      const retainedCount = cohort.retention[interval] || 0;
-      const pct =
-        cohort.size > 0
-          ? parseFloat((retainedCount / cohort.size).toFixed(2))
-          : 0;
-      retentionPercentages[interval] = pct;
-    }
+  if (!breakdown) {
+    // Fetch retention data
+    const cohortData = await retentionRepository.getRetentionCohorts(
+      projectId,
+      startDate,
+      endDate,
+      intervals,
+      granularity,
+      events,
+      timezone
+    );
 
     return {
-      date: cohort.date,
-      size: cohort.size,
-      retention: retentionPercentages,
+      data: {
+        ...definition,
+        cohorts: cohortData.map((cohort) =>
+          toRetentionPercentages(cohort, intervals, mode)
+        ),
+      },
+      statusCode: 200,
     };
-  });
+  }
+
+  // Segments partition people, so the overall cohorts are their sum
+  const segmentData = await retentionRepository.getRetentionCohortsBySegment(
+    projectId,
+    startDate,
+    endDate,
+    intervals,
+    granularity,
+    breakdown,
+    events,
+    timezone
+  );
+
+  const kept = segmentData.slice(0, segmentLimit);
+  const rest = segmentData.slice(segmentLimit);
+  if (rest.length > 0) {
+    kept.push({
+      segment: "(other)",
+      size: rest.reduce((sum, segment) => sum + segment.size, 0),
+      cohorts: sumCohorts(rest.map((segment) => segment.cohorts)),
+    });
+  }
 
   return {
-    data: { cohorts },
+    data: {
+      ...definition,
+      cohorts: sumCohorts(segmentData.map((segment) => segment.cohorts)).map(
+        (cohort) => toRetentionPercentages(cohort, intervals, mode)
+      ),
+      breakdown,
+      segments: kept.map((segment) => ({
+        segment: segment.segment,
+        size: segment.size,
+        cohorts: segment.cohorts.map((cohort) =>
+          toRetentionPercentages(cohort, intervals, mode)
+        ),
+      })),
+    },
     statusCode: 200,
   };
 }
@@ -2,13 +2,62 @@ import {
   sessionRepository,
   rrwebRepository,
   heatmapRepository,
+  eventRepository,
 } from "../repositories";
+import type { ReplayManifest } from "../repositories/RrwebRepository";
+import {
+  clickThresholdsQuerySchema,
+  replayChunkParamsSchema,
+  replayWindowQuerySchema,
+  sessionSearchQuerySchema,
+} from "../schemas/sessions";
+import { toReplayEvent } from "../utils/replayChunks";
+import {
+  encodeSessionCursor,
+  decodeSessionCursor,
+} from "../utils/sessionCursor";
+
+type ClickThresholdParams = {
+  minClicks?: string;
+  thresholdMs?: string;
+  deadThresholdMs?: string;
+  errorWindowMs?: string;
+};
+
+type ReplayWindowParams = {
+  from?: string;
+  to?: string;
+  snapshot?: string;
+  format?: string;
+};
+
+type SessionSearchParams = ClickThresholdParams & {
+  startDate?: string;
+  endDate?: string;
+  country?: string;
+  device?: string;
+  userId?: string;
+  clientId?: string;
+  url?: string;
+  event?: string;
+  minDurationMs?: string;
+  hasRageClicks?: string;
+  hasErrors?: string;
+  sort?: string;
+  cursor?: string;
+  limit?: string;
+};
 
 /**
- * Session handler - fetch a session and all its rrweb replay events
+ * Session handler - fetch a session and the manifests of its replays,
+ * with its rage, dead and error clicks
+ * Replay events are loaded on demand, one chunk at a time
  * No Hono/OpenAPI code, just business logic
  */
-export async function getSessionHandler(sessionId: string) {
+export async function getSessionHandler(
+  sessionId: string,
+  queryParams: ClickThresholdParams = {}
+) {
   if (!sessionId) {
     return {
       error: "sessionId is required",
@@ -16,6 +65,17 @@ export async function getSessionHandler(sessionId: string) {
     };
   }
 
+  const thresholds = clickThresholdsQuerySchema.safeParse(queryParams);
+  if (!thresholds.success) {
+    return {
+      error: "Validation failed",
+      details: thresholds.error.errors,
+      statusCode: 400,
+    };
+  }
+  const { minClicks, thresholdMs, deadThresholdMs, errorWindowMs } =
+    thresholds.data;
+
   // Get session metadata
   const session = await sessionRepository.getSession(sessionId);
   if (!session) {
@@ -25,16 +85,23 @@ export async function getSessionHandler(sessionId: string) {
     };
   }
 
-  // Get all rrweb events for this session
-  const events = await rrwebRepository.getRrwebEventsBySession(sessionId);
+  // Replays of the session (each tab gets its own replay)
+  const replays = await rrwebRepository.getReplayManifestsBySession(sessionId);
 
-  // Group events by replayId (each tab gets its own replay)
-  const replays = new Map<string, typeof events>();
-  for (const event of events) {
-    const replay = replays.get(event.replayId) || [];
-    replay.push(event);
-    replays.set(event.replayId, replay);
-  }
+  // Clicks that signal frustration
+  const rageClicks = await eventRepository.getRageClickSequencesBySession(
+    sessionId,
+    minClicks,
+    thresholdMs
+  );
+  const deadClicks = await eventRepository.getDeadClicksBySession(
+    sessionId,
+    deadThresholdMs
+  );
+  const errorClicks = await eventRepository.getErrorClicksBySession(
+    sessionId,
+    errorWindowMs
+  );
 
   return {
     data: {
@@ -48,38 +115,52 @@ export async function getSessionHandler(sessionId: string) {
         createdAt: session.createdAt,
         updatedAt: session.updatedAt,
       },
-      eventCount: events.length,
-      replays: Array.from(replays.entries()).map(
-        ([replayId, replayEvents]) => ({
-          replayId,
-          eventCount: replayEvents.length,
-          startTime: replayEvents[0]?.timestamp,
-          endTime: replayEvents[replayEvents.length - 1]?.timestamp,
-          events: replayEvents.map((e) => ({
-            id: e.id,
-            eventId: e.eventId,
-            timestamp: e.timestamp,
-            url: e.url,
-            rrwebPayload: e.rrwebPayload,
-            schemaVersion: e.schemaVersion,
-          })),
-        })
+      eventCount: replays.reduce(
+        (total, replay) => total + replay.eventCount,
+        0
       ),
+      clickIssues: {
+        thresholds: { minClicks, thresholdMs, deadThresholdMs, errorWindowMs },
+        rageClicks,
+        deadClicks,
+        errorClicks,
+      },
+      replays: replays.map(formatReplayManifest),
     },
     statusCode: 200,
   };
 }
 
 /**
- * helper function for fetching replays by session
- *
+ * Shape a replay manifest for API responses
  */
+function formatReplayManifest(manifest: ReplayManifest) {
+  return {
+    replayId: manifest.replayId,
+    url: manifest.url,
+    eventCount: manifest.eventCount,
+    startTime: manifest.startTime,
+    endTime: manifest.endTime,
+    chunks: manifest.chunks,
+    live: manifest.live,
+  };
+}
 
+// Replay window when to is not given, and the longest JSON window
+const REPLAY_WINDOW_MS = 60 * 1000;
+const MAX_REPLAY_WINDOW_MS = 10 * 60 * 1000;
 
 /**
- * Replay handler - fetch a specific replay (single tab session)
+ * Resolve the time window of a replay request
+ * from defaults to the replay start; to to one window later, or to the
+ * replay end when streaming. With snapshot, events are read from the latest
+ * full snapshot at or before from
+ * nextFrom is the first event at or after to, so windows skip idle periods
  */
-export async function getReplayHandler(replayId: string) {
+async function resolveReplayWindow(
+  replayId: string,
+  queryParams: ReplayWindowParams
+) {
   if (!replayId) {
     return {
       error: "replayId is required",
@@ -87,45 +168,237 @@ export async function getReplayHandler(replayId: string) {
     };
   }
 
-  const events = await rrwebRepository.getRrwebEventsByReplay(replayId);
+  const validation = replayWindowQuerySchema.safeParse(queryParams);
+  if (!validation.success) {
+    return {
+      error: "Validation failed",
+      details: validation.error.errors,
+      statusCode: 400,
+    };
+  }
+  const { snapshot, format } = validation.data;
 
-  if (events.length === 0) {
+  const manifest = await rrwebRepository.getReplayManifest(replayId);
+  if (!manifest) {
     return {
       error: "Replay not found",
       statusCode: 404,
     };
   }
 
+  // Replay end is inclusive, window ends are not
+  const replayEnd = manifest.endTime.getTime() + 1;
+  const from = validation.data.from ?? manifest.startTime.getTime();
+  const to =
+    validation.data.to ??
+    (format === "ndjson"
+      ? Math.max(replayEnd, from + 1)
+      : from + REPLAY_WINDOW_MS);
+
+  if (format === "json" && to - from > MAX_REPLAY_WINDOW_MS) {
+    return {
+      error: `Window is longer than ${MAX_REPLAY_WINDOW_MS}ms, use format=ndjson`,
+      statusCode: 400,
+    };
+  }
+
+  const snapshotAt = snapshot
+    ? await rrwebRepository.getReplaySnapshotTime(replayId, new Date(from))
+    : null;
+
+  const nextEventAt =
+    to < replayEnd
+      ? await rrwebRepository.getNextReplayEventTime(replayId, new Date(to))
+      : null;
+
+  return {
+    manifest,
+    from,
+    to,
+    snapshot,
+    snapshotAt,
+    // Events before from rebuild the page as it was at from
+    start: new Date(Math.min(snapshotAt?.getTime() ?? from, from)),
+    nextFrom: nextEventAt?.getTime() ?? null,
+  };
+}
+
+/**
+ * Replay handler - fetch a time window of a specific replay (single tab
+ * session): the full snapshot before the window and the events in [from, to),
+ * compacted and live. Follow nextFrom (with snapshot=false) for the next window
+ */
+export async function getReplayHandler(
+  replayId: string,
+  queryParams: ReplayWindowParams = {}
+) {
+  const window = await resolveReplayWindow(replayId, queryParams);
+  if (window.error !== undefined) {
+    return window;
+  }
+  const { manifest, from, to, snapshot, snapshotAt, start, nextFrom } = window;
+
+  const events = await rrwebRepository.getReplayEventsInRange(
+    replayId,
+    start,
+    new Date(to),
+    snapshot
+  );
+
   return {
     data: {
       replayId,
-      sessionId: events[0].sessionId,
-      clientId: events[0].clientId,
-      userId: events[0].userId,
+      sessionId: manifest.sessionId,
+      clientId: manifest.clientId,
+      userId: manifest.userId,
       eventCount: events.length,
-      startTime: events[0].timestamp,
-      endTime: events[events.length - 1].timestamp,
-      events: events.map((e) => ({
-        id: e.id,
-        eventId: e.eventId,
-        timestamp: e.timestamp,
-        url: e.url,
-        rrwebPayload: e.rrwebPayload,
-        schemaVersion: e.schemaVersion,
-        pageWidth: e.pageWidth,
-        pageHeight: e.pageHeight,
-        viewportWidth: e.viewportWidth,
-        viewportHeight: e.viewportHeight,
-      })),
+      startTime: manifest.startTime,
+      endTime: manifest.endTime,
+      // Whole replay, the loaded windows may cover less
+      duration: manifest.endTime.getTime() - manifest.startTime.getTime(),
+      from,
+      to,
+      snapshotAt,
+      nextFrom,
+      events,
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Replay stream handler - the same window as getReplayHandler, with no size
+ * limit (the whole replay by default), read one chunk at a time
+ * The events are returned as an async iterable, for NDJSON streaming
+ */
+export async function streamReplayHandler(
+  replayId: string,
+  queryParams: ReplayWindowParams = {}
+) {
+  const window = await resolveReplayWindow(replayId, queryParams);
+  if (window.error !== undefined) {
+    return window;
+  }
+  const { from, to, snapshot, snapshotAt, start, nextFrom } = window;
+
+  return {
+    data: {
+      replayId,
+      from,
+      to,
+      snapshotAt,
+      nextFrom,
+      events: rrwebRepository.streamReplayEvents(
+        replayId,
+        start,
+        new Date(to),
+        snapshot
+      ),
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Replay manifest handler - the chunks of a replay, to load them on demand
+ */
+export async function getReplayManifestHandler(replayId: string) {
+  if (!replayId) {
+    return {
+      error: "replayId is required",
+      statusCode: 400,
+    };
+  }
+
+  const manifest = await rrwebRepository.getReplayManifest(replayId);
+  if (!manifest) {
+    return {
+      error: "Replay not found",
+      statusCode: 404,
+    };
+  }
+
+  return {
+    data: {
+      ...formatReplayManifest(manifest),
+      sessionId: manifest.sessionId,
+      clientId: manifest.clientId,
+      userId: manifest.userId,
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Replay chunk handler - one compacted chunk of a replay
+ * Returns the stored gzip data as is; chunks never change once written
+ */
+export async function getReplayChunkHandler(
+  replayId: string,
+  sequence: string
+) {
+  const parsed = replayChunkParamsSchema.safeParse({ replayId, sequence });
+  if (!parsed.success) {
+    return {
+      error: "Validation failed",
+      details: parsed.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const chunk = await rrwebRepository.getReplayChunk(
+    parsed.data.replayId,
+    parsed.data.sequence
+  );
+  if (!chunk) {
+    return {
+      error: "Replay chunk not found",
+      statusCode: 404,
+    };
+  }
+
+  return {
+    data: {
+      sequence: chunk.sequence,
+      eventCount: chunk.eventCount,
+      gzip: chunk.data,
+    },
+    statusCode: 200,
+  };
+}
+
+/**
+ * Live replay events handler - events of a replay not compacted yet
+ * (the replay is still recording, or events arrived after compaction)
+ */
+export async function getLiveReplayEventsHandler(replayId: string) {
+  if (!replayId) {
+    return {
+      error: "replayId is required",
+      statusCode: 400,
+    };
+  }
+
+  const rows = await rrwebRepository.getRrwebEventsByReplay(replayId);
+
+  return {
+    data: {
+      replayId,
+      eventCount: rows.length,
+      events: rows.map(toReplayEvent),
     },
     statusCode: 200,
   };
 }
 
 /**
- * Project sessions handler - fetch all sessions for a project
+ * Project sessions handler - search a project's sessions, one page at a time
+ * Filters are combined with AND; pass nextCursor back as cursor for the next page
  */
-export async function getProjectSessionsHandler(projectId: string) {
+export async function getProjectSessionsHandler(
+  projectId: string,
+  queryParams: SessionSearchParams = {}
+) {
   if (!projectId) {
     return {
       error: "projectId is required",
@@ -133,8 +406,41 @@ export async function getProjectSessionsHandler(projectId: string) {
     };
   }
 
-  // Get all sessions with stats
-  const sessions = await sessionRepository.getSessionsWithStats(projectId);
+  const validation = sessionSearchQuerySchema.safeParse(queryParams);
+  if (!validation.success) {
+    return {
+      error: "Validation failed",
+      details: validation.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const {
+    minClicks,
+    thresholdMs,
+    deadThresholdMs,
+    errorWindowMs,
+    sort,
+    cursor: encodedCursor,
+    limit,
+    ...filters
+  } = validation.data;
+
+  // Cursors only continue the sort they were created with
+  const cursor = encodedCursor ? decodeSessionCursor(encodedCursor) : null;
+  if (encodedCursor && (!cursor || cursor.sort !== sort)) {
+    return {
+      error: "Invalid cursor",
+      statusCode: 400,
+    };
+  }
+
+  const { sessions, nextCursor } = await sessionRepository.searchSessions(
+    projectId,
+    filters,
+    { minClicks, thresholdMs, deadThresholdMs, errorWindowMs },
+    { sort, cursor: cursor ?? undefined, limit }
+  );
 
   // Format response
   const formattedSessions = sessions.map((session) => {
@@ -152,6 +458,8 @@ export async function getProjectSessionsHandler(projectId: string) {
       endedAt: session.updatedAt.getTime(),
       eventsCount: session.eventsCount,
       rageClicks: session.rageClicks,
+      deadClicks: session.deadClicks,
+      errorClicks: session.errorClicks,
       createdAt: session.createdAt,
       updatedAt: session.updatedAt,
     };
@@ -160,8 +468,12 @@ export async function getProjectSessionsHandler(projectId: string) {
   return {
     data: {
       projectId,
+      sort,
       sessionCount: formattedSessions.length,
       sessions: formattedSessions,
+      nextCursor: nextCursor
+        ? encodeSessionCursor({ sort, ...nextCursor })
+        : null,
     },
     statusCode: 200,
   };
@@ -2,13 +2,22 @@ import { topPagesRepository } from "../repositories";
 import { topPagesQuerySchema } from "../schemas/topPages";
 
 /**
- * Top pages handler - returns top visited pages with metrics
+ * Percentage, 2 decimals
+ */
+function percentOf(count: number, total: number): number {
+  return total > 0 ? parseFloat(((count / total) * 100).toFixed(2)) : 0;
+}
+
+/**
+ * Top pages handler - returns top visited pages with metrics,
+ * and the pages sessions enter and exit on most
  * No Hono/OpenAPI code, just business logic
  */
 export async function getTopPagesHandler(queryParams: {
   projectId?: string;
   startDate?: string;
   endDate?: string;
+  timezone?: string;
   limit?: string;
 }) {
   // Validate query parameters
@@ -16,6 +25,7 @@ export async function getTopPagesHandler(queryParams: {
     projectId: queryParams.projectId,
     startDate: queryParams.startDate,
     endDate: queryParams.endDate,
+    timezone: queryParams.timezone,
     limit: queryParams.limit,
   });
 
@@ -27,13 +37,32 @@ export async function getTopPagesHandler(queryParams: {
     };
   }
 
-  // Fetch top pages from repository
-  const pages = await topPagesRepository.getTopPages(
-    query.data.projectId,
-    query.data.startDate,
-    query.data.endDate,
-    query.data.limit
-  );
+  const { projectId, startDate, endDate, timezone, limit } = query.data;
+
+  // Fetch top, entry and exit pages from repository
+  const [pages, entryPages, exitPages] = await Promise.all([
+    topPagesRepository.getTopPages(
+      projectId,
+      startDate,
+      endDate,
+      timezone,
+      limit
+    ),
+    topPagesRepository.getEntryPages(
+      projectId,
+      startDate,
+      endDate,
+      timezone,
+      limit
+    ),
+    topPagesRepository.getExitPages(
+      projectId,
+      startDate,
+      endDate,
+      timezone,
+      limit
+    ),
+  ]);
 
   // Return response
   const response = {
@@ -41,7 +70,17 @@ export async function getTopPagesHandler(queryParams: {
       startDate: query.data.startDate,
       endDate: query.data.endDate,
     },
+    timezone: query.data.timezone,
     pages,
+    entryPages: entryPages.map((page) => ({
+      path: page.path,
+      entries: page.entries,
+      bounceRate: percentOf(page.bounces, page.entries),
+    })),
+    exitPages: exitPages.map((page) => ({
+      ...page,
+      exitRate: percentOf(page.exits, page.views),
+    })),
   };
 
   return {
@@ -33,7 +33,8 @@ export async function getTrafficAnalyticsHandler(queryParams: {
   const metrics = await trafficAnalyticsRepository.getTrafficAnalytics(
     params.projectId,
     params.startDate,
-    params.endDate
+    params.endDate,
+    params.timezone
   );
 
   // Fetch device distribution
@@ -41,7 +42,8 @@ export async function getTrafficAnalyticsHandler(queryParams: {
     await trafficAnalyticsRepository.getDeviceDistribution(
       params.projectId,
       params.startDate,
-      params.endDate
+      params.endDate,
+      params.timezone
     );
 
   // Transform to response format with comparison percentages
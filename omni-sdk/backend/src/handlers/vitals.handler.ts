@@ -0,0 +1,111 @@
+import { webVitalsRepository } from "../repositories";
+import { webVitalsQuerySchema, type WebVitalMetric } from "../schemas/vitals";
+
+/**
+ * [good, poor] thresholds per metric (same as WebVitalsPlugin)
+ * p75 <= good is "good", p75 > poor is "poor"
+ */
+const THRESHOLDS: Record<WebVitalMetric, [number, number]> = {
+  LCP: [2500, 4000],
+  INP: [200, 500],
+  CLS: [0.1, 0.25],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+};
+
+/**
+ * Shape one aggregated row: round the p75 and rate it
+ * CLS keeps 3 decimals, time-based metrics are whole milliseconds
+ */
+function toStat(row: { metric: string; p75: number; samples: number }) {
+  const metric = row.metric as WebVitalMetric;
+  const p75 =
+    metric === "CLS" ? parseFloat(row.p75.toFixed(3)) : Math.round(row.p75);
+  const [good, poor] = THRESHOLDS[metric];
+
+  return {
+    metric,
+    p75,
+    samples: row.samples,
+    rating:
+      p75 <= good
+        ? ("good" as const)
+        : p75 <= poor
+          ? ("needs-improvement" as const)
+          : ("poor" as const),
+  };
+}
+
+/**
+ * Web vitals handler - returns real-user p75 per metric, overall and
+ * broken down by URL path, device (screenClass) and country
+ * No Hono/OpenAPI code, just business logic
+ */
+export async function getWebVitalsHandler(queryParams: {
+  projectId?: string;
+  startDate?: string;
+  endDate?: string;
+  metric?: string;
+  path?: string;
+}) {
+  // Validate query parameters
+  const query = webVitalsQuerySchema.safeParse({
+    projectId: queryParams.projectId,
+    startDate: queryParams.startDate,
+    endDate: queryParams.endDate,
+    metric: queryParams.metric,
+    path: queryParams.path,
+  });
+
+  if (!query.success) {
+    return {
+      error: "Validation failed",
+      details: query.error.errors,
+      statusCode: 400,
+    };
+  }
+
+  const { projectId, startDate, endDate, metric, path } = query.data;
+
+  const [summary, byUrl, byDevice, byCountry] = await Promise.all([
+    webVitalsRepository.getP75(
+      projectId,
+      startDate,
+      endDate,
+      undefined,
+      metric,
+      path
+    ),
+    webVitalsRepository.getP75(projectId, startDate, endDate, "url", metric, path),
+    webVitalsRepository.getP75(
+      projectId,
+      startDate,
+      endDate,
+      "device",
+      metric,
+      path
+    ),
+    webVitalsRepository.getP75(
+      projectId,
+      startDate,
+      endDate,
+      "country",
+      metric,
+      path
+    ),
+  ]);
+
+  return {
+    data: {
+      range: { startDate, endDate },
+      summary: summary.map(toStat),
+      byUrl: byUrl.map((row) => ({ ...toStat(row), path: row.group ?? "/" })),
+      byDevice: byDevice.map((row) => ({ ...toStat(row), device: row.group })),
+      byCountry: byCountry.map((row) => ({
+        ...toStat(row),
+        country: row.group,
+      })),
+    },
+    statusCode: 200,
+  };
+}
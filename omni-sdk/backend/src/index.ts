@@ -13,6 +13,18 @@ import {
   createTrafficRouter,
   createOverviewRouter,
   createTopPagesRouter,
+  createProjectKeysRouter,
+  createCustomEventsRouter,
+  createFunnelsRouter,
+  createFormsRouter,
+  createVitalsRouter,
+  createErrorsRouter,
+  createDeadClicksRouter,
+  createFrustrationRouter,
+  createAcquisitionRouter,
+  createPathsRouter,
+  createDeadLettersRouter,
+  createDataSubjectsRouter,
 } from "./routes";
 import { createIngestionQueue } from "./queue";
 import { checkDbConnection } from "./db/client";
@@ -99,15 +111,33 @@ async function initialize() {
       openapi: "/openapi.json",
       endpoints: {
         health: "GET /health",
-        ingest: "POST /ingest",
+        ingest: "POST /ingest?writeKey=...",
+        writeKeys: "GET|POST /projects/:projectId/write-keys",
+        deadLetters: "GET /admin/dead-letters",
+        dataSubjects:
+          "POST /admin/data-subjects/:projectId/:distinctId/export, DELETE /admin/data-subjects/:projectId/:distinctId",
         sessions: "GET /sessions/:sessionId",
-        replays: "GET /replays/:replayId",
+        replays:
+          "GET /sessions/replays/:replayId?from=&to=&snapshot=&format=json|ndjson",
+        replayManifest: "GET /sessions/replays/:replayId/manifest",
+        replayChunks: "GET /sessions/replays/:replayId/chunks/:sequence",
         projectSessions: "GET /projects/:projectId/sessions",
-        heatmaps: "GET /heatmaps/:projectId/:url",
+        heatmaps: "GET /heatmaps/:projectId/:url?type=click|scroll|move|attention",
+        clickMaps: "GET /heatmaps/:projectId/:url/elements",
         retention: "GET /analytics/retention",
         traffic: "GET /analytics/traffic",
         overview: "GET /analytics/overview",
         topPages: "GET /analytics/top-pages",
+        customEvents: "GET /analytics/events",
+        funnels: "POST /analytics/funnels",
+        forms: "GET /analytics/forms",
+        vitals: "GET /analytics/vitals",
+        errors: "GET /analytics/errors",
+        errorIssue: "GET /analytics/errors/:issueId",
+        deadClicks: "GET /analytics/dead-clicks",
+        frustration: "GET /analytics/frustration",
+        acquisition: "GET /analytics/acquisition",
+        paths: "GET /analytics/paths",
       },
     });
   });
@@ -115,6 +145,15 @@ async function initialize() {
   // Ingest route
   app.route("/ingest", createIngestRouter(queue));
 
+  // Project write key management (admin)
+  app.route("/projects", createProjectKeysRouter());
+
+  // Dead-letter queue of failed ingestion events (admin)
+  app.route("/admin/dead-letters", createDeadLettersRouter(queue));
+
+  // Data subject access and erasure requests (admin)
+  app.route("/admin/data-subjects", createDataSubjectsRouter());
+
   // Sessions routes
   app.route("/sessions", createSessionsRouter());
 
@@ -126,6 +165,15 @@ async function initialize() {
   app.route("/analytics/traffic", createTrafficRouter());
   app.route("/analytics/overview", createOverviewRouter());
   app.route("/analytics/top-pages", createTopPagesRouter());
+  app.route("/analytics/events", createCustomEventsRouter());
+  app.route("/analytics/funnels", createFunnelsRouter());
+  app.route("/analytics/forms", createFormsRouter());
+  app.route("/analytics/vitals", createVitalsRouter());
+  app.route("/analytics/errors", createErrorsRouter());
+  app.route("/analytics/dead-clicks", createDeadClicksRouter());
+  app.route("/analytics/frustration", createFrustrationRouter());
+  app.route("/analytics/acquisition", createAcquisitionRouter());
+  app.route("/analytics/paths", createPathsRouter());
 
   console.log("✓ Backend initialized");
 }
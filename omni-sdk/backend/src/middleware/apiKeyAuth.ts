@@ -0,0 +1,33 @@
+import { createMiddleware } from "hono/factory";
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Compare two secrets without leaking their difference through timing
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Admin API key middleware
+ * Requires `Authorization: Bearer <BACKEND_API_KEY>` on protected routes
+ * (the dashboard's Convex actions already send this header)
+ */
+export const requireApiKey = createMiddleware(async (c, next) => {
+  const apiKey = process.env.BACKEND_API_KEY;
+  if (!apiKey) {
+    console.error("[Auth] BACKEND_API_KEY is not configured");
+    return c.json({ error: "Admin API is not configured" }, 503);
+  }
+
+  const header = c.req.header("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  if (!token || !safeEqual(token, apiKey)) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  await next();
+});
@@ -0,0 +1,5 @@
+/**
+ * Middleware barrel export
+ */
+
+export { requireApiKey } from "./apiKeyAuth";
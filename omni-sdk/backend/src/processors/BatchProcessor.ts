@@ -0,0 +1,189 @@
+import {
+  processBaseEvents,
+  type ProcessEventParams,
+} from "./BaseEventProcessor";
+import { storeRrwebEvents } from "./RrwebProcessor";
+import { storeClickEvents } from "./ClickProcessor";
+import { storeCustomEvent } from "./CustomEventProcessor";
+import { storeInputEvent } from "./InputProcessor";
+import { storeIdentifyEvent } from "./IdentifyProcessor";
+import { storeWebVitalEvent } from "./WebVitalProcessor";
+import { storeErrorEvent } from "./ErrorProcessor";
+import { storeScrollEvent } from "./ScrollProcessor";
+import { storeDeadClickEvent } from "./DeadClickProcessor";
+import type {
+  Event,
+  RrwebEventData,
+  ClickEventData,
+  CustomEventData,
+  InputEventData,
+  IdentifyEventData,
+  WebVitalEventData,
+  ErrorEventData,
+  ScrollEventData,
+  DeadClickEventData,
+} from "../types";
+
+export interface BatchResult {
+  succeeded: number;
+  failed: number;
+  errors: Array<{ eventId: string; error: string }>;
+}
+
+// Event types with a processor; the others are skipped
+const PROCESSED_TYPES = new Set([
+  "rrweb",
+  "click",
+  "pageview",
+  "custom",
+  "input",
+  "identify",
+  "web_vital",
+  "error",
+  "scroll",
+  "dead_click",
+]);
+
+/**
+ * Device of an event: its screenClass, when it has one
+ */
+function deviceOf(event: Event): string | undefined {
+  return "screenClass" in event && event.screenClass
+    ? event.screenClass
+    : undefined;
+}
+
+/**
+ * Base tracking parameters of an event (selector and event name are kept
+ * on the generic event for funnel matching)
+ */
+function toBaseParams(event: Event, location?: string): ProcessEventParams {
+  return {
+    event,
+    eventType: event.type,
+    location,
+    device: deviceOf(event),
+    selector:
+      event.type === "click" || event.type === "input"
+        ? (event as ClickEventData | InputEventData).selector
+        : undefined,
+    eventName:
+      event.type === "custom"
+        ? (event as CustomEventData).eventName
+        : undefined,
+  };
+}
+
+/**
+ * Store the type-specific data of one event (no base tracking)
+ */
+async function storeEvent(event: Event, location?: string) {
+  const device = deviceOf(event);
+
+  switch (event.type) {
+    case "custom":
+      return storeCustomEvent(event as CustomEventData, location, device);
+    case "input":
+      return storeInputEvent(event as InputEventData, location, device);
+    case "identify":
+      return storeIdentifyEvent(event as IdentifyEventData, location, device);
+    case "web_vital":
+      return storeWebVitalEvent(event as WebVitalEventData, location, device);
+    case "error":
+      return storeErrorEvent(event as ErrorEventData, location, device);
+    case "scroll":
+      return storeScrollEvent(event as ScrollEventData, location, device);
+    case "dead_click":
+      return storeDeadClickEvent(event as DeadClickEventData, location, device);
+    default:
+      // pageview: base tracking only
+      return;
+  }
+}
+
+/**
+ * Process an ingestion batch with set-based writes
+ * Replaces routing events one at a time, where every event cost a
+ * select-then-insert per table:
+ * 1. Base tracking of all events in bulk (one upsert per session, multi-row
+ *    inserts of events, users and daily activity)
+ * 2. rrweb events and clicks in multi-row INSERT ... ON CONFLICT DO NOTHING
+ * 3. The other event types one at a time
+ *
+ * All writes are idempotent, so a retried batch is safe
+ * Throws if base tracking fails (nothing was tracked, retry the batch);
+ * after that, a failed group or event is reported without failing the others
+ *
+ * @param events - Events of the batch
+ * @param location - Country of the batch (from the ingest request)
+ */
+export async function processEventBatch(
+  events: Event[],
+  location?: string
+): Promise<BatchResult> {
+  const results: BatchResult = { succeeded: 0, failed: 0, errors: [] };
+
+  const processed = events.filter((event) => {
+    if (PROCESSED_TYPES.has(event.type)) return true;
+
+    // Not implemented yet (route, session_snapshot) or unknown
+    console.warn(`[BatchProcessor] Event type '${event.type}' skipped`);
+    results.succeeded++;
+    return false;
+  });
+
+  await processBaseEvents(
+    processed.map((event) => toBaseParams(event, location))
+  );
+
+  const fail = (failed: Event[], error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    results.failed += failed.length;
+    for (const event of failed) {
+      results.errors.push({ eventId: event.eventId, error: message });
+    }
+  };
+
+  const rrwebEvents = processed.filter(
+    (event): event is RrwebEventData => event.type === "rrweb"
+  );
+  const clickEvents = processed.filter(
+    (event): event is ClickEventData => event.type === "click"
+  );
+
+  const storeGroup = async (
+    name: string,
+    group: Event[],
+    store: () => Promise<void>
+  ) => {
+    if (group.length === 0) return;
+    try {
+      await store();
+      results.succeeded += group.length;
+    } catch (error) {
+      console.error(`[BatchProcessor] Error storing ${name} events:`, error);
+      fail(group, error);
+    }
+  };
+
+  await storeGroup("rrweb", rrwebEvents, () => storeRrwebEvents(rrwebEvents));
+  await storeGroup("click", clickEvents, () =>
+    storeClickEvents(clickEvents, location)
+  );
+
+  for (const event of processed) {
+    if (event.type === "rrweb" || event.type === "click") continue;
+    try {
+      await storeEvent(event, location);
+      results.succeeded++;
+    } catch (error) {
+      console.error(
+        `[BatchProcessor] Error processing event ${event.eventId}:`,
+        error
+      );
+      fail([event], error);
+    }
+  }
+
+  return results;
+}
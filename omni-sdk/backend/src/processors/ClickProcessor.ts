@@ -1,12 +1,49 @@
 import { heatmapRepository } from "../repositories";
 import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import { computeElementKey } from "../utils/elementKey";
 import type { ClickEventData } from "../types";
+import type { HeatmapClickInsert } from "../repositories/HeatmapRepository";
+
+/**
+ * Heatmap click of a click event, with country for heatmap filters and the
+ * element key (xpath tail + text hash) for click maps
+ */
+function toHeatmapClick(
+  event: ClickEventData,
+  location?: string
+): HeatmapClickInsert {
+  return {
+    eventId: event.eventId,
+    projectId: event.projectId,
+    sessionId: event.sessionId,
+    clientId: event.clientId,
+    userId: event.userId || null,
+    url: event.url,
+    xNorm: event.xNorm,
+    yNorm: event.yNorm,
+    pageX: event.pageX,
+    pageY: event.pageY,
+    selector: event.selector,
+    xpath: event.xpath,
+    tagName: event.tagName,
+    elementTextHash: event.elementTextHash,
+    elementKey: computeElementKey(event),
+    screenClass: event.screenClass,
+    layoutHash: event.layoutHash,
+    pageWidth: event.pageDimensions?.w,
+    pageHeight: event.pageDimensions?.h,
+    viewportWidth: event.viewport?.w,
+    viewportHeight: event.viewport?.h,
+    country: location || null,
+    timestamp: new Date(event.timestamp),
+  };
+}
 
 /**
  * Process click events
  * - Base session/event tracking (centralized)
- * - Aggregate clicks into heatmap grid
- * - Increment bucket counter
+ * - Record the click for the heatmap grid (with country for heatmap filters)
+ * - Key the clicked element for click maps (xpath tail + text hash)
  */
 export async function processClickEvent(
   event: ClickEventData,
@@ -21,26 +58,23 @@ export async function processClickEvent(
       location,
       device,
       screenClass: event.screenClass,
+      selector: event.selector,
     });
 
     // Record click in heatmap
-    await heatmapRepository.recordClick({
-      projectId: event.projectId,
-      sessionId: event.sessionId,
-      url: event.url,
-      xNorm: event.xNorm,
-      yNorm: event.yNorm,
-      pageX: event.pageX,
-      pageY: event.pageY,
-      selector: event.selector,
-      tagName: event.tagName,
-      elementTextHash: event.elementTextHash,
-      screenClass: event.screenClass,
-      layoutHash: event.layoutHash,
-      pageWidth: event.pageDimensions?.w,
-      pageHeight: event.pageDimensions?.h,
-      viewportWidth: event.viewport?.w,
-      viewportHeight: event.viewport?.h,
-    });
+    await heatmapRepository.recordClick(toHeatmapClick(event, location));
   });
 }
+
+/**
+ * Record a batch of clicks in multi-row inserts
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeClickEvents(
+  events: ClickEventData[],
+  location?: string
+) {
+  await heatmapRepository.recordClicks(
+    events.map((event) => toHeatmapClick(event, location))
+  );
+}
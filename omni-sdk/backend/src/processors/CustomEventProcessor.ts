@@ -0,0 +1,51 @@
+import { customEventRepository } from "../repositories";
+import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import type { CustomEventData } from "../types";
+
+/**
+ * Process custom events (tracker.trackCustom)
+ * - Base session/event tracking (centralized)
+ * - Store event name and JSONB properties
+ */
+export async function processCustomEvent(
+  event: CustomEventData,
+  location?: string,
+  device?: string
+) {
+  await executeProcessor("CustomEventProcessor", event.eventId, async () => {
+    // Base event processing (session upsert + event tracking)
+    await processBaseEvent({
+      event,
+      eventType: "custom",
+      location,
+      device,
+      screenClass: undefined,
+      eventName: event.eventName,
+    });
+
+    await storeCustomEvent(event, location, device);
+  });
+}
+
+/**
+ * Store a custom event's name and JSONB properties
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeCustomEvent(
+  event: CustomEventData,
+  location?: string,
+  device?: string
+) {
+  // Store custom event with its properties
+  await customEventRepository.insertCustomEvent({
+    eventId: event.eventId,
+    projectId: event.projectId,
+    sessionId: event.sessionId,
+    clientId: event.clientId,
+    userId: event.userId || null,
+    eventName: event.eventName,
+    properties: event.properties,
+    timestamp: new Date(event.timestamp),
+    url: event.url,
+  });
+}
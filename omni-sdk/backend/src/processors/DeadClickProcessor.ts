@@ -0,0 +1,54 @@
+import { deadClickRepository } from "../repositories";
+import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import type { DeadClickEventData } from "../types";
+
+/**
+ * Process dead click events (ClickTrackingPlugin)
+ * - Base session/event tracking (centralized)
+ * - Store the report, linked to its click, at the time of the click
+ */
+export async function processDeadClickEvent(
+  event: DeadClickEventData,
+  location?: string,
+  device?: string
+) {
+  await executeProcessor("DeadClickProcessor", event.eventId, async () => {
+    // Base event processing (session upsert + event tracking)
+    await processBaseEvent({
+      event,
+      eventType: "dead_click",
+      location,
+      device,
+      screenClass: undefined,
+    });
+
+    await storeDeadClickEvent(event, location, device);
+  });
+}
+
+/**
+ * Store a dead click report at the time of its click
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeDeadClickEvent(
+  event: DeadClickEventData,
+  location?: string,
+  device?: string
+) {
+  await deadClickRepository.insertDeadClick({
+    eventId: event.eventId,
+    clickEventId: event.clickEventId,
+    projectId: event.projectId,
+    sessionId: event.sessionId,
+    clientId: event.clientId,
+    userId: event.userId || null,
+    url: event.url,
+    selector: event.selector,
+    xpath: event.xpath || null,
+    tagName: event.tagName,
+    responseMs: event.responseMs,
+    responseType: event.responseType,
+    windowMs: event.windowMs,
+    timestamp: new Date(event.clickedAt),
+  });
+}
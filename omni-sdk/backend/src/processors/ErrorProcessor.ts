@@ -0,0 +1,72 @@
+import { errorRepository } from "../repositories";
+import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import { computeErrorFingerprint } from "../utils/errorFingerprint";
+import type { ErrorEventData } from "../types";
+
+/**
+ * Process error events (ErrorTrackingPlugin)
+ * - Base session/event tracking (centralized)
+ * - Fingerprint the stack into an issue and record the occurrence
+ */
+export async function processErrorEvent(
+  event: ErrorEventData,
+  location?: string,
+  device?: string
+) {
+  await executeProcessor("ErrorProcessor", event.eventId, async () => {
+    // Base event processing (session upsert + event tracking)
+    await processBaseEvent({
+      event,
+      eventType: "error",
+      location,
+      device,
+      screenClass: undefined,
+    });
+
+    await storeErrorEvent(event, location, device);
+  });
+}
+
+/**
+ * Group an error event into an issue and store the occurrence
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeErrorEvent(
+  event: ErrorEventData,
+  location?: string,
+  device?: string
+) {
+  const { fingerprint, culprit } = computeErrorFingerprint(
+    event.errorType,
+    event.message,
+    event.stack
+  );
+  const timestamp = new Date(event.timestamp);
+
+  // Group into an issue
+  await errorRepository.upsertIssue({
+    projectId: event.projectId,
+    fingerprint,
+    errorType: event.errorType,
+    message: event.message,
+    culprit,
+    timestamp,
+  });
+
+  // Store the occurrence (linked to its replay)
+  await errorRepository.insertErrorEvent({
+    eventId: event.eventId,
+    projectId: event.projectId,
+    fingerprint,
+    sessionId: event.sessionId,
+    replayId: event.replayId || null,
+    clientId: event.clientId,
+    userId: event.userId || null,
+    url: event.url,
+    errorType: event.errorType,
+    message: event.message,
+    stack: event.stack,
+    source: event.source,
+    timestamp,
+  });
+}
@@ -0,0 +1,84 @@
+import { heatmapRepository, rrwebRepository } from "../repositories";
+import { deriveRrwebHeatmapCells } from "../utils/rrwebHeatmap";
+import type { RrwebEventPayload } from "../types";
+
+/**
+ * Heatmap aggregation (background job, not an ingest event)
+ * Folds finished replays into move/attention heatmaps (heatmap_activity)
+ *
+ * A replay is aggregated once, after it has been idle for idleMinutes;
+ * rrweb events arriving after that are not counted
+ */
+
+export type HeatmapAggregationOptions = {
+  idleMinutes?: number; // default 30
+  lookbackDays?: number; // default 7
+  batchSize?: number; // replays per run, default 50
+};
+
+/**
+ * Aggregate the move/attention heatmap cells of one replay
+ *
+ * @returns false if the replay was already aggregated
+ */
+export async function aggregateReplayHeatmap(
+  replayId: string,
+  projectId: string
+): Promise<boolean> {
+  const rows = await rrwebRepository.getRrwebEventsByReplay(replayId);
+
+  const cells = deriveRrwebHeatmapCells(
+    rows.map((row) => ({
+      timestamp: row.timestamp,
+      url: row.url,
+      rrwebPayload: row.rrwebPayload as RrwebEventPayload,
+      pageWidth: row.pageWidth,
+      pageHeight: row.pageHeight,
+      viewportWidth: row.viewportWidth,
+      viewportHeight: row.viewportHeight,
+    }))
+  );
+
+  return heatmapRepository.saveReplayActivity(
+    replayId,
+    projectId,
+    rows.length,
+    cells
+  );
+}
+
+/**
+ * Aggregate a batch of finished replays
+ * One failing replay does not stop the batch; it is retried on the next run
+ */
+export async function runHeatmapAggregation(
+  options: HeatmapAggregationOptions = {}
+) {
+  const replays = await heatmapRepository.getReplaysPendingAggregation(
+    options.idleMinutes ?? 30,
+    options.lookbackDays ?? 7,
+    options.batchSize ?? 50
+  );
+
+  const results = { replays: replays.length, aggregated: 0, failed: 0 };
+
+  for (const { replayId, projectId } of replays) {
+    try {
+      if (await aggregateReplayHeatmap(replayId, projectId)) {
+        results.aggregated++;
+      }
+    } catch (error) {
+      results.failed++;
+      console.error(
+        `[HeatmapAggregation] Error aggregating replay ${replayId}:`,
+        error
+      );
+    }
+  }
+
+  console.log(
+    `[HeatmapAggregation] ${results.aggregated}/${results.replays} replays aggregated, ${results.failed} failed`
+  );
+
+  return results;
+}
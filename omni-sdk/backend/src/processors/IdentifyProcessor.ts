@@ -0,0 +1,53 @@
+import { userRepository } from "../repositories";
+import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import type { IdentifyEventData } from "../types";
+
+/**
+ * Process identify events (tracker.identify)
+ * - Base session/event tracking (centralized, under the userId)
+ * - Alias the anonymous clientId to the userId
+ * - Merge identify traits into the user record
+ */
+export async function processIdentifyEvent(
+  event: IdentifyEventData,
+  location?: string,
+  device?: string
+) {
+  await executeProcessor("IdentifyProcessor", event.eventId, async () => {
+    // Base event processing (session upsert + event tracking)
+    await processBaseEvent({
+      event,
+      eventType: "identify",
+      location,
+      device,
+      screenClass: undefined,
+    });
+
+    await storeIdentifyEvent(event, location, device);
+  });
+}
+
+/**
+ * Alias an identify event's clientId and merge its traits
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeIdentifyEvent(
+  event: IdentifyEventData,
+  location?: string,
+  device?: string
+) {
+  // Stitch the pre-login history of this browser to the user
+  await userRepository.upsertAlias(
+    event.projectId,
+    event.clientId,
+    event.userId
+  );
+
+  if (event.traits) {
+    await userRepository.mergeUserTraits(
+      event.projectId,
+      event.userId,
+      event.traits
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { formAnalyticsRepository } from "../repositories";
+import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import type { InputEventData } from "../types";
+
+/**
+ * Process input events (FormAnalyticsPlugin)
+ * - Base session/event tracking (centralized)
+ * - Store field-level form interaction (no values)
+ */
+export async function processInputEvent(
+  event: InputEventData,
+  location?: string,
+  device?: string
+) {
+  await executeProcessor("InputProcessor", event.eventId, async () => {
+    // Base event processing (session upsert + event tracking)
+    await processBaseEvent({
+      event,
+      eventType: "input",
+      location,
+      device,
+      screenClass: undefined,
+      selector: event.selector,
+    });
+
+    await storeInputEvent(event, location, device);
+  });
+}
+
+/**
+ * Store an input event's field-level form interaction
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeInputEvent(
+  event: InputEventData,
+  location?: string,
+  device?: string
+) {
+  // Record the form interaction
+  await formAnalyticsRepository.insertInteraction({
+    eventId: event.eventId,
+    projectId: event.projectId,
+    sessionId: event.sessionId,
+    clientId: event.clientId,
+    userId: event.userId || null,
+    url: event.url,
+    formId: event.formId,
+    fieldName: event.fieldName,
+    selector: event.selector,
+    inputType: event.inputType,
+    action: event.action,
+    durationMs: event.durationMs,
+    timestamp: new Date(event.timestamp),
+  });
+}
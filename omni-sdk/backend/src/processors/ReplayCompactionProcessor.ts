@@ -0,0 +1,94 @@
+import { rrwebRepository } from "../repositories";
+import {
+  buildReplayChunks,
+  toReplayEvent,
+  type ReplayChunkOptions,
+} from "../utils/replayChunks";
+
+/**
+ * Replay compaction (background job, not an ingest event)
+ * Moves finished replays out of rrweb_events into compressed, time-ordered
+ * chunks (replay_chunks) with a manifest per replay (replay_manifests)
+ *
+ * A replay is compacted after it has been idle for idleMinutes and its
+ * move/attention heatmap was aggregated (aggregation reads rrweb_events).
+ * Events arriving later stay live until they are compacted into new chunks
+ */
+
+export type ReplayCompactionOptions = ReplayChunkOptions & {
+  idleMinutes?: number; // default 60
+  lookbackDays?: number; // heatmap aggregation lookback, default 7
+  batchSize?: number; // replays per run, default 50
+};
+
+/**
+ * Compact the live rrweb events of one replay into chunks
+ *
+ * @returns Number of chunks stored (0 if the replay had no live events)
+ */
+export async function compactReplay(
+  replayId: string,
+  options: ReplayChunkOptions = {}
+): Promise<number> {
+  const rows = await rrwebRepository.getRrwebEventsByReplay(replayId);
+  if (rows.length === 0) return 0;
+
+  const chunks = buildReplayChunks(rows.map(toReplayEvent), options);
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+
+  await rrwebRepository.saveReplayChunks(
+    {
+      replayId,
+      sessionId: first.sessionId,
+      projectId: first.projectId,
+      clientId: first.clientId,
+      userId: last.userId,
+      url: first.url,
+    },
+    chunks,
+    rows.map((row) => row.id)
+  );
+
+  return chunks.length;
+}
+
+/**
+ * Compact a batch of finished replays
+ * One failing replay does not stop the batch; it is retried on the next run
+ */
+export async function runReplayCompaction(
+  options: ReplayCompactionOptions = {}
+) {
+  const replayIds = await rrwebRepository.getReplaysPendingCompaction(
+    options.idleMinutes ?? 60,
+    options.lookbackDays ?? 7,
+    options.batchSize ?? 50
+  );
+
+  const results = {
+    replays: replayIds.length,
+    compacted: 0,
+    chunks: 0,
+    failed: 0,
+  };
+
+  for (const replayId of replayIds) {
+    try {
+      results.chunks += await compactReplay(replayId, options);
+      results.compacted++;
+    } catch (error) {
+      results.failed++;
+      console.error(
+        `[ReplayCompaction] Error compacting replay ${replayId}:`,
+        error
+      );
+    }
+  }
+
+  console.log(
+    `[ReplayCompaction] ${results.compacted}/${results.replays} replays compacted into ${results.chunks} chunks, ${results.failed} failed`
+  );
+
+  return results;
+}
@@ -1,6 +1,30 @@
 import { rrwebRepository } from "../repositories";
 import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
 import type { RrwebEventData } from "../types";
+import type { RrwebEventInsert } from "../repositories/RrwebRepository";
+
+/**
+ * rrweb_events row of an rrweb event (raw payload stored verbatim)
+ */
+function toRrwebRow(event: RrwebEventData): RrwebEventInsert {
+  return {
+    eventId: event.eventId,
+    projectId: event.projectId,
+    sessionId: event.sessionId,
+    replayId: event.replayId,
+    clientId: event.clientId,
+    userId: event.userId || null,
+    timestamp: new Date(event.timestamp),
+    url: event.url,
+    referrer: event.referrer,
+    rrwebPayload: event.rrwebPayload,
+    schemaVersion: event.schemaVersion,
+    pageWidth: event.pageDimensions?.w,
+    pageHeight: event.pageDimensions?.h,
+    viewportWidth: event.viewport?.w,
+    viewportHeight: event.viewport?.h,
+  };
+}
 
 /**
  * Process rrweb replay events
@@ -24,22 +48,14 @@ export async function processRrwebEvent(
     });
 
     // Insert rrweb event with detailed data
-    await rrwebRepository.insertRrwebEvent({
-      eventId: event.eventId,
-      projectId: event.projectId,
-      sessionId: event.sessionId,
-      replayId: event.replayId,
-      clientId: event.clientId,
-      userId: event.userId || null,
-      timestamp: new Date(event.timestamp),
-      url: event.url,
-      referrer: event.referrer,
-      rrwebPayload: event.rrwebPayload,
-      schemaVersion: event.schemaVersion,
-      pageWidth: event.pageDimensions?.w,
-      pageHeight: event.pageDimensions?.h,
-      viewportWidth: event.viewport?.w,
-      viewportHeight: event.viewport?.h,
-    });
+    await rrwebRepository.insertRrwebEvent(toRrwebRow(event));
   });
 }
+
+/**
+ * Store a batch of rrweb events in multi-row inserts
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeRrwebEvents(events: RrwebEventData[]) {
+  await rrwebRepository.insertRrwebEvents(events.map(toRrwebRow));
+}
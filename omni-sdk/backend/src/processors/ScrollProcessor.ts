@@ -0,0 +1,52 @@
+import { heatmapRepository } from "../repositories";
+import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import type { ScrollEventData } from "../types";
+
+/**
+ * Process scroll depth events (ScrollDepthPlugin)
+ * - Base session/event tracking (centralized)
+ * - Keep the deepest scroll per page view for scroll-reach heatmaps
+ */
+export async function processScrollEvent(
+  event: ScrollEventData,
+  location?: string,
+  device?: string
+) {
+  await executeProcessor("ScrollProcessor", event.eventId, async () => {
+    // Base event processing (session upsert + event tracking)
+    await processBaseEvent({
+      event,
+      eventType: "scroll",
+      location,
+      device,
+      screenClass: event.screenClass,
+    });
+
+    await storeScrollEvent(event, location, device);
+  });
+}
+
+/**
+ * Keep the deepest scroll of a scroll event's page view
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeScrollEvent(
+  event: ScrollEventData,
+  location?: string,
+  device?: string
+) {
+  // Record the page view's max depth
+  await heatmapRepository.recordScrollDepth({
+    projectId: event.projectId,
+    pageViewId: event.pageViewId,
+    sessionId: event.sessionId,
+    clientId: event.clientId,
+    url: event.url,
+    screenClass: event.screenClass,
+    maxDepth: event.maxDepth,
+    maxScrollY: event.maxScrollY,
+    pageHeight: event.pageDimensions?.h,
+    viewportHeight: event.viewport?.h,
+    timestamp: new Date(event.timestamp),
+  });
+}
@@ -0,0 +1,55 @@
+import { webVitalsRepository } from "../repositories";
+import { processBaseEvent, executeProcessor } from "./BaseEventProcessor";
+import type { WebVitalEventData } from "../types";
+
+/**
+ * Process web vital events (WebVitalsPlugin)
+ * - Base session/event tracking (centralized)
+ * - Store the metric with device and country for p75 breakdowns
+ */
+export async function processWebVitalEvent(
+  event: WebVitalEventData,
+  location?: string,
+  device?: string
+) {
+  await executeProcessor("WebVitalProcessor", event.eventId, async () => {
+    // Base event processing (session upsert + event tracking)
+    await processBaseEvent({
+      event,
+      eventType: "web_vital",
+      location,
+      device,
+      screenClass: event.screenClass,
+    });
+
+    await storeWebVitalEvent(event, location, device);
+  });
+}
+
+/**
+ * Store a web vital metric with device and country
+ * No base tracking: used by the batch processor, which does it in bulk
+ */
+export async function storeWebVitalEvent(
+  event: WebVitalEventData,
+  location?: string,
+  device?: string
+) {
+  // Store the measurement
+  await webVitalsRepository.insertVital({
+    eventId: event.eventId,
+    projectId: event.projectId,
+    sessionId: event.sessionId,
+    clientId: event.clientId,
+    userId: event.userId || null,
+    url: event.url,
+    metric: event.name,
+    value: event.value,
+    rating: event.rating,
+    selector: event.selector,
+    navigationType: event.navigationType,
+    device: device || event.screenClass || null,
+    country: location || null,
+    timestamp: new Date(event.timestamp),
+  });
+}
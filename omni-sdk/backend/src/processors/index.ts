@@ -5,3 +5,19 @@
 export { processRrwebEvent } from "./RrwebProcessor";
 export { processClickEvent } from "./ClickProcessor";
 export { processPageViewEvent } from "./PageViewProcessor";
+export { processCustomEvent } from "./CustomEventProcessor";
+export { processInputEvent } from "./InputProcessor";
+export { processIdentifyEvent } from "./IdentifyProcessor";
+export { processWebVitalEvent } from "./WebVitalProcessor";
+export { processErrorEvent } from "./ErrorProcessor";
+export { processScrollEvent } from "./ScrollProcessor";
+export {
+  aggregateReplayHeatmap,
+  runHeatmapAggregation,
+} from "./HeatmapAggregationProcessor";
+export {
+  compactReplay,
+  runReplayCompaction,
+} from "./ReplayCompactionProcessor";
+export { processDeadClickEvent } from "./DeadClickProcessor";
+export { processEventBatch } from "./BatchProcessor";
@@ -0,0 +1,49 @@
+import { Queue } from "bullmq";
+
+const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
+
+// How often finished replays are folded into move/attention heatmaps
+const intervalMs = parseInt(
+  process.env.HEATMAP_AGGREGATION_INTERVAL_MS || "600000",
+  10
+);
+
+let queueInstance: Queue | null = null;
+
+/**
+ * HeatmapAggregationQueue - schedules the move/attention heatmap job
+ * Singleton instance; the job scheduler is upserted, so restarts and several
+ * worker processes keep a single repeating job
+ */
+export const createHeatmapAggregationQueue = async () => {
+  if (queueInstance) {
+    return queueInstance;
+  }
+
+  queueInstance = new Queue("heatmap-aggregation", {
+    connection: {
+      url: redisUrl,
+      maxRetriesPerRequest: null,
+    },
+    defaultJobOptions: {
+      removeOnComplete: true,
+      removeOnFail: 100,
+    },
+  });
+
+  queueInstance.on("error", (error: any) => {
+    console.error("Heatmap aggregation queue error:", error);
+  });
+
+  await queueInstance.upsertJobScheduler(
+    "heatmap-aggregation",
+    { every: intervalMs },
+    { name: "aggregate" }
+  );
+
+  console.log(
+    `✓ Heatmap aggregation scheduled every ${Math.round(intervalMs / 1000)}s`
+  );
+
+  return queueInstance;
+};
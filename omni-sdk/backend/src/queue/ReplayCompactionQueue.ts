@@ -0,0 +1,49 @@
+import { Queue } from "bullmq";
+
+const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
+
+// How often finished replays are compacted into chunks
+const intervalMs = parseInt(
+  process.env.REPLAY_COMPACTION_INTERVAL_MS || "600000",
+  10
+);
+
+let queueInstance: Queue | null = null;
+
+/**
+ * ReplayCompactionQueue - schedules the replay compaction job
+ * Singleton instance; the job scheduler is upserted, so restarts and several
+ * worker processes keep a single repeating job
+ */
+export const createReplayCompactionQueue = async () => {
+  if (queueInstance) {
+    return queueInstance;
+  }
+
+  queueInstance = new Queue("replay-compaction", {
+    connection: {
+      url: redisUrl,
+      maxRetriesPerRequest: null,
+    },
+    defaultJobOptions: {
+      removeOnComplete: true,
+      removeOnFail: 100,
+    },
+  });
+
+  queueInstance.on("error", (error: any) => {
+    console.error("Replay compaction queue error:", error);
+  });
+
+  await queueInstance.upsertJobScheduler(
+    "replay-compaction",
+    { every: intervalMs },
+    { name: "compact" }
+  );
+
+  console.log(
+    `✓ Replay compaction scheduled every ${Math.round(intervalMs / 1000)}s`
+  );
+
+  return queueInstance;
+};
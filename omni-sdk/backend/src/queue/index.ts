@@ -3,3 +3,5 @@
  */
 
 export { createIngestionQueue, redisClient } from "./IngestionQueue";
+export { createHeatmapAggregationQueue } from "./HeatmapAggregationQueue";
+export { createReplayCompactionQueue } from "./ReplayCompactionQueue";
@@ -0,0 +1,151 @@
+import { db } from "../db/client";
+import { sql } from "drizzle-orm";
+import { withErrorHandling } from "./BaseRepository";
+
+/**
+ * Visitors, sessions, bounces and conversions of a group of sessions
+ */
+export type AcquisitionCounts = {
+  visitors: number;
+  sessions: number;
+  bounces: number;
+  conversions: number;
+};
+
+/**
+ * Acquisition Analytics Repository
+ * Where sessions come from, using the first-touch attribution stored on sessions
+ *
+ * Definitions:
+ * - Sessions: started (createdAt) in the date range, in the timezone
+ * - Visitors: distinct people, alias.userId ?? distinctId as in retention
+ * - Bounce: exactly 1 pageview + 0 meaningful interactions, as in the overview
+ * - Conversion: a session with the conversion custom event, or with any custom
+ *   event when no conversion event is given
+ * - Sessions recorded before attribution existed are in the "(unknown)" channel
+ */
+export class AcquisitionRepository {
+  /**
+   * Get acquisition counts in total and per channel, campaign and source
+   * Groups are ordered by visitors, largest first
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
+   * @param conversionEvent - Custom event name that counts as a conversion
+   * @param limit - Max rows per breakdown
+   */
+  async getAcquisition(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string,
+    conversionEvent: string | undefined,
+    limit: number
+  ): Promise<{
+    totals: AcquisitionCounts;
+    channels: Array<AcquisitionCounts & { channel: string }>;
+    campaigns: Array<AcquisitionCounts & { campaign: string }>;
+    sources: Array<AcquisitionCounts & { source: string }>;
+  }> {
+    return withErrorHandling(
+      "AcquisitionRepository.getAcquisition",
+      async () => {
+        const converted = conversionEvent
+          ? sql`e.type = 'custom' AND e.event_name = ${conversionEvent}`
+          : sql`e.type = 'custom'`;
+
+        // One row per grouping set: the totals, then each channel, campaign and source
+        const result = await db.execute(sql`
+          WITH ranged_sessions AS (
+            SELECT
+              s.id,
+              COALESCE(s.channel, '(unknown)') AS channel,
+              s.campaign,
+              COALESCE(s.source, '(direct)') AS source,
+              COALESCE(s.user_id, al.user_id, s.client_id) AS person_id
+            FROM sessions s
+            LEFT JOIN user_aliases al
+              ON al.project_id = s.project_id
+              AND al.alias_id = s.client_id
+            WHERE s.project_id = ${projectId}
+            AND DATE(s.created_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+            AND DATE(s.created_at AT TIME ZONE ${timezone}) <= ${endDate}::date
+          ),
+          session_events AS (
+            SELECT
+              e.session_id,
+              COUNT(*) FILTER (WHERE e.type = 'pageview') AS pageview_count,
+              COUNT(*) FILTER (WHERE e.type IN ('click', 'input', 'custom', 'route')) AS interaction_count,
+              BOOL_OR(${converted}) AS converted
+            FROM events e
+            INNER JOIN ranged_sessions rs
+              ON rs.id = e.session_id
+            WHERE e.project_id = ${projectId}
+            GROUP BY e.session_id
+          )
+          SELECT
+            GROUPING(rs.channel) = 0 AS by_channel,
+            GROUPING(rs.campaign) = 0 AS by_campaign,
+            GROUPING(rs.source) = 0 AS by_source,
+            rs.channel,
+            rs.campaign,
+            rs.source,
+            COUNT(DISTINCT rs.person_id) AS visitors,
+            COUNT(*) AS sessions,
+            COUNT(*) FILTER (
+              WHERE se.pageview_count = 1 AND se.interaction_count = 0
+            ) AS bounces,
+            COUNT(*) FILTER (WHERE se.converted) AS conversions
+          FROM ranged_sessions rs
+          LEFT JOIN session_events se
+            ON se.session_id = rs.id
+          GROUP BY GROUPING SETS ((), (rs.channel), (rs.campaign), (rs.source))
+          ORDER BY visitors DESC, sessions DESC
+        `);
+
+        const totals: AcquisitionCounts = {
+          visitors: 0,
+          sessions: 0,
+          bounces: 0,
+          conversions: 0,
+        };
+        const channels: Array<AcquisitionCounts & { channel: string }> = [];
+        const campaigns: Array<AcquisitionCounts & { campaign: string }> = [];
+        const sources: Array<AcquisitionCounts & { source: string }> = [];
+
+        for (const row of result.rows as any[]) {
+          const counts: AcquisitionCounts = {
+            visitors: Number(row.visitors),
+            sessions: Number(row.sessions),
+            bounces: Number(row.bounces),
+            conversions: Number(row.conversions),
+          };
+
+          if (row.by_channel) {
+            channels.push({ channel: String(row.channel), ...counts });
+          } else if (row.by_campaign) {
+            // Sessions without a campaign are not a campaign
+            if (row.campaign !== null) {
+              campaigns.push({ campaign: String(row.campaign), ...counts });
+            }
+          } else if (row.by_source) {
+            sources.push({ source: String(row.source), ...counts });
+          } else {
+            Object.assign(totals, counts);
+          }
+        }
+
+        return {
+          totals,
+          channels: channels.slice(0, limit),
+          campaigns: campaigns.slice(0, limit),
+          sources: sources.slice(0, limit),
+        };
+      }
+    );
+  }
+}
+
+export const acquisitionRepository = new AcquisitionRepository();
@@ -0,0 +1,183 @@
+import { db } from "../db/client";
+import { customEvents } from "../db/schema";
+import { eq, sql } from "drizzle-orm";
+import { withErrorHandling, withIdempotency } from "./BaseRepository";
+
+/**
+ * Custom Event Repository
+ * Stores tracker.trackCustom() events and answers per-event-name analytics
+ *
+ * Identity: unique users are counted on distinctId (userId ?? clientId)
+ * Property filters use JSONB containment (properties @> filter), served by a GIN index
+ */
+export class CustomEventRepository {
+  /**
+   * Insert a custom event
+   * Idempotent on eventId (unique constraint)
+   */
+  async insertCustomEvent({
+    eventId,
+    projectId,
+    sessionId,
+    clientId,
+    userId,
+    eventName,
+    properties,
+    timestamp,
+    url,
+  }: {
+    eventId: string;
+    projectId: string;
+    sessionId: string;
+    clientId: string;
+    userId: string | null;
+    eventName: string;
+    properties?: Record<string, any>;
+    timestamp: Date;
+    url: string;
+  }) {
+    return withIdempotency(
+      "CustomEventRepository.insertCustomEvent",
+      eventId,
+      () =>
+        db
+          .select()
+          .from(customEvents)
+          .where(eq(customEvents.eventId, eventId))
+          .limit(1),
+      () =>
+        db
+          .insert(customEvents)
+          .values({
+            eventId,
+            projectId,
+            sessionId,
+            clientId,
+            userId,
+            eventName,
+            properties: properties || {},
+            timestamp,
+            url,
+          })
+          .returning()
+    );
+  }
+
+  /**
+   * Build the shared WHERE clause for custom event queries
+   */
+  private buildFilter(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    eventName?: string,
+    properties?: Record<string, unknown>
+  ) {
+    const conditions = [
+      sql`project_id = ${projectId}`,
+      sql`DATE(timestamp AT TIME ZONE 'UTC') >= ${startDate}::date`,
+      sql`DATE(timestamp AT TIME ZONE 'UTC') <= ${endDate}::date`,
+    ];
+
+    if (eventName) {
+      conditions.push(sql`event_name = ${eventName}`);
+    }
+
+    if (properties && Object.keys(properties).length > 0) {
+      conditions.push(sql`properties @> ${JSON.stringify(properties)}::jsonb`);
+    }
+
+    return sql.join(conditions, sql` AND `);
+  }
+
+  /**
+   * Get totals per event name
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param eventName - Optional: restrict to a single event name
+   * @param properties - Optional: only events whose properties contain these values
+   */
+  async getEventSummaries(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    eventName?: string,
+    properties?: Record<string, unknown>
+  ): Promise<
+    Array<{ eventName: string; count: number; uniqueUsers: number }>
+  > {
+    return withErrorHandling(
+      "CustomEventRepository.getEventSummaries",
+      async () => {
+        const result = await db.execute(sql`
+          SELECT
+            event_name,
+            COUNT(*) AS count,
+            COUNT(DISTINCT COALESCE(user_id, client_id)) AS unique_users
+          FROM custom_events
+          WHERE ${this.buildFilter(projectId, startDate, endDate, eventName, properties)}
+          GROUP BY event_name
+          ORDER BY count DESC
+        `);
+
+        return (result.rows || []).map((row: any) => ({
+          eventName: String(row.event_name),
+          count: Number(row.count),
+          uniqueUsers: Number(row.unique_users),
+        }));
+      }
+    );
+  }
+
+  /**
+   * Get daily counts per event name (UTC days)
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param eventName - Optional: restrict to a single event name
+   * @param properties - Optional: only events whose properties contain these values
+   */
+  async getEventTimeSeries(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    eventName?: string,
+    properties?: Record<string, unknown>
+  ): Promise<
+    Array<{
+      eventName: string;
+      date: string;
+      count: number;
+      uniqueUsers: number;
+    }>
+  > {
+    return withErrorHandling(
+      "CustomEventRepository.getEventTimeSeries",
+      async () => {
+        const result = await db.execute(sql`
+          SELECT
+            event_name,
+            DATE(timestamp AT TIME ZONE 'UTC')::text AS date,
+            COUNT(*) AS count,
+            COUNT(DISTINCT COALESCE(user_id, client_id)) AS unique_users
+          FROM custom_events
+          WHERE ${this.buildFilter(projectId, startDate, endDate, eventName, properties)}
+          GROUP BY event_name, DATE(timestamp AT TIME ZONE 'UTC')
+          ORDER BY event_name, date ASC
+        `);
+
+        return (result.rows || []).map((row: any) => ({
+          eventName: String(row.event_name),
+          date: String(row.date),
+          count: Number(row.count),
+          uniqueUsers: Number(row.unique_users),
+        }));
+      }
+    );
+  }
+}
+
+export const customEventRepository = new CustomEventRepository();
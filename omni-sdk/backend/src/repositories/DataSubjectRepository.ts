@@ -0,0 +1,717 @@
+import { createHash } from "crypto";
+import { db } from "../db/client";
+import {
+  customEvents,
+  dataSubjectRequests,
+  deadClicks,
+  deadLetterEvents,
+  errorEvents,
+  events,
+  formInteractions,
+  heatmapAggregatedReplays,
+  heatmapClicks,
+  replayChunks,
+  replayManifests,
+  rrwebEvents,
+  scrollDepths,
+  sessions,
+  userAliases,
+  userDailyActivity,
+  users,
+  webVitals,
+} from "../db/schema";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  not,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { withErrorHandling } from "./BaseRepository";
+import type { RrwebHeatmapCell } from "../utils/rrwebHeatmap";
+
+// Cells per UPDATE when subtracting replays from heatmap_activity
+const ACTIVITY_UPDATE_CHUNK = 500;
+
+// Session of legacy click rows whose last clicker was erased
+// (heatmap_clicks.session_id is NOT NULL)
+const ERASED_SESSION_ID = "erased";
+
+/**
+ * Everything that identifies a distinct ID's data in a project
+ * A userId covers the anonymous clients aliased to it and the clients of its
+ * sessions; a clientId covers that client only
+ */
+export type DataSubject = {
+  projectId: string;
+  distinctId: string;
+  clientIds: string[]; // distinctId included
+  sessionIds: string[];
+  replayIds: string[];
+};
+
+export type DataSubjectRequestType = "export" | "erasure";
+
+export type DataSubjectRequestFilter = {
+  projectId?: string;
+  distinctId?: string;
+};
+
+/**
+ * Conditions of the rows a subject owns in a table: recorded in one of its
+ * sessions, by one of its clients or as its user
+ */
+function ownedBy(
+  subject: DataSubject,
+  columns: {
+    projectId: PgColumn;
+    sessionId: PgColumn;
+    clientId: PgColumn;
+    userId?: PgColumn;
+  }
+): SQL {
+  const owner = [
+    inArray(columns.sessionId, subject.sessionIds),
+    inArray(columns.clientId, subject.clientIds),
+  ];
+  if (columns.userId) owner.push(eq(columns.userId, subject.distinctId));
+
+  return and(eq(columns.projectId, subject.projectId), or(...owner)) as SQL;
+}
+
+/**
+ * Distinct IDs are kept in the audit log as hashes only
+ */
+function subjectHash(distinctId: string): string {
+  return createHash("sha256").update(distinctId).digest("hex");
+}
+
+/**
+ * Data Subject Repository
+ * GDPR/CCPA access (export) and erasure of everything held for a distinct ID,
+ * and the audit log of those requests (data_subject_requests)
+ */
+export class DataSubjectRepository {
+  /**
+   * Resolve the clients, sessions and replays of a distinct ID
+   */
+  async resolveSubject(
+    projectId: string,
+    distinctId: string
+  ): Promise<DataSubject> {
+    return withErrorHandling(
+      "DataSubjectRepository.resolveSubject",
+      async () => {
+        const result = await db.execute(sql`
+          WITH clients AS (
+            SELECT ${distinctId}::text AS client_id
+            UNION
+            SELECT alias_id
+            FROM user_aliases
+            WHERE project_id = ${projectId} AND user_id = ${distinctId}
+            UNION
+            SELECT client_id
+            FROM sessions
+            WHERE project_id = ${projectId} AND user_id = ${distinctId}
+          ),
+          subject_sessions AS (
+            SELECT id
+            FROM sessions
+            WHERE project_id = ${projectId}
+              AND (
+                user_id = ${distinctId}
+                OR client_id IN (SELECT client_id FROM clients)
+              )
+          )
+          SELECT
+            ARRAY(SELECT client_id FROM clients) AS client_ids,
+            ARRAY(SELECT id FROM subject_sessions) AS session_ids,
+            ARRAY(
+              SELECT replay_id
+              FROM rrweb_events
+              WHERE project_id = ${projectId}
+                AND (
+                  session_id IN (SELECT id FROM subject_sessions)
+                  OR client_id IN (SELECT client_id FROM clients)
+                  OR user_id = ${distinctId}
+                )
+              UNION
+              SELECT replay_id
+              FROM replay_manifests
+              WHERE project_id = ${projectId}
+                AND (
+                  session_id IN (SELECT id FROM subject_sessions)
+                  OR client_id IN (SELECT client_id FROM clients)
+                  OR user_id = ${distinctId}
+                )
+            ) AS replay_ids
+        `);
+
+        const row = (result.rows?.[0] || {}) as any;
+        const list = (value: unknown) => ((value as string[]) || []).map(String);
+
+        return {
+          projectId,
+          distinctId,
+          clientIds: list(row.client_ids),
+          sessionIds: list(row.session_ids),
+          replayIds: list(row.replay_ids),
+        };
+      }
+    );
+  }
+
+  /**
+   * Rows held for a subject, per table (rrweb events excepted: replays are
+   * exported through their manifests and events)
+   */
+  async exportSubject(subject: DataSubject) {
+    return withErrorHandling("DataSubjectRepository.exportSubject", async () => {
+      const distinctIds = subject.clientIds;
+      const [
+        sessionRows,
+        eventRows,
+        customEventRows,
+        formInteractionRows,
+        webVitalRows,
+        errorEventRows,
+        deadClickRows,
+        heatmapClickRows,
+        scrollDepthRows,
+        replayRows,
+        userRows,
+        activityRows,
+        aliasRows,
+        deadLetterRows,
+      ] = await Promise.all([
+        db
+          .select()
+          .from(sessions)
+          .where(
+            ownedBy(subject, {
+              projectId: sessions.projectId,
+              sessionId: sessions.id,
+              clientId: sessions.clientId,
+              userId: sessions.userId,
+            })
+          )
+          .orderBy(asc(sessions.createdAt)),
+        db
+          .select()
+          .from(events)
+          .where(ownedBy(subject, events))
+          .orderBy(asc(events.timestamp)),
+        db
+          .select()
+          .from(customEvents)
+          .where(ownedBy(subject, customEvents))
+          .orderBy(asc(customEvents.timestamp)),
+        db
+          .select()
+          .from(formInteractions)
+          .where(ownedBy(subject, formInteractions))
+          .orderBy(asc(formInteractions.timestamp)),
+        db
+          .select()
+          .from(webVitals)
+          .where(ownedBy(subject, webVitals))
+          .orderBy(asc(webVitals.timestamp)),
+        db
+          .select()
+          .from(errorEvents)
+          .where(ownedBy(subject, errorEvents))
+          .orderBy(asc(errorEvents.timestamp)),
+        db
+          .select()
+          .from(deadClicks)
+          .where(ownedBy(subject, deadClicks))
+          .orderBy(asc(deadClicks.timestamp)),
+        db
+          .select()
+          .from(heatmapClicks)
+          .where(ownedBy(subject, heatmapClicks))
+          .orderBy(asc(heatmapClicks.timestamp)),
+        db
+          .select()
+          .from(scrollDepths)
+          .where(ownedBy(subject, scrollDepths))
+          .orderBy(asc(scrollDepths.timestamp)),
+        db
+          .select()
+          .from(replayManifests)
+          .where(inArray(replayManifests.replayId, subject.replayIds))
+          .orderBy(asc(replayManifests.startTime)),
+        db
+          .select()
+          .from(users)
+          .where(
+            and(
+              eq(users.projectId, subject.projectId),
+              inArray(users.distinctId, distinctIds)
+            )
+          ),
+        db
+          .select()
+          .from(userDailyActivity)
+          .where(
+            and(
+              eq(userDailyActivity.projectId, subject.projectId),
+              inArray(userDailyActivity.distinctId, distinctIds)
+            )
+          )
+          .orderBy(asc(userDailyActivity.activityDate)),
+        db
+          .select()
+          .from(userAliases)
+          .where(this.aliasesOf(subject)),
+        db
+          .select()
+          .from(deadLetterEvents)
+          .where(this.deadLettersOf(subject))
+          .orderBy(asc(deadLetterEvents.firstFailedAt)),
+      ]);
+
+      return {
+        sessions: sessionRows,
+        events: eventRows,
+        customEvents: customEventRows,
+        formInteractions: formInteractionRows,
+        webVitals: webVitalRows,
+        errorEvents: errorEventRows,
+        deadClicks: deadClickRows,
+        heatmapClicks: heatmapClickRows,
+        scrollDepths: scrollDepthRows,
+        replayManifests: replayRows,
+        users: userRows,
+        userDailyActivity: activityRows,
+        userAliases: aliasRows,
+        deadLetterEvents: deadLetterRows,
+      };
+    });
+  }
+
+  /**
+   * Aliases linking the subject's clients to a user, or to the subject
+   */
+  private aliasesOf(subject: DataSubject): SQL {
+    return and(
+      eq(userAliases.projectId, subject.projectId),
+      or(
+        inArray(userAliases.aliasId, subject.clientIds),
+        eq(userAliases.userId, subject.distinctId)
+      )
+    ) as SQL;
+  }
+
+  /**
+   * Dead letters of the subject's events (matched on the queued payload)
+   */
+  private deadLettersOf(subject: DataSubject): SQL {
+    return and(
+      eq(deadLetterEvents.projectId, subject.projectId),
+      or(
+        inArray(
+          sql`${deadLetterEvents.payload}->>'sessionId'`,
+          subject.sessionIds
+        ),
+        inArray(
+          sql`${deadLetterEvents.payload}->>'clientId'`,
+          subject.clientIds
+        ),
+        sql`${deadLetterEvents.payload}->>'userId' = ${subject.distinctId}`
+      )
+    ) as SQL;
+  }
+
+  /**
+   * Replays of a subject already folded into heatmap_activity, with the
+   * number of events they were aggregated with
+   */
+  async getAggregatedReplays(
+    replayIds: string[]
+  ): Promise<{ replayId: string; eventCount: number }[]> {
+    return withErrorHandling(
+      "DataSubjectRepository.getAggregatedReplays",
+      async () => {
+        return db
+          .select({
+            replayId: heatmapAggregatedReplays.replayId,
+            eventCount: heatmapAggregatedReplays.eventCount,
+          })
+          .from(heatmapAggregatedReplays)
+          .where(inArray(heatmapAggregatedReplays.replayId, replayIds));
+      }
+    );
+  }
+
+  /**
+   * Erase everything held for a subject, in one transaction
+   *
+   * Aggregates are corrected rather than left with the subject's share:
+   * - heatmap_activity: the cells of its aggregated replays are subtracted
+   * - heatmap_clicks: legacy pre-aggregated rows (no eventId, count > 1) of
+   *   its sessions lose one click instead of being deleted
+   * - error_issues: first/last seen and message are recomputed from the
+   *   remaining occurrences; issues left without any are deleted
+   *
+   * @param activity - Heatmap cells its aggregated replays added
+   * @returns Rows deleted (or updated) per table
+   */
+  async eraseSubject(
+    subject: DataSubject,
+    activity: RrwebHeatmapCell[]
+  ): Promise<Record<string, number>> {
+    return withErrorHandling("DataSubjectRepository.eraseSubject", async () => {
+      return db.transaction(async (tx) => {
+        const counts: Record<string, number> = {};
+
+        // Move/attention heatmaps: one UPDATE per chunk of summed cells
+        const cells = new Map<string, RrwebHeatmapCell>();
+        for (const cell of activity) {
+          const key = [
+            cell.url,
+            cell.type,
+            cell.screenClass,
+            cell.gridX,
+            cell.gridY,
+          ].join("|");
+          const existing = cells.get(key);
+          if (existing) {
+            existing.value += cell.value;
+          } else {
+            cells.set(key, { ...cell });
+          }
+        }
+
+        const summed = [...cells.values()];
+        counts.heatmapActivity = 0;
+        for (let i = 0; i < summed.length; i += ACTIVITY_UPDATE_CHUNK) {
+          const values = summed
+            .slice(i, i + ACTIVITY_UPDATE_CHUNK)
+            .map(
+              (cell) =>
+                sql`(${cell.url}, ${cell.type}, ${cell.screenClass}, ${cell.gridX}::int, ${cell.gridY}::int, ${cell.value}::float8)`
+            );
+
+          const result = await tx.execute(sql`
+            UPDATE heatmap_activity a
+            SET value = GREATEST(a.value - c.value, 0), updated_at = NOW()
+            FROM (VALUES ${sql.join(values, sql`, `)})
+              AS c(url, type, screen_class, grid_x, grid_y, value)
+            WHERE a.project_id = ${subject.projectId}
+              AND a.url = c.url
+              AND a.type = c.type
+              AND a.screen_class = c.screen_class
+              AND a.grid_x = c.grid_x
+              AND a.grid_y = c.grid_y
+          `);
+          counts.heatmapActivity += result.rowCount ?? 0;
+        }
+
+        counts.heatmapAggregatedReplays = (
+          await tx
+            .delete(heatmapAggregatedReplays)
+            .where(inArray(heatmapAggregatedReplays.replayId, subject.replayIds))
+            .returning({ replayId: heatmapAggregatedReplays.replayId })
+        ).length;
+
+        // Replays, compacted and live
+        counts.replayChunks = (
+          await tx
+            .delete(replayChunks)
+            .where(inArray(replayChunks.replayId, subject.replayIds))
+            .returning({ id: replayChunks.id })
+        ).length;
+        counts.replayManifests = (
+          await tx
+            .delete(replayManifests)
+            .where(inArray(replayManifests.replayId, subject.replayIds))
+            .returning({ replayId: replayManifests.replayId })
+        ).length;
+        counts.rrwebEvents = (
+          await tx
+            .delete(rrwebEvents)
+            .where(ownedBy(subject, rrwebEvents))
+            .returning({ id: rrwebEvents.id })
+        ).length;
+
+        // Clicks: legacy per-cell rows are shared with other visitors, they
+        // lose one click and the identifiers of its (last) clicker
+        const legacyClick = and(
+          isNull(heatmapClicks.eventId),
+          gt(heatmapClicks.count, 1)
+        ) as SQL;
+        counts.heatmapClicks = (
+          await tx
+            .delete(heatmapClicks)
+            .where(and(ownedBy(subject, heatmapClicks), not(legacyClick)))
+            .returning({ id: heatmapClicks.id })
+        ).length;
+        counts.heatmapClicksDecremented = (
+          await tx
+            .update(heatmapClicks)
+            .set({
+              count: sql`${heatmapClicks.count} - 1`,
+              sessionId: ERASED_SESSION_ID,
+              clientId: null,
+              userId: null,
+            })
+            .where(and(ownedBy(subject, heatmapClicks), legacyClick))
+            .returning({ id: heatmapClicks.id })
+        ).length;
+
+        counts.events = (
+          await tx
+            .delete(events)
+            .where(ownedBy(subject, events))
+            .returning({ id: events.id })
+        ).length;
+        counts.customEvents = (
+          await tx
+            .delete(customEvents)
+            .where(ownedBy(subject, customEvents))
+            .returning({ id: customEvents.id })
+        ).length;
+        counts.formInteractions = (
+          await tx
+            .delete(formInteractions)
+            .where(ownedBy(subject, formInteractions))
+            .returning({ id: formInteractions.id })
+        ).length;
+        counts.webVitals = (
+          await tx
+            .delete(webVitals)
+            .where(ownedBy(subject, webVitals))
+            .returning({ id: webVitals.id })
+        ).length;
+        counts.deadClicks = (
+          await tx
+            .delete(deadClicks)
+            .where(ownedBy(subject, deadClicks))
+            .returning({ id: deadClicks.id })
+        ).length;
+        counts.scrollDepths = (
+          await tx
+            .delete(scrollDepths)
+            .where(ownedBy(subject, scrollDepths))
+            .returning({ id: scrollDepths.id })
+        ).length;
+
+        // Errors, then the issues they were grouped into
+        const erasedErrors = await tx
+          .delete(errorEvents)
+          .where(ownedBy(subject, errorEvents))
+          .returning({ fingerprint: errorEvents.fingerprint });
+        counts.errorEvents = erasedErrors.length;
+
+        const fingerprints = [
+          ...new Set(erasedErrors.map((row) => row.fingerprint)),
+        ];
+        counts.errorIssuesDeleted = 0;
+        counts.errorIssuesUpdated = 0;
+        if (fingerprints.length > 0) {
+          const affected = sql.join(
+            fingerprints.map((fingerprint) => sql`${fingerprint}`),
+            sql`, `
+          );
+
+          const removed = await tx.execute(sql`
+            DELETE FROM error_issues i
+            WHERE i.project_id = ${subject.projectId}
+              AND i.fingerprint IN (${affected})
+              AND NOT EXISTS (
+                SELECT 1
+                FROM error_events e
+                WHERE e.project_id = i.project_id
+                  AND e.fingerprint = i.fingerprint
+              )
+          `);
+          counts.errorIssuesDeleted = removed.rowCount ?? 0;
+
+          const updated = await tx.execute(sql`
+            UPDATE error_issues i
+            SET
+              message = e.message,
+              first_seen_at = e.first_seen_at,
+              last_seen_at = e.last_seen_at
+            FROM (
+              SELECT DISTINCT ON (fingerprint)
+                fingerprint,
+                message,
+                MIN(timestamp) OVER (PARTITION BY fingerprint) AS first_seen_at,
+                MAX(timestamp) OVER (PARTITION BY fingerprint) AS last_seen_at
+              FROM error_events
+              WHERE project_id = ${subject.projectId}
+                AND fingerprint IN (${affected})
+              ORDER BY fingerprint, timestamp
+            ) e
+            WHERE i.project_id = ${subject.projectId}
+              AND i.fingerprint = e.fingerprint
+          `);
+          counts.errorIssuesUpdated = updated.rowCount ?? 0;
+        }
+
+        counts.sessions = (
+          await tx
+            .delete(sessions)
+            .where(
+              ownedBy(subject, {
+                projectId: sessions.projectId,
+                sessionId: sessions.id,
+                clientId: sessions.clientId,
+                userId: sessions.userId,
+              })
+            )
+            .returning({ id: sessions.id })
+        ).length;
+
+        // Identity: first seen, daily activity and aliases
+        counts.users = (
+          await tx
+            .delete(users)
+            .where(
+              and(
+                eq(users.projectId, subject.projectId),
+                inArray(users.distinctId, subject.clientIds)
+              )
+            )
+            .returning({ id: users.id })
+        ).length;
+        counts.userDailyActivity = (
+          await tx
+            .delete(userDailyActivity)
+            .where(
+              and(
+                eq(userDailyActivity.projectId, subject.projectId),
+                inArray(userDailyActivity.distinctId, subject.clientIds)
+              )
+            )
+            .returning({ distinctId: userDailyActivity.distinctId })
+        ).length;
+        counts.userAliases = (
+          await tx
+            .delete(userAliases)
+            .where(this.aliasesOf(subject))
+            .returning({ aliasId: userAliases.aliasId })
+        ).length;
+
+        counts.deadLetterEvents = (
+          await tx
+            .delete(deadLetterEvents)
+            .where(this.deadLettersOf(subject))
+            .returning({ id: deadLetterEvents.id })
+        ).length;
+
+        return counts;
+      });
+    });
+  }
+
+  /**
+   * Record a new request in the audit log
+   */
+  async createRequest(request: {
+    projectId: string;
+    distinctId: string;
+    type: DataSubjectRequestType;
+    requestedBy?: string;
+    reason?: string;
+  }) {
+    return withErrorHandling("DataSubjectRepository.createRequest", async () => {
+      const result = await db
+        .insert(dataSubjectRequests)
+        .values({
+          projectId: request.projectId,
+          subjectHash: subjectHash(request.distinctId),
+          type: request.type,
+          requestedBy: request.requestedBy || null,
+          reason: request.reason || null,
+        })
+        .returning();
+
+      return result[0];
+    });
+  }
+
+  /**
+   * Mark a request completed, with the rows exported or erased per table
+   */
+  async completeRequest(id: string, rowCounts: Record<string, number>) {
+    return withErrorHandling(
+      "DataSubjectRepository.completeRequest",
+      async () => {
+        const result = await db
+          .update(dataSubjectRequests)
+          .set({ status: "completed", rowCounts, completedAt: new Date() })
+          .where(eq(dataSubjectRequests.id, id))
+          .returning();
+
+        return result[0];
+      }
+    );
+  }
+
+  /**
+   * Mark a request failed (an erasure is rolled back as a whole)
+   */
+  async failRequest(id: string, error: string) {
+    return withErrorHandling("DataSubjectRepository.failRequest", async () => {
+      await db
+        .update(dataSubjectRequests)
+        .set({ status: "failed", error, completedAt: new Date() })
+        .where(eq(dataSubjectRequests.id, id));
+    });
+  }
+
+  /**
+   * List requests (most recent first)
+   *
+   * @param filter - Project and distinct ID to match
+   * @param limit - Max rows to return
+   * @param offset - Rows to skip
+   */
+  async listRequests(
+    filter: DataSubjectRequestFilter,
+    limit: number,
+    offset: number
+  ) {
+    return withErrorHandling("DataSubjectRepository.listRequests", async () => {
+      const conditions: SQL[] = [];
+      if (filter.projectId) {
+        conditions.push(eq(dataSubjectRequests.projectId, filter.projectId));
+      }
+      if (filter.distinctId) {
+        conditions.push(
+          eq(dataSubjectRequests.subjectHash, subjectHash(filter.distinctId))
+        );
+      }
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [items, totals] = await Promise.all([
+        db
+          .select()
+          .from(dataSubjectRequests)
+          .where(where)
+          .orderBy(
+            desc(dataSubjectRequests.requestedAt),
+            dataSubjectRequests.id
+          )
+          .limit(limit)
+          .offset(offset),
+        db.select({ total: count() }).from(dataSubjectRequests).where(where),
+      ]);
+
+      return { total: Number(totals[0]?.total ?? 0), items };
+    });
+  }
+}
+
+export const dataSubjectRepository = new DataSubjectRepository();
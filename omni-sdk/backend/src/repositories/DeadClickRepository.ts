@@ -0,0 +1,270 @@
+import { db } from "../db/client";
+import { deadClicks } from "../db/schema";
+import { eq, sql } from "drizzle-orm";
+import { withErrorHandling, withIdempotency } from "./BaseRepository";
+
+/**
+ * Dead Click Repository
+ * Stores dead click reports and aggregates dead and error clicks per element
+ *
+ * Semantics:
+ * - Dead click: a click reported by the SDK whose first response (DOM mutation,
+ *   network request, focus, scroll) came at or after deadThresholdMs, or never
+ * - Error click: a click followed by an error in the same session within errorWindowMs
+ * - Element: heatmap_clicks element key (selector for clicks without one),
+ *   so rows line up with click maps
+ */
+export class DeadClickRepository {
+  /**
+   * Insert a dead click report
+   * Idempotent on eventId (unique constraint)
+   */
+  async insertDeadClick({
+    eventId,
+    clickEventId,
+    projectId,
+    sessionId,
+    clientId,
+    userId,
+    url,
+    selector,
+    xpath,
+    tagName,
+    responseMs,
+    responseType,
+    windowMs,
+    timestamp,
+  }: {
+    eventId: string;
+    clickEventId: string;
+    projectId: string;
+    sessionId: string;
+    clientId: string;
+    userId: string | null;
+    url: string;
+    selector: string;
+    xpath: string | null;
+    tagName: string;
+    responseMs: number | null;
+    responseType: string | null;
+    windowMs: number;
+    timestamp: Date;
+  }) {
+    return withIdempotency(
+      "DeadClickRepository.insertDeadClick",
+      eventId,
+      () =>
+        db
+          .select()
+          .from(deadClicks)
+          .where(eq(deadClicks.eventId, eventId))
+          .limit(1),
+      () =>
+        db
+          .insert(deadClicks)
+          .values({
+            eventId,
+            clickEventId,
+            projectId,
+            sessionId,
+            clientId,
+            userId,
+            url,
+            selector,
+            xpath,
+            tagName,
+            responseMs,
+            responseType,
+            windowMs,
+            timestamp,
+          })
+          .returning()
+    );
+  }
+
+  /**
+   * Get elements with dead or error clicks in a date range, most affected first
+   * Only clicks stored with an eventId (not legacy pre-aggregated rows) are counted
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param options.url - Restrict to one page
+   * @param options.deadThresholdMs - Response time at or above which a click is dead
+   * @param options.errorWindowMs - Max delay between a click and an error
+   * @param options.minClicks - Minimum clicks on an element to be listed
+   * @param options.limit - Maximum number of elements
+   */
+  async getDeadClickElements(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    {
+      url,
+      deadThresholdMs,
+      errorWindowMs,
+      minClicks,
+      limit,
+    }: {
+      url?: string;
+      deadThresholdMs: number;
+      errorWindowMs: number;
+      minClicks: number;
+      limit: number;
+    }
+  ): Promise<{
+    totals: { clicks: number; deadClicks: number; errorClicks: number };
+    elements: Array<{
+      url: string;
+      elementKey: string;
+      selector: string | null;
+      xpath: string | null;
+      tagName: string | null;
+      clicks: number;
+      deadClicks: number;
+      errorClicks: number;
+      affectedSessions: number;
+      affectedUsers: number;
+      medianResponseMs: number | null;
+      latestOccurrence: { sessionId: string; timestamp: string } | null;
+    }>;
+  }> {
+    return withErrorHandling(
+      "DeadClickRepository.getDeadClickElements",
+      async () => {
+        const result = await db.execute(sql`
+          WITH clicks AS (
+            SELECT
+              hc.event_id,
+              hc.session_id,
+              hc.url,
+              hc.selector,
+              hc.xpath,
+              hc.tag_name,
+              hc.timestamp,
+              COALESCE(hc.element_key, hc.selector) AS element_key,
+              COALESCE(hc.user_id, al.user_id, hc.client_id) AS person
+            FROM heatmap_clicks hc
+            LEFT JOIN user_aliases al
+              ON al.project_id = hc.project_id
+              AND al.alias_id = hc.client_id
+            WHERE hc.project_id = ${projectId}
+              AND hc.event_id IS NOT NULL
+              AND COALESCE(hc.element_key, hc.selector) IS NOT NULL
+              AND DATE(hc.timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
+              AND DATE(hc.timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+              ${url ? sql`AND hc.url = ${url}` : sql``}
+          ),
+          flagged AS (
+            SELECT
+              c.*,
+              d.response_ms,
+              d.click_event_id IS NOT NULL AS is_dead,
+              EXISTS (
+                SELECT 1 FROM error_events e
+                WHERE e.session_id = c.session_id
+                  AND e.timestamp >= c.timestamp
+                  AND e.timestamp <= c.timestamp + ${errorWindowMs} * INTERVAL '1 millisecond'
+              ) AS is_error
+            FROM clicks c
+            LEFT JOIN LATERAL (
+              SELECT dc.click_event_id, dc.response_ms
+              FROM dead_clicks dc
+              WHERE dc.click_event_id = c.event_id
+                AND (dc.response_ms IS NULL OR dc.response_ms >= ${deadThresholdMs})
+              LIMIT 1
+            ) d ON TRUE
+          ),
+          totals AS (
+            SELECT
+              COUNT(*) AS clicks,
+              COUNT(*) FILTER (WHERE is_dead) AS dead_clicks,
+              COUNT(*) FILTER (WHERE is_error) AS error_clicks
+            FROM flagged
+          ),
+          elements AS (
+            SELECT
+              url,
+              element_key,
+              MODE() WITHIN GROUP (ORDER BY selector) AS selector,
+              MODE() WITHIN GROUP (ORDER BY xpath) AS xpath,
+              MODE() WITHIN GROUP (ORDER BY tag_name) AS tag_name,
+              COUNT(*) AS clicks,
+              COUNT(*) FILTER (WHERE is_dead) AS dead_clicks,
+              COUNT(*) FILTER (WHERE is_error) AS error_clicks,
+              COUNT(DISTINCT session_id) FILTER (WHERE is_dead OR is_error) AS affected_sessions,
+              COUNT(DISTINCT person) FILTER (WHERE is_dead OR is_error) AS affected_users,
+              PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY response_ms)
+                FILTER (WHERE is_dead AND response_ms IS NOT NULL) AS median_response_ms,
+              (array_agg(session_id ORDER BY timestamp DESC) FILTER (WHERE is_dead OR is_error))[1] AS latest_session_id,
+              MAX(timestamp) FILTER (WHERE is_dead OR is_error) AS latest_at
+            FROM flagged
+            GROUP BY url, element_key
+            HAVING COUNT(*) >= ${minClicks}
+              AND COUNT(*) FILTER (WHERE is_dead OR is_error) > 0
+            ORDER BY
+              COUNT(*) FILTER (WHERE is_dead) + COUNT(*) FILTER (WHERE is_error) DESC,
+              COUNT(*) DESC
+            LIMIT ${limit}
+          )
+          SELECT
+            'total' AS row_type, NULL AS url, NULL AS element_key, NULL AS selector,
+            NULL AS xpath, NULL AS tag_name, clicks, dead_clicks, error_clicks,
+            NULL AS affected_sessions, NULL AS affected_users, NULL AS median_response_ms,
+            NULL AS latest_session_id, NULL AS latest_at
+          FROM totals
+          UNION ALL
+          SELECT
+            'element' AS row_type, url, element_key, selector, xpath, tag_name,
+            clicks, dead_clicks, error_clicks, affected_sessions, affected_users,
+            median_response_ms, latest_session_id, latest_at
+          FROM elements
+        `);
+
+        const rows: any[] = result.rows || [];
+        const total = rows.find((row) => row.row_type === "total");
+
+        return {
+          totals: {
+            clicks: Number(total?.clicks ?? 0),
+            deadClicks: Number(total?.dead_clicks ?? 0),
+            errorClicks: Number(total?.error_clicks ?? 0),
+          },
+          elements: rows
+            .filter((row) => row.row_type === "element")
+            .sort(
+              (a, b) =>
+                Number(b.dead_clicks) +
+                  Number(b.error_clicks) -
+                  (Number(a.dead_clicks) + Number(a.error_clicks)) ||
+                Number(b.clicks) - Number(a.clicks)
+            )
+            .map((row) => ({
+              url: String(row.url),
+              elementKey: String(row.element_key),
+              selector: row.selector ? String(row.selector) : null,
+              xpath: row.xpath ? String(row.xpath) : null,
+              tagName: row.tag_name ? String(row.tag_name) : null,
+              clicks: Number(row.clicks),
+              deadClicks: Number(row.dead_clicks),
+              errorClicks: Number(row.error_clicks),
+              affectedSessions: Number(row.affected_sessions),
+              affectedUsers: Number(row.affected_users),
+              medianResponseMs:
+                row.median_response_ms !== null
+                  ? Math.round(Number(row.median_response_ms))
+                  : null,
+              latestOccurrence: row.latest_session_id
+                ? {
+                    sessionId: String(row.latest_session_id),
+                    timestamp: new Date(row.latest_at).toISOString(),
+                  }
+                : null,
+            })),
+        };
+      }
+    );
+  }
+}
+
+export const deadClickRepository = new DeadClickRepository();
@@ -0,0 +1,259 @@
+import { db } from "../db/client";
+import { deadLetterEvents } from "../db/schema";
+import {
+  and,
+  count,
+  desc,
+  eq,
+  inArray,
+  lt,
+  min,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { withErrorHandling } from "./BaseRepository";
+
+// Rows per multi-row INSERT (payloads can be large rrweb snapshots)
+const DEAD_LETTER_INSERT_CHUNK = 200;
+
+export type DeadLetterInsert = {
+  eventId: string;
+  projectId: string;
+  batchId: string;
+  eventType: string;
+  payload: unknown;
+  location?: string | null;
+  error: string;
+};
+
+export type DeadLetterFilter = {
+  ids?: string[];
+  projectId?: string;
+  eventType?: string;
+  before?: Date; // last failed before
+};
+
+/**
+ * Dead Letter Repository
+ * Ingestion events the worker could not store, kept with the error and the
+ * original payload until they are re-driven or purged
+ *
+ * Lifecycle:
+ * - recordFailures: an event failed (again), upserted on eventId
+ * - markRedriven: the event was re-queued through the admin API
+ * - deleteByEventIds: a re-driven event was stored
+ * - deleteById / purge: dropped by an admin
+ */
+export class DeadLetterRepository {
+  /**
+   * Conditions of a filter (all given fields must match)
+   */
+  private where(filter: DeadLetterFilter): SQL | undefined {
+    const conditions: SQL[] = [];
+    if (filter.ids) conditions.push(inArray(deadLetterEvents.id, filter.ids));
+    if (filter.projectId) {
+      conditions.push(eq(deadLetterEvents.projectId, filter.projectId));
+    }
+    if (filter.eventType) {
+      conditions.push(eq(deadLetterEvents.eventType, filter.eventType));
+    }
+    if (filter.before) {
+      conditions.push(lt(deadLetterEvents.lastFailedAt, filter.before));
+    }
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  /**
+   * Record failed events
+   * An event already dead-lettered gets the new error and payload, one more
+   * attempt, and is no longer marked re-driven
+   */
+  async recordFailures(rows: DeadLetterInsert[]) {
+    return withErrorHandling(
+      "DeadLetterRepository.recordFailures",
+      async () => {
+        // Rows are upserted on eventId, keep one per event
+        const unique = [
+          ...new Map(rows.map((row) => [row.eventId, row])).values(),
+        ];
+
+        for (let i = 0; i < unique.length; i += DEAD_LETTER_INSERT_CHUNK) {
+          await db
+            .insert(deadLetterEvents)
+            .values(
+              unique.slice(i, i + DEAD_LETTER_INSERT_CHUNK).map((row) => ({
+                ...row,
+                location: row.location || null,
+              }))
+            )
+            .onConflictDoUpdate({
+              target: deadLetterEvents.eventId,
+              set: {
+                batchId: sql`excluded.batch_id`,
+                payload: sql`excluded.payload`,
+                location: sql`excluded.location`,
+                error: sql`excluded.error`,
+                attempts: sql`${deadLetterEvents.attempts} + 1`,
+                lastFailedAt: sql`NOW()`,
+                redrivenAt: null,
+              },
+            });
+        }
+      }
+    );
+  }
+
+  /**
+   * List dead letters (most recent failure first), without payloads
+   *
+   * @param filter - Project and event type to match
+   * @param limit - Max rows to return
+   * @param offset - Rows to skip
+   */
+  async list(filter: DeadLetterFilter, limit: number, offset: number) {
+    return withErrorHandling("DeadLetterRepository.list", async () => {
+      const where = this.where(filter);
+
+      const [items, totals] = await Promise.all([
+        db
+          .select({
+            id: deadLetterEvents.id,
+            eventId: deadLetterEvents.eventId,
+            projectId: deadLetterEvents.projectId,
+            batchId: deadLetterEvents.batchId,
+            eventType: deadLetterEvents.eventType,
+            location: deadLetterEvents.location,
+            error: deadLetterEvents.error,
+            attempts: deadLetterEvents.attempts,
+            firstFailedAt: deadLetterEvents.firstFailedAt,
+            lastFailedAt: deadLetterEvents.lastFailedAt,
+            redrivenAt: deadLetterEvents.redrivenAt,
+          })
+          .from(deadLetterEvents)
+          .where(where)
+          .orderBy(desc(deadLetterEvents.lastFailedAt), deadLetterEvents.id)
+          .limit(limit)
+          .offset(offset),
+        db.select({ total: count() }).from(deadLetterEvents).where(where),
+      ]);
+
+      return { total: Number(totals[0]?.total ?? 0), items };
+    });
+  }
+
+  /**
+   * Get a dead letter with its payload
+   * Returns null if it does not exist
+   */
+  async getById(id: string) {
+    return withErrorHandling("DeadLetterRepository.getById", async () => {
+      const result = await db
+        .select()
+        .from(deadLetterEvents)
+        .where(eq(deadLetterEvents.id, id))
+        .limit(1);
+
+      return result[0] ?? null;
+    });
+  }
+
+  /**
+   * Get dead letters to re-drive (oldest failure first), with payloads
+   *
+   * @param filter - Ids, project and event type to match
+   * @param limit - Max rows to return
+   */
+  async getForRedrive(filter: DeadLetterFilter, limit: number) {
+    return withErrorHandling("DeadLetterRepository.getForRedrive", async () => {
+      return db
+        .select()
+        .from(deadLetterEvents)
+        .where(this.where(filter))
+        .orderBy(deadLetterEvents.lastFailedAt, deadLetterEvents.id)
+        .limit(limit);
+    });
+  }
+
+  /**
+   * Mark dead letters as re-queued
+   */
+  async markRedriven(ids: string[]) {
+    return withErrorHandling("DeadLetterRepository.markRedriven", async () => {
+      if (ids.length === 0) return;
+
+      await db
+        .update(deadLetterEvents)
+        .set({ redrivenAt: new Date() })
+        .where(inArray(deadLetterEvents.id, ids));
+    });
+  }
+
+  /**
+   * Delete the dead letters of events that were stored after a re-drive
+   */
+  async deleteByEventIds(eventIds: string[]) {
+    return withErrorHandling(
+      "DeadLetterRepository.deleteByEventIds",
+      async () => {
+        if (eventIds.length === 0) return;
+
+        await db
+          .delete(deadLetterEvents)
+          .where(inArray(deadLetterEvents.eventId, eventIds));
+      }
+    );
+  }
+
+  /**
+   * Delete a dead letter
+   * Returns null if it does not exist
+   */
+  async deleteById(id: string) {
+    return withErrorHandling("DeadLetterRepository.deleteById", async () => {
+      const result = await db
+        .delete(deadLetterEvents)
+        .where(eq(deadLetterEvents.id, id))
+        .returning({ id: deadLetterEvents.id });
+
+      return result[0] ?? null;
+    });
+  }
+
+  /**
+   * Delete every dead letter matching a filter
+   * An empty filter deletes them all
+   *
+   * @returns Number of dead letters deleted
+   */
+  async purge(filter: DeadLetterFilter): Promise<number> {
+    return withErrorHandling("DeadLetterRepository.purge", async () => {
+      const result = await db
+        .delete(deadLetterEvents)
+        .where(this.where(filter))
+        .returning({ id: deadLetterEvents.id });
+
+      return result.length;
+    });
+  }
+
+  /**
+   * DLQ depth and age, for health checks
+   */
+  async getStats(): Promise<{ depth: number; oldestFailedAt: Date | null }> {
+    return withErrorHandling("DeadLetterRepository.getStats", async () => {
+      const result = await db
+        .select({
+          depth: count(),
+          oldestFailedAt: min(deadLetterEvents.lastFailedAt),
+        })
+        .from(deadLetterEvents);
+
+      return {
+        depth: Number(result[0]?.depth ?? 0),
+        oldestFailedAt: result[0]?.oldestFailedAt ?? null,
+      };
+    });
+  }
+}
+
+export const deadLetterRepository = new DeadLetterRepository();
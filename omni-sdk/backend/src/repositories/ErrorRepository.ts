@@ -0,0 +1,267 @@
+import { db } from "../db/client";
+import { errorEvents } from "../db/schema";
+import { eq, sql } from "drizzle-orm";
+import { withErrorHandling, withIdempotency } from "./BaseRepository";
+
+/**
+ * Error Repository
+ * Stores captured JavaScript errors and aggregates them per issue (fingerprint)
+ *
+ * Semantics:
+ * - Issue: all occurrences with the same fingerprint (error_issues row)
+ * - Affected users: distinct people (userId ?? aliased userId ?? clientId)
+ * - Latest occurrence: most recent error in the range, with its session and replay
+ */
+export class ErrorRepository {
+  /**
+   * Create the issue of a fingerprint, or widen its first/last seen window
+   * Idempotent: safe to call for every occurrence, in any order
+   */
+  async upsertIssue({
+    projectId,
+    fingerprint,
+    errorType,
+    message,
+    culprit,
+    timestamp,
+  }: {
+    projectId: string;
+    fingerprint: string;
+    errorType: string;
+    message: string;
+    culprit: string | null;
+    timestamp: Date;
+  }): Promise<void> {
+    return withErrorHandling("ErrorRepository.upsertIssue", async () => {
+      await db.execute(sql`
+        INSERT INTO error_issues (project_id, fingerprint, error_type, message, culprit, first_seen_at, last_seen_at, created_at)
+        VALUES (${projectId}, ${fingerprint}, ${errorType}, ${message}, ${culprit}, ${timestamp}, ${timestamp}, NOW())
+        ON CONFLICT ON CONSTRAINT error_issues_project_fingerprint_key DO UPDATE
+        SET first_seen_at = LEAST(error_issues.first_seen_at, EXCLUDED.first_seen_at),
+            last_seen_at = GREATEST(error_issues.last_seen_at, EXCLUDED.last_seen_at)
+      `);
+    });
+  }
+
+  /**
+   * Insert an error occurrence
+   * Idempotent on eventId (unique constraint)
+   */
+  async insertErrorEvent({
+    eventId,
+    projectId,
+    fingerprint,
+    sessionId,
+    replayId,
+    clientId,
+    userId,
+    url,
+    errorType,
+    message,
+    stack,
+    source,
+    timestamp,
+  }: {
+    eventId: string;
+    projectId: string;
+    fingerprint: string;
+    sessionId: string;
+    replayId: string | null;
+    clientId: string;
+    userId: string | null;
+    url: string;
+    errorType: string;
+    message: string;
+    stack: string | null;
+    source: string;
+    timestamp: Date;
+  }) {
+    return withIdempotency(
+      "ErrorRepository.insertErrorEvent",
+      eventId,
+      () =>
+        db
+          .select()
+          .from(errorEvents)
+          .where(eq(errorEvents.eventId, eventId))
+          .limit(1),
+      () =>
+        db
+          .insert(errorEvents)
+          .values({
+            eventId,
+            projectId,
+            fingerprint,
+            sessionId,
+            replayId,
+            clientId,
+            userId,
+            url,
+            errorType,
+            message,
+            stack,
+            source,
+            timestamp,
+          })
+          .returning()
+    );
+  }
+
+  /**
+   * Get issues with occurrences in a date range, most frequent first
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param limit - Maximum number of issues
+   */
+  async getIssues(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    limit: number
+  ): Promise<
+    Array<{
+      fingerprint: string;
+      errorType: string;
+      message: string;
+      culprit: string | null;
+      firstSeenAt: string;
+      lastSeenAt: string;
+      occurrences: number;
+      affectedUsers: number;
+      affectedSessions: number;
+      latestOccurrence: {
+        sessionId: string;
+        replayId: string | null;
+        url: string;
+        timestamp: string;
+      };
+    }>
+  > {
+    return withErrorHandling("ErrorRepository.getIssues", async () => {
+      const result = await db.execute(sql`
+        WITH occ AS (
+          SELECT
+            e.fingerprint,
+            COUNT(*) AS occurrences,
+            COUNT(DISTINCT COALESCE(e.user_id, al.user_id, e.client_id)) AS affected_users,
+            COUNT(DISTINCT e.session_id) AS affected_sessions,
+            (array_agg(e.session_id ORDER BY e.timestamp DESC))[1] AS latest_session_id,
+            (array_agg(e.replay_id ORDER BY e.timestamp DESC))[1] AS latest_replay_id,
+            (array_agg(e.url ORDER BY e.timestamp DESC))[1] AS latest_url,
+            MAX(e.timestamp) AS latest_at
+          FROM error_events e
+          LEFT JOIN user_aliases al
+            ON al.project_id = e.project_id
+            AND al.alias_id = e.client_id
+          WHERE e.project_id = ${projectId}
+            AND DATE(e.timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
+            AND DATE(e.timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+          GROUP BY e.fingerprint
+        )
+        SELECT
+          i.fingerprint,
+          i.error_type,
+          i.message,
+          i.culprit,
+          i.first_seen_at,
+          i.last_seen_at,
+          occ.occurrences,
+          occ.affected_users,
+          occ.affected_sessions,
+          occ.latest_session_id,
+          occ.latest_replay_id,
+          occ.latest_url,
+          occ.latest_at
+        FROM occ
+        INNER JOIN error_issues i
+          ON i.project_id = ${projectId}
+          AND i.fingerprint = occ.fingerprint
+        ORDER BY occ.occurrences DESC, occ.latest_at DESC
+        LIMIT ${limit}
+      `);
+
+      return (result.rows || []).map((row: any) => ({
+        fingerprint: String(row.fingerprint),
+        errorType: String(row.error_type),
+        message: String(row.message),
+        culprit: row.culprit ? String(row.culprit) : null,
+        firstSeenAt: new Date(row.first_seen_at).toISOString(),
+        lastSeenAt: new Date(row.last_seen_at).toISOString(),
+        occurrences: Number(row.occurrences),
+        affectedUsers: Number(row.affected_users),
+        affectedSessions: Number(row.affected_sessions),
+        latestOccurrence: {
+          sessionId: String(row.latest_session_id),
+          replayId: row.latest_replay_id ? String(row.latest_replay_id) : null,
+          url: String(row.latest_url),
+          timestamp: new Date(row.latest_at).toISOString(),
+        },
+      }));
+    });
+  }
+
+  /**
+   * Get an issue and its most recent occurrences
+   * Returns null if the fingerprint is unknown for the project
+   *
+   * @param projectId - Project identifier
+   * @param fingerprint - Issue fingerprint
+   * @param limit - Maximum number of occurrences
+   */
+  async getIssueWithOccurrences(
+    projectId: string,
+    fingerprint: string,
+    limit: number
+  ) {
+    return withErrorHandling(
+      "ErrorRepository.getIssueWithOccurrences",
+      async () => {
+        const issueResult = await db.execute(sql`
+          SELECT fingerprint, error_type, message, culprit, first_seen_at, last_seen_at
+          FROM error_issues
+          WHERE project_id = ${projectId}
+          AND fingerprint = ${fingerprint}
+        `);
+
+        const issue: any = issueResult.rows[0];
+        if (!issue) {
+          return null;
+        }
+
+        const occurrencesResult = await db.execute(sql`
+          SELECT event_id, session_id, replay_id, client_id, user_id, url, message, stack, source, timestamp
+          FROM error_events
+          WHERE project_id = ${projectId}
+          AND fingerprint = ${fingerprint}
+          ORDER BY timestamp DESC
+          LIMIT ${limit}
+        `);
+
+        return {
+          fingerprint: String(issue.fingerprint),
+          errorType: String(issue.error_type),
+          message: String(issue.message),
+          culprit: issue.culprit ? String(issue.culprit) : null,
+          firstSeenAt: new Date(issue.first_seen_at).toISOString(),
+          lastSeenAt: new Date(issue.last_seen_at).toISOString(),
+          occurrences: (occurrencesResult.rows || []).map((row: any) => ({
+            eventId: String(row.event_id),
+            sessionId: String(row.session_id),
+            replayId: row.replay_id ? String(row.replay_id) : null,
+            clientId: String(row.client_id),
+            userId: row.user_id ? String(row.user_id) : null,
+            url: String(row.url),
+            message: String(row.message),
+            stack: row.stack ? String(row.stack) : null,
+            source: String(row.source),
+            timestamp: new Date(row.timestamp).toISOString(),
+          })),
+        };
+      }
+    );
+  }
+}
+
+export const errorRepository = new ErrorRepository();
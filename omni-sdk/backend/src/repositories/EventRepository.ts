@@ -3,12 +3,33 @@ import { events } from "../db/schema";
 import { eq, count, inArray, sql } from "drizzle-orm";
 import { withErrorHandling, withIdempotency } from "./BaseRepository";
 
+/**
+ * Generic event row, as sent by the event processors
+ */
+export type EventInsert = {
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  type: string;
+  timestamp: Date;
+  url: string;
+  referrer?: string;
+  selector?: string;
+  eventName?: string;
+};
+
+// Rows per INSERT when inserting a batch of events
+const EVENT_INSERT_CHUNK = 500;
+
 export class EventRepository {
   /**
    * Insert an event into the events table
    * Idempotent on eventId (unique constraint)
    * Only tracks event metadata (type, timestamp, url, etc.)
    * Detailed event data stored in specialized tables (rrwebEvents, heatmapClicks)
+   * selector (clicks) and eventName (custom) are kept for funnel step matching
    */
   async insertEvent({
     eventId,
@@ -20,17 +41,9 @@ export class EventRepository {
     timestamp,
     url,
     referrer,
-  }: {
-    eventId: string;
-    projectId: string;
-    sessionId: string;
-    clientId: string;
-    userId: string | null;
-    type: string;
-    timestamp: Date;
-    url: string;
-    referrer?: string;
-  }) {
+    selector,
+    eventName,
+  }: EventInsert) {
     return withIdempotency(
       "EventRepository.insertEvent",
       eventId,
@@ -49,11 +62,35 @@ export class EventRepository {
             timestamp,
             url,
             referrer: referrer || null,
+            selector: selector || null,
+            eventName: eventName || null,
           })
           .returning()
     );
   }
 
+  /**
+   * Insert a batch of events with multi-row INSERTs
+   * Idempotent on eventId: events already stored are skipped (ON CONFLICT DO NOTHING)
+   */
+  async insertEvents(rows: EventInsert[]): Promise<void> {
+    return withErrorHandling("EventRepository.insertEvents", async () => {
+      for (let i = 0; i < rows.length; i += EVENT_INSERT_CHUNK) {
+        await db
+          .insert(events)
+          .values(
+            rows.slice(i, i + EVENT_INSERT_CHUNK).map((row) => ({
+              ...row,
+              referrer: row.referrer || null,
+              selector: row.selector || null,
+              eventName: row.eventName || null,
+            }))
+          )
+          .onConflictDoNothing({ target: events.eventId });
+      }
+    });
+  }
+
   /**
    * Get event count for a session
    */
@@ -166,6 +203,76 @@ export class EventRepository {
     );
   }
 
+  /**
+   * Count rage click sequences for multiple sessions (see getRageClickCountBySession)
+   */
+  async getRageClickCountsBySessionIds(
+    sessionIds: string[],
+    minClicks: number = 5,
+    thresholdMs: number = 500
+  ): Promise<Map<string, number>> {
+    return withErrorHandling(
+      "EventRepository.getRageClickCountsBySessionIds",
+      async () => {
+        if (sessionIds.length === 0) {
+          return new Map();
+        }
+
+        const result = await db.execute(sql`
+        WITH ordered_clicks AS (
+          SELECT
+            client_id,
+            session_id,
+            url,
+            timestamp,
+            EXTRACT(EPOCH FROM (
+              timestamp - LAG(timestamp) OVER (
+                PARTITION BY client_id, session_id, url
+                ORDER BY timestamp
+              )
+            )) * 1000 AS diff_ms
+          FROM events
+          WHERE type = 'click'
+            AND session_id IN (${sql.join(
+              sessionIds.map((id) => sql`${id}`),
+              sql`, `
+            )})
+        ),
+        click_groups AS (
+          SELECT
+            *,
+            SUM(
+              CASE
+                WHEN diff_ms IS NULL OR diff_ms > ${thresholdMs}
+                THEN 1 ELSE 0
+              END
+            ) OVER (
+              PARTITION BY client_id, session_id, url
+              ORDER BY timestamp
+            ) AS sequence_id
+          FROM ordered_clicks
+        ),
+        rage_sequences AS (
+          SELECT session_id
+          FROM click_groups
+          GROUP BY client_id, session_id, url, sequence_id
+          HAVING COUNT(*) >= ${minClicks}
+        )
+        SELECT session_id, COUNT(*) AS rage_click_count
+        FROM rage_sequences
+        GROUP BY session_id
+      `);
+
+        return new Map(
+          (result.rows || []).map((row: any) => [
+            String(row.session_id),
+            Number(row.rage_click_count),
+          ])
+        );
+      }
+    );
+  }
+
   /**
    * Get rage click sequences for a session (detailed info)
    * Returns each rage-click sequence with user, URL, click count, timing
@@ -245,6 +352,199 @@ export class EventRepository {
       }
     );
   }
+
+  /**
+   * Get dead clicks of a session
+   * A dead click = a click the SDK reported with no response (DOM mutation,
+   * navigation, network request, focus, scroll) before thresholdMs
+   *
+   * @param sessionId - Session to analyze
+   * @param thresholdMs - Response time at or above which a click is dead (default: 1000ms)
+   */
+  async getDeadClicksBySession(
+    sessionId: string,
+    thresholdMs: number = 1000
+  ): Promise<
+    Array<{
+      clickEventId: string;
+      url: string;
+      selector: string;
+      tagName: string;
+      responseMs: number | null;
+      responseType: string | null;
+      clickedAt: Date;
+    }>
+  > {
+    return withErrorHandling(
+      "EventRepository.getDeadClicksBySession",
+      async () => {
+        const result = await db.execute(sql`
+        SELECT DISTINCT ON (click_event_id)
+          click_event_id, url, selector, tag_name, response_ms, response_type, timestamp
+        FROM dead_clicks
+        WHERE session_id = ${sessionId}
+          AND (response_ms IS NULL OR response_ms >= ${thresholdMs})
+        ORDER BY click_event_id, timestamp
+      `);
+
+        return (result.rows || [])
+          .map((row: any) => ({
+            clickEventId: String(row.click_event_id),
+            url: String(row.url),
+            selector: String(row.selector),
+            tagName: String(row.tag_name),
+            responseMs: row.response_ms !== null ? Number(row.response_ms) : null,
+            responseType: row.response_type ? String(row.response_type) : null,
+            clickedAt: new Date(row.timestamp),
+          }))
+          .sort((a, b) => a.clickedAt.getTime() - b.clickedAt.getTime());
+      }
+    );
+  }
+
+  /**
+   * Get error clicks of a session
+   * An error click = a click followed by a JavaScript error in the same session
+   * within windowMs; each click is paired with the first such error
+   *
+   * @param sessionId - Session to analyze
+   * @param windowMs - Max delay between the click and the error (default: 1000ms)
+   */
+  async getErrorClicksBySession(
+    sessionId: string,
+    windowMs: number = 1000
+  ): Promise<
+    Array<{
+      clickEventId: string;
+      url: string;
+      selector: string | null;
+      clickedAt: Date;
+      error: {
+        fingerprint: string;
+        errorType: string;
+        message: string;
+        delayMs: number;
+      };
+    }>
+  > {
+    return withErrorHandling(
+      "EventRepository.getErrorClicksBySession",
+      async () => {
+        const result = await db.execute(sql`
+        SELECT
+          c.event_id,
+          c.url,
+          c.selector,
+          c.timestamp,
+          e.fingerprint,
+          e.error_type,
+          e.message,
+          EXTRACT(EPOCH FROM (e.timestamp - c.timestamp)) * 1000 AS delay_ms
+        FROM events c
+        INNER JOIN LATERAL (
+          SELECT fingerprint, error_type, message, timestamp
+          FROM error_events
+          WHERE session_id = c.session_id
+            AND timestamp >= c.timestamp
+            AND timestamp <= c.timestamp + ${windowMs} * INTERVAL '1 millisecond'
+          ORDER BY timestamp
+          LIMIT 1
+        ) e ON TRUE
+        WHERE c.type = 'click' AND c.session_id = ${sessionId}
+        ORDER BY c.timestamp
+      `);
+
+        return (result.rows || []).map((row: any) => ({
+          clickEventId: String(row.event_id),
+          url: String(row.url),
+          selector: row.selector ? String(row.selector) : null,
+          clickedAt: new Date(row.timestamp),
+          error: {
+            fingerprint: String(row.fingerprint),
+            errorType: String(row.error_type),
+            message: String(row.message),
+            delayMs: Math.round(Number(row.delay_ms)),
+          },
+        }));
+      }
+    );
+  }
+
+  /**
+   * Count dead clicks for multiple sessions (see getDeadClicksBySession)
+   */
+  async getDeadClickCountsBySessionIds(
+    sessionIds: string[],
+    thresholdMs: number = 1000
+  ): Promise<Map<string, number>> {
+    return withErrorHandling(
+      "EventRepository.getDeadClickCountsBySessionIds",
+      async () => {
+        if (sessionIds.length === 0) {
+          return new Map();
+        }
+
+        const result = await db.execute(sql`
+        SELECT session_id, COUNT(DISTINCT click_event_id) AS dead_click_count
+        FROM dead_clicks
+        WHERE session_id IN (${sql.join(
+          sessionIds.map((id) => sql`${id}`),
+          sql`, `
+        )})
+          AND (response_ms IS NULL OR response_ms >= ${thresholdMs})
+        GROUP BY session_id
+      `);
+
+        return new Map(
+          (result.rows || []).map((row: any) => [
+            String(row.session_id),
+            Number(row.dead_click_count),
+          ])
+        );
+      }
+    );
+  }
+
+  /**
+   * Count error clicks for multiple sessions (see getErrorClicksBySession)
+   */
+  async getErrorClickCountsBySessionIds(
+    sessionIds: string[],
+    windowMs: number = 1000
+  ): Promise<Map<string, number>> {
+    return withErrorHandling(
+      "EventRepository.getErrorClickCountsBySessionIds",
+      async () => {
+        if (sessionIds.length === 0) {
+          return new Map();
+        }
+
+        const result = await db.execute(sql`
+        SELECT c.session_id, COUNT(*) AS error_click_count
+        FROM events c
+        WHERE c.type = 'click'
+          AND c.session_id IN (${sql.join(
+            sessionIds.map((id) => sql`${id}`),
+            sql`, `
+          )})
+          AND EXISTS (
+            SELECT 1 FROM error_events e
+            WHERE e.session_id = c.session_id
+              AND e.timestamp >= c.timestamp
+              AND e.timestamp <= c.timestamp + ${windowMs} * INTERVAL '1 millisecond'
+          )
+        GROUP BY c.session_id
+      `);
+
+        return new Map(
+          (result.rows || []).map((row: any) => [
+            String(row.session_id),
+            Number(row.error_click_count),
+          ])
+        );
+      }
+    );
+  }
 }
 
 export const eventRepository = new EventRepository();
@@ -0,0 +1,281 @@
+import { db } from "../db/client";
+import { formInteractions } from "../db/schema";
+import { eq, sql } from "drizzle-orm";
+import { withErrorHandling, withIdempotency } from "./BaseRepository";
+
+/**
+ * Form Analytics Repository
+ * Stores form field interactions and computes per-form abandonment and per-field stats
+ *
+ * Definitions (per session and form):
+ * - started: any interaction with the form
+ * - submitted: a submit interaction exists
+ * - abandoned: started but never submitted
+ * - drop-off field: the last field touched in an abandoned session
+ * - refill: every change on a field after its first change in the same session
+ */
+export class FormAnalyticsRepository {
+  /**
+   * Insert a form interaction
+   * Idempotent on eventId (unique constraint)
+   */
+  async insertInteraction({
+    eventId,
+    projectId,
+    sessionId,
+    clientId,
+    userId,
+    url,
+    formId,
+    fieldName,
+    selector,
+    inputType,
+    action,
+    durationMs,
+    timestamp,
+  }: {
+    eventId: string;
+    projectId: string;
+    sessionId: string;
+    clientId: string;
+    userId: string | null;
+    url: string;
+    formId: string;
+    fieldName: string | null;
+    selector: string;
+    inputType: string;
+    action: string;
+    durationMs?: number;
+    timestamp: Date;
+  }) {
+    return withIdempotency(
+      "FormAnalyticsRepository.insertInteraction",
+      eventId,
+      () =>
+        db
+          .select()
+          .from(formInteractions)
+          .where(eq(formInteractions.eventId, eventId))
+          .limit(1),
+      () =>
+        db
+          .insert(formInteractions)
+          .values({
+            eventId,
+            projectId,
+            sessionId,
+            clientId,
+            userId,
+            url,
+            formId,
+            fieldName,
+            selector,
+            inputType,
+            action,
+            durationMs: durationMs ?? null,
+            timestamp,
+          })
+          .returning()
+    );
+  }
+
+  /**
+   * Shared WHERE clause for form queries
+   */
+  private buildFilter(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    formId?: string
+  ) {
+    const conditions = [
+      sql`project_id = ${projectId}`,
+      sql`DATE(timestamp AT TIME ZONE 'UTC') >= ${startDate}::date`,
+      sql`DATE(timestamp AT TIME ZONE 'UTC') <= ${endDate}::date`,
+    ];
+
+    if (formId) {
+      conditions.push(sql`form_id = ${formId}`);
+    }
+
+    return sql.join(conditions, sql` AND `);
+  }
+
+  /**
+   * Get started/submitted session counts and median time-to-complete per form
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param formId - Optional: restrict to a single form
+   */
+  async getFormSummaries(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    formId?: string
+  ): Promise<
+    Array<{
+      formId: string;
+      url: string;
+      sessions: number;
+      submissions: number;
+      medianCompletionSeconds: number | null;
+    }>
+  > {
+    return withErrorHandling(
+      "FormAnalyticsRepository.getFormSummaries",
+      async () => {
+        const result = await db.execute(sql`
+          WITH form_sessions AS (
+            SELECT
+              session_id,
+              form_id,
+              MIN(url) AS url,
+              MIN(timestamp) AS started_at,
+              MIN(timestamp) FILTER (WHERE action = 'submit') AS submitted_at
+            FROM form_interactions
+            WHERE ${this.buildFilter(projectId, startDate, endDate, formId)}
+            GROUP BY session_id, form_id
+          )
+          SELECT
+            form_id,
+            MODE() WITHIN GROUP (ORDER BY url) AS url,
+            COUNT(*) AS sessions,
+            COUNT(submitted_at) AS submissions,
+            percentile_cont(0.5) WITHIN GROUP (
+              ORDER BY EXTRACT(EPOCH FROM (submitted_at - started_at))
+            ) FILTER (WHERE submitted_at IS NOT NULL) AS median_completion_seconds
+          FROM form_sessions
+          GROUP BY form_id
+          ORDER BY sessions DESC
+          LIMIT 50
+        `);
+
+        return (result.rows || []).map((row: any) => ({
+          formId: String(row.form_id),
+          url: String(row.url),
+          sessions: Number(row.sessions),
+          submissions: Number(row.submissions),
+          medianCompletionSeconds:
+            row.median_completion_seconds === null
+              ? null
+              : Math.round(Number(row.median_completion_seconds)),
+        }));
+      }
+    );
+  }
+
+  /**
+   * Get per-field sessions, drop-offs, refills and time spent
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param formId - Optional: restrict to a single form
+   */
+  async getFieldStats(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    formId?: string
+  ): Promise<
+    Array<{
+      formId: string;
+      fieldName: string;
+      sessions: number;
+      dropOffs: number;
+      refills: number;
+      avgTimeMs: number | null;
+      medianTimeMs: number | null;
+    }>
+  > {
+    return withErrorHandling(
+      "FormAnalyticsRepository.getFieldStats",
+      async () => {
+        const result = await db.execute(sql`
+          WITH scoped AS (
+            SELECT session_id, form_id, field_name, action, duration_ms, timestamp
+            FROM form_interactions
+            WHERE ${this.buildFilter(projectId, startDate, endDate, formId)}
+          ),
+          form_sessions AS (
+            SELECT session_id, form_id, bool_or(action = 'submit') AS submitted
+            FROM scoped
+            GROUP BY session_id, form_id
+          ),
+          last_fields AS (
+            SELECT DISTINCT ON (session_id, form_id) session_id, form_id, field_name
+            FROM scoped
+            WHERE field_name IS NOT NULL
+            ORDER BY session_id, form_id, timestamp DESC
+          ),
+          drop_offs AS (
+            SELECT lf.form_id, lf.field_name, COUNT(*) AS drop_offs
+            FROM last_fields lf
+            JOIN form_sessions fs
+              ON fs.session_id = lf.session_id AND fs.form_id = lf.form_id
+            WHERE NOT fs.submitted
+            GROUP BY lf.form_id, lf.field_name
+          ),
+          field_session_changes AS (
+            SELECT
+              form_id,
+              field_name,
+              session_id,
+              COUNT(*) FILTER (WHERE action = 'change') AS changes
+            FROM scoped
+            WHERE field_name IS NOT NULL
+            GROUP BY form_id, field_name, session_id
+          ),
+          field_sessions AS (
+            SELECT
+              form_id,
+              field_name,
+              COUNT(*) AS sessions,
+              SUM(GREATEST(changes - 1, 0)) AS refills
+            FROM field_session_changes
+            GROUP BY form_id, field_name
+          ),
+          field_times AS (
+            SELECT
+              form_id,
+              field_name,
+              AVG(duration_ms) AS avg_ms,
+              percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms) AS median_ms
+            FROM scoped
+            WHERE action = 'blur' AND duration_ms IS NOT NULL AND field_name IS NOT NULL
+            GROUP BY form_id, field_name
+          )
+          SELECT
+            fs.form_id,
+            fs.field_name,
+            fs.sessions,
+            fs.refills,
+            COALESCE(d.drop_offs, 0) AS drop_offs,
+            ft.avg_ms,
+            ft.median_ms
+          FROM field_sessions fs
+          LEFT JOIN drop_offs d
+            ON d.form_id = fs.form_id AND d.field_name = fs.field_name
+          LEFT JOIN field_times ft
+            ON ft.form_id = fs.form_id AND ft.field_name = fs.field_name
+          ORDER BY fs.form_id, fs.sessions DESC, fs.field_name
+        `);
+
+        return (result.rows || []).map((row: any) => ({
+          formId: String(row.form_id),
+          fieldName: String(row.field_name),
+          sessions: Number(row.sessions),
+          dropOffs: Number(row.drop_offs),
+          refills: Number(row.refills),
+          avgTimeMs: row.avg_ms === null ? null : Math.round(Number(row.avg_ms)),
+          medianTimeMs:
+            row.median_ms === null ? null : Math.round(Number(row.median_ms)),
+        }));
+      }
+    );
+  }
+}
+
+export const formAnalyticsRepository = new FormAnalyticsRepository();
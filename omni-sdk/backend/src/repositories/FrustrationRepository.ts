@@ -0,0 +1,583 @@
+import { db } from "../db/client";
+import { sql, type SQL } from "drizzle-orm";
+import { withErrorHandling } from "./BaseRepository";
+
+/**
+ * Frustration Repository
+ * Ranks pages and elements by frustration signals, current vs previous period
+ *
+ * Signals:
+ * - Rage click: a sequence of ≥minClicks clicks on the same URL, each within
+ *   thresholdMs of the previous (counted once, on the element of its first click)
+ * - Dead click: a click with no response before deadThresholdMs (dead_clicks)
+ * - Error click: a click followed by an error in the same session within errorWindowMs
+ * - U-turn: a page left for the previous page again within uTurnMs (A -> B -> A
+ *   counts on B). Page-level only: it is not tied to a click
+ *
+ * Only clicks stored with an eventId (not legacy pre-aggregated rows) are analyzed
+ */
+
+export type FrustrationThresholds = {
+  minClicks: number;
+  thresholdMs: number;
+  deadThresholdMs: number;
+  errorWindowMs: number;
+  uTurnMs: number;
+};
+
+export type FrustrationSort =
+  | "total"
+  | "rageClicks"
+  | "deadClicks"
+  | "errorClicks"
+  | "uTurns";
+
+type SignalCounts = {
+  rageClicks: number;
+  deadClicks: number;
+  errorClicks: number;
+  uTurns: number;
+};
+
+type SessionSignals = SignalCounts & {
+  sessionId: string;
+  lastSignalAt: string;
+};
+
+// Columns (of the per-row aggregate) each sort key orders by
+const SORT_COLUMNS: Record<FrustrationSort, SQL> = {
+  total: sql`rage_clicks + dead_clicks + error_clicks + u_turns`,
+  rageClicks: sql`rage_clicks`,
+  deadClicks: sql`dead_clicks`,
+  errorClicks: sql`error_clicks`,
+  uTurns: sql`u_turns`,
+};
+
+export class FrustrationRepository {
+  /**
+   * Clicks of both periods with their signals (CTEs ending in "flagged")
+   * period is 'current' for [startDate, endDate], 'previous' before it
+   */
+  private clickSignalsSql(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    previousStartDate: string,
+    thresholds: FrustrationThresholds
+  ): SQL {
+    return sql`
+      clicks AS (
+        SELECT
+          hc.event_id,
+          hc.session_id,
+          hc.url,
+          hc.selector,
+          hc.tag_name,
+          hc.timestamp,
+          COALESCE(hc.element_key, hc.selector) AS element_key,
+          CASE
+            WHEN DATE(hc.timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
+            THEN 'current' ELSE 'previous'
+          END AS period,
+          EXTRACT(EPOCH FROM (
+            hc.timestamp - LAG(hc.timestamp) OVER (
+              PARTITION BY hc.session_id, hc.url
+              ORDER BY hc.timestamp
+            )
+          )) * 1000 AS diff_ms
+        FROM heatmap_clicks hc
+        WHERE hc.project_id = ${projectId}
+          AND hc.event_id IS NOT NULL
+          AND DATE(hc.timestamp AT TIME ZONE 'UTC') >= ${previousStartDate}::date
+          AND DATE(hc.timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+      ),
+      click_groups AS (
+        SELECT
+          *,
+          SUM(
+            CASE
+              WHEN diff_ms IS NULL OR diff_ms > ${thresholds.thresholdMs}
+              THEN 1 ELSE 0
+            END
+          ) OVER (
+            PARTITION BY session_id, url
+            ORDER BY timestamp
+          ) AS sequence_id
+        FROM clicks
+      ),
+      sequenced AS (
+        SELECT
+          *,
+          COUNT(*) OVER (PARTITION BY session_id, url, sequence_id) AS sequence_clicks
+        FROM click_groups
+      ),
+      flagged AS (
+        SELECT
+          s.*,
+          (
+            s.sequence_clicks >= ${thresholds.minClicks}
+            AND (s.diff_ms IS NULL OR s.diff_ms > ${thresholds.thresholdMs})
+          ) AS is_rage,
+          EXISTS (
+            SELECT 1 FROM dead_clicks d
+            WHERE d.click_event_id = s.event_id
+              AND (d.response_ms IS NULL OR d.response_ms >= ${thresholds.deadThresholdMs})
+          ) AS is_dead,
+          EXISTS (
+            SELECT 1 FROM error_events e
+            WHERE e.session_id = s.session_id
+              AND e.timestamp >= s.timestamp
+              AND e.timestamp <= s.timestamp + ${thresholds.errorWindowMs} * INTERVAL '1 millisecond'
+          ) AS is_error
+        FROM sequenced s
+      )
+    `;
+  }
+
+  /**
+   * Get pages ranked by frustration signals
+   *
+   * @param projectId - Project identifier
+   * @param startDate - Current period start (YYYY-MM-DD)
+   * @param endDate - Current period end (YYYY-MM-DD)
+   * @param previousStartDate - Previous period start; it ends the day before startDate
+   * @param thresholds - Signal thresholds
+   * @param sort - Signal to rank by
+   * @param limit - Maximum number of pages
+   * @param sessionLimit - Maximum number of sessions listed per page
+   */
+  async getFrustratedUrls(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    previousStartDate: string,
+    thresholds: FrustrationThresholds,
+    sort: FrustrationSort,
+    limit: number,
+    sessionLimit: number
+  ): Promise<{
+    totals: { current: SignalCounts; previous: SignalCounts };
+    urls: Array<
+      SignalCounts & {
+        url: string;
+        pageViews: number;
+        clicks: number;
+        frustratedSessions: number;
+        previous: SignalCounts;
+        sessions: SessionSignals[];
+      }
+    >;
+  }> {
+    return withErrorHandling(
+      "FrustrationRepository.getFrustratedUrls",
+      async () => {
+        const result = await db.execute(sql`
+          WITH ${this.clickSignalsSql(
+            projectId,
+            startDate,
+            endDate,
+            previousStartDate,
+            thresholds
+          )},
+          views AS (
+            SELECT
+              e.session_id,
+              e.url,
+              e.timestamp,
+              CASE
+                WHEN DATE(e.timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
+                THEN 'current' ELSE 'previous'
+              END AS period,
+              LAG(e.url) OVER w AS previous_url,
+              LEAD(e.url) OVER w AS next_url,
+              LEAD(e.timestamp) OVER w AS next_at
+            FROM events e
+            WHERE e.project_id = ${projectId}
+              AND e.type IN ('pageview', 'route')
+              AND DATE(e.timestamp AT TIME ZONE 'UTC') >= ${previousStartDate}::date
+              AND DATE(e.timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+            WINDOW w AS (PARTITION BY e.session_id ORDER BY e.timestamp)
+          ),
+          signals AS (
+            SELECT
+              url, session_id, period, timestamp,
+              1 AS clicks, 0 AS page_views,
+              is_rage::int AS rage_clicks,
+              is_dead::int AS dead_clicks,
+              is_error::int AS error_clicks,
+              0 AS u_turns
+            FROM flagged
+            UNION ALL
+            SELECT
+              url, session_id, period, timestamp,
+              0 AS clicks, 1 AS page_views,
+              0 AS rage_clicks, 0 AS dead_clicks, 0 AS error_clicks,
+              (
+                previous_url IS NOT NULL
+                AND next_url = previous_url
+                AND url <> previous_url
+                AND next_at <= timestamp + ${thresholds.uTurnMs} * INTERVAL '1 millisecond'
+              )::int AS u_turns
+            FROM views
+          ),
+          by_session AS (
+            SELECT
+              url,
+              session_id,
+              SUM(clicks) FILTER (WHERE period = 'current') AS clicks,
+              SUM(page_views) FILTER (WHERE period = 'current') AS page_views,
+              SUM(rage_clicks) FILTER (WHERE period = 'current') AS rage_clicks,
+              SUM(dead_clicks) FILTER (WHERE period = 'current') AS dead_clicks,
+              SUM(error_clicks) FILTER (WHERE period = 'current') AS error_clicks,
+              SUM(u_turns) FILTER (WHERE period = 'current') AS u_turns,
+              SUM(rage_clicks) FILTER (WHERE period = 'previous') AS previous_rage_clicks,
+              SUM(dead_clicks) FILTER (WHERE period = 'previous') AS previous_dead_clicks,
+              SUM(error_clicks) FILTER (WHERE period = 'previous') AS previous_error_clicks,
+              SUM(u_turns) FILTER (WHERE period = 'previous') AS previous_u_turns,
+              MAX(timestamp) FILTER (
+                WHERE period = 'current'
+                AND rage_clicks + dead_clicks + error_clicks + u_turns > 0
+              ) AS last_signal_at
+            FROM signals
+            GROUP BY url, session_id
+          ),
+          by_url AS (
+            SELECT
+              url,
+              COALESCE(SUM(page_views), 0) AS page_views,
+              COALESCE(SUM(clicks), 0) AS clicks,
+              COALESCE(SUM(rage_clicks), 0) AS rage_clicks,
+              COALESCE(SUM(dead_clicks), 0) AS dead_clicks,
+              COALESCE(SUM(error_clicks), 0) AS error_clicks,
+              COALESCE(SUM(u_turns), 0) AS u_turns,
+              COALESCE(SUM(previous_rage_clicks), 0) AS previous_rage_clicks,
+              COALESCE(SUM(previous_dead_clicks), 0) AS previous_dead_clicks,
+              COALESCE(SUM(previous_error_clicks), 0) AS previous_error_clicks,
+              COALESCE(SUM(previous_u_turns), 0) AS previous_u_turns,
+              COUNT(*) FILTER (WHERE last_signal_at IS NOT NULL) AS frustrated_sessions,
+              (
+                array_agg(
+                  json_build_object(
+                    'sessionId', session_id,
+                    'rageClicks', COALESCE(rage_clicks, 0),
+                    'deadClicks', COALESCE(dead_clicks, 0),
+                    'errorClicks', COALESCE(error_clicks, 0),
+                    'uTurns', COALESCE(u_turns, 0),
+                    'lastSignalAt', last_signal_at
+                  )
+                  ORDER BY last_signal_at DESC
+                ) FILTER (WHERE last_signal_at IS NOT NULL)
+              )[1:${sessionLimit}] AS sessions
+            FROM by_session
+            GROUP BY url
+          ),
+          ranked AS (
+            SELECT
+              *,
+              SUM(rage_clicks) OVER () AS total_rage_clicks,
+              SUM(dead_clicks) OVER () AS total_dead_clicks,
+              SUM(error_clicks) OVER () AS total_error_clicks,
+              SUM(u_turns) OVER () AS total_u_turns,
+              SUM(previous_rage_clicks) OVER () AS total_previous_rage_clicks,
+              SUM(previous_dead_clicks) OVER () AS total_previous_dead_clicks,
+              SUM(previous_error_clicks) OVER () AS total_previous_error_clicks,
+              SUM(previous_u_turns) OVER () AS total_previous_u_turns
+            FROM by_url
+          )
+          SELECT *
+          FROM ranked
+          ORDER BY
+            (${SORT_COLUMNS[sort]}) > 0 DESC,
+            ${SORT_COLUMNS[sort]} DESC,
+            rage_clicks + dead_clicks + error_clicks + u_turns DESC,
+            url
+          LIMIT ${limit}
+        `);
+
+        const rows: any[] = result.rows || [];
+        const first = rows[0];
+
+        return {
+          totals: {
+            current: {
+              rageClicks: Number(first?.total_rage_clicks ?? 0),
+              deadClicks: Number(first?.total_dead_clicks ?? 0),
+              errorClicks: Number(first?.total_error_clicks ?? 0),
+              uTurns: Number(first?.total_u_turns ?? 0),
+            },
+            previous: {
+              rageClicks: Number(first?.total_previous_rage_clicks ?? 0),
+              deadClicks: Number(first?.total_previous_dead_clicks ?? 0),
+              errorClicks: Number(first?.total_previous_error_clicks ?? 0),
+              uTurns: Number(first?.total_previous_u_turns ?? 0),
+            },
+          },
+          urls: rows
+            .filter(
+              (row) =>
+                Number(row.rage_clicks) +
+                  Number(row.dead_clicks) +
+                  Number(row.error_clicks) +
+                  Number(row.u_turns) >
+                0
+            )
+            .map((row) => ({
+              url: String(row.url),
+              pageViews: Number(row.page_views),
+              clicks: Number(row.clicks),
+              rageClicks: Number(row.rage_clicks),
+              deadClicks: Number(row.dead_clicks),
+              errorClicks: Number(row.error_clicks),
+              uTurns: Number(row.u_turns),
+              frustratedSessions: Number(row.frustrated_sessions),
+              previous: {
+                rageClicks: Number(row.previous_rage_clicks),
+                deadClicks: Number(row.previous_dead_clicks),
+                errorClicks: Number(row.previous_error_clicks),
+                uTurns: Number(row.previous_u_turns),
+              },
+              sessions: this.toSessionSignals(row.sessions),
+            })),
+        };
+      }
+    );
+  }
+
+  /**
+   * Get elements ranked by click frustration signals (rage, dead, error clicks)
+   * Elements use the click map key (heatmap_clicks element key, else selector)
+   *
+   * Parameters as for getFrustratedUrls; sorting by uTurns ranks by total
+   */
+  async getFrustratedElements(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    previousStartDate: string,
+    thresholds: FrustrationThresholds,
+    sort: FrustrationSort,
+    limit: number,
+    sessionLimit: number
+  ): Promise<
+    Array<
+      Omit<SignalCounts, "uTurns"> & {
+        url: string;
+        elementKey: string;
+        selector: string | null;
+        tagName: string | null;
+        clicks: number;
+        frustratedSessions: number;
+        previous: Omit<SignalCounts, "uTurns">;
+        sessions: Array<Omit<SessionSignals, "uTurns">>;
+      }
+    >
+  > {
+    return withErrorHandling(
+      "FrustrationRepository.getFrustratedElements",
+      async () => {
+        const sortColumn =
+          sort === "uTurns" ? SORT_COLUMNS.total : SORT_COLUMNS[sort];
+
+        const result = await db.execute(sql`
+          WITH ${this.clickSignalsSql(
+            projectId,
+            startDate,
+            endDate,
+            previousStartDate,
+            thresholds
+          )},
+          by_session AS (
+            SELECT
+              url,
+              element_key,
+              session_id,
+              MODE() WITHIN GROUP (ORDER BY selector) AS selector,
+              MODE() WITHIN GROUP (ORDER BY tag_name) AS tag_name,
+              COUNT(*) FILTER (WHERE period = 'current') AS clicks,
+              COUNT(*) FILTER (WHERE period = 'current' AND is_rage) AS rage_clicks,
+              COUNT(*) FILTER (WHERE period = 'current' AND is_dead) AS dead_clicks,
+              COUNT(*) FILTER (WHERE period = 'current' AND is_error) AS error_clicks,
+              COUNT(*) FILTER (WHERE period = 'previous' AND is_rage) AS previous_rage_clicks,
+              COUNT(*) FILTER (WHERE period = 'previous' AND is_dead) AS previous_dead_clicks,
+              COUNT(*) FILTER (WHERE period = 'previous' AND is_error) AS previous_error_clicks,
+              MAX(timestamp) FILTER (
+                WHERE period = 'current' AND (is_rage OR is_dead OR is_error)
+              ) AS last_signal_at
+            FROM flagged
+            WHERE element_key IS NOT NULL
+            GROUP BY url, element_key, session_id
+          ),
+          by_element AS (
+            SELECT
+              url,
+              element_key,
+              MODE() WITHIN GROUP (ORDER BY selector) AS selector,
+              MODE() WITHIN GROUP (ORDER BY tag_name) AS tag_name,
+              SUM(clicks) AS clicks,
+              SUM(rage_clicks) AS rage_clicks,
+              SUM(dead_clicks) AS dead_clicks,
+              SUM(error_clicks) AS error_clicks,
+              0 AS u_turns,
+              SUM(previous_rage_clicks) AS previous_rage_clicks,
+              SUM(previous_dead_clicks) AS previous_dead_clicks,
+              SUM(previous_error_clicks) AS previous_error_clicks,
+              COUNT(*) FILTER (WHERE last_signal_at IS NOT NULL) AS frustrated_sessions,
+              (
+                array_agg(
+                  json_build_object(
+                    'sessionId', session_id,
+                    'rageClicks', rage_clicks,
+                    'deadClicks', dead_clicks,
+                    'errorClicks', error_clicks,
+                    'lastSignalAt', last_signal_at
+                  )
+                  ORDER BY last_signal_at DESC
+                ) FILTER (WHERE last_signal_at IS NOT NULL)
+              )[1:${sessionLimit}] AS sessions
+            FROM by_session
+            GROUP BY url, element_key
+            HAVING SUM(rage_clicks) + SUM(dead_clicks) + SUM(error_clicks) > 0
+          )
+          SELECT *
+          FROM by_element
+          ORDER BY
+            (${sortColumn}) > 0 DESC,
+            ${sortColumn} DESC,
+            rage_clicks + dead_clicks + error_clicks DESC,
+            url,
+            element_key
+          LIMIT ${limit}
+        `);
+
+        return (result.rows || []).map((row: any) => ({
+          url: String(row.url),
+          elementKey: String(row.element_key),
+          selector: row.selector ? String(row.selector) : null,
+          tagName: row.tag_name ? String(row.tag_name) : null,
+          clicks: Number(row.clicks),
+          rageClicks: Number(row.rage_clicks),
+          deadClicks: Number(row.dead_clicks),
+          errorClicks: Number(row.error_clicks),
+          frustratedSessions: Number(row.frustrated_sessions),
+          previous: {
+            rageClicks: Number(row.previous_rage_clicks),
+            deadClicks: Number(row.previous_dead_clicks),
+            errorClicks: Number(row.previous_error_clicks),
+          },
+          sessions: this.toSessionSignals(row.sessions).map(
+            ({ uTurns, ...session }) => session
+          ),
+        }));
+      }
+    );
+  }
+
+  /**
+   * Get previous period date range (same length as current range)
+   *
+   * @param startDate - Current period start (YYYY-MM-DD)
+   * @param endDate - Current period end (YYYY-MM-DD)
+   * @returns { start, end } for previous period
+   */
+  private getPreviousPeriodDates(
+    startDate: string,
+    endDate: string
+  ): { start: string; end: string } {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    const rangeLength =
+      Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+
+    const prevEnd = new Date(start);
+    prevEnd.setDate(prevEnd.getDate() - 1);
+
+    const prevStart = new Date(prevEnd);
+    prevStart.setDate(prevStart.getDate() - (rangeLength - 1));
+
+    const formatDate = (d: Date) => d.toISOString().split("T")[0];
+
+    return {
+      start: formatDate(prevStart),
+      end: formatDate(prevEnd),
+    };
+  }
+
+  /**
+   * Get frustration signals per page and per element, with the previous period
+   *
+   * @param projectId - Project identifier
+   * @param startDate - Current period start (ISO date)
+   * @param endDate - Current period end (ISO date)
+   * @param thresholds - Signal thresholds
+   * @param sort - Signal to rank by
+   * @param limit - Maximum number of pages and of elements
+   * @param sessionLimit - Maximum number of sessions listed per row
+   */
+  async getFrustration(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    thresholds: FrustrationThresholds,
+    sort: FrustrationSort,
+    limit: number,
+    sessionLimit: number
+  ) {
+    return withErrorHandling(
+      "FrustrationRepository.getFrustration",
+      async () => {
+        const prevPeriod = this.getPreviousPeriodDates(startDate, endDate);
+
+        const [pages, elements] = await Promise.all([
+          this.getFrustratedUrls(
+            projectId,
+            startDate,
+            endDate,
+            prevPeriod.start,
+            thresholds,
+            sort,
+            limit,
+            sessionLimit
+          ),
+          this.getFrustratedElements(
+            projectId,
+            startDate,
+            endDate,
+            prevPeriod.start,
+            thresholds,
+            sort,
+            limit,
+            sessionLimit
+          ),
+        ]);
+
+        return {
+          range: { start: startDate, end: endDate },
+          comparison: { start: prevPeriod.start, end: prevPeriod.end },
+          totals: pages.totals,
+          urls: pages.urls,
+          elements,
+        };
+      }
+    );
+  }
+
+  /**
+   * Parse the per-session json objects aggregated in SQL
+   */
+  private toSessionSignals(sessions: any[] | null): SessionSignals[] {
+    return (sessions || []).map((session: any) => {
+      const value =
+        typeof session === "string" ? JSON.parse(session) : session;
+      return {
+        sessionId: String(value.sessionId),
+        rageClicks: Number(value.rageClicks ?? 0),
+        deadClicks: Number(value.deadClicks ?? 0),
+        errorClicks: Number(value.errorClicks ?? 0),
+        uTurns: Number(value.uTurns ?? 0),
+        lastSignalAt: new Date(value.lastSignalAt).toISOString(),
+      };
+    });
+  }
+}
+
+export const frustrationRepository = new FrustrationRepository();
@@ -0,0 +1,148 @@
+import { db } from "../db/client";
+import { sql, type SQL } from "drizzle-orm";
+import { withErrorHandling } from "./BaseRepository";
+import { toLikePattern } from "../utils/urlPattern";
+import type { FunnelStep } from "../schemas/funnels";
+
+/**
+ * Funnel Repository
+ * Computes ordered conversion funnels from the generic events table
+ *
+ * Semantics:
+ * - Identity: distinctId (userId ?? aliased userId ?? clientId), funnels are user-level,
+ *   not session-level. Anonymous events before identify() count for the identified user
+ * - Step 1: first matching event of each user inside the date range
+ * - Step N: first matching event strictly after step N-1, and within
+ *   conversionWindowSeconds of the user's step 1
+ */
+export class FunnelRepository {
+  /**
+   * Build the match condition of one step against the `b` (base events) alias
+   */
+  private stepCondition(step: FunnelStep): SQL {
+    switch (step.type) {
+      case "pageview":
+        return sql`b.type = 'pageview' AND b.path LIKE ${toLikePattern(step.urlPattern)}`;
+      case "click":
+        return step.urlPattern
+          ? sql`b.type = 'click' AND b.selector = ${step.selector} AND b.path LIKE ${toLikePattern(step.urlPattern)}`
+          : sql`b.type = 'click' AND b.selector = ${step.selector}`;
+      case "custom":
+        return sql`b.type = 'custom' AND b.event_name = ${step.eventName}`;
+    }
+  }
+
+  /**
+   * Get entrants and median time from previous step for each funnel step
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD), bounds step 1 entry
+   * @param endDate - ISO date (YYYY-MM-DD), bounds step 1 entry
+   * @param steps - Ordered funnel steps
+   * @param conversionWindowSeconds - Max time from step 1 to any later step
+   */
+  async getFunnel(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    steps: FunnelStep[],
+    conversionWindowSeconds: number
+  ): Promise<
+    Array<{
+      stepIndex: number;
+      entrants: number;
+      medianSecondsFromPrevious: number | null;
+    }>
+  > {
+    return withErrorHandling("FunnelRepository.getFunnel", async () => {
+      const window = sql`(${conversionWindowSeconds}::int * interval '1 second')`;
+
+      // One CTE per step, each joining the users who reached the previous step
+      const stepCtes = steps.map((step, index) => {
+        const name = sql.raw(`step_${index}`);
+
+        if (index === 0) {
+          return sql`
+            ${name} AS (
+              SELECT
+                b.distinct_id,
+                MIN(b.timestamp) AS entered_at,
+                MIN(b.timestamp) AS started_at,
+                NULL::timestamptz AS prev_at
+              FROM base b
+              WHERE ${this.stepCondition(step)}
+                AND DATE(b.timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+              GROUP BY b.distinct_id
+            )`;
+        }
+
+        const prev = sql.raw(`step_${index - 1}`);
+        return sql`
+          ${name} AS (
+            SELECT
+              p.distinct_id,
+              MIN(b.timestamp) AS entered_at,
+              p.started_at,
+              p.entered_at AS prev_at
+            FROM ${prev} p
+            JOIN base b
+              ON b.distinct_id = p.distinct_id
+              AND b.timestamp > p.entered_at
+              AND b.timestamp <= p.started_at + ${window}
+            WHERE ${this.stepCondition(step)}
+            GROUP BY p.distinct_id, p.started_at, p.entered_at
+          )`;
+      });
+
+      const stepSelects = steps.map((_, index) => {
+        const name = sql.raw(`step_${index}`);
+        return sql`
+          SELECT
+            ${index}::int AS step_index,
+            COUNT(*) AS entrants,
+            percentile_cont(0.5) WITHIN GROUP (
+              ORDER BY EXTRACT(EPOCH FROM (entered_at - prev_at))
+            ) AS median_seconds
+          FROM ${name}`;
+      });
+
+      const result = await db.execute(sql`
+        WITH base AS (
+          SELECT
+            COALESCE(e.user_id, al.user_id, e.client_id) AS distinct_id,
+            e.type,
+            e.timestamp,
+            e.selector,
+            e.event_name,
+            split_part(
+              regexp_replace(e.url, '^https?://[^/]+', ''),
+              '?',
+              1
+            ) AS path
+          FROM events e
+          LEFT JOIN user_aliases al
+            ON al.project_id = e.project_id
+            AND al.alias_id = e.client_id
+          WHERE e.project_id = ${projectId}
+            AND e.type IN ('pageview', 'click', 'custom')
+            AND e.timestamp >= (${startDate}::date)::timestamp AT TIME ZONE 'UTC'
+            AND e.timestamp < ((${endDate}::date + 1)::timestamp AT TIME ZONE 'UTC') + ${window}
+        ),
+        ${sql.join(stepCtes, sql`,`)}
+        ${sql.join(stepSelects, sql` UNION ALL `)}
+        ORDER BY step_index
+      `);
+
+      return (result.rows || []).map((row: any) => ({
+        stepIndex: Number(row.step_index),
+        entrants: Number(row.entrants),
+        medianSecondsFromPrevious:
+          row.median_seconds === null || row.median_seconds === undefined
+            ? null
+            : Math.round(Number(row.median_seconds)),
+      }));
+    });
+  }
+}
+
+export const funnelRepository = new FunnelRepository();
@@ -1,6 +1,62 @@
 import { db } from "../db/client";
-import { heatmapClicks } from "../db/schema";
-import { eq, and } from "drizzle-orm";
+import {
+  heatmapClicks,
+  heatmapActivity,
+  heatmapAggregatedReplays,
+} from "../db/schema";
+import { eq, sql } from "drizzle-orm";
+import type {
+  RrwebHeatmapCell,
+  RrwebHeatmapType,
+} from "../utils/rrwebHeatmap";
+
+/**
+ * Filters of the click heatmap (all optional, combined with AND)
+ * layoutHash null selects clicks recorded without a layout hash
+ */
+export type HeatmapClickFilters = {
+  startDate?: string; // YYYY-MM-DD (UTC)
+  endDate?: string; // YYYY-MM-DD (UTC)
+  screenClass?: string;
+  layoutHash?: string | null;
+  country?: string;
+  visitorType?: "new" | "returning";
+};
+
+/**
+ * Click, as sent by the click processor
+ */
+export type HeatmapClickInsert = {
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  url: string;
+  xNorm: number;
+  yNorm: number;
+  pageX?: number;
+  pageY?: number;
+  selector?: string;
+  xpath?: string;
+  tagName?: string;
+  elementTextHash?: string;
+  elementKey?: string | null;
+  screenClass?: string;
+  layoutHash?: string;
+  pageWidth?: number;
+  pageHeight?: number;
+  viewportWidth?: number;
+  viewportHeight?: number;
+  country?: string | null;
+  timestamp: Date;
+};
+
+// Cells per INSERT when saving a replay's heatmap activity
+const ACTIVITY_INSERT_CHUNK = 500;
+
+// Rows per INSERT when recording a batch of clicks
+const CLICK_INSERT_CHUNK = 500;
 
 export class HeatmapRepository {
   /**
@@ -14,126 +70,654 @@ export class HeatmapRepository {
   }
 
   /**
-   * Increment click count for a grid bucket (upsert)
-   * Idempotent: same click coordinates increment the same bucket
+   * heatmap_clicks row of a click, bucketed into the grid
+   */
+  private toClickRow(click: HeatmapClickInsert) {
+    return {
+      eventId: click.eventId,
+      projectId: click.projectId,
+      sessionId: click.sessionId,
+      clientId: click.clientId,
+      userId: click.userId,
+      url: click.url,
+      gridX: this.calculateGridBucket(click.xNorm),
+      gridY: this.calculateGridBucket(click.yNorm),
+      xNorm: click.xNorm.toString(),
+      yNorm: click.yNorm.toString(),
+      pageX: click.pageX || null,
+      pageY: click.pageY || null,
+      selector: click.selector || null,
+      xpath: click.xpath || null,
+      tagName: click.tagName || null,
+      elementTextHash: click.elementTextHash || null,
+      elementKey: click.elementKey || null,
+      screenClass: click.screenClass || null,
+      layoutHash: click.layoutHash || null,
+      pageWidth: click.pageWidth || null,
+      pageHeight: click.pageHeight || null,
+      viewportWidth: click.viewportWidth || null,
+      viewportHeight: click.viewportHeight || null,
+      country: click.country || null,
+      count: 1,
+      timestamp: click.timestamp,
+      lastClickAt: click.timestamp,
+    };
+  }
+
+  /**
+   * Record a click (one row per click, aggregated into the grid at query time)
+   * Idempotent on eventId (unique constraint)
+   */
+  async recordClick(click: HeatmapClickInsert) {
+    try {
+      const result = await db
+        .insert(heatmapClicks)
+        .values(this.toClickRow(click))
+        .onConflictDoNothing({ target: heatmapClicks.eventId })
+        .returning();
+
+      return result[0];
+    } catch (error) {
+      console.error("Error recording click:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a batch of clicks with multi-row INSERTs
+   * Idempotent on eventId: clicks already stored are skipped (ON CONFLICT DO NOTHING)
+   */
+  async recordClicks(clicks: HeatmapClickInsert[]): Promise<void> {
+    try {
+      for (let i = 0; i < clicks.length; i += CLICK_INSERT_CHUNK) {
+        await db
+          .insert(heatmapClicks)
+          .values(
+            clicks
+              .slice(i, i + CLICK_INSERT_CHUNK)
+              .map((click) => this.toClickRow(click))
+          )
+          .onConflictDoNothing({ target: heatmapClicks.eventId });
+      }
+    } catch (error) {
+      console.error("Error recording clicks:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * JOIN + WHERE of a click heatmap query for the given filters (alias hc)
+   * Shared by the grid and the click map so both select the same clicks
    */
-  async recordClick({
+  private clickFilterSql(
+    projectId: string,
+    url: string,
+    filters: HeatmapClickFilters
+  ) {
+    const conditions = [
+      sql`hc.project_id = ${projectId}`,
+      sql`hc.url = ${url}`,
+    ];
+    if (filters.startDate) {
+      conditions.push(
+        sql`DATE(hc.timestamp AT TIME ZONE 'UTC') >= ${filters.startDate}::date`
+      );
+    }
+    if (filters.endDate) {
+      conditions.push(
+        sql`DATE(hc.timestamp AT TIME ZONE 'UTC') <= ${filters.endDate}::date`
+      );
+    }
+    if (filters.screenClass) {
+      conditions.push(sql`hc.screen_class = ${filters.screenClass}`);
+    }
+    if (filters.country) {
+      conditions.push(sql`hc.country = ${filters.country}`);
+    }
+    if (filters.visitorType) {
+      conditions.push(
+        filters.visitorType === "new"
+          ? sql`DATE(u.first_seen_at AT TIME ZONE 'UTC') = DATE(hc.timestamp AT TIME ZONE 'UTC')`
+          : sql`DATE(u.first_seen_at AT TIME ZONE 'UTC') < DATE(hc.timestamp AT TIME ZONE 'UTC')`
+      );
+    }
+
+    const join = filters.visitorType
+      ? sql`
+          INNER JOIN users u
+            ON u.project_id = hc.project_id
+            AND u.distinct_id = COALESCE(hc.user_id, hc.client_id)`
+      : sql``;
+
+    return { join, where: sql.join(conditions, sql` AND `) };
+  }
+
+  /**
+   * Get the click heatmap of a URL, grouped by page layout
+   * Clicks recorded on different versions of a page (layoutHash) never share a grid
+   *
+   * - layouts: every layout matching the filters except layoutHash, most clicked first
+   * - cells: grid of the requested layout, or of the most clicked one
+   *
+   * New visitor: the click happened on the day the visitor was first seen.
+   * Legacy pre-aggregated rows carry no visitor and are left out of that filter
+   */
+  async getHeatmapForUrl(
+    projectId: string,
+    url: string,
+    filters: HeatmapClickFilters = {}
+  ) {
+    try {
+      const { join: visitorJoin, where } = this.clickFilterSql(
+        projectId,
+        url,
+        filters
+      );
+
+      const layoutsResult = await db.execute(sql`
+        SELECT
+          hc.layout_hash,
+          SUM(hc.count) AS clicks,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY hc.page_width) AS page_width,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY hc.page_height) AS page_height,
+          array_remove(array_agg(DISTINCT hc.screen_class), NULL) AS screen_classes,
+          MAX(hc.timestamp) AS last_click_at
+        FROM heatmap_clicks hc
+        ${visitorJoin}
+        WHERE ${where}
+        GROUP BY hc.layout_hash
+        ORDER BY clicks DESC, last_click_at DESC
+      `);
+
+      const layouts = (layoutsResult.rows || []).map((row: any) => ({
+        layoutHash: row.layout_hash ? String(row.layout_hash) : null,
+        clickCount: Number(row.clicks),
+        pageWidth:
+          row.page_width === null ? null : Math.round(Number(row.page_width)),
+        pageHeight:
+          row.page_height === null ? null : Math.round(Number(row.page_height)),
+        screenClasses: ((row.screen_classes as string[]) || []).map(String),
+        lastClickAt: new Date(row.last_click_at).toISOString(),
+      }));
+
+      const layoutHash =
+        filters.layoutHash !== undefined
+          ? filters.layoutHash
+          : layouts[0]?.layoutHash ?? null;
+      if (!layouts.some((layout) => layout.layoutHash === layoutHash)) {
+        return { layouts, layoutHash, cells: [] };
+      }
+
+      const cellsResult = await db.execute(sql`
+        SELECT
+          hc.grid_x,
+          hc.grid_y,
+          SUM(hc.count) AS clicks,
+          SUM(hc.x_norm * hc.count) / SUM(hc.count) AS x_norm,
+          SUM(hc.y_norm * hc.count) / SUM(hc.count) AS y_norm,
+          MODE() WITHIN GROUP (ORDER BY hc.selector) AS selector,
+          MODE() WITHIN GROUP (ORDER BY hc.tag_name) AS tag_name,
+          MODE() WITHIN GROUP (ORDER BY hc.element_text_hash) AS element_text_hash,
+          MODE() WITHIN GROUP (ORDER BY hc.screen_class) AS screen_class
+        FROM heatmap_clicks hc
+        ${visitorJoin}
+        WHERE ${where}
+          AND hc.layout_hash IS NOT DISTINCT FROM ${layoutHash}
+        GROUP BY hc.grid_x, hc.grid_y
+        ORDER BY hc.grid_x, hc.grid_y
+      `);
+
+      return {
+        layouts,
+        layoutHash,
+        cells: (cellsResult.rows || []).map((row: any) => ({
+          gridX: Number(row.grid_x),
+          gridY: Number(row.grid_y),
+          count: Number(row.clicks),
+          xNorm: Number(row.x_norm),
+          yNorm: Number(row.y_norm),
+          selector: row.selector ? String(row.selector) : null,
+          tagName: row.tag_name ? String(row.tag_name) : null,
+          elementTextHash: row.element_text_hash
+            ? String(row.element_text_hash)
+            : null,
+          screenClass: row.screen_class ? String(row.screen_class) : null,
+        })),
+      };
+    } catch (error) {
+      console.error("Error getting heatmap:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rank the clicked elements of a URL (click map)
+   * Clicks are grouped by elementKey (legacy rows without one by selector)
+   *
+   * - uniqueClickers: distinct people (userId ?? aliased userId ?? clientId)
+   * - rageClicks: clicks inside a rage sequence (>= minClicks in the same
+   *   session and URL, each within thresholdMs of the previous one)
+   * - deadClicks: clicks with no response before deadThresholdMs (dead_clicks,
+   *   reported by ClickTrackingPlugin; legacy rows without an eventId never are)
+   * - clickThroughs: clicks followed by a pageview/route to another URL within
+   *   clickThroughMs, with no other click of the session in between
+   * - box: 5th-95th percentile of the click positions (normalized), to outline
+   *   the element on the overlay
+   *
+   * @param filters - Same filters as the click heatmap (see getHeatmapForUrl)
+   * @param limit - Maximum number of elements
+   */
+  async getClickElements(
+    projectId: string,
+    url: string,
+    filters: HeatmapClickFilters,
+    limit: number,
+    {
+      minClicks = 5,
+      thresholdMs = 500,
+      deadThresholdMs = 1000,
+      clickThroughMs = 5000,
+    }: {
+      minClicks?: number;
+      thresholdMs?: number;
+      deadThresholdMs?: number;
+      clickThroughMs?: number;
+    } = {}
+  ) {
+    try {
+      const { join, where } = this.clickFilterSql(projectId, url, filters);
+      const layoutFilter =
+        filters.layoutHash !== undefined
+          ? sql`AND hc.layout_hash IS NOT DISTINCT FROM ${filters.layoutHash}`
+          : sql``;
+
+      const result = await db.execute(sql`
+        WITH filtered AS (
+          SELECT hc.*
+          FROM heatmap_clicks hc
+          ${join}
+          WHERE ${where}
+          ${layoutFilter}
+        ),
+        ordered AS (
+          SELECT
+            f.*,
+            EXTRACT(EPOCH FROM (
+              f.timestamp - LAG(f.timestamp) OVER (
+                PARTITION BY f.session_id, f.url
+                ORDER BY f.timestamp
+              )
+            )) * 1000 AS diff_ms,
+            LEAD(f.timestamp) OVER (
+              PARTITION BY f.session_id
+              ORDER BY f.timestamp
+            ) AS next_click_at
+          FROM filtered f
+        ),
+        click_groups AS (
+          SELECT
+            *,
+            SUM(
+              CASE
+                WHEN diff_ms IS NULL OR diff_ms > ${thresholdMs}
+                THEN 1 ELSE 0
+              END
+            ) OVER (
+              PARTITION BY session_id, url
+              ORDER BY timestamp
+            ) AS sequence_id
+          FROM ordered
+        ),
+        sequenced AS (
+          SELECT
+            *,
+            COUNT(*) OVER (PARTITION BY session_id, url, sequence_id) AS sequence_clicks
+          FROM click_groups
+        ),
+        totals AS (
+          SELECT COALESCE(SUM(count), 0) AS page_clicks FROM filtered
+        )
+        SELECT
+          COALESCE(c.element_key, c.selector) AS element_key,
+          SUM(c.count) AS clicks,
+          COUNT(DISTINCT COALESCE(c.user_id, al.user_id, c.client_id)) AS unique_clickers,
+          SUM(CASE WHEN c.sequence_clicks >= ${minClicks} THEN c.count ELSE 0 END) AS rage_clicks,
+          SUM(
+            CASE WHEN EXISTS (
+              SELECT 1
+              FROM dead_clicks d
+              WHERE d.click_event_id = c.event_id
+                AND (d.response_ms IS NULL OR d.response_ms >= ${deadThresholdMs})
+            ) THEN c.count ELSE 0 END
+          ) AS dead_clicks,
+          SUM(
+            CASE WHEN EXISTS (
+              SELECT 1
+              FROM events e
+              WHERE e.project_id = c.project_id
+                AND e.session_id = c.session_id
+                AND e.type IN ('pageview', 'route')
+                AND e.url <> c.url
+                AND e.timestamp > c.timestamp
+                AND e.timestamp <= c.timestamp + make_interval(secs => ${clickThroughMs} / 1000.0)
+                AND e.timestamp < COALESCE(c.next_click_at, 'infinity'::timestamptz)
+            ) THEN c.count ELSE 0 END
+          ) AS click_throughs,
+          MODE() WITHIN GROUP (ORDER BY c.selector) AS selector,
+          MODE() WITHIN GROUP (ORDER BY c.xpath) AS xpath,
+          MODE() WITHIN GROUP (ORDER BY c.tag_name) AS tag_name,
+          MODE() WITHIN GROUP (ORDER BY c.element_text_hash) AS element_text_hash,
+          percentile_cont(0.05) WITHIN GROUP (ORDER BY c.x_norm) AS x_min,
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY c.x_norm) AS x_max,
+          percentile_cont(0.05) WITHIN GROUP (ORDER BY c.y_norm) AS y_min,
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY c.y_norm) AS y_max,
+          MAX(c.timestamp) AS last_click_at,
+          (SELECT page_clicks FROM totals) AS page_clicks
+        FROM sequenced c
+        LEFT JOIN user_aliases al
+          ON al.project_id = c.project_id
+          AND al.alias_id = c.client_id
+        WHERE COALESCE(c.element_key, c.selector) IS NOT NULL
+        GROUP BY COALESCE(c.element_key, c.selector)
+        ORDER BY clicks DESC, element_key
+        LIMIT ${limit}
+      `);
+
+      const rows = result.rows || [];
+      return {
+        pageClicks: rows.length > 0 ? Number((rows[0] as any).page_clicks) : 0,
+        elements: rows.map((row: any) => ({
+          elementKey: String(row.element_key),
+          selector: row.selector ? String(row.selector) : null,
+          xpath: row.xpath ? String(row.xpath) : null,
+          tagName: row.tag_name ? String(row.tag_name) : null,
+          elementTextHash: row.element_text_hash
+            ? String(row.element_text_hash)
+            : null,
+          clicks: Number(row.clicks),
+          uniqueClickers: Number(row.unique_clickers),
+          rageClicks: Number(row.rage_clicks),
+          deadClicks: Number(row.dead_clicks),
+          clickThroughs: Number(row.click_throughs),
+          box: {
+            xMin: Number(row.x_min),
+            xMax: Number(row.x_max),
+            yMin: Number(row.y_min),
+            yMax: Number(row.y_max),
+          },
+          lastClickAt: new Date(row.last_click_at).toISOString(),
+        })),
+      };
+    } catch (error) {
+      console.error("Error getting click elements:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the maximum scroll depth of a page view (upsert)
+   * Idempotent: the SDK may report a page view again when the visitor goes
+   * deeper, only the deepest report is kept
+   */
+  async recordScrollDepth({
     projectId,
+    pageViewId,
     sessionId,
+    clientId,
     url,
-    xNorm,
-    yNorm,
-    pageX,
-    pageY,
-    selector,
-    tagName,
-    elementTextHash,
     screenClass,
-    layoutHash,
-    pageWidth,
+    maxDepth,
+    maxScrollY,
     pageHeight,
-    viewportWidth,
     viewportHeight,
+    timestamp,
   }: {
     projectId: string;
+    pageViewId: string;
     sessionId: string;
+    clientId: string;
     url: string;
-    xNorm: number;
-    yNorm: number;
-    pageX?: number;
-    pageY?: number;
-    selector?: string;
-    tagName?: string;
-    elementTextHash?: string;
     screenClass?: string;
-    layoutHash?: string;
-    pageWidth?: number;
+    maxDepth: number;
+    maxScrollY?: number;
     pageHeight?: number;
-    viewportWidth?: number;
     viewportHeight?: number;
+    timestamp: Date;
   }) {
     try {
-      const gridX = this.calculateGridBucket(xNorm);
-      const gridY = this.calculateGridBucket(yNorm);
-
-      // Try to find existing bucket for this URL + grid position + project
-      const existing = await db
-        .select()
-        .from(heatmapClicks)
-        .where(
-          and(
-            eq(heatmapClicks.projectId, projectId),
-            eq(heatmapClicks.url, url),
-            eq(heatmapClicks.gridX, gridX),
-            eq(heatmapClicks.gridY, gridY)
-          )
+      await db.execute(sql`
+        INSERT INTO scroll_depths (
+          project_id, page_view_id, session_id, client_id, url, screen_class,
+          max_depth, max_scroll_y, page_height, viewport_height, timestamp, created_at
         )
-        .limit(1);
-
-      if (existing.length > 0) {
-        // Increment count
-        const updated = await db
-          .update(heatmapClicks)
-          .set({
-            count: existing[0].count + 1,
-            lastClickAt: new Date(),
-          })
-          .where(eq(heatmapClicks.id, existing[0].id))
-          .returning();
+        VALUES (
+          ${projectId}, ${pageViewId}, ${sessionId}, ${clientId}, ${url}, ${screenClass || null},
+          ${maxDepth}, ${maxScrollY ?? null}, ${pageHeight || null}, ${viewportHeight || null}, ${timestamp}, NOW()
+        )
+        ON CONFLICT ON CONSTRAINT scroll_depths_project_page_view_key DO UPDATE
+        SET max_depth = EXCLUDED.max_depth,
+            max_scroll_y = EXCLUDED.max_scroll_y,
+            page_height = EXCLUDED.page_height,
+            viewport_height = EXCLUDED.viewport_height
+        WHERE EXCLUDED.max_depth > scroll_depths.max_depth
+      `);
+    } catch (error) {
+      console.error("Error recording scroll depth:", error);
+      throw error;
+    }
+  }
 
-        return updated[0];
-      } else {
-        // Insert new bucket
-        const result = await db
-          .insert(heatmapClicks)
-          .values({
-            projectId,
-            sessionId,
-            url,
-            gridX,
-            gridY,
-            xNorm: xNorm.toString(),
-            yNorm: yNorm.toString(),
-            pageX: pageX || null,
-            pageY: pageY || null,
-            selector: selector || null,
-            tagName: tagName || null,
-            elementTextHash: elementTextHash || null,
-            screenClass: screenClass || null,
-            layoutHash: layoutHash || null,
-            pageWidth: pageWidth || null,
-            pageHeight: pageHeight || null,
-            viewportWidth: viewportWidth || null,
-            viewportHeight: viewportHeight || null,
-            count: 1,
-          })
+  /**
+   * Get scroll depth distribution for a URL
+   * Page views are bucketed by max depth into 50 rows (same as the click grid's gridY)
+   *
+   * @param screenClass - Optional: only page views from this device class
+   */
+  async getScrollDepthsForUrl(
+    projectId: string,
+    url: string,
+    screenClass?: string
+  ) {
+    try {
+      const screenFilter = screenClass
+        ? sql`AND screen_class = ${screenClass}`
+        : sql``;
+
+      const bucketsResult = await db.execute(sql`
+        SELECT
+          LEAST(FLOOR(max_depth * 50), 49)::int AS grid_y,
+          COUNT(*) AS page_views
+        FROM scroll_depths
+        WHERE project_id = ${projectId}
+          AND url = ${url}
+          ${screenFilter}
+        GROUP BY grid_y
+        ORDER BY grid_y
+      `);
+
+      // Per screen class totals (unfiltered, to populate the device switcher)
+      const screensResult = await db.execute(sql`
+        SELECT
+          screen_class,
+          COUNT(*) AS page_views,
+          AVG(max_depth) AS average_depth,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY page_height) AS page_height,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY viewport_height) AS viewport_height
+        FROM scroll_depths
+        WHERE project_id = ${projectId}
+          AND url = ${url}
+        GROUP BY screen_class
+        ORDER BY page_views DESC
+      `);
+
+      return {
+        buckets: (bucketsResult.rows || []).map((row: any) => ({
+          gridY: Number(row.grid_y),
+          pageViews: Number(row.page_views),
+        })),
+        screenClasses: (screensResult.rows || []).map((row: any) => ({
+          screenClass: row.screen_class ? String(row.screen_class) : null,
+          pageViews: Number(row.page_views),
+          averageDepth: Number(row.average_depth),
+          pageHeight:
+            row.page_height === null ? null : Math.round(Number(row.page_height)),
+          viewportHeight:
+            row.viewport_height === null
+              ? null
+              : Math.round(Number(row.viewport_height)),
+        })),
+      };
+    } catch (error) {
+      console.error("Error getting scroll depths:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find replays that are ready for move/attention aggregation
+   * A replay is ready once it has been idle for idleMinutes and was not aggregated yet
+   *
+   * @param idleMinutes - Minutes without new rrweb events before a replay is considered finished
+   * @param lookbackDays - Only replays with events in this window are considered
+   * @param limit - Maximum number of replays
+   */
+  async getReplaysPendingAggregation(
+    idleMinutes: number,
+    lookbackDays: number,
+    limit: number
+  ): Promise<Array<{ replayId: string; projectId: string }>> {
+    try {
+      const result = await db.execute(sql`
+        SELECT r.replay_id, MIN(r.project_id) AS project_id
+        FROM rrweb_events r
+        LEFT JOIN heatmap_aggregated_replays a
+          ON a.replay_id = r.replay_id
+        WHERE a.replay_id IS NULL
+          AND r.timestamp >= NOW() - make_interval(days => ${lookbackDays})
+        GROUP BY r.replay_id
+        HAVING MAX(r.timestamp) < NOW() - make_interval(mins => ${idleMinutes})
+        ORDER BY MAX(r.timestamp)
+        LIMIT ${limit}
+      `);
+
+      return (result.rows || []).map((row: any) => ({
+        replayId: String(row.replay_id),
+        projectId: String(row.project_id),
+      }));
+    } catch (error) {
+      console.error("Error getting replays pending aggregation:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a replay's move/attention cells to heatmap_activity
+   * Runs in one transaction with the replay marker, so a replay is counted once
+   *
+   * @returns false if the replay was already aggregated
+   */
+  async saveReplayActivity(
+    replayId: string,
+    projectId: string,
+    eventCount: number,
+    cells: RrwebHeatmapCell[]
+  ): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const marked = await tx
+          .insert(heatmapAggregatedReplays)
+          .values({ replayId, projectId, eventCount })
+          .onConflictDoNothing()
           .returning();
 
-        return result[0];
-      }
+        if (marked.length === 0) {
+          return false;
+        }
+
+        for (let i = 0; i < cells.length; i += ACTIVITY_INSERT_CHUNK) {
+          await tx
+            .insert(heatmapActivity)
+            .values(
+              cells.slice(i, i + ACTIVITY_INSERT_CHUNK).map((cell) => ({
+                projectId,
+                url: cell.url,
+                type: cell.type,
+                screenClass: cell.screenClass,
+                gridX: cell.gridX,
+                gridY: cell.gridY,
+                value: cell.value,
+              }))
+            )
+            .onConflictDoUpdate({
+              target: [
+                heatmapActivity.projectId,
+                heatmapActivity.url,
+                heatmapActivity.type,
+                heatmapActivity.screenClass,
+                heatmapActivity.gridX,
+                heatmapActivity.gridY,
+              ],
+              set: {
+                value: sql`${heatmapActivity.value} + excluded.value`,
+                updatedAt: new Date(),
+              },
+            });
+        }
+
+        return true;
+      });
     } catch (error) {
-      console.error("Error recording click:", error);
+      console.error("Error saving replay heatmap activity:", error);
       throw error;
     }
   }
 
   /**
-   * Get heatmap data for a URL
+   * Get move or attention heatmap cells for a URL
+   * Cells are summed over screen classes unless one is given
    */
-  async getHeatmapForUrl(projectId: string, url: string) {
+  async getActivityForUrl(
+    projectId: string,
+    url: string,
+    type: RrwebHeatmapType,
+    screenClass?: string
+  ) {
     try {
-      return await db
-        .select()
-        .from(heatmapClicks)
-        .where(
-          and(
-            eq(heatmapClicks.projectId, projectId),
-            eq(heatmapClicks.url, url)
-          )
-        )
-        .orderBy(heatmapClicks.gridX, heatmapClicks.gridY);
+      const screenFilter = screenClass
+        ? sql`AND screen_class = ${screenClass}`
+        : sql``;
+
+      const cellsResult = await db.execute(sql`
+        SELECT grid_x, grid_y, SUM(value) AS value
+        FROM heatmap_activity
+        WHERE project_id = ${projectId}
+          AND url = ${url}
+          AND type = ${type}
+          ${screenFilter}
+        GROUP BY grid_x, grid_y
+        ORDER BY grid_x, grid_y
+      `);
+
+      const screensResult = await db.execute(sql`
+        SELECT DISTINCT screen_class
+        FROM heatmap_activity
+        WHERE project_id = ${projectId}
+          AND url = ${url}
+          AND type = ${type}
+      `);
+
+      return {
+        cells: (cellsResult.rows || []).map((row: any) => ({
+          gridX: Number(row.grid_x),
+          gridY: Number(row.grid_y),
+          value: Number(row.value),
+        })),
+        screenClasses: (screensResult.rows || []).map((row: any) =>
+          String(row.screen_class)
+        ),
+      };
     } catch (error) {
-      console.error("Error getting heatmap:", error);
+      console.error("Error getting heatmap activity:", error);
       throw error;
     }
   }
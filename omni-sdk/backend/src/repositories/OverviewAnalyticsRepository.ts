@@ -20,11 +20,13 @@ export class OverviewAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getTotalVisits(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<number> {
     return withErrorHandling(
       "OverviewAnalyticsRepository.getTotalVisits",
@@ -33,8 +35,8 @@ export class OverviewAnalyticsRepository {
         SELECT COUNT(*) as count
         FROM sessions
         WHERE project_id = ${projectId}
-        AND DATE(created_at AT TIME ZONE 'UTC') >= ${startDate}::date
-        AND DATE(created_at AT TIME ZONE 'UTC') <= ${endDate}::date
+        AND DATE(created_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+        AND DATE(created_at AT TIME ZONE ${timezone}) <= ${endDate}::date
       `);
 
         return Number(result.rows[0]?.count || 0);
@@ -49,11 +51,13 @@ export class OverviewAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getAvgSessionDuration(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<number> {
     return withErrorHandling(
       "OverviewAnalyticsRepository.getAvgSessionDuration",
@@ -64,8 +68,8 @@ export class OverviewAnalyticsRepository {
         ) as avg_duration_seconds
         FROM sessions
         WHERE project_id = ${projectId}
-        AND DATE(created_at AT TIME ZONE 'UTC') >= ${startDate}::date
-        AND DATE(created_at AT TIME ZONE 'UTC') <= ${endDate}::date
+        AND DATE(created_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+        AND DATE(created_at AT TIME ZONE ${timezone}) <= ${endDate}::date
       `);
 
         return Number(result.rows[0]?.avg_duration_seconds || 0);
@@ -78,16 +82,18 @@ export class OverviewAnalyticsRepository {
    *
    * Bounce session = exactly 1 pageview + 0 meaningful interactions
    * Meaningful interactions: 'click', 'input', 'custom', 'route'
-   * Ignored events: 'rrweb', 'session_snapshot'
+   * Ignored events: 'rrweb', 'session_snapshot', 'identify'
    *
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getBounceRate(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<number> {
     return withErrorHandling(
       "OverviewAnalyticsRepository.getBounceRate",
@@ -100,8 +106,8 @@ export class OverviewAnalyticsRepository {
             COUNT(*) FILTER (WHERE type IN ('click', 'input', 'custom', 'route')) as interaction_count
           FROM events
           WHERE project_id = ${projectId}
-          AND DATE(timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
-          AND DATE(timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+          AND DATE(timestamp AT TIME ZONE ${timezone}) >= ${startDate}::date
+          AND DATE(timestamp AT TIME ZONE ${timezone}) <= ${endDate}::date
           GROUP BY session_id
         ),
         bounced_sessions AS (
@@ -114,8 +120,8 @@ export class OverviewAnalyticsRepository {
           SELECT COUNT(*) as count
           FROM sessions
           WHERE project_id = ${projectId}
-          AND DATE(created_at AT TIME ZONE 'UTC') >= ${startDate}::date
-          AND DATE(created_at AT TIME ZONE 'UTC') <= ${endDate}::date
+          AND DATE(created_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+          AND DATE(created_at AT TIME ZONE ${timezone}) <= ${endDate}::date
         )
         SELECT 
           CASE 
@@ -144,11 +150,13 @@ export class OverviewAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getDailyTrafficOverview(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<
     Array<{
       date: string;
@@ -162,13 +170,13 @@ export class OverviewAnalyticsRepository {
         const result = await db.execute(sql`
           WITH daily_sessions AS (
             SELECT 
-              DATE(created_at AT TIME ZONE 'UTC') as session_date,
+              DATE(created_at AT TIME ZONE ${timezone}) as session_date,
               id as session_id,
               client_id
             FROM sessions
             WHERE project_id = ${projectId}
-            AND DATE(created_at AT TIME ZONE 'UTC') >= ${startDate}::date
-            AND DATE(created_at AT TIME ZONE 'UTC') <= ${endDate}::date
+            AND DATE(created_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+            AND DATE(created_at AT TIME ZONE ${timezone}) <= ${endDate}::date
           ),
           daily_stats AS (
             SELECT 
@@ -180,14 +188,14 @@ export class OverviewAnalyticsRepository {
           ),
           event_daily_stats AS (
             SELECT 
-              DATE(timestamp AT TIME ZONE 'UTC') as event_date,
+              DATE(timestamp AT TIME ZONE ${timezone}) as event_date,
               session_id,
               COUNT(*) FILTER (WHERE type = 'pageview') as pageview_count,
               COUNT(*) FILTER (WHERE type IN ('click', 'input', 'custom', 'route')) as interaction_count
             FROM events
             WHERE project_id = ${projectId}
-            AND DATE(timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
-            AND DATE(timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+            AND DATE(timestamp AT TIME ZONE ${timezone}) >= ${startDate}::date
+            AND DATE(timestamp AT TIME ZONE ${timezone}) <= ${endDate}::date
             GROUP BY event_date, session_id
           ),
           daily_bounces AS (
@@ -260,11 +268,13 @@ export class OverviewAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - Current period start (ISO date)
    * @param endDate - Current period end (ISO date)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getOverviewAnalytics(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<{
     range: { start: string; end: string };
     comparison: { start: string; end: string };
@@ -295,17 +305,38 @@ export class OverviewAnalyticsRepository {
           bounceRatePrevious,
           dailyTraffic,
         ] = await Promise.all([
-          this.getTotalVisits(projectId, startDate, endDate),
-          this.getTotalVisits(projectId, prevPeriod.start, prevPeriod.end),
-          this.getAvgSessionDuration(projectId, startDate, endDate),
+          this.getTotalVisits(projectId, startDate, endDate, timezone),
+          this.getTotalVisits(
+            projectId,
+            prevPeriod.start,
+            prevPeriod.end,
+            timezone
+          ),
           this.getAvgSessionDuration(
+            projectId,
+            startDate,
+            endDate,
+            timezone
+          ),
+          this.getAvgSessionDuration(
+            projectId,
+            prevPeriod.start,
+            prevPeriod.end,
+            timezone
+          ),
+          this.getBounceRate(projectId, startDate, endDate, timezone),
+          this.getBounceRate(
             projectId,
             prevPeriod.start,
-            prevPeriod.end
+            prevPeriod.end,
+            timezone
+          ),
+          this.getDailyTrafficOverview(
+            projectId,
+            startDate,
+            endDate,
+            timezone
           ),
-          this.getBounceRate(projectId, startDate, endDate),
-          this.getBounceRate(projectId, prevPeriod.start, prevPeriod.end),
-          this.getDailyTrafficOverview(projectId, startDate, endDate),
         ]);
 
         return {
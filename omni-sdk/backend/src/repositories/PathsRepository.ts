@@ -0,0 +1,150 @@
+import { db } from "../db/client";
+import { sql } from "drizzle-orm";
+import { withErrorHandling } from "./BaseRepository";
+import { toLikePattern } from "../utils/urlPattern";
+
+export type PathDirection = "next" | "previous";
+
+// Markers for a session ending (next) or starting (previous) within the steps
+export const PATH_EXIT = "(exit)";
+export const PATH_ENTRY = "(entry)";
+
+/**
+ * Paths Repository
+ * Most common page sequences after or before a page, from session pageviews
+ *
+ * Semantics:
+ * - Pages are URL paths without the query string, as in top pages
+ * - Consecutive pageviews of the same path (reloads) count once
+ * - Each session counts once, from its first pageview of the page
+ * - Sequences are chronological and include the page itself: the page then
+ *   the next steps, or the previous steps then the page. A session that ends
+ *   (or starts) within the steps gets an (exit) (or (entry)) step
+ */
+export class PathsRepository {
+  /**
+   * Get the most common sequences of up to `steps` pages next to a page
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
+   * @param page - Path of the page, `*` matches any characters
+   * @param direction - Pages after (next) or before (previous) the page
+   * @param steps - Pages to follow from the page
+   * @param limit - Max sequences to return
+   */
+  async getPaths(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string,
+    page: string,
+    direction: PathDirection,
+    steps: number,
+    limit: number
+  ): Promise<{
+    sessions: number;
+    sequences: Array<{ steps: string[]; sessions: number }>;
+  }> {
+    return withErrorHandling("PathsRepository.getPaths", async () => {
+      const next = direction === "next";
+      const neighbours = next
+        ? sql`d.position > a.position AND d.position <= a.position + ${steps}`
+        : sql`d.position < a.position AND d.position >= a.position - ${steps}`;
+      const sequence = next
+        ? sql`ARRAY[a.path] || COALESCE(
+              array_agg(d.path ORDER BY d.position) FILTER (WHERE d.path IS NOT NULL),
+              '{}'
+            ) || CASE
+              WHEN COUNT(d.path) < ${steps} THEN ARRAY[${PATH_EXIT}::text]
+              ELSE '{}'::text[]
+            END`
+        : sql`CASE
+              WHEN COUNT(d.path) < ${steps} THEN ARRAY[${PATH_ENTRY}::text]
+              ELSE '{}'::text[]
+            END || COALESCE(
+              array_agg(d.path ORDER BY d.position) FILTER (WHERE d.path IS NOT NULL),
+              '{}'
+            ) || ARRAY[a.path]`;
+
+      const result = await db.execute(sql`
+        WITH pageviews AS (
+          SELECT
+            id,
+            session_id,
+            timestamp,
+            split_part(
+              regexp_replace(url, '^https?://[^/]+', ''),
+              '?',
+              1
+            ) AS path
+          FROM events
+          WHERE project_id = ${projectId}
+            AND type = 'pageview'
+            AND DATE(timestamp AT TIME ZONE ${timezone}) >= ${startDate}::date
+            AND DATE(timestamp AT TIME ZONE ${timezone}) <= ${endDate}::date
+        ),
+        changes AS (
+          SELECT
+            *,
+            LAG(path) OVER (
+              PARTITION BY session_id
+              ORDER BY timestamp, id
+            ) AS previous_path
+          FROM pageviews
+        ),
+        deduped AS (
+          SELECT
+            session_id,
+            path,
+            ROW_NUMBER() OVER (
+              PARTITION BY session_id
+              ORDER BY timestamp, id
+            ) AS position
+          FROM changes
+          WHERE previous_path IS DISTINCT FROM path
+        ),
+        anchors AS (
+          SELECT DISTINCT ON (session_id)
+            session_id,
+            path,
+            position
+          FROM deduped
+          WHERE path LIKE ${toLikePattern(page)}
+          ORDER BY session_id, position
+        ),
+        sequences AS (
+          SELECT
+            a.session_id,
+            ${sequence} AS steps
+          FROM anchors a
+          LEFT JOIN deduped d
+            ON d.session_id = a.session_id
+            AND ${neighbours}
+          GROUP BY a.session_id, a.path
+        )
+        SELECT
+          steps,
+          COUNT(*) AS sessions,
+          SUM(COUNT(*)) OVER () AS total_sessions
+        FROM sequences
+        GROUP BY steps
+        ORDER BY sessions DESC, steps ASC
+        LIMIT ${limit}
+      `);
+
+      const rows = (result.rows || []) as any[];
+
+      return {
+        sessions: rows.length > 0 ? Number(rows[0].total_sessions) : 0,
+        sequences: rows.map((row) => ({
+          steps: (row.steps as unknown[]).map(String),
+          sessions: Number(row.sessions),
+        })),
+      };
+    });
+  }
+}
+
+export const pathsRepository = new PathsRepository();
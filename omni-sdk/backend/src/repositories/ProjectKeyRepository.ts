@@ -0,0 +1,267 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "../db/client";
+import { projectWriteKeys } from "../db/schema";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import { withErrorHandling } from "./BaseRepository";
+
+/**
+ * How long a resolved key (or whether a project has keys) stays in the
+ * in-process cache. Keeps POST /ingest from hitting the database on every batch
+ * Changes made by another process are seen once its entries expire
+ */
+const KEY_CACHE_TTL_MS = 60 * 1000;
+
+export type ResolvedWriteKey = {
+  keyId: string;
+  projectId: string;
+  expiresAt: Date | null;
+};
+
+/**
+ * Project Key Repository
+ * Manages per-project write keys used to authenticate ingestion
+ *
+ * Lifecycle:
+ * - create: issue a new key (or register an existing one) for a project
+ * - rotate: issue a new key and give every current key a grace period
+ * - revoke: disable a key (immediately in this process, see revokeKey)
+ *
+ * Rollout: ingestion is only authenticated for projects that have at least one
+ * key (even revoked or expired), so existing deployments keep working until
+ * their keys are registered
+ */
+export class ProjectKeyRepository {
+  private cache = new Map<
+    string,
+    { value: ResolvedWriteKey | null; cachedAt: number }
+  >();
+  private keyedProjects = new Map<
+    string,
+    { value: boolean; cachedAt: number }
+  >();
+
+  /**
+   * Hash a write key for storage and lookup
+   */
+  private hashKey(writeKey: string): string {
+    return createHash("sha256").update(writeKey).digest("hex");
+  }
+
+  /**
+   * Generate a new random write key
+   * Format: wk_{48 hex chars}
+   */
+  private generateKey(): string {
+    return `wk_${randomBytes(24).toString("hex")}`;
+  }
+
+  /**
+   * Check whether a key row is usable at a given time
+   */
+  private isActive(
+    row: { expiresAt: Date | null; revokedAt: Date | null },
+    now: Date
+  ): boolean {
+    if (row.revokedAt) return false;
+    return !row.expiresAt || row.expiresAt.getTime() > now.getTime();
+  }
+
+  /**
+   * Resolve a write key to its project
+   * Returns null for unknown, expired or revoked keys
+   *
+   * @param writeKey - Plain-text key from the SDK
+   */
+  async resolveWriteKey(writeKey: string): Promise<ResolvedWriteKey | null> {
+    return withErrorHandling(
+      "ProjectKeyRepository.resolveWriteKey",
+      async () => {
+        const keyHash = this.hashKey(writeKey);
+        const now = new Date();
+
+        const cached = this.cache.get(keyHash);
+        if (cached && now.getTime() - cached.cachedAt < KEY_CACHE_TTL_MS) {
+          const value = cached.value;
+          // A cached key may have passed its grace period since caching
+          if (value?.expiresAt && value.expiresAt.getTime() <= now.getTime()) {
+            return null;
+          }
+          return value;
+        }
+
+        const result = await db
+          .select()
+          .from(projectWriteKeys)
+          .where(eq(projectWriteKeys.keyHash, keyHash))
+          .limit(1);
+
+        const row = result[0];
+        const value =
+          row && this.isActive(row, now)
+            ? { keyId: row.id, projectId: row.projectId, expiresAt: row.expiresAt }
+            : null;
+
+        this.cache.set(keyHash, { value, cachedAt: now.getTime() });
+        return value;
+      }
+    );
+  }
+
+  /**
+   * Check whether any of the projects has a write key registered
+   * Projects without keys are not authenticated yet (see Rollout above)
+   *
+   * @param projectIds - Projects of an ingest batch
+   */
+  async hasKeys(projectIds: string[]): Promise<boolean> {
+    return withErrorHandling("ProjectKeyRepository.hasKeys", async () => {
+      const now = Date.now();
+      const uncached: string[] = [];
+
+      for (const projectId of projectIds) {
+        const cached = this.keyedProjects.get(projectId);
+        if (!cached || now - cached.cachedAt >= KEY_CACHE_TTL_MS) {
+          uncached.push(projectId);
+        } else if (cached.value) {
+          return true;
+        }
+      }
+
+      if (uncached.length === 0) {
+        return false;
+      }
+
+      const rows = await db
+        .selectDistinct({ projectId: projectWriteKeys.projectId })
+        .from(projectWriteKeys)
+        .where(inArray(projectWriteKeys.projectId, uncached));
+
+      const keyed = new Set(rows.map((row) => row.projectId));
+      for (const projectId of uncached) {
+        this.keyedProjects.set(projectId, {
+          value: keyed.has(projectId),
+          cachedAt: now,
+        });
+      }
+
+      return keyed.size > 0;
+    });
+  }
+
+  /**
+   * Create a write key for a project
+   * If no key is given, a random one is generated
+   * The plain-text key is only returned here, it is never stored
+   *
+   * @param projectId - Project identifier
+   * @param writeKey - Optional existing key to register (e.g. a dashboard publishable key)
+   */
+  async createKey(projectId: string, writeKey?: string) {
+    return withErrorHandling("ProjectKeyRepository.createKey", async () => {
+      const key = writeKey || this.generateKey();
+      const keyHash = this.hashKey(key);
+
+      const result = await db
+        .insert(projectWriteKeys)
+        .values({
+          projectId,
+          keyHash,
+          keyPrefix: key.substring(0, 8),
+        })
+        .returning();
+
+      this.cache.delete(keyHash);
+      // Ingestion for the project is authenticated from now on
+      this.keyedProjects.set(projectId, { value: true, cachedAt: Date.now() });
+
+      return { ...this.toPublicKey(result[0]), writeKey: key };
+    });
+  }
+
+  /**
+   * Rotate the write keys of a project
+   * Every currently non-expiring key gets expiresAt = now + grace period,
+   * then a new key is issued
+   *
+   * @param projectId - Project identifier
+   * @param graceSeconds - How long old keys keep working
+   */
+  async rotateKey(projectId: string, graceSeconds: number) {
+    return withErrorHandling("ProjectKeyRepository.rotateKey", async () => {
+      const expiresAt = new Date(Date.now() + graceSeconds * 1000);
+
+      await db
+        .update(projectWriteKeys)
+        .set({ expiresAt })
+        .where(
+          and(
+            eq(projectWriteKeys.projectId, projectId),
+            isNull(projectWriteKeys.expiresAt),
+            isNull(projectWriteKeys.revokedAt)
+          )
+        );
+
+      // Old keys changed, drop cached resolutions
+      this.cache.clear();
+
+      return this.createKey(projectId);
+    });
+  }
+
+  /**
+   * Revoke a write key
+   * Rejected right away by this process; other processes (API replicas) keep
+   * accepting it until their cached resolution expires (KEY_CACHE_TTL_MS, 60s)
+   * Returns null if the key does not belong to the project
+   */
+  async revokeKey(projectId: string, keyId: string) {
+    return withErrorHandling("ProjectKeyRepository.revokeKey", async () => {
+      const result = await db
+        .update(projectWriteKeys)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(projectWriteKeys.id, keyId),
+            eq(projectWriteKeys.projectId, projectId)
+          )
+        )
+        .returning();
+
+      this.cache.clear();
+
+      return result[0] ? this.toPublicKey(result[0]) : null;
+    });
+  }
+
+  /**
+   * List all write keys of a project (newest first)
+   */
+  async listKeys(projectId: string) {
+    return withErrorHandling("ProjectKeyRepository.listKeys", async () => {
+      const rows = await db
+        .select()
+        .from(projectWriteKeys)
+        .where(eq(projectWriteKeys.projectId, projectId))
+        .orderBy(desc(projectWriteKeys.createdAt));
+
+      return rows.map((row) => this.toPublicKey(row));
+    });
+  }
+
+  /**
+   * Shape a key row for API responses (never exposes the hash)
+   */
+  private toPublicKey(row: typeof projectWriteKeys.$inferSelect) {
+    return {
+      id: row.id,
+      projectId: row.projectId,
+      keyPrefix: row.keyPrefix,
+      active: this.isActive(row, new Date()),
+      expiresAt: row.expiresAt,
+      revokedAt: row.revokedAt,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+export const projectKeyRepository = new ProjectKeyRepository();
@@ -1,32 +1,198 @@
 import { db } from "../db/client";
-import { sql } from "drizzle-orm";
+import { sql, type SQL } from "drizzle-orm";
 import { withErrorHandling } from "./BaseRepository";
+import { toLikePattern } from "../utils/urlPattern";
+import type {
+  RetentionGranularity,
+  RetentionBreakdown,
+  RetentionEvent,
+} from "../schemas/retention";
+
+/**
+ * Start and return events of event retention
+ */
+export type RetentionEvents = {
+  startEvent: RetentionEvent;
+  returnEvent: RetentionEvent;
+};
+
+type Cohort = {
+  date: string;
+  size: number;
+  retention: Record<number, number>; // periodOffset => count
+};
+
+// Number of whole periods between a cohort start and an activity date
+const PERIOD_OFFSETS: Record<RetentionGranularity, SQL> = {
+  day: sql`(a.activity_date - cp.cohort_date)`,
+  week: sql`((a.activity_date - cp.cohort_date) / 7)`,
+  month: sql`(
+    (EXTRACT(YEAR FROM a.activity_date) - EXTRACT(YEAR FROM cp.cohort_date)) * 12
+    + EXTRACT(MONTH FROM a.activity_date) - EXTRACT(MONTH FROM cp.cohort_date)
+  )::int`,
+};
 
 /**
  * Retention Analytics Repository
  * Handles all retention cohort queries using raw SQL for performance
  *
  * Definition:
- * - Cohort: users who first appeared on a specific date (cohortDate)
+ * - Cohort: users who first appeared on a specific date (cohortDate), or in the
+ *   same ISO week / month with week and month granularity
  * - Day-N retention: percentage of cohort with any activity on cohortDate + N days
- * - Identity: distinctId (userId ?? clientId)
- * - All dates in UTC
+ *   (week-N / month-N: any activity in the Nth week / month after the cohort's)
+ * - Segment: a breakdown value from the person's first visit; every person has
+ *   exactly one, so segments partition each cohort
+ * - Event retention: cohort by a person's first startEvent instead of first-seen,
+ *   retained = a returnEvent after it, evaluated on the events table
+ * - Identity: person = alias.userId ?? distinctId (userId ?? clientId), so the anonymous
+ *   clientId used before identify() and the userId count as one person
+ * - A person's first-seen is the earliest first-seen of all their identities
+ * - Dates are calendar days in the requested IANA timezone (UTC by default)
  */
 export class RetentionRepository {
+  /**
+   * CTEs resolving users and daily activity to people through user_aliases,
+   * limited to the people with an identity first seen between firstDate and
+   * lastDate (local dates): only they can have their first-seen in that range
+   * - range_people(person_id), range_identities(distinct_id): those people and
+   *   all their identities
+   * - people(person_id, first_seen_at), over all their identities
+   * - person_activity(person_id, activity_date): activity_date in the timezone,
+   *   from firstDate on. A UTC day of user_daily_activity overlaps at most two
+   *   local days, the local dates of its first and last activity, so UTC days
+   *   are read from the day before firstDate
+   */
+  private identityCtes(
+    projectId: string,
+    timezone: string,
+    firstDate: SQL,
+    lastDate: SQL = firstDate
+  ) {
+    return sql`
+      range_people AS (
+        SELECT DISTINCT COALESCE(al.user_id, u.distinct_id) AS person_id
+        FROM users u
+        LEFT JOIN user_aliases al
+          ON al.project_id = u.project_id
+          AND al.alias_id = u.distinct_id
+        WHERE u.project_id = ${projectId}
+          AND u.first_seen_at >= (${firstDate})::timestamp AT TIME ZONE ${timezone}
+          AND u.first_seen_at < ((${lastDate}) + 1)::timestamp AT TIME ZONE ${timezone}
+      ),
+      range_identities AS (
+        SELECT person_id AS distinct_id FROM range_people
+        UNION
+        SELECT al.alias_id
+        FROM user_aliases al
+        INNER JOIN range_people rp
+          ON rp.person_id = al.user_id
+        WHERE al.project_id = ${projectId}
+      ),
+      people AS (
+        SELECT
+          COALESCE(al.user_id, u.distinct_id) AS person_id,
+          MIN(u.first_seen_at) AS first_seen_at
+        FROM users u
+        LEFT JOIN user_aliases al
+          ON al.project_id = u.project_id
+          AND al.alias_id = u.distinct_id
+        WHERE u.project_id = ${projectId}
+          AND u.distinct_id IN (SELECT distinct_id FROM range_identities)
+        GROUP BY 1
+      ),
+      person_activity AS (
+        SELECT DISTINCT
+          COALESCE(al.user_id, a.distinct_id) AS person_id,
+          local_days.activity_date
+        FROM user_daily_activity a
+        CROSS JOIN LATERAL (
+          VALUES
+            (DATE(a.first_activity_at AT TIME ZONE ${timezone})),
+            (DATE(a.last_activity_at AT TIME ZONE ${timezone}))
+        ) AS local_days(activity_date)
+        LEFT JOIN user_aliases al
+          ON al.project_id = a.project_id
+          AND al.alias_id = a.distinct_id
+        WHERE a.project_id = ${projectId}
+          AND a.distinct_id IN (SELECT distinct_id FROM range_identities)
+          AND a.activity_date >= (${firstDate}) - 1
+      )
+    `;
+  }
+
+  /**
+   * Match condition of an event retention matcher against the `e` (events) alias
+   */
+  private eventCondition(event: RetentionEvent): SQL {
+    switch (event.type) {
+      case "custom":
+        return sql`e.type = 'custom' AND e.event_name = ${event.eventName}`;
+      case "pageview":
+        return sql`e.type = 'pageview' AND split_part(regexp_replace(e.url, '^https?://[^/]+', ''), '?', 1) LIKE ${toLikePattern(event.urlPattern)}`;
+    }
+  }
+
+  /**
+   * Event retention counterparts of identityCtes, from the events table
+   * - people(person_id, first_seen_at): first startEvent of each person
+   * - person_activity(person_id, activity_date): days with a returnEvent
+   *   strictly after that first startEvent
+   */
+  private eventIdentityCtes(
+    projectId: string,
+    events: RetentionEvents,
+    timezone: string
+  ): SQL {
+    const matching = (event: RetentionEvent) => sql`
+      SELECT
+        COALESCE(e.user_id, al.user_id, e.client_id) AS person_id,
+        e.timestamp
+      FROM events e
+      LEFT JOIN user_aliases al
+        ON al.project_id = e.project_id
+        AND al.alias_id = e.client_id
+      WHERE e.project_id = ${projectId}
+        AND ${this.eventCondition(event)}
+    `;
+
+    return sql`
+      people AS (
+        SELECT person_id, MIN(timestamp) AS first_seen_at
+        FROM (${matching(events.startEvent)}) start_events
+        GROUP BY person_id
+      ),
+      person_activity AS (
+        SELECT DISTINCT
+          r.person_id,
+          DATE(r.timestamp AT TIME ZONE ${timezone}) AS activity_date
+        FROM (${matching(events.returnEvent)}) r
+        INNER JOIN people p
+          ON p.person_id = r.person_id
+        WHERE r.timestamp > p.first_seen_at
+      )
+    `;
+  }
+
   /**
    * Get cohort size for a specific date
-   * Returns count of unique users (distinctIds) who first appeared on cohortDate
+   * Returns count of unique people who first appeared on cohortDate
    *
    * @param projectId - Project identifier
-   * @param cohortDate - ISO date string (YYYY-MM-DD) in UTC
+   * @param cohortDate - ISO date string (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
-  async getCohortSize(projectId: string, cohortDate: string): Promise<number> {
+  async getCohortSize(
+    projectId: string,
+    cohortDate: string,
+    timezone: string = "UTC"
+  ): Promise<number> {
     return withErrorHandling("RetentionRepository.getCohortSize", async () => {
       const result = await db.execute(sql`
-        SELECT COUNT(DISTINCT distinct_id) as count
-        FROM users
-        WHERE project_id = ${projectId}
-        AND DATE(first_seen_at AT TIME ZONE 'UTC') = ${cohortDate}::date
+        WITH ${this.identityCtes(projectId, timezone, sql`${cohortDate}::date`)}
+        SELECT COUNT(*) as count
+        FROM people
+        WHERE DATE(first_seen_at AT TIME ZONE ${timezone}) = ${cohortDate}::date
       `);
 
       return Number(result.rows[0]?.count || 0);
@@ -38,25 +204,30 @@ export class RetentionRepository {
    * Returns count of users from cohort who had activity on cohortDate + N days
    *
    * @param projectId - Project identifier
-   * @param cohortDate - ISO date string (YYYY-MM-DD) in UTC (cohort start date)
+   * @param cohortDate - ISO date string (YYYY-MM-DD) (cohort start date)
    * @param daysAfter - Number of days after cohort start (0 = same day, 1 = next day, etc.)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getRetentionCount(
     projectId: string,
     cohortDate: string,
-    daysAfter: number
+    daysAfter: number,
+    timezone: string = "UTC"
   ): Promise<number> {
     return withErrorHandling(
       "RetentionRepository.getRetentionCount",
       async () => {
         const result = await db.execute(sql`
-          SELECT COUNT(DISTINCT u.distinct_id) as count
-          FROM users u
-          INNER JOIN user_daily_activity a
-            ON a.project_id = u.project_id
-            AND a.distinct_id = u.distinct_id
-          WHERE u.project_id = ${projectId}
-          AND DATE(u.first_seen_at AT TIME ZONE 'UTC') = ${cohortDate}::date
+          WITH ${this.identityCtes(
+            projectId,
+            timezone,
+            sql`${cohortDate}::date`
+          )}
+          SELECT COUNT(DISTINCT p.person_id) as count
+          FROM people p
+          INNER JOIN person_activity a
+            ON a.person_id = p.person_id
+          WHERE DATE(p.first_seen_at AT TIME ZONE ${timezone}) = ${cohortDate}::date
           AND a.activity_date = (${cohortDate}::date + (${daysAfter} || ' days')::interval)
         `);
 
@@ -70,14 +241,16 @@ export class RetentionRepository {
    * Optimized to fetch all intervals in a single query for performance
    *
    * @param projectId - Project identifier
-   * @param cohortDate - ISO date string (YYYY-MM-DD) in UTC
+   * @param cohortDate - ISO date string (YYYY-MM-DD)
    * @param intervals - Array of day offsets (e.g., [0, 1, 3, 7, 14, 30])
+   * @param timezone - IANA timezone days are bucketed in
    * @returns Map of { dayOffset => retentionCount }
    */
   async getRetentionMatrix(
     projectId: string,
     cohortDate: string,
-    intervals: number[]
+    intervals: number[],
+    timezone: string = "UTC"
   ): Promise<Map<number, number>> {
     return withErrorHandling(
       "RetentionRepository.getRetentionMatrix",
@@ -94,13 +267,11 @@ export class RetentionRepository {
               sql`
                 SELECT 
                   ${dayOffset}::int as day_offset,
-                  COUNT(DISTINCT u.distinct_id) as count
-                FROM users u
-                INNER JOIN user_daily_activity a
-                  ON a.project_id = u.project_id
-                  AND a.distinct_id = u.distinct_id
-                WHERE u.project_id = ${projectId}
-                AND DATE(u.first_seen_at AT TIME ZONE 'UTC') = ${cohortDate}::date
+                  COUNT(DISTINCT p.person_id) as count
+                FROM people p
+                INNER JOIN person_activity a
+                  ON a.person_id = p.person_id
+                WHERE DATE(p.first_seen_at AT TIME ZONE ${timezone}) = ${cohortDate}::date
                 AND a.activity_date = (${cohortDate}::date + (${dayOffset} || ' days')::interval)
               `
           )
@@ -109,7 +280,13 @@ export class RetentionRepository {
             return sql`${acc} UNION ALL ${clause}`;
           });
 
-        const result = await db.execute(unionClauses);
+        const result = await db.execute(
+          sql`WITH ${this.identityCtes(
+            projectId,
+            timezone,
+            sql`${cohortDate}::date`
+          )} ${unionClauses}`
+        );
 
         // Convert to map
         const retentionMap = new Map<number, number>();
@@ -122,6 +299,203 @@ export class RetentionRepository {
     );
   }
 
+  /**
+   * CTE person_segment(person_id, segment): breakdown value of each person,
+   * from their first identity, session or pageview
+   */
+  private segmentCte(projectId: string, breakdown: RetentionBreakdown): SQL {
+    switch (breakdown) {
+      case "country":
+        return sql`
+          person_segment AS (
+            SELECT
+              COALESCE(al.user_id, u.distinct_id) AS person_id,
+              (array_agg(u.country ORDER BY u.first_seen_at)
+                FILTER (WHERE u.country IS NOT NULL))[1] AS segment
+            FROM users u
+            LEFT JOIN user_aliases al
+              ON al.project_id = u.project_id
+              AND al.alias_id = u.distinct_id
+            WHERE u.project_id = ${projectId}
+            GROUP BY 1
+          )
+        `;
+      case "device":
+        return sql`
+          person_segment AS (
+            SELECT DISTINCT ON (person_id) person_id, segment
+            FROM (
+              SELECT
+                COALESCE(s.user_id, al.user_id, s.client_id) AS person_id,
+                LOWER(s.device) AS segment,
+                s.created_at
+              FROM sessions s
+              LEFT JOIN user_aliases al
+                ON al.project_id = s.project_id
+                AND al.alias_id = s.client_id
+              WHERE s.project_id = ${projectId}
+                AND s.device IS NOT NULL
+            ) person_sessions
+            ORDER BY person_id, created_at
+          )
+        `;
+      case "referrer":
+      case "landing_page":
+        return sql`
+          person_segment AS (
+            SELECT DISTINCT ON (person_id) person_id, segment
+            FROM (
+              SELECT
+                COALESCE(e.user_id, al.user_id, e.client_id) AS person_id,
+                ${
+                  breakdown === "referrer"
+                    ? sql`COALESCE(
+                        NULLIF(
+                          regexp_replace(
+                            LOWER(substring(e.referrer from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)')),
+                            '^www\\.',
+                            ''
+                          ),
+                          ''
+                        ),
+                        '(direct)'
+                      )`
+                    : sql`COALESCE(
+                        NULLIF(
+                          split_part(regexp_replace(e.url, '^https?://[^/]+', ''), '?', 1),
+                          ''
+                        ),
+                        '/'
+                      )`
+                } AS segment,
+                e.timestamp
+              FROM events e
+              LEFT JOIN user_aliases al
+                ON al.project_id = e.project_id
+                AND al.alias_id = e.client_id
+              WHERE e.project_id = ${projectId}
+                AND e.type = 'pageview'
+            ) person_pageviews
+            ORDER BY person_id, timestamp
+          )
+        `;
+    }
+  }
+
+  /**
+   * Cohort sizes and retention counts in one query, per segment when a
+   * breakdown is given, on start/return events when they are given
+   * Cohorts are the periods starting from the one containing startDate
+   * up to endDate, in the timezone
+   */
+  private async queryCohorts(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    intervals: number[],
+    granularity: RetentionGranularity,
+    timezone: string,
+    breakdown?: RetentionBreakdown,
+    events?: RetentionEvents
+  ): Promise<Map<string | null, Cohort[]>> {
+    const identity = events
+      ? this.eventIdentityCtes(projectId, events, timezone)
+      : this.identityCtes(
+          projectId,
+          timezone,
+          sql`DATE_TRUNC(${granularity}, ${startDate}::timestamp)::date`,
+          sql`${endDate}::date`
+        );
+
+    const result = await db.execute(sql`
+      WITH ${identity},
+      ${breakdown ? sql`${this.segmentCte(projectId, breakdown)},` : sql``}
+      cohort_people AS (
+        SELECT
+          p.person_id,
+          DATE_TRUNC(${granularity}, p.first_seen_at AT TIME ZONE ${timezone})::date AS cohort_date,
+          ${
+            breakdown
+              ? sql`COALESCE(ps.segment, '(unknown)')`
+              : sql`NULL::text`
+          } AS segment
+        FROM people p
+        ${
+          breakdown
+            ? sql`LEFT JOIN person_segment ps ON ps.person_id = p.person_id`
+            : sql``
+        }
+        WHERE DATE_TRUNC(${granularity}, p.first_seen_at AT TIME ZONE ${timezone})::date
+            >= DATE_TRUNC(${granularity}, ${startDate}::timestamp)::date
+          AND DATE(p.first_seen_at AT TIME ZONE ${timezone}) <= ${endDate}::date
+      ),
+      cohort_sizes AS (
+        SELECT segment, cohort_date, COUNT(*) AS size
+        FROM cohort_people
+        GROUP BY segment, cohort_date
+      ),
+      returns AS (
+        SELECT segment, cohort_date, period_offset, COUNT(DISTINCT person_id) AS count
+        FROM (
+          SELECT
+            cp.segment,
+            cp.cohort_date,
+            cp.person_id,
+            ${PERIOD_OFFSETS[granularity]} AS period_offset
+          FROM cohort_people cp
+          INNER JOIN person_activity a
+            ON a.person_id = cp.person_id
+            AND a.activity_date >= cp.cohort_date
+        ) activity
+        WHERE period_offset IN (${sql.join(
+          intervals.map((interval) => sql`${interval}`),
+          sql`, `
+        )})
+        GROUP BY segment, cohort_date, period_offset
+      )
+      SELECT
+        s.segment,
+        s.cohort_date,
+        s.size,
+        r.period_offset,
+        r.count
+      FROM cohort_sizes s
+      LEFT JOIN returns r
+        ON r.cohort_date = s.cohort_date
+        AND r.segment IS NOT DISTINCT FROM s.segment
+      ORDER BY s.cohort_date ASC
+    `);
+
+    // segment => cohort date => cohort
+    const segments = new Map<string | null, Map<string, Cohort>>();
+    for (const row of result.rows as any[]) {
+      const segment = row.segment === null ? null : String(row.segment);
+      const date = String(row.cohort_date);
+
+      const cohorts = segments.get(segment) ?? new Map<string, Cohort>();
+      segments.set(segment, cohorts);
+
+      let cohort = cohorts.get(date);
+      if (!cohort) {
+        cohort = { date, size: Number(row.size), retention: {} };
+        for (const interval of intervals) {
+          cohort.retention[interval] = 0;
+        }
+        cohorts.set(date, cohort);
+      }
+      if (row.period_offset !== null) {
+        cohort.retention[Number(row.period_offset)] = Number(row.count);
+      }
+    }
+
+    return new Map(
+      Array.from(segments.entries()).map(([segment, cohorts]) => [
+        segment,
+        Array.from(cohorts.values()),
+      ])
+    );
+  }
+
   /**
    * Get retention data for multiple cohorts in a date range
    * Returns structured data ready for API response
@@ -129,68 +503,83 @@ export class RetentionRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date string (YYYY-MM-DD), first cohort date
    * @param endDate - ISO date string (YYYY-MM-DD), last cohort date
-   * @param intervals - Array of day offsets to calculate retention for
+   * @param intervals - Array of period offsets to calculate retention for
+   * @param granularity - Cohort period: day (default), week or month
+   * @param events - Start and return events for event retention
+   * @param timezone - IANA timezone days are bucketed in (default UTC)
    */
   async getRetentionCohorts(
     projectId: string,
     startDate: string,
     endDate: string,
-    intervals: number[]
-  ): Promise<
-    Array<{
-      date: string;
-      size: number;
-      retention: Record<number, number>; // dayOffset => count
-    }>
-  > {
+    intervals: number[],
+    granularity: RetentionGranularity = "day",
+    events?: RetentionEvents,
+    timezone: string = "UTC"
+  ): Promise<Cohort[]> {
     return withErrorHandling(
       "RetentionRepository.getRetentionCohorts",
       async () => {
-        // Get all unique cohort dates that have at least one user
-        const cohortDatesResult = await db.execute(sql`
-          SELECT DISTINCT DATE(first_seen_at AT TIME ZONE 'UTC') as cohort_date
-          FROM users
-          WHERE project_id = ${projectId}
-          AND DATE(first_seen_at AT TIME ZONE 'UTC') >= ${startDate}::date
-          AND DATE(first_seen_at AT TIME ZONE 'UTC') <= ${endDate}::date
-          ORDER BY cohort_date ASC
-        `);
-
-        const cohorts = [];
-
-        for (const row of cohortDatesResult.rows) {
-          const cohortDate = String(row.cohort_date);
+        const cohorts = await this.queryCohorts(
+          projectId,
+          startDate,
+          endDate,
+          intervals,
+          granularity,
+          timezone,
+          undefined,
+          events
+        );
 
-          // Get cohort size
-          const sizeResult = await db.execute(sql`
-            SELECT COUNT(DISTINCT distinct_id) as count
-            FROM users
-            WHERE project_id = ${projectId}
-            AND DATE(first_seen_at AT TIME ZONE 'UTC') = ${cohortDate}::date
-          `);
-          const size = Number(sizeResult.rows[0]?.count || 0);
+        return cohorts.get(null) ?? [];
+      }
+    );
+  }
 
-          // Get retention matrix for all intervals
-          const retentionMap = await this.getRetentionMatrix(
-            projectId,
-            cohortDate,
-            intervals
-          );
-
-          // Build retention record: dayOffset => count
-          const retention: Record<number, number> = {};
-          for (const interval of intervals) {
-            retention[interval] = retentionMap.get(interval) || 0;
-          }
-
-          cohorts.push({
-            date: cohortDate,
-            size,
-            retention,
-          });
-        }
+  /**
+   * Get retention cohorts per breakdown segment, largest segment first
+   * People without a value for the dimension are in the "(unknown)" segment
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date string (YYYY-MM-DD), first cohort date
+   * @param endDate - ISO date string (YYYY-MM-DD), last cohort date
+   * @param intervals - Array of period offsets to calculate retention for
+   * @param granularity - Cohort period: day, week or month
+   * @param breakdown - Dimension to segment people by
+   * @param events - Start and return events for event retention
+   * @param timezone - IANA timezone days are bucketed in (default UTC)
+   */
+  async getRetentionCohortsBySegment(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    intervals: number[],
+    granularity: RetentionGranularity,
+    breakdown: RetentionBreakdown,
+    events?: RetentionEvents,
+    timezone: string = "UTC"
+  ): Promise<Array<{ segment: string; size: number; cohorts: Cohort[] }>> {
+    return withErrorHandling(
+      "RetentionRepository.getRetentionCohortsBySegment",
+      async () => {
+        const segments = await this.queryCohorts(
+          projectId,
+          startDate,
+          endDate,
+          intervals,
+          granularity,
+          timezone,
+          breakdown,
+          events
+        );
 
-        return cohorts;
+        return Array.from(segments.entries())
+          .map(([segment, cohorts]) => ({
+            segment: String(segment),
+            size: cohorts.reduce((sum, cohort) => sum + cohort.size, 0),
+            cohorts,
+          }))
+          .sort((a, b) => b.size - a.size || a.segment.localeCompare(b.segment));
       }
     );
   }
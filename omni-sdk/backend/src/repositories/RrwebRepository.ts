@@ -1,7 +1,88 @@
 import { db } from "../db/client";
-import { rrwebEvents } from "../db/schema";
-import { eq } from "drizzle-orm";
+import { rrwebEvents, replayChunks, replayManifests } from "../db/schema";
+import {
+  and,
+  asc,
+  eq,
+  gte,
+  inArray,
+  lt,
+  lte,
+  max,
+  min,
+  sql,
+  type SQL,
+} from "drizzle-orm";
 import type { RrwebEventPayload } from "../types";
+import {
+  mergeReplayEvents,
+  readReplayChunk,
+  toReplayEvent,
+  type ReplayChunk,
+  type ReplayEvent,
+} from "../utils/replayChunks";
+
+/**
+ * rrweb event row, as sent by the rrweb processor
+ */
+export type RrwebEventInsert = {
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  replayId: string;
+  clientId: string;
+  userId: string | null;
+  timestamp: Date;
+  url: string;
+  referrer?: string;
+  rrwebPayload: RrwebEventPayload;
+  schemaVersion: string;
+  pageWidth?: number;
+  pageHeight?: number;
+  viewportWidth?: number;
+  viewportHeight?: number;
+};
+
+// Rows per INSERT when inserting a batch of rrweb events
+const RRWEB_INSERT_CHUNK = 200;
+
+// Rows per DELETE when removing compacted rrweb events
+const RRWEB_DELETE_CHUNK = 1000;
+
+// rrweb EventType values used here
+const FULL_SNAPSHOT = 2;
+const META = 4;
+
+// How far before a full snapshot its Meta event is looked for
+const META_LOOKBACK_MS = 1000;
+
+// Latest time a Date can hold (the end of an unbounded range)
+const MAX_TIME_MS = 8.64e15;
+
+export type ReplayChunkInfo = {
+  sequence: number;
+  startTime: Date;
+  endTime: Date;
+  eventCount: number;
+  fullSnapshotAt: Date | null;
+};
+
+/**
+ * A replay (tab) with its compacted chunks and the live events (still in
+ * rrweb_events) not compacted yet
+ */
+export type ReplayManifest = {
+  replayId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  url: string;
+  eventCount: number;
+  startTime: Date;
+  endTime: Date;
+  chunks: ReplayChunkInfo[];
+  live: { eventCount: number; startTime: Date; endTime: Date } | null;
+};
 
 export class RrwebRepository {
   /**
@@ -24,23 +105,7 @@ export class RrwebRepository {
     pageHeight,
     viewportWidth,
     viewportHeight,
-  }: {
-    eventId: string;
-    projectId: string;
-    sessionId: string;
-    replayId: string;
-    clientId: string;
-    userId: string | null;
-    timestamp: Date;
-    url: string;
-    referrer?: string;
-    rrwebPayload: RrwebEventPayload;
-    schemaVersion: string;
-    pageWidth?: number;
-    pageHeight?: number;
-    viewportWidth?: number;
-    viewportHeight?: number;
-  }) {
+  }: RrwebEventInsert) {
     try {
       // Check if event already exists (for idempotency)
       const existing = await db
@@ -85,6 +150,29 @@ export class RrwebRepository {
     }
   }
 
+  /**
+   * Insert a batch of rrweb events with multi-row INSERTs
+   * Idempotent on event_id: events already stored are skipped (ON CONFLICT DO NOTHING)
+   */
+  async insertRrwebEvents(rows: RrwebEventInsert[]): Promise<void> {
+    try {
+      for (let i = 0; i < rows.length; i += RRWEB_INSERT_CHUNK) {
+        await db
+          .insert(rrwebEvents)
+          .values(
+            rows.slice(i, i + RRWEB_INSERT_CHUNK).map((row) => ({
+              ...row,
+              referrer: row.referrer || null,
+            }))
+          )
+          .onConflictDoNothing({ target: rrwebEvents.eventId });
+      }
+    } catch (error) {
+      console.error("Error inserting rrweb events:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get all rrweb events for a session, ordered by timestamp
    */
@@ -117,6 +205,529 @@ export class RrwebRepository {
     }
   }
 
+  /**
+   * Time of the latest full snapshot of a replay at or before a time,
+   * compacted or live. Playback from that time can start there
+   * Returns null if there is none
+   */
+  async getReplaySnapshotTime(replayId: string, at: Date): Promise<Date | null> {
+    try {
+      const [chunks, rows] = await Promise.all([
+        db
+          .select({ time: max(replayChunks.fullSnapshotAt) })
+          .from(replayChunks)
+          .where(
+            and(
+              eq(replayChunks.replayId, replayId),
+              lte(replayChunks.fullSnapshotAt, at)
+            )
+          ),
+        db
+          .select({ time: max(rrwebEvents.timestamp) })
+          .from(rrwebEvents)
+          .where(
+            and(
+              eq(rrwebEvents.replayId, replayId),
+              lte(rrwebEvents.timestamp, at),
+              sql`(${rrwebEvents.rrwebPayload}->>'type')::int = ${FULL_SNAPSHOT}`
+            )
+          ),
+      ]);
+
+      const times = [chunks[0]?.time, rows[0]?.time]
+        .filter((time): time is Date => !!time)
+        .map((time) => new Date(time).getTime());
+
+      return times.length > 0 ? new Date(Math.max(...times)) : null;
+    } catch (error) {
+      console.error("Error getting replay snapshot time:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Time of the first event of a replay at or after a time, compacted or
+   * live, so idle periods can be skipped. Only chunks that straddle the time
+   * are read. Returns null if there is none
+   */
+  async getNextReplayEventTime(
+    replayId: string,
+    at: Date
+  ): Promise<Date | null> {
+    try {
+      const [chunks, rows] = await Promise.all([
+        db
+          .select({
+            sequence: replayChunks.sequence,
+            startTime: replayChunks.startTime,
+          })
+          .from(replayChunks)
+          .where(
+            and(
+              eq(replayChunks.replayId, replayId),
+              gte(replayChunks.endTime, at)
+            )
+          ),
+        db
+          .select({ time: min(rrwebEvents.timestamp) })
+          .from(rrwebEvents)
+          .where(
+            and(
+              eq(rrwebEvents.replayId, replayId),
+              gte(rrwebEvents.timestamp, at)
+            )
+          ),
+      ]);
+
+      const times = rows[0]?.time ? [new Date(rows[0].time).getTime()] : [];
+
+      for (const chunk of chunks) {
+        if (chunk.startTime.getTime() >= at.getTime()) {
+          times.push(chunk.startTime.getTime());
+          continue;
+        }
+
+        const result = await db
+          .select({ data: replayChunks.data })
+          .from(replayChunks)
+          .where(
+            and(
+              eq(replayChunks.replayId, replayId),
+              eq(replayChunks.sequence, chunk.sequence)
+            )
+          )
+          .limit(1);
+        if (!result[0]) continue; // removed since listed
+
+        for (const event of readReplayChunk(result[0].data)) {
+          const time = Date.parse(event.timestamp);
+          if (time >= at.getTime()) times.push(time);
+        }
+      }
+
+      return times.length > 0
+        ? new Date(times.reduce((a, b) => Math.min(a, b)))
+        : null;
+    } catch (error) {
+      console.error("Error getting next replay event time:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the events of a replay in [start, end), compacted and live,
+   * in time order (per chunk, chunks themselves may overlap after late events)
+   * Chunks are read and decompressed one at a time
+   *
+   * @param withMeta - Also yield the last Meta event before start, the page
+   *   and viewport of a full snapshot at start (rrweb records it just before)
+   */
+  async *streamReplayEvents(
+    replayId: string,
+    start: Date,
+    end: Date,
+    withMeta = false
+  ): AsyncGenerator<ReplayEvent> {
+    const from = new Date(start.getTime() - (withMeta ? META_LOOKBACK_MS : 0));
+
+    try {
+      const [chunks, rows] = await Promise.all([
+        db
+          .select({
+            sequence: replayChunks.sequence,
+            endTime: replayChunks.endTime,
+          })
+          .from(replayChunks)
+          .where(
+            and(
+              eq(replayChunks.replayId, replayId),
+              lt(replayChunks.startTime, end),
+              gte(replayChunks.endTime, from)
+            )
+          )
+          .orderBy(asc(replayChunks.startTime), asc(replayChunks.sequence)),
+        db
+          .select()
+          .from(rrwebEvents)
+          .where(
+            and(
+              eq(rrwebEvents.replayId, replayId),
+              gte(rrwebEvents.timestamp, from),
+              lt(rrwebEvents.timestamp, end)
+            )
+          )
+          .orderBy(rrwebEvents.timestamp),
+      ]);
+
+      // Live events are merged in before the first chunk ending after them
+      let live = rows.map(toReplayEvent);
+      const seen = new Set<string>();
+      let meta: ReplayEvent | null = null;
+
+      const window = function* (events: ReplayEvent[]) {
+        for (const event of mergeReplayEvents(events)) {
+          if (seen.has(event.eventId)) continue;
+          seen.add(event.eventId);
+
+          const time = Date.parse(event.timestamp);
+          if (time >= end.getTime()) continue;
+          if (time < start.getTime()) {
+            if (withMeta && event.rrwebPayload.type === META) meta = event;
+            continue;
+          }
+
+          if (meta) {
+            yield meta;
+            meta = null;
+          }
+          yield event;
+        }
+      };
+
+      for (const chunk of chunks) {
+        const result = await db
+          .select({ data: replayChunks.data })
+          .from(replayChunks)
+          .where(
+            and(
+              eq(replayChunks.replayId, replayId),
+              eq(replayChunks.sequence, chunk.sequence)
+            )
+          )
+          .limit(1);
+        if (!result[0]) continue; // removed since listed
+
+        const chunkEnd = chunk.endTime.getTime();
+        const before = live.filter(
+          (event) => Date.parse(event.timestamp) <= chunkEnd
+        );
+        live = live.slice(before.length);
+
+        yield* window([...readReplayChunk(result[0].data), ...before]);
+      }
+
+      yield* window(live);
+    } catch (error) {
+      console.error("Error streaming replay events:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the events of a replay in [start, end), compacted and live
+   * (see streamReplayEvents)
+   */
+  async getReplayEventsInRange(
+    replayId: string,
+    start: Date,
+    end: Date,
+    withMeta = false
+  ): Promise<ReplayEvent[]> {
+    const events: ReplayEvent[] = [];
+    for await (const event of this.streamReplayEvents(
+      replayId,
+      start,
+      end,
+      withMeta
+    )) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Get every event of a replay, compacted and live, in time order
+   */
+  async getReplayEvents(replayId: string): Promise<ReplayEvent[]> {
+    return this.getReplayEventsInRange(
+      replayId,
+      new Date(0),
+      new Date(MAX_TIME_MS)
+    );
+  }
+
+  /**
+   * Get the manifests of the replays of a session, oldest first
+   */
+  async getReplayManifestsBySession(
+    sessionId: string
+  ): Promise<ReplayManifest[]> {
+    try {
+      return await this.getReplayManifests(sql`session_id = ${sessionId}`);
+    } catch (error) {
+      console.error("Error getting replay manifests by session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the manifest of a replay
+   * Returns null if the replay has no events
+   */
+  async getReplayManifest(replayId: string): Promise<ReplayManifest | null> {
+    try {
+      const manifests = await this.getReplayManifests(
+        sql`replay_id = ${replayId}`
+      );
+      return manifests[0] ?? null;
+    } catch (error) {
+      console.error("Error getting replay manifest:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Manifests of the replays matching a condition (on replay_id or session_id)
+   * Replays are in replay_manifests once compacted, in rrweb_events while
+   * live, or in both when events arrived after a compaction
+   */
+  private async getReplayManifests(where: SQL): Promise<ReplayManifest[]> {
+    const result = await db.execute(sql`
+      WITH live AS (
+        SELECT
+          replay_id,
+          MIN(session_id) AS session_id,
+          MIN(client_id) AS client_id,
+          (array_agg(user_id ORDER BY timestamp DESC)
+            FILTER (WHERE user_id IS NOT NULL))[1] AS user_id,
+          (array_agg(url ORDER BY timestamp))[1] AS url,
+          COUNT(*) AS event_count,
+          MIN(timestamp) AS start_time,
+          MAX(timestamp) AS end_time
+        FROM rrweb_events
+        WHERE ${where}
+        GROUP BY replay_id
+      ),
+      stored AS (
+        SELECT *
+        FROM replay_manifests
+        WHERE ${where}
+      )
+      SELECT
+        COALESCE(s.replay_id, l.replay_id) AS replay_id,
+        COALESCE(s.session_id, l.session_id) AS session_id,
+        COALESCE(s.client_id, l.client_id) AS client_id,
+        COALESCE(l.user_id, s.user_id) AS user_id,
+        COALESCE(s.url, l.url) AS url,
+        s.event_count AS stored_event_count,
+        s.start_time AS stored_start_time,
+        s.end_time AS stored_end_time,
+        l.event_count AS live_event_count,
+        l.start_time AS live_start_time,
+        l.end_time AS live_end_time
+      FROM stored s
+      FULL OUTER JOIN live l ON l.replay_id = s.replay_id
+      ORDER BY LEAST(s.start_time, l.start_time), 1
+    `);
+
+    const rows = (result.rows || []) as any[];
+    if (rows.length === 0) return [];
+
+    const chunks = await db
+      .select({
+        replayId: replayChunks.replayId,
+        sequence: replayChunks.sequence,
+        startTime: replayChunks.startTime,
+        endTime: replayChunks.endTime,
+        eventCount: replayChunks.eventCount,
+        fullSnapshotAt: replayChunks.fullSnapshotAt,
+      })
+      .from(replayChunks)
+      .where(
+        inArray(
+          replayChunks.replayId,
+          rows.map((row) => String(row.replay_id))
+        )
+      )
+      .orderBy(asc(replayChunks.replayId), asc(replayChunks.sequence));
+
+    return rows.map((row) => {
+      const replayId = String(row.replay_id);
+      const times = [
+        row.stored_start_time,
+        row.stored_end_time,
+        row.live_start_time,
+        row.live_end_time,
+      ]
+        .filter((time) => time !== null)
+        .map((time) => new Date(time).getTime());
+
+      return {
+        replayId,
+        sessionId: String(row.session_id),
+        clientId: String(row.client_id),
+        userId: row.user_id === null ? null : String(row.user_id),
+        url: String(row.url),
+        eventCount:
+          Number(row.stored_event_count ?? 0) +
+          Number(row.live_event_count ?? 0),
+        startTime: new Date(Math.min(...times)),
+        endTime: new Date(Math.max(...times)),
+        chunks: chunks
+          .filter((chunk) => chunk.replayId === replayId)
+          .map(({ replayId: _, ...chunk }) => chunk),
+        live:
+          row.live_event_count === null
+            ? null
+            : {
+                eventCount: Number(row.live_event_count),
+                startTime: new Date(row.live_start_time),
+                endTime: new Date(row.live_end_time),
+              },
+      };
+    });
+  }
+
+  /**
+   * Get a compacted chunk of a replay (gzip-compressed JSON)
+   * Returns null if it does not exist
+   */
+  async getReplayChunk(replayId: string, sequence: number) {
+    try {
+      const result = await db
+        .select()
+        .from(replayChunks)
+        .where(
+          and(
+            eq(replayChunks.replayId, replayId),
+            eq(replayChunks.sequence, sequence)
+          )
+        )
+        .limit(1);
+
+      return result[0] ?? null;
+    } catch (error) {
+      console.error("Error getting replay chunk:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find replays that are ready for compaction
+   * A replay is ready once it has been idle for idleMinutes and its heatmap
+   * was aggregated, or it is older than the aggregation lookback (never
+   * aggregated). Late events of a compacted replay are compacted the same way
+   *
+   * @param idleMinutes - Minutes without new rrweb events
+   * @param lookbackDays - Heatmap aggregation lookback
+   * @param limit - Maximum number of replays
+   */
+  async getReplaysPendingCompaction(
+    idleMinutes: number,
+    lookbackDays: number,
+    limit: number
+  ): Promise<string[]> {
+    try {
+      const result = await db.execute(sql`
+        SELECT r.replay_id
+        FROM rrweb_events r
+        LEFT JOIN heatmap_aggregated_replays a
+          ON a.replay_id = r.replay_id
+        GROUP BY r.replay_id
+        HAVING MAX(r.timestamp) < NOW() - make_interval(mins => ${idleMinutes})
+          AND (
+            COUNT(a.replay_id) > 0
+            OR MAX(r.timestamp) < NOW() - make_interval(days => ${lookbackDays})
+          )
+        ORDER BY MAX(r.timestamp)
+        LIMIT ${limit}
+      `);
+
+      return (result.rows || []).map((row: any) => String(row.replay_id));
+    } catch (error) {
+      console.error("Error getting replays pending compaction:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the chunks of a replay and delete the rrweb rows they were built from
+   * Runs in one transaction: chunks are appended after the existing ones and
+   * the manifest totals updated
+   *
+   * @param replay - The replay, with its first page (for a new manifest)
+   * @param chunks - Chunks built from the rows
+   * @param rowIds - rrweb_events rows compacted into the chunks
+   */
+  async saveReplayChunks(
+    replay: {
+      replayId: string;
+      sessionId: string;
+      projectId: string;
+      clientId: string;
+      userId: string | null;
+      url: string;
+    },
+    chunks: ReplayChunk[],
+    rowIds: string[]
+  ): Promise<void> {
+    if (chunks.length === 0) return;
+
+    try {
+      await db.transaction(async (tx) => {
+        const existing = await tx
+          .select({ chunkCount: replayManifests.chunkCount })
+          .from(replayManifests)
+          .where(eq(replayManifests.replayId, replay.replayId))
+          .for("update");
+        const firstSequence = existing[0]?.chunkCount ?? 0;
+
+        await tx.insert(replayChunks).values(
+          chunks.map((chunk, index) => ({
+            replayId: replay.replayId,
+            sequence: firstSequence + index,
+            ...chunk,
+          }))
+        );
+
+        const sum = (key: "eventCount" | "rawBytes" | "compressedBytes") =>
+          chunks.reduce((total, chunk) => total + chunk[key], 0);
+        const startTime = new Date(
+          Math.min(...chunks.map((chunk) => chunk.startTime.getTime()))
+        );
+        const endTime = new Date(
+          Math.max(...chunks.map((chunk) => chunk.endTime.getTime()))
+        );
+
+        await tx
+          .insert(replayManifests)
+          .values({
+            ...replay,
+            startTime,
+            endTime,
+            eventCount: sum("eventCount"),
+            chunkCount: chunks.length,
+            rawBytes: sum("rawBytes"),
+            compressedBytes: sum("compressedBytes"),
+          })
+          .onConflictDoUpdate({
+            target: replayManifests.replayId,
+            set: {
+              userId: sql`COALESCE(excluded.user_id, ${replayManifests.userId})`,
+              startTime: sql`LEAST(${replayManifests.startTime}, excluded.start_time)`,
+              endTime: sql`GREATEST(${replayManifests.endTime}, excluded.end_time)`,
+              eventCount: sql`${replayManifests.eventCount} + excluded.event_count`,
+              chunkCount: sql`${replayManifests.chunkCount} + excluded.chunk_count`,
+              rawBytes: sql`${replayManifests.rawBytes} + excluded.raw_bytes`,
+              compressedBytes: sql`${replayManifests.compressedBytes} + excluded.compressed_bytes`,
+              updatedAt: sql`NOW()`,
+            },
+          });
+
+        for (let i = 0; i < rowIds.length; i += RRWEB_DELETE_CHUNK) {
+          await tx
+            .delete(rrwebEvents)
+            .where(
+              inArray(rrwebEvents.id, rowIds.slice(i, i + RRWEB_DELETE_CHUNK))
+            );
+        }
+      });
+    } catch (error) {
+      console.error("Error saving replay chunks:", error);
+      throw error;
+    }
+  }
+
   /**
    * Count rrweb events for a session
    */
@@ -1,14 +1,65 @@
 import { db } from "../db/client";
-import { sessions, events, heatmapClicks } from "../db/schema";
-import { eq, count, min, max } from "drizzle-orm";
+import { sessions } from "../db/schema";
+import { eq, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { eventRepository } from "./EventRepository";
 import { withErrorHandling } from "./BaseRepository";
+import type { SessionSort } from "../schemas/sessions";
+import type { Attribution } from "../utils/attribution";
+
+export type SessionSearchFilters = {
+  startDate?: string;
+  endDate?: string;
+  country?: string;
+  device?: string;
+  userId?: string;
+  clientId?: string;
+  url?: string;
+  event?: string;
+  minDurationMs?: number;
+  hasRageClicks?: boolean;
+  hasErrors?: boolean;
+};
+
+/**
+ * Session metadata, as sent by the event processors
+ */
+export type SessionUpsert = {
+  sessionId: string;
+  projectId: string;
+  clientId: string;
+  userId: string | null;
+  location?: string;
+  device?: string | null;
+  attribution?: Attribution;
+};
+
+/**
+ * ON CONFLICT value of an attribution column: the incoming one only on
+ * sessions that do not have a first touch yet
+ */
+function keepFirstTouch(column: AnyPgColumn): SQL {
+  return sql`CASE WHEN ${sessions.channel} IS NULL THEN excluded.${sql.identifier(column.name)} ELSE ${column} END`;
+}
+
+// Sort key of each sort order (descending), on the matched sessions
+const SORT_KEYS: Record<SessionSort, SQL> = {
+  recent: sql`EXTRACT(EPOCH FROM created_at) * 1000`,
+  duration: sql`EXTRACT(EPOCH FROM (updated_at - created_at)) * 1000`,
+  events: sql`events_count`,
+};
+
+// Events of session s: counted on every matched session only when sorting by
+// it, otherwise on the returned page alone
+const EVENTS_COUNT_SQL = sql`(SELECT COUNT(*) FROM events e WHERE e.session_id = s.id)`;
 
 export class SessionRepository {
   /**
    * Upsert a session - create or update if exists
    * Idempotent operation safe for retries
    * Updates location and device on each upsert (to track latest activity)
+   * Attribution is first-touch: stored from the first event, and only filled
+   * in later on sessions that do not have one yet
    */
   async upsertSession({
     sessionId,
@@ -17,14 +68,8 @@ export class SessionRepository {
     userId,
     location = "ET",
     device,
-  }: {
-    sessionId: string;
-    projectId: string;
-    clientId: string;
-    userId: string | null;
-    location?: string;
-    device?: string | null;
-  }) {
+    attribution,
+  }: SessionUpsert) {
     return withErrorHandling("SessionRepository.upsertSession", async () => {
       const existing = await db
         .select()
@@ -45,6 +90,11 @@ export class SessionRepository {
           updateData.device = device;
         }
 
+        // Keep the first touch
+        if (attribution && !existing[0].channel) {
+          Object.assign(updateData, attribution);
+        }
+
         await db
           .update(sessions)
           .set(updateData)
@@ -62,6 +112,7 @@ export class SessionRepository {
             userId,
             location,
             device: device || null,
+            ...attribution,
           })
           .returning();
 
@@ -70,6 +121,49 @@ export class SessionRepository {
     });
   }
 
+  /**
+   * Upsert a batch of sessions in one multi-row INSERT ... ON CONFLICT
+   * Same semantics as upsertSession; each session must appear once
+   * Rows are written in id order so concurrent batches lock sessions in the same order
+   */
+  async upsertSessions(rows: SessionUpsert[]): Promise<void> {
+    return withErrorHandling("SessionRepository.upsertSessions", async () => {
+      if (rows.length === 0) return;
+
+      await db
+        .insert(sessions)
+        .values(
+          [...rows]
+            .sort((a, b) => a.sessionId.localeCompare(b.sessionId))
+            .map((row) => ({
+              id: row.sessionId,
+              projectId: row.projectId,
+              clientId: row.clientId,
+              userId: row.userId,
+              location: row.location || "ET",
+              device: row.device || null,
+              ...row.attribution,
+            }))
+        )
+        .onConflictDoUpdate({
+          target: sessions.id,
+          set: {
+            userId: sql`excluded.user_id`,
+            location: sql`excluded.location`,
+            device: sql`COALESCE(excluded.device, ${sessions.device})`,
+            updatedAt: sql`NOW()`,
+            channel: keepFirstTouch(sessions.channel),
+            source: keepFirstTouch(sessions.source),
+            medium: keepFirstTouch(sessions.medium),
+            campaign: keepFirstTouch(sessions.campaign),
+            term: keepFirstTouch(sessions.term),
+            content: keepFirstTouch(sessions.content),
+            referrerDomain: keepFirstTouch(sessions.referrerDomain),
+          },
+        });
+    });
+  }
+
   /**
    * Get session by ID
    */
@@ -101,61 +195,225 @@ export class SessionRepository {
   }
 
   /**
-   * Get sessions with stats for a project
-   * Includes event counts and rage clicks
-   * Rage clicks = per-user sequences of ≥5 clicks on same URL within 500ms windows
+   * Search a project's sessions, one page at a time
+   * Includes event counts, rage clicks, dead clicks and error clicks
+   * Rage clicks = per-user sequences of ≥minClicks clicks on same URL within thresholdMs windows
+   * Dead clicks = clicks with no response before deadThresholdMs
+   * Error clicks = clicks followed by an error within errorWindowMs
+   * Anonymous sessions of an identified clientId get the aliased userId,
+   * and the userId filter matches them as well
+   *
+   * Pagination is keyset-based on (sort value, id), newest/longest/busiest first:
+   * pass the returned nextCursor to get the following page
+   *
+   * @param projectId - Project identifier
+   * @param filters - Session filters (all optional, combined with AND)
+   * @param thresholds - Click detection thresholds
+   * @param page.sort - recent (start time), duration or events (event count)
+   * @param page.cursor - Position of the last session of the previous page
+   * @param page.limit - Maximum number of sessions
    */
-  async getSessionsWithStats(projectId: string) {
-    return withErrorHandling(
-      "SessionRepository.getSessionsWithStats",
-      async () => {
-        // Get all sessions for the project
-        const projectSessions = await db
-          .select()
-          .from(sessions)
-          .where(eq(sessions.projectId, projectId));
+  async searchSessions(
+    projectId: string,
+    filters: SessionSearchFilters,
+    {
+      minClicks = 3,
+      thresholdMs = 600,
+      deadThresholdMs = 1000,
+      errorWindowMs = 1000,
+    }: {
+      minClicks?: number;
+      thresholdMs?: number;
+      deadThresholdMs?: number;
+      errorWindowMs?: number;
+    },
+    {
+      sort,
+      cursor,
+      limit,
+    }: {
+      sort: SessionSort;
+      cursor?: { value: string; id: string };
+      limit: number;
+    }
+  ) {
+    return withErrorHandling("SessionRepository.searchSessions", async () => {
+      const conditions = [sql`s.project_id = ${projectId}`];
 
-        if (projectSessions.length === 0) {
-          return [];
-        }
+      if (filters.startDate) {
+        conditions.push(
+          sql`DATE(s.created_at AT TIME ZONE 'UTC') >= ${filters.startDate}::date`
+        );
+      }
+      if (filters.endDate) {
+        conditions.push(
+          sql`DATE(s.created_at AT TIME ZONE 'UTC') <= ${filters.endDate}::date`
+        );
+      }
+      if (filters.country) {
+        conditions.push(sql`UPPER(s.location) = UPPER(${filters.country})`);
+      }
+      if (filters.device) {
+        conditions.push(sql`LOWER(s.device) = LOWER(${filters.device})`);
+      }
+      if (filters.userId) {
+        conditions.push(sql`COALESCE(s.user_id, al.user_id) = ${filters.userId}`);
+      }
+      if (filters.clientId) {
+        conditions.push(sql`s.client_id = ${filters.clientId}`);
+      }
+      if (filters.url) {
+        conditions.push(sql`EXISTS (
+          SELECT 1 FROM events e
+          WHERE e.session_id = s.id
+            AND e.type IN ('pageview', 'route')
+            AND strpos(e.url, ${filters.url}) > 0
+        )`);
+      }
+      if (filters.event) {
+        conditions.push(sql`EXISTS (
+          SELECT 1 FROM events e
+          WHERE e.session_id = s.id
+            AND e.type = 'custom'
+            AND e.event_name = ${filters.event}
+        )`);
+      }
+      if (filters.minDurationMs !== undefined) {
+        conditions.push(
+          sql`s.updated_at - s.created_at >= ${filters.minDurationMs} * INTERVAL '1 millisecond'`
+        );
+      }
+      if (filters.hasRageClicks !== undefined) {
+        const rage = this.rageClicksExistSql(minClicks, thresholdMs);
+        conditions.push(filters.hasRageClicks ? rage : sql`NOT ${rage}`);
+      }
+      if (filters.hasErrors !== undefined) {
+        const errors = sql`EXISTS (
+          SELECT 1 FROM error_events ee WHERE ee.session_id = s.id
+        )`;
+        conditions.push(filters.hasErrors ? errors : sql`NOT ${errors}`);
+      }
 
-        // Get event counts per session (from generic events table)
-        const eventCounts = await db
-          .select({
-            sessionId: events.sessionId,
-            count: count(),
-          })
-          .from(events)
-          .where(eq(events.projectId, projectId))
-          .groupBy(events.sessionId);
+      const countsBeforeLimit = sort === "events";
+
+      const result = await db.execute(sql`
+        WITH matched AS (
+          SELECT
+            s.id,
+            s.project_id,
+            s.client_id,
+            COALESCE(s.user_id, al.user_id) AS user_id,
+            s.location,
+            s.device,
+            s.created_at,
+            s.updated_at
+            ${countsBeforeLimit ? sql`, ${EVENTS_COUNT_SQL} AS events_count` : sql``}
+          FROM sessions s
+          LEFT JOIN user_aliases al
+            ON al.project_id = s.project_id
+            AND al.alias_id = s.client_id
+          WHERE ${sql.join(conditions, sql` AND `)}
+        ),
+        keyed AS (
+          SELECT *, (${SORT_KEYS[sort]})::numeric AS sort_value
+          FROM matched
+        ),
+        page AS (
+          SELECT * FROM keyed
+          ${
+            cursor
+              ? sql`WHERE (sort_value, id) < (${cursor.value}::numeric, ${cursor.id})`
+              : sql``
+          }
+          ORDER BY sort_value DESC, id DESC
+          LIMIT ${limit + 1}
+        )
+        SELECT
+          s.*
+          ${countsBeforeLimit ? sql`` : sql`, ${EVENTS_COUNT_SQL} AS events_count`}
+        FROM page s
+        ORDER BY s.sort_value DESC, s.id DESC
+      `);
 
-        const eventCountMap = new Map(
-          eventCounts.map((e) => [e.sessionId, e.count])
+      const rows: any[] = result.rows || [];
+      const hasMore = rows.length > limit;
+      const page = rows.slice(0, limit);
+
+      const sessionIds = page.map((row) => String(row.id));
+      const rageClickCounts =
+        await eventRepository.getRageClickCountsBySessionIds(
+          sessionIds,
+          minClicks,
+          thresholdMs
+        );
+      const deadClickCounts =
+        await eventRepository.getDeadClickCountsBySessionIds(
+          sessionIds,
+          deadThresholdMs
+        );
+      const errorClickCounts =
+        await eventRepository.getErrorClickCountsBySessionIds(
+          sessionIds,
+          errorWindowMs
         );
 
-        // Get rage click counts per session using window function analysis
-        const rageClickCounts = new Map<string, number>();
-
-        for (const session of projectSessions) {
-          const rageClickCount =
-            await eventRepository.getRageClickCountBySession(
-              session.id,
-              3,
-              600 // ms threshold
-            );
-          if (rageClickCount > 0) {
-            rageClickCounts.set(session.id, rageClickCount);
-          }
-        }
+      const last = page[page.length - 1];
 
-        // Enrich sessions with stats
-        return projectSessions.map((session) => ({
-          ...session,
-          eventsCount: eventCountMap.get(session.id) || 0,
-          rageClicks: rageClickCounts.get(session.id) || 0,
-        }));
-      }
-    );
+      return {
+        sessions: page.map((row) => ({
+          id: String(row.id),
+          projectId: String(row.project_id),
+          clientId: String(row.client_id),
+          userId: row.user_id ? String(row.user_id) : null,
+          location: String(row.location),
+          device: row.device ? String(row.device) : null,
+          createdAt: new Date(row.created_at),
+          updatedAt: new Date(row.updated_at),
+          eventsCount: Number(row.events_count),
+          rageClicks: rageClickCounts.get(String(row.id)) || 0,
+          deadClicks: deadClickCounts.get(String(row.id)) || 0,
+          errorClicks: errorClickCounts.get(String(row.id)) || 0,
+        })),
+        nextCursor:
+          hasMore && last
+            ? { value: String(last.sort_value), id: String(last.id) }
+            : null,
+      };
+    });
+  }
+
+  /**
+   * EXISTS condition: session s has at least one rage click sequence
+   * (same detection as EventRepository.getRageClickCountBySession)
+   */
+  private rageClicksExistSql(minClicks: number, thresholdMs: number): SQL {
+    return sql`EXISTS (
+      SELECT 1
+      FROM (
+        SELECT
+          client_id,
+          url,
+          SUM(
+            CASE WHEN diff_ms IS NULL OR diff_ms > ${thresholdMs} THEN 1 ELSE 0 END
+          ) OVER (PARTITION BY client_id, url ORDER BY timestamp) AS sequence_id
+        FROM (
+          SELECT
+            client_id,
+            url,
+            timestamp,
+            EXTRACT(EPOCH FROM (
+              timestamp - LAG(timestamp) OVER (
+                PARTITION BY client_id, url
+                ORDER BY timestamp
+              )
+            )) * 1000 AS diff_ms
+          FROM events
+          WHERE type = 'click' AND session_id = s.id
+        ) ordered_clicks
+      ) click_groups
+      GROUP BY client_id, url, sequence_id
+      HAVING COUNT(*) >= ${minClicks}
+    )`;
   }
 }
 
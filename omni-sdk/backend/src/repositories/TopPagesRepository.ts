@@ -5,8 +5,44 @@ import { withErrorHandling } from "./BaseRepository";
 /**
  * Top Pages Analytics Repository
  * Session-based page view analytics with time-on-page calculations
+ *
+ * Entry and exit pages come from each session's pageviews in the date range,
+ * in timestamp order: the entry page is the first, the exit page the last
  */
 export class TopPagesRepository {
+  /**
+   * CTE session_pageviews(session_id, path, position, session_pageviews):
+   * pageviews with their position in the session and the session's pageview count
+   */
+  private sessionPageviewsCte(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ) {
+    return sql`
+      session_pageviews AS (
+        SELECT
+          session_id,
+          split_part(
+            regexp_replace(url, '^https?://[^/]+', ''),
+            '?',
+            1
+          ) AS path,
+          ROW_NUMBER() OVER (
+            PARTITION BY session_id
+            ORDER BY timestamp, id
+          ) AS position,
+          COUNT(*) OVER (PARTITION BY session_id) AS session_pageviews
+        FROM events
+        WHERE project_id = ${projectId}
+          AND type = 'pageview'
+          AND DATE(timestamp AT TIME ZONE ${timezone}) >= ${startDate}::date
+          AND DATE(timestamp AT TIME ZONE ${timezone}) <= ${endDate}::date
+      )
+    `;
+  }
+
   /**
    * Get top visited pages with average time-on-page
    *
@@ -23,12 +59,14 @@ export class TopPagesRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    * @param limit - Max pages to return (default 10)
    */
   async getTopPages(
     projectId: string,
     startDate: string,
     endDate: string,
+    timezone: string,
     limit: number = 10
   ): Promise<
     Array<{
@@ -55,8 +93,8 @@ export class TopPagesRepository {
           FROM events
           WHERE project_id = ${projectId}
             AND type = 'pageview'
-            AND DATE(timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
-            AND DATE(timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+            AND DATE(timestamp AT TIME ZONE ${timezone}) >= ${startDate}::date
+            AND DATE(timestamp AT TIME ZONE ${timezone}) <= ${endDate}::date
         ),
         page_stats AS (
           SELECT
@@ -83,6 +121,84 @@ export class TopPagesRepository {
       }));
     });
   }
+
+  /**
+   * Get the pages sessions start on most often
+   * A bounce is a session with no other pageview
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
+   * @param limit - Max pages to return
+   */
+  async getEntryPages(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string,
+    limit: number
+  ): Promise<Array<{ path: string; entries: number; bounces: number }>> {
+    return withErrorHandling("TopPagesRepository.getEntryPages", async () => {
+      const result = await db.execute(sql`
+        WITH ${this.sessionPageviewsCte(projectId, startDate, endDate, timezone)}
+        SELECT
+          path,
+          COUNT(*) AS entries,
+          COUNT(*) FILTER (WHERE session_pageviews = 1) AS bounces
+        FROM session_pageviews
+        WHERE position = 1
+        GROUP BY path
+        ORDER BY entries DESC, path ASC
+        LIMIT ${limit}
+      `);
+
+      return (result.rows || []).map((row: any) => ({
+        path: String(row.path),
+        entries: Number(row.entries),
+        bounces: Number(row.bounces),
+      }));
+    });
+  }
+
+  /**
+   * Get the pages sessions end on most often, with the page's views
+   * so the exit rate (exits / views) can be derived
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
+   * @param limit - Max pages to return
+   */
+  async getExitPages(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string,
+    limit: number
+  ): Promise<Array<{ path: string; exits: number; views: number }>> {
+    return withErrorHandling("TopPagesRepository.getExitPages", async () => {
+      const result = await db.execute(sql`
+        WITH ${this.sessionPageviewsCte(projectId, startDate, endDate, timezone)}
+        SELECT
+          path,
+          COUNT(*) FILTER (WHERE position = session_pageviews) AS exits,
+          COUNT(*) AS views
+        FROM session_pageviews
+        GROUP BY path
+        HAVING COUNT(*) FILTER (WHERE position = session_pageviews) > 0
+        ORDER BY exits DESC, path ASC
+        LIMIT ${limit}
+      `);
+
+      return (result.rows || []).map((row: any) => ({
+        path: String(row.path),
+        exits: Number(row.exits),
+        views: Number(row.views),
+      }));
+    });
+  }
 }
 
 export const topPagesRepository = new TopPagesRepository();
@@ -1,5 +1,5 @@
 import { db } from "../db/client";
-import { sql } from "drizzle-orm";
+import { sql, type SQL } from "drizzle-orm";
 import { withErrorHandling } from "./BaseRepository";
 
 /**
@@ -12,8 +12,49 @@ import { withErrorHandling } from "./BaseRepository";
  * - Avg session time (duration in seconds)
  * - Total clicks (events where type = 'click')
  * - User demographics (country distribution)
+ *
+ * Days are calendar days in the requested IANA timezone
  */
 export class TrafficAnalyticsRepository {
+  /**
+   * Subquery of (distinct_id, activity_date) with activity dates in a timezone,
+   * from the UTC-day user_daily_activity accelerator
+   *
+   * A UTC day overlaps at most two local days, the local dates of its first
+   * and last activity. Local dates in [startDate, endDate] come from UTC days
+   * in [startDate - 1, endDate + 1]
+   */
+  private localActivity(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): SQL {
+    const utcDays = sql`
+      FROM user_daily_activity
+      WHERE project_id = ${projectId}
+      AND activity_date >= ${startDate}::date - 1
+      AND activity_date <= ${endDate}::date + 1
+    `;
+
+    return sql`
+      SELECT distinct_id, activity_date
+      FROM (
+        SELECT
+          distinct_id,
+          DATE(first_activity_at AT TIME ZONE ${timezone}) AS activity_date
+        ${utcDays}
+        UNION
+        SELECT
+          distinct_id,
+          DATE(last_activity_at AT TIME ZONE ${timezone}) AS activity_date
+        ${utcDays}
+      ) local_days
+      WHERE activity_date >= ${startDate}::date
+      AND activity_date <= ${endDate}::date
+    `;
+  }
+
   /**
    * Get daily unique user counts for visitor growth chart
    * One row per day with count of distinct users
@@ -21,11 +62,13 @@ export class TrafficAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getVisitorGrowth(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<Array<{ date: string; value: number }>> {
     return withErrorHandling(
       "TrafficAnalyticsRepository.getVisitorGrowth",
@@ -34,10 +77,9 @@ export class TrafficAnalyticsRepository {
         SELECT 
           activity_date::text as date,
           COUNT(DISTINCT distinct_id) as value
-        FROM user_daily_activity
-        WHERE project_id = ${projectId}
-        AND activity_date >= ${startDate}::date
-        AND activity_date <= ${endDate}::date
+        FROM (
+          ${this.localActivity(projectId, startDate, endDate, timezone)}
+        ) activity
         GROUP BY activity_date
         ORDER BY activity_date ASC
       `);
@@ -56,21 +98,22 @@ export class TrafficAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getActiveUserCount(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<number> {
     return withErrorHandling(
       "TrafficAnalyticsRepository.getActiveUserCount",
       async () => {
         const result = await db.execute(sql`
         SELECT COUNT(DISTINCT distinct_id) as count
-        FROM user_daily_activity
-        WHERE project_id = ${projectId}
-        AND activity_date >= ${startDate}::date
-        AND activity_date <= ${endDate}::date
+        FROM (
+          ${this.localActivity(projectId, startDate, endDate, timezone)}
+        ) activity
       `);
 
         return Number(result.rows[0]?.count || 0);
@@ -85,11 +128,13 @@ export class TrafficAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getAvgSessionTime(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<number> {
     return withErrorHandling(
       "TrafficAnalyticsRepository.getAvgSessionTime",
@@ -100,8 +145,8 @@ export class TrafficAnalyticsRepository {
         ) as avg_duration_seconds
         FROM sessions
         WHERE project_id = ${projectId}
-        AND DATE(created_at AT TIME ZONE 'UTC') >= ${startDate}::date
-        AND DATE(created_at AT TIME ZONE 'UTC') <= ${endDate}::date
+        AND DATE(created_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+        AND DATE(created_at AT TIME ZONE ${timezone}) <= ${endDate}::date
       `);
 
         return Number(result.rows[0]?.avg_duration_seconds || 0);
@@ -115,11 +160,13 @@ export class TrafficAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getTotalClickCount(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<number> {
     return withErrorHandling(
       "TrafficAnalyticsRepository.getTotalClickCount",
@@ -129,8 +176,8 @@ export class TrafficAnalyticsRepository {
         FROM events
         WHERE project_id = ${projectId}
         AND type = 'click'
-        AND DATE(timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
-        AND DATE(timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+        AND DATE(timestamp AT TIME ZONE ${timezone}) >= ${startDate}::date
+        AND DATE(timestamp AT TIME ZONE ${timezone}) <= ${endDate}::date
       `);
 
         return Number(result.rows[0]?.count || 0);
@@ -145,11 +192,13 @@ export class TrafficAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date. Users with first_seen_at on or after this date.
    * @param endDate - ISO date. Users with first_seen_at on or before this date.
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getUserDemographicsByCountry(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<Array<{ country: string; percentage: number }>> {
     return withErrorHandling(
       "TrafficAnalyticsRepository.getUserDemographicsByCountry",
@@ -161,8 +210,8 @@ export class TrafficAnalyticsRepository {
               COUNT(*) as count
             FROM users
             WHERE project_id = ${projectId}
-            AND DATE(first_seen_at AT TIME ZONE 'UTC') >= ${startDate}::date
-            AND DATE(first_seen_at AT TIME ZONE 'UTC') <= ${endDate}::date
+            AND DATE(first_seen_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+            AND DATE(first_seen_at AT TIME ZONE ${timezone}) <= ${endDate}::date
             GROUP BY country
           ),
           total AS (
@@ -197,11 +246,13 @@ export class TrafficAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - ISO date (YYYY-MM-DD)
    * @param endDate - ISO date (YYYY-MM-DD)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getDeviceDistribution(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<
     Array<{
       device: string;
@@ -219,8 +270,8 @@ export class TrafficAnalyticsRepository {
               COUNT(*) as session_count
             FROM sessions
             WHERE project_id = ${projectId}
-            AND DATE(created_at AT TIME ZONE 'UTC') >= ${startDate}::date
-            AND DATE(created_at AT TIME ZONE 'UTC') <= ${endDate}::date
+            AND DATE(created_at AT TIME ZONE ${timezone}) >= ${startDate}::date
+            AND DATE(created_at AT TIME ZONE ${timezone}) <= ${endDate}::date
             AND device IS NOT NULL
             GROUP BY device
           ),
@@ -302,11 +353,13 @@ export class TrafficAnalyticsRepository {
    * @param projectId - Project identifier
    * @param startDate - Current period start (ISO date)
    * @param endDate - Current period end (ISO date)
+   * @param timezone - IANA timezone days are bucketed in
    */
   async getTrafficAnalytics(
     projectId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timezone: string
   ): Promise<{
     range: { start: string; end: string };
     comparison: { start: string; end: string };
@@ -335,14 +388,34 @@ export class TrafficAnalyticsRepository {
           visitorGrowth,
           countries,
         ] = await Promise.all([
-          this.getActiveUserCount(projectId, startDate, endDate),
-          this.getActiveUserCount(projectId, prevPeriod.start, prevPeriod.end),
-          this.getAvgSessionTime(projectId, startDate, endDate),
-          this.getAvgSessionTime(projectId, prevPeriod.start, prevPeriod.end),
-          this.getTotalClickCount(projectId, startDate, endDate),
-          this.getTotalClickCount(projectId, prevPeriod.start, prevPeriod.end),
-          this.getVisitorGrowth(projectId, startDate, endDate),
-          this.getUserDemographicsByCountry(projectId, startDate, endDate),
+          this.getActiveUserCount(projectId, startDate, endDate, timezone),
+          this.getActiveUserCount(
+            projectId,
+            prevPeriod.start,
+            prevPeriod.end,
+            timezone
+          ),
+          this.getAvgSessionTime(projectId, startDate, endDate, timezone),
+          this.getAvgSessionTime(
+            projectId,
+            prevPeriod.start,
+            prevPeriod.end,
+            timezone
+          ),
+          this.getTotalClickCount(projectId, startDate, endDate, timezone),
+          this.getTotalClickCount(
+            projectId,
+            prevPeriod.start,
+            prevPeriod.end,
+            timezone
+          ),
+          this.getVisitorGrowth(projectId, startDate, endDate, timezone),
+          this.getUserDemographicsByCountry(
+            projectId,
+            startDate,
+            endDate,
+            timezone
+          ),
         ]);
 
         return {
@@ -10,6 +10,7 @@ import { withErrorHandling } from "./BaseRepository";
  * Purpose:
  * - Track first-seen time for each (projectId, distinctId)
  * - Track daily activity presence for retention queries
+ * - Link anonymous clientIds to identified userIds (identify/alias)
  * - All operations use ON CONFLICT DO NOTHING for idempotency
  */
 export class UserRepository {
@@ -62,39 +63,112 @@ export class UserRepository {
         // Extract date in UTC from timestamp
         // Format: YYYY-MM-DD
         await db.execute(sql`
-          INSERT INTO user_daily_activity (project_id, distinct_id, activity_date, last_activity_at)
+          INSERT INTO user_daily_activity (project_id, distinct_id, activity_date, first_activity_at, last_activity_at)
           VALUES (
             ${projectId},
             ${distinctId},
             DATE(${timestamp} AT TIME ZONE 'UTC'),
+            ${timestamp},
             ${timestamp}
           )
           ON CONFLICT ON CONSTRAINT user_daily_activity_pk DO UPDATE
-          SET last_activity_at = GREATEST(user_daily_activity.last_activity_at, EXCLUDED.last_activity_at)
+          SET first_activity_at = LEAST(user_daily_activity.first_activity_at, EXCLUDED.first_activity_at),
+              last_activity_at = GREATEST(user_daily_activity.last_activity_at, EXCLUDED.last_activity_at)
         `);
       }
     );
   }
 
   /**
-   * Batch upsert user first-seen records (for bulk imports)
+   * Link an anonymous clientId to an identified userId
+   * Idempotent: the first alias of a clientId wins, later ones are ignored
+   * A clientId identifying as itself is not an alias and is skipped
+   *
+   * @param projectId - Project identifier
+   * @param aliasId - Anonymous identity (clientId)
+   * @param userId - Identified user
+   */
+  async upsertAlias(
+    projectId: string,
+    aliasId: string,
+    userId: string
+  ): Promise<void> {
+    return withErrorHandling("UserRepository.upsertAlias", async () => {
+      if (aliasId === userId) return;
+
+      await db.execute(sql`
+        INSERT INTO user_aliases (project_id, alias_id, user_id, created_at)
+        VALUES (${projectId}, ${aliasId}, ${userId}, NOW())
+        ON CONFLICT ON CONSTRAINT user_aliases_project_alias_key DO NOTHING
+      `);
+    });
+  }
+
+  /**
+   * Merge identify() traits into a user record
+   * New keys are added, existing keys are overwritten
+   *
+   * @param projectId - Project identifier
+   * @param distinctId - Identified user (userId)
+   * @param traits - Traits passed to tracker.identify()
+   */
+  async mergeUserTraits(
+    projectId: string,
+    distinctId: string,
+    traits: Record<string, any>
+  ): Promise<void> {
+    return withErrorHandling("UserRepository.mergeUserTraits", async () => {
+      if (Object.keys(traits).length === 0) return;
+
+      await db.execute(sql`
+        UPDATE users
+        SET traits = COALESCE(traits, '{}'::jsonb) || ${JSON.stringify(traits)}::jsonb
+        WHERE project_id = ${projectId}
+        AND distinct_id = ${distinctId}
+      `);
+    });
+  }
+
+  /**
+   * Batch upsert user first-seen records (bulk imports and ingestion batches)
    * More efficient than individual inserts
+   * A user listed more than once is inserted with its earliest record
    *
-   * @param records - Array of { projectId, distinctId, firstSeenAt }
+   * @param records - Array of { projectId, distinctId, firstSeenAt, country? }
    */
   async batchUpsertUserFirstSeen(
-    records: Array<{ projectId: string; distinctId: string; firstSeenAt: Date }>
+    records: Array<{
+      projectId: string;
+      distinctId: string;
+      firstSeenAt: Date;
+      country?: string;
+    }>
   ): Promise<void> {
     return withErrorHandling(
       "UserRepository.batchUpsertUserFirstSeen",
       async () => {
         if (records.length === 0) return;
 
+        const earliest = new Map<string, (typeof records)[number]>();
+        for (const record of records) {
+          const key = `${record.projectId}\u0000${record.distinctId}`;
+          const current = earliest.get(key);
+          if (!current || record.firstSeenAt < current.firstSeenAt) {
+            earliest.set(key, record);
+          }
+        }
+
         // Build VALUES clause dynamically
-        const valuesClauses = records
+        const valuesClauses = Array.from(earliest.values())
           .map(
             (r) =>
-              sql`(${r.projectId}, ${r.distinctId}, ${r.firstSeenAt}, NOW())`
+              sql`(
+                ${r.projectId},
+                ${r.distinctId},
+                ${r.firstSeenAt},
+                ${r.country || null},
+                NOW()
+              )`
           )
           .reduce((acc, clause, idx) => {
             if (idx === 0) return clause;
@@ -102,7 +176,7 @@ export class UserRepository {
           });
 
         await db.execute(sql`
-          INSERT INTO users (project_id, distinct_id, first_seen_at, created_at)
+          INSERT INTO users (project_id, distinct_id, first_seen_at, country, created_at)
           VALUES ${valuesClauses}
           ON CONFLICT ON CONSTRAINT users_project_distinct_id_key DO NOTHING
         `);
@@ -111,8 +185,10 @@ export class UserRepository {
   }
 
   /**
-   * Batch upsert user daily activity records (for bulk imports)
+   * Batch upsert user daily activity records (bulk imports and ingestion batches)
    * More efficient than individual inserts
+   * Records of the same user and UTC day are merged into one row first, as
+   * ON CONFLICT DO UPDATE cannot update a row twice in one statement
    *
    * @param records - Array of { projectId, distinctId, timestamp }
    */
@@ -124,14 +200,47 @@ export class UserRepository {
       async () => {
         if (records.length === 0) return;
 
-        const valuesClauses = records
+        const days = new Map<
+          string,
+          {
+            projectId: string;
+            distinctId: string;
+            firstActivityAt: Date;
+            lastActivityAt: Date;
+          }
+        >();
+        for (const record of records) {
+          const key = [
+            record.projectId,
+            record.distinctId,
+            record.timestamp.toISOString().slice(0, 10),
+          ].join("\u0000");
+          const day = days.get(key);
+          if (!day) {
+            days.set(key, {
+              projectId: record.projectId,
+              distinctId: record.distinctId,
+              firstActivityAt: record.timestamp,
+              lastActivityAt: record.timestamp,
+            });
+          } else if (record.timestamp < day.firstActivityAt) {
+            day.firstActivityAt = record.timestamp;
+          } else if (record.timestamp > day.lastActivityAt) {
+            day.lastActivityAt = record.timestamp;
+          }
+        }
+
+        // Key order, so concurrent batches lock rows in the same order
+        const valuesClauses = Array.from(days.entries())
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
           .map(
-            (r) =>
+            ([, r]) =>
               sql`(
                 ${r.projectId},
                 ${r.distinctId},
-                DATE(${r.timestamp} AT TIME ZONE 'UTC'),
-                ${r.timestamp}
+                DATE(${r.firstActivityAt} AT TIME ZONE 'UTC'),
+                ${r.firstActivityAt},
+                ${r.lastActivityAt}
               )`
           )
           .reduce((acc, clause, idx) => {
@@ -140,10 +249,11 @@ export class UserRepository {
           });
 
         await db.execute(sql`
-          INSERT INTO user_daily_activity (project_id, distinct_id, activity_date, last_activity_at)
+          INSERT INTO user_daily_activity (project_id, distinct_id, activity_date, first_activity_at, last_activity_at)
           VALUES ${valuesClauses}
           ON CONFLICT ON CONSTRAINT user_daily_activity_pk DO UPDATE
-          SET last_activity_at = GREATEST(user_daily_activity.last_activity_at, EXCLUDED.last_activity_at)
+          SET first_activity_at = LEAST(user_daily_activity.first_activity_at, EXCLUDED.first_activity_at),
+              last_activity_at = GREATEST(user_daily_activity.last_activity_at, EXCLUDED.last_activity_at)
         `);
       }
     );
@@ -0,0 +1,160 @@
+import { db } from "../db/client";
+import { webVitals } from "../db/schema";
+import { eq, sql } from "drizzle-orm";
+import { withErrorHandling, withIdempotency } from "./BaseRepository";
+
+/**
+ * Dimensions web vitals can be broken down by, mapped to their column
+ */
+const GROUP_COLUMNS = {
+  url: "path",
+  device: "device",
+  country: "country",
+} as const;
+
+export type WebVitalsGroupBy = keyof typeof GROUP_COLUMNS;
+
+/**
+ * URL path without origin and query string (grouping key for /analytics/vitals)
+ */
+function toPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch (e) {
+    return url.split("?")[0];
+  }
+}
+
+/**
+ * Web Vitals Repository
+ * Stores real-user Core Web Vitals (WebVitalsPlugin) and aggregates them
+ *
+ * Aggregation: p75 per metric (the value Google uses to assess a page),
+ * optionally grouped by URL path, device (screenClass) or country
+ */
+export class WebVitalsRepository {
+  /**
+   * Insert a web vital measurement
+   * Idempotent on eventId (unique constraint)
+   */
+  async insertVital({
+    eventId,
+    projectId,
+    sessionId,
+    clientId,
+    userId,
+    url,
+    metric,
+    value,
+    rating,
+    selector,
+    navigationType,
+    device,
+    country,
+    timestamp,
+  }: {
+    eventId: string;
+    projectId: string;
+    sessionId: string;
+    clientId: string;
+    userId: string | null;
+    url: string;
+    metric: string;
+    value: number;
+    rating: string;
+    selector?: string | null;
+    navigationType?: string;
+    device?: string | null;
+    country?: string | null;
+    timestamp: Date;
+  }) {
+    return withIdempotency(
+      "WebVitalsRepository.insertVital",
+      eventId,
+      () =>
+        db
+          .select()
+          .from(webVitals)
+          .where(eq(webVitals.eventId, eventId))
+          .limit(1),
+      () =>
+        db
+          .insert(webVitals)
+          .values({
+            eventId,
+            projectId,
+            sessionId,
+            clientId,
+            userId,
+            url,
+            path: toPath(url),
+            metric,
+            value,
+            rating,
+            selector: selector ?? null,
+            navigationType: navigationType ?? null,
+            device: device ?? null,
+            country: country ?? null,
+            timestamp,
+          })
+          .returning()
+    );
+  }
+
+  /**
+   * Get p75 and sample count per metric, optionally per group
+   *
+   * @param projectId - Project identifier
+   * @param startDate - ISO date (YYYY-MM-DD)
+   * @param endDate - ISO date (YYYY-MM-DD)
+   * @param groupBy - Optional: break down by url path, device or country
+   * @param metric - Optional: restrict to a single metric
+   * @param path - Optional: restrict to a single URL path
+   */
+  async getP75(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    groupBy?: WebVitalsGroupBy,
+    metric?: string,
+    path?: string
+  ): Promise<
+    Array<{ metric: string; group: string | null; p75: number; samples: number }>
+  > {
+    return withErrorHandling("WebVitalsRepository.getP75", async () => {
+      const groupColumn = groupBy
+        ? sql.raw(GROUP_COLUMNS[groupBy])
+        : sql.raw("NULL::text");
+      const metricFilter = metric ? sql`AND metric = ${metric}` : sql``;
+      const pathFilter = path ? sql`AND path = ${path}` : sql``;
+
+      const result = await db.execute(sql`
+        SELECT
+          metric,
+          ${groupColumn} AS group_key,
+          percentile_cont(0.75) WITHIN GROUP (ORDER BY value) AS p75,
+          COUNT(*) AS samples
+        FROM web_vitals
+        WHERE project_id = ${projectId}
+          AND DATE(timestamp AT TIME ZONE 'UTC') >= ${startDate}::date
+          AND DATE(timestamp AT TIME ZONE 'UTC') <= ${endDate}::date
+          ${metricFilter}
+          ${pathFilter}
+        GROUP BY metric, group_key
+        ORDER BY samples DESC
+      `);
+
+      return (result.rows || []).map((row: any) => ({
+        metric: String(row.metric),
+        group:
+          row.group_key === null || row.group_key === undefined
+            ? null
+            : String(row.group_key),
+        p75: Number(row.p75),
+        samples: Number(row.samples),
+      }));
+    });
+  }
+}
+
+export const webVitalsRepository = new WebVitalsRepository();
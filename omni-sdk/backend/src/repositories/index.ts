@@ -20,3 +20,42 @@ export {
   OverviewAnalyticsRepository,
 } from "./OverviewAnalyticsRepository";
 export { topPagesRepository, TopPagesRepository } from "./TopPagesRepository";
+export {
+  projectKeyRepository,
+  ProjectKeyRepository,
+} from "./ProjectKeyRepository";
+export {
+  customEventRepository,
+  CustomEventRepository,
+} from "./CustomEventRepository";
+export { funnelRepository, FunnelRepository } from "./FunnelRepository";
+export {
+  formAnalyticsRepository,
+  FormAnalyticsRepository,
+} from "./FormAnalyticsRepository";
+export {
+  webVitalsRepository,
+  WebVitalsRepository,
+} from "./WebVitalsRepository";
+export { errorRepository, ErrorRepository } from "./ErrorRepository";
+export {
+  deadClickRepository,
+  DeadClickRepository,
+} from "./DeadClickRepository";
+export {
+  frustrationRepository,
+  FrustrationRepository,
+} from "./FrustrationRepository";
+export {
+  acquisitionRepository,
+  AcquisitionRepository,
+} from "./AcquisitionRepository";
+export { pathsRepository, PathsRepository } from "./PathsRepository";
+export {
+  deadLetterRepository,
+  DeadLetterRepository,
+} from "./DeadLetterRepository";
+export {
+  dataSubjectRepository,
+  DataSubjectRepository,
+} from "./DataSubjectRepository";
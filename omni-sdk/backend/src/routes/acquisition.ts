@@ -0,0 +1,71 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getAcquisitionHandler } from "../handlers";
+import {
+  acquisitionQuerySchema,
+  acquisitionResponseSchema,
+} from "../schemas/acquisition";
+import { z } from "zod";
+
+/**
+ * Create acquisition router
+ */
+export function createAcquisitionRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /acquisition
+   * Returns visitors, bounce rate and conversions per channel, campaign and source
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Get traffic acquisition over a date range: visitors, sessions, bounce rate and conversions per channel (organic_search, social, paid, email, direct, referral), utm_campaign and source. Sessions are attributed to their first touch, parsed from the utm_* parameters, ad click IDs and referrer of their first event. A conversion is a session with the conversionEvent custom event, or with any custom event when it is not given",
+      responses: {
+        200: {
+          description: "Acquisition analytics retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(acquisitionResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", acquisitionQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        timezone: c.req.query("timezone"),
+        conversionEvent: c.req.query("conversionEvent"),
+        limit: c.req.query("limit"),
+      };
+      const result = await getAcquisitionHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
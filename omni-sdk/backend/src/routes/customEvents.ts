@@ -0,0 +1,70 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getCustomEventsHandler } from "../handlers";
+import {
+  customEventsQuerySchema,
+  customEventsResponseSchema,
+} from "../schemas/customEvents";
+import { z } from "zod";
+
+/**
+ * Create custom events router
+ */
+export function createCustomEventsRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /events
+   * Returns counts, unique users and a daily time series per custom event name
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Get custom event analytics (count, unique users, daily series) per event name. Filter by eventName and by property values with properties={json}",
+      responses: {
+        200: {
+          description: "Custom event analytics retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(customEventsResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", customEventsQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        eventName: c.req.query("eventName"),
+        properties: c.req.query("properties"),
+      };
+      const result = await getCustomEventsHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
@@ -0,0 +1,171 @@
+import { Hono } from "hono";
+import { describeRoute, resolver } from "hono-openapi";
+import {
+  exportDataSubjectHandler,
+  eraseDataSubjectHandler,
+  listDataSubjectRequestsHandler,
+} from "../handlers";
+import { requireApiKey } from "../middleware";
+import {
+  dataSubjectRequestListSchema,
+  dataSubjectExportSchema,
+  dataSubjectErasureSchema,
+} from "../schemas/dataSubjects";
+import { z } from "zod";
+
+const errorResponse = {
+  content: {
+    "application/json": {
+      schema: resolver(z.object({ error: z.string() })),
+    },
+  },
+};
+
+/**
+ * Create data subjects router (GDPR/CCPA access and erasure requests)
+ * Admin-only: every route requires the backend API key
+ */
+export function createDataSubjectsRouter() {
+  const router = new Hono();
+
+  router.use("*", requireApiKey);
+
+  /**
+   * GET /admin/data-subjects/requests
+   * Audit log of access and erasure requests
+   */
+  router.get(
+    "/requests",
+    describeRoute({
+      description:
+        "List data subject requests (most recent first). Filter by projectId and distinctId (matched by its hash, the log keeps no identifiers)",
+      responses: {
+        200: {
+          description: "Requests retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(dataSubjectRequestListSchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const result = await listDataSubjectRequestsHandler({
+        projectId: c.req.query("projectId"),
+        distinctId: c.req.query("distinctId"),
+        limit: c.req.query("limit"),
+        offset: c.req.query("offset"),
+      });
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * POST /admin/data-subjects/:projectId/:distinctId/export
+   * Everything held for a distinct ID, as a JSON archive
+   */
+  router.post(
+    "/:projectId/:distinctId/export",
+    describeRoute({
+      description:
+        "Export everything held for a distinct ID (userId, with its aliased clientIds, or a clientId) as a JSON archive: rows per table and replay events. Pass { requestedBy, reason } for the audit log",
+      responses: {
+        200: {
+          description: "Export archive (gzip Content-Encoding, attachment)",
+          content: {
+            "application/json": {
+              schema: resolver(dataSubjectExportSchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const result = await exportDataSubjectHandler(
+        c.req.param("projectId"),
+        c.req.param("distinctId"),
+        body
+      );
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      // Replays make archives large
+      const gzipped = Bun.gzipSync(JSON.stringify(result.data));
+
+      return new Response(gzipped, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Encoding": "gzip",
+          "Content-Disposition": `attachment; filename="data-subject-${result.data.requestId}.json"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+  );
+
+  /**
+   * DELETE /admin/data-subjects/:projectId/:distinctId
+   * Erase everything held for a distinct ID
+   */
+  router.delete(
+    "/:projectId/:distinctId",
+    describeRoute({
+      description:
+        "Erase everything held for a distinct ID (userId, with its aliased clientIds, or a clientId) in one transaction. Aggregates are corrected: its replays are subtracted from move/attention heatmaps, legacy per-cell click counts are decremented and error issues recomputed. Pass { requestedBy, reason } for the audit log",
+      responses: {
+        200: {
+          description: "Rows erased per table",
+          content: {
+            "application/json": {
+              schema: resolver(dataSubjectErasureSchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const result = await eraseDataSubjectHandler(
+        c.req.param("projectId"),
+        c.req.param("distinctId"),
+        body
+      );
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
@@ -0,0 +1,73 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getDeadClicksHandler } from "../handlers";
+import {
+  deadClicksQuerySchema,
+  deadClicksResponseSchema,
+} from "../schemas/deadClicks";
+import { z } from "zod";
+
+/**
+ * Create dead clicks router
+ */
+export function createDeadClicksRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /dead-clicks
+   * Returns elements ranked by dead and error clicks
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Get the elements whose clicks get no response (dead clicks: no DOM mutation, navigation or network activity before deadThresholdMs, reported by ClickTrackingPlugin) or are followed by a JavaScript error within errorWindowMs (error clicks), with rates, affected users and sessions, and the latest affected session",
+      responses: {
+        200: {
+          description: "Dead and error clicks retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(deadClicksResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", deadClicksQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        url: c.req.query("url"),
+        deadThresholdMs: c.req.query("deadThresholdMs"),
+        errorWindowMs: c.req.query("errorWindowMs"),
+        minClicks: c.req.query("minClicks"),
+        limit: c.req.query("limit"),
+      };
+      const result = await getDeadClicksHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
@@ -0,0 +1,229 @@
+import { Hono } from "hono";
+import { describeRoute, resolver } from "hono-openapi";
+import type { Queue } from "bullmq";
+import type { IncomingBatch } from "../types";
+import {
+  listDeadLettersHandler,
+  getDeadLetterHandler,
+  redriveDeadLettersHandler,
+  deleteDeadLetterHandler,
+  purgeDeadLettersHandler,
+} from "../handlers";
+import { requireApiKey } from "../middleware";
+import {
+  deadLetterListSchema,
+  deadLetterDetailSchema,
+  redriveResultSchema,
+  purgeResultSchema,
+} from "../schemas/deadLetters";
+import { z } from "zod";
+
+const errorResponse = {
+  content: {
+    "application/json": {
+      schema: resolver(z.object({ error: z.string() })),
+    },
+  },
+};
+
+/**
+ * Create dead letters router
+ * Admin-only: every route requires the backend API key
+ */
+export function createDeadLettersRouter(queue: Queue<IncomingBatch>) {
+  const router = new Hono();
+
+  router.use("*", requireApiKey);
+
+  /**
+   * GET /admin/dead-letters
+   * List failed ingestion events
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "List ingestion events the worker failed to store (most recent failure first). Filter by projectId and eventType",
+      responses: {
+        200: {
+          description: "Dead letters retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(deadLetterListSchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const result = await listDeadLettersHandler({
+        projectId: c.req.query("projectId"),
+        eventType: c.req.query("eventType"),
+        limit: c.req.query("limit"),
+        offset: c.req.query("offset"),
+      });
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * POST /admin/dead-letters/redrive
+   * Queue failed events for ingestion again
+   */
+  router.post(
+    "/redrive",
+    describeRoute({
+      description:
+        "Re-drive dead letters: queue them for ingestion again (by ids, or all matching projectId and eventType, up to limit). Each is deleted once stored, or updated if it fails again",
+      responses: {
+        202: {
+          description: "Dead letters queued",
+          content: {
+            "application/json": {
+              schema: resolver(redriveResultSchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const result = await redriveDeadLettersHandler(queue, body);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 202);
+    }
+  );
+
+  /**
+   * POST /admin/dead-letters/purge
+   * Delete failed events matching a filter
+   */
+  router.post(
+    "/purge",
+    describeRoute({
+      description:
+        "Purge dead letters matching ids, projectId, eventType and before. Pass { all: true } to purge every dead letter",
+      responses: {
+        200: {
+          description: "Dead letters deleted",
+          content: {
+            "application/json": {
+              schema: resolver(purgeResultSchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const result = await purgeDeadLettersHandler(body);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * GET /admin/dead-letters/:id
+   * Inspect a failed event and its original payload
+   */
+  router.get(
+    "/:id",
+    describeRoute({
+      description: "Get a dead letter with the error and the original event",
+      responses: {
+        200: {
+          description: "Dead letter retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(deadLetterDetailSchema),
+            },
+          },
+        },
+        400: { description: "Invalid id", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+        404: { description: "Dead letter not found", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const result = await getDeadLetterHandler(c.req.param("id"));
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400 | 404
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * DELETE /admin/dead-letters/:id
+   * Drop a failed event
+   */
+  router.delete(
+    "/:id",
+    describeRoute({
+      description: "Delete a dead letter without re-driving it",
+      responses: {
+        200: {
+          description: "Dead letter deleted",
+          content: {
+            "application/json": {
+              schema: resolver(purgeResultSchema),
+            },
+          },
+        },
+        400: { description: "Invalid id", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+        404: { description: "Dead letter not found", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const result = await deleteDeadLetterHandler(c.req.param("id"));
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400 | 404
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
@@ -0,0 +1,125 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getErrorIssuesHandler, getErrorIssueHandler } from "../handlers";
+import {
+  errorIssuesQuerySchema,
+  errorIssueQuerySchema,
+  errorIssuesResponseSchema,
+  errorIssueResponseSchema,
+} from "../schemas/errors";
+import { z } from "zod";
+
+/**
+ * Create errors router
+ */
+export function createErrorsRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /errors
+   * Returns error issues with occurrence counts, affected users and latest replay
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Get JavaScript error issues (from ErrorTrackingPlugin error events, grouped by stack fingerprint): occurrences, affected users and sessions, first/last seen, and the session replay of the latest occurrence",
+      responses: {
+        200: {
+          description: "Error issues retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(errorIssuesResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", errorIssuesQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        limit: c.req.query("limit"),
+      };
+      const result = await getErrorIssuesHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * GET /errors/:issueId
+   * Returns one issue and its latest occurrences, each linked to its replay
+   */
+  router.get(
+    "/:issueId",
+    describeRoute({
+      description:
+        "Get one error issue and its latest occurrences (stack, URL, user) with a link to the session replay of each",
+      responses: {
+        200: {
+          description: "Error issue retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(errorIssueResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+        404: {
+          description: "Issue not found",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", errorIssueQuerySchema.omit({ issueId: true })),
+    async (c) => {
+      const result = await getErrorIssueHandler(c.req.param("issueId"), {
+        projectId: c.req.query("projectId"),
+        limit: c.req.query("limit"),
+      });
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400 | 404
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
@@ -0,0 +1,69 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getFormAnalyticsHandler } from "../handlers";
+import {
+  formAnalyticsQuerySchema,
+  formAnalyticsResponseSchema,
+} from "../schemas/forms";
+import { z } from "zod";
+
+/**
+ * Create forms router
+ */
+export function createFormsRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /forms
+   * Returns per-form abandonment and per-field drop-off, refills and time spent
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Get form analytics (from FormAnalyticsPlugin input events): per-form sessions, submissions, abandonment and time-to-complete, and per-field drop-off, refills and time spent. Optionally filter by formId",
+      responses: {
+        200: {
+          description: "Form analytics retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(formAnalyticsResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", formAnalyticsQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        formId: c.req.query("formId"),
+      };
+      const result = await getFormAnalyticsHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
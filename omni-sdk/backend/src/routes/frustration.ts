@@ -0,0 +1,76 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getFrustrationHandler } from "../handlers";
+import {
+  frustrationQuerySchema,
+  frustrationResponseSchema,
+} from "../schemas/frustration";
+import { z } from "zod";
+
+/**
+ * Create frustration router
+ */
+export function createFrustrationRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /frustration
+   * Returns pages and elements ranked by frustration signals, vs the previous period
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Rank pages and elements by frustration signals over a date range: rage clicks (≥minClicks clicks within thresholdMs of each other), dead clicks (no response before deadThresholdMs), error clicks (a JavaScript error within errorWindowMs) and, for pages, U-turns (back on the previous page within uTurnMs). Each signal is compared with the previous period of the same length, and each row links to the most recent sessions showing it",
+      responses: {
+        200: {
+          description: "Frustration signals retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(frustrationResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", frustrationQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        sort: c.req.query("sort"),
+        minClicks: c.req.query("minClicks"),
+        thresholdMs: c.req.query("thresholdMs"),
+        deadThresholdMs: c.req.query("deadThresholdMs"),
+        errorWindowMs: c.req.query("errorWindowMs"),
+        uTurnMs: c.req.query("uTurnMs"),
+        limit: c.req.query("limit"),
+        sessionLimit: c.req.query("sessionLimit"),
+      };
+      const result = await getFrustrationHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
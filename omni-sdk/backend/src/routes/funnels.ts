@@ -0,0 +1,64 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getFunnelHandler } from "../handlers";
+import {
+  funnelRequestSchema,
+  funnelResponseSchema,
+} from "../schemas/funnels";
+import { z } from "zod";
+
+/**
+ * Create funnels router
+ */
+export function createFunnelsRouter() {
+  const router = new Hono();
+
+  /**
+   * POST /funnels
+   * Computes an ordered conversion funnel from pageview, click and custom event steps
+   */
+  router.post(
+    "/",
+    describeRoute({
+      description:
+        "Compute a conversion funnel. Steps are matched in order per user (userId ?? clientId) within the conversion window. Returns entrants, conversion/drop-off rates and median time between steps",
+      responses: {
+        200: {
+          description: "Funnel computed",
+          content: {
+            "application/json": {
+              schema: resolver(funnelResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in request body",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("json", funnelRequestSchema),
+    async (c) => {
+      const body = await c.req.json();
+      const result = await getFunnelHandler(body);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
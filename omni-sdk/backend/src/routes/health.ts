@@ -4,6 +4,7 @@ import { z } from "zod";
 import type { Queue } from "bullmq";
 import type { IncomingBatch } from "../types";
 import { checkDbConnection } from "../db/client";
+import { deadLetterRepository } from "../repositories";
 
 /**
  * Define schemas for health endpoint
@@ -19,6 +20,13 @@ const HealthResponseSchema = z.object({
       failed: z.number(),
     })
     .nullable(),
+  deadLetters: z
+    .object({
+      depth: z.number(),
+      oldestFailedAt: z.string().nullable(),
+    })
+    .nullable()
+    .describe("Failed ingestion events awaiting re-drive or purge"),
 });
 
 const ErrorResponseSchema = z.object({
@@ -36,7 +44,8 @@ export function createHealthRouter(queue: Queue<IncomingBatch>) {
   healthRouter.get(
     "/",
     describeRoute({
-      description: "System health status including database and queue metrics",
+      description:
+        "System health status including database, queue and dead-letter queue metrics",
       responses: {
         200: {
           description: "System is healthy",
@@ -82,6 +91,14 @@ export function createHealthRouter(queue: Queue<IncomingBatch>) {
           console.error("[Health] Error getting queue counts:", error);
         }
 
+        // Dead letters are reported, they do not make the system unhealthy
+        let deadLetters = null;
+        try {
+          deadLetters = await deadLetterRepository.getStats();
+        } catch (error) {
+          console.error("[Health] Error getting dead letter stats:", error);
+        }
+
         const isHealthy = dbOk && queueHealth !== null;
 
         return c.json(
@@ -89,6 +106,7 @@ export function createHealthRouter(queue: Queue<IncomingBatch>) {
             status: isHealthy ? "ok" : "degraded",
             database: dbOk ? "connected" : "disconnected",
             queue: queueHealth,
+            deadLetters,
           },
           isHealthy ? 200 : 503
         );
@@ -1,6 +1,20 @@
 import { Hono } from "hono";
-import { describeRoute, resolver } from "hono-openapi";
-import { getHeatmapHandler, listHeatmapsHandler } from "../handlers";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import {
+  getHeatmapHandler,
+  getScrollHeatmapHandler,
+  getActivityHeatmapHandler,
+  getClickElementsHandler,
+  listHeatmapsHandler,
+} from "../handlers";
+import {
+  heatmapQuerySchema,
+  clickHeatmapResponseSchema,
+  scrollHeatmapResponseSchema,
+  activityHeatmapResponseSchema,
+  clickElementsQuerySchema,
+  clickElementsResponseSchema,
+} from "../schemas/heatmaps";
 import { z } from "zod";
 
 /**
@@ -9,38 +23,87 @@ import { z } from "zod";
 export function createHeatmapsRouter() {
   const router = new Hono();
 
+  /**
+   * GET /heatmaps/:projectId/:url/elements
+   * Click map: rank the clicked elements of a URL
+   */
+  router.get(
+    "/:projectId/:url/elements",
+    describeRoute({
+      description:
+        "Rank the clicked elements of a page by clicks, with unique clickers, click-through to the next pageview, rage-click share and dead-click share. Elements are keyed by the tail of their xpath plus their text hash, so the ranking is stable across small DOM changes. Accepts the click heatmap filters (startDate, endDate, screenClass, layoutHash, country, visitorType) and limit (default 50, max 200)",
+      responses: {
+        200: {
+          description: "Click map retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(clickElementsResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Missing projectId or url, or invalid query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", clickElementsQuerySchema),
+    async (c) => {
+      const projectId = c.req.param("projectId");
+      const url = c.req.param("url");
+      const result = await getClickElementsHandler(projectId, url, {
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        screenClass: c.req.query("screenClass"),
+        layoutHash: c.req.query("layoutHash"),
+        country: c.req.query("country"),
+        visitorType: c.req.query("visitorType"),
+        limit: c.req.query("limit"),
+      });
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
   /**
    * GET /heatmaps/:projectId/:url
    * Fetch aggregated heatmap data for a URL
+   * ?type=click (default): click grid per layout, with date/device/country/visitor filters; ?type=scroll: scroll-reach curve;
+   * ?type=move|attention: pointer movement / time-in-viewport from replays
    */
   router.get(
     "/:projectId/:url",
     describeRoute({
-      description: "Fetch aggregated heatmap data for a specific URL",
+      description:
+        "Fetch aggregated heatmap data for a specific URL. type=click (default) returns the 50x50 click grid of one page layout (layoutHash, default: the most clicked) plus a summary of every layout, filtered by startDate/endDate, screenClass, country and visitorType (new|returning); type=scroll returns the share of page views reaching each grid row and each fold (from ScrollDepthPlugin); type=move returns pointer positions and type=attention milliseconds in the viewport per grid cell, derived from session replays by the heatmap aggregation job. scroll, move and attention accept an optional screenClass",
       responses: {
         200: {
           description: "Heatmap data retrieved",
           content: {
             "application/json": {
               schema: resolver(
-                z.object({
-                  data: z.object({
-                    projectId: z.string(),
-                    url: z.string(),
-                    clickCount: z.number(),
-                    gridSize: z.number().optional(),
-                    screenClasses: z.array(z.string()).optional(),
-                    pageWidth: z.number().optional(),
-                    pageHeight: z.number().optional(),
-                    grid: z.array(z.record(z.any())),
-                  }),
-                })
+                z.union([
+                  clickHeatmapResponseSchema,
+                  scrollHeatmapResponseSchema,
+                  activityHeatmapResponseSchema,
+                ])
               ),
             },
           },
         },
         400: {
-          description: "Missing projectId or url",
+          description: "Missing projectId or url, or invalid query parameters",
           content: {
             "application/json": {
               schema: resolver(z.object({ error: z.string() })),
@@ -49,10 +112,28 @@ export function createHeatmapsRouter() {
         },
       },
     }),
+    validator("query", heatmapQuerySchema),
     async (c) => {
       const projectId = c.req.param("projectId");
       const url = c.req.param("url");
-      const result = await getHeatmapHandler(projectId, url);
+      const type = c.req.query("type");
+      const screenClass = c.req.query("screenClass");
+      const result =
+        type === "scroll"
+          ? await getScrollHeatmapHandler(projectId, url, { screenClass })
+          : type === "move" || type === "attention"
+            ? await getActivityHeatmapHandler(projectId, url, {
+                type,
+                screenClass,
+              })
+            : await getHeatmapHandler(projectId, url, {
+                startDate: c.req.query("startDate"),
+                endDate: c.req.query("endDate"),
+                screenClass,
+                layoutHash: c.req.query("layoutHash"),
+                country: c.req.query("country"),
+                visitorType: c.req.query("visitorType"),
+              });
 
       if ("error" in result) {
         return c.json(
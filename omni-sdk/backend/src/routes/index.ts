@@ -10,3 +10,15 @@ export { createRetentionRouter } from "./retention";
 export { createTrafficRouter } from "./traffic";
 export { createOverviewRouter } from "./overview";
 export { createTopPagesRouter } from "./topPages";
+export { createProjectKeysRouter } from "./projectKeys";
+export { createCustomEventsRouter } from "./customEvents";
+export { createFunnelsRouter } from "./funnels";
+export { createFormsRouter } from "./forms";
+export { createVitalsRouter } from "./vitals";
+export { createErrorsRouter } from "./errors";
+export { createDeadClicksRouter } from "./deadClicks";
+export { createFrustrationRouter } from "./frustration";
+export { createAcquisitionRouter } from "./acquisition";
+export { createPathsRouter } from "./paths";
+export { createDeadLettersRouter } from "./deadLetters";
+export { createDataSubjectsRouter } from "./dataSubjects";
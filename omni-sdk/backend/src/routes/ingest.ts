@@ -17,8 +17,8 @@ export function createIngestRouter(queue: Queue<IncomingBatch>) {
   const ingestRouter = new Hono();
 
   /**
-   * POST /ingest
-   * Accept batch, validate, enqueue for processing
+   * POST /ingest?writeKey=...
+   * Accept batch, validate, authenticate, enqueue for processing
    */
   ingestRouter.post(
     "/",
@@ -42,6 +42,23 @@ export function createIngestRouter(queue: Queue<IncomingBatch>) {
             },
           },
         },
+        401: {
+          description:
+            "Missing, unknown, expired or revoked writeKey (projects with at least one registered key)",
+          content: {
+            "application/json": {
+              schema: resolver(IngestErrorResponseSchema),
+            },
+          },
+        },
+        403: {
+          description: "writeKey does not belong to the events' projectId",
+          content: {
+            "application/json": {
+              schema: resolver(IngestErrorResponseSchema),
+            },
+          },
+        },
         500: {
           description: "Server error",
           content: {
@@ -57,11 +74,20 @@ export function createIngestRouter(queue: Queue<IncomingBatch>) {
       try {
         const body = c.req.valid("json");
         const xForwardedFor = c.req.header("x-forwarded-for");
+        const writeKey = c.req.query("writeKey");
 
-        const result = await ingestHandler(body, xForwardedFor, queue);
+        const result = await ingestHandler(
+          body,
+          xForwardedFor,
+          queue,
+          writeKey
+        );
 
         if ("error" in result) {
-          return c.json(result as any, (result.statusCode || 500) as 400 | 500);
+          return c.json(
+            result as any,
+            (result.statusCode || 500) as 400 | 401 | 403 | 500
+          );
         }
 
         return c.json(result as any, (result.statusCode || 202) as 202);
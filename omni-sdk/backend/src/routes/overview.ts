@@ -47,6 +47,7 @@ export function createOverviewRouter() {
         projectId: c.req.query("projectId"),
         startDate: c.req.query("startDate"),
         endDate: c.req.query("endDate"),
+        timezone: c.req.query("timezone"),
       };
       const result = await getOverviewAnalyticsHandler(queryRaw);
 
@@ -0,0 +1,73 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getPathsHandler } from "../handlers";
+import {
+  pathsQuerySchema,
+  pathsResponseSchema,
+} from "../schemas/paths";
+import { z } from "zod";
+
+/**
+ * Create paths router
+ */
+export function createPathsRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /paths
+   * Returns the most common page sequences after or before a page
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Get the most common sequences of up to `steps` pages after (direction=next) or before (direction=previous) a page, from the pageviews of each session, with a Sankey graph (nodes, links) of them. Reloads count once, each session counts from its first view of the page, and (entry)/(exit) mark a session starting or ending within the steps",
+      responses: {
+        200: {
+          description: "Page paths retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(pathsResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", pathsQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        timezone: c.req.query("timezone"),
+        page: c.req.query("page"),
+        direction: c.req.query("direction"),
+        steps: c.req.query("steps"),
+        limit: c.req.query("limit"),
+      };
+      const result = await getPathsHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
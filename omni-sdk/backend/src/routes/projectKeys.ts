@@ -0,0 +1,193 @@
+import { Hono } from "hono";
+import { describeRoute, resolver } from "hono-openapi";
+import {
+  listWriteKeysHandler,
+  createWriteKeyHandler,
+  rotateWriteKeysHandler,
+  revokeWriteKeyHandler,
+} from "../handlers";
+import { requireApiKey } from "../middleware";
+import {
+  writeKeySchema,
+  createdWriteKeySchema,
+} from "../schemas/projectKeys";
+import { z } from "zod";
+
+const errorResponse = {
+  content: {
+    "application/json": {
+      schema: resolver(z.object({ error: z.string() })),
+    },
+  },
+};
+
+/**
+ * Create project write keys router
+ * Admin-only: every route requires the backend API key
+ */
+export function createProjectKeysRouter() {
+  const router = new Hono();
+
+  router.use("*", requireApiKey);
+
+  /**
+   * GET /projects/:projectId/write-keys
+   * List write keys of a project
+   */
+  router.get(
+    "/:projectId/write-keys",
+    describeRoute({
+      description: "List the ingest write keys of a project",
+      responses: {
+        200: {
+          description: "Write keys retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(
+                z.object({
+                  projectId: z.string(),
+                  keys: z.array(writeKeySchema),
+                })
+              ),
+            },
+          },
+        },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const result = await listWriteKeysHandler(c.req.param("projectId"));
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * POST /projects/:projectId/write-keys
+   * Issue a new key, or register an existing one
+   */
+  router.post(
+    "/:projectId/write-keys",
+    describeRoute({
+      description:
+        "Create a write key for a project. Pass { writeKey } to register an existing key",
+      responses: {
+        201: {
+          description: "Write key created (plain-text key only shown once)",
+          content: {
+            "application/json": {
+              schema: resolver(createdWriteKeySchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const result = await createWriteKeyHandler(c.req.param("projectId"), body);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 201);
+    }
+  );
+
+  /**
+   * POST /projects/:projectId/write-keys/rotate
+   * Issue a new key; current keys keep working for a grace period
+   */
+  router.post(
+    "/:projectId/write-keys/rotate",
+    describeRoute({
+      description:
+        "Rotate the write keys of a project. Previous keys expire after graceSeconds",
+      responses: {
+        201: {
+          description: "New write key issued",
+          content: {
+            "application/json": {
+              schema: resolver(createdWriteKeySchema),
+            },
+          },
+        },
+        400: { description: "Validation error", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      const result = await rotateWriteKeysHandler(
+        c.req.param("projectId"),
+        body
+      );
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 201);
+    }
+  );
+
+  /**
+   * DELETE /projects/:projectId/write-keys/:keyId
+   * Revoke a key immediately
+   */
+  router.delete(
+    "/:projectId/write-keys/:keyId",
+    describeRoute({
+      description:
+        "Revoke a write key (no grace period). Other API processes may accept it for up to 60s from their key cache",
+      responses: {
+        200: {
+          description: "Write key revoked",
+          content: {
+            "application/json": {
+              schema: resolver(writeKeySchema),
+            },
+          },
+        },
+        400: { description: "Invalid keyId", ...errorResponse },
+        401: { description: "Missing or invalid API key", ...errorResponse },
+        404: { description: "Write key not found", ...errorResponse },
+      },
+    }),
+    async (c) => {
+      const result = await revokeWriteKeyHandler(
+        c.req.param("projectId"),
+        c.req.param("keyId")
+      );
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400 | 404
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
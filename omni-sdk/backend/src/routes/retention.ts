@@ -21,7 +21,7 @@ export function createRetentionRouter() {
     "/",
     describeRoute({
       description:
-        "Get user retention cohort analysis for a project over a date range",
+        "Get user retention cohort analysis for a project over a date range. granularity (day, week, month) sets the cohort period and the unit of intervals. breakdown (country, device, referrer, landing_page) adds one cohort matrix per segment of the person's first visit: the largest segmentLimit segments, the rest merged into \"(other)\". mode=event defines retention by events instead of any activity: cohorts by a person's first startEvent, retained = a returnEvent after it (custom:<eventName> or pageview:<urlPattern>)",
       responses: {
         200: {
           description: "Retention cohort data retrieved",
@@ -47,7 +47,14 @@ export function createRetentionRouter() {
         projectId: c.req.query("projectId"),
         startDate: c.req.query("startDate"),
         endDate: c.req.query("endDate"),
+        timezone: c.req.query("timezone"),
+        granularity: c.req.query("granularity"),
         intervals: c.req.query("intervals"),
+        breakdown: c.req.query("breakdown"),
+        segmentLimit: c.req.query("segmentLimit"),
+        mode: c.req.query("mode"),
+        startEvent: c.req.query("startEvent"),
+        returnEvent: c.req.query("returnEvent"),
       };
       const result = await getRetentionHandler(queryRaw);
 
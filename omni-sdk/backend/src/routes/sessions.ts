@@ -1,10 +1,20 @@
 import { Hono } from "hono";
-import { describeRoute, resolver } from "hono-openapi";
+import { describeRoute, resolver, validator } from "hono-openapi";
 import {
   getSessionHandler,
   getReplayHandler,
+  streamReplayHandler,
+  getReplayManifestHandler,
+  getReplayChunkHandler,
+  getLiveReplayEventsHandler,
   getProjectSessionsHandler,
 } from "../handlers";
+import {
+  clickThresholdsQuerySchema,
+  replayManifestSchema,
+  replayWindowQuerySchema,
+  sessionSearchQuerySchema,
+} from "../schemas/sessions";
 import { z } from "zod";
 
 /**
@@ -15,16 +25,16 @@ export function createSessionsRouter() {
 
   /**
    * GET /sessions/:sessionId
-   * Fetch a session and all its rrweb replay events
+   * Fetch a session and its replay manifests, with its rage, dead and error clicks
    */
   router.get(
     "/:sessionId",
     describeRoute({
       description:
-        "Fetch a session and all its rrweb replay events grouped by replay ID",
+        "Fetch a session and the manifests of its replays (one per tab: chunks to load on demand, and live events not compacted yet), with its rage clicks (minClicks/thresholdMs), dead clicks (no response before deadThresholdMs) and error clicks (an error within errorWindowMs)",
       responses: {
         200: {
-          description: "Session found with replay events",
+          description: "Session found with replay manifests",
           content: {
             "application/json": {
               schema: resolver(
@@ -41,15 +51,49 @@ export function createSessionsRouter() {
                       updatedAt: z.date(),
                     }),
                     eventCount: z.number(),
-                    replays: z.array(
-                      z.object({
-                        replayId: z.string(),
-                        eventCount: z.number(),
-                        startTime: z.number().optional(),
-                        endTime: z.number().optional(),
-                        events: z.array(z.record(z.any())),
-                      })
-                    ),
+                    clickIssues: z.object({
+                      thresholds: z.object({
+                        minClicks: z.number(),
+                        thresholdMs: z.number(),
+                        deadThresholdMs: z.number(),
+                        errorWindowMs: z.number(),
+                      }),
+                      rageClicks: z.array(
+                        z.object({
+                          clientId: z.string(),
+                          url: z.string(),
+                          clickCount: z.number(),
+                          startedAt: z.date(),
+                          endedAt: z.date(),
+                        })
+                      ),
+                      deadClicks: z.array(
+                        z.object({
+                          clickEventId: z.string(),
+                          url: z.string(),
+                          selector: z.string(),
+                          tagName: z.string(),
+                          responseMs: z.number().nullable(),
+                          responseType: z.string().nullable(),
+                          clickedAt: z.date(),
+                        })
+                      ),
+                      errorClicks: z.array(
+                        z.object({
+                          clickEventId: z.string(),
+                          url: z.string(),
+                          selector: z.string().nullable(),
+                          clickedAt: z.date(),
+                          error: z.object({
+                            fingerprint: z.string(),
+                            errorType: z.string(),
+                            message: z.string(),
+                            delayMs: z.number(),
+                          }),
+                        })
+                      ),
+                    }),
+                    replays: z.array(replayManifestSchema),
                   }),
                 })
               ),
@@ -57,7 +101,7 @@ export function createSessionsRouter() {
           },
         },
         400: {
-          description: "Missing or invalid sessionId",
+          description: "Missing or invalid sessionId or thresholds",
           content: {
             "application/json": {
               schema: resolver(z.object({ error: z.string() })),
@@ -74,9 +118,15 @@ export function createSessionsRouter() {
         },
       },
     }),
+    validator("query", clickThresholdsQuerySchema),
     async (c) => {
       const sessionId = c.req.param("sessionId");
-      const result = await getSessionHandler(sessionId);
+      const result = await getSessionHandler(sessionId, {
+        minClicks: c.req.query("minClicks"),
+        thresholdMs: c.req.query("thresholdMs"),
+        deadThresholdMs: c.req.query("deadThresholdMs"),
+        errorWindowMs: c.req.query("errorWindowMs"),
+      });
 
       if ("error" in result) {
         return c.json(
@@ -105,15 +155,17 @@ export function createSessionsRouter() {
 
   /**
    * GET /replays/:replayId
-   * Fetch a specific replay (single tab session)
+   * Fetch a time window of a specific replay (single tab session), as JSON
+   * or streamed as NDJSON
    */
   router.get(
     "/replays/:replayId",
     describeRoute({
-      description: "Fetch a specific replay with all rrweb events",
+      description:
+        "Fetch the rrweb events of a replay in the window [from, to) (epoch ms; from defaults to the replay start, to to 60s later, at most 10 minutes), compacted and live. With snapshot (default true) the latest full snapshot before from and the events since are included, so playback can start at from; request the next window at nextFrom (the first event at or after to, skipping idle periods) with snapshot=false. format=ndjson streams one event per line, the whole replay by default",
       responses: {
         200: {
-          description: "Replay found with events",
+          description: "Replay window with events",
           content: {
             "application/json": {
               schema: resolver(
@@ -124,17 +176,32 @@ export function createSessionsRouter() {
                     clientId: z.string(),
                     userId: z.string().nullable(),
                     eventCount: z.number(),
-                    startTime: z.number(),
-                    endTime: z.number(),
+                    startTime: z.string(),
+                    endTime: z.string(),
+                    duration: z
+                      .number()
+                      .describe("Length of the whole replay (ms)"),
+                    from: z.number(),
+                    to: z.number(),
+                    snapshotAt: z.string().nullable(),
+                    nextFrom: z
+                      .number()
+                      .nullable()
+                      .describe(
+                        "Start of the next window (its first event), null at the end"
+                      ),
                     events: z.array(z.record(z.any())),
                   }),
                 })
               ),
             },
+            "application/x-ndjson": {
+              schema: resolver(z.record(z.any())),
+            },
           },
         },
         400: {
-          description: "Missing or invalid replayId",
+          description: "Missing or invalid replayId or window",
           content: {
             "application/json": {
               schema: resolver(z.object({ error: z.string() })),
@@ -151,9 +218,171 @@ export function createSessionsRouter() {
         },
       },
     }),
+    validator("query", replayWindowQuerySchema),
     async (c) => {
       const replayId = c.req.param("replayId");
-      const result = await getReplayHandler(replayId);
+      const queryParams = {
+        from: c.req.query("from"),
+        to: c.req.query("to"),
+        snapshot: c.req.query("snapshot"),
+        format: c.req.query("format"),
+      };
+
+      if (queryParams.format === "ndjson") {
+        const result = await streamReplayHandler(replayId, queryParams);
+
+        if ("error" in result) {
+          return c.json(
+            { error: result.error },
+            (result.statusCode || 400) as 400 | 404
+          );
+        }
+
+        const { events, nextFrom } = result.data;
+        const encoder = new TextEncoder();
+
+        // One event per line, written as chunks are read
+        return new Response(
+          new ReadableStream({
+            async pull(controller) {
+              try {
+                const next = await events.next();
+                if (next.done) {
+                  controller.close();
+                } else {
+                  controller.enqueue(
+                    encoder.encode(JSON.stringify(next.value) + "\n")
+                  );
+                }
+              } catch (error) {
+                controller.error(error);
+              }
+            },
+            async cancel() {
+              await events.return(undefined);
+            },
+          }),
+          {
+            status: 200,
+            headers: {
+              "Content-Type": "application/x-ndjson",
+              "Cache-Control": "no-store",
+              "X-Next-From": nextFrom === null ? "" : String(nextFrom),
+            },
+          }
+        );
+      }
+
+      const result = await getReplayHandler(replayId, queryParams);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400 | 404
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * GET /replays/:replayId/manifest
+   * Chunks of a replay, to load on demand
+   */
+  router.get(
+    "/replays/:replayId/manifest",
+    describeRoute({
+      description:
+        "Fetch the manifest of a replay: its compacted chunks (time range, event count, first full snapshot) and its live events not compacted yet",
+      responses: {
+        200: {
+          description: "Replay manifest",
+          content: {
+            "application/json": {
+              schema: resolver(
+                replayManifestSchema.extend({
+                  sessionId: z.string(),
+                  clientId: z.string(),
+                  userId: z.string().nullable(),
+                })
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Missing or invalid replayId",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+        404: {
+          description: "Replay not found",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    async (c) => {
+      const result = await getReplayManifestHandler(c.req.param("replayId"));
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400 | 404
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  /**
+   * GET /replays/:replayId/chunks/:sequence
+   * One compacted chunk of a replay, served gzip-compressed as stored
+   */
+  router.get(
+    "/replays/:replayId/chunks/:sequence",
+    describeRoute({
+      description:
+        "Fetch a compacted chunk of a replay: a JSON array of its rrweb events in time order (gzip Content-Encoding). Chunks are immutable and cacheable",
+      responses: {
+        200: {
+          description: "Replay chunk events",
+          content: {
+            "application/json": {
+              schema: resolver(z.array(z.record(z.any()))),
+            },
+          },
+        },
+        400: {
+          description: "Missing replayId or invalid sequence",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+        404: {
+          description: "Replay chunk not found",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    async (c) => {
+      const result = await getReplayChunkHandler(
+        c.req.param("replayId"),
+        c.req.param("sequence")
+      );
 
       if ("error" in result) {
         return c.json(
@@ -162,29 +391,88 @@ export function createSessionsRouter() {
         );
       }
 
+      // Already compressed, sent without re-encoding
+      return new Response(new Uint8Array(result.data.gzip), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Encoding": "gzip",
+          "Cache-Control": "private, max-age=31536000, immutable",
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /replays/:replayId/live
+   * Events of a replay not compacted yet
+   */
+  router.get(
+    "/replays/:replayId/live",
+    describeRoute({
+      description:
+        "Fetch the live events of a replay: recorded but not compacted into chunks yet",
+      responses: {
+        200: {
+          description: "Live replay events",
+          content: {
+            "application/json": {
+              schema: resolver(
+                z.object({
+                  replayId: z.string(),
+                  eventCount: z.number(),
+                  events: z.array(z.record(z.any())),
+                })
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Missing or invalid replayId",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    async (c) => {
+      const result = await getLiveReplayEventsHandler(c.req.param("replayId"));
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
       return c.json(result.data, 200);
     }
   );
 
   /**
    * GET /projects/:projectId/sessions
-   * Fetch all sessions for a project
+   * Search a project's sessions with filters and cursor pagination
    */
   router.get(
     "/projects/:projectId",
     describeRoute({
-      description: "Fetch all sessions for a project with statistics",
+      description:
+        "Search a project's sessions with statistics: event count and rage, dead and error clicks (thresholds as for GET /sessions/:sessionId). Filters (AND): startDate/endDate (session start, UTC), country, device, userId (aliased clientIds included), clientId, url (visited page URL contains), event (custom event name), minDurationMs, hasRageClicks, hasErrors (true/false). Sorted by sort (recent, duration, events) descending; pass nextCursor as cursor for the next page",
       responses: {
         200: {
-          description: "Project sessions retrieved",
+          description: "Page of matching sessions",
           content: {
             "application/json": {
               schema: resolver(
                 z.object({
                   data: z.object({
                     projectId: z.string(),
+                    sort: z.enum(["recent", "duration", "events"]),
                     sessionCount: z.number(),
                     sessions: z.array(z.record(z.any())),
+                    nextCursor: z.string().nullable(),
                   }),
                 })
               ),
@@ -192,7 +480,8 @@ export function createSessionsRouter() {
           },
         },
         400: {
-          description: "Missing or invalid projectId",
+          description:
+            "Missing or invalid projectId, filters, thresholds or cursor",
           content: {
             "application/json": {
               schema: resolver(z.object({ error: z.string() })),
@@ -201,9 +490,29 @@ export function createSessionsRouter() {
         },
       },
     }),
+    validator("query", sessionSearchQuerySchema),
     async (c) => {
       const projectId = c.req.param("projectId");
-      const result = await getProjectSessionsHandler(projectId);
+      const result = await getProjectSessionsHandler(projectId, {
+        minClicks: c.req.query("minClicks"),
+        thresholdMs: c.req.query("thresholdMs"),
+        deadThresholdMs: c.req.query("deadThresholdMs"),
+        errorWindowMs: c.req.query("errorWindowMs"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        country: c.req.query("country"),
+        device: c.req.query("device"),
+        userId: c.req.query("userId"),
+        clientId: c.req.query("clientId"),
+        url: c.req.query("url"),
+        event: c.req.query("event"),
+        minDurationMs: c.req.query("minDurationMs"),
+        hasRageClicks: c.req.query("hasRageClicks"),
+        hasErrors: c.req.query("hasErrors"),
+        sort: c.req.query("sort"),
+        cursor: c.req.query("cursor"),
+        limit: c.req.query("limit"),
+      });
 
       if ("error" in result) {
         return c.json(
@@ -21,7 +21,7 @@ export function createTopPagesRouter() {
     "/",
     describeRoute({
       description:
-        "Get top visited pages with session-based metrics (visits, avg time on page)",
+        "Get top visited pages with session-based metrics (visits, avg time on page), and entry and exit pages with bounce and exit rates",
       responses: {
         200: {
           description: "Top pages retrieved",
@@ -47,6 +47,7 @@ export function createTopPagesRouter() {
         projectId: c.req.query("projectId"),
         startDate: c.req.query("startDate"),
         endDate: c.req.query("endDate"),
+        timezone: c.req.query("timezone"),
         limit: c.req.query("limit"),
       };
       const result = await getTopPagesHandler(queryRaw);
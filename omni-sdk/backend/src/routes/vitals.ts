@@ -0,0 +1,70 @@
+import { Hono } from "hono";
+import { describeRoute, resolver, validator } from "hono-openapi";
+import { getWebVitalsHandler } from "../handlers";
+import {
+  webVitalsQuerySchema,
+  webVitalsResponseSchema,
+} from "../schemas/vitals";
+import { z } from "zod";
+
+/**
+ * Create web vitals router
+ */
+export function createVitalsRouter() {
+  const router = new Hono();
+
+  /**
+   * GET /vitals
+   * Returns real-user p75 per metric, overall and per URL, device and country
+   */
+  router.get(
+    "/",
+    describeRoute({
+      description:
+        "Get real-user Core Web Vitals (from WebVitalsPlugin web_vital events): p75, sample count and rating per metric (LCP, INP, CLS, FCP, TTFB), overall and broken down by URL path, device (screenClass) and country. Optionally filter by metric and URL path",
+      responses: {
+        200: {
+          description: "Web vitals retrieved",
+          content: {
+            "application/json": {
+              schema: resolver(webVitalsResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: "Validation error in query parameters",
+          content: {
+            "application/json": {
+              schema: resolver(z.object({ error: z.string() })),
+            },
+          },
+        },
+      },
+    }),
+    validator("query", webVitalsQuerySchema),
+    async (c) => {
+      const queryRaw = {
+        projectId: c.req.query("projectId"),
+        startDate: c.req.query("startDate"),
+        endDate: c.req.query("endDate"),
+        metric: c.req.query("metric"),
+        path: c.req.query("path"),
+      };
+      const result = await getWebVitalsHandler(queryRaw);
+
+      if ("error" in result) {
+        return c.json(
+          { error: result.error },
+          (result.statusCode || 400) as 400
+        );
+      }
+
+      return c.json(result.data, 200);
+    }
+  );
+
+  return router;
+}
+
+// Export default instance (overridden in index.ts)
+export default new Hono();
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { isValidTimezone } from "../utils/timezone";
+
+/**
+ * Acquisition Analytics Zod Schemas
+ * Query validation and response shape for /analytics/acquisition
+ */
+
+export const acquisitionQuerySchema = z
+  .object({
+    projectId: z.string().min(1, "projectId is required"),
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+    endDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+    timezone: z
+      .string()
+      .optional()
+      .default("UTC")
+      .refine(isValidTimezone, "timezone must be an IANA timezone name")
+      .describe("IANA timezone days are bucketed in, e.g. Africa/Addis_Ababa"),
+    conversionEvent: z
+      .string()
+      .min(1)
+      .max(255)
+      .optional()
+      .describe("Custom event name of a conversion (default: any custom event)"),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "startDate must be <= endDate",
+    path: ["startDate"],
+  });
+
+const metricsSchema = {
+  visitors: z.number().int(),
+  sessions: z.number().int(),
+  bounceRate: z.number().describe("Bounced sessions, % of sessions"),
+  conversions: z.number().int().describe("Sessions with a conversion"),
+  conversionRate: z.number().describe("Converted sessions, % of sessions"),
+};
+
+export const acquisitionResponseSchema = z.object({
+  range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  timezone: z.string(),
+  conversionEvent: z.string().nullable(),
+  totals: z.object(metricsSchema),
+  channels: z.array(
+    z.object({
+      channel: z
+        .string()
+        .describe(
+          "organic_search, social, paid, email, direct, referral or (unknown)"
+        ),
+      ...metricsSchema,
+    })
+  ),
+  campaigns: z.array(
+    z.object({
+      campaign: z.string().describe("utm_campaign"),
+      ...metricsSchema,
+    })
+  ),
+  sources: z.array(
+    z.object({
+      source: z
+        .string()
+        .describe("utm_source, ad network or referrer domain, or (direct)"),
+      ...metricsSchema,
+    })
+  ),
+});
+
+export type AcquisitionQuery = z.infer<typeof acquisitionQuerySchema>;
+export type AcquisitionResponse = z.infer<typeof acquisitionResponseSchema>;
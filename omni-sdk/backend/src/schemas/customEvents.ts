@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+/**
+ * Custom Events Analytics Zod Schemas
+ * Query validation and response shape for /analytics/events
+ */
+
+/**
+ * Property filter: JSON object passed as a query string value
+ * e.g. ?properties={"plan":"pro","step":2}
+ */
+const propertiesFilter = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // fall through to issue below
+    }
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "properties must be a JSON object",
+    });
+    return z.NEVER;
+  });
+
+export const customEventsQuerySchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+  eventName: z.string().min(1).max(255).optional(),
+  properties: propertiesFilter.optional(),
+});
+
+export const customEventsResponseSchema = z.object({
+  range: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+  }),
+  events: z.array(
+    z.object({
+      eventName: z.string(),
+      count: z.number().int(),
+      uniqueUsers: z.number().int(),
+      series: z.array(
+        z.object({
+          date: z.string(),
+          count: z.number().int(),
+          uniqueUsers: z.number().int(),
+        })
+      ),
+    })
+  ),
+});
+
+export type CustomEventsQuery = z.infer<typeof customEventsQuerySchema>;
+export type CustomEventsResponse = z.infer<typeof customEventsResponseSchema>;
@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+/**
+ * Data Subject Zod Schemas
+ * Request validation and response shapes for /admin/data-subjects
+ * (GDPR/CCPA access and erasure requests)
+ */
+
+export const dataSubjectParamsSchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  distinctId: z
+    .string()
+    .min(1, "distinctId is required")
+    .max(255)
+    .describe("userId or anonymous clientId"),
+});
+
+// Recorded in the audit log with the request
+export const dataSubjectRequestBodySchema = z.object({
+  requestedBy: z
+    .string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe("Operator or ticket handling the request"),
+  reason: z.string().min(1).max(1000).optional(),
+});
+
+export const listDataSubjectRequestsQuerySchema = z.object({
+  projectId: z.string().min(1).optional(),
+  distinctId: z
+    .string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe("Requests about this distinct ID (matched by hash)"),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .default(50)
+    .describe("Max requests to return (default: 50)"),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+export const dataSubjectRequestSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  subjectHash: z.string().describe("SHA-256 of the distinct ID"),
+  type: z.enum(["export", "erasure"]),
+  status: z.enum(["pending", "completed", "failed"]),
+  requestedBy: z.string().nullable(),
+  reason: z.string().nullable(),
+  rowCounts: z
+    .record(z.number())
+    .nullable()
+    .describe("Rows exported or erased per table"),
+  error: z.string().nullable(),
+  requestedAt: z.string(),
+  completedAt: z.string().nullable(),
+});
+
+export const dataSubjectRequestListSchema = z.object({
+  total: z.number(),
+  items: z.array(dataSubjectRequestSchema),
+});
+
+export const dataSubjectExportSchema = z.object({
+  requestId: z.string(),
+  projectId: z.string(),
+  distinctId: z.string(),
+  exportedAt: z.string(),
+  identities: z.object({
+    clientIds: z.array(z.string()),
+    sessionIds: z.array(z.string()),
+  }),
+  tables: z
+    .record(z.array(z.record(z.any())))
+    .describe("Rows held per table"),
+  replays: z
+    .array(
+      z.object({
+        replayId: z.string(),
+        events: z.array(z.record(z.any())),
+      })
+    )
+    .describe("rrweb events per replay, compacted and live"),
+});
+
+export const dataSubjectErasureSchema = z.object({
+  requestId: z.string(),
+  projectId: z.string(),
+  distinctId: z.string(),
+  erased: z
+    .record(z.number())
+    .describe("Rows deleted (or aggregate rows corrected) per table"),
+});
+
+export type DataSubjectParams = z.infer<typeof dataSubjectParamsSchema>;
+export type DataSubjectRequestBody = z.infer<
+  typeof dataSubjectRequestBodySchema
+>;
+export type ListDataSubjectRequestsQuery = z.infer<
+  typeof listDataSubjectRequestsQuerySchema
+>;
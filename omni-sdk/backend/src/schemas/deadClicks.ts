@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+/**
+ * Dead Click Zod Schemas
+ * Query validation and response shapes for /analytics/dead-clicks
+ */
+
+export const deadClicksQuerySchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+  url: z.string().min(1).optional(),
+  // Dead clicks: no response before deadThresholdMs (the SDK reports from 500ms)
+  deadThresholdMs: z.coerce
+    .number()
+    .int()
+    .min(500)
+    .max(60000)
+    .optional()
+    .default(1000),
+  // Error clicks: an error within errorWindowMs after the click
+  errorWindowMs: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(10000)
+    .optional()
+    .default(1000),
+  // Elements with fewer clicks are left out (rates on a handful of clicks are noise)
+  minClicks: z.coerce.number().int().min(1).max(1000).optional().default(5),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+});
+
+export const deadClicksResponseSchema = z.object({
+  range: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+  }),
+  thresholds: z.object({
+    deadThresholdMs: z.number().int(),
+    errorWindowMs: z.number().int(),
+    minClicks: z.number().int(),
+  }),
+  totals: z.object({
+    clicks: z.number().int(),
+    deadClicks: z.number().int(),
+    deadClickRate: z.number(), // 0-1
+    errorClicks: z.number().int(),
+    errorClickRate: z.number(), // 0-1
+  }),
+  elements: z.array(
+    z.object({
+      url: z.string(),
+      elementKey: z.string(), // same key as GET /heatmaps/:projectId/:url/elements
+      selector: z.string().nullable(),
+      xpath: z.string().nullable(),
+      tagName: z.string().nullable(),
+      clicks: z.number().int(),
+      deadClicks: z.number().int(),
+      deadClickRate: z.number(), // 0-1
+      errorClicks: z.number().int(),
+      errorClickRate: z.number(), // 0-1
+      affectedSessions: z.number().int(),
+      affectedUsers: z.number().int(),
+      medianResponseMs: z.number().nullable(), // slow (not missing) responses only
+      latestOccurrence: z
+        .object({
+          sessionId: z.string(),
+          sessionUrl: z.string(), // GET /sessions/:sessionId
+          timestamp: z.string(),
+        })
+        .nullable(),
+    })
+  ),
+});
+
+export type DeadClicksQuery = z.infer<typeof deadClicksQuerySchema>;
+export type DeadClicksResponse = z.infer<typeof deadClicksResponseSchema>;
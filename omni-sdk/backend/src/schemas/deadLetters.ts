@@ -0,0 +1,108 @@
+import { z } from "zod";
+
+/**
+ * Dead Letter Zod Schemas
+ * Request validation and response shapes for /admin/dead-letters
+ */
+
+export const listDeadLettersQuerySchema = z.object({
+  projectId: z.string().min(1).optional(),
+  eventType: z.string().min(1).optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .default(50)
+    .describe("Max dead letters to return (default: 50)"),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+export const redriveDeadLettersSchema = z.object({
+  ids: z
+    .array(z.string().uuid())
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe("Dead letters to re-drive; all matching the filters if omitted"),
+  projectId: z.string().min(1).optional(),
+  eventType: z.string().min(1).optional(),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(500)
+    .describe("Max dead letters to re-drive, oldest first (default: 500)"),
+});
+
+export const purgeDeadLettersSchema = z
+  .object({
+    ids: z.array(z.string().uuid()).min(1).max(1000).optional(),
+    projectId: z.string().min(1).optional(),
+    eventType: z.string().min(1).optional(),
+    before: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .describe("Only dead letters that last failed before this ISO time"),
+    all: z
+      .boolean()
+      .optional()
+      .describe("Required to purge without any other filter"),
+  })
+  .refine(
+    (body) =>
+      body.all === true ||
+      body.ids !== undefined ||
+      body.projectId !== undefined ||
+      body.eventType !== undefined ||
+      body.before !== undefined,
+    "Pass a filter (ids, projectId, eventType, before) or all: true"
+  );
+
+export const deadLetterSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  projectId: z.string(),
+  batchId: z.string(),
+  eventType: z.string(),
+  location: z.string().nullable(),
+  error: z.string(),
+  attempts: z.number(),
+  firstFailedAt: z.string(),
+  lastFailedAt: z.string(),
+  redrivenAt: z
+    .string()
+    .nullable()
+    .describe("Last re-queue; cleared if the event fails again"),
+});
+
+export const deadLetterDetailSchema = deadLetterSchema.extend({
+  payload: z.record(z.any()).describe("Event as received by POST /ingest"),
+});
+
+export const deadLetterListSchema = z.object({
+  total: z.number(),
+  items: z.array(deadLetterSchema),
+});
+
+export const redriveResultSchema = z.object({
+  redriven: z.number(),
+  jobs: z.array(z.string()).describe("Ids of the ingestion jobs queued"),
+});
+
+export const purgeResultSchema = z.object({
+  deleted: z.number(),
+});
+
+export const deadLetterStatsSchema = z.object({
+  depth: z.number().describe("Events in the dead-letter queue"),
+  oldestFailedAt: z.string().nullable(),
+});
+
+export type ListDeadLettersQuery = z.infer<typeof listDeadLettersQuerySchema>;
+export type RedriveDeadLettersInput = z.infer<typeof redriveDeadLettersSchema>;
+export type PurgeDeadLettersInput = z.infer<typeof purgeDeadLettersSchema>;
@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+/**
+ * Error Tracking Zod Schemas
+ * Query validation and response shapes for /analytics/errors
+ */
+
+export const errorIssuesQuerySchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+});
+
+export const errorIssueQuerySchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  issueId: z.string().regex(/^[0-9a-f]{32}$/, "issueId must be a fingerprint"),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+const issueSchema = z.object({
+  issueId: z.string(), // fingerprint
+  errorType: z.string(),
+  message: z.string(),
+  culprit: z.string().nullable(), // top stack frame
+  firstSeenAt: z.string(),
+  lastSeenAt: z.string(),
+});
+
+export const errorIssuesResponseSchema = z.object({
+  range: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+  }),
+  issues: z.array(
+    issueSchema.extend({
+      occurrences: z.number().int(),
+      affectedUsers: z.number().int(),
+      affectedSessions: z.number().int(),
+      latestOccurrence: z.object({
+        sessionId: z.string(),
+        replayId: z.string().nullable(),
+        replayUrl: z.string().nullable(), // GET /replays/:replayId
+        url: z.string(),
+        timestamp: z.string(),
+      }),
+    })
+  ),
+});
+
+export const errorIssueResponseSchema = issueSchema.extend({
+  occurrences: z.array(
+    z.object({
+      eventId: z.string(),
+      sessionId: z.string(),
+      replayId: z.string().nullable(),
+      replayUrl: z.string().nullable(), // GET /replays/:replayId
+      clientId: z.string(),
+      userId: z.string().nullable(),
+      url: z.string(),
+      message: z.string(),
+      stack: z.string().nullable(),
+      source: z.string(),
+      timestamp: z.string(),
+    })
+  ),
+});
+
+export type ErrorIssuesQuery = z.infer<typeof errorIssuesQuerySchema>;
+export type ErrorIssuesResponse = z.infer<typeof errorIssuesResponseSchema>;
+export type ErrorIssueResponse = z.infer<typeof errorIssueResponseSchema>;
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * Form Analytics Zod Schemas
+ * Query validation and response shape for /analytics/forms
+ */
+
+export const formAnalyticsQuerySchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+  formId: z.string().min(1).optional(),
+});
+
+export const formAnalyticsResponseSchema = z.object({
+  range: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+  }),
+  forms: z.array(
+    z.object({
+      formId: z.string(),
+      url: z.string(),
+      sessions: z.number().int(), // sessions that interacted with the form
+      submissions: z.number().int(),
+      abandonments: z.number().int(),
+      abandonmentRate: z.number(), // % of sessions
+      medianCompletionSeconds: z.number().nullable(), // first interaction -> submit
+      fields: z.array(
+        z.object({
+          fieldName: z.string(),
+          sessions: z.number().int(),
+          dropOffs: z.number().int(), // abandoned sessions that ended on this field
+          dropOffRate: z.number(), // % of the form's abandonments
+          refills: z.number().int(),
+          avgTimeSeconds: z.number().nullable(),
+          medianTimeSeconds: z.number().nullable(),
+        })
+      ),
+    })
+  ),
+});
+
+export type FormAnalyticsQuery = z.infer<typeof formAnalyticsQuerySchema>;
+export type FormAnalyticsResponse = z.infer<typeof formAnalyticsResponseSchema>;
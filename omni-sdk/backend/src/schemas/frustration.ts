@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+/**
+ * Frustration Signals Zod Schemas
+ * Query validation and response shapes for /analytics/frustration
+ */
+
+export const frustrationQuerySchema = z
+  .object({
+    projectId: z.string().min(1, "projectId is required"),
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+    endDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+    sort: z
+      .enum(["total", "rageClicks", "deadClicks", "errorClicks", "uTurns"])
+      .optional()
+      .default("total"),
+    // Rage clicks: ≥ minClicks on the same URL, each within thresholdMs of the previous
+    minClicks: z.coerce.number().int().min(2).max(50).optional().default(3),
+    thresholdMs: z.coerce
+      .number()
+      .int()
+      .min(50)
+      .max(5000)
+      .optional()
+      .default(600),
+    // Dead clicks: no response before deadThresholdMs (the SDK reports from 500ms)
+    deadThresholdMs: z.coerce
+      .number()
+      .int()
+      .min(500)
+      .max(60000)
+      .optional()
+      .default(1000),
+    // Error clicks: an error within errorWindowMs after the click
+    errorWindowMs: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .max(10000)
+      .optional()
+      .default(1000),
+    // U-turns: back on the previous page within uTurnMs
+    uTurnMs: z.coerce
+      .number()
+      .int()
+      .min(1000)
+      .max(300000)
+      .optional()
+      .default(10000),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+    sessionLimit: z.coerce.number().int().min(0).max(20).optional().default(5),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "startDate must be <= endDate",
+    path: ["startDate"],
+  });
+
+const signalSchema = z.object({
+  current: z.number().int(),
+  previous: z.number().int(),
+  changePct: z.number().describe("Percentage change (can be negative)"),
+});
+
+const sessionSchema = z.object({
+  sessionId: z.string(),
+  sessionUrl: z
+    .string()
+    .describe("GET /sessions/:sessionId with the same thresholds"),
+  rageClicks: z.number().int(),
+  deadClicks: z.number().int(),
+  errorClicks: z.number().int(),
+  uTurns: z.number().int().optional(), // pages only
+  lastSignalAt: z.string(),
+});
+
+const clickSignalsSchema = {
+  clicks: z.number().int(),
+  rageClicks: signalSchema,
+  deadClicks: signalSchema,
+  errorClicks: signalSchema,
+  total: signalSchema,
+  frustratedSessions: z.number().int(),
+  sessions: z.array(sessionSchema).describe("Most recent first"),
+};
+
+export const frustrationResponseSchema = z.object({
+  range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  comparison: z.object({
+    start: z.string().describe("Start date of previous period (ISO 8601)"),
+    end: z.string().describe("End date of previous period (ISO 8601)"),
+  }),
+  thresholds: z.object({
+    minClicks: z.number().int(),
+    thresholdMs: z.number().int(),
+    deadThresholdMs: z.number().int(),
+    errorWindowMs: z.number().int(),
+    uTurnMs: z.number().int(),
+  }),
+  totals: z.object({
+    rageClicks: signalSchema,
+    deadClicks: signalSchema,
+    errorClicks: signalSchema,
+    uTurns: signalSchema,
+    total: signalSchema,
+  }),
+  urls: z.array(
+    z.object({
+      url: z.string(),
+      pageViews: z.number().int(),
+      uTurns: signalSchema,
+      ...clickSignalsSchema,
+    })
+  ),
+  selectors: z.array(
+    z.object({
+      url: z.string(),
+      elementKey: z.string(), // same key as GET /heatmaps/:projectId/:url/elements
+      selector: z.string().nullable(),
+      tagName: z.string().nullable(),
+      ...clickSignalsSchema,
+    })
+  ),
+});
+
+export type FrustrationQuery = z.infer<typeof frustrationQuerySchema>;
+export type FrustrationResponse = z.infer<typeof frustrationResponseSchema>;
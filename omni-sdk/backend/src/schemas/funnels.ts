@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+/**
+ * Funnel Analytics Zod Schemas
+ * Request validation and response shape for POST /analytics/funnels
+ */
+
+const isoDateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be ISO date YYYY-MM-DD");
+
+/**
+ * A funnel step matches one kind of event:
+ * - pageview: URL path pattern, `*` matches any characters (e.g. /products/*)
+ * - click: exact element selector, optionally restricted to a URL path pattern
+ * - custom: custom event name (tracker.trackCustom)
+ */
+export const funnelStepSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("pageview"),
+    urlPattern: z.string().min(1).max(2048),
+    label: z.string().max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("click"),
+    selector: z.string().min(1).max(1024),
+    urlPattern: z.string().min(1).max(2048).optional(),
+    label: z.string().max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("custom"),
+    eventName: z.string().min(1).max(255),
+    label: z.string().max(100).optional(),
+  }),
+]);
+
+export const funnelRequestSchema = z
+  .object({
+    projectId: z.string().min(1, "projectId is required"),
+    startDate: isoDateString,
+    endDate: isoDateString,
+    steps: z
+      .array(funnelStepSchema)
+      .min(2, "A funnel needs at least 2 steps")
+      .max(10, "A funnel can have at most 10 steps"),
+    // Time allowed from entering step 1 to completing the last step
+    conversionWindowSeconds: z
+      .number()
+      .int()
+      .min(60)
+      .max(90 * 24 * 60 * 60)
+      .optional()
+      .default(7 * 24 * 60 * 60),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "startDate must be before or equal to endDate",
+    path: ["startDate"],
+  });
+
+export const funnelResponseSchema = z.object({
+  range: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+  }),
+  conversionWindowSeconds: z.number().int(),
+  overallConversionRate: z.number(), // last step entrants / first step entrants (%)
+  steps: z.array(
+    z.object({
+      index: z.number().int(),
+      label: z.string(),
+      type: z.enum(["pageview", "click", "custom"]),
+      entrants: z.number().int(),
+      conversionRate: z.number(), // % of step 1 entrants
+      stepConversionRate: z.number(), // % of previous step entrants
+      dropOff: z.number().int(), // users lost since previous step
+      dropOffRate: z.number(), // % lost since previous step
+      medianSecondsFromPrevious: z.number().nullable(),
+    })
+  ),
+});
+
+export type FunnelStep = z.infer<typeof funnelStepSchema>;
+export type FunnelRequest = z.infer<typeof funnelRequestSchema>;
+export type FunnelResponse = z.infer<typeof funnelResponseSchema>;
@@ -0,0 +1,169 @@
+import { z } from "zod";
+
+/**
+ * Heatmaps Zod Schemas
+ * Query validation and response shapes for /heatmaps/:projectId/:url
+ */
+
+export const screenClassSchema = z.enum(["mobile", "tablet", "desktop"]);
+
+export const heatmapQuerySchema = z.object({
+  type: z.enum(["click", "scroll", "move", "attention"]).default("click"),
+  screenClass: screenClassSchema.optional(),
+  // Click heatmap filters
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD")
+    .optional(),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD")
+    .optional(),
+  layoutHash: z.string().min(1).optional(),
+  country: z
+    .string()
+    .length(2, "country must be an ISO-2 country code")
+    .transform((country) => country.toUpperCase())
+    .optional(),
+  visitorType: z.enum(["new", "returning"]).optional(),
+});
+
+const heatmapLayoutSchema = z.object({
+  layoutHash: z.string().nullable(), // null = clicks recorded without a layout hash
+  clickCount: z.number().int(),
+  pageWidth: z.number().int().nullable(), // median, px
+  pageHeight: z.number().int().nullable(), // median, px
+  screenClasses: z.array(z.string()),
+  lastClickAt: z.string(),
+});
+
+export const clickHeatmapResponseSchema = z.object({
+  projectId: z.string(),
+  url: z.string(),
+  filters: z.object({
+    startDate: z.string().nullable(),
+    endDate: z.string().nullable(),
+    screenClass: screenClassSchema.nullable(),
+    country: z.string().nullable(),
+    visitorType: z.enum(["new", "returning"]).nullable(),
+  }),
+  // Layout shown in grid: requested layoutHash, or the most clicked layout
+  layoutHash: z.string().nullable(),
+  clickCount: z.number(), // clicks of the shown layout
+  gridSize: z.number(),
+  screenClasses: z.array(z.string()),
+  pageWidth: z.number().nullable(),
+  pageHeight: z.number().nullable(),
+  // Every layout matching the filters, most clicked first
+  layouts: z.array(heatmapLayoutSchema),
+  grid: z.array(z.record(z.any())),
+});
+
+export const scrollHeatmapResponseSchema = z.object({
+  projectId: z.string(),
+  url: z.string(),
+  type: z.literal("scroll"),
+  screenClass: screenClassSchema.nullable(), // filter applied, null = all devices
+  pageViews: z.number().int(),
+  averageDepth: z.number(), // 0-1
+  gridSize: z.number().int(),
+  pageHeight: z.number().int().nullable(), // median, px
+  viewportHeight: z.number().int().nullable(), // median, px
+  screenClasses: z.array(
+    z.object({
+      screenClass: z.string().nullable(),
+      pageViews: z.number().int(),
+      averageDepth: z.number(),
+    })
+  ),
+  // Share of page views that reached each grid row (row 0 is always 100%)
+  reach: z.array(
+    z.object({
+      gridY: z.number().int(),
+      yNorm: z.number(),
+      pageViews: z.number().int(),
+      percentage: z.number(),
+    })
+  ),
+  // Share of page views that scrolled past the bottom of each screen ("fold")
+  folds: z.array(
+    z.object({
+      fold: z.number().int(),
+      yNorm: z.number(),
+      percentage: z.number(),
+    })
+  ),
+});
+
+export const activityHeatmapResponseSchema = z.object({
+  projectId: z.string(),
+  url: z.string(),
+  type: z.enum(["move", "attention"]),
+  screenClass: screenClassSchema.nullable(), // filter applied, null = all devices
+  unit: z.enum(["positions", "ms"]), // move: pointer positions, attention: ms in viewport
+  gridSize: z.number().int(),
+  total: z.number(),
+  maxValue: z.number(),
+  screenClasses: z.array(z.string()),
+  grid: z.array(
+    z.object({
+      gridX: z.number().int(),
+      gridY: z.number().int(),
+      xNorm: z.number(), // cell center (0-1)
+      yNorm: z.number(),
+      value: z.number(),
+      intensity: z.number(), // value / maxValue
+    })
+  ),
+});
+
+// Click map: same filters as the click heatmap, plus a result limit
+export const clickElementsQuerySchema = heatmapQuerySchema
+  .omit({ type: true })
+  .extend({
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  });
+
+export const clickElementsResponseSchema = z.object({
+  projectId: z.string(),
+  url: z.string(),
+  layoutHash: z.string().nullable(), // filter applied, null = all layouts
+  pageClicks: z.number().int(), // clicks on the page matching the filters
+  elements: z.array(
+    z.object({
+      rank: z.number().int(),
+      elementKey: z.string(), // stable across small DOM changes (xpath tail + text hash)
+      selector: z.string().nullable(),
+      xpath: z.string().nullable(),
+      tagName: z.string().nullable(),
+      elementTextHash: z.string().nullable(),
+      clicks: z.number().int(),
+      clickShare: z.number(), // % of page clicks
+      uniqueClickers: z.number().int(),
+      clickThroughs: z.number().int(),
+      clickThroughRate: z.number(), // % of clicks followed by a pageview
+      rageClicks: z.number().int(),
+      rageClickShare: z.number(), // % of clicks inside a rage sequence
+      deadClicks: z.number().int(),
+      deadClickShare: z.number(), // % of clicks with no response (dead clicks)
+      // Where the element was clicked (normalized, 5th-95th percentile)
+      box: z.object({
+        xMin: z.number(),
+        xMax: z.number(),
+        yMin: z.number(),
+        yMax: z.number(),
+      }),
+      lastClickAt: z.string(),
+    })
+  ),
+});
+
+export type HeatmapQuery = z.infer<typeof heatmapQuerySchema>;
+export type ClickElementsResponse = z.infer<typeof clickElementsResponseSchema>;
+export type ClickHeatmapResponse = z.infer<typeof clickHeatmapResponseSchema>;
+export type ScrollHeatmapResponse = z.infer<
+  typeof scrollHeatmapResponseSchema
+>;
+export type ActivityHeatmapResponse = z.infer<
+  typeof activityHeatmapResponseSchema
+>;
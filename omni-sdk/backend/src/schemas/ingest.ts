@@ -30,6 +30,11 @@ const BaseEventSchema = z.object({
     "custom",
     "session_snapshot",
     "rrweb",
+    "identify",
+    "web_vital",
+    "error",
+    "scroll",
+    "dead_click",
   ]),
   timestamp: z.number(),
   url: z.string().url(),
@@ -60,9 +65,79 @@ const ClickEventSchema = BaseEventSchema.extend({
   layoutHash: z.string().optional(),
 });
 
+const CustomEventSchema = BaseEventSchema.extend({
+  type: z.literal("custom"),
+  eventName: z.string().min(1).max(255),
+});
+
+const InputEventSchema = BaseEventSchema.extend({
+  type: z.literal("input"),
+  action: z.enum(["focus", "blur", "change", "submit"]),
+  formId: z.string().min(1).max(512),
+  fieldName: z.string().min(1).max(512).nullable(),
+  selector: z.string().min(1),
+  inputType: z.string().min(1).max(64),
+  durationMs: z.number().int().nonnegative().optional(),
+});
+
+const IdentifyEventSchema = BaseEventSchema.extend({
+  type: z.literal("identify"),
+  userId: z.string().min(1).max(255),
+  traits: z.record(z.any()).optional(),
+});
+
+const WebVitalEventSchema = BaseEventSchema.extend({
+  type: z.literal("web_vital"),
+  name: z.enum(["LCP", "INP", "CLS", "FCP", "TTFB"]),
+  value: z.number().nonnegative(),
+  rating: z.enum(["good", "needs-improvement", "poor"]),
+  selector: z.string().nullable().optional(),
+  navigationType: z.string().max(32).optional(),
+  screenClass: z.enum(["mobile", "tablet", "desktop"]).optional(),
+});
+
+const ErrorEventSchema = BaseEventSchema.extend({
+  type: z.literal("error"),
+  replayId: z.string().optional(),
+  message: z.string().max(1000),
+  errorType: z.string().min(1).max(255),
+  stack: z.string().max(8000).nullable(),
+  source: z.enum(["onerror", "unhandledrejection"]),
+  filename: z.string().optional(),
+  lineno: z.number().int().optional(),
+  colno: z.number().int().optional(),
+});
+
+const ScrollEventSchema = BaseEventSchema.extend({
+  type: z.literal("scroll"),
+  pageViewId: z.string().min(1).max(64),
+  maxDepth: z.number().min(0).max(1),
+  maxScrollY: z.number().int().nonnegative().optional(),
+  screenClass: z.enum(["mobile", "tablet", "desktop"]).optional(),
+});
+
+const DeadClickEventSchema = BaseEventSchema.extend({
+  type: z.literal("dead_click"),
+  clickEventId: z.string().min(1),
+  clickedAt: z.number(),
+  selector: z.string().min(1),
+  xpath: z.string().optional(),
+  tagName: z.string().min(1),
+  responseMs: z.number().int().nonnegative().nullable(),
+  responseType: z.enum(["mutation", "network", "focus", "scroll"]).nullable(),
+  windowMs: z.number().int().positive().max(60000),
+});
+
 const EventSchema = z.union([
   RrwebEventSchema,
   ClickEventSchema,
+  CustomEventSchema,
+  InputEventSchema,
+  IdentifyEventSchema,
+  WebVitalEventSchema,
+  ErrorEventSchema,
+  ScrollEventSchema,
+  DeadClickEventSchema,
   BaseEventSchema,
 ]);
 
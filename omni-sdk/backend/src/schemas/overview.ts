@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimezone } from "../utils/timezone";
 
 /**
  * Overview Analytics Zod Schemas
@@ -15,6 +16,12 @@ export const overviewQuerySchema = z.object({
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD")
     .optional(),
+  timezone: z
+    .string()
+    .optional()
+    .default("UTC")
+    .refine(isValidTimezone, "timezone must be an IANA timezone name")
+    .describe("IANA timezone days are bucketed in, e.g. Africa/Addis_Ababa"),
 });
 
 export const overviewResponseSchema = z.object({
@@ -26,6 +33,7 @@ export const overviewResponseSchema = z.object({
     start: z.string(),
     end: z.string(),
   }),
+  timezone: z.string(),
   cards: z.object({
     totalVisits: z.object({
       current: z.number(),
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { isValidTimezone } from "../utils/timezone";
+
+/**
+ * Paths Analytics Zod Schemas
+ * Query validation and response shape for /analytics/paths
+ */
+
+export const pathsQuerySchema = z
+  .object({
+    projectId: z.string().min(1, "projectId is required"),
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+    endDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+    timezone: z
+      .string()
+      .optional()
+      .default("UTC")
+      .refine(isValidTimezone, "timezone must be an IANA timezone name")
+      .describe("IANA timezone days are bucketed in, e.g. Africa/Addis_Ababa"),
+    page: z
+      .string()
+      .min(1, "page is required")
+      .max(2048)
+      .describe(
+        "Start (next) or end (previous) page path, * matches any characters"
+      ),
+    direction: z
+      .enum(["next", "previous"])
+      .optional()
+      .default("next")
+      .describe("next: pages after the page, previous: pages before it"),
+    steps: z.coerce.number().int().min(1).max(5).optional().default(3),
+    limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "startDate must be <= endDate",
+    path: ["startDate"],
+  });
+
+export const pathsResponseSchema = z.object({
+  range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  timezone: z.string(),
+  page: z.string(),
+  direction: z.enum(["next", "previous"]),
+  steps: z.number().int(),
+  sessions: z.number().int().describe("Sessions with a pageview of the page"),
+  sequences: z.array(
+    z.object({
+      steps: z
+        .array(z.string())
+        .describe("Chronological pages, (entry) and (exit) mark session bounds"),
+      sessions: z.number().int(),
+      percentage: z.number().describe("% of sessions"),
+    })
+  ),
+  // Sankey graph of the returned sequences, links refer to node indexes
+  nodes: z.array(
+    z.object({
+      name: z.string(),
+      step: z.number().int().describe("Column of the node, 0 is the first"),
+    })
+  ),
+  links: z.array(
+    z.object({
+      source: z.number().int(),
+      target: z.number().int(),
+      value: z.number().int(),
+    })
+  ),
+});
+
+export type PathsQuery = z.infer<typeof pathsQuerySchema>;
+export type PathsResponse = z.infer<typeof pathsResponseSchema>;
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+/**
+ * Project Write Key Zod Schemas
+ * Request validation and response shapes for /projects/:projectId/write-keys
+ */
+
+export const createWriteKeySchema = z.object({
+  writeKey: z
+    .string()
+    .min(16, "writeKey must be at least 16 characters")
+    .max(255, "writeKey too long")
+    .optional()
+    .describe("Existing key to register; a random key is generated if omitted"),
+});
+
+export const rotateWriteKeySchema = z.object({
+  graceSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(30 * 24 * 60 * 60)
+    .optional()
+    .default(24 * 60 * 60)
+    .describe("How long the previous keys keep working (default: 24h)"),
+});
+
+export const writeKeySchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  keyPrefix: z.string().describe("First characters of the key, for display"),
+  active: z.boolean(),
+  expiresAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const createdWriteKeySchema = writeKeySchema.extend({
+  writeKey: z.string().describe("Plain-text key, only returned on creation"),
+});
+
+export type CreateWriteKeyInput = z.infer<typeof createWriteKeySchema>;
+export type RotateWriteKeyInput = z.infer<typeof rotateWriteKeySchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimezone } from "../utils/timezone";
 
 /**
  * Retention Analytics Input Schemas
@@ -16,6 +17,77 @@ const isoDateString = z
   )
   .refine((date) => !isNaN(new Date(date).getTime()), "Invalid date string");
 
+/**
+ * Cohort granularity: cohorts are days, ISO weeks (Monday) or months,
+ * and interval N means N of those periods after the cohort period
+ */
+export const retentionGranularitySchema = z.enum(["day", "week", "month"]);
+
+export type RetentionGranularity = z.infer<typeof retentionGranularitySchema>;
+
+/**
+ * Breakdown dimensions, all taken from a person's first visit:
+ * - country: users.country of their first identity
+ * - device: device of their first session
+ * - referrer: referrer domain of their first pageview ("(direct)" without one)
+ * - landing_page: path of their first pageview
+ */
+export const retentionBreakdownSchema = z.enum([
+  "country",
+  "device",
+  "referrer",
+  "landing_page",
+]);
+
+export type RetentionBreakdown = z.infer<typeof retentionBreakdownSchema>;
+
+/**
+ * Retention mode:
+ * - activity: cohort by first seen, retained = any activity (user_daily_activity)
+ * - event: cohort by first startEvent, retained = returnEvent after it (events table)
+ */
+export const retentionModeSchema = z.enum(["activity", "event"]);
+
+export type RetentionMode = z.infer<typeof retentionModeSchema>;
+
+/**
+ * An event matcher for event retention, written as "<type>:<value>":
+ * - custom:<eventName> - custom event name (tracker.trackCustom)
+ * - pageview:<urlPattern> - URL path pattern, `*` matches any characters
+ */
+export const retentionEventSchema = z
+  .string()
+  .max(2048)
+  .transform((value, ctx) => {
+    const separator = value.indexOf(":");
+    const type = value.slice(0, separator);
+    const target = value.slice(separator + 1).trim();
+
+    if (separator > 0 && target && type === "custom") {
+      return { type: "custom" as const, eventName: target };
+    }
+    if (separator > 0 && target && type === "pageview") {
+      return { type: "pageview" as const, urlPattern: target };
+    }
+
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Use "custom:<eventName>" or "pageview:<urlPattern>"',
+    });
+    return z.NEVER;
+  });
+
+export type RetentionEvent = z.infer<typeof retentionEventSchema>;
+
+/**
+ * Default intervals per granularity
+ */
+const DEFAULT_INTERVALS: Record<RetentionGranularity, string> = {
+  day: "0,1,3,7,14,30",
+  week: "0,1,2,3,4,8",
+  month: "0,1,2,3,6",
+};
+
 /**
  * Retention query parameters schema
  * Validates input for GET /analytics/retention endpoint
@@ -28,25 +100,43 @@ export const retentionQuerySchema = z
       .max(255, "projectId too long"),
     startDate: isoDateString,
     endDate: isoDateString,
-    intervals: z
+    timezone: z
       .string()
       .optional()
-      .default("0,1,3,7,14,30")
-      .transform((val) => {
-        // Parse comma-separated integers
-        return val
-          .split(",")
-          .map((i) => {
-            const parsed = parseInt(i.trim(), 10);
-            return isNaN(parsed) ? null : parsed;
-          })
-          .filter((i): i is number => i !== null && i >= 0);
+      .default("UTC")
+      .refine(isValidTimezone, "timezone must be an IANA timezone name")
+      .describe("IANA timezone days are bucketed in, e.g. Africa/Addis_Ababa"),
+    granularity: retentionGranularitySchema.optional().default("day"),
+    intervals: z.string().optional(),
+    breakdown: retentionBreakdownSchema.optional(),
+    mode: retentionModeSchema.optional().default("activity"),
+    startEvent: retentionEventSchema.optional(),
+    returnEvent: retentionEventSchema.optional(),
+    // Largest segments kept, the rest are merged into "(other)"
+    segmentLimit: z.coerce.number().int().min(1).max(50).optional().default(10),
+  })
+  .transform(({ intervals, ...data }) => ({
+    ...data,
+    // Parse comma-separated integers
+    intervals: (intervals ?? DEFAULT_INTERVALS[data.granularity])
+      .split(",")
+      .map((i) => {
+        const parsed = parseInt(i.trim(), 10);
+        return isNaN(parsed) ? null : parsed;
       })
-      .refine(
-        (intervals) => intervals.length > 0,
-        "At least one valid interval required"
-      ),
+      .filter((i): i is number => i !== null && i >= 0),
+  }))
+  .refine((data) => data.intervals.length > 0, {
+    message: "At least one valid interval required",
+    path: ["intervals"],
   })
+  .refine(
+    (data) => data.mode !== "event" || (data.startEvent && data.returnEvent),
+    {
+      message: "startEvent and returnEvent are required in event mode",
+      path: ["startEvent"],
+    }
+  )
   .refine((data) => data.startDate <= data.endDate, {
     message: "startDate must be <= endDate",
     path: ["startDate"],
@@ -57,24 +147,54 @@ export const retentionQuerySchema = z
  */
 export type RetentionQuery = z.infer<typeof retentionQuerySchema>;
 
+const cohortSchema = z.object({
+  date: z
+    .string()
+    .describe("ISO date of cohort start (YYYY-MM-DD): day, Monday or 1st"),
+  size: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe("Number of users in cohort"),
+  retention: z
+    .record(z.number().min(0).max(1))
+    .describe(
+      "Period offset => retention percentage (0-1). Activity mode: period 0 is always 1"
+    ),
+});
+
 /**
  * Retention response schema
  * Describes the shape of the retention analytics response
  */
 export const retentionResponseSchema = z.object({
-  cohorts: z.array(
-    z.object({
-      date: z.string().describe("ISO date of cohort start (YYYY-MM-DD)"),
-      size: z
-        .number()
-        .int()
-        .nonnegative()
-        .describe("Number of users in cohort"),
-      retention: z
-        .record(z.number().min(0).max(1))
-        .describe("Day offset => retention percentage (0-1)"),
-    })
-  ),
+  timezone: z.string().describe("IANA timezone cohort days are in"),
+  granularity: retentionGranularitySchema,
+  mode: retentionModeSchema,
+  startEvent: z
+    .record(z.string())
+    .optional()
+    .describe("Event mode: event that puts a person in a cohort"),
+  returnEvent: z
+    .record(z.string())
+    .optional()
+    .describe("Event mode: event that counts as a return"),
+  cohorts: z.array(cohortSchema),
+  breakdown: retentionBreakdownSchema
+    .optional()
+    .describe("Present when a breakdown was requested"),
+  segments: z
+    .array(
+      z.object({
+        segment: z
+          .string()
+          .describe('Dimension value, "(unknown)" or "(other)"'),
+        size: z.number().int().nonnegative(),
+        cohorts: z.array(cohortSchema),
+      })
+    )
+    .optional()
+    .describe("One cohort matrix per segment, largest first"),
 });
 
 /**
@@ -0,0 +1,138 @@
+import { z } from "zod";
+
+/**
+ * Sessions Zod Schemas
+ * Click detection thresholds for /sessions (rage, dead and error clicks)
+ * and session search filters for /sessions/projects/:projectId
+ */
+
+export const clickThresholdsQuerySchema = z.object({
+  // Rage clicks: ≥ minClicks on the same URL, each within thresholdMs of the previous
+  minClicks: z.coerce.number().int().min(2).max(50).optional().default(3),
+  thresholdMs: z.coerce.number().int().min(50).max(5000).optional().default(600),
+  // Dead clicks: no response before deadThresholdMs (the SDK reports from 500ms)
+  deadThresholdMs: z.coerce
+    .number()
+    .int()
+    .min(500)
+    .max(60000)
+    .optional()
+    .default(1000),
+  // Error clicks: an error within errorWindowMs after the click
+  errorWindowMs: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(10000)
+    .optional()
+    .default(1000),
+});
+
+export type ClickThresholdsQuery = z.infer<typeof clickThresholdsQuerySchema>;
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD format");
+
+// "true" requires the signal, "false" excludes sessions that have it
+const booleanFilter = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true")
+  .optional();
+
+export const sessionSortSchema = z.enum(["recent", "duration", "events"]);
+
+export const sessionSearchQuerySchema = clickThresholdsQuerySchema
+  .extend({
+    // Session start date range (UTC)
+    startDate: dateString.optional(),
+    endDate: dateString.optional(),
+    country: z.string().min(1).max(64).optional(),
+    device: z.string().min(1).max(64).optional(),
+    // Identified user (aliased clientIds included) or anonymous client
+    userId: z.string().min(1).optional(),
+    clientId: z.string().min(1).optional(),
+    // A page whose URL contains this value was visited in the session
+    url: z.string().min(1).max(2048).optional(),
+    // A custom event with this name was tracked in the session
+    event: z.string().min(1).max(255).optional(),
+    minDurationMs: z.coerce.number().int().min(0).optional(),
+    hasRageClicks: booleanFilter,
+    hasErrors: booleanFilter,
+    sort: sessionSortSchema.optional().default("recent"),
+    // Opaque cursor from the previous page's nextCursor
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  })
+  .refine(
+    (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    {
+      message: "startDate must be <= endDate",
+      path: ["startDate"],
+    }
+  );
+
+export type SessionSort = z.infer<typeof sessionSortSchema>;
+export type SessionSearchQuery = z.infer<typeof sessionSearchQuerySchema>;
+
+// Time window of a replay, in epoch milliseconds: [from, to)
+export const replayWindowQuerySchema = z
+  .object({
+    from: z.coerce.number().int().min(0).optional(),
+    to: z.coerce.number().int().min(0).optional(),
+    // Include the full snapshot before from, so playback can start at from
+    snapshot: z
+      .enum(["true", "false"])
+      .optional()
+      .default("true")
+      .transform((value) => value === "true"),
+    // ndjson streams one event per line, with no window size limit
+    format: z.enum(["json", "ndjson"]).optional().default("json"),
+  })
+  .refine(
+    (data) =>
+      data.from === undefined || data.to === undefined || data.from < data.to,
+    {
+      message: "from must be < to",
+      path: ["from"],
+    }
+  );
+
+export const replayChunkParamsSchema = z.object({
+  replayId: z.string().min(1, "replayId is required"),
+  sequence: z.coerce.number().int().min(0),
+});
+
+// Compacted chunk of a replay (see utils/replayChunks)
+export const replayChunkInfoSchema = z.object({
+  sequence: z.number(),
+  startTime: z.string(),
+  endTime: z.string(),
+  eventCount: z.number(),
+  fullSnapshotAt: z
+    .string()
+    .nullable()
+    .describe("First full snapshot in the chunk, where playback can start"),
+});
+
+export const replayManifestSchema = z.object({
+  replayId: z.string(),
+  url: z.string().describe("First page of the replay"),
+  eventCount: z.number(),
+  startTime: z.string(),
+  endTime: z.string(),
+  chunks: z
+    .array(replayChunkInfoSchema)
+    .describe("GET /sessions/replays/:replayId/chunks/:sequence"),
+  live: z
+    .object({
+      eventCount: z.number(),
+      startTime: z.string(),
+      endTime: z.string(),
+    })
+    .nullable()
+    .describe("Events not compacted yet: GET /sessions/replays/:replayId/live"),
+});
+
+export type ReplayWindowQuery = z.infer<typeof replayWindowQuerySchema>;
+export type ReplayChunkParams = z.infer<typeof replayChunkParamsSchema>;
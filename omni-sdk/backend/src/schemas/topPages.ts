@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimezone } from "../utils/timezone";
 
 /**
  * Top Pages Analytics Zod Schemas
@@ -13,6 +14,12 @@ export const topPagesQuerySchema = z.object({
   endDate: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+  timezone: z
+    .string()
+    .optional()
+    .default("UTC")
+    .refine(isValidTimezone, "timezone must be an IANA timezone name")
+    .describe("IANA timezone days are bucketed in, e.g. Africa/Addis_Ababa"),
   limit: z.coerce.number().int().min(1).max(100).optional().default(10),
 });
 
@@ -21,6 +28,7 @@ export const topPagesResponseSchema = z.object({
     startDate: z.string(),
     endDate: z.string(),
   }),
+  timezone: z.string(),
   pages: z.array(
     z.object({
       path: z.string(),
@@ -28,6 +36,23 @@ export const topPagesResponseSchema = z.object({
       avgTimeSeconds: z.number().int(),
     })
   ),
+  entryPages: z.array(
+    z.object({
+      path: z.string(),
+      entries: z.number().int().describe("Sessions starting on the page"),
+      bounceRate: z
+        .number()
+        .describe("Entries with no other pageview, % of entries"),
+    })
+  ),
+  exitPages: z.array(
+    z.object({
+      path: z.string(),
+      exits: z.number().int().describe("Sessions ending on the page"),
+      views: z.number().int(),
+      exitRate: z.number().describe("Exits, % of the page's views"),
+    })
+  ),
 });
 
 export type TopPagesQuery = z.infer<typeof topPagesQuerySchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimezone } from "../utils/timezone";
 
 /**
  * Traffic Analytics Dashboard Input Schemas
@@ -32,9 +33,8 @@ export const trafficAnalyticsQuerySchema = z
       .string()
       .optional()
       .default("UTC")
-      .describe(
-        "Timezone for date calculations (currently UTC-only for backend)"
-      ),
+      .refine(isValidTimezone, "timezone must be an IANA timezone name")
+      .describe("IANA timezone days are bucketed in, e.g. Africa/Addis_Ababa"),
   })
   .refine((data) => data.startDate <= data.endDate, {
     message: "startDate must be <= endDate",
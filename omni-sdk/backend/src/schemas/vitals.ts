@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+/**
+ * Web Vitals Zod Schemas
+ * Query validation and response shape for /analytics/vitals
+ */
+
+export const webVitalMetricSchema = z.enum(["LCP", "INP", "CLS", "FCP", "TTFB"]);
+
+export const webVitalsQuerySchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be ISO date YYYY-MM-DD"),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be ISO date YYYY-MM-DD"),
+  metric: webVitalMetricSchema.optional(),
+  path: z.string().startsWith("/", "path must start with /").optional(),
+});
+
+const vitalStatSchema = z.object({
+  metric: webVitalMetricSchema,
+  p75: z.number(), // ms, CLS is unitless
+  samples: z.number().int(),
+  rating: z.enum(["good", "needs-improvement", "poor"]), // rating of the p75
+});
+
+export const webVitalsResponseSchema = z.object({
+  range: z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+  }),
+  summary: z.array(vitalStatSchema),
+  byUrl: z.array(vitalStatSchema.extend({ path: z.string() })),
+  byDevice: z.array(vitalStatSchema.extend({ device: z.string().nullable() })),
+  byCountry: z.array(
+    vitalStatSchema.extend({ country: z.string().nullable() })
+  ),
+});
+
+export type WebVitalMetric = z.infer<typeof webVitalMetricSchema>;
+export type WebVitalsQuery = z.infer<typeof webVitalsQuerySchema>;
+export type WebVitalsResponse = z.infer<typeof webVitalsResponseSchema>;
@@ -15,7 +15,12 @@ export type EventType =
   | "route"
   | "custom"
   | "session_snapshot"
-  | "rrweb";
+  | "rrweb"
+  | "identify"
+  | "web_vital"
+  | "error"
+  | "scroll"
+  | "dead_click";
 
 export type BaseEvent = {
   eventId: string;
@@ -104,3 +109,142 @@ export type PageViewEventData = {
   screenClass?: "mobile" | "tablet" | "desktop";
   properties?: Record<string, any>;
 };
+
+export type CustomEventData = {
+  type: "custom";
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  timestamp: number;
+  url: string;
+  referrer?: string;
+  pageDimensions: Dimensions;
+  viewport: Dimensions;
+  eventName: string;
+  properties?: Record<string, any>;
+};
+
+export type InputEventData = {
+  type: "input";
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  timestamp: number;
+  url: string;
+  referrer?: string;
+  pageDimensions: Dimensions;
+  viewport: Dimensions;
+  action: "focus" | "blur" | "change" | "submit";
+  formId: string;
+  fieldName: string | null;
+  selector: string;
+  inputType: string;
+  durationMs?: number;
+  properties?: Record<string, any>;
+};
+
+export type IdentifyEventData = {
+  type: "identify";
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string; // anonymous identity being aliased
+  userId: string;
+  timestamp: number;
+  url: string;
+  referrer?: string;
+  pageDimensions: Dimensions;
+  viewport: Dimensions;
+  traits?: Record<string, any>;
+  properties?: Record<string, any>;
+};
+
+export type WebVitalEventData = {
+  type: "web_vital";
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  timestamp: number;
+  url: string; // page the metric belongs to
+  referrer?: string;
+  pageDimensions: Dimensions;
+  viewport: Dimensions;
+  name: "LCP" | "INP" | "CLS" | "FCP" | "TTFB";
+  value: number; // ms, CLS is unitless
+  rating: "good" | "needs-improvement" | "poor";
+  selector?: string | null;
+  navigationType?: string;
+  screenClass?: "mobile" | "tablet" | "desktop";
+  properties?: Record<string, any>;
+};
+
+export type ErrorEventData = {
+  type: "error";
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  replayId?: string;
+  clientId: string;
+  userId: string | null;
+  timestamp: number;
+  url: string;
+  referrer?: string;
+  pageDimensions: Dimensions;
+  viewport: Dimensions;
+  message: string;
+  errorType: string;
+  stack: string | null;
+  source: "onerror" | "unhandledrejection";
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  properties?: Record<string, any>;
+};
+
+export type ScrollEventData = {
+  type: "scroll";
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  timestamp: number;
+  url: string; // page the depth belongs to
+  referrer?: string;
+  pageDimensions: Dimensions;
+  viewport: Dimensions;
+  pageViewId: string;
+  maxDepth: number; // 0-1, bottom of viewport / page height
+  maxScrollY?: number;
+  screenClass?: "mobile" | "tablet" | "desktop";
+  properties?: Record<string, any>;
+};
+
+export type DeadClickEventData = {
+  type: "dead_click";
+  eventId: string;
+  projectId: string;
+  sessionId: string;
+  clientId: string;
+  userId: string | null;
+  timestamp: number;
+  url: string;
+  referrer?: string;
+  pageDimensions: Dimensions;
+  viewport: Dimensions;
+  clickEventId: string; // eventId of the click
+  clickedAt: number;
+  selector: string;
+  xpath?: string;
+  tagName: string;
+  responseMs: number | null; // first response after the click, null = none within windowMs
+  responseType: "mutation" | "network" | "focus" | "scroll" | null;
+  windowMs: number;
+  properties?: Record<string, any>;
+};
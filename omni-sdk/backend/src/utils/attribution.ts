@@ -0,0 +1,253 @@
+/**
+ * Traffic attribution utility
+ * Classifies how a visitor arrived from the landing URL and the referrer
+ *
+ * Precedence (first match wins):
+ * 1. Paid click IDs (gclid, msclkid, ...) - paid, source from the ad network
+ * 2. utm_medium - paid, email, social or organic search by medium name
+ * 3. utm_source - known search engine / social network / email provider
+ * 4. Referrer domain - search engine, social network, or referral
+ * 5. No referrer, or a referrer on the same site - direct
+ */
+
+export type Channel =
+  | "organic_search"
+  | "social"
+  | "paid"
+  | "email"
+  | "direct"
+  | "referral";
+
+export type Attribution = {
+  channel: Channel;
+  source: string | null; // utm_source, ad network or referrer domain
+  medium: string | null;
+  campaign: string | null;
+  term: string | null;
+  content: string | null;
+  referrerDomain: string | null;
+};
+
+// Click IDs appended by ad networks to paid clicks
+const PAID_CLICK_IDS: Record<string, string> = {
+  gclid: "google",
+  gbraid: "google",
+  wbraid: "google",
+  dclid: "google",
+  msclkid: "bing",
+  ttclid: "tiktok",
+  twclid: "twitter",
+  li_fat_id: "linkedin",
+};
+
+// fbclid is added to every outbound Facebook link, paid or not
+const SOCIAL_CLICK_IDS: Record<string, string> = {
+  fbclid: "facebook",
+};
+
+const PAID_MEDIUM =
+  /^(cpc|ppc|cpm|cpv|cpa|paid.*|display|banner|retargeting|remarketing|affiliate)$/;
+const EMAIL_MEDIUM = /^(e-?mail|newsletter)$/;
+const SOCIAL_MEDIUM = /^(social|social[-_ ]?(network|media)|sm)$/;
+const ORGANIC_MEDIUM = /^organic$/;
+
+// Registrable names: "google" matches google.com, news.google.com, google.co.uk
+const SEARCH_ENGINES = [
+  "google",
+  "bing",
+  "yahoo",
+  "duckduckgo",
+  "baidu",
+  "yandex",
+  "ecosia",
+  "naver",
+  "startpage",
+  "qwant",
+  "brave",
+];
+
+const SOCIAL_NETWORKS = [
+  "facebook",
+  "fb",
+  "instagram",
+  "twitter",
+  "x",
+  "t",
+  "linkedin",
+  "lnkd",
+  "reddit",
+  "youtube",
+  "tiktok",
+  "pinterest",
+  "threads",
+  "telegram",
+  "whatsapp",
+  "snapchat",
+  "quora",
+  "mastodon",
+];
+
+const EMAIL_PROVIDERS = [
+  "gmail",
+  "outlook",
+  "newsletter",
+  "mailchimp",
+  "substack",
+];
+
+// Webmail hosts, checked before search engines (mail.google.com is not search)
+const WEBMAIL_HOST = /^(mail\.|outlook\.(live|office|office365)\.com$)/;
+
+// Second-level labels of country domains (google.co.uk, google.com.br)
+const COUNTRY_SLDS = ["co", "com", "org", "net", "ac", "gov", "edu"];
+
+/**
+ * Host of a URL without "www.", or null if it is not an absolute URL
+ */
+function hostOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return host.replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a domain, or a bare utm_source like "google", is one of the names
+ * "m.facebook.com", "facebook.co.uk" and "facebook" all match "facebook"
+ */
+function matches(domain: string, names: string[]): boolean {
+  const labels = domain.toLowerCase().split(".");
+  if (labels.length === 1) return names.includes(labels[0]);
+
+  // Registrable label: second to last, or third to last on country domains
+  const last = labels[labels.length - 1];
+  const secondLast = labels[labels.length - 2];
+  const name =
+    labels.length > 2 && last.length === 2 && COUNTRY_SLDS.includes(secondLast)
+      ? labels[labels.length - 3]
+      : secondLast;
+  return names.includes(name);
+}
+
+/**
+ * Same site: the referrer is the page's own host or one of its subdomains
+ */
+function isSameSite(
+  referrerDomain: string,
+  pageDomain: string | null
+): boolean {
+  if (!pageDomain) return false;
+  return (
+    referrerDomain === pageDomain ||
+    referrerDomain.endsWith(`.${pageDomain}`) ||
+    pageDomain.endsWith(`.${referrerDomain}`)
+  );
+}
+
+/**
+ * Classify a visit from its landing URL and referrer
+ *
+ * @param url - Full landing page URL, query string included
+ * @param referrer - document.referrer of the landing page
+ */
+export function parseAttribution(
+  url: string | null | undefined,
+  referrer: string | null | undefined
+): Attribution {
+  let params = new URLSearchParams();
+  try {
+    if (url) params = new URL(url).searchParams;
+  } catch {
+    // Relative or malformed URL: no UTM parameters
+  }
+
+  const param = (name: string) => {
+    const value = params.get(name)?.trim();
+    return value ? value.slice(0, 255) : null;
+  };
+
+  const pageDomain = hostOf(url);
+  const externalReferrer = hostOf(referrer);
+  const referrerDomain =
+    externalReferrer && !isSameSite(externalReferrer, pageDomain)
+      ? externalReferrer
+      : null;
+
+  const utmSource = param("utm_source")?.toLowerCase() ?? null;
+  const medium = param("utm_medium")?.toLowerCase() ?? null;
+  const attribution = {
+    medium,
+    campaign: param("utm_campaign"),
+    term: param("utm_term"),
+    content: param("utm_content"),
+    referrerDomain,
+  };
+
+  const paidClickId = Object.keys(PAID_CLICK_IDS).find((id) =>
+    params.has(id)
+  );
+  if (paidClickId) {
+    return {
+      channel: "paid",
+      source: utmSource ?? PAID_CLICK_IDS[paidClickId],
+      ...attribution,
+    };
+  }
+
+  const source = utmSource ?? referrerDomain;
+
+  if (medium) {
+    if (PAID_MEDIUM.test(medium)) {
+      return { channel: "paid", source, ...attribution };
+    }
+    if (EMAIL_MEDIUM.test(medium)) {
+      return { channel: "email", source, ...attribution };
+    }
+    if (SOCIAL_MEDIUM.test(medium)) {
+      return { channel: "social", source, ...attribution };
+    }
+    if (ORGANIC_MEDIUM.test(medium)) {
+      return {
+        channel:
+          source && matches(source, SOCIAL_NETWORKS)
+            ? "social"
+            : "organic_search",
+        source,
+        ...attribution,
+      };
+    }
+  }
+
+  const socialClickId = Object.keys(SOCIAL_CLICK_IDS).find((id) =>
+    params.has(id)
+  );
+
+  if (source) {
+    if (WEBMAIL_HOST.test(source)) {
+      return { channel: "email", source, ...attribution };
+    }
+    if (matches(source, SEARCH_ENGINES)) {
+      return { channel: "organic_search", source, ...attribution };
+    }
+    if (socialClickId || matches(source, SOCIAL_NETWORKS)) {
+      return { channel: "social", source, ...attribution };
+    }
+    if (matches(source, EMAIL_PROVIDERS)) {
+      return { channel: "email", source, ...attribution };
+    }
+    return { channel: "referral", source, ...attribution };
+  }
+
+  if (socialClickId) {
+    return {
+      channel: "social",
+      source: SOCIAL_CLICK_IDS[socialClickId],
+      ...attribution,
+    };
+  }
+
+  return { channel: "direct", source: null, ...attribution };
+}
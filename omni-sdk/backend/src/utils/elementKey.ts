@@ -0,0 +1,76 @@
+import { createHash } from "crypto";
+
+/**
+ * Element key utility
+ * Identifies the clicked element across page loads for click maps, so that
+ * small DOM changes do not split an element into several rows
+ *
+ * - the xpath is reduced to its last ELEMENT_PATH_DEPTH tag names: wrappers
+ *   added higher up the tree or siblings inserted before the element are ignored
+ * - the element text hash tells apart siblings with the same structure
+ *   (e.g. two buttons in a toolbar); without it the sibling index is kept
+ * Clicks without an xpath fall back to the CSS selector minus its nth-child parts
+ */
+
+export type ElementIdentity = {
+  xpath?: string | null;
+  elementTextHash?: string | null;
+  selector?: string | null;
+};
+
+// How many xpath steps (from the element up) identify an element
+const ELEMENT_PATH_DEPTH = 4;
+
+// xpath step: "div[3]" -> tag "div", index "3"
+const XPATH_STEP = /^([a-z0-9-]+)(?:\[(\d+)\])?$/i;
+
+/**
+ * Reduce an xpath to the tag names of its last steps
+ * The sibling index of the element itself is kept when keepIndex is true
+ */
+export function normalizeXPath(xpath: string, keepIndex = false): string {
+  const steps = xpath.split("/").filter(Boolean).slice(-ELEMENT_PATH_DEPTH);
+
+  return steps
+    .map((step, i) => {
+      const match = step.match(XPATH_STEP);
+      if (!match) return step.toLowerCase();
+
+      const tag = match[1].toLowerCase();
+      const isElement = i === steps.length - 1;
+      return isElement && keepIndex && match[2] ? `${tag}[${match[2]}]` : tag;
+    })
+    .join("/");
+}
+
+/**
+ * Drop positional parts of a CSS selector (":nth-child(3)", ":nth-of-type(2)")
+ */
+export function normalizeSelector(selector: string): string {
+  return selector
+    .replace(/:nth-(?:child|of-type)\(\d+\)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Compute the stable key of a clicked element (32 hex chars)
+ * Returns null when the click carries nothing to identify the element
+ */
+export function computeElementKey(element: ElementIdentity): string | null {
+  const textHash = element.elementTextHash || "";
+
+  let basis: string;
+  if (element.xpath) {
+    basis = `xpath:${normalizeXPath(element.xpath, !textHash)}`;
+  } else if (element.selector) {
+    basis = `css:${normalizeSelector(element.selector)}`;
+  } else {
+    return null;
+  }
+
+  return createHash("sha256")
+    .update([basis, textHash].join("\n"))
+    .digest("hex")
+    .slice(0, 32);
+}
@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+
+/**
+ * Error fingerprinting utility
+ * Groups error occurrences into issues: same type + same top stack frames = same issue
+ *
+ * Frames are normalized so that noise does not split an issue:
+ * - line/column numbers are dropped (they move on every deploy)
+ * - origin, query string and hash are stripped from file URLs
+ * - build hashes in file names are removed (main.3f2a1b9c.js -> main.js)
+ * Errors without a usable stack fall back to the normalized message
+ */
+
+export type StackFrame = {
+  fn: string;
+  file: string;
+};
+
+// How many top frames identify an issue
+const FINGERPRINT_FRAMES = 5;
+
+// Chrome / Edge / Node: "    at fn (https://x.com/a.js:1:2)" or "    at https://x.com/a.js:1:2"
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):\d+:\d+\)?$/;
+
+// Firefox / Safari: "fn@https://x.com/a.js:1:2"
+const GECKO_FRAME = /^\s*(.*?)@(.+?):\d+:\d+$/;
+
+/**
+ * Strip origin, query, hash and build hashes from a script URL
+ */
+function normalizeFile(file: string): string {
+  return file
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, "")
+    .replace(/[?#].*$/, "")
+    .replace(/[.-][0-9a-f]{6,}(?=\.)/gi, "");
+}
+
+/**
+ * Parse a stack trace into normalized frames (top first)
+ * Unrecognized lines (e.g. the "TypeError: ..." header) are skipped
+ */
+export function parseStack(stack: string | null | undefined): StackFrame[] {
+  if (!stack) return [];
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split("\n")) {
+    const match = line.match(V8_FRAME) || line.match(GECKO_FRAME);
+    if (!match) continue;
+
+    frames.push({
+      fn: (match[1] || "").trim() || "<anonymous>",
+      file: normalizeFile(match[2]),
+    });
+  }
+  return frames;
+}
+
+/**
+ * Replace volatile parts of a message (ids, numbers, quoted values)
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(
+      /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+      "<uuid>"
+    )
+    .replace(/0x[0-9a-f]+/gi, "<hex>")
+    .replace(/\d+/g, "<n>")
+    .replace(/(["'`]).*?\1/g, "<str>")
+    .trim();
+}
+
+/**
+ * Compute the issue fingerprint of an error
+ *
+ * @returns fingerprint (32 hex chars) and culprit (top frame, for display)
+ */
+export function computeErrorFingerprint(
+  errorType: string,
+  message: string,
+  stack: string | null | undefined
+): { fingerprint: string; culprit: string | null } {
+  const frames = parseStack(stack).slice(0, FINGERPRINT_FRAMES);
+
+  const basis =
+    frames.length > 0
+      ? [errorType, ...frames.map((frame) => `${frame.fn}@${frame.file}`)]
+      : [errorType, normalizeMessage(message)];
+
+  const fingerprint = createHash("sha256")
+    .update(basis.join("\n"))
+    .digest("hex")
+    .slice(0, 32);
+
+  const culprit = frames[0] ? `${frames[0].fn} (${frames[0].file})` : null;
+
+  return { fingerprint, culprit };
+}
@@ -0,0 +1,162 @@
+import { gzipSync, gunzipSync } from "zlib";
+import type { RrwebEventPayload } from "../types";
+
+/**
+ * Replay chunking
+ * Splits the rrweb events of a replay into time-ordered chunks of at most
+ * maxSeconds and maxBytes (of JSON) each, stored gzip-compressed
+ *
+ * A chunk also ends before each rrweb Meta event (a page load, followed by
+ * its full snapshot), so most chunks start where playback can start
+ */
+
+// Replay event as stored in a chunk and returned by the sessions API
+export type ReplayEvent = {
+  id: string;
+  eventId: string;
+  timestamp: string; // ISO 8601
+  url: string;
+  rrwebPayload: RrwebEventPayload;
+  schemaVersion: string;
+  pageWidth: number | null;
+  pageHeight: number | null;
+  viewportWidth: number | null;
+  viewportHeight: number | null;
+};
+
+export type ReplayChunk = {
+  startTime: Date;
+  endTime: Date;
+  eventCount: number;
+  rawBytes: number;
+  compressedBytes: number;
+  fullSnapshotAt: Date | null;
+  data: Buffer;
+};
+
+export type ReplayChunkOptions = {
+  maxSeconds?: number; // default 60
+  maxBytes?: number; // default 256 KB
+};
+
+// rrweb EventType values used here
+const FULL_SNAPSHOT = 2;
+const META = 4;
+
+/**
+ * Replay event of a stored rrweb_events row
+ */
+export function toReplayEvent(row: {
+  id: string;
+  eventId: string;
+  timestamp: Date;
+  url: string;
+  rrwebPayload: unknown;
+  schemaVersion: string;
+  pageWidth: number | null;
+  pageHeight: number | null;
+  viewportWidth: number | null;
+  viewportHeight: number | null;
+}): ReplayEvent {
+  return {
+    id: row.id,
+    eventId: row.eventId,
+    timestamp: row.timestamp.toISOString(),
+    url: row.url,
+    rrwebPayload: row.rrwebPayload as RrwebEventPayload,
+    schemaVersion: row.schemaVersion,
+    pageWidth: row.pageWidth,
+    pageHeight: row.pageHeight,
+    viewportWidth: row.viewportWidth,
+    viewportHeight: row.viewportHeight,
+  };
+}
+
+/**
+ * Sort events by timestamp, keeping the first event of each eventId
+ * Compacted and live events of a replay can overlap after an ingest retry
+ */
+export function mergeReplayEvents(...groups: ReplayEvent[][]): ReplayEvent[] {
+  const seen = new Set<string>();
+  const events: ReplayEvent[] = [];
+
+  for (const event of groups.flat()) {
+    if (seen.has(event.eventId)) continue;
+    seen.add(event.eventId);
+    events.push(event);
+  }
+
+  return events.sort(
+    (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)
+  );
+}
+
+/**
+ * Compress a run of time-ordered events into a chunk
+ */
+function toChunk(events: ReplayEvent[]): ReplayChunk {
+  const json = JSON.stringify(events);
+  const data = gzipSync(json);
+  const fullSnapshot = events.find(
+    (event) => event.rrwebPayload.type === FULL_SNAPSHOT
+  );
+
+  return {
+    startTime: new Date(events[0].timestamp),
+    endTime: new Date(events[events.length - 1].timestamp),
+    eventCount: events.length,
+    rawBytes: Buffer.byteLength(json),
+    compressedBytes: data.length,
+    fullSnapshotAt: fullSnapshot ? new Date(fullSnapshot.timestamp) : null,
+    data,
+  };
+}
+
+/**
+ * Split the events of a replay into compressed, time-ordered chunks
+ * An event larger than maxBytes gets a chunk of its own
+ */
+export function buildReplayChunks(
+  events: ReplayEvent[],
+  options: ReplayChunkOptions = {}
+): ReplayChunk[] {
+  const maxMs = (options.maxSeconds ?? 60) * 1000;
+  const maxBytes = options.maxBytes ?? 256 * 1024;
+
+  const chunks: ReplayChunk[] = [];
+  let current: ReplayEvent[] = [];
+  let currentBytes = 0;
+
+  for (const event of mergeReplayEvents(events)) {
+    // +1 for the separating comma in the JSON array
+    const bytes = Buffer.byteLength(JSON.stringify(event)) + 1;
+
+    if (
+      current.length > 0 &&
+      (event.rrwebPayload.type === META ||
+        Date.parse(event.timestamp) - Date.parse(current[0].timestamp) >=
+          maxMs ||
+        currentBytes + bytes > maxBytes)
+    ) {
+      chunks.push(toChunk(current));
+      current = [];
+      currentBytes = 0;
+    }
+
+    current.push(event);
+    currentBytes += bytes;
+  }
+
+  if (current.length > 0) {
+    chunks.push(toChunk(current));
+  }
+
+  return chunks;
+}
+
+/**
+ * Decompress the events of a stored chunk
+ */
+export function readReplayChunk(data: Buffer): ReplayEvent[] {
+  return JSON.parse(gunzipSync(data).toString("utf8"));
+}
@@ -0,0 +1,176 @@
+import type { RrwebEventPayload } from "../types";
+
+/**
+ * rrweb heatmap derivation
+ * Turns the stored rrweb events of one replay into heatmap cells on the same
+ * 50x50 page grid as heatmap_clicks
+ *
+ * - move: one count per recorded pointer position (MouseMove, TouchMove, Drag)
+ * - attention: milliseconds each cell spent inside the viewport
+ *
+ * Pointer positions are viewport coordinates; they are moved to page
+ * coordinates with the last document scroll offset. Idle gaps between events
+ * are capped so a tab left open does not dominate attention
+ */
+
+export type RrwebHeatmapType = "move" | "attention";
+
+export type RrwebHeatmapCell = {
+  url: string;
+  screenClass: string;
+  type: RrwebHeatmapType;
+  gridX: number;
+  gridY: number;
+  value: number;
+};
+
+// Stored rrweb row (rrweb_events) with the page info captured by the SDK
+export type StoredRrwebEvent = {
+  timestamp: Date;
+  url: string;
+  rrwebPayload: RrwebEventPayload;
+  pageWidth: number | null;
+  pageHeight: number | null;
+  viewportWidth: number | null;
+  viewportHeight: number | null;
+};
+
+const GRID_SIZE = 50;
+
+// Longest interval counted as attention between two events
+const MAX_ATTENTION_GAP_MS = 30_000;
+
+// rrweb EventType / IncrementalSource values used here
+const FULL_SNAPSHOT = 2;
+const INCREMENTAL_SNAPSHOT = 3;
+const META = 4;
+const SOURCE_MOUSE_MOVE = 1;
+const SOURCE_SCROLL = 3;
+const SOURCE_VIEWPORT_RESIZE = 4;
+const SOURCE_TOUCH_MOVE = 6;
+const SOURCE_DRAG = 12;
+
+/**
+ * Same breakpoints as the SDK's getScreenClass
+ */
+export function screenClassForWidth(viewportWidth: number): string {
+  if (viewportWidth < 768) return "mobile";
+  if (viewportWidth < 1024) return "tablet";
+  return "desktop";
+}
+
+function toBucket(norm: number): number {
+  return Math.min(Math.max(Math.floor(norm * GRID_SIZE), 0), GRID_SIZE - 1);
+}
+
+/**
+ * Derive move and attention cells from the events of one replay
+ * Events may be passed in any order; cells with the same key are summed
+ */
+export function deriveRrwebHeatmapCells(
+  events: StoredRrwebEvent[]
+): RrwebHeatmapCell[] {
+  const sorted = [...events].sort((a, b) => eventTime(a) - eventTime(b));
+
+  const cells = new Map<string, RrwebHeatmapCell>();
+  const add = (
+    type: RrwebHeatmapType,
+    url: string,
+    screenClass: string,
+    gridX: number,
+    gridY: number,
+    value: number
+  ) => {
+    const key = `${type}|${url}|${screenClass}|${gridX}|${gridY}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.value += value;
+    } else {
+      cells.set(key, { url, screenClass, type, gridX, gridY, value });
+    }
+  };
+
+  // Page state replayed from the events
+  let documentId: number | null = null;
+  let scrollX = 0;
+  let scrollY = 0;
+  let viewport = { w: 0, h: 0 };
+  let page = { w: 0, h: 0 };
+  let url = "";
+  let lastTime: number | null = null;
+
+  for (const event of sorted) {
+    const time = eventTime(event);
+
+    // Attention for the interval since the previous event (state before this one)
+    if (lastTime !== null && page.w > 0 && page.h > 0 && viewport.h > 0) {
+      const duration = Math.min(time - lastTime, MAX_ATTENTION_GAP_MS);
+      if (duration > 0) {
+        const screenClass = screenClassForWidth(viewport.w);
+        const top = toBucket(scrollY / page.h);
+        const bottom = toBucket((scrollY + viewport.h) / page.h - 1e-9);
+        const left = toBucket(scrollX / page.w);
+        const right = toBucket((scrollX + viewport.w) / page.w - 1e-9);
+
+        for (let gridY = top; gridY <= bottom; gridY++) {
+          for (let gridX = left; gridX <= right; gridX++) {
+            add("attention", url, screenClass, gridX, gridY, duration);
+          }
+        }
+      }
+    }
+    lastTime = time;
+
+    // Page info captured by the SDK with every rrweb event
+    url = event.url;
+    if (event.pageWidth && event.pageHeight) {
+      page = { w: event.pageWidth, h: event.pageHeight };
+    }
+    if (event.viewportWidth && event.viewportHeight) {
+      viewport = { w: event.viewportWidth, h: event.viewportHeight };
+    }
+
+    const payload = event.rrwebPayload;
+    const data = payload?.data || {};
+
+    if (payload?.type === META && data.width && data.height) {
+      viewport = { w: data.width, h: data.height };
+    } else if (payload?.type === FULL_SNAPSHOT) {
+      documentId = data.node?.id ?? null;
+      scrollX = data.initialOffset?.left ?? 0;
+      scrollY = data.initialOffset?.top ?? 0;
+    } else if (payload?.type === INCREMENTAL_SNAPSHOT) {
+      if (data.source === SOURCE_SCROLL && data.id === documentId) {
+        scrollX = data.x ?? 0;
+        scrollY = data.y ?? 0;
+      } else if (data.source === SOURCE_VIEWPORT_RESIZE) {
+        viewport = { w: data.width, h: data.height };
+      } else if (
+        (data.source === SOURCE_MOUSE_MOVE ||
+          data.source === SOURCE_TOUCH_MOVE ||
+          data.source === SOURCE_DRAG) &&
+        Array.isArray(data.positions) &&
+        page.w > 0 &&
+        page.h > 0
+      ) {
+        const screenClass = screenClassForWidth(viewport.w || page.w);
+        for (const position of data.positions) {
+          add(
+            "move",
+            url,
+            screenClass,
+            toBucket((position.x + scrollX) / page.w),
+            toBucket((position.y + scrollY) / page.h),
+            1
+          );
+        }
+      }
+    }
+  }
+
+  return Array.from(cells.values());
+}
+
+function eventTime(event: StoredRrwebEvent): number {
+  return event.rrwebPayload?.timestamp ?? event.timestamp.getTime();
+}
@@ -0,0 +1,53 @@
+/**
+ * Session search cursor utility
+ * Keyset pagination cursors for GET /sessions/projects/:projectId
+ *
+ * A cursor is the position of the last session of a page: its sort key and id
+ * (the tie-breaker). The sort key is kept as the exact decimal string Postgres
+ * returned, so timestamps with microseconds do not lose precision in JS numbers.
+ * The cursor is bound to the sort it was created with: reusing it with another
+ * sort is rejected instead of silently skipping sessions
+ */
+
+import type { SessionSort } from "../schemas/sessions";
+
+export type SessionCursor = {
+  sort: SessionSort;
+  value: string;
+  id: string;
+};
+
+const SORTS: SessionSort[] = ["recent", "duration", "events"];
+
+// Decimal number as returned by Postgres for NUMERIC
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export function encodeSessionCursor(cursor: SessionCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.sort, cursor.value, cursor.id])
+  ).toString("base64url");
+}
+
+/**
+ * Decode a cursor, or null if it is malformed
+ */
+export function decodeSessionCursor(encoded: string): SessionCursor | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8")
+    );
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+
+    const [sort, value, id] = decoded;
+    if (!SORTS.includes(sort)) return null;
+    if (typeof value !== "string" || !DECIMAL.test(value)) return null;
+    if (typeof id !== "string" || id.length === 0) return null;
+
+    return { sort, value, id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Timezone utility
+ * Validates the IANA timezone analytics endpoints bucket days in
+ *
+ * Only names from the IANA database are accepted ("Africa/Addis_Ababa",
+ * "America/New_York", "UTC"). Postgres also accepts POSIX offsets like "UTC+3",
+ * but reads them with the opposite sign of ISO 8601, so they are rejected here
+ */
+
+// Area/Location names, plus single-word zones like UTC
+const IANA_NAME = /^[A-Za-z][A-Za-z0-9_+-]*(\/[A-Za-z0-9_+-]+){0,2}$/;
+
+/**
+ * Whether a string is an IANA timezone name known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (timezone.length > 64 || !IANA_NAME.test(timezone)) return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function formatDateInTimezone(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
@@ -0,0 +1,13 @@
+/**
+ * URL pattern utility
+ * Page patterns of funnels, retention and paths ("/blog/*", "/checkout")
+ * share one syntax, so the same pattern matches the same pages everywhere
+ */
+
+/**
+ * Convert a URL pattern to a SQL LIKE pattern
+ * `*` matches any characters, LIKE wildcards in the input are escaped
+ */
+export function toLikePattern(pattern: string): string {
+  return pattern.replace(/[\\%_]/g, "\\$&").replace(/\*/g, "%");
+}
@@ -1,25 +1,71 @@
 import { Worker } from "bullmq";
-import { createIngestionQueue } from "./queue";
 import {
-  processRrwebEvent,
-  processClickEvent,
-  processPageViewEvent,
+  createIngestionQueue,
+  createHeatmapAggregationQueue,
+  createReplayCompactionQueue,
+} from "./queue";
+import {
+  processEventBatch,
+  runHeatmapAggregation,
+  runReplayCompaction,
 } from "./processors";
-import type {
-  IncomingBatch,
-  Event,
-  RrwebEventData,
-  ClickEventData,
-  PageViewEventData,
-} from "./types";
+import { deadLetterRepository } from "./repositories";
+import type { IncomingBatch } from "./types";
+
+// Batches processed in parallel by this worker process
+const concurrency = Math.max(
+  parseInt(process.env.WORKER_CONCURRENCY || "1", 10) || 1,
+  1
+);
 
 interface IncomingBatchWithLocation extends IncomingBatch {
   location?: string;
+  redrive?: boolean; // Re-queued from the dead-letter queue
+}
+
+/**
+ * Write failed events to the dead-letter queue with their original payload
+ * Never throws: a failed write is logged and the batch outcome stands
+ */
+async function deadLetter(
+  batch: IncomingBatchWithLocation,
+  failures: Array<{ eventId: string; error: string }>
+) {
+  if (failures.length === 0) return;
+
+  const events = new Map(batch.events.map((event) => [event.eventId, event]));
+  const rows = failures.flatMap(({ eventId, error }) => {
+    const event = events.get(eventId);
+    if (!event) return [];
+    return [
+      {
+        eventId,
+        projectId: event.projectId,
+        batchId: batch.batchId,
+        eventType: event.type,
+        payload: event,
+        location: batch.location,
+        error,
+      },
+    ];
+  });
+
+  try {
+    await deadLetterRepository.recordFailures(rows);
+    console.warn(
+      `[Worker] ${rows.length} events of batch ${batch.batchId} dead-lettered`
+    );
+  } catch (error) {
+    console.error(
+      `[Worker] Error dead-lettering events of batch ${batch.batchId}:`,
+      error
+    );
+  }
 }
 
 /**
  * Start the worker process
- * Consumes ingestion queue and routes events by type
+ * Consumes ingestion queue, writing each batch in bulk per event type
  */
 export async function startWorker() {
   const queue = await createIngestionQueue();
@@ -31,47 +77,65 @@ export async function startWorker() {
         `[Worker] Processing batch ${job.data.batchId} with ${job.data.events.length} events`
       );
 
-      const results = {
-        succeeded: 0,
-        failed: 0,
-        errors: [] as Array<{ eventId: string; error: string }>,
-      };
-
       // Extract location from batch metadata
       const location = job.data.location || "ET";
 
-      // Process each event independently (don't fail batch on single event error)
-      for (const event of job.data.events) {
-        try {
-          // Determine device from screenClass or event properties
-          let device: string | undefined;
-          if ("screenClass" in event && event.screenClass) {
-            device = event.screenClass;
-          }
-
-          await routeEvent(event, location, device);
-          results.succeeded++;
-        } catch (error) {
-          results.failed++;
-          results.errors.push({
-            eventId: event.eventId,
-            error: error instanceof Error ? error.message : String(error),
-          });
-
-          // Log error but continue processing batch
-          console.error(
-            `[Worker] Error processing event ${event.eventId} in batch ${job.data.batchId}:`,
-            error
+      // Failures of the last attempt are dead-lettered instead of retried
+      const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+      // Set-based writes per event type; a failed event does not fail the batch
+      let results;
+      try {
+        results = await processEventBatch(job.data.events, location);
+      } catch (error) {
+        // Base tracking failed, nothing of the batch was stored
+        if (finalAttempt) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          await deadLetter(
+            job.data,
+            job.data.events.map(({ eventId }) => ({ eventId, error: message }))
           );
         }
+        throw error;
+      }
+
+      for (const { eventId, error } of results.errors) {
+        console.error(
+          `[Worker] Error processing event ${eventId} in batch ${job.data.batchId}: ${error}`
+        );
       }
 
       console.log(
         `[Worker] Batch ${job.data.batchId} complete: ${results.succeeded} succeeded, ${results.failed} failed`
       );
 
+      const allFailed = results.failed === job.data.events.length;
+
+      // Partial failures are not retried, dead-letter them right away
+      if (!allFailed || finalAttempt) {
+        await deadLetter(job.data, results.errors);
+      }
+
+      // Re-driven events that were stored leave the dead-letter queue
+      if (job.data.redrive) {
+        const failed = new Set(results.errors.map(({ eventId }) => eventId));
+        try {
+          await deadLetterRepository.deleteByEventIds(
+            job.data.events
+              .map(({ eventId }) => eventId)
+              .filter((eventId) => !failed.has(eventId))
+          );
+        } catch (error) {
+          console.error(
+            `[Worker] Error clearing dead letters of batch ${job.data.batchId}:`,
+            error
+          );
+        }
+      }
+
       // If all events failed, throw to trigger retry
-      if (results.failed === job.data.events.length) {
+      if (allFailed) {
         throw new Error(`All events in batch ${job.data.batchId} failed`);
       }
 
@@ -82,7 +146,7 @@ export async function startWorker() {
         url: process.env.REDIS_URL || "redis://localhost:6379",
         maxRetriesPerRequest: null,
       },
-      concurrency: 1, // Process one batch at a time
+      concurrency, // WORKER_CONCURRENCY batches at a time (default 1)
     }
   );
 
@@ -103,42 +167,78 @@ export async function startWorker() {
     console.error("[Worker] Worker error:", error);
   });
 
-  console.log("✓ Worker started");
+  console.log(`✓ Worker started (concurrency ${concurrency})`);
+
+  const heatmapAggregation = await startHeatmapAggregationWorker();
+  const replayCompaction = await startReplayCompactionWorker();
+
+  return { worker, queue, heatmapAggregation, replayCompaction };
+}
+
+/**
+ * Start the heatmap aggregation worker
+ * Runs the scheduled job that derives move/attention heatmaps from finished replays
+ */
+export async function startHeatmapAggregationWorker() {
+  const queue = await createHeatmapAggregationQueue();
+
+  const worker = new Worker(
+    "heatmap-aggregation",
+    async () => runHeatmapAggregation(),
+    {
+      connection: {
+        url: process.env.REDIS_URL || "redis://localhost:6379",
+        maxRetriesPerRequest: null,
+      },
+      concurrency: 1, // One aggregation run at a time
+    }
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(
+      `[HeatmapAggregation] Job ${job?.id} failed: ${err.message}`
+    );
+  });
+
+  worker.on("error", (error) => {
+    console.error("[HeatmapAggregation] Worker error:", error);
+  });
+
+  console.log("✓ Heatmap aggregation worker started");
 
   return { worker, queue };
 }
 
 /**
- * Route event to appropriate processor based on type
- * Passes location and device to processors
+ * Start the replay compaction worker
+ * Runs the scheduled job that moves finished replays into compressed chunks
  */
-async function routeEvent(event: Event, location?: string, device?: string) {
-  const eventType = event.type;
-
-  switch (eventType) {
-    case "rrweb":
-      return await processRrwebEvent(event as RrwebEventData, location, device);
-    case "click":
-      return await processClickEvent(event as ClickEventData, location, device);
-    case "pageview":
-      return await processPageViewEvent(
-        event as PageViewEventData,
-        location,
-        device
-      );
-    case "input":
-    case "route":
-    case "custom":
-    case "session_snapshot":
-      // Not implemented yet
-      console.log(
-        `[Worker] Event type '${eventType}' not yet implemented, skipping`
-      );
-      return;
-    default:
-      console.warn(`[Worker] Unknown event type: ${eventType}`);
-      return;
-  }
+export async function startReplayCompactionWorker() {
+  const queue = await createReplayCompactionQueue();
+
+  const worker = new Worker(
+    "replay-compaction",
+    async () => runReplayCompaction(),
+    {
+      connection: {
+        url: process.env.REDIS_URL || "redis://localhost:6379",
+        maxRetriesPerRequest: null,
+      },
+      concurrency: 1, // One compaction run at a time
+    }
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(`[ReplayCompaction] Job ${job?.id} failed: ${err.message}`);
+  });
+
+  worker.on("error", (error) => {
+    console.error("[ReplayCompaction] Worker error:", error);
+  });
+
+  console.log("✓ Replay compaction worker started");
+
+  return { worker, queue };
 }
 
 // Run worker if executed directly
@@ -1,6 +1,18 @@
 import "dotenv/config";
+import { QueueEvents } from "bullmq";
 import { createIngestionQueue } from "./src/queue/index";
+import type { Event } from "./src/types";
 
+/**
+ * Queue smoke test, and ingestion throughput benchmark
+ *
+ * bun test-queue.ts                                 # add one test job
+ * bun test-queue.ts --bench [batches] [eventsPerBatch]
+ *
+ * The benchmark needs a running worker (bun run start:worker, with the
+ * WORKER_CONCURRENCY under test). It queues synthetic rrweb batches, like the
+ * SDK's replay plugin sends, and waits for the worker to complete them
+ */
 async function testQueue() {
   console.log("🧪 Testing queue connection...");
 
@@ -45,4 +57,79 @@ async function testQueue() {
   }
 }
 
-testQueue();
+/**
+ * Synthetic rrweb batch of one session (a mouse-move incremental snapshot per event)
+ */
+function createRrwebBatch(runId: string, index: number, size: number) {
+  const sessionId = `bench-${runId}-session-${index}`;
+  const now = Date.now();
+
+  const events: Event[] = Array.from({ length: size }, (_, i) => ({
+    type: "rrweb",
+    eventId: crypto.randomUUID(),
+    projectId: "bench",
+    clientId: `bench-client-${index}`,
+    sessionId,
+    replayId: `${sessionId}-replay`,
+    userId: null,
+    timestamp: now + i * 50,
+    url: "http://localhost:3000/bench",
+    referrer: "",
+    pageDimensions: { w: 1280, h: 2400 },
+    viewport: { w: 1280, h: 800 },
+    schemaVersion: "1",
+    rrwebPayload: {
+      type: 3,
+      data: { source: 1, positions: [{ x: i, y: i, id: 1, timeOffset: 0 }] },
+      timestamp: now + i * 50,
+    },
+  }));
+
+  return { batchId: `${sessionId}-batch`, timestamp: now, events };
+}
+
+async function benchmark(batches: number, eventsPerBatch: number) {
+  const runId = Date.now().toString(36);
+  console.log(
+    `🏁 Benchmarking ${batches} batches x ${eventsPerBatch} rrweb events...`
+  );
+
+  try {
+    const queue = await createIngestionQueue();
+    const queueEvents = new QueueEvents("ingest", {
+      connection: {
+        url: process.env.REDIS_URL || "redis://localhost:6379",
+        maxRetriesPerRequest: null,
+      },
+    });
+    await queueEvents.waitUntilReady();
+
+    const startedAt = performance.now();
+    const jobs = await queue.addBulk(
+      Array.from({ length: batches }, (_, i) => ({
+        name: "ingest",
+        data: createRrwebBatch(runId, i, eventsPerBatch),
+      }))
+    );
+    await Promise.all(jobs.map((job) => job.waitUntilFinished(queueEvents)));
+    const seconds = (performance.now() - startedAt) / 1000;
+
+    const events = batches * eventsPerBatch;
+    console.log(`✓ ${events} events in ${seconds.toFixed(2)}s`);
+    console.log(`  ${Math.round(events / seconds)} events/s`);
+    console.log(`  ${Math.round(batches / seconds)} batches/s`);
+
+    await queueEvents.close();
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Benchmark failed:", error);
+    process.exit(1);
+  }
+}
+
+const args = process.argv.slice(2);
+if (args[0] === "--bench") {
+  benchmark(parseInt(args[1] || "20", 10), parseInt(args[2] || "50", 10));
+} else {
+  testQueue();
+}
@@ -0,0 +1,122 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetAcquisition = mock(() => Promise.resolve({
+    totals: { visitors: 90, sessions: 120, bounces: 48, conversions: 6 },
+    channels: [
+        { channel: "organic_search", visitors: 60, sessions: 80, bounces: 40, conversions: 2 },
+        { channel: "email", visitors: 30, sessions: 40, bounces: 8, conversions: 4 },
+    ],
+    campaigns: [
+        { campaign: "spring_sale", visitors: 30, sessions: 40, bounces: 8, conversions: 4 },
+    ],
+    sources: [
+        { source: "google.com", visitors: 60, sessions: 80, bounces: 40, conversions: 2 },
+        { source: "newsletter", visitors: 30, sessions: 0, bounces: 0, conversions: 0 },
+    ],
+}) as Promise<any>);
+
+mock.module("../../../src/repositories", () => ({
+    acquisitionRepository: {
+        getAcquisition: mockGetAcquisition,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+    deadClickRepository: {},
+    frustrationRepository: {},
+}));
+
+describe("getAcquisitionHandler", () => {
+    beforeEach(() => {
+        mockGetAcquisition.mockClear();
+    });
+
+    test("should return 400 if validation fails", async () => {
+        const { getAcquisitionHandler } = await import("../../../src/handlers/acquisition.handler");
+
+        const result = await getAcquisitionHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-14",
+            endDate: "2025-01-08",
+        });
+
+        expect(result.statusCode).toBe(400);
+        expect((result as any).error).toBe("Validation failed");
+        expect(mockGetAcquisition).not.toHaveBeenCalled();
+    });
+
+    test("should turn bounces and conversions into rates", async () => {
+        const { getAcquisitionHandler } = await import("../../../src/handlers/acquisition.handler");
+
+        const result = await getAcquisitionHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+        });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.conversionEvent).toBeNull();
+        expect(data.totals).toEqual({
+            visitors: 90,
+            sessions: 120,
+            bounceRate: 40,
+            conversions: 6,
+            conversionRate: 5,
+        });
+        expect(data.channels[1]).toEqual({
+            channel: "email",
+            visitors: 30,
+            sessions: 40,
+            bounceRate: 20,
+            conversions: 4,
+            conversionRate: 10,
+        });
+        expect(data.campaigns[0].campaign).toBe("spring_sale");
+        // No sessions: rates are 0, not NaN
+        expect(data.sources[1].bounceRate).toBe(0);
+        expect(data.sources[1].conversionRate).toBe(0);
+    });
+
+    test("should pass the conversion event, timezone and limit", async () => {
+        const { getAcquisitionHandler } = await import("../../../src/handlers/acquisition.handler");
+
+        const result = await getAcquisitionHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+            timezone: "Africa/Addis_Ababa",
+            conversionEvent: "signed_up",
+            limit: "5",
+        });
+
+        expect((result as any).data.conversionEvent).toBe("signed_up");
+        expect(mockGetAcquisition).toHaveBeenCalledWith(
+            "proj_1",
+            "2025-01-08",
+            "2025-01-14",
+            "Africa/Addis_Ababa",
+            "signed_up",
+            5
+        );
+    });
+});
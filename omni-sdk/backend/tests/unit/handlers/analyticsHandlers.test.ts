@@ -23,12 +23,22 @@ const mockGetTopPages = mock(() => Promise.resolve([
     { path: "/pricing", views: 200, avgTimeSeconds: 90 },
 ] as any[]));
 
+const mockGetEntryPages = mock(() => Promise.resolve([
+    { path: "/home", entries: 80, bounces: 20 },
+] as any[]));
+
+const mockGetExitPages = mock(() => Promise.resolve([
+    { path: "/pricing", exits: 50, views: 200 },
+] as any[]));
+
 mock.module("../../../src/repositories", () => ({
     overviewAnalyticsRepository: {
         getOverviewAnalytics: mockGetOverviewAnalytics,
     },
     topPagesRepository: {
         getTopPages: mockGetTopPages,
+        getEntryPages: mockGetEntryPages,
+        getExitPages: mockGetExitPages,
     },
     // Mock everything else to avoid missing export errors
     sessionRepository: {},
@@ -61,6 +71,28 @@ describe("Analytics Handlers", () => {
             expect(callArgs[2]).toMatch(/^\d{4}-\d{2}-\d{2}$/);
         });
 
+        test("should bucket days in the requested timezone", async () => {
+            const { getOverviewAnalyticsHandler } = await import("../../../src/handlers/overview.handler");
+
+            const result = await getOverviewAnalyticsHandler({
+                projectId: "proj_1",
+                startDate: "2023-01-01",
+                endDate: "2023-01-30",
+                timezone: "Africa/Addis_Ababa",
+            });
+
+            expect((result as any).data.timezone).toBe("Africa/Addis_Ababa");
+            expect(mockGetOverviewAnalytics).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-30", "Africa/Addis_Ababa");
+        });
+
+        test("should return 400 for an unknown timezone", async () => {
+            const { getOverviewAnalyticsHandler } = await import("../../../src/handlers/overview.handler");
+
+            const result = await getOverviewAnalyticsHandler({ projectId: "proj_1", timezone: "Mars/Olympus_Mons" });
+            expect((result as any).statusCode).toBe(400);
+            expect(mockGetOverviewAnalytics).not.toHaveBeenCalled();
+        });
+
         test("should return 400 if validation fails", async () => {
             const { getOverviewAnalyticsHandler } = await import("../../../src/handlers/overview.handler");
 
@@ -118,7 +150,38 @@ describe("Analytics Handlers", () => {
             expect((result as any).data.pages).toHaveLength(1);
             expect((result as any).data.pages[0].path).toBe("/home");
 
-            expect(mockGetTopPages).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-07", 5);
+            expect(mockGetTopPages).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-07", "UTC", 5);
+        });
+
+        test("should pass the timezone to the repository", async () => {
+            const { getTopPagesHandler } = await import("../../../src/handlers/topPages.handler");
+
+            const result = await getTopPagesHandler({
+                projectId: "proj_1",
+                startDate: "2023-01-01",
+                endDate: "2023-01-07",
+                timezone: "America/New_York",
+            });
+
+            expect((result as any).data.timezone).toBe("America/New_York");
+            expect(mockGetTopPages).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-07", "America/New_York", 10);
+        });
+
+        test("should return entry pages with bounce rate and exit pages with exit rate", async () => {
+            const { getTopPagesHandler } = await import("../../../src/handlers/topPages.handler");
+
+            const result = await getTopPagesHandler({
+                projectId: "proj_1",
+                startDate: "2023-01-01",
+                endDate: "2023-01-07",
+                limit: "5",
+            });
+
+            const data = (result as any).data;
+            expect(data.entryPages).toEqual([{ path: "/home", entries: 80, bounceRate: 25 }]);
+            expect(data.exitPages).toEqual([{ path: "/pricing", exits: 50, views: 200, exitRate: 25 }]);
+            expect(mockGetEntryPages).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-07", "UTC", 5);
+            expect(mockGetExitPages).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-07", "UTC", 5);
         });
     });
 });
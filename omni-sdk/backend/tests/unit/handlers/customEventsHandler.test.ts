@@ -0,0 +1,119 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetEventSummaries = mock(() => Promise.resolve([
+    { eventName: "signup", count: 30, uniqueUsers: 25 },
+    { eventName: "purchase", count: 10, uniqueUsers: 8 },
+] as any[]));
+
+const mockGetEventTimeSeries = mock(() => Promise.resolve([
+    { eventName: "purchase", date: "2025-01-01", count: 4, uniqueUsers: 3 },
+    { eventName: "purchase", date: "2025-01-02", count: 6, uniqueUsers: 5 },
+    { eventName: "signup", date: "2025-01-01", count: 30, uniqueUsers: 25 },
+] as any[]));
+
+mock.module("../../../src/repositories", () => ({
+    customEventRepository: {
+        getEventSummaries: mockGetEventSummaries,
+        getEventTimeSeries: mockGetEventTimeSeries,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+}));
+
+describe("getCustomEventsHandler", () => {
+    beforeEach(() => {
+        mockGetEventSummaries.mockClear();
+        mockGetEventTimeSeries.mockClear();
+    });
+
+    test("should group the time series under each event name", async () => {
+        const { getCustomEventsHandler } = await import("../../../src/handlers/customEvents.handler");
+
+        const result = await getCustomEventsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-07",
+        });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.range).toEqual({ startDate: "2025-01-01", endDate: "2025-01-07" });
+        expect(data.events).toHaveLength(2);
+        expect(data.events[0]).toEqual({
+            eventName: "signup",
+            count: 30,
+            uniqueUsers: 25,
+            series: [{ date: "2025-01-01", count: 30, uniqueUsers: 25 }],
+        });
+        expect(data.events[1].series).toHaveLength(2);
+    });
+
+    test("should pass eventName and parsed property filter to the repository", async () => {
+        const { getCustomEventsHandler } = await import("../../../src/handlers/customEvents.handler");
+
+        await getCustomEventsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-07",
+            eventName: "purchase",
+            properties: '{"plan":"pro"}',
+        });
+
+        expect(mockGetEventSummaries).toHaveBeenCalledWith(
+            "proj_1",
+            "2025-01-01",
+            "2025-01-07",
+            "purchase",
+            { plan: "pro" }
+        );
+        expect(mockGetEventTimeSeries).toHaveBeenCalledWith(
+            "proj_1",
+            "2025-01-01",
+            "2025-01-07",
+            "purchase",
+            { plan: "pro" }
+        );
+    });
+
+    test("should return 400 for a non-object properties filter", async () => {
+        const { getCustomEventsHandler } = await import("../../../src/handlers/customEvents.handler");
+
+        const result = await getCustomEventsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-07",
+            properties: "not-json",
+        });
+
+        expect(result.statusCode).toBe(400);
+        expect((result as any).error).toBe("Validation failed");
+        expect(mockGetEventSummaries).not.toHaveBeenCalled();
+    });
+
+    test("should return 400 when startDate is after endDate", async () => {
+        const { getCustomEventsHandler } = await import("../../../src/handlers/customEvents.handler");
+
+        const result = await getCustomEventsHandler({
+            projectId: "proj_1",
+            startDate: "2025-02-01",
+            endDate: "2025-01-01",
+        });
+
+        expect(result.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,215 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// 1. Mock DB client to prevent connection attempt and env check
+// The transaction records the UPDATEs eraseSubject runs
+const updates: { table: any; values: any }[] = [];
+const fakeQuery = (onSet?: (values: any) => void) => {
+    const query: any = {
+        then: (resolve: (rows: any[]) => void) => resolve([{ id: "row_1" }]),
+    };
+    for (const method of ["from", "where", "returning", "values"]) {
+        query[method] = () => query;
+    }
+    query.set = (values: any) => {
+        onSet?.(values);
+        return query;
+    };
+    return query;
+};
+const tx = {
+    update: (table: any) =>
+        fakeQuery((values) => updates.push({ table, values })),
+    delete: () => fakeQuery(),
+    execute: () => Promise.resolve({ rows: [], rowCount: 0 }),
+};
+mock.module("../../../src/db/client", () => ({
+    db: {
+        transaction: (fn: (t: typeof tx) => Promise<unknown>) => fn(tx),
+    },
+}));
+
+// 2. Mock repositories
+const T0 = 1700000000000;
+const subject = {
+    projectId: "proj_1",
+    distinctId: "user_1",
+    clientIds: ["user_1", "client_1"],
+    sessionIds: ["sess_1"],
+    replayIds: ["replay_1", "replay_2"],
+};
+const replayEvent = (eventId: string, offsetMs: number, payload: Record<string, any>) => ({
+    id: `row_${eventId}`,
+    eventId,
+    timestamp: new Date(T0 + offsetMs).toISOString(),
+    url: "https://example.com/app",
+    rrwebPayload: { ...payload, timestamp: T0 + offsetMs },
+    schemaVersion: "1",
+    pageWidth: 1000,
+    pageHeight: 1000,
+    viewportWidth: 1000,
+    viewportHeight: 500,
+});
+
+const mockCreateRequest = mock((request: any) =>
+    Promise.resolve({ id: "req_1", ...request })
+);
+const mockCompleteRequest = mock(() => Promise.resolve({} as any));
+const mockFailRequest = mock(() => Promise.resolve());
+const mockResolveSubject = mock(() => Promise.resolve(subject));
+const mockExportSubject = mock(() =>
+    Promise.resolve({ sessions: [{ id: "sess_1" }], events: [] as any[] })
+);
+const mockGetAggregatedReplays = mock(() =>
+    Promise.resolve([{ replayId: "replay_1", eventCount: 2 }])
+);
+const mockEraseSubject = mock(() =>
+    Promise.resolve({ sessions: 1, rrwebEvents: 3 } as Record<string, number>)
+);
+const mockGetReplayEvents = mock(() =>
+    Promise.resolve([
+        replayEvent("1", 0, { type: 4, data: { width: 1000, height: 500 } }),
+        // Pointer at the middle of the viewport
+        replayEvent("2", 100, {
+            type: 3,
+            data: { source: 1, positions: [{ x: 500, y: 250, timeOffset: 0 }] },
+        }),
+        // Stored after the replay was aggregated: not subtracted
+        replayEvent("3", 200, {
+            type: 3,
+            data: { source: 1, positions: [{ x: 10, y: 10, timeOffset: 0 }] },
+        }),
+    ])
+);
+const mockListRequests = mock(() =>
+    Promise.resolve({ total: 0, items: [] as any[] })
+);
+
+mock.module("../../../src/repositories", () => ({
+    dataSubjectRepository: {
+        createRequest: mockCreateRequest,
+        completeRequest: mockCompleteRequest,
+        failRequest: mockFailRequest,
+        resolveSubject: mockResolveSubject,
+        exportSubject: mockExportSubject,
+        getAggregatedReplays: mockGetAggregatedReplays,
+        eraseSubject: mockEraseSubject,
+        listRequests: mockListRequests,
+    },
+    rrwebRepository: {
+        getReplayEvents: mockGetReplayEvents,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    sessionRepository: {},
+    eventRepository: {},
+    userRepository: {},
+}));
+
+describe("Data Subjects Handler", () => {
+    beforeEach(() => {
+        mockCreateRequest.mockClear();
+        mockCompleteRequest.mockClear();
+        mockFailRequest.mockClear();
+        mockResolveSubject.mockClear();
+        mockExportSubject.mockClear();
+        mockGetAggregatedReplays.mockClear();
+        mockEraseSubject.mockClear();
+        mockGetReplayEvents.mockClear();
+        mockListRequests.mockClear();
+    });
+
+    test("should return 400 without recording a request for invalid input", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { eraseDataSubjectHandler } = await import("../../../src/handlers/dataSubjects.handler");
+
+        const missing = await eraseDataSubjectHandler("proj_1", "", {});
+        expect((missing as any).statusCode).toBe(400);
+
+        const badBody = await eraseDataSubjectHandler("proj_1", "user_1", { reason: 42 });
+        expect((badBody as any).statusCode).toBe(400);
+
+        expect(mockCreateRequest).not.toHaveBeenCalled();
+    });
+
+    test("eraseDataSubjectHandler should subtract the aggregated replay events and log the request", async () => {
+        const { eraseDataSubjectHandler } = await import("../../../src/handlers/dataSubjects.handler");
+
+        const result = await eraseDataSubjectHandler("proj_1", "user_1", {
+            requestedBy: "dpo@example.com",
+        });
+
+        expect((result as any).statusCode).toBe(200);
+        expect((result as any).data).toEqual({
+            requestId: "req_1",
+            projectId: "proj_1",
+            distinctId: "user_1",
+            erased: { sessions: 1, rrwebEvents: 3 },
+        });
+        expect(mockCreateRequest).toHaveBeenCalledWith({
+            projectId: "proj_1",
+            distinctId: "user_1",
+            requestedBy: "dpo@example.com",
+            type: "erasure",
+        });
+        expect(mockGetAggregatedReplays).toHaveBeenCalledWith(["replay_1", "replay_2"]);
+        expect(mockGetReplayEvents).toHaveBeenCalledTimes(1);
+
+        // Only the 2 events the replay was aggregated with
+        const [erasedSubject, activity] = mockEraseSubject.mock.calls[0] as any[];
+        expect(erasedSubject).toBe(subject);
+        const moves = activity.filter((cell: any) => cell.type === "move");
+        expect(moves).toEqual([
+            expect.objectContaining({ gridX: 25, gridY: 12, value: 1 }),
+        ]);
+        expect(mockCompleteRequest).toHaveBeenCalledWith("req_1", {
+            sessions: 1,
+            rrwebEvents: 3,
+        });
+    });
+
+    test("eraseDataSubjectHandler should mark the request failed and rethrow", async () => {
+        const { eraseDataSubjectHandler } = await import("../../../src/handlers/dataSubjects.handler");
+        mockEraseSubject.mockImplementationOnce(() => Promise.reject(new Error("db down")));
+
+        await expect(eraseDataSubjectHandler("proj_1", "user_1", {})).rejects.toThrow("db down");
+
+        expect(mockFailRequest).toHaveBeenCalledWith("req_1", "db down");
+        expect(mockCompleteRequest).not.toHaveBeenCalled();
+    });
+
+    test("exportDataSubjectHandler should return the rows and replays held", async () => {
+        const { exportDataSubjectHandler } = await import("../../../src/handlers/dataSubjects.handler");
+
+        const result = await exportDataSubjectHandler("proj_1", "user_1", undefined);
+
+        expect((result as any).statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.identities).toEqual({ clientIds: ["user_1", "client_1"], sessionIds: ["sess_1"] });
+        expect(data.tables.sessions).toEqual([{ id: "sess_1" }]);
+        expect(data.replays.map((replay: any) => replay.replayId)).toEqual(["replay_1", "replay_2"]);
+        expect(mockCompleteRequest).toHaveBeenCalledWith("req_1", {
+            sessions: 1,
+            events: 0,
+            rrwebEvents: 6,
+        });
+    });
+
+    test("eraseSubject should strip the subject's identifiers from legacy click rows", async () => {
+        const { DataSubjectRepository } = await import("../../../src/repositories/DataSubjectRepository");
+        const { heatmapClicks } = await import("../../../src/db/schema");
+        updates.length = 0;
+
+        await new DataSubjectRepository().eraseSubject(subject, []);
+
+        const clickUpdates = updates.filter((update) => update.table === heatmapClicks);
+        expect(clickUpdates).toHaveLength(1);
+        expect(clickUpdates[0].values).toEqual(
+            expect.objectContaining({
+                sessionId: "erased",
+                clientId: null,
+                userId: null,
+            })
+        );
+        expect(clickUpdates[0].values.count).toBeDefined();
+    });
+});
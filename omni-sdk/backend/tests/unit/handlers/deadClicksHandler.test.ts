@@ -0,0 +1,135 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetDeadClickElements = mock(() => Promise.resolve({
+    totals: { clicks: 200, deadClicks: 30, errorClicks: 10 },
+    elements: [
+        {
+            url: "https://example.com/pricing",
+            elementKey: "0123456789abcdef0123456789abcdef",
+            selector: "div.plans > span.badge",
+            xpath: "/html/body/div[2]/span[1]",
+            tagName: "span",
+            clicks: 40,
+            deadClicks: 30,
+            errorClicks: 0,
+            affectedSessions: 12,
+            affectedUsers: 11,
+            medianResponseMs: 1400,
+            latestOccurrence: {
+                sessionId: "sess_1",
+                timestamp: "2025-01-30T10:00:00.000Z",
+            },
+        },
+        {
+            url: "https://example.com/checkout",
+            elementKey: "button.pay",
+            selector: "button.pay",
+            xpath: null,
+            tagName: "button",
+            clicks: 20,
+            deadClicks: 0,
+            errorClicks: 10,
+            affectedSessions: 9,
+            affectedUsers: 9,
+            medianResponseMs: null,
+            latestOccurrence: null,
+        },
+    ],
+}) as Promise<any>);
+
+mock.module("../../../src/repositories", () => ({
+    deadClickRepository: {
+        getDeadClickElements: mockGetDeadClickElements,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+}));
+
+describe("getDeadClicksHandler", () => {
+    beforeEach(() => {
+        mockGetDeadClickElements.mockClear();
+    });
+
+    test("should return elements with rates and a session link", async () => {
+        const { getDeadClicksHandler } = await import("../../../src/handlers/deadClicks.handler");
+
+        const result = await getDeadClicksHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            deadThresholdMs: "2000",
+        });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.thresholds).toEqual({ deadThresholdMs: 2000, errorWindowMs: 1000, minClicks: 5 });
+        expect(data.totals).toEqual({
+            clicks: 200,
+            deadClicks: 30,
+            deadClickRate: 0.15,
+            errorClicks: 10,
+            errorClickRate: 0.05,
+        });
+        expect(data.elements[0]).toMatchObject({
+            deadClickRate: 0.75,
+            errorClickRate: 0,
+            latestOccurrence: { sessionId: "sess_1", sessionUrl: "/sessions/sess_1" },
+        });
+        expect(data.elements[1].errorClickRate).toBe(0.5);
+        expect(data.elements[1].latestOccurrence).toBeNull();
+        expect(mockGetDeadClickElements).toHaveBeenCalledWith("proj_1", "2025-01-01", "2025-01-31", {
+            url: undefined,
+            deadThresholdMs: 2000,
+            errorWindowMs: 1000,
+            minClicks: 5,
+            limit: 50,
+        });
+    });
+
+    test("should reject thresholds below what the SDK reports", async () => {
+        const { getDeadClicksHandler } = await import("../../../src/handlers/deadClicks.handler");
+
+        const result = await getDeadClicksHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            deadThresholdMs: "100",
+        });
+
+        expect(result.statusCode).toBe(400);
+        expect(mockGetDeadClickElements).not.toHaveBeenCalled();
+    });
+
+    test("should reject a start date after the end date", async () => {
+        const { getDeadClicksHandler } = await import("../../../src/handlers/deadClicks.handler");
+
+        const result = await getDeadClicksHandler({
+            projectId: "proj_1",
+            startDate: "2025-02-01",
+            endDate: "2025-01-31",
+        });
+
+        expect(result.statusCode).toBe(400);
+        expect(mockGetDeadClickElements).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+const deadLetter = (id: string, eventId: string, location: string | null) => ({
+    id,
+    eventId,
+    projectId: "proj_1",
+    batchId: "batch_1",
+    eventType: "custom",
+    payload: { type: "custom", eventId, projectId: "proj_1" },
+    location,
+    error: "value too long",
+    attempts: 1,
+    firstFailedAt: new Date("2025-01-08T10:00:00Z"),
+    lastFailedAt: new Date("2025-01-08T10:00:00Z"),
+    redrivenAt: null,
+});
+
+// Mock repositories
+const mockGetById = mock(() => Promise.resolve(null) as Promise<any>);
+const mockGetForRedrive = mock(() => Promise.resolve([
+    deadLetter("11111111-1111-4111-8111-111111111111", "evt_1", "US"),
+    deadLetter("22222222-2222-4222-8222-222222222222", "evt_2", "ET"),
+    deadLetter("33333333-3333-4333-8333-333333333333", "evt_3", "US"),
+]) as Promise<any>);
+const mockMarkRedriven = mock(() => Promise.resolve());
+const mockPurge = mock(() => Promise.resolve(4));
+
+mock.module("../../../src/repositories", () => ({
+    deadLetterRepository: {
+        getById: mockGetById,
+        getForRedrive: mockGetForRedrive,
+        markRedriven: mockMarkRedriven,
+        purge: mockPurge,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+    deadClickRepository: {},
+    frustrationRepository: {},
+    acquisitionRepository: {},
+    pathsRepository: {},
+}));
+
+describe("deadLettersHandler", () => {
+    beforeEach(() => {
+        mockGetById.mockClear();
+        mockGetForRedrive.mockClear();
+        mockMarkRedriven.mockClear();
+        mockPurge.mockClear();
+    });
+
+    test("getDeadLetterHandler should return 400 for a non-UUID id and 404 when missing", async () => {
+        const { getDeadLetterHandler } = await import("../../../src/handlers/deadLetters.handler");
+
+        const invalid = await getDeadLetterHandler("not-a-uuid");
+        expect(invalid.statusCode).toBe(400);
+        expect(mockGetById).not.toHaveBeenCalled();
+
+        const missing = await getDeadLetterHandler("11111111-1111-4111-8111-111111111111");
+        expect(missing.statusCode).toBe(404);
+    });
+
+    test("redriveDeadLettersHandler should queue one batch per location and mark rows", async () => {
+        const { redriveDeadLettersHandler } = await import("../../../src/handlers/deadLetters.handler");
+
+        const mockAdd = mock(() => Promise.resolve({ id: "job" }));
+        const queue = { add: mockAdd } as any;
+
+        const result = await redriveDeadLettersHandler(queue, { projectId: "proj_1" });
+
+        expect(result.statusCode).toBe(202);
+        expect(result.data!.redriven).toBe(3);
+        expect(result.data!.jobs).toHaveLength(2);
+        expect(mockGetForRedrive).toHaveBeenCalledWith(
+            { ids: undefined, projectId: "proj_1", eventType: undefined },
+            500
+        );
+
+        const [, usBatch] = mockAdd.mock.calls[0] as any[];
+        expect(usBatch.location).toBe("US");
+        expect(usBatch.redrive).toBe(true);
+        expect(usBatch.events.map((e: any) => e.eventId)).toEqual(["evt_1", "evt_3"]);
+
+        expect(mockMarkRedriven).toHaveBeenCalledTimes(2);
+        expect((mockMarkRedriven.mock.calls[1] as any[])[0]).toEqual([
+            "22222222-2222-4222-8222-222222222222",
+        ]);
+    });
+
+    test("purgeDeadLettersHandler should require a filter or all: true", async () => {
+        const { purgeDeadLettersHandler } = await import("../../../src/handlers/deadLetters.handler");
+
+        const noFilter = await purgeDeadLettersHandler({});
+        expect(noFilter.statusCode).toBe(400);
+        expect(mockPurge).not.toHaveBeenCalled();
+
+        const result = await purgeDeadLettersHandler({
+            eventType: "custom",
+            before: "2025-01-09T00:00:00Z",
+        });
+        expect(result.data).toEqual({ deleted: 4 });
+        expect(mockPurge).toHaveBeenCalledWith({
+            ids: undefined,
+            projectId: undefined,
+            eventType: "custom",
+            before: new Date("2025-01-09T00:00:00Z"),
+        });
+    });
+});
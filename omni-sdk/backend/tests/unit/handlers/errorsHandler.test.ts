@@ -0,0 +1,156 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+const FINGERPRINT = "0123456789abcdef0123456789abcdef";
+
+// Mock repositories
+const mockGetIssues = mock(() => Promise.resolve([
+    {
+        fingerprint: FINGERPRINT,
+        errorType: "TypeError",
+        message: "x is undefined",
+        culprit: "pay (/app.js)",
+        firstSeenAt: "2025-01-02T10:00:00.000Z",
+        lastSeenAt: "2025-01-30T10:00:00.000Z",
+        occurrences: 42,
+        affectedUsers: 7,
+        affectedSessions: 9,
+        latestOccurrence: {
+            sessionId: "sess_1",
+            replayId: "replay_1",
+            url: "https://example.com/checkout",
+            timestamp: "2025-01-30T10:00:00.000Z",
+        },
+    },
+] as any[]));
+
+const mockGetIssueWithOccurrences = mock((_projectId: string, fingerprint: string) =>
+    Promise.resolve(fingerprint === FINGERPRINT ? {
+        fingerprint: FINGERPRINT,
+        errorType: "TypeError",
+        message: "x is undefined",
+        culprit: "pay (/app.js)",
+        firstSeenAt: "2025-01-02T10:00:00.000Z",
+        lastSeenAt: "2025-01-30T10:00:00.000Z",
+        occurrences: [
+            {
+                eventId: "evt_1",
+                sessionId: "sess_1",
+                replayId: "replay_1",
+                clientId: "client_1",
+                userId: null,
+                url: "https://example.com/checkout",
+                message: "x is undefined",
+                stack: null,
+                source: "onerror",
+                timestamp: "2025-01-30T10:00:00.000Z",
+            },
+            {
+                eventId: "evt_2",
+                sessionId: "sess_2",
+                replayId: null,
+                clientId: "client_2",
+                userId: "user_2",
+                url: "https://example.com/checkout",
+                message: "x is undefined",
+                stack: null,
+                source: "onerror",
+                timestamp: "2025-01-29T10:00:00.000Z",
+            },
+        ],
+    } : null) as Promise<any>
+);
+
+mock.module("../../../src/repositories", () => ({
+    errorRepository: {
+        getIssues: mockGetIssues,
+        getIssueWithOccurrences: mockGetIssueWithOccurrences,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+}));
+
+describe("getErrorIssuesHandler", () => {
+    beforeEach(() => {
+        mockGetIssues.mockClear();
+    });
+
+    test("should return issues with counts and a replay link", async () => {
+        const { getErrorIssuesHandler } = await import("../../../src/handlers/errors.handler");
+
+        const result = await getErrorIssuesHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+        });
+
+        expect(result.statusCode).toBe(200);
+        const [issue] = (result as any).data.issues;
+        expect(issue).toMatchObject({
+            issueId: FINGERPRINT,
+            occurrences: 42,
+            affectedUsers: 7,
+            latestOccurrence: {
+                sessionId: "sess_1",
+                replayId: "replay_1",
+                replayUrl: "/replays/replay_1",
+            },
+        });
+        expect(issue.fingerprint).toBeUndefined();
+        expect(mockGetIssues).toHaveBeenCalledWith("proj_1", "2025-01-01", "2025-01-31", 50);
+    });
+
+    test("should reject invalid dates", async () => {
+        const { getErrorIssuesHandler } = await import("../../../src/handlers/errors.handler");
+
+        const result = await getErrorIssuesHandler({
+            projectId: "proj_1",
+            startDate: "01/01/2025",
+            endDate: "2025-01-31",
+        });
+
+        expect(result.statusCode).toBe(400);
+        expect(mockGetIssues).not.toHaveBeenCalled();
+    });
+});
+
+describe("getErrorIssueHandler", () => {
+    test("should link every occurrence to its replay", async () => {
+        const { getErrorIssueHandler } = await import("../../../src/handlers/errors.handler");
+
+        const result = await getErrorIssueHandler(FINGERPRINT, { projectId: "proj_1" });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.issueId).toBe(FINGERPRINT);
+        expect(data.occurrences.map((o: any) => o.replayUrl)).toEqual([
+            "/replays/replay_1",
+            null,
+        ]);
+    });
+
+    test("should return 404 for unknown issues", async () => {
+        const { getErrorIssueHandler } = await import("../../../src/handlers/errors.handler");
+
+        const result = await getErrorIssueHandler("ffffffffffffffffffffffffffffffff", { projectId: "proj_1" });
+
+        expect(result.statusCode).toBe(404);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetFormSummaries = mock(() => Promise.resolve([
+    { formId: "signup", url: "https://example.com/signup", sessions: 100, submissions: 60, medianCompletionSeconds: 48 },
+] as any[]));
+
+const mockGetFieldStats = mock(() => Promise.resolve([
+    { formId: "signup", fieldName: "email", sessions: 100, dropOffs: 4, refills: 3, avgTimeMs: 5200, medianTimeMs: 4000 },
+    { formId: "signup", fieldName: "phone", sessions: 80, dropOffs: 30, refills: 25, avgTimeMs: 12345, medianTimeMs: null },
+    { formId: "other", fieldName: "q", sessions: 5, dropOffs: 0, refills: 0, avgTimeMs: null, medianTimeMs: null },
+] as any[]));
+
+mock.module("../../../src/repositories", () => ({
+    formAnalyticsRepository: {
+        getFormSummaries: mockGetFormSummaries,
+        getFieldStats: mockGetFieldStats,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+}));
+
+describe("getFormAnalyticsHandler", () => {
+    beforeEach(() => {
+        mockGetFormSummaries.mockClear();
+        mockGetFieldStats.mockClear();
+    });
+
+    test("should compute abandonment and field drop-off rates", async () => {
+        const { getFormAnalyticsHandler } = await import("../../../src/handlers/forms.handler");
+
+        const result = await getFormAnalyticsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+        });
+
+        expect(result.statusCode).toBe(200);
+        const [form] = (result as any).data.forms;
+        expect(form).toMatchObject({
+            formId: "signup",
+            sessions: 100,
+            submissions: 60,
+            abandonments: 40,
+            abandonmentRate: 40,
+            medianCompletionSeconds: 48,
+        });
+
+        // Only fields of this form, drop-off rate relative to abandonments
+        expect(form.fields).toHaveLength(2);
+        expect(form.fields[0]).toEqual({
+            fieldName: "email",
+            sessions: 100,
+            dropOffs: 4,
+            dropOffRate: 10,
+            refills: 3,
+            avgTimeSeconds: 5.2,
+            medianTimeSeconds: 4,
+        });
+        expect(form.fields[1]).toMatchObject({
+            fieldName: "phone",
+            dropOffRate: 75,
+            avgTimeSeconds: 12.35,
+            medianTimeSeconds: null,
+        });
+    });
+
+    test("should pass formId filter to the repository", async () => {
+        const { getFormAnalyticsHandler } = await import("../../../src/handlers/forms.handler");
+
+        await getFormAnalyticsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            formId: "signup",
+        });
+
+        expect(mockGetFormSummaries).toHaveBeenCalledWith("proj_1", "2025-01-01", "2025-01-31", "signup");
+        expect(mockGetFieldStats).toHaveBeenCalledWith("proj_1", "2025-01-01", "2025-01-31", "signup");
+    });
+
+    test("should return 400 if dates are missing", async () => {
+        const { getFormAnalyticsHandler } = await import("../../../src/handlers/forms.handler");
+
+        const result = await getFormAnalyticsHandler({ projectId: "proj_1" });
+
+        expect(result.statusCode).toBe(400);
+        expect((result as any).error).toBe("Validation failed");
+    });
+});
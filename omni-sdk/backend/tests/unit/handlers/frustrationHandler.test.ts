@@ -0,0 +1,150 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetFrustration = mock(() => Promise.resolve({
+    range: { start: "2025-01-08", end: "2025-01-14" },
+    comparison: { start: "2025-01-01", end: "2025-01-07" },
+    totals: {
+        current: { rageClicks: 6, deadClicks: 10, errorClicks: 2, uTurns: 2 },
+        previous: { rageClicks: 3, deadClicks: 10, errorClicks: 0, uTurns: 7 },
+    },
+    urls: [
+        {
+            url: "https://example.com/pricing",
+            pageViews: 120,
+            clicks: 300,
+            rageClicks: 6,
+            deadClicks: 10,
+            errorClicks: 2,
+            uTurns: 2,
+            frustratedSessions: 9,
+            previous: { rageClicks: 3, deadClicks: 10, errorClicks: 0, uTurns: 7 },
+            sessions: [
+                {
+                    sessionId: "sess 1",
+                    rageClicks: 1,
+                    deadClicks: 2,
+                    errorClicks: 0,
+                    uTurns: 0,
+                    lastSignalAt: "2025-01-14T10:00:00.000Z",
+                },
+            ],
+        },
+    ],
+    elements: [
+        {
+            url: "https://example.com/pricing",
+            elementKey: "0123456789abcdef0123456789abcdef",
+            selector: "div.plans > span.badge",
+            tagName: "span",
+            clicks: 40,
+            rageClicks: 6,
+            deadClicks: 10,
+            errorClicks: 0,
+            frustratedSessions: 8,
+            previous: { rageClicks: 0, deadClicks: 4, errorClicks: 0 },
+            sessions: [],
+        },
+    ],
+}) as Promise<any>);
+
+mock.module("../../../src/repositories", () => ({
+    frustrationRepository: {
+        getFrustration: mockGetFrustration,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+    deadClickRepository: {},
+}));
+
+describe("getFrustrationHandler", () => {
+    beforeEach(() => {
+        mockGetFrustration.mockClear();
+    });
+
+    test("should compare each signal with the previous period", async () => {
+        const { getFrustrationHandler } = await import("../../../src/handlers/frustration.handler");
+
+        const result = await getFrustrationHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+        });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.comparison).toEqual({ start: "2025-01-01", end: "2025-01-07" });
+        expect(data.totals.rageClicks).toEqual({ current: 6, previous: 3, changePct: 100 });
+        expect(data.totals.errorClicks).toEqual({ current: 2, previous: 0, changePct: 100 });
+        expect(data.totals.uTurns).toEqual({ current: 2, previous: 7, changePct: -71.43 });
+        expect(data.totals.total).toEqual({ current: 20, previous: 20, changePct: 0 });
+        expect(data.urls[0].deadClicks).toEqual({ current: 10, previous: 10, changePct: 0 });
+        expect(data.selectors[0].total).toEqual({ current: 16, previous: 4, changePct: 300 });
+        expect(data.selectors[0].uTurns).toBeUndefined();
+    });
+
+    test("should link sessions with the thresholds used", async () => {
+        const { getFrustrationHandler } = await import("../../../src/handlers/frustration.handler");
+
+        const result = await getFrustrationHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+            sort: "deadClicks",
+            deadThresholdMs: "2000",
+        });
+
+        const [session] = (result as any).data.urls[0].sessions;
+        expect(session.sessionUrl).toBe(
+            "/sessions/sess%201?minClicks=3&thresholdMs=600&deadThresholdMs=2000&errorWindowMs=1000"
+        );
+        expect(mockGetFrustration).toHaveBeenCalledWith(
+            "proj_1",
+            "2025-01-08",
+            "2025-01-14",
+            { minClicks: 3, thresholdMs: 600, deadThresholdMs: 2000, errorWindowMs: 1000, uTurnMs: 10000 },
+            "deadClicks",
+            20,
+            5
+        );
+    });
+
+    test("should reject unknown sort keys and reversed ranges", async () => {
+        const { getFrustrationHandler } = await import("../../../src/handlers/frustration.handler");
+
+        const badSort = await getFrustrationHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+            sort: "clicks",
+        });
+        const reversed = await getFrustrationHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-15",
+            endDate: "2025-01-14",
+        });
+
+        expect(badSort.statusCode).toBe(400);
+        expect(reversed.statusCode).toBe(400);
+        expect(mockGetFrustration).not.toHaveBeenCalled();
+    });
+});
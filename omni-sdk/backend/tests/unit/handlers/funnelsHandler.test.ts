@@ -0,0 +1,136 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetFunnel = mock(() => Promise.resolve([
+    { stepIndex: 0, entrants: 200, medianSecondsFromPrevious: null },
+    { stepIndex: 1, entrants: 120, medianSecondsFromPrevious: 45 },
+    { stepIndex: 2, entrants: 30, medianSecondsFromPrevious: 300 },
+] as any[]));
+
+mock.module("../../../src/repositories", () => ({
+    funnelRepository: {
+        getFunnel: mockGetFunnel,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+}));
+
+const validBody = {
+    projectId: "proj_1",
+    startDate: "2025-01-01",
+    endDate: "2025-01-31",
+    steps: [
+        { type: "pageview", urlPattern: "/products/*" },
+        { type: "click", selector: "#add-to-cart", label: "Add to Cart" },
+        { type: "custom", eventName: "purchase" },
+    ],
+};
+
+describe("getFunnelHandler", () => {
+    beforeEach(() => {
+        mockGetFunnel.mockClear();
+    });
+
+    test("should compute conversion and drop-off rates per step", async () => {
+        const { getFunnelHandler } = await import("../../../src/handlers/funnels.handler");
+
+        const result = await getFunnelHandler(validBody);
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.overallConversionRate).toBe(15);
+        expect(data.steps[0]).toEqual({
+            index: 0,
+            label: "/products/*",
+            type: "pageview",
+            entrants: 200,
+            conversionRate: 100,
+            stepConversionRate: 100,
+            dropOff: 0,
+            dropOffRate: 0,
+            medianSecondsFromPrevious: null,
+        });
+        expect(data.steps[1]).toMatchObject({
+            label: "Add to Cart",
+            conversionRate: 60,
+            stepConversionRate: 60,
+            dropOff: 80,
+            dropOffRate: 40,
+            medianSecondsFromPrevious: 45,
+        });
+        expect(data.steps[2]).toMatchObject({
+            label: "purchase",
+            conversionRate: 15,
+            stepConversionRate: 25,
+            dropOff: 90,
+            dropOffRate: 75,
+            medianSecondsFromPrevious: 300,
+        });
+    });
+
+    test("should default the conversion window to 7 days", async () => {
+        const { getFunnelHandler } = await import("../../../src/handlers/funnels.handler");
+
+        await getFunnelHandler(validBody);
+
+        const callArgs = mockGetFunnel.mock.calls[0] as any;
+        expect(callArgs[0]).toBe("proj_1");
+        expect(callArgs[3]).toHaveLength(3);
+        expect(callArgs[4]).toBe(604800);
+    });
+
+    test("should return zero rates when no user entered the funnel", async () => {
+        const { getFunnelHandler } = await import("../../../src/handlers/funnels.handler");
+
+        mockGetFunnel.mockResolvedValueOnce([
+            { stepIndex: 0, entrants: 0, medianSecondsFromPrevious: null },
+            { stepIndex: 1, entrants: 0, medianSecondsFromPrevious: null },
+            { stepIndex: 2, entrants: 0, medianSecondsFromPrevious: null },
+        ]);
+
+        const result = await getFunnelHandler(validBody);
+        const data = (result as any).data;
+
+        expect(data.overallConversionRate).toBe(0);
+        expect(data.steps.map((s: any) => s.conversionRate)).toEqual([0, 0, 0]);
+    });
+
+    test("should return 400 for a single-step funnel", async () => {
+        const { getFunnelHandler } = await import("../../../src/handlers/funnels.handler");
+
+        const result = await getFunnelHandler({
+            ...validBody,
+            steps: [{ type: "pageview", urlPattern: "/" }],
+        });
+
+        expect(result.statusCode).toBe(400);
+        expect((result as any).error).toBe("Validation failed");
+        expect(mockGetFunnel).not.toHaveBeenCalled();
+    });
+
+    test("should return 400 for an unknown step type", async () => {
+        const { getFunnelHandler } = await import("../../../src/handlers/funnels.handler");
+
+        const result = await getFunnelHandler({
+            ...validBody,
+            steps: [...validBody.steps, { type: "scroll", depth: 50 }],
+        });
+
+        expect(result.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,321 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+// 4 page views: max depth rows 49 (bottom), 24 (half), 24, 9
+const mockGetScrollDepthsForUrl = mock(() => Promise.resolve({
+    buckets: [
+        { gridY: 9, pageViews: 1 },
+        { gridY: 24, pageViews: 2 },
+        { gridY: 49, pageViews: 1 },
+    ],
+    screenClasses: [
+        { screenClass: "desktop", pageViews: 3, averageDepth: 0.6, pageHeight: 4000, viewportHeight: 1000 },
+        { screenClass: "mobile", pageViews: 1, averageDepth: 0.2, pageHeight: 6000, viewportHeight: 750 },
+    ],
+} as any));
+
+const mockGetActivityForUrl = mock(() => Promise.resolve({
+    cells: [
+        { gridX: 0, gridY: 0, value: 4000 },
+        { gridX: 1, gridY: 0, value: 1000 },
+    ],
+    screenClasses: ["desktop", "mobile"],
+} as any));
+
+// Two layouts of the page: the redesign (most clicked) and the old version
+const mockGetHeatmapForUrl = mock(() => Promise.resolve({
+    layouts: [
+        { layoutHash: "layout_v2", clickCount: 3, pageWidth: 1280, pageHeight: 3000, screenClasses: ["desktop"], lastClickAt: "2025-01-10T10:00:00.000Z" },
+        { layoutHash: "layout_v1", clickCount: 1, pageWidth: 1280, pageHeight: 2000, screenClasses: ["desktop"], lastClickAt: "2024-12-01T10:00:00.000Z" },
+    ],
+    layoutHash: "layout_v2",
+    cells: [
+        { gridX: 5, gridY: 10, count: 2, xNorm: 0.11, yNorm: 0.21, selector: "button#buy", tagName: "BUTTON", elementTextHash: null, screenClass: "desktop" },
+        { gridX: 20, gridY: 3, count: 1, xNorm: 0.4, yNorm: 0.07, selector: "a.logo", tagName: "A", elementTextHash: null, screenClass: "desktop" },
+    ],
+} as any));
+
+const mockGetClickElements = mock(() => Promise.resolve({
+    pageClicks: 40,
+    elements: [
+        {
+            elementKey: "key_buy",
+            selector: "button#buy",
+            xpath: "/html[1]/body[1]/main[1]/button[1]",
+            tagName: "button",
+            elementTextHash: "0000abcd",
+            clicks: 20,
+            uniqueClickers: 12,
+            rageClicks: 5,
+            deadClicks: 2,
+            clickThroughs: 8,
+            box: { xMin: 0.41234, xMax: 0.5, yMin: 0.2, yMax: 0.25 },
+            lastClickAt: "2025-01-10T10:00:00.000Z",
+        },
+    ],
+} as any));
+
+mock.module("../../../src/repositories", () => ({
+    heatmapRepository: {
+        getHeatmapForUrl: mockGetHeatmapForUrl,
+        getClickElements: mockGetClickElements,
+        getScrollDepthsForUrl: mockGetScrollDepthsForUrl,
+        getActivityForUrl: mockGetActivityForUrl,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+}));
+
+describe("getHeatmapHandler", () => {
+    beforeEach(() => {
+        mockGetHeatmapForUrl.mockClear();
+    });
+
+    test("should return the grid of one layout with all layouts summarized", async () => {
+        const { getHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getHeatmapHandler("proj_1", encodeURIComponent("https://example.com/landing"));
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data).toMatchObject({
+            url: "https://example.com/landing",
+            layoutHash: "layout_v2",
+            clickCount: 3,
+            pageWidth: 1280,
+            pageHeight: 3000,
+            screenClasses: ["desktop"],
+        });
+        expect(data.layouts).toHaveLength(2);
+        expect(data.grid).toHaveLength(2);
+        expect(data.grid[0]).toMatchObject({ gridX: 5, gridY: 10, count: 2, selector: "button#buy" });
+    });
+
+    test("should pass filters to the repository", async () => {
+        const { getHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getHeatmapHandler("proj_1", "/landing", {
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            screenClass: "desktop",
+            layoutHash: "layout_v1",
+            country: "us",
+            visitorType: "returning",
+        });
+
+        expect(result.statusCode).toBe(200);
+        expect(mockGetHeatmapForUrl).toHaveBeenCalledWith("proj_1", "/landing", {
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            screenClass: "desktop",
+            layoutHash: "layout_v1",
+            country: "US",
+            visitorType: "returning",
+        });
+        expect((result as any).data.filters).toEqual({
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            screenClass: "desktop",
+            country: "US",
+            visitorType: "returning",
+        });
+    });
+
+    test("should reject invalid filters", async () => {
+        const { getHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const badVisitor = await getHeatmapHandler("proj_1", "/landing", { visitorType: "loyal" });
+        const badRange = await getHeatmapHandler("proj_1", "/landing", { startDate: "2025-02-01", endDate: "2025-01-01" });
+
+        expect(badVisitor.statusCode).toBe(400);
+        expect(badRange.statusCode).toBe(400);
+        expect(mockGetHeatmapForUrl).not.toHaveBeenCalled();
+    });
+});
+
+describe("getClickElementsHandler", () => {
+    beforeEach(() => {
+        mockGetClickElements.mockClear();
+    });
+
+    test("should rank elements with shares and rates", async () => {
+        const { getClickElementsHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getClickElementsHandler("proj_1", "/landing", { screenClass: "desktop" });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.pageClicks).toBe(40);
+        expect(data.elements[0]).toMatchObject({
+            rank: 1,
+            elementKey: "key_buy",
+            clicks: 20,
+            clickShare: 50,
+            uniqueClickers: 12,
+            clickThroughRate: 40,
+            rageClickShare: 25,
+            deadClicks: 2,
+            deadClickShare: 10,
+            box: { xMin: 0.4123, xMax: 0.5, yMin: 0.2, yMax: 0.25 },
+        });
+        expect(mockGetClickElements).toHaveBeenCalledWith(
+            "proj_1",
+            "/landing",
+            expect.objectContaining({ screenClass: "desktop" }),
+            50
+        );
+    });
+
+    test("should reject an out of range limit", async () => {
+        const { getClickElementsHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getClickElementsHandler("proj_1", "/landing", { limit: "500" });
+
+        expect(result.statusCode).toBe(400);
+        expect(mockGetClickElements).not.toHaveBeenCalled();
+    });
+});
+
+describe("getScrollHeatmapHandler", () => {
+    beforeEach(() => {
+        mockGetScrollDepthsForUrl.mockClear();
+    });
+
+    test("should return the share of page views reaching each row and fold", async () => {
+        const { getScrollHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getScrollHeatmapHandler("proj_1", encodeURIComponent("https://example.com/landing"));
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+
+        expect(data.url).toBe("https://example.com/landing");
+        expect(data.pageViews).toBe(4);
+        expect(data.gridSize).toBe(50);
+        expect(data.reach).toHaveLength(50);
+
+        // Everyone sees the top, reach only decreases down the page
+        expect(data.reach[0]).toMatchObject({ gridY: 0, pageViews: 4, percentage: 100 });
+        expect(data.reach[10]).toMatchObject({ pageViews: 3, percentage: 75 });
+        expect(data.reach[25]).toMatchObject({ pageViews: 1, percentage: 25 });
+        expect(data.reach[49]).toMatchObject({ pageViews: 1, percentage: 25 });
+
+        // Folds use the most common device (desktop: 4000 / 1000 = 4 screens)
+        expect(data.pageHeight).toBe(4000);
+        expect(data.folds.map((f: any) => f.percentage)).toEqual([75, 25, 25, 25]);
+        expect(data.folds[0]).toMatchObject({ fold: 1, yNorm: 0.25 });
+
+        // Weighted average depth: (0.6 * 3 + 0.2 * 1) / 4
+        expect(data.averageDepth).toBe(0.5);
+        expect(mockGetScrollDepthsForUrl).toHaveBeenCalledWith("proj_1", "https://example.com/landing", undefined);
+    });
+
+    test("should filter by screenClass", async () => {
+        const { getScrollHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getScrollHeatmapHandler("proj_1", "/landing", { screenClass: "mobile" });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data.screenClass).toBe("mobile");
+        expect(data.pageHeight).toBe(6000);
+        expect(data.averageDepth).toBe(0.2);
+        expect(data.folds).toHaveLength(8);
+        expect(mockGetScrollDepthsForUrl).toHaveBeenCalledWith("proj_1", "/landing", "mobile");
+    });
+
+    test("should reject an unknown screenClass", async () => {
+        const { getScrollHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getScrollHeatmapHandler("proj_1", "/landing", { screenClass: "watch" });
+
+        expect(result.statusCode).toBe(400);
+        expect(mockGetScrollDepthsForUrl).not.toHaveBeenCalled();
+    });
+
+    test("should return an empty curve when there is no data", async () => {
+        mockGetScrollDepthsForUrl.mockImplementationOnce(() =>
+            Promise.resolve({ buckets: [], screenClasses: [] })
+        );
+        const { getScrollHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getScrollHeatmapHandler("proj_1", "/landing");
+
+        expect(result.statusCode).toBe(200);
+        expect((result as any).data).toMatchObject({
+            pageViews: 0,
+            averageDepth: 0,
+            reach: [],
+            folds: [],
+        });
+    });
+});
+
+describe("getActivityHeatmapHandler", () => {
+    beforeEach(() => {
+        mockGetActivityForUrl.mockClear();
+    });
+
+    test("should return attention cells with intensity and cell centers", async () => {
+        const { getActivityHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getActivityHeatmapHandler("proj_1", "/landing", { type: "attention" });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+        expect(data).toMatchObject({
+            type: "attention",
+            unit: "ms",
+            screenClass: null,
+            total: 5000,
+            maxValue: 4000,
+            screenClasses: ["desktop", "mobile"],
+        });
+        expect(data.grid[1]).toEqual({
+            gridX: 1,
+            gridY: 0,
+            xNorm: 0.03,
+            yNorm: 0.01,
+            value: 1000,
+            intensity: 0.25,
+        });
+        expect(mockGetActivityForUrl).toHaveBeenCalledWith("proj_1", "/landing", "attention", undefined);
+    });
+
+    test("should pass the move type and screenClass to the repository", async () => {
+        const { getActivityHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getActivityHeatmapHandler("proj_1", "/landing", { type: "move", screenClass: "mobile" });
+
+        expect(result.statusCode).toBe(200);
+        expect((result as any).data.unit).toBe("positions");
+        expect(mockGetActivityForUrl).toHaveBeenCalledWith("proj_1", "/landing", "move", "mobile");
+    });
+
+    test("should reject types that are not derived from replays", async () => {
+        const { getActivityHeatmapHandler } = await import("../../../src/handlers/heatmaps.handler");
+
+        const result = await getActivityHeatmapHandler("proj_1", "/landing", { type: "scroll" });
+
+        expect(result.statusCode).toBe(400);
+        expect(mockGetActivityForUrl).not.toHaveBeenCalled();
+    });
+});
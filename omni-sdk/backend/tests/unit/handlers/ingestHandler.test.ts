@@ -1,5 +1,4 @@
 import { describe, test, expect, mock, beforeEach } from "bun:test";
-import { ingestHandler } from "../../../src/handlers/ingest.handler";
 import type { Queue } from "bullmq";
 
 // Mock geolocation util
@@ -7,6 +6,47 @@ mock.module("../../../src/utils/geolocation", () => ({
     getCountryFromHeader: mock(() => Promise.resolve("US")),
 }));
 
+// Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock write key resolution: each known key belongs to one project
+const WRITE_KEYS: Record<string, string> = {
+    wk_proj_1: "proj_1",
+    wk_p1: "p1",
+};
+const mockResolveWriteKey = mock((writeKey: string) =>
+    Promise.resolve(
+        WRITE_KEYS[writeKey]
+            ? { keyId: "key_1", projectId: WRITE_KEYS[writeKey], expiresAt: null }
+            : null
+    )
+);
+// Projects with a registered key are authenticated
+const mockHasKeys = mock((projectIds: string[]) =>
+    Promise.resolve(
+        projectIds.some((projectId) => Object.values(WRITE_KEYS).includes(projectId))
+    )
+);
+
+mock.module("../../../src/repositories", () => ({
+    projectKeyRepository: {
+        resolveWriteKey: mockResolveWriteKey,
+        hasKeys: mockHasKeys,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+}));
+
 // Mock schema (optional, but using real schema is better for integration-like unit tests)
 // We will rely on real schema validation to fail/pass
 
@@ -21,6 +61,7 @@ describe("Ingest Handler", () => {
     });
 
     test("ingestHandler should accept valid batch and enqueue job", async () => {
+        const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
         const validBatch = {
             batchId: "batch_123",
             timestamp: Date.now(),
@@ -41,7 +82,7 @@ describe("Ingest Handler", () => {
             ],
         };
 
-        const result = await ingestHandler(validBatch, "1.2.3.4", mockQueue as Queue);
+        const result = await ingestHandler(validBatch, "1.2.3.4", mockQueue as Queue, "wk_proj_1");
 
         // 1. Check success response
         expect(result).toBeDefined();
@@ -61,12 +102,13 @@ describe("Ingest Handler", () => {
     });
 
     test("ingestHandler should return 400 for invalid batch", async () => {
+        const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
         // Missing required fields like 'events' and 'batchId'
         const invalidBatch = {
             foo: "bar",
         };
 
-        const result = await ingestHandler(invalidBatch, undefined, mockQueue as Queue);
+        const result = await ingestHandler(invalidBatch, undefined, mockQueue as Queue, "wk_proj_1");
 
         expect(result).toBeDefined();
         expect(result!.statusCode).toBe(400);
@@ -77,6 +119,7 @@ describe("Ingest Handler", () => {
     });
 
     test("ingestHandler should return 500 when queue fails", async () => {
+        const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
         const validBatch = {
             batchId: "batch_fail",
             timestamp: Date.now(),
@@ -100,10 +143,83 @@ describe("Ingest Handler", () => {
         // Make queue throw error
         mockQueue.add = mock(() => Promise.reject(new Error("Redis connection failed")));
 
-        const result = await ingestHandler(validBatch, undefined, mockQueue as Queue);
+        const result = await ingestHandler(validBatch, undefined, mockQueue as Queue, "wk_p1");
 
         expect(result).toBeDefined();
         expect(result!.statusCode).toBe(500);
         expect((result as any).error).toBe("Redis connection failed");
     });
+
+    describe("writeKey authentication", () => {
+        const batchFor = (projectId: string) => ({
+            batchId: "batch_auth",
+            timestamp: Date.now(),
+            events: [
+                {
+                    eventId: "123e4567-e89b-12d3-a456-426614174000",
+                    type: "pageview",
+                    projectId,
+                    sessionId: "s1",
+                    clientId: "c1",
+                    userId: null,
+                    timestamp: Date.now(),
+                    url: "http://example.com",
+                    referrer: "",
+                    pageDimensions: { w: 100, h: 100 },
+                    viewport: { w: 100, h: 100 },
+                },
+            ],
+        });
+
+        test("should return 401 when writeKey is missing", async () => {
+            const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
+            const result = await ingestHandler(batchFor("proj_1"), undefined, mockQueue as Queue, undefined);
+
+            expect(result!.statusCode).toBe(401);
+            expect((result as any).error).toBe("Missing writeKey");
+            expect(mockQueue.add).not.toHaveBeenCalled();
+        });
+
+        test("should return 401 when writeKey is unknown or expired", async () => {
+            const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
+            const result = await ingestHandler(batchFor("proj_1"), undefined, mockQueue as Queue, "wk_unknown");
+
+            expect(result!.statusCode).toBe(401);
+            expect(mockResolveWriteKey).toHaveBeenCalledWith("wk_unknown");
+            expect(mockQueue.add).not.toHaveBeenCalled();
+        });
+
+        test("should return 403 when an event targets another project", async () => {
+            const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
+            const result = await ingestHandler(batchFor("proj_other"), undefined, mockQueue as Queue, "wk_proj_1");
+
+            expect(result!.statusCode).toBe(403);
+            expect((result as any).error).toContain("proj_other");
+            expect(mockQueue.add).not.toHaveBeenCalled();
+        });
+
+        test("should accept batches for projects without registered keys", async () => {
+            const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
+
+            const withoutKey = await ingestHandler(batchFor("proj_legacy"), undefined, mockQueue as Queue, undefined);
+            const unregistered = await ingestHandler(batchFor("proj_legacy"), undefined, mockQueue as Queue, "pk_dashboard");
+
+            expect(withoutKey!.statusCode).toBe(202);
+            expect(unregistered!.statusCode).toBe(202);
+            expect(mockHasKeys).toHaveBeenCalledWith(["proj_legacy"]);
+            expect(mockQueue.add).toHaveBeenCalledTimes(2);
+        });
+
+        test("should return 401 when a batch mixes in a project with keys", async () => {
+            const { ingestHandler } = await import("../../../src/handlers/ingest.handler");
+            const batch = batchFor("proj_legacy");
+            batch.events.push({ ...batch.events[0], projectId: "proj_1" });
+
+            const result = await ingestHandler(batch, undefined, mockQueue as Queue, undefined);
+
+            expect(result!.statusCode).toBe(401);
+            expect(mockHasKeys).toHaveBeenCalledWith(["proj_legacy", "proj_1"]);
+            expect(mockQueue.add).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,118 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetPaths = mock(() => Promise.resolve({
+    sessions: 40,
+    sequences: [
+        { steps: ["/pricing", "/signup", "/welcome"], sessions: 20 },
+        { steps: ["/pricing", "/signup", "(exit)"], sessions: 10 },
+        { steps: ["/pricing", "(exit)"], sessions: 6 },
+    ],
+}) as Promise<any>);
+
+mock.module("../../../src/repositories", () => ({
+    pathsRepository: {
+        getPaths: mockGetPaths,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+    deadClickRepository: {},
+    frustrationRepository: {},
+    acquisitionRepository: {},
+}));
+
+describe("getPathsHandler", () => {
+    beforeEach(() => {
+        mockGetPaths.mockClear();
+    });
+
+    test("should return 400 without a page or with too many steps", async () => {
+        const { getPathsHandler } = await import("../../../src/handlers/paths.handler");
+
+        const noPage = await getPathsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+        });
+        expect(noPage.statusCode).toBe(400);
+
+        const tooManySteps = await getPathsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+            page: "/pricing",
+            steps: "6",
+        });
+        expect(tooManySteps.statusCode).toBe(400);
+        expect(mockGetPaths).not.toHaveBeenCalled();
+    });
+
+    test("should default to the next 3 steps", async () => {
+        const { getPathsHandler } = await import("../../../src/handlers/paths.handler");
+
+        const result = await getPathsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+            page: "/pricing",
+        });
+
+        expect(result.statusCode).toBe(200);
+        expect((result as any).data.sequences[0].percentage).toBe(50);
+        expect(mockGetPaths).toHaveBeenCalledWith(
+            "proj_1",
+            "2025-01-08",
+            "2025-01-14",
+            "UTC",
+            "/pricing",
+            "next",
+            3,
+            10
+        );
+    });
+
+    test("should build Sankey nodes per step and merge shared links", async () => {
+        const { getPathsHandler } = await import("../../../src/handlers/paths.handler");
+
+        const result = await getPathsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-08",
+            endDate: "2025-01-14",
+            page: "/pricing",
+        });
+
+        const { nodes, links } = (result as any).data;
+        expect(nodes).toEqual([
+            { name: "/pricing", step: 0 },
+            { name: "/signup", step: 1 },
+            { name: "/welcome", step: 2 },
+            { name: "(exit)", step: 2 },
+            { name: "(exit)", step: 1 },
+        ]);
+        expect(links).toEqual([
+            { source: 0, target: 1, value: 30 },
+            { source: 1, target: 2, value: 20 },
+            { source: 1, target: 3, value: 10 },
+            { source: 0, target: 4, value: 6 },
+        ]);
+    });
+});
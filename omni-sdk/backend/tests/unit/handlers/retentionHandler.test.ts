@@ -7,10 +7,12 @@ mock.module("../../../src/db/client", () => ({
 
 // Mock repository
 const mockGetRetentionCohorts = mock(() => Promise.resolve([] as any[]));
+const mockGetRetentionCohortsBySegment = mock(() => Promise.resolve([] as any[]));
 
 mock.module("../../../src/repositories", () => ({
     retentionRepository: {
         getRetentionCohorts: mockGetRetentionCohorts,
+        getRetentionCohortsBySegment: mockGetRetentionCohortsBySegment,
     },
     // Mock everything else to avoid missing export errors
     sessionRepository: {},
@@ -26,6 +28,7 @@ mock.module("../../../src/repositories", () => ({
 describe("Retention Handler", () => {
     beforeEach(() => {
         mockGetRetentionCohorts.mockClear();
+        mockGetRetentionCohortsBySegment.mockClear();
     });
 
     test("should return 400 if validation fails", async () => {
@@ -97,4 +100,183 @@ describe("Retention Handler", () => {
         expect(c1.retention[0]).toBe(0); // Should be 0, not NaN or Infinity
         expect(c1.retention[1]).toBe(0);
     });
+
+    test("should use the default intervals of the granularity", async () => {
+        const { getRetentionHandler } = await import("../../../src/handlers/retention.handler");
+
+        const result = await getRetentionHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-03-31",
+            granularity: "week",
+        });
+
+        expect((result as any).statusCode).toBe(200);
+        expect((result as any).data.granularity).toBe("week");
+        expect(mockGetRetentionCohorts).toHaveBeenCalledWith(
+            "proj_1",
+            "2023-01-01",
+            "2023-03-31",
+            [0, 1, 2, 3, 4, 8],
+            "week",
+            undefined,
+            "UTC"
+        );
+    });
+
+    test("should bucket cohorts in the requested timezone", async () => {
+        const { getRetentionHandler } = await import("../../../src/handlers/retention.handler");
+
+        const result = await getRetentionHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-30",
+            timezone: "Africa/Addis_Ababa",
+        });
+
+        expect((result as any).data.timezone).toBe("Africa/Addis_Ababa");
+        expect(mockGetRetentionCohorts).toHaveBeenCalledWith(
+            "proj_1",
+            "2023-01-01",
+            "2023-01-30",
+            [0, 1, 3, 7, 14, 30],
+            "day",
+            undefined,
+            "Africa/Addis_Ababa"
+        );
+
+        const invalid = await getRetentionHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-30",
+            timezone: "+03:00",
+        });
+        expect((invalid as any).statusCode).toBe(400);
+    });
+
+    test("should return one matrix per segment and merge small segments into (other)", async () => {
+        const { getRetentionHandler } = await import("../../../src/handlers/retention.handler");
+
+        mockGetRetentionCohortsBySegment.mockResolvedValue([
+            {
+                segment: "US",
+                size: 60,
+                cohorts: [{ date: "2023-01-02", size: 60, retention: { 0: 60, 1: 30 } }],
+            },
+            {
+                segment: "DE",
+                size: 30,
+                cohorts: [{ date: "2023-01-02", size: 30, retention: { 0: 30, 1: 6 } }],
+            },
+            {
+                segment: "(unknown)",
+                size: 10,
+                cohorts: [{ date: "2023-01-09", size: 10, retention: { 0: 10, 1: 4 } }],
+            },
+        ] as any[]);
+
+        const result = await getRetentionHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-31",
+            granularity: "week",
+            intervals: "0,1",
+            breakdown: "country",
+            segmentLimit: "1",
+        });
+        const data = (result as any).data;
+
+        expect((result as any).statusCode).toBe(200);
+        expect(data.breakdown).toBe("country");
+        expect(mockGetRetentionCohorts).not.toHaveBeenCalled();
+
+        // Overall cohorts are the sum of all segments
+        expect(data.cohorts).toEqual([
+            { date: "2023-01-02", size: 90, retention: { 0: 1, 1: 0.4 } },
+            { date: "2023-01-09", size: 10, retention: { 0: 1, 1: 0.4 } },
+        ]);
+
+        expect(data.segments.map((s: any) => s.segment)).toEqual(["US", "(other)"]);
+        expect(data.segments[0].cohorts[0].retention[1]).toBe(0.5);
+        expect(data.segments[1].size).toBe(40);
+        expect(data.segments[1].cohorts).toHaveLength(2);
+        expect(data.segments[1].cohorts[0].retention[1]).toBe(0.2);
+    });
+
+    test("should return 400 for an unknown breakdown", async () => {
+        const { getRetentionHandler } = await import("../../../src/handlers/retention.handler");
+
+        const result = await getRetentionHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-31",
+            breakdown: "browser",
+        });
+
+        expect((result as any).statusCode).toBe(400);
+        expect(mockGetRetentionCohortsBySegment).not.toHaveBeenCalled();
+    });
+
+    test("should define retention by start and return events in event mode", async () => {
+        const { getRetentionHandler } = await import("../../../src/handlers/retention.handler");
+
+        mockGetRetentionCohorts.mockResolvedValue([
+            {
+                date: "2023-01-01",
+                size: 20,
+                retention: { 0: 5, 1: 4, 7: 2 },
+            },
+        ] as any[]);
+
+        const result = await getRetentionHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-30",
+            intervals: "0,1,7",
+            mode: "event",
+            startEvent: "custom:signed_up",
+            returnEvent: "pageview:/projects/*",
+        });
+        const data = (result as any).data;
+
+        expect((result as any).statusCode).toBe(200);
+        expect(data.mode).toBe("event");
+        expect(data.startEvent).toEqual({ type: "custom", eventName: "signed_up" });
+        expect(data.returnEvent).toEqual({ type: "pageview", urlPattern: "/projects/*" });
+        // Period 0 is measured, not assumed
+        expect(data.cohorts[0].retention).toEqual({ 0: 0.25, 1: 0.2, 7: 0.1 });
+        expect(mockGetRetentionCohorts).toHaveBeenCalledWith(
+            "proj_1",
+            "2023-01-01",
+            "2023-01-30",
+            [0, 1, 7],
+            "day",
+            {
+                startEvent: { type: "custom", eventName: "signed_up" },
+                returnEvent: { type: "pageview", urlPattern: "/projects/*" },
+            },
+            "UTC"
+        );
+    });
+
+    test("should return 400 in event mode without valid start and return events", async () => {
+        const { getRetentionHandler } = await import("../../../src/handlers/retention.handler");
+        const query = {
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-30",
+            mode: "event",
+        };
+
+        const missing = await getRetentionHandler({ ...query, startEvent: "custom:signed_up" });
+        const invalid = await getRetentionHandler({
+            ...query,
+            startEvent: "click:#signup",
+            returnEvent: "custom:",
+        });
+
+        expect((missing as any).statusCode).toBe(400);
+        expect((invalid as any).statusCode).toBe(400);
+        expect(mockGetRetentionCohorts).not.toHaveBeenCalled();
+    });
 });
@@ -7,22 +7,41 @@ mock.module("../../../src/db/client", () => ({
 
 // Mock repositories
 const mockGetSession = mock(() => Promise.resolve(null as any));
-const mockGetRrwebEventsBySession = mock(() => Promise.resolve([] as any[]));
-const mockGetRrwebEventsByReplay = mock(() => Promise.resolve([] as any[]));
-const mockGetSessionsWithStats = mock(() => Promise.resolve([] as any[]));
+const mockGetReplayManifestsBySession = mock(() => Promise.resolve([] as any[]));
+const mockGetReplayManifest = mock(() => Promise.resolve(null as any));
+const mockGetReplayEventsInRange = mock(() => Promise.resolve([] as any[]));
+const mockStreamReplayEvents = mock(async function* (): AsyncGenerator<any> {});
+const mockGetReplaySnapshotTime = mock(() => Promise.resolve(null as Date | null));
+const mockGetNextReplayEventTime = mock(() => Promise.resolve(null as Date | null));
+const mockGetReplayChunk = mock(() => Promise.resolve(null as any));
+const mockSearchSessions = mock(() =>
+    Promise.resolve({ sessions: [] as any[], nextCursor: null as any })
+);
+const mockGetRageClickSequencesBySession = mock(() => Promise.resolve([] as any[]));
+const mockGetDeadClicksBySession = mock(() => Promise.resolve([] as any[]));
+const mockGetErrorClicksBySession = mock(() => Promise.resolve([] as any[]));
 
 mock.module("../../../src/repositories", () => ({
     sessionRepository: {
         getSession: mockGetSession,
-        getSessionsWithStats: mockGetSessionsWithStats,
+        searchSessions: mockSearchSessions,
     },
     rrwebRepository: {
-        getRrwebEventsBySession: mockGetRrwebEventsBySession,
-        getRrwebEventsByReplay: mockGetRrwebEventsByReplay,
+        getReplayManifestsBySession: mockGetReplayManifestsBySession,
+        getReplayManifest: mockGetReplayManifest,
+        getReplayEventsInRange: mockGetReplayEventsInRange,
+        streamReplayEvents: mockStreamReplayEvents,
+        getReplaySnapshotTime: mockGetReplaySnapshotTime,
+        getNextReplayEventTime: mockGetNextReplayEventTime,
+        getReplayChunk: mockGetReplayChunk,
+    },
+    eventRepository: {
+        getRageClickSequencesBySession: mockGetRageClickSequencesBySession,
+        getDeadClicksBySession: mockGetDeadClicksBySession,
+        getErrorClicksBySession: mockGetErrorClicksBySession,
     },
     // Mock everything else to avoid missing export errors
     heatmapRepository: {},
-    eventRepository: {},
     userRepository: {},
     trafficAnalyticsRepository: {},
     overviewAnalyticsRepository: {},
@@ -33,9 +52,17 @@ mock.module("../../../src/repositories", () => ({
 describe("Sessions Handler", () => {
     beforeEach(() => {
         mockGetSession.mockClear();
-        mockGetRrwebEventsBySession.mockClear();
-        mockGetRrwebEventsByReplay.mockClear();
-        mockGetSessionsWithStats.mockClear();
+        mockGetReplayManifestsBySession.mockClear();
+        mockGetReplayManifest.mockClear();
+        mockGetReplayEventsInRange.mockClear();
+        mockStreamReplayEvents.mockClear();
+        mockGetReplaySnapshotTime.mockClear();
+        mockGetNextReplayEventTime.mockClear();
+        mockGetReplayChunk.mockClear();
+        mockSearchSessions.mockClear();
+        mockGetRageClickSequencesBySession.mockClear();
+        mockGetDeadClicksBySession.mockClear();
+        mockGetErrorClicksBySession.mockClear();
     });
 
     describe("getSessionHandler", () => {
@@ -67,25 +94,30 @@ describe("Sessions Handler", () => {
                 updatedAt: new Date("2023-01-01T10:30:00Z"),
             });
 
-            // Mock events
-            mockGetRrwebEventsBySession.mockResolvedValue([
-                {
-                    id: 1,
-                    eventId: "evt_1",
-                    replayId: "replay_1",
-                    timestamp: new Date("2023-01-01T10:05:00Z"),
-                    url: "/home",
-                    rrwebPayload: { type: 2, data: {} },
-                    schemaVersion: "v1",
-                },
+            // Mock replay manifests
+            const chunk = {
+                sequence: 0,
+                startTime: new Date("2023-01-01T10:05:00Z"),
+                endTime: new Date("2023-01-01T10:10:00Z"),
+                eventCount: 2,
+                fullSnapshotAt: new Date("2023-01-01T10:05:00Z"),
+            };
+            mockGetReplayManifestsBySession.mockResolvedValue([
                 {
-                    id: 2,
-                    eventId: "evt_2",
                     replayId: "replay_1",
-                    timestamp: new Date("2023-01-01T10:10:00Z"),
+                    sessionId: "sess_1",
+                    clientId: "client_1",
+                    userId: "user_1",
                     url: "/home",
-                    rrwebPayload: { type: 3, data: {} },
-                    schemaVersion: "v1",
+                    eventCount: 3,
+                    startTime: new Date("2023-01-01T10:05:00Z"),
+                    endTime: new Date("2023-01-01T10:12:00Z"),
+                    chunks: [chunk],
+                    live: {
+                        eventCount: 1,
+                        startTime: new Date("2023-01-01T10:12:00Z"),
+                        endTime: new Date("2023-01-01T10:12:00Z"),
+                    },
                 },
             ]);
 
@@ -94,10 +126,61 @@ describe("Sessions Handler", () => {
 
             expect((result as any).statusCode).toBe(200);
             expect(data.session.id).toBe("sess_1");
-            expect(data.eventCount).toBe(2);
+            expect(data.eventCount).toBe(3);
             expect(data.replays.length).toBe(1);
             expect(data.replays[0].replayId).toBe("replay_1");
-            expect(data.replays[0].events.length).toBe(2);
+            expect(data.replays[0].chunks).toEqual([chunk]);
+            expect(data.replays[0].live.eventCount).toBe(1);
+            // Events are loaded on demand
+            expect(data.replays[0].events).toBeUndefined();
+        });
+
+        test("should return rage, dead and error clicks with the thresholds used", async () => {
+            const { getSessionHandler } = await import("../../../src/handlers/sessions.handler");
+            mockGetSession.mockResolvedValue({
+                id: "sess_1",
+                projectId: "proj_1",
+                clientId: "client_1",
+                userId: null,
+                location: "US",
+                device: "Desktop",
+                createdAt: new Date("2023-01-01T10:00:00Z"),
+                updatedAt: new Date("2023-01-01T10:30:00Z"),
+            });
+            mockGetReplayManifestsBySession.mockResolvedValue([]);
+            const deadClick = {
+                clickEventId: "evt_click_1",
+                url: "/pricing",
+                selector: "span.badge",
+                tagName: "span",
+                responseMs: null,
+                responseType: null,
+                clickedAt: new Date("2023-01-01T10:05:00Z"),
+            };
+            mockGetDeadClicksBySession.mockResolvedValue([deadClick]);
+
+            const result = await getSessionHandler("sess_1", { deadThresholdMs: "2000" });
+            const clickIssues = (result as any).data.clickIssues;
+
+            expect((result as any).statusCode).toBe(200);
+            expect(clickIssues.thresholds).toEqual({
+                minClicks: 3,
+                thresholdMs: 600,
+                deadThresholdMs: 2000,
+                errorWindowMs: 1000,
+            });
+            expect(clickIssues.deadClicks).toEqual([deadClick]);
+            expect(clickIssues.errorClicks).toEqual([]);
+            expect(mockGetRageClickSequencesBySession).toHaveBeenCalledWith("sess_1", 3, 600);
+            expect(mockGetDeadClicksBySession).toHaveBeenCalledWith("sess_1", 2000);
+            expect(mockGetErrorClicksBySession).toHaveBeenCalledWith("sess_1", 1000);
+        });
+
+        test("should return 400 for invalid thresholds", async () => {
+            const { getSessionHandler } = await import("../../../src/handlers/sessions.handler");
+            const result = await getSessionHandler("sess_1", { deadThresholdMs: "100" });
+            expect((result as any).statusCode).toBe(400);
+            expect(mockGetDeadClicksBySession).not.toHaveBeenCalled();
         });
     });
 
@@ -110,21 +193,30 @@ describe("Sessions Handler", () => {
 
         test("should return 404 if replay has no events", async () => {
             const { getReplayHandler } = await import("../../../src/handlers/sessions.handler");
-            mockGetRrwebEventsByReplay.mockResolvedValue([]);
+            mockGetReplayManifest.mockResolvedValue(null);
             const result = await getReplayHandler("replay_unknown");
             expect((result as any).statusCode).toBe(404);
         });
 
         test("should return 200 and replay data", async () => {
             const { getReplayHandler } = await import("../../../src/handlers/sessions.handler");
-            mockGetRrwebEventsByReplay.mockResolvedValue([
+            mockGetReplayManifest.mockResolvedValue({
+                replayId: "replay_1",
+                sessionId: "sess_1",
+                clientId: "c1",
+                userId: "u1",
+                url: "/app",
+                eventCount: 1,
+                startTime: new Date("2023-01-01T10:00:00Z"),
+                endTime: new Date("2023-01-01T10:00:00Z"),
+                chunks: [],
+                live: null,
+            });
+            mockGetReplayEventsInRange.mockResolvedValue([
                 {
-                    id: 1,
+                    id: "row_1",
                     eventId: "evt_1",
-                    sessionId: "sess_1",
-                    clientId: "c1",
-                    userId: "u1",
-                    timestamp: new Date("2023-01-01T10:00:00Z"),
+                    timestamp: "2023-01-01T10:00:00.000Z",
                     url: "/app",
                     rrwebPayload: {},
                     schemaVersion: "v1",
@@ -139,6 +231,125 @@ describe("Sessions Handler", () => {
             expect((result as any).statusCode).toBe(200);
             expect((result as any).data.replayId).toBe("replay_1");
             expect((result as any).data.eventCount).toBe(1);
+            // First 60s of the replay, from its start
+            expect((result as any).data.from).toBe(Date.parse("2023-01-01T10:00:00Z"));
+            expect((result as any).data.duration).toBe(0);
+            expect((result as any).data.nextFrom).toBeNull();
+            // The window covers the replay end: no next event to look up
+            expect(mockGetNextReplayEventTime).not.toHaveBeenCalled();
+        });
+
+        test("should start the window at the full snapshot before from", async () => {
+            const { getReplayHandler } = await import("../../../src/handlers/sessions.handler");
+            const start = Date.parse("2023-01-01T10:00:00Z");
+            mockGetReplayManifest.mockResolvedValue({
+                replayId: "replay_1",
+                sessionId: "sess_1",
+                clientId: "c1",
+                userId: null,
+                url: "/app",
+                eventCount: 500,
+                startTime: new Date(start),
+                endTime: new Date(start + 30 * 60_000),
+                chunks: [],
+                live: null,
+            });
+            mockGetReplaySnapshotTime.mockResolvedValue(new Date(start + 100_000));
+            // Idle for 5 minutes after the window
+            mockGetNextReplayEventTime.mockResolvedValue(new Date(start + 480_000));
+            mockGetReplayEventsInRange.mockResolvedValue([]);
+
+            const result = await getReplayHandler("replay_1", {
+                from: String(start + 120_000),
+                to: String(start + 180_000),
+            });
+
+            expect((result as any).statusCode).toBe(200);
+            expect(mockGetReplaySnapshotTime).toHaveBeenCalledWith(
+                "replay_1",
+                new Date(start + 120_000)
+            );
+            expect(mockGetReplayEventsInRange).toHaveBeenCalledWith(
+                "replay_1",
+                new Date(start + 100_000),
+                new Date(start + 180_000),
+                true
+            );
+            expect(mockGetNextReplayEventTime).toHaveBeenCalledWith(
+                "replay_1",
+                new Date(start + 180_000)
+            );
+            // The next window starts at the next event, not at to
+            expect((result as any).data.nextFrom).toBe(start + 480_000);
+            expect((result as any).data.duration).toBe(30 * 60_000);
+        });
+
+        test("should return 400 for an invalid or too long window", async () => {
+            const { getReplayHandler } = await import("../../../src/handlers/sessions.handler");
+            mockGetReplayManifest.mockResolvedValue({
+                replayId: "replay_1",
+                startTime: new Date(0),
+                endTime: new Date(3_600_000),
+            });
+
+            const reversed = await getReplayHandler("replay_1", { from: "2000", to: "1000" });
+            expect((reversed as any).statusCode).toBe(400);
+
+            const tooLong = await getReplayHandler("replay_1", { from: "0", to: "3600000" });
+            expect((tooLong as any).statusCode).toBe(400);
+            expect(mockGetReplayEventsInRange).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("streamReplayHandler", () => {
+        test("should stream the whole replay without a window limit", async () => {
+            const { streamReplayHandler } = await import("../../../src/handlers/sessions.handler");
+            mockGetReplayManifest.mockResolvedValue({
+                replayId: "replay_1",
+                startTime: new Date(0),
+                endTime: new Date(3_600_000),
+            });
+
+            const result = await streamReplayHandler("replay_1", {
+                format: "ndjson",
+                snapshot: "false",
+            });
+
+            expect((result as any).statusCode).toBe(200);
+            expect(mockGetReplaySnapshotTime).not.toHaveBeenCalled();
+            expect(mockStreamReplayEvents).toHaveBeenCalledWith(
+                "replay_1",
+                new Date(0),
+                new Date(3_600_001),
+                false
+            );
+            expect((result as any).data.nextFrom).toBeNull();
+        });
+    });
+
+    describe("getReplayChunkHandler", () => {
+        test("should return 400 for an invalid sequence", async () => {
+            const { getReplayChunkHandler } = await import("../../../src/handlers/sessions.handler");
+            const result = await getReplayChunkHandler("replay_1", "-1");
+            expect((result as any).statusCode).toBe(400);
+            expect(mockGetReplayChunk).not.toHaveBeenCalled();
+        });
+
+        test("should return 404 if the chunk does not exist", async () => {
+            const { getReplayChunkHandler } = await import("../../../src/handlers/sessions.handler");
+            mockGetReplayChunk.mockResolvedValue(null);
+            const result = await getReplayChunkHandler("replay_1", "3");
+            expect((result as any).statusCode).toBe(404);
+            expect(mockGetReplayChunk).toHaveBeenCalledWith("replay_1", 3);
+        });
+
+        test("should return the stored gzip data", async () => {
+            const { getReplayChunkHandler } = await import("../../../src/handlers/sessions.handler");
+            const gzip = Buffer.from([0x1f, 0x8b]);
+            mockGetReplayChunk.mockResolvedValue({ sequence: 0, eventCount: 12, data: gzip });
+            const result = await getReplayChunkHandler("replay_1", "0");
+            expect((result as any).statusCode).toBe(200);
+            expect((result as any).data).toEqual({ sequence: 0, eventCount: 12, gzip });
         });
     });
 
@@ -154,19 +365,24 @@ describe("Sessions Handler", () => {
             const now = new Date();
             const past = new Date(now.getTime() - 1000);
 
-            mockGetSessionsWithStats.mockResolvedValue([
-                {
-                    id: "sess_1",
-                    clientId: "c1",
-                    userId: "u1",
-                    location: "US",
-                    device: "Mobile",
-                    createdAt: past,
-                    updatedAt: now,
-                    eventsCount: 10,
-                    rageClicks: 0,
-                },
-            ]);
+            mockSearchSessions.mockResolvedValue({
+                sessions: [
+                    {
+                        id: "sess_1",
+                        clientId: "c1",
+                        userId: "u1",
+                        location: "US",
+                        device: "Mobile",
+                        createdAt: past,
+                        updatedAt: now,
+                        eventsCount: 10,
+                        rageClicks: 0,
+                        deadClicks: 2,
+                        errorClicks: 1,
+                    },
+                ],
+                nextCursor: null,
+            });
 
             const result = await getProjectSessionsHandler("proj_1");
             const data = (result as any).data;
@@ -176,6 +392,86 @@ describe("Sessions Handler", () => {
             expect(data.sessionCount).toBe(1);
             expect(data.sessions[0].duration).toBe(1000);
             expect(data.sessions[0].eventsCount).toBe(10);
+            expect(data.sessions[0].deadClicks).toBe(2);
+            expect(data.sessions[0].errorClicks).toBe(1);
+            expect(data.nextCursor).toBeNull();
+            expect(mockSearchSessions).toHaveBeenCalledWith(
+                "proj_1",
+                {},
+                {
+                    minClicks: 3,
+                    thresholdMs: 600,
+                    deadThresholdMs: 1000,
+                    errorWindowMs: 1000,
+                },
+                { sort: "recent", cursor: undefined, limit: 50 }
+            );
+        });
+
+        test("should pass filters and continue from the cursor of the previous page", async () => {
+            const { getProjectSessionsHandler } = await import("../../../src/handlers/sessions.handler");
+            mockSearchSessions.mockResolvedValue({
+                sessions: [],
+                nextCursor: { value: "120000", id: "sess_9" },
+            });
+
+            const first = await getProjectSessionsHandler("proj_1", {
+                country: "US",
+                url: "/pricing",
+                event: "signup",
+                minDurationMs: "30000",
+                hasRageClicks: "true",
+                hasErrors: "false",
+                sort: "duration",
+                limit: "10",
+            });
+            const nextCursor = (first as any).data.nextCursor;
+
+            expect((first as any).statusCode).toBe(200);
+            expect(typeof nextCursor).toBe("string");
+            expect((mockSearchSessions.mock.calls[0] as any[])[1]).toEqual({
+                country: "US",
+                url: "/pricing",
+                event: "signup",
+                minDurationMs: 30000,
+                hasRageClicks: true,
+                hasErrors: false,
+            });
+
+            await getProjectSessionsHandler("proj_1", {
+                sort: "duration",
+                limit: "10",
+                cursor: nextCursor,
+            });
+            expect((mockSearchSessions.mock.calls[1] as any[])[3]).toEqual({
+                sort: "duration",
+                cursor: { sort: "duration", value: "120000", id: "sess_9" },
+                limit: 10,
+            });
+        });
+
+        test("should return 400 for a cursor of another sort or a malformed cursor", async () => {
+            const { getProjectSessionsHandler } = await import("../../../src/handlers/sessions.handler");
+            const { encodeSessionCursor } = await import("../../../src/utils/sessionCursor");
+            const cursor = encodeSessionCursor({ sort: "events", value: "12", id: "sess_1" });
+
+            const otherSort = await getProjectSessionsHandler("proj_1", { cursor });
+            const malformed = await getProjectSessionsHandler("proj_1", { cursor: "garbage" });
+
+            expect((otherSort as any).statusCode).toBe(400);
+            expect((malformed as any).statusCode).toBe(400);
+            expect(mockSearchSessions).not.toHaveBeenCalled();
+        });
+
+        test("should return 400 for invalid filters", async () => {
+            const { getProjectSessionsHandler } = await import("../../../src/handlers/sessions.handler");
+            const result = await getProjectSessionsHandler("proj_1", {
+                startDate: "2024-02-01",
+                endDate: "2024-01-01",
+                hasErrors: "yes",
+            });
+            expect((result as any).statusCode).toBe(400);
+            expect(mockSearchSessions).not.toHaveBeenCalled();
         });
     });
 });
@@ -101,6 +101,35 @@ describe("Traffic Analytics Handler", () => {
         expect(data.cards.totalClicks.changePct).toBe(100);
     });
 
+    test("should pass the timezone to every query", async () => {
+        const { getTrafficAnalyticsHandler } = await import("../../../src/handlers/traffic.handler");
+
+        const result = await getTrafficAnalyticsHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-07",
+            timezone: "America/New_York",
+        });
+
+        expect((result as any).data.timezone).toBe("America/New_York");
+        expect(mockGetTrafficAnalytics).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-07", "America/New_York");
+        expect(mockGetDeviceDistribution).toHaveBeenCalledWith("proj_1", "2023-01-01", "2023-01-07", "America/New_York");
+    });
+
+    test("should return 400 for an unknown timezone", async () => {
+        const { getTrafficAnalyticsHandler } = await import("../../../src/handlers/traffic.handler");
+
+        const result = await getTrafficAnalyticsHandler({
+            projectId: "proj_1",
+            startDate: "2023-01-01",
+            endDate: "2023-01-07",
+            timezone: "UTC+3",
+        });
+
+        expect((result as any).statusCode).toBe(400);
+        expect(mockGetTrafficAnalytics).not.toHaveBeenCalled();
+    });
+
     test("should calculate percentages correctly for decrease", async () => {
         const { getTrafficAnalyticsHandler } = await import("../../../src/handlers/traffic.handler");
 
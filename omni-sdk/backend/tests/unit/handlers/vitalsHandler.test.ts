@@ -0,0 +1,114 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// Mock DB client
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// Mock repositories
+const mockGetP75 = mock((_projectId: string, _start: string, _end: string, groupBy?: string) => {
+    switch (groupBy) {
+        case "url":
+            return Promise.resolve([
+                { metric: "LCP", group: "/pricing", p75: 4321.7, samples: 40 },
+            ]);
+        case "device":
+            return Promise.resolve([
+                { metric: "INP", group: "mobile", p75: 312, samples: 25 },
+            ]);
+        case "country":
+            return Promise.resolve([
+                { metric: "CLS", group: null, p75: 0.04567, samples: 3 },
+            ]);
+        default:
+            return Promise.resolve([
+                { metric: "LCP", group: null, p75: 2100.4, samples: 120 },
+                { metric: "CLS", group: null, p75: 0.31, samples: 118 },
+            ]);
+    }
+});
+
+mock.module("../../../src/repositories", () => ({
+    webVitalsRepository: {
+        getP75: mockGetP75,
+    },
+    // Mock everything else to avoid missing export errors
+    sessionRepository: {},
+    rrwebRepository: {},
+    heatmapRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+}));
+
+describe("getWebVitalsHandler", () => {
+    beforeEach(() => {
+        mockGetP75.mockClear();
+    });
+
+    test("should return rated p75 overall and per url, device and country", async () => {
+        const { getWebVitalsHandler } = await import("../../../src/handlers/vitals.handler");
+
+        const result = await getWebVitalsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+        });
+
+        expect(result.statusCode).toBe(200);
+        const data = (result as any).data;
+
+        expect(data.summary).toEqual([
+            { metric: "LCP", p75: 2100, samples: 120, rating: "good" },
+            { metric: "CLS", p75: 0.31, samples: 118, rating: "poor" },
+        ]);
+        expect(data.byUrl).toEqual([
+            { metric: "LCP", p75: 4322, samples: 40, rating: "poor", path: "/pricing" },
+        ]);
+        expect(data.byDevice).toEqual([
+            { metric: "INP", p75: 312, samples: 25, rating: "needs-improvement", device: "mobile" },
+        ]);
+        expect(data.byCountry).toEqual([
+            { metric: "CLS", p75: 0.046, samples: 3, rating: "good", country: null },
+        ]);
+        expect(mockGetP75).toHaveBeenCalledTimes(4);
+    });
+
+    test("should pass the metric and path filters to every breakdown", async () => {
+        const { getWebVitalsHandler } = await import("../../../src/handlers/vitals.handler");
+
+        await getWebVitalsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            metric: "LCP",
+            path: "/pricing",
+        });
+
+        for (const call of mockGetP75.mock.calls as any[]) {
+            expect(call[4]).toBe("LCP");
+            expect(call[5]).toBe("/pricing");
+        }
+    });
+
+    test("should reject unknown metrics", async () => {
+        const { getWebVitalsHandler } = await import("../../../src/handlers/vitals.handler");
+
+        const result = await getWebVitalsHandler({
+            projectId: "proj_1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-31",
+            metric: "FID",
+        });
+
+        expect(result.statusCode).toBe(400);
+        expect(mockGetP75).not.toHaveBeenCalled();
+    });
+});
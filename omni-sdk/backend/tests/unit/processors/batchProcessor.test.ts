@@ -0,0 +1,192 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { Event } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSessions = mock(() => Promise.resolve());
+const mockInsertEvents = mock(() => Promise.resolve());
+const mockBatchUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockBatchUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockInsertRrwebEvents = mock(() => Promise.resolve());
+const mockRecordClicks = mock(() => Promise.resolve());
+const mockInsertCustomEvent = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSessions: mockUpsertSessions,
+    },
+    eventRepository: {
+        insertEvents: mockInsertEvents,
+    },
+    userRepository: {
+        batchUpsertUserFirstSeen: mockBatchUpsertUserFirstSeen,
+        batchUpsertUserDailyActivity: mockBatchUpsertUserDailyActivity,
+    },
+    rrwebRepository: {
+        insertRrwebEvents: mockInsertRrwebEvents,
+    },
+    heatmapRepository: {
+        recordClicks: mockRecordClicks,
+    },
+    customEventRepository: {
+        insertCustomEvent: mockInsertCustomEvent,
+    },
+    // Mock other repositories to satisfy shared imports
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+    deadClickRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+}));
+
+const base = {
+    projectId: "proj_abc",
+    clientId: "client_1",
+    userId: null,
+    pageDimensions: { w: 1024, h: 768 },
+    viewport: { w: 1024, h: 768 },
+};
+
+const rrweb = (eventId: string, sessionId: string, timestamp: number): Event => ({
+    ...base,
+    type: "rrweb",
+    eventId,
+    sessionId,
+    replayId: `${sessionId}_replay`,
+    timestamp,
+    url: "http://example.com/app",
+    schemaVersion: "v1",
+    rrwebPayload: { type: 3, data: {} },
+});
+
+describe("BatchProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSessions.mockClear();
+        mockInsertEvents.mockClear();
+        mockBatchUpsertUserFirstSeen.mockClear();
+        mockBatchUpsertUserDailyActivity.mockClear();
+        mockInsertRrwebEvents.mockClear();
+        mockRecordClicks.mockClear();
+        mockInsertCustomEvent.mockClear();
+        mockInsertRrwebEvents.mockImplementation(() => Promise.resolve());
+    });
+
+    test("processEventBatch should upsert each session once with its first touch", async () => {
+        const { processEventBatch } = await import("../../../src/processors/BatchProcessor");
+
+        const landing: Event = {
+            ...base,
+            type: "pageview",
+            eventId: "evt_pv",
+            sessionId: "sess_1",
+            timestamp: 1000,
+            url: "http://example.com/?utm_source=newsletter&utm_medium=email",
+            screenClass: "mobile",
+        };
+
+        const result = await processEventBatch(
+            [rrweb("evt_rr_2", "sess_1", 3000), landing, rrweb("evt_rr_3", "sess_2", 2000)],
+            "US"
+        );
+
+        expect(result).toEqual({ succeeded: 3, failed: 0, errors: [] });
+
+        // One statement per base table for the whole batch
+        expect(mockUpsertSessions).toHaveBeenCalledTimes(1);
+        const sessions = (mockUpsertSessions.mock.calls[0] as any[])[0];
+        expect(sessions).toHaveLength(2);
+        const session = sessions.find((s: any) => s.sessionId === "sess_1");
+        expect(session.device).toBe("mobile");
+        expect(session.location).toBe("US");
+        expect(session.attribution.channel).toBe("email");
+
+        expect(mockInsertEvents).toHaveBeenCalledTimes(1);
+        const events = (mockInsertEvents.mock.calls[0] as any[])[0];
+        expect(events.map((e: any) => e.eventId)).toEqual(["evt_pv", "evt_rr_3", "evt_rr_2"]);
+        expect(mockBatchUpsertUserFirstSeen).toHaveBeenCalledTimes(1);
+        expect(mockBatchUpsertUserDailyActivity).toHaveBeenCalledTimes(1);
+
+        // rrweb rows in one multi-row insert
+        expect(mockInsertRrwebEvents).toHaveBeenCalledTimes(1);
+        expect((mockInsertRrwebEvents.mock.calls[0] as any[])[0]).toHaveLength(2);
+        expect(mockRecordClicks).not.toHaveBeenCalled();
+    });
+
+    test("processEventBatch should store clicks in bulk and other types one by one", async () => {
+        const { processEventBatch } = await import("../../../src/processors/BatchProcessor");
+
+        const click: Event = {
+            ...base,
+            type: "click",
+            eventId: "evt_click",
+            sessionId: "sess_1",
+            timestamp: 1000,
+            url: "http://example.com/app",
+            xNorm: 0.5,
+            yNorm: 0.5,
+            selector: "#buy",
+        };
+        const custom: Event = {
+            ...base,
+            type: "custom",
+            eventId: "evt_custom",
+            sessionId: "sess_1",
+            timestamp: 2000,
+            url: "http://example.com/app",
+            eventName: "purchase",
+            properties: { amount: 10 },
+        };
+
+        const result = await processEventBatch([click, custom], "US");
+
+        expect(result.succeeded).toBe(2);
+        expect((mockRecordClicks.mock.calls[0] as any[])[0]).toEqual([
+            expect.objectContaining({ eventId: "evt_click", country: "US" }),
+        ]);
+        expect(mockInsertCustomEvent).toHaveBeenCalledWith(
+            expect.objectContaining({ eventId: "evt_custom", eventName: "purchase" })
+        );
+
+        // Funnel matching fields stay on the generic events
+        const events = (mockInsertEvents.mock.calls[0] as any[])[0];
+        expect(events[0].selector).toBe("#buy");
+        expect(events[1].eventName).toBe("purchase");
+    });
+
+    test("processEventBatch should report a failed group without failing the others", async () => {
+        const { processEventBatch } = await import("../../../src/processors/BatchProcessor");
+
+        mockInsertRrwebEvents.mockImplementation(() => Promise.reject(new Error("db down")));
+
+        const route: Event = {
+            ...base,
+            type: "route",
+            eventId: "evt_route",
+            sessionId: "sess_1",
+            timestamp: 1000,
+            url: "http://example.com/app",
+        };
+
+        const result = await processEventBatch(
+            [rrweb("evt_rr_1", "sess_1", 1000), rrweb("evt_rr_2", "sess_1", 2000), route],
+            "US"
+        );
+
+        // Skipped types are not tracked, and count as succeeded
+        expect(result.succeeded).toBe(1);
+        expect(result.failed).toBe(2);
+        expect(result.errors).toEqual([
+            { eventId: "evt_rr_1", error: "db down" },
+            { eventId: "evt_rr_2", error: "db down" },
+        ]);
+        expect((mockInsertEvents.mock.calls[0] as any[])[0]).toHaveLength(2);
+    });
+});
@@ -78,22 +78,29 @@ describe("ClickProcessor", () => {
         // 1. Verify Heatmap Recording
         expect(mockRecordClick).toHaveBeenCalledTimes(1);
         expect(mockRecordClick).toHaveBeenCalledWith({
+            eventId: "evt_123",
             projectId: "proj_abc",
             sessionId: "sess_xyz",
+            clientId: "client_1",
+            userId: "user_1",
             url: "http://example.com/page",
             xNorm: 0.1,
             yNorm: 0.25,
             pageX: 100,
             pageY: 200,
             selector: "button#submit",
+            xpath: undefined,
             tagName: "BUTTON",
             elementTextHash: undefined,
+            elementKey: expect.stringMatching(/^[0-9a-f]{32}$/),
             screenClass: "desktop",
             layoutHash: undefined,
             pageWidth: 1024,
             pageHeight: 768,
             viewportWidth: 1024,
             viewportHeight: 768,
+            country: "US",
+            timestamp: new Date(mockEvent.timestamp),
         });
 
         // 2. Verify Session Upsert
@@ -105,6 +112,7 @@ describe("ClickProcessor", () => {
             userId: "user_1",
             location: "US", // Passed explicitly
             device: "Desktop", // Passed explicitly
+            attribution: expect.objectContaining({ channel: "organic_search" }),
         });
 
         // 3. Verify Event Insert
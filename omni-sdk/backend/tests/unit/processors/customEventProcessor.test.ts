@@ -0,0 +1,104 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { CustomEventData } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSession = mock(() => Promise.resolve());
+const mockInsertEvent = mock(() => Promise.resolve());
+const mockUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockInsertCustomEvent = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSession: mockUpsertSession,
+    },
+    eventRepository: {
+        insertEvent: mockInsertEvent,
+    },
+    userRepository: {
+        upsertUserFirstSeen: mockUpsertUserFirstSeen,
+        upsertUserDailyActivity: mockUpsertUserDailyActivity,
+    },
+    customEventRepository: {
+        insertCustomEvent: mockInsertCustomEvent,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    rrwebRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+}));
+
+describe("CustomEventProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSession.mockClear();
+        mockInsertEvent.mockClear();
+        mockUpsertUserFirstSeen.mockClear();
+        mockUpsertUserDailyActivity.mockClear();
+        mockInsertCustomEvent.mockClear();
+    });
+
+    const mockEvent: CustomEventData = {
+        type: "custom",
+        eventId: "evt_custom_123",
+        projectId: "proj_abc",
+        sessionId: "sess_xyz",
+        clientId: "client_1",
+        userId: "user_1",
+        timestamp: 1700000000000,
+        url: "http://example.com/checkout",
+        pageDimensions: { w: 1024, h: 2000 },
+        viewport: { w: 1024, h: 768 },
+        eventName: "purchase_completed",
+        properties: { plan: "pro", amount: 49 },
+    };
+
+    test("processCustomEvent should track base event and store custom event", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { processCustomEvent } = await import("../../../src/processors/CustomEventProcessor");
+
+        await processCustomEvent(mockEvent, "US", "desktop");
+
+        // 1. Verify base event tracking
+        expect(mockUpsertSession).toHaveBeenCalledTimes(1);
+        expect(mockInsertEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_custom_123",
+            type: "custom",
+            eventName: "purchase_completed",
+        }));
+        expect(mockUpsertUserFirstSeen).toHaveBeenCalled();
+        expect(mockUpsertUserDailyActivity).toHaveBeenCalled();
+
+        // 2. Verify custom event insert with name and properties
+        expect(mockInsertCustomEvent).toHaveBeenCalledTimes(1);
+        expect(mockInsertCustomEvent).toHaveBeenCalledWith({
+            eventId: "evt_custom_123",
+            projectId: "proj_abc",
+            sessionId: "sess_xyz",
+            clientId: "client_1",
+            userId: "user_1",
+            eventName: "purchase_completed",
+            properties: { plan: "pro", amount: 49 },
+            timestamp: new Date(1700000000000),
+            url: "http://example.com/checkout",
+        });
+    });
+
+    test("processCustomEvent should store null userId for anonymous users", async () => {
+        const { processCustomEvent } = await import("../../../src/processors/CustomEventProcessor");
+
+        await processCustomEvent({ ...mockEvent, userId: null });
+
+        expect(mockInsertCustomEvent).toHaveBeenCalledWith(expect.objectContaining({
+            userId: null,
+        }));
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { DeadClickEventData } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSession = mock(() => Promise.resolve());
+const mockInsertEvent = mock(() => Promise.resolve());
+const mockUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockInsertDeadClick = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSession: mockUpsertSession,
+    },
+    eventRepository: {
+        insertEvent: mockInsertEvent,
+    },
+    userRepository: {
+        upsertUserFirstSeen: mockUpsertUserFirstSeen,
+        upsertUserDailyActivity: mockUpsertUserDailyActivity,
+    },
+    deadClickRepository: {
+        insertDeadClick: mockInsertDeadClick,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    rrwebRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+}));
+
+describe("DeadClickProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSession.mockClear();
+        mockInsertEvent.mockClear();
+        mockInsertDeadClick.mockClear();
+    });
+
+    const mockEvent: DeadClickEventData = {
+        type: "dead_click",
+        eventId: "evt_dead_123",
+        projectId: "proj_abc",
+        sessionId: "sess_xyz",
+        clientId: "client_1",
+        userId: null,
+        timestamp: 1700000003000,
+        url: "http://example.com/pricing",
+        pageDimensions: { w: 1280, h: 4000 },
+        viewport: { w: 1280, h: 800 },
+        clickEventId: "evt_click_1",
+        clickedAt: 1700000000000,
+        selector: "body > div.plans > span.badge",
+        xpath: "/html/body/div[2]/span[1]",
+        tagName: "span",
+        responseMs: null,
+        responseType: null,
+        windowMs: 3000,
+    };
+
+    test("processDeadClickEvent should store the report at the time of the click", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { processDeadClickEvent } = await import("../../../src/processors/DeadClickProcessor");
+
+        await processDeadClickEvent(mockEvent, "US", "desktop");
+
+        // 1. Verify base event tracking
+        expect(mockUpsertSession).toHaveBeenCalledTimes(1);
+        expect(mockInsertEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_dead_123",
+            type: "dead_click",
+        }));
+
+        // 2. Verify the report is linked to its click
+        expect(mockInsertDeadClick).toHaveBeenCalledWith({
+            eventId: "evt_dead_123",
+            clickEventId: "evt_click_1",
+            projectId: "proj_abc",
+            sessionId: "sess_xyz",
+            clientId: "client_1",
+            userId: null,
+            url: "http://example.com/pricing",
+            selector: "body > div.plans > span.badge",
+            xpath: "/html/body/div[2]/span[1]",
+            tagName: "span",
+            responseMs: null,
+            responseType: null,
+            windowMs: 3000,
+            timestamp: new Date(1700000000000),
+        });
+    });
+
+    test("processDeadClickEvent should keep slow responses", async () => {
+        const { processDeadClickEvent } = await import("../../../src/processors/DeadClickProcessor");
+
+        await processDeadClickEvent(
+            { ...mockEvent, responseMs: 1800, responseType: "network", xpath: undefined },
+            "US",
+            "desktop"
+        );
+
+        expect(mockInsertDeadClick).toHaveBeenCalledWith(expect.objectContaining({
+            xpath: null,
+            responseMs: 1800,
+            responseType: "network",
+        }));
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { ErrorEventData } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSession = mock(() => Promise.resolve());
+const mockInsertEvent = mock(() => Promise.resolve());
+const mockUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockUpsertIssue = mock(() => Promise.resolve());
+const mockInsertErrorEvent = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSession: mockUpsertSession,
+    },
+    eventRepository: {
+        insertEvent: mockInsertEvent,
+    },
+    userRepository: {
+        upsertUserFirstSeen: mockUpsertUserFirstSeen,
+        upsertUserDailyActivity: mockUpsertUserDailyActivity,
+    },
+    errorRepository: {
+        upsertIssue: mockUpsertIssue,
+        insertErrorEvent: mockInsertErrorEvent,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    rrwebRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+}));
+
+describe("ErrorProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSession.mockClear();
+        mockInsertEvent.mockClear();
+        mockUpsertUserFirstSeen.mockClear();
+        mockUpsertUserDailyActivity.mockClear();
+        mockUpsertIssue.mockClear();
+        mockInsertErrorEvent.mockClear();
+    });
+
+    const mockEvent: ErrorEventData = {
+        type: "error",
+        eventId: "evt_error_123",
+        projectId: "proj_abc",
+        sessionId: "sess_xyz",
+        replayId: "replay_1",
+        clientId: "client_1",
+        userId: null,
+        timestamp: 1700000000000,
+        url: "http://example.com/checkout",
+        pageDimensions: { w: 1024, h: 2000 },
+        viewport: { w: 1024, h: 768 },
+        message: "Cannot read properties of undefined (reading 'id')",
+        errorType: "TypeError",
+        stack: "TypeError: Cannot read properties of undefined (reading 'id')\n    at pay (http://example.com/app.js:10:5)",
+        source: "onerror",
+    };
+
+    test("processErrorEvent should group the error into an issue and store the occurrence", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { processErrorEvent } = await import("../../../src/processors/ErrorProcessor");
+
+        await processErrorEvent(mockEvent, "US", "desktop");
+
+        // 1. Verify base event tracking
+        expect(mockUpsertSession).toHaveBeenCalledTimes(1);
+        expect(mockInsertEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_error_123",
+            type: "error",
+        }));
+
+        // 2. Verify issue upsert with fingerprint and culprit
+        expect(mockUpsertIssue).toHaveBeenCalledTimes(1);
+        const issue = (mockUpsertIssue.mock.calls[0] as any[])[0];
+        expect(issue).toMatchObject({
+            projectId: "proj_abc",
+            errorType: "TypeError",
+            culprit: "pay (/app.js)",
+            timestamp: new Date(1700000000000),
+        });
+        expect(issue.fingerprint).toMatch(/^[0-9a-f]{32}$/);
+
+        // 3. Verify occurrence under the same fingerprint, linked to the replay
+        expect(mockInsertErrorEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_error_123",
+            fingerprint: issue.fingerprint,
+            sessionId: "sess_xyz",
+            replayId: "replay_1",
+            source: "onerror",
+        }));
+    });
+
+    test("processErrorEvent should store a null replayId when none is sent", async () => {
+        const { processErrorEvent } = await import("../../../src/processors/ErrorProcessor");
+
+        await processErrorEvent({ ...mockEvent, replayId: undefined });
+
+        expect(mockInsertErrorEvent).toHaveBeenCalledWith(expect.objectContaining({
+            replayId: null,
+        }));
+    });
+});
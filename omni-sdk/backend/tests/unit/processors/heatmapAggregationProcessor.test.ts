@@ -0,0 +1,111 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const T0 = 1700000000000;
+const replayEvents = [
+    {
+        timestamp: new Date(T0),
+        url: "https://example.com/landing",
+        rrwebPayload: { type: 2, data: { node: { id: 1 }, initialOffset: { left: 0, top: 0 } }, timestamp: T0 },
+        pageWidth: 1280,
+        pageHeight: 4000,
+        viewportWidth: 1280,
+        viewportHeight: 800,
+    },
+    {
+        timestamp: new Date(T0 + 500),
+        url: "https://example.com/landing",
+        rrwebPayload: { type: 3, data: { source: 1, positions: [{ x: 10, y: 10 }] }, timestamp: T0 + 500 },
+        pageWidth: 1280,
+        pageHeight: 4000,
+        viewportWidth: 1280,
+        viewportHeight: 800,
+    },
+];
+
+const mockGetRrwebEventsByReplay = mock(() => Promise.resolve(replayEvents as any[]));
+const mockGetReplaysPendingAggregation = mock(() => Promise.resolve([
+    { replayId: "replay_1", projectId: "proj_1" },
+    { replayId: "replay_2", projectId: "proj_1" },
+]));
+const mockSaveReplayActivity = mock((replayId: string) =>
+    replayId === "replay_2"
+        ? Promise.reject(new Error("db down"))
+        : Promise.resolve(true)
+);
+
+mock.module("../../../src/repositories", () => ({
+    rrwebRepository: {
+        getRrwebEventsByReplay: mockGetRrwebEventsByReplay,
+    },
+    heatmapRepository: {
+        getReplaysPendingAggregation: mockGetReplaysPendingAggregation,
+        saveReplayActivity: mockSaveReplayActivity,
+    },
+    // Mock other repositories to satisfy shared imports
+    sessionRepository: {},
+    eventRepository: {},
+    userRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+}));
+
+describe("HeatmapAggregationProcessor", () => {
+    beforeEach(() => {
+        mockGetRrwebEventsByReplay.mockClear();
+        mockGetReplaysPendingAggregation.mockClear();
+        mockSaveReplayActivity.mockClear();
+    });
+
+    test("aggregateReplayHeatmap should save move and attention cells for the replay", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { aggregateReplayHeatmap } = await import("../../../src/processors/HeatmapAggregationProcessor");
+
+        const aggregated = await aggregateReplayHeatmap("replay_1", "proj_1");
+
+        expect(aggregated).toBe(true);
+        expect(mockGetRrwebEventsByReplay).toHaveBeenCalledWith("replay_1");
+
+        const [replayId, projectId, eventCount, cells] = mockSaveReplayActivity.mock.calls[0] as any[];
+        expect(replayId).toBe("replay_1");
+        expect(projectId).toBe("proj_1");
+        expect(eventCount).toBe(2);
+        expect(cells).toContainEqual({
+            url: "https://example.com/landing",
+            screenClass: "desktop",
+            type: "move",
+            gridX: 0,
+            gridY: 0,
+            value: 1,
+        });
+        expect(cells).toContainEqual(expect.objectContaining({
+            type: "attention",
+            gridX: 0,
+            gridY: 0,
+            value: 500,
+        }));
+    });
+
+    test("runHeatmapAggregation should continue when one replay fails", async () => {
+        const { runHeatmapAggregation } = await import("../../../src/processors/HeatmapAggregationProcessor");
+
+        const results = await runHeatmapAggregation({ idleMinutes: 15 });
+
+        expect(mockGetReplaysPendingAggregation).toHaveBeenCalledWith(15, 7, 50);
+        expect(mockSaveReplayActivity).toHaveBeenCalledTimes(2);
+        expect(results).toEqual({ replays: 2, aggregated: 1, failed: 1 });
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { IdentifyEventData } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSession = mock(() => Promise.resolve());
+const mockInsertEvent = mock(() => Promise.resolve());
+const mockUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockUpsertAlias = mock(() => Promise.resolve());
+const mockMergeUserTraits = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSession: mockUpsertSession,
+    },
+    eventRepository: {
+        insertEvent: mockInsertEvent,
+    },
+    userRepository: {
+        upsertUserFirstSeen: mockUpsertUserFirstSeen,
+        upsertUserDailyActivity: mockUpsertUserDailyActivity,
+        upsertAlias: mockUpsertAlias,
+        mergeUserTraits: mockMergeUserTraits,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    rrwebRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+}));
+
+describe("IdentifyProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSession.mockClear();
+        mockInsertEvent.mockClear();
+        mockUpsertUserFirstSeen.mockClear();
+        mockUpsertUserDailyActivity.mockClear();
+        mockUpsertAlias.mockClear();
+        mockMergeUserTraits.mockClear();
+    });
+
+    const mockEvent: IdentifyEventData = {
+        type: "identify",
+        eventId: "evt_identify_123",
+        projectId: "proj_abc",
+        sessionId: "sess_xyz",
+        clientId: "client_anon_1",
+        userId: "user_42",
+        timestamp: 1700000000000,
+        url: "http://example.com/login",
+        pageDimensions: { w: 1024, h: 2000 },
+        viewport: { w: 1024, h: 768 },
+        traits: { plan: "pro" },
+    };
+
+    test("processIdentifyEvent should track base event under the userId and alias the clientId", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { processIdentifyEvent } = await import("../../../src/processors/IdentifyProcessor");
+
+        await processIdentifyEvent(mockEvent, "US", "desktop");
+
+        // 1. Verify base event tracking
+        expect(mockUpsertSession).toHaveBeenCalledTimes(1);
+        expect(mockInsertEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_identify_123",
+            type: "identify",
+            userId: "user_42",
+        }));
+        expect(mockUpsertUserFirstSeen).toHaveBeenCalledWith(
+            "proj_abc",
+            "user_42",
+            new Date(1700000000000),
+            "US"
+        );
+
+        // 2. Verify alias and traits
+        expect(mockUpsertAlias).toHaveBeenCalledWith("proj_abc", "client_anon_1", "user_42");
+        expect(mockMergeUserTraits).toHaveBeenCalledWith("proj_abc", "user_42", { plan: "pro" });
+    });
+
+    test("processIdentifyEvent should skip traits when none are sent", async () => {
+        const { processIdentifyEvent } = await import("../../../src/processors/IdentifyProcessor");
+
+        await processIdentifyEvent({ ...mockEvent, traits: undefined });
+
+        expect(mockUpsertAlias).toHaveBeenCalledTimes(1);
+        expect(mockMergeUserTraits).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { InputEventData } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSession = mock(() => Promise.resolve());
+const mockInsertEvent = mock(() => Promise.resolve());
+const mockUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockInsertInteraction = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSession: mockUpsertSession,
+    },
+    eventRepository: {
+        insertEvent: mockInsertEvent,
+    },
+    userRepository: {
+        upsertUserFirstSeen: mockUpsertUserFirstSeen,
+        upsertUserDailyActivity: mockUpsertUserDailyActivity,
+    },
+    formAnalyticsRepository: {
+        insertInteraction: mockInsertInteraction,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    rrwebRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+}));
+
+describe("InputProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSession.mockClear();
+        mockInsertEvent.mockClear();
+        mockUpsertUserFirstSeen.mockClear();
+        mockUpsertUserDailyActivity.mockClear();
+        mockInsertInteraction.mockClear();
+    });
+
+    const mockEvent: InputEventData = {
+        type: "input",
+        eventId: "evt_input_123",
+        projectId: "proj_abc",
+        sessionId: "sess_xyz",
+        clientId: "client_1",
+        userId: null,
+        timestamp: 1700000000000,
+        url: "http://example.com/signup",
+        pageDimensions: { w: 1024, h: 2000 },
+        viewport: { w: 1024, h: 768 },
+        action: "blur",
+        formId: "signup",
+        fieldName: "email",
+        selector: "form#signup > input[name='email']",
+        inputType: "email",
+        durationMs: 4200,
+    };
+
+    test("processInputEvent should track base event and store form interaction", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { processInputEvent } = await import("../../../src/processors/InputProcessor");
+
+        await processInputEvent(mockEvent, "US", "desktop");
+
+        // 1. Verify base event tracking
+        expect(mockUpsertSession).toHaveBeenCalledTimes(1);
+        expect(mockInsertEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_input_123",
+            type: "input",
+        }));
+        expect(mockUpsertUserFirstSeen).toHaveBeenCalled();
+
+        // 2. Verify interaction insert (field identity and timing, no value)
+        expect(mockInsertInteraction).toHaveBeenCalledTimes(1);
+        expect(mockInsertInteraction).toHaveBeenCalledWith({
+            eventId: "evt_input_123",
+            projectId: "proj_abc",
+            sessionId: "sess_xyz",
+            clientId: "client_1",
+            userId: null,
+            url: "http://example.com/signup",
+            formId: "signup",
+            fieldName: "email",
+            selector: "form#signup > input[name='email']",
+            inputType: "email",
+            action: "blur",
+            durationMs: 4200,
+            timestamp: new Date(1700000000000),
+        });
+    });
+
+    test("processInputEvent should store submit interactions without a field", async () => {
+        const { processInputEvent } = await import("../../../src/processors/InputProcessor");
+
+        await processInputEvent({
+            ...mockEvent,
+            action: "submit",
+            fieldName: null,
+            selector: "form#signup",
+            inputType: "form",
+            durationMs: undefined,
+        });
+
+        expect(mockInsertInteraction).toHaveBeenCalledWith(expect.objectContaining({
+            action: "submit",
+            fieldName: null,
+            durationMs: undefined,
+        }));
+    });
+});
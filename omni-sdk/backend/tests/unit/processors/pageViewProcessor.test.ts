@@ -70,6 +70,16 @@ describe("PageViewProcessor", () => {
             userId: "user_1",
             location: "US", // Passed explicitly
             device: "Desktop", // Passed explicitly
+            // First touch from the URL and referrer
+            attribution: {
+                channel: "organic_search",
+                source: "google.com",
+                medium: null,
+                campaign: null,
+                term: null,
+                content: null,
+                referrerDomain: "google.com",
+            },
         });
 
         // 2. Verify Event Insert
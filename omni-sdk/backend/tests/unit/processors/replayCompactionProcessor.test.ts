@@ -0,0 +1,94 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { readReplayChunk } from "../../../src/utils/replayChunks";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const T0 = 1700000000000;
+const row = (id: string, offsetMs: number, userId: string | null) => ({
+    id,
+    eventId: `evt_${id}`,
+    sessionId: "sess_1",
+    replayId: "replay_1",
+    projectId: "proj_1",
+    clientId: "client_1",
+    userId,
+    timestamp: new Date(T0 + offsetMs),
+    url: "https://example.com/landing",
+    rrwebPayload: { type: 3, data: { source: 1 }, timestamp: T0 + offsetMs },
+    schemaVersion: "1",
+    pageWidth: 1280,
+    pageHeight: 4000,
+    viewportWidth: 1280,
+    viewportHeight: 800,
+});
+
+const mockGetRrwebEventsByReplay = mock((replayId: string) =>
+    Promise.resolve(
+        replayId === "replay_1"
+            ? [row("1", 0, null), row("2", 500, null), row("3", 90_000, "user_1")]
+            : ([] as any[])
+    )
+);
+const mockGetReplaysPendingCompaction = mock(() =>
+    Promise.resolve(["replay_1", "replay_2"])
+);
+const mockSaveReplayChunks = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    rrwebRepository: {
+        getRrwebEventsByReplay: mockGetRrwebEventsByReplay,
+        getReplaysPendingCompaction: mockGetReplaysPendingCompaction,
+        saveReplayChunks: mockSaveReplayChunks,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    sessionRepository: {},
+    eventRepository: {},
+    userRepository: {},
+}));
+
+describe("ReplayCompactionProcessor", () => {
+    beforeEach(() => {
+        mockGetRrwebEventsByReplay.mockClear();
+        mockGetReplaysPendingCompaction.mockClear();
+        mockSaveReplayChunks.mockClear();
+        mockSaveReplayChunks.mockImplementation(() => Promise.resolve());
+    });
+
+    test("compactReplay should store chunks and delete the rows they were built from", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { compactReplay } = await import("../../../src/processors/ReplayCompactionProcessor");
+
+        const chunkCount = await compactReplay("replay_1");
+
+        expect(chunkCount).toBe(2);
+        const [replay, chunks, rowIds] = mockSaveReplayChunks.mock.calls[0] as any[];
+        expect(replay).toEqual({
+            replayId: "replay_1",
+            sessionId: "sess_1",
+            projectId: "proj_1",
+            clientId: "client_1",
+            userId: "user_1",
+            url: "https://example.com/landing",
+        });
+        expect(chunks.map((chunk: any) => chunk.eventCount)).toEqual([2, 1]);
+        expect(readReplayChunk(chunks[0].data).map((e) => e.eventId)).toEqual(["evt_1", "evt_2"]);
+        expect(rowIds).toEqual(["1", "2", "3"]);
+    });
+
+    test("runReplayCompaction should continue after a failing replay", async () => {
+        const { runReplayCompaction } = await import("../../../src/processors/ReplayCompactionProcessor");
+
+        mockGetReplaysPendingCompaction.mockResolvedValueOnce(["replay_1", "replay_1"]);
+        mockSaveReplayChunks.mockImplementationOnce(() => Promise.reject(new Error("db down")));
+
+        const results = await runReplayCompaction({ idleMinutes: 120 });
+
+        expect(mockGetReplaysPendingCompaction).toHaveBeenCalledWith(120, 7, 50);
+        expect(results).toEqual({ replays: 2, compacted: 1, chunks: 2, failed: 1 });
+    });
+});
@@ -96,6 +96,7 @@ describe("RrwebProcessor", () => {
             userId: "user_1",
             location: "US",
             device: "Desktop",
+            attribution: expect.objectContaining({ channel: "organic_search" }),
         });
 
         // 3. Verify Event Insert
@@ -0,0 +1,96 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { ScrollEventData } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSession = mock(() => Promise.resolve());
+const mockInsertEvent = mock(() => Promise.resolve());
+const mockUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockRecordScrollDepth = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSession: mockUpsertSession,
+    },
+    eventRepository: {
+        insertEvent: mockInsertEvent,
+    },
+    userRepository: {
+        upsertUserFirstSeen: mockUpsertUserFirstSeen,
+        upsertUserDailyActivity: mockUpsertUserDailyActivity,
+    },
+    heatmapRepository: {
+        recordScrollDepth: mockRecordScrollDepth,
+    },
+    // Mock other repositories to satisfy shared imports
+    rrwebRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+    webVitalsRepository: {},
+    errorRepository: {},
+}));
+
+describe("ScrollProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSession.mockClear();
+        mockInsertEvent.mockClear();
+        mockRecordScrollDepth.mockClear();
+    });
+
+    const mockEvent: ScrollEventData = {
+        type: "scroll",
+        eventId: "evt_scroll_123",
+        projectId: "proj_abc",
+        sessionId: "sess_xyz",
+        clientId: "client_1",
+        userId: null,
+        timestamp: 1700000000000,
+        url: "http://example.com/landing",
+        pageDimensions: { w: 1280, h: 4000 },
+        viewport: { w: 1280, h: 800 },
+        pageViewId: "pv_1",
+        maxDepth: 0.62,
+        maxScrollY: 2480,
+        screenClass: "desktop",
+    };
+
+    test("processScrollEvent should record the page view's max depth", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { processScrollEvent } = await import("../../../src/processors/ScrollProcessor");
+
+        await processScrollEvent(mockEvent, "US", "desktop");
+
+        // 1. Verify base event tracking
+        expect(mockUpsertSession).toHaveBeenCalledTimes(1);
+        expect(mockInsertEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_scroll_123",
+            type: "scroll",
+        }));
+
+        // 2. Verify scroll depth upsert keyed by page view
+        expect(mockRecordScrollDepth).toHaveBeenCalledWith({
+            projectId: "proj_abc",
+            pageViewId: "pv_1",
+            sessionId: "sess_xyz",
+            clientId: "client_1",
+            url: "http://example.com/landing",
+            screenClass: "desktop",
+            maxDepth: 0.62,
+            maxScrollY: 2480,
+            pageHeight: 4000,
+            viewportHeight: 800,
+            timestamp: new Date(1700000000000),
+        });
+    });
+});
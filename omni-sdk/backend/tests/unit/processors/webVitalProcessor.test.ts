@@ -0,0 +1,113 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { WebVitalEventData } from "../../../src/types";
+
+// 1. Mock DB client to prevent connection attempt and env check
+mock.module("../../../src/db/client", () => ({
+    db: {},
+}));
+
+// 2. Mock repositories
+const mockUpsertSession = mock(() => Promise.resolve());
+const mockInsertEvent = mock(() => Promise.resolve());
+const mockUpsertUserFirstSeen = mock(() => Promise.resolve());
+const mockUpsertUserDailyActivity = mock(() => Promise.resolve());
+const mockInsertVital = mock(() => Promise.resolve());
+
+mock.module("../../../src/repositories", () => ({
+    sessionRepository: {
+        upsertSession: mockUpsertSession,
+    },
+    eventRepository: {
+        insertEvent: mockInsertEvent,
+    },
+    userRepository: {
+        upsertUserFirstSeen: mockUpsertUserFirstSeen,
+        upsertUserDailyActivity: mockUpsertUserDailyActivity,
+    },
+    webVitalsRepository: {
+        insertVital: mockInsertVital,
+    },
+    // Mock other repositories to satisfy shared imports
+    heatmapRepository: {},
+    rrwebRepository: {},
+    trafficAnalyticsRepository: {},
+    overviewAnalyticsRepository: {},
+    topPagesRepository: {},
+    retentionRepository: {},
+    projectKeyRepository: {},
+    customEventRepository: {},
+    funnelRepository: {},
+    formAnalyticsRepository: {},
+}));
+
+describe("WebVitalProcessor", () => {
+    beforeEach(() => {
+        mockUpsertSession.mockClear();
+        mockInsertEvent.mockClear();
+        mockUpsertUserFirstSeen.mockClear();
+        mockUpsertUserDailyActivity.mockClear();
+        mockInsertVital.mockClear();
+    });
+
+    const mockEvent: WebVitalEventData = {
+        type: "web_vital",
+        eventId: "evt_vital_123",
+        projectId: "proj_abc",
+        sessionId: "sess_xyz",
+        clientId: "client_1",
+        userId: null,
+        timestamp: 1700000000000,
+        url: "http://example.com/pricing?plan=pro",
+        pageDimensions: { w: 390, h: 2000 },
+        viewport: { w: 390, h: 844 },
+        name: "LCP",
+        value: 2870,
+        rating: "needs-improvement",
+        selector: "main > img.hero",
+        navigationType: "navigate",
+        screenClass: "mobile",
+    };
+
+    test("processWebVitalEvent should track base event and store the metric", async () => {
+        // Dynamic import to ensure mocks are applied
+        const { processWebVitalEvent } = await import("../../../src/processors/WebVitalProcessor");
+
+        await processWebVitalEvent(mockEvent, "US", "mobile");
+
+        // 1. Verify base event tracking
+        expect(mockUpsertSession).toHaveBeenCalledTimes(1);
+        expect(mockInsertEvent).toHaveBeenCalledWith(expect.objectContaining({
+            eventId: "evt_vital_123",
+            type: "web_vital",
+        }));
+
+        // 2. Verify vital insert with device and country
+        expect(mockInsertVital).toHaveBeenCalledWith({
+            eventId: "evt_vital_123",
+            projectId: "proj_abc",
+            sessionId: "sess_xyz",
+            clientId: "client_1",
+            userId: null,
+            url: "http://example.com/pricing?plan=pro",
+            metric: "LCP",
+            value: 2870,
+            rating: "needs-improvement",
+            selector: "main > img.hero",
+            navigationType: "navigate",
+            device: "mobile",
+            country: "US",
+            timestamp: new Date(1700000000000),
+        });
+    });
+
+    test("processWebVitalEvent should fall back to screenClass for the device", async () => {
+        const { processWebVitalEvent } = await import("../../../src/processors/WebVitalProcessor");
+
+        await processWebVitalEvent({ ...mockEvent, screenClass: "tablet" });
+
+        expect(mockInsertVital).toHaveBeenCalledWith(expect.objectContaining({
+            device: "tablet",
+            country: null,
+        }));
+    });
+});
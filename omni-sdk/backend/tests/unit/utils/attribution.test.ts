@@ -0,0 +1,80 @@
+import { expect, test, describe } from "bun:test";
+import { parseAttribution } from "../../../src/utils/attribution";
+
+describe("Attribution Utils", () => {
+    test("is direct without a referrer or with a same-site referrer", () => {
+        expect(parseAttribution("https://shop.com/", "").channel).toBe("direct");
+        expect(parseAttribution("https://shop.com/cart", undefined).source).toBeNull();
+
+        const internal = parseAttribution(
+            "https://shop.com/cart",
+            "https://www.shop.com/products"
+        );
+        expect(internal.channel).toBe("direct");
+        expect(internal.referrerDomain).toBeNull();
+    });
+
+    test("classifies referrer domains", () => {
+        const search = parseAttribution("https://shop.com/", "https://www.google.co.uk/");
+        expect(search.channel).toBe("organic_search");
+        expect(search.source).toBe("google.co.uk");
+
+        expect(parseAttribution("https://shop.com/", "https://t.co/abc").channel).toBe("social");
+        expect(parseAttribution("https://shop.com/", "https://m.facebook.com/").channel).toBe("social");
+        expect(parseAttribution("https://shop.com/", "https://mail.google.com/").channel).toBe("email");
+
+        const referral = parseAttribution("https://shop.com/", "https://blog.example.com/post");
+        expect(referral.channel).toBe("referral");
+        expect(referral.source).toBe("blog.example.com");
+        expect(parseAttribution("https://shop.com/", "https://t.example.com/").channel).toBe("referral");
+    });
+
+    test("reads utm parameters", () => {
+        const result = parseAttribution(
+            "https://shop.com/?utm_source=Newsletter&utm_medium=email&utm_campaign=spring_sale&utm_content=hero",
+            "https://mail.example.com/"
+        );
+
+        expect(result).toEqual({
+            channel: "email",
+            source: "newsletter",
+            medium: "email",
+            campaign: "spring_sale",
+            term: null,
+            content: "hero",
+            referrerDomain: "mail.example.com",
+        });
+        expect(
+            parseAttribution("https://shop.com/?utm_source=google&utm_medium=cpc", "").channel
+        ).toBe("paid");
+        expect(
+            parseAttribution("https://shop.com/?utm_source=linkedin&utm_medium=social", "").channel
+        ).toBe("social");
+        expect(parseAttribution("https://shop.com/?utm_source=bing", "").channel).toBe(
+            "organic_search"
+        );
+        expect(parseAttribution("https://shop.com/?utm_source=partner", "").channel).toBe(
+            "referral"
+        );
+    });
+
+    test("treats ad click IDs as paid", () => {
+        const google = parseAttribution(
+            "https://shop.com/?gclid=abc123",
+            "https://www.google.com/"
+        );
+        expect(google.channel).toBe("paid");
+        expect(google.source).toBe("google");
+
+        expect(parseAttribution("https://shop.com/?msclkid=x", "").source).toBe("bing");
+
+        // fbclid is on every Facebook link, it does not mean paid
+        const facebook = parseAttribution("https://shop.com/?fbclid=x", "");
+        expect(facebook.channel).toBe("social");
+        expect(facebook.source).toBe("facebook");
+    });
+
+    test("ignores malformed URLs", () => {
+        expect(parseAttribution("not a url", "also not").channel).toBe("direct");
+    });
+});
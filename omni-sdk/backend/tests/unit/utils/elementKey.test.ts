@@ -0,0 +1,72 @@
+import { expect, test, describe } from "bun:test";
+import {
+  computeElementKey,
+  normalizeSelector,
+  normalizeXPath,
+} from "../../../src/utils/elementKey";
+
+const XPATH = "/html[1]/body[1]/div[1]/main[1]/section[2]/div[3]/button[2]";
+
+describe("Element Key Utils", () => {
+  describe("normalizeXPath", () => {
+    test("keeps the tag names of the last steps", () => {
+      expect(normalizeXPath(XPATH)).toBe("main/section/div/button");
+    });
+
+    test("keeps the element's own index when asked", () => {
+      expect(normalizeXPath(XPATH, true)).toBe("main/section/div/button[2]");
+    });
+  });
+
+  describe("normalizeSelector", () => {
+    test("drops positional pseudo-classes", () => {
+      expect(
+        normalizeSelector("main > div:nth-child(3) > button.cta:nth-of-type(2)")
+      ).toBe("main > div > button.cta");
+    });
+  });
+
+  describe("computeElementKey", () => {
+    test("is stable when a wrapper is added higher up the tree", () => {
+      const before = computeElementKey({ xpath: XPATH, elementTextHash: "abc" });
+      const after = computeElementKey({
+        xpath: "/html[1]/body[1]/div[1]/div[1]/main[1]/section[2]/div[3]/button[2]",
+        elementTextHash: "abc",
+      });
+
+      expect(before).toMatch(/^[0-9a-f]{32}$/);
+      expect(after).toBe(before);
+    });
+
+    test("is stable when a sibling is inserted before the element", () => {
+      const before = computeElementKey({ xpath: XPATH, elementTextHash: "abc" });
+      const after = computeElementKey({
+        xpath: "/html[1]/body[1]/div[1]/main[1]/section[3]/div[3]/button[3]",
+        elementTextHash: "abc",
+      });
+
+      expect(after).toBe(before);
+    });
+
+    test("separates siblings by text hash", () => {
+      const buy = computeElementKey({ xpath: XPATH, elementTextHash: "buy" });
+      const cancel = computeElementKey({ xpath: XPATH, elementTextHash: "cancel" });
+
+      expect(buy).not.toBe(cancel);
+    });
+
+    test("separates siblings by index when there is no text hash", () => {
+      const first = computeElementKey({ xpath: "/html[1]/body[1]/div[3]/button[1]" });
+      const second = computeElementKey({ xpath: "/html[1]/body[1]/div[3]/button[2]" });
+
+      expect(first).not.toBe(second);
+    });
+
+    test("falls back to the selector, and to null without one", () => {
+      expect(computeElementKey({ selector: "button.cta:nth-child(2)" })).toBe(
+        computeElementKey({ selector: "button.cta:nth-child(5)" })
+      );
+      expect(computeElementKey({})).toBeNull();
+    });
+  });
+});
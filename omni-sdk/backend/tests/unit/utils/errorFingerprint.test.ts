@@ -0,0 +1,78 @@
+import { expect, test, describe } from "bun:test";
+import {
+  computeErrorFingerprint,
+  normalizeMessage,
+  parseStack,
+} from "../../../src/utils/errorFingerprint";
+
+const CHROME_STACK = `TypeError: Cannot read properties of undefined (reading 'id')
+    at handleClick (https://app.example.com/static/js/main.3f2a1b9c.js:12:345)
+    at HTMLButtonElement.onclick (https://app.example.com/static/js/main.3f2a1b9c.js:40:12)
+    at https://app.example.com/static/js/vendor.js?v=2:1:99`;
+
+const FIREFOX_STACK = `handleClick@https://app.example.com/static/js/main.77aa00ff.js:13:10
+onclick@https://app.example.com/static/js/main.77aa00ff.js:41:3`;
+
+describe("Error Fingerprint Utils", () => {
+  describe("parseStack", () => {
+    test("parses V8 frames and normalizes file URLs", () => {
+      expect(parseStack(CHROME_STACK)).toEqual([
+        { fn: "handleClick", file: "/static/js/main.js" },
+        { fn: "HTMLButtonElement.onclick", file: "/static/js/main.js" },
+        { fn: "<anonymous>", file: "/static/js/vendor.js" },
+      ]);
+    });
+
+    test("parses Gecko / WebKit frames", () => {
+      expect(parseStack(FIREFOX_STACK)).toEqual([
+        { fn: "handleClick", file: "/static/js/main.js" },
+        { fn: "onclick", file: "/static/js/main.js" },
+      ]);
+    });
+
+    test("returns no frames for empty stacks", () => {
+      expect(parseStack(null)).toEqual([]);
+      expect(parseStack("Error: boom")).toEqual([]);
+    });
+  });
+
+  describe("normalizeMessage", () => {
+    test("replaces ids, numbers and quoted values", () => {
+      expect(
+        normalizeMessage(`Order 1234 "abc" failed for 3f2a1b9c-0000-4000-8000-123456789abc`)
+      ).toBe("Order <n> <str> failed for <uuid>");
+    });
+  });
+
+  describe("computeErrorFingerprint", () => {
+    test("ignores line numbers and build hashes across deploys", () => {
+      const a = computeErrorFingerprint("TypeError", "x is undefined", CHROME_STACK);
+      const b = computeErrorFingerprint(
+        "TypeError",
+        "x is undefined",
+        CHROME_STACK.replace(/main\.3f2a1b9c\.js:12:345/, "main.deadbeef.js:99:1")
+      );
+
+      expect(a.fingerprint).toBe(b.fingerprint);
+      expect(a.fingerprint).toMatch(/^[0-9a-f]{32}$/);
+      expect(a.culprit).toBe("handleClick (/static/js/main.js)");
+    });
+
+    test("separates different error types on the same stack", () => {
+      const a = computeErrorFingerprint("TypeError", "x", CHROME_STACK);
+      const b = computeErrorFingerprint("RangeError", "x", CHROME_STACK);
+
+      expect(a.fingerprint).not.toBe(b.fingerprint);
+    });
+
+    test("falls back to the normalized message without a stack", () => {
+      const a = computeErrorFingerprint("UnhandledRejection", "Request 500 failed", null);
+      const b = computeErrorFingerprint("UnhandledRejection", "Request 502 failed", null);
+      const c = computeErrorFingerprint("UnhandledRejection", "Network down", null);
+
+      expect(a.fingerprint).toBe(b.fingerprint);
+      expect(a.fingerprint).not.toBe(c.fingerprint);
+      expect(a.culprit).toBeNull();
+    });
+  });
+});
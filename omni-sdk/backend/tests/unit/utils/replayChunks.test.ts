@@ -0,0 +1,74 @@
+import { expect, test, describe } from "bun:test";
+import {
+    buildReplayChunks,
+    mergeReplayEvents,
+    readReplayChunk,
+    type ReplayEvent,
+} from "../../../src/utils/replayChunks";
+
+const T0 = 1700000000000;
+
+function event(
+    eventId: string,
+    offsetMs: number,
+    type = 3,
+    data: Record<string, any> = { source: 1, positions: [{ x: 1, y: 1 }] }
+): ReplayEvent {
+    return {
+        id: `row_${eventId}`,
+        eventId,
+        timestamp: new Date(T0 + offsetMs).toISOString(),
+        url: "https://example.com/app",
+        rrwebPayload: { type, data, timestamp: T0 + offsetMs },
+        schemaVersion: "1",
+        pageWidth: 1280,
+        pageHeight: 4000,
+        viewportWidth: 1280,
+        viewportHeight: 800,
+    };
+}
+
+describe("replayChunks", () => {
+    test("buildReplayChunks should compress time-ordered events that read back as stored", () => {
+        const events = [event("b", 1000), event("a", 0, 2, { node: { id: 1 } }), event("c", 2000)];
+
+        const chunks = buildReplayChunks(events);
+
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].eventCount).toBe(3);
+        expect(chunks[0].startTime).toEqual(new Date(T0));
+        expect(chunks[0].endTime).toEqual(new Date(T0 + 2000));
+        expect(chunks[0].fullSnapshotAt).toEqual(new Date(T0));
+        expect(chunks[0].compressedBytes).toBe(chunks[0].data.length);
+        expect(readReplayChunk(chunks[0].data).map((e) => e.eventId)).toEqual(["a", "b", "c"]);
+    });
+
+    test("buildReplayChunks should split by duration, size and before Meta events", () => {
+        const events = [
+            event("1", 0),
+            event("2", 30_000),
+            event("3", 60_000), // 60s after the chunk start
+            event("4", 61_000, 4, { href: "https://example.com/next" }), // page load
+            event("5", 61_100, 2, { node: { id: 1 } }),
+            event("6", 62_000),
+        ];
+
+        const chunks = buildReplayChunks(events);
+
+        expect(chunks.map((chunk) => chunk.eventCount)).toEqual([2, 1, 3]);
+        expect(chunks[1].fullSnapshotAt).toBeNull();
+        expect(chunks[2].fullSnapshotAt).toEqual(new Date(T0 + 61_100));
+
+        const small = buildReplayChunks(events.slice(0, 3), { maxBytes: 1 });
+        expect(small.map((chunk) => chunk.eventCount)).toEqual([1, 1, 1]);
+    });
+
+    test("mergeReplayEvents should keep one event per eventId in time order", () => {
+        const merged = mergeReplayEvents(
+            [event("a", 0), event("c", 2000)],
+            [event("b", 1000), event("c", 2000)]
+        );
+
+        expect(merged.map((e) => e.eventId)).toEqual(["a", "b", "c"]);
+    });
+});
@@ -0,0 +1,153 @@
+import { expect, test, describe } from "bun:test";
+import {
+  deriveRrwebHeatmapCells,
+  screenClassForWidth,
+  type StoredRrwebEvent,
+} from "../../../src/utils/rrwebHeatmap";
+
+const URL = "https://example.com/landing";
+const T0 = 1700000000000;
+
+// Desktop page: 1280 x 4000, viewport 1280 x 800 (one grid cell = 25.6 x 80 px)
+function rrweb(
+  offsetMs: number,
+  rrwebPayload: StoredRrwebEvent["rrwebPayload"],
+  overrides: Partial<StoredRrwebEvent> = {}
+): StoredRrwebEvent {
+  return {
+    timestamp: new Date(T0 + offsetMs),
+    url: URL,
+    rrwebPayload: { ...rrwebPayload, timestamp: T0 + offsetMs },
+    pageWidth: 1280,
+    pageHeight: 4000,
+    viewportWidth: 1280,
+    viewportHeight: 800,
+    ...overrides,
+  };
+}
+
+const fullSnapshot = (offsetMs: number) =>
+  rrweb(offsetMs, {
+    type: 2,
+    data: { node: { id: 1 }, initialOffset: { left: 0, top: 0 } },
+  });
+
+const mouseMove = (
+  offsetMs: number,
+  positions: Array<{ x: number; y: number }>
+) => rrweb(offsetMs, { type: 3, data: { source: 1, positions } });
+
+const scroll = (offsetMs: number, y: number, id = 1) =>
+  rrweb(offsetMs, { type: 3, data: { source: 3, id, x: 0, y } });
+
+describe("rrweb Heatmap Utils", () => {
+  describe("screenClassForWidth", () => {
+    test("uses the SDK breakpoints", () => {
+      expect(screenClassForWidth(375)).toBe("mobile");
+      expect(screenClassForWidth(800)).toBe("tablet");
+      expect(screenClassForWidth(1440)).toBe("desktop");
+    });
+  });
+
+  describe("deriveRrwebHeatmapCells", () => {
+    test("buckets pointer positions in page coordinates", () => {
+      const cells = deriveRrwebHeatmapCells([
+        fullSnapshot(0),
+        mouseMove(100, [
+          { x: 10, y: 10 },
+          { x: 15, y: 20 },
+        ]),
+        scroll(200, 2000),
+        mouseMove(300, [{ x: 1270, y: 10 }]),
+      ]);
+
+      const moves = cells.filter((cell) => cell.type === "move");
+      expect(moves).toContainEqual({
+        url: URL,
+        screenClass: "desktop",
+        type: "move",
+        gridX: 0,
+        gridY: 0,
+        value: 2,
+      });
+      // After scrolling 2000px, viewport y=10 is page y=2010 -> row 25
+      expect(moves).toContainEqual(
+        expect.objectContaining({ gridX: 49, gridY: 25, value: 1 })
+      );
+    });
+
+    test("ignores scrolls of elements other than the document", () => {
+      const cells = deriveRrwebHeatmapCells([
+        fullSnapshot(0),
+        scroll(100, 2000, 42),
+        mouseMove(200, [{ x: 10, y: 10 }]),
+      ]);
+
+      expect(cells.filter((cell) => cell.type === "move")).toEqual([
+        expect.objectContaining({ gridX: 0, gridY: 0, value: 1 }),
+      ]);
+    });
+
+    test("adds time in viewport to every visible cell", () => {
+      const cells = deriveRrwebHeatmapCells([
+        fullSnapshot(0),
+        scroll(1000, 2000),
+        mouseMove(3000, [{ x: 10, y: 10 }]),
+      ]);
+
+      const attention = (gridX: number, gridY: number) =>
+        cells.find(
+          (cell) =>
+            cell.type === "attention" &&
+            cell.gridX === gridX &&
+            cell.gridY === gridY
+        )?.value;
+
+      // First screen (rows 0-9) visible for 1s, rows 25-34 for 2s
+      expect(attention(0, 0)).toBe(1000);
+      expect(attention(49, 9)).toBe(1000);
+      expect(attention(0, 10)).toBeUndefined();
+      expect(attention(0, 25)).toBe(2000);
+      expect(attention(0, 34)).toBe(2000);
+      expect(attention(0, 35)).toBeUndefined();
+    });
+
+    test("caps idle gaps and sorts events by time", () => {
+      const cells = deriveRrwebHeatmapCells([
+        mouseMove(600000, [{ x: 10, y: 10 }]),
+        fullSnapshot(0),
+      ]);
+
+      const cell = cells.find(
+        (c) => c.type === "attention" && c.gridX === 0 && c.gridY === 0
+      );
+      expect(cell?.value).toBe(30000);
+    });
+
+    test("uses the viewport width for the screen class", () => {
+      const mobile = {
+        pageWidth: 390,
+        pageHeight: 3000,
+        viewportWidth: 390,
+        viewportHeight: 844,
+      };
+      const cells = deriveRrwebHeatmapCells([
+        rrweb(
+          0,
+          { type: 4, data: { href: URL, width: 390, height: 844 } },
+          mobile
+        ),
+        // TouchMove
+        rrweb(
+          10,
+          { type: 3, data: { source: 6, positions: [{ x: 10, y: 10 }] } },
+          mobile
+        ),
+      ]);
+
+      expect(
+        cells.find((cell) => cell.type === "move")?.screenClass
+      ).toBe("mobile");
+    });
+  });
+});
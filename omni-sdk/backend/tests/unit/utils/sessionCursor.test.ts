@@ -0,0 +1,37 @@
+import { expect, test, describe } from "bun:test";
+import {
+    encodeSessionCursor,
+    decodeSessionCursor,
+} from "../../../src/utils/sessionCursor";
+
+describe("Session Cursor Utils", () => {
+    test("round-trips the sort, value and id", () => {
+        const cursor = {
+            sort: "recent" as const,
+            value: "1760877123456.789",
+            id: "sess_1",
+        };
+        const encoded = encodeSessionCursor(cursor);
+
+        expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeSessionCursor(encoded)).toEqual(cursor);
+    });
+
+    test("rejects strings that are not cursors", () => {
+        expect(decodeSessionCursor("not-a-cursor")).toBeNull();
+        expect(
+            decodeSessionCursor(Buffer.from('{"a":1}').toString("base64url"))
+        ).toBeNull();
+    });
+
+    test("rejects unknown sorts and non-numeric values", () => {
+        const encode = (value: unknown) =>
+            Buffer.from(JSON.stringify(value)).toString("base64url");
+
+        expect(decodeSessionCursor(encode(["name", "1", "sess_1"]))).toBeNull();
+        expect(
+            decodeSessionCursor(encode(["events", "1; DROP", "sess_1"]))
+        ).toBeNull();
+        expect(decodeSessionCursor(encode(["events", "12", ""]))).toBeNull();
+    });
+});
@@ -0,0 +1,38 @@
+import { expect, test, describe } from "bun:test";
+import {
+    isValidTimezone,
+    formatDateInTimezone,
+} from "../../../src/utils/timezone";
+
+describe("Timezone Utils", () => {
+    test("accepts IANA timezone names", () => {
+        expect(isValidTimezone("UTC")).toBe(true);
+        expect(isValidTimezone("Africa/Addis_Ababa")).toBe(true);
+        expect(isValidTimezone("America/New_York")).toBe(true);
+        expect(isValidTimezone("America/Argentina/Buenos_Aires")).toBe(true);
+        expect(isValidTimezone("Etc/GMT+3")).toBe(true);
+    });
+
+    test("rejects unknown names", () => {
+        expect(isValidTimezone("Mars/Olympus_Mons")).toBe(false);
+        expect(isValidTimezone("")).toBe(false);
+    });
+
+    test("rejects offsets and SQL", () => {
+        expect(isValidTimezone("+03:00")).toBe(false);
+        expect(isValidTimezone("UTC+3")).toBe(false);
+        expect(isValidTimezone("UTC'; DROP TABLE events; --")).toBe(false);
+    });
+
+    test("formats the calendar date of an instant in a timezone", () => {
+        const instant = new Date("2026-10-19T22:30:00Z");
+
+        expect(formatDateInTimezone(instant, "UTC")).toBe("2026-10-19");
+        expect(formatDateInTimezone(instant, "Africa/Addis_Ababa")).toBe(
+            "2026-10-20"
+        );
+        expect(
+            formatDateInTimezone(new Date("2026-10-19T02:00:00Z"), "America/New_York")
+        ).toBe("2026-10-18");
+    });
+});
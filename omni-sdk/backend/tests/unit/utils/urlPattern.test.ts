@@ -0,0 +1,15 @@
+import { expect, test, describe } from "bun:test";
+import { toLikePattern } from "../../../src/utils/urlPattern";
+
+describe("URL Pattern Utils", () => {
+    test("turns * into a LIKE wildcard", () => {
+        expect(toLikePattern("/blog/*")).toBe("/blog/%");
+        expect(toLikePattern("*/checkout*")).toBe("%/checkout%");
+        expect(toLikePattern("/pricing")).toBe("/pricing");
+    });
+
+    test("escapes LIKE wildcards and backslashes in the input", () => {
+        expect(toLikePattern("/100%_off")).toBe("/100\\%\\_off");
+        expect(toLikePattern("/a\\b")).toBe("/a\\\\b");
+    });
+});
@@ -1,15 +1,95 @@
-import { useQuery } from "@tanstack/react-query";
+import { useCallback, useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiClient } from "./client";
-import { HeatmapResponse, SessionResponse } from "@/types";
+import {
+  ActivityHeatmapResponse,
+  ClickElementsResponse,
+  HeatmapFilters,
+  HeatmapResponse,
+  Replay,
+  ReplayWindowResponse,
+  ScrollHeatmapResponse,
+  SessionEvent,
+  SessionResponse,
+} from "@/types";
 
 // Heatmap API
-export const useHeatmap = (projectId: string, url: string) => {
+export const useHeatmap = (
+  projectId: string,
+  url: string,
+  filters: HeatmapFilters = {}
+) => {
   return useQuery({
-    queryKey: ["heatmap", projectId, url],
+    queryKey: ["heatmap", projectId, url, filters],
     queryFn: async () => {
       const encodedUrl = encodeURIComponent(url);
       const response = await apiClient.get<HeatmapResponse>(
-        `/heatmaps/${projectId}/${encodedUrl}`
+        `/heatmaps/${projectId}/${encodedUrl}`,
+        { params: filters }
+      );
+      return response.data;
+    },
+    enabled: !!projectId && !!url,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+// Click map API (elements ranked by clicks)
+export const useClickElements = (
+  projectId: string,
+  url: string,
+  filters: HeatmapFilters & { limit?: number } = {}
+) => {
+  return useQuery({
+    queryKey: ["heatmap", "elements", projectId, url, filters],
+    queryFn: async () => {
+      const encodedUrl = encodeURIComponent(url);
+      const response = await apiClient.get<ClickElementsResponse>(
+        `/heatmaps/${projectId}/${encodedUrl}/elements`,
+        { params: filters }
+      );
+      return response.data;
+    },
+    enabled: !!projectId && !!url,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+// Scroll-reach heatmap API
+export const useScrollHeatmap = (
+  projectId: string,
+  url: string,
+  screenClass?: string
+) => {
+  return useQuery({
+    queryKey: ["heatmap", "scroll", projectId, url, screenClass],
+    queryFn: async () => {
+      const encodedUrl = encodeURIComponent(url);
+      const response = await apiClient.get<ScrollHeatmapResponse>(
+        `/heatmaps/${projectId}/${encodedUrl}`,
+        { params: { type: "scroll", screenClass } }
+      );
+      return response.data;
+    },
+    enabled: !!projectId && !!url,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+// Move / attention heatmap API (aggregated from session replays)
+export const useActivityHeatmap = (
+  projectId: string,
+  url: string,
+  type: "move" | "attention",
+  screenClass?: string
+) => {
+  return useQuery({
+    queryKey: ["heatmap", type, projectId, url, screenClass],
+    queryFn: async () => {
+      const encodedUrl = encodeURIComponent(url);
+      const response = await apiClient.get<ActivityHeatmapResponse>(
+        `/heatmaps/${projectId}/${encodedUrl}`,
+        { params: { type, screenClass } }
       );
       return response.data;
     },
@@ -32,3 +112,115 @@ export const useSession = (sessionId: string) => {
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 };
+
+// Replay windows: each request returns REPLAY_WINDOW_MS of events
+const REPLAY_WINDOW_MS = 60 * 1000;
+// Load the next window when playback is this close to the loaded end
+const REPLAY_PREFETCH_MS = 20 * 1000;
+
+const replayWindowQuery = (
+  replayId: string,
+  from: number | null,
+  snapshot: boolean
+) => ({
+  queryKey: ["replay", replayId, "window", from, snapshot],
+  queryFn: async () => {
+    const response = await apiClient.get<ReplayWindowResponse>(
+      `/sessions/replays/${replayId}`,
+      {
+        params: {
+          // The first window starts at the replay start
+          ...(from === null ? {} : { from, to: from + REPLAY_WINDOW_MS }),
+          snapshot,
+        },
+      }
+    );
+    return response.data;
+  },
+  staleTime: 1000 * 60 * 5, // 5 minutes
+});
+
+// Replay playback, one time window at a time
+// The first window (with its full snapshot) starts the player; while it
+// plays, loadAhead appends the next windows, fetched ahead of the position.
+// Windows start at their first event, so idle periods are skipped
+export const useReplayPlayback = (replay?: Replay) => {
+  const queryClient = useQueryClient();
+  const replayId = replay?.replayId;
+
+  const firstWindow = useQuery({
+    ...replayWindowQuery(replayId ?? "", null, true),
+    enabled: !!replayId,
+  });
+
+  // Start of the next window to append, null once the replay end is loaded
+  const nextFrom = useRef<number | null>(null);
+  const loading = useRef(false);
+
+  useEffect(() => {
+    nextFrom.current = firstWindow.data?.nextFrom ?? null;
+    loading.current = false;
+
+    // Warm the cache with the second window before playback starts
+    if (replayId && nextFrom.current !== null) {
+      queryClient.prefetchQuery(
+        replayWindowQuery(replayId, nextFrom.current, false)
+      );
+    }
+  }, [replayId, firstWindow.data, queryClient]);
+
+  // Called with the playback position (epoch ms); force loads the next
+  // window however far it is (playback paused or finished)
+  const loadAhead = useCallback(
+    async (
+      position: number,
+      append: (events: SessionEvent[]) => void,
+      force = false
+    ) => {
+      if (!replayId || nextFrom.current === null || loading.current) return;
+      if (!force && nextFrom.current - position > REPLAY_PREFETCH_MS) return;
+
+      loading.current = true;
+      try {
+        // Until some events are appended (a window can come back empty)
+        while (nextFrom.current !== null) {
+          const data = await queryClient.fetchQuery(
+            replayWindowQuery(replayId, nextFrom.current, false)
+          );
+          nextFrom.current = data.nextFrom;
+          if (data.events.length > 0) {
+            append(data.events);
+            break;
+          }
+        }
+
+        // Prefetch the window after it while this one plays
+        if (nextFrom.current !== null) {
+          queryClient.prefetchQuery(
+            replayWindowQuery(replayId, nextFrom.current, false)
+          );
+        }
+      } catch {
+        // Logged by the API client, retried on the next position update
+      } finally {
+        loading.current = false;
+      }
+    },
+    [replayId, queryClient]
+  );
+
+  const startTime = firstWindow.data?.startTime;
+  const duration = firstWindow.data?.duration;
+
+  return {
+    events: firstWindow.data?.events,
+    // Replay end (epoch ms), for a seek bar covering the whole replay
+    endTime:
+      startTime !== undefined && duration !== undefined
+        ? Date.parse(startTime) + duration
+        : undefined,
+    isLoading: firstWindow.isLoading,
+    error: firstWindow.error,
+    loadAhead,
+  };
+};
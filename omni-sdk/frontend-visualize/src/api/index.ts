@@ -1,2 +1,9 @@
 export { apiClient } from "./client";
-export { useHeatmap, useSession } from "./hooks";
+export {
+  useHeatmap,
+  useScrollHeatmap,
+  useActivityHeatmap,
+  useClickElements,
+  useSession,
+  useReplayPlayback,
+} from "./hooks";
@@ -1,2 +1,2 @@
-export { mockHeatmapData } from "./mockHeatmapData";
+export { mockHeatmapData, mockScrollHeatmapData } from "./mockHeatmapData";
 export { mockSessionData } from "./mockSessionData";
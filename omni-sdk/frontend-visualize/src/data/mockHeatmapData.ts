@@ -1,3 +1,5 @@
+import type { ScrollHeatmapData } from "@/types";
+
 export const mockHeatmapData = {
   projectId: "local-example-app",
   url: "http://localhost:5174/products",
@@ -97,3 +99,33 @@ export const mockHeatmapData = {
     },
   ],
 };
+
+// Scroll-reach preview: most visitors leave after the first two screens
+const mockReachPercentage = (yNorm: number) =>
+  Math.round(100 * Math.exp(-2.2 * yNorm) * 10) / 10;
+
+export const mockScrollHeatmapData: ScrollHeatmapData = {
+  projectId: "local-example-app",
+  url: "http://localhost:5174/products",
+  type: "scroll",
+  screenClass: null,
+  pageViews: 120,
+  averageDepth: 0.41,
+  gridSize: 50,
+  pageHeight: 3932,
+  viewportHeight: 983,
+  screenClasses: [
+    { screenClass: "desktop", pageViews: 120, averageDepth: 0.41 },
+  ],
+  reach: Array.from({ length: 50 }, (_, gridY) => ({
+    gridY,
+    yNorm: gridY / 50,
+    pageViews: Math.round(1.2 * mockReachPercentage(gridY / 50)),
+    percentage: mockReachPercentage(gridY / 50),
+  })),
+  folds: [1, 2, 3, 4].map((fold) => ({
+    fold,
+    yNorm: fold / 4,
+    percentage: mockReachPercentage(Math.min(Math.floor(fold * 12.5), 49) / 50),
+  })),
+};
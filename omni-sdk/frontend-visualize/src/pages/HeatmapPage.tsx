@@ -1,7 +1,16 @@
 import { useState, useRef, useEffect } from "react";
-import { useHeatmap } from "@/api";
+import {
+  useHeatmap,
+  useScrollHeatmap,
+  useActivityHeatmap,
+  useClickElements,
+} from "@/api";
 import { useHeatmapStore } from "@/store";
-import { mockHeatmapData } from "@/data";
+import { mockHeatmapData, mockScrollHeatmapData } from "@/data";
+import {
+  renderScrollReachOverlay,
+  type HeatmapOverlayMode,
+} from "@/utils/heatmapRenderer";
 import Heatmap from "visual-heatmap";
 import {
   Card,
@@ -13,10 +22,39 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 
+const MODES: HeatmapOverlayMode[] = ["click", "scroll", "move", "attention"];
+
+const MODE_LABELS: Record<HeatmapOverlayMode, string> = {
+  click: "Clicks",
+  scroll: "Scroll reach",
+  move: "Moves",
+  attention: "Attention",
+};
+
+/**
+ * Format attention time (ms) for display
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.round(ms / 60_000)}m`;
+}
+
 export function HeatmapPage() {
   const containerRef = useRef<HTMLDivElement>(null);
   const heatmapRef = useRef<any>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const scrollCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [mode, setMode] = useState<HeatmapOverlayMode>("click");
+  const [screenClass, setScreenClass] = useState<string | undefined>();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [country, setCountry] = useState("");
+  const [visitorType, setVisitorType] = useState<
+    "new" | "returning" | undefined
+  >();
+  const [layoutHash, setLayoutHash] = useState<string | undefined>();
+  const [showElements, setShowElements] = useState(true);
   const [urlInput, setUrlInput] = useState("");
   const [hoveredPoint, setHoveredPoint] = useState<any>(null);
   const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
@@ -26,19 +64,64 @@ export function HeatmapPage() {
   } | null>(null);
 
   const { selectedProjectId, setSelectedUrl, selectedUrl } = useHeatmapStore();
-  const {
-    data: apiData,
-    isLoading,
-    error,
-  } = useHeatmap(selectedProjectId, selectedUrl);
+  const clickFilters = {
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+    screenClass,
+    layoutHash,
+    country: country.length === 2 ? country : undefined,
+    visitorType,
+  };
+  const clickQuery = useHeatmap(
+    selectedProjectId,
+    mode === "click" ? selectedUrl : "",
+    clickFilters
+  );
+  // Element outlines must match the layout shown in the grid
+  const elementsQuery = useClickElements(
+    selectedProjectId,
+    mode === "click" && clickQuery.data ? selectedUrl : "",
+    {
+      ...clickFilters,
+      layoutHash: clickQuery.data?.layoutHash ?? undefined,
+      limit: 20,
+    }
+  );
+  const clickElements = elementsQuery.data?.elements ?? [];
+  const scrollQuery = useScrollHeatmap(
+    selectedProjectId,
+    mode === "scroll" ? selectedUrl : "",
+    screenClass
+  );
+  const isActivityMode = mode === "move" || mode === "attention";
+  const activityQuery = useActivityHeatmap(
+    selectedProjectId,
+    isActivityMode ? selectedUrl : "",
+    mode === "attention" ? "attention" : "move",
+    screenClass
+  );
+  const activeQuery =
+    mode === "click"
+      ? clickQuery
+      : mode === "scroll"
+        ? scrollQuery
+        : activityQuery;
+  const { isLoading, error } = activeQuery;
+  const apiData = activeQuery.data;
 
   // Use API data if available, fallback to mock data when no URL is selected
-  const heatmapData = apiData || (selectedUrl ? null : mockHeatmapData);
+  const heatmapData =
+    clickQuery.data || (selectedUrl ? null : mockHeatmapData);
+  const scrollData =
+    scrollQuery.data || (selectedUrl ? null : mockScrollHeatmapData);
+  // Move / attention cells only exist once replays have been aggregated
+  const activityData = activityQuery.data || null;
 
   const handleFetchHeatmap = (e: React.FormEvent) => {
     e.preventDefault();
     if (urlInput.trim()) {
       setSelectedUrl(urlInput.trim());
+      setLayoutHash(undefined);
     }
   };
 
@@ -80,8 +163,21 @@ export function HeatmapPage() {
       heatmapRef.current = null;
     }
 
+    // Click density or replay-derived move / attention density
+    const points = isActivityMode
+      ? (activityData?.grid || []).map((point) => ({
+          xNorm: point.xNorm,
+          yNorm: point.yNorm,
+          value: point.value,
+        }))
+      : (heatmapData?.grid || []).map((point) => ({
+          xNorm: point.xNorm,
+          yNorm: point.yNorm,
+          value: point.count,
+        }));
+
     // Don't render if no data or empty grid
-    if (!heatmapData?.grid || heatmapData.grid.length === 0) return;
+    if (points.length === 0) return;
 
     // Get container dimensions
     const rect = containerRef.current.getBoundingClientRect();
@@ -95,7 +191,7 @@ export function HeatmapPage() {
     // Build heatmap config
     const heatmapConfig: any = {
       size: 50, // Radius of data point in pixels
-      max: Math.max(...heatmapData.grid.map((p) => p.count), 1),
+      max: Math.max(...points.map((p) => p.value), 1),
       min: 0,
       intensity: 0.5,
       gradient: [
@@ -127,10 +223,10 @@ export function HeatmapPage() {
     heatmapRef.current = Heatmap(containerRef.current, heatmapConfig);
 
     // Convert normalized coordinates to pixel coordinates
-    const heatmapPoints = heatmapData.grid.map((point) => ({
+    const heatmapPoints = points.map((point) => ({
       x: Math.round(point.xNorm * containerWidth),
       y: Math.round(point.yNorm * containerHeight),
-      value: point.count,
+      value: point.value,
     }));
 
     // Render the heatmap
@@ -142,7 +238,45 @@ export function HeatmapPage() {
       }
       heatmapRef.current = null;
     };
-  }, [heatmapData, selectedUrl, backgroundImage, imageDimensions]);
+  }, [
+    heatmapData,
+    activityData,
+    isActivityMode,
+    selectedUrl,
+    backgroundImage,
+    imageDimensions,
+    mode,
+  ]);
+
+  // Render scroll-reach overlay (bands per row + fold markers)
+  useEffect(() => {
+    const canvas = scrollCanvasRef.current;
+    if (mode !== "scroll" || !canvas || !scrollData) return;
+
+    const width = canvas.parentElement?.getBoundingClientRect().width || 800;
+    const height = imageDimensions
+      ? Math.round((width / imageDimensions.width) * imageDimensions.height)
+      : 500;
+
+    const draw = (image?: HTMLImageElement) =>
+      renderScrollReachOverlay(
+        canvas,
+        scrollData.reach,
+        scrollData.folds,
+        width,
+        height,
+        { backgroundImage: image }
+      );
+
+    if (!backgroundImage) {
+      draw();
+      return;
+    }
+
+    const img = new Image();
+    img.onload = () => draw(img);
+    img.src = backgroundImage;
+  }, [mode, scrollData, backgroundImage, imageDimensions]);
 
   // Calculate container height based on image aspect ratio
   const getContainerHeight = () => {
@@ -155,7 +289,9 @@ export function HeatmapPage() {
 
   // Handle hover for detailed tooltips
   const handleContainerHover = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!heatmapData?.grid || !containerRef.current) return;
+    if (mode !== "click" || !heatmapData?.grid || !containerRef.current) {
+      return;
+    }
 
     const rect = containerRef.current.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -189,6 +325,19 @@ export function HeatmapPage() {
           {/* URL Input Form */}
           <div className="space-y-3">
             <div className="flex gap-2">
+              <div className="flex rounded-md border border-border overflow-hidden">
+                {MODES.map((m) => (
+                  <Button
+                    key={m}
+                    type="button"
+                    variant={mode === m ? "default" : "ghost"}
+                    className="rounded-none"
+                    onClick={() => setMode(m)}
+                  >
+                    {MODE_LABELS[m]}
+                  </Button>
+                ))}
+              </div>
               <form onSubmit={handleFetchHeatmap} className="flex gap-2 flex-1">
                 <Input
                   type="url"
@@ -243,7 +392,12 @@ export function HeatmapPage() {
               <div className="text-xs text-green-600 bg-green-50 p-2 rounded border border-green-200">
                 Displaying live data for: <strong>{selectedUrl}</strong>
               </div>
-            ) : selectedUrl && isLoading ? null : (
+            ) : selectedUrl && isLoading ? null : isActivityMode ? (
+              <div className="text-xs text-blue-600 bg-blue-50 p-2 rounded border border-blue-200">
+                Enter a URL to fetch move and attention data. It is aggregated
+                from session replays once a replay has gone idle.
+              </div>
+            ) : (
               <div className="text-xs text-blue-600 bg-blue-50 p-2 rounded border border-blue-200">
                 Enter a URL to fetch heatmap data from the API. Showing mock
                 data preview.
@@ -268,9 +422,238 @@ export function HeatmapPage() {
             </div>
           )}
 
+          {/* Scroll Reach Visualization */}
+          {mode === "scroll" && scrollData && (
+            <div className="space-y-4">
+              {/* Device filter */}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={!screenClass ? "default" : "outline"}
+                  onClick={() => setScreenClass(undefined)}
+                >
+                  All devices
+                </Button>
+                {scrollData.screenClasses
+                  .filter((s) => s.screenClass)
+                  .map((s) => (
+                    <Button
+                      key={s.screenClass}
+                      type="button"
+                      size="sm"
+                      variant={
+                        screenClass === s.screenClass ? "default" : "outline"
+                      }
+                      onClick={() => setScreenClass(s.screenClass ?? undefined)}
+                    >
+                      {s.screenClass} ({s.pageViews})
+                    </Button>
+                  ))}
+              </div>
+
+              <div className="rounded-lg border border-border overflow-hidden bg-white">
+                <canvas
+                  ref={scrollCanvasRef}
+                  style={{ width: "100%", display: "block" }}
+                />
+              </div>
+
+              {/* Scroll Info */}
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Page Views</p>
+                  <p className="text-lg font-semibold">
+                    {scrollData.pageViews}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    Average Depth
+                  </p>
+                  <p className="text-lg font-semibold">
+                    {Math.round(scrollData.averageDepth * 100)}%
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    Scrolled Past Screen 1
+                  </p>
+                  <p className="text-lg font-semibold">
+                    {scrollData.folds[0]
+                      ? `${scrollData.folds[0].percentage}%`
+                      : "N/A"}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Page Height</p>
+                  <p className="text-lg font-semibold">
+                    {scrollData.pageHeight
+                      ? `${scrollData.pageHeight}px`
+                      : "N/A"}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Move / Attention Visualization */}
+          {isActivityMode && activityData && (
+            <div className="space-y-4">
+              {/* Device filter */}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={!screenClass ? "default" : "outline"}
+                  onClick={() => setScreenClass(undefined)}
+                >
+                  All devices
+                </Button>
+                {activityData.screenClasses.map((s) => (
+                  <Button
+                    key={s}
+                    type="button"
+                    size="sm"
+                    variant={screenClass === s ? "default" : "outline"}
+                    onClick={() => setScreenClass(s)}
+                  >
+                    {s}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="rounded-lg border border-border overflow-hidden bg-white">
+                <div
+                  ref={containerRef}
+                  style={{
+                    height: imageDimensions ? getContainerHeight() : "500px",
+                    width: "100%",
+                    minHeight: "300px",
+                    maxHeight: "800px",
+                  }}
+                />
+              </div>
+
+              {/* Activity Info */}
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {mode === "move" ? "Pointer Positions" : "Total Time"}
+                  </p>
+                  <p className="text-lg font-semibold">
+                    {activityData.unit === "ms"
+                      ? formatDuration(activityData.total)
+                      : activityData.total}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Active Cells</p>
+                  <p className="text-lg font-semibold">
+                    {activityData.grid.length}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Busiest Cell</p>
+                  <p className="text-lg font-semibold">
+                    {activityData.unit === "ms"
+                      ? formatDuration(activityData.maxValue)
+                      : activityData.maxValue}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Click filters: date range, device, country, visitor type */}
+          {mode === "click" && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-40"
+                aria-label="Start date"
+              />
+              <Input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-40"
+                aria-label="End date"
+              />
+              {([undefined, "desktop", "tablet", "mobile"] as const).map(
+                (s) => (
+                  <Button
+                    key={s ?? "all"}
+                    type="button"
+                    size="sm"
+                    variant={screenClass === s ? "default" : "outline"}
+                    onClick={() => setScreenClass(s)}
+                  >
+                    {s ?? "All devices"}
+                  </Button>
+                )
+              )}
+              <Input
+                placeholder="Country (US)"
+                value={country}
+                maxLength={2}
+                onChange={(e) => setCountry(e.target.value.toUpperCase())}
+                className="w-32"
+              />
+              {([undefined, "new", "returning"] as const).map((v) => (
+                <Button
+                  key={v ?? "all"}
+                  type="button"
+                  size="sm"
+                  variant={visitorType === v ? "default" : "outline"}
+                  onClick={() => setVisitorType(v)}
+                >
+                  {v === "new"
+                    ? "New visitors"
+                    : v === "returning"
+                      ? "Returning visitors"
+                      : "All visitors"}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* Visual Heatmap Visualization */}
-          {heatmapData && (
+          {mode === "click" && heatmapData && (
             <div className="space-y-4">
+              {/* Layout switcher: each page version has its own grid */}
+              {heatmapData.layouts && heatmapData.layouts.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    Page layout:
+                  </span>
+                  {heatmapData.layouts.map((layout) => (
+                    <Button
+                      key={layout.layoutHash ?? "none"}
+                      type="button"
+                      size="sm"
+                      variant={
+                        layout.layoutHash === heatmapData.layoutHash
+                          ? "default"
+                          : "outline"
+                      }
+                      disabled={!layout.layoutHash}
+                      onClick={() =>
+                        setLayoutHash(layout.layoutHash ?? undefined)
+                      }
+                    >
+                      {layout.layoutHash
+                        ? layout.layoutHash.slice(0, 8)
+                        : "Unknown"}{" "}
+                      ({layout.clickCount} clicks, last{" "}
+                      {new Date(layout.lastClickAt).toLocaleDateString()})
+                    </Button>
+                  ))}
+                </div>
+              )}
+
               <div className="rounded-lg border border-border overflow-hidden bg-white relative">
                 <div
                   ref={containerRef}
@@ -284,6 +667,26 @@ export function HeatmapPage() {
                   onMouseLeave={() => setHoveredPoint(null)}
                 />
 
+                {/* Click map: outline of the most clicked elements */}
+                {showElements &&
+                  clickElements.map((element) => (
+                    <div
+                      key={element.elementKey}
+                      className="absolute border-2 border-primary/80 rounded-sm pointer-events-none"
+                      style={{
+                        left: `${element.box.xMin * 100}%`,
+                        top: `${element.box.yMin * 100}%`,
+                        width: `${Math.max(element.box.xMax - element.box.xMin, 0.01) * 100}%`,
+                        height: `${Math.max(element.box.yMax - element.box.yMin, 0.01) * 100}%`,
+                      }}
+                      title={element.selector ?? element.elementKey}
+                    >
+                      <span className="absolute -top-3 -left-3 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold px-1.5 py-0.5 shadow">
+                        #{element.rank} · {element.clicks}
+                      </span>
+                    </div>
+                  ))}
+
                 {/* Hover tooltip */}
                 {hoveredPoint && (
                   <div className="absolute top-4 right-4 bg-white/95 border border-border rounded-lg p-3 shadow-lg text-sm">
@@ -321,7 +724,9 @@ export function HeatmapPage() {
                 <div className="space-y-1">
                   <p className="text-xs text-muted-foreground">Page Size</p>
                   <p className="text-lg font-semibold">
-                    {heatmapData.pageWidth} × {heatmapData.pageHeight}
+                    {heatmapData.pageWidth && heatmapData.pageHeight
+                      ? `${heatmapData.pageWidth} × ${heatmapData.pageHeight}`
+                      : "N/A"}
                   </p>
                 </div>
                 <div className="space-y-1">
@@ -337,6 +742,85 @@ export function HeatmapPage() {
                 </div>
               </div>
 
+              {/* Click Map Table */}
+              {clickElements.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium">Clicked Elements</p>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setShowElements((show) => !show)}
+                    >
+                      {showElements ? "Hide outlines" : "Show outlines"}
+                    </Button>
+                  </div>
+                  <div className="rounded-lg border border-border overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/50">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium">#</th>
+                          <th className="px-4 py-2 text-left font-medium">
+                            Element
+                          </th>
+                          <th className="px-4 py-2 text-right font-medium">
+                            Clicks
+                          </th>
+                          <th className="px-4 py-2 text-right font-medium">
+                            Clickers
+                          </th>
+                          <th className="px-4 py-2 text-right font-medium">
+                            Click-through
+                          </th>
+                          <th className="px-4 py-2 text-right font-medium">
+                            Rage
+                          </th>
+                          <th className="px-4 py-2 text-right font-medium">
+                            Dead
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {clickElements.map((element) => (
+                          <tr
+                            key={element.elementKey}
+                            className="border-t border-border hover:bg-muted/30"
+                          >
+                            <td className="px-4 py-2 font-medium">
+                              {element.rank}
+                            </td>
+                            <td className="px-4 py-2 truncate max-w-64">
+                              <code className="text-xs bg-muted px-1 rounded">
+                                {element.tagName ?? "?"}
+                              </code>{" "}
+                              <span className="text-muted-foreground">
+                                {element.selector}
+                              </span>
+                            </td>
+                            <td className="px-4 py-2 text-right font-medium">
+                              {element.clicks} ({element.clickShare}%)
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              {element.uniqueClickers}
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              {element.clickThroughRate}%
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              {element.rageClickShare}%
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              {element.deadClickShare}%
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Click Details Table */}
               <div className="rounded-lg border border-border overflow-hidden">
                 <table className="w-full text-sm">
@@ -1,6 +1,7 @@
-import { useState, useEffect, useRef } from "react";
-import { useSession } from "@/api";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { useReplayPlayback, useSession } from "@/api";
 import { useSessionStore } from "@/store";
+import type { SessionEvent } from "@/types";
 import {
   Card,
   CardContent,
@@ -14,19 +15,46 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import rrwebPlayer from "rrweb-player";
 import "rrweb-player/dist/style.css";
 
+// Transform rrweb events for player
+const toPlayerEvent = (event: SessionEvent) => ({
+  ...event.rrwebPayload,
+  timestamp: event.rrwebPayload.timestamp,
+});
+
+// rrweb custom event at the replay end: the player's seek bar spans from the
+// first to the last event, this makes it cover the windows not loaded yet
+const REPLAY_END_TAG = "omni-replay-end";
+const toReplayEndEvent = (endTime: number) => ({
+  type: 5, // EventType.Custom
+  timestamp: endTime,
+  data: { tag: REPLAY_END_TAG, payload: {} },
+});
+
 // Wrapper component for rrweb-player
 function RrwebPlayerWrapper({
   events,
   width,
   height,
+  onTimeUpdate,
 }: {
   events: any[];
   width: number;
   height: number;
+  // Playback position (epoch ms), with a function appending events;
+  // stopped when playback was paused or finished
+  onTimeUpdate?: (
+    position: number,
+    append: (events: any[]) => void,
+    stopped: boolean
+  ) => void;
 }) {
   const containerRef = useRef<HTMLDivElement>(null);
   const playerRef = useRef<InstanceType<typeof rrwebPlayer> | null>(null);
 
+  // Latest callback, without re-creating the player
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+
   useEffect(() => {
     if (!containerRef.current || events.length === 0) return;
 
@@ -36,7 +64,7 @@ function RrwebPlayerWrapper({
     }
 
     // Create new player instance
-    playerRef.current = new rrwebPlayer({
+    const player = new rrwebPlayer({
       target: containerRef.current,
       props: {
         events,
@@ -47,6 +75,26 @@ function RrwebPlayerWrapper({
         speedOption: [1, 2, 4, 8],
       },
     });
+    playerRef.current = player;
+
+    // Current time is an offset from the first event
+    const update = (offset: number, stopped: boolean) =>
+      onTimeUpdateRef.current?.(
+        player.getMetaData().startTime + offset,
+        (more) => more.forEach((event) => player.addEvent(event)),
+        stopped
+      );
+
+    player.addEventListener(
+      "ui-update-current-time",
+      ({ payload }: { payload: number }) => update(payload, false)
+    );
+    // Keep loading while the player stands still
+    for (const type of ["pause", "finish"]) {
+      player.addEventListener(type, () =>
+        update(player.getReplayer().getCurrentTime(), true)
+      );
+    }
 
     return () => {
       if (playerRef.current) {
@@ -92,12 +140,38 @@ export function SessionReplayPage() {
     (r) => r.replayId === selectedReplayId
   );
 
-  // Transform rrweb events for player
-  const playerEvents =
-    selectedReplay?.events.map((event) => ({
-      ...event.rrwebPayload,
-      timestamp: event.rrwebPayload.timestamp,
-    })) || [];
+  // Load the selected replay one time window at a time: the first one to
+  // start playback, the next ones ahead of the playback position
+  const {
+    events: replayEvents,
+    endTime: replayEndTime,
+    isLoading: isLoadingEvents,
+    loadAhead,
+  } = useReplayPlayback(selectedReplay);
+
+  const playerEvents = useMemo(() => {
+    const events: any[] = (replayEvents ?? []).map(toPlayerEvent);
+    const last = events[events.length - 1];
+    if (last && replayEndTime !== undefined && replayEndTime > last.timestamp) {
+      events.push(toReplayEndEvent(replayEndTime));
+    }
+    return events;
+  }, [replayEvents, replayEndTime]);
+
+  const handleTimeUpdate = useCallback(
+    (
+      position: number,
+      append: (events: any[]) => void,
+      stopped: boolean
+    ) => {
+      loadAhead(
+        position,
+        (events) => append(events.map(toPlayerEvent)),
+        stopped
+      );
+    },
+    [loadAhead]
+  );
 
   return (
     <div className="w-full space-y-6">
@@ -226,12 +300,17 @@ export function SessionReplayPage() {
                       </div>
 
                       {/* RRWeb Player */}
-                      {playerEvents.length > 0 ? (
+                      {isLoadingEvents ? (
+                        <div className="rounded-lg border border-dashed border-border p-8 text-center text-muted-foreground">
+                          Loading replay events...
+                        </div>
+                      ) : playerEvents.length > 0 ? (
                         <div className="rounded-lg border border-border overflow-hidden bg-white">
                           <RrwebPlayerWrapper
                             events={playerEvents}
                             width={800}
                             height={600}
+                            onTimeUpdate={handleTimeUpdate}
                           />
                         </div>
                       ) : (
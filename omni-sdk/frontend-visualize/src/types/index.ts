@@ -11,17 +11,132 @@ export interface HeatmapGridPoint {
   screenClass: string;
 }
 
+// One version of a page (clicks are never mixed across layouts)
+export interface HeatmapLayout {
+  layoutHash: string | null;
+  clickCount: number;
+  pageWidth: number | null;
+  pageHeight: number | null;
+  screenClasses: string[];
+  lastClickAt: string;
+}
+
+// Click heatmap filters (GET /heatmaps/:projectId/:url query)
+export interface HeatmapFilters {
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  screenClass?: string;
+  layoutHash?: string;
+  country?: string;
+  visitorType?: "new" | "returning";
+}
+
 export interface HeatmapData {
   projectId: string;
   url: string;
+  filters?: {
+    startDate: string | null;
+    endDate: string | null;
+    screenClass: string | null;
+    country: string | null;
+    visitorType: "new" | "returning" | null;
+  };
+  layoutHash?: string | null; // layout shown in grid
   clickCount: number;
   gridSize: number;
   screenClasses: string[];
-  pageWidth: number;
-  pageHeight: number;
+  pageWidth: number | null;
+  pageHeight: number | null;
+  layouts?: HeatmapLayout[];
   grid: HeatmapGridPoint[];
 }
 
+// Click map (GET /heatmaps/:projectId/:url/elements)
+export interface ClickElement {
+  rank: number;
+  elementKey: string;
+  selector: string | null;
+  xpath: string | null;
+  tagName: string | null;
+  elementTextHash: string | null;
+  clicks: number;
+  clickShare: number; // % of page clicks
+  uniqueClickers: number;
+  clickThroughs: number;
+  clickThroughRate: number; // % of clicks followed by a pageview
+  rageClicks: number;
+  rageClickShare: number; // % of clicks inside a rage sequence
+  deadClicks: number;
+  deadClickShare: number; // % of clicks with no response
+  box: { xMin: number; xMax: number; yMin: number; yMax: number }; // normalized
+  lastClickAt: string;
+}
+
+export interface ClickElementsData {
+  projectId: string;
+  url: string;
+  layoutHash: string | null;
+  pageClicks: number;
+  elements: ClickElement[];
+}
+
+// Scroll-reach heatmap (GET /heatmaps/:projectId/:url?type=scroll)
+export interface ScrollReachPoint {
+  gridY: number;
+  yNorm: number;
+  pageViews: number;
+  percentage: number; // share of page views that reached this row
+}
+
+export interface ScrollFold {
+  fold: number;
+  yNorm: number; // bottom of the nth screen
+  percentage: number;
+}
+
+export interface ScrollHeatmapData {
+  projectId: string;
+  url: string;
+  type: "scroll";
+  screenClass: string | null;
+  pageViews: number;
+  averageDepth: number;
+  gridSize: number;
+  pageHeight: number | null;
+  viewportHeight: number | null;
+  screenClasses: Array<{
+    screenClass: string | null;
+    pageViews: number;
+    averageDepth: number;
+  }>;
+  reach: ScrollReachPoint[];
+  folds: ScrollFold[];
+}
+
+// Move / attention heatmap derived from replays
+// (GET /heatmaps/:projectId/:url?type=move|attention)
+export interface ActivityHeatmapPoint {
+  gridX: number;
+  gridY: number;
+  xNorm: number;
+  yNorm: number;
+  value: number;
+  intensity: number; // value relative to the busiest cell (0-1)
+}
+
+export interface ActivityHeatmapData {
+  projectId: string;
+  url: string;
+  type: "move" | "attention";
+  screenClass: string | null;
+  unit: "positions" | "ms";
+  gridSize: number;
+  total: number;
+  maxValue: number;
+  screenClasses: string[];
+  grid: ActivityHeatmapPoint[];
+}
+
 // Session & Replay Types
 export interface RrwebPayload {
   data?: {
@@ -44,12 +159,25 @@ export interface SessionEvent {
   schemaVersion: string;
 }
 
+// Compacted, time-ordered chunk of a replay's events
+export interface ReplayChunkInfo {
+  sequence: number;
+  startTime: string;
+  endTime: string;
+  eventCount: number;
+  fullSnapshotAt: string | null;
+}
+
+// Replay manifest: events are loaded on demand, one time window at a time
 export interface Replay {
   replayId: string;
+  url: string;
   eventCount: number;
   startTime: string;
   endTime: string;
-  events: SessionEvent[];
+  chunks: ReplayChunkInfo[];
+  // Events not compacted into chunks yet
+  live: { eventCount: number; startTime: string; endTime: string } | null;
 }
 
 export interface Session {
@@ -68,4 +196,27 @@ export interface Session {
 // API Response Types
 export interface HeatmapResponse extends HeatmapData {}
 
+export interface ScrollHeatmapResponse extends ScrollHeatmapData {}
+
+export interface ActivityHeatmapResponse extends ActivityHeatmapData {}
+
+export interface ClickElementsResponse extends ClickElementsData {}
+
 export interface SessionResponse extends Session {}
+
+// Time window of a replay: the full snapshot before `from` and the events
+// since, up to `to` (epoch ms)
+export interface ReplayWindowResponse {
+  replayId: string;
+  eventCount: number;
+  startTime: string;
+  endTime: string;
+  // Whole replay (ms), the loaded windows may cover less
+  duration: number;
+  from: number;
+  to: number;
+  snapshotAt: string | null;
+  // Start of the next window (its first event), null at the end of the replay
+  nextFrom: number | null;
+  events: SessionEvent[];
+}
@@ -1,4 +1,12 @@
-import { HeatmapGridPoint } from "@/types";
+import { HeatmapGridPoint, ScrollFold, ScrollReachPoint } from "@/types";
+
+/**
+ * What the heatmap overlay shows
+ * - click: click density (renderHeatmapToCanvas / visual-heatmap)
+ * - scroll: share of visitors reaching each part of the page (renderScrollReachOverlay)
+ * - move / attention: pointer movement and time in viewport from replays (visual-heatmap)
+ */
+export type HeatmapOverlayMode = "click" | "scroll" | "move" | "attention";
 
 /**
  * Simple Gaussian blur using convolution
@@ -204,3 +212,73 @@ export function renderHeatmapToCanvas(
     padding - 10
   );
 }
+
+/**
+ * Render scroll-reach overlay to canvas
+ * One horizontal band per grid row, colored by the share of page views that
+ * reached it (red = everyone, blue = nobody), with a dashed line at each fold
+ * Drawn over an optional page screenshot, stretched to width x height
+ */
+export function renderScrollReachOverlay(
+  canvas: HTMLCanvasElement,
+  reach: ScrollReachPoint[],
+  folds: ScrollFold[],
+  width: number,
+  height: number,
+  options: { backgroundImage?: CanvasImageSource; opacity?: number } = {}
+): void {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.clearRect(0, 0, width, height);
+
+  if (options.backgroundImage) {
+    ctx.drawImage(options.backgroundImage, 0, 0, width, height);
+  }
+
+  if (reach.length === 0) return;
+
+  const opacity = options.opacity ?? 0.45;
+  const rowHeight = height / reach.length;
+
+  // Reach bands
+  reach.forEach((point) => {
+    const rgbMatch = intensityToColor(point.percentage / 100).match(/\d+/g);
+    if (!rgbMatch || rgbMatch.length < 3) return;
+
+    const [r, g, b] = rgbMatch;
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
+    // Round to whole pixels so adjacent bands do not leave gaps
+    const top = Math.floor(point.yNorm * height);
+    ctx.fillRect(0, top, width, Math.ceil(rowHeight) + 1);
+  });
+
+  // Fold markers (the last fold is the bottom of the page, not drawn)
+  ctx.font = "12px sans-serif";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "bottom";
+
+  folds.forEach((fold) => {
+    if (fold.yNorm >= 1) return;
+
+    const y = Math.round(fold.yNorm * height) + 0.5;
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.9)";
+    ctx.lineWidth = 1;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const label = `${fold.percentage}% reached the end of screen ${fold.fold}`;
+    const labelWidth = ctx.measureText(label).width + 12;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.fillRect(8, y - 22, labelWidth, 20);
+    ctx.fillStyle = "#fff";
+    ctx.fillText(label, 14, y - 6);
+  });
+}
@@ -1,4 +1,8 @@
-import type { SDKConfig } from "../types/config";
+import type {
+  SDKConfig,
+  OfflineConfig,
+  PrivacyConfig,
+} from "../types/config";
 import { generateUUID } from "../utils";
 import { Logger, type ILogger } from "../utils/Logger";
 
@@ -18,6 +22,9 @@ export class Config {
   private readonly clientIdStorageKey: string;
   private readonly replayIdStorageKey: string;
   private readonly captureErrors: boolean;
+  private readonly onError?: (error: Error) => void;
+  private readonly offlineConfig: Required<OfflineConfig>;
+  private readonly privacyConfig: PrivacyConfig;
   private clientId: string;
   private userId: string | null;
   private replayId: string;
@@ -60,11 +67,18 @@ export class Config {
     this.clientIdStorageKey = "omni_client_id"; // Browser-wide persistence key
     this.replayIdStorageKey = "omni_replay_id"; // Tab-scoped (sessionStorage)
     this.captureErrors = config.captureErrors ?? false;
+    this.onError = config.onError;
+    this.offlineConfig = {
+      enabled: config.offline?.enabled ?? true,
+      maxBytes: config.offline?.maxBytes ?? 1024 * 1024,
+      maxAgeMs: config.offline?.maxAgeMs ?? 7 * 24 * 60 * 60 * 1000,
+    };
     this.enabled = config.enabled ?? true;
     this.clientId = config.clientId ?? this.loadOrCreateClientId();
     this.userId = config.userId ?? null;
     this.replayId = this.loadOrCreateReplayId();
     this.replayConfig = config.replay ?? {};
+    this.privacyConfig = config.privacy ?? {};
     this.sessionConfig = config.session ?? {};
     this.inactivityTimeoutMs = config.session?.inactivityTimeoutMs ?? 1800000;
 
@@ -191,6 +205,13 @@ export class Config {
     return this.captureErrors;
   }
 
+  /**
+   * Get the delivery error callback (if configured)
+   */
+  getErrorHandler(): ((error: Error) => void) | undefined {
+    return this.onError;
+  }
+
   getClientId(): string {
     return this.clientId;
   }
@@ -199,6 +220,22 @@ export class Config {
     this.clientId = clientId;
   }
 
+  /**
+   * Replace the clientId with a fresh anonymous one (e.g. on logout)
+   * Events after this are no longer linked to the previous user
+   */
+  resetClientId(): string {
+    this.clientId = this.generateAnonymousId();
+    try {
+      if (typeof window !== "undefined" && window.localStorage) {
+        window.localStorage.setItem(this.clientIdStorageKey, this.clientId);
+      }
+    } catch (e) {
+      // localStorage unavailable, keep the new ID in memory only
+    }
+    return this.clientId;
+  }
+
   getUserId(): string | null {
     return this.userId;
   }
@@ -229,6 +266,27 @@ export class Config {
     return this.replayConfig;
   }
 
+  /**
+   * Get privacy configuration (mask/block selectors)
+   */
+  getPrivacyConfig(): PrivacyConfig {
+    return this.privacyConfig;
+  }
+
+  /**
+   * Get offline buffer configuration (defaults applied)
+   */
+  getOfflineConfig(): Required<OfflineConfig> {
+    return this.offlineConfig;
+  }
+
+  /**
+   * Get offline buffer storage key (scoped per project)
+   */
+  getOfflineStorageKey(): string {
+    return `omni_offline_${this.projectId}`;
+  }
+
   /**
    * Get inactivity timeout in milliseconds
    * Default: 30 minutes (1800000 ms)
@@ -10,11 +10,16 @@ import { Config } from "../config/Config";
 import { SessionManager } from "../session/SessionManager";
 import { Tracker } from "../tracker/Tracker";
 import { EventQueue } from "../queue/EventQueue";
+import { OfflineBuffer } from "../queue/OfflineBuffer";
 import { FetchTransmitter, BeaconTransmitter } from "../transmitter";
 import { PluginRegistry } from "../plugins/PluginRegistry";
 import { PageViewPlugin } from "../plugins/page-view/PageViewPlugin";
 import { ClickTrackingPlugin } from "../plugins/click-tracking/ClickTrackingPlugin";
 import { ReplayPlugin } from "../plugins/replay/ReplayPlugin";
+import { FormAnalyticsPlugin } from "../plugins/form-analytics/FormAnalyticsPlugin";
+import { WebVitalsPlugin } from "../plugins/web-vitals/WebVitalsPlugin";
+import { ErrorTrackingPlugin } from "../plugins/error-tracking/ErrorTrackingPlugin";
+import { ScrollDepthPlugin } from "../plugins/scroll-depth/ScrollDepthPlugin";
 import type { ITransmitter } from "../transmitter/ITransmitter";
 import type { IPlugin } from "../types";
 import * as rrweb from "rrweb";
@@ -50,7 +55,7 @@ export interface ContainerOptions {
   plugins?: IPlugin[];
 
   /**
-   * Enable default auto-tracking plugins (PageView + Click tracking)
+   * Enable default auto-tracking plugins (PageView + Click + Form analytics)
    * Default: true
    */
   enableAutoTracking?: boolean;
@@ -98,7 +103,8 @@ export class Container {
       ];
     }
 
-    // Initialize EventQueue
+    // Initialize EventQueue (with offline buffer unless disabled)
+    const offlineConfig = this.config.getOfflineConfig();
     this.eventQueue =
       options?.eventQueue ??
       new EventQueue(
@@ -107,6 +113,13 @@ export class Container {
         this.config.getBatchTimeout(),
         undefined,
         this.config,
+        offlineConfig.enabled
+          ? new OfflineBuffer(
+              this.config.getOfflineStorageKey(),
+              offlineConfig.maxBytes,
+              offlineConfig.maxAgeMs,
+            )
+          : undefined,
       );
 
     // Initialize Tracker
@@ -122,6 +135,14 @@ export class Container {
     if (enableAutoTracking) {
       this.pluginRegistry.register(new PageViewPlugin());
       this.pluginRegistry.register(new ClickTrackingPlugin());
+      this.pluginRegistry.register(new FormAnalyticsPlugin());
+      this.pluginRegistry.register(new WebVitalsPlugin());
+      this.pluginRegistry.register(new ScrollDepthPlugin());
+
+      // Error capture is opt-in (SDKConfig.captureErrors)
+      if (this.config.shouldCaptureErrors()) {
+        this.pluginRegistry.register(new ErrorTrackingPlugin());
+      }
 
       // ReplayPlugin requires rrweb instance
       if (this.rrwebInstance) {
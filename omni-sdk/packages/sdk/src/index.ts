@@ -100,10 +100,13 @@ export { Tracker } from "./tracker/Tracker";
 export { Config } from "./config/Config";
 export { SessionManager } from "./session/SessionManager";
 export { EventQueue } from "./queue/EventQueue";
+export { OfflineBuffer } from "./queue/OfflineBuffer";
+export type { BufferedBatch } from "./queue/OfflineBuffer";
 export {
   ITransmitter,
   FetchTransmitter,
   BeaconTransmitter,
+  TransmitterError,
 } from "./transmitter";
 export { PluginRegistry } from "./plugins/PluginRegistry";
 export { PageViewPlugin } from "./plugins/page-view/PageViewPlugin";
@@ -111,6 +114,22 @@ export {
   ClickTrackingPlugin,
   type ClickTrackingOptions,
 } from "./plugins/click-tracking/ClickTrackingPlugin";
+export {
+  FormAnalyticsPlugin,
+  type FormAnalyticsOptions,
+} from "./plugins/form-analytics/FormAnalyticsPlugin";
+export {
+  WebVitalsPlugin,
+  type WebVitalsOptions,
+} from "./plugins/web-vitals/WebVitalsPlugin";
+export {
+  ErrorTrackingPlugin,
+  type ErrorTrackingOptions,
+} from "./plugins/error-tracking/ErrorTrackingPlugin";
+export {
+  ScrollDepthPlugin,
+  type ScrollDepthOptions,
+} from "./plugins/scroll-depth/ScrollDepthPlugin";
 export { SessionSnapshotPlugin } from "./plugins/session-snapshot/SessionSnapshotPlugin";
 export type { SessionSnapshotPluginOptions } from "./plugins/session-snapshot/SessionSnapshotPlugin";
 export { RrwebManager, transformRrwebEvent } from "./utils/rrwebIntegration";
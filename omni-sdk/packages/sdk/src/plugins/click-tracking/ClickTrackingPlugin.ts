@@ -2,10 +2,13 @@
  * Click Tracking Plugin
  * Automatically captures all user clicks with coordinates and element metadata
  * Useful for heatmap generation
+ * Also reports dead clicks: clicks the page did not respond to (see DeadClickDetector)
  */
 
 import type { IPlugin, PluginContext } from "../../types";
 import { CAPTURE_CONSTANTS } from "../../constants/CaptureConstants";
+import { generateCSSSelector, generateXPath } from "../../utils";
+import { DeadClickDetector } from "./DeadClickDetector";
 
 /**
  * Options for click tracking plugin
@@ -37,6 +40,16 @@ export interface ClickTrackingOptions {
    */
   maxTextLength?: number;
 
+  /**
+   * Report clicks with no DOM mutation, navigation or network activity (default: true)
+   */
+  detectDeadClicks?: boolean;
+
+  /**
+   * How long to watch the page for a response after a click (ms, default: 3000)
+   */
+  deadClickWindowMs?: number;
+
   /**
    * Enable debug logging
    */
@@ -50,11 +63,14 @@ export class ClickTrackingPlugin implements IPlugin {
   private lastClickTime = 0;
   private options: ClickTrackingOptions;
   private clickListener: EventListener | null = null;
+  private deadClickDetector: DeadClickDetector | null = null;
 
   constructor(options: ClickTrackingOptions = {}) {
     this.options = {
       throttleMs: 100,
       maxTextLength: 100,
+      detectDeadClicks: true,
+      deadClickWindowMs: 3000,
       debug: false,
       // Add default no-capture class to exclude selectors
       excludeSelectors: [
@@ -67,6 +83,20 @@ export class ClickTrackingPlugin implements IPlugin {
 
   async init(context: PluginContext): Promise<void> {
     this.context = context;
+
+    if (this.options.detectDeadClicks) {
+      this.deadClickDetector = new DeadClickDetector(
+        this.options.deadClickWindowMs ?? 3000,
+        (payload) => {
+          if (this.options.debug) {
+            console.log("[ClickTrackingPlugin] Dead click:", payload);
+          }
+          this.context?.tracker.trackDeadClick(payload);
+        },
+        context.config.getEndpoint(),
+      );
+    }
+
     this.setupClickTracking();
 
     if (this.options.debug) {
@@ -90,6 +120,7 @@ export class ClickTrackingPlugin implements IPlugin {
       document.removeEventListener("click", this.clickListener, true);
       this.clickListener = null;
     }
+    this.deadClickDetector?.clear();
   }
 
   /**
@@ -121,10 +152,27 @@ export class ClickTrackingPlugin implements IPlugin {
     }
 
     // Track the click
-    this.context.tracker.trackClick(target, {
-      pageX: event.pageX,
-      pageY: event.pageY,
-    });
+    const clickEventId: string | undefined = this.context.tracker.trackClick(
+      target,
+      {
+        pageX: event.pageX,
+        pageY: event.pageY,
+      },
+    );
+
+    // Watch for the page's response to the click
+    if (
+      clickEventId &&
+      this.deadClickDetector &&
+      DeadClickDetector.isActionable(target)
+    ) {
+      this.deadClickDetector.watch({
+        clickEventId,
+        selector: generateCSSSelector(target),
+        xpath: generateXPath(target),
+        tagName: target.tagName.toLowerCase(),
+      });
+    }
   }
 
   /**
@@ -181,6 +229,7 @@ export class ClickTrackingPlugin implements IPlugin {
 
   async destroy(): Promise<void> {
     this.removeClickTracking();
+    this.deadClickDetector = null;
     this.context = null;
   }
 }
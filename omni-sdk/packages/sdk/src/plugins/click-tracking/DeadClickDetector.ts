@@ -0,0 +1,211 @@
+/**
+ * Dead Click Detector
+ * Watches the page after a tracked click and reports clicks it did not respond to
+ *
+ * A response is the first of:
+ * - mutation: any DOM change (MutationObserver)
+ * - network: a request started after the click (resource timing), except the
+ *   SDK's own requests to ignoreUrl
+ * - focus: focus moved to another element
+ * - scroll: the page scrolled (in-page anchors)
+ * Navigation (URL change, page unload) counts as a response and is never reported
+ *
+ * Clicks that got no response within MIN_REPORT_MS are sent as dead_click events
+ * with the time of the first response (or null). The backend decides what is
+ * "dead" with a configurable threshold, so slow responses are kept as well
+ */
+
+import type { DeadClickPayload, ClickResponseType } from "../../types";
+
+// Faster responses are never reported: the lowest threshold the backend accepts
+const MIN_REPORT_MS = 500;
+
+// Clicks on these elements do not need to change the page (typing, selecting)
+const NON_ACTIONABLE_TAGS = new Set(["input", "textarea", "select", "option"]);
+
+type PendingClick = {
+  clickEventId: string;
+  clickedAt: number; // Date.now()
+  startedAt: number; // performance.now()
+  url: string;
+  activeElement: Element | null;
+  scrollX: number;
+  scrollY: number;
+  selector: string;
+  xpath?: string;
+  tagName: string;
+  responseMs: number | null;
+  responseType: ClickResponseType | null;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export class DeadClickDetector {
+  private pending: PendingClick[] = [];
+  private mutationObserver: MutationObserver | null = null;
+  private resourceObserver: PerformanceObserver | null = null;
+  private listeners: Array<[EventTarget, string, EventListener]> = [];
+
+  constructor(
+    private windowMs: number,
+    private report: (payload: DeadClickPayload) => void,
+    private ignoreUrl?: string,
+  ) {}
+
+  /**
+   * Whether a click on this element can be dead at all
+   */
+  static isActionable(element: Element): boolean {
+    if (NON_ACTIONABLE_TAGS.has(element.tagName.toLowerCase())) return false;
+    if ((element as HTMLElement).isContentEditable) return false;
+    return true;
+  }
+
+  /**
+   * Start watching the page for the response to a click
+   */
+  watch(click: {
+    clickEventId: string;
+    selector: string;
+    xpath?: string;
+    tagName: string;
+  }): void {
+    if (typeof window === "undefined") return;
+
+    this.observe();
+
+    const pendingClick: PendingClick = {
+      ...click,
+      clickedAt: Date.now(),
+      startedAt: performance.now(),
+      url: window.location.href,
+      activeElement: document.activeElement,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+      responseMs: null,
+      responseType: null,
+      timer: setTimeout(() => this.finish(pendingClick), this.windowMs),
+    };
+    this.pending.push(pendingClick);
+  }
+
+  /**
+   * Observers run only while clicks are pending
+   */
+  private observe(): void {
+    if (this.pending.length > 0) return;
+
+    if (typeof MutationObserver !== "undefined") {
+      this.mutationObserver = new MutationObserver(() =>
+        this.respond("mutation", performance.now()),
+      );
+      this.mutationObserver.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        characterData: true,
+      });
+    }
+
+    try {
+      this.resourceObserver = new PerformanceObserver((list) => {
+        for (const entry of list.getEntries()) {
+          if (this.ignoreUrl && entry.name.startsWith(this.ignoreUrl)) continue;
+          this.respond("network", entry.startTime);
+        }
+      });
+      this.resourceObserver.observe({ type: "resource", buffered: false });
+    } catch (e) {
+      // Resource timing not supported: network responses are not seen
+      this.resourceObserver = null;
+    }
+
+    const onScroll = () => this.respond("scroll", performance.now());
+    const onFocus = () => this.respond("focus", performance.now());
+    const onLeave = () => this.clear();
+
+    this.listeners = [
+      [window, "scroll", onScroll],
+      [document, "focusin", onFocus],
+      [window, "pagehide", onLeave],
+      [window, "beforeunload", onLeave],
+    ];
+    for (const [target, type, listener] of this.listeners) {
+      target.addEventListener(type, listener, true);
+    }
+  }
+
+  private disconnect(): void {
+    this.mutationObserver?.disconnect();
+    this.mutationObserver = null;
+    this.resourceObserver?.disconnect();
+    this.resourceObserver = null;
+
+    for (const [target, type, listener] of this.listeners) {
+      target.removeEventListener(type, listener, true);
+    }
+    this.listeners = [];
+  }
+
+  /**
+   * Record the first response of every pending click that started before it
+   */
+  private respond(type: ClickResponseType, at: number): void {
+    for (const click of this.pending) {
+      if (click.responseType !== null || at < click.startedAt) continue;
+
+      click.responseMs = Math.round(at - click.startedAt);
+      click.responseType = type;
+
+      // Quick response: nothing to report, stop watching this click
+      if (click.responseMs < MIN_REPORT_MS) {
+        this.finish(click);
+      }
+    }
+  }
+
+  /**
+   * End of the observation window: report the click unless it got a quick response
+   */
+  private finish(click: PendingClick): void {
+    clearTimeout(click.timer);
+    this.pending = this.pending.filter((p) => p !== click);
+    if (this.pending.length === 0) {
+      this.disconnect();
+    }
+
+    // Navigation (SPA route change) is a response
+    if (window.location.href !== click.url) return;
+
+    // Focus or scroll changes that the listeners may have missed
+    if (click.responseType === null) {
+      if (document.activeElement !== click.activeElement) return;
+      if (window.scrollX !== click.scrollX || window.scrollY !== click.scrollY) {
+        return;
+      }
+    }
+
+    if (click.responseMs !== null && click.responseMs < MIN_REPORT_MS) return;
+
+    this.report({
+      clickEventId: click.clickEventId,
+      clickedAt: click.clickedAt,
+      selector: click.selector,
+      xpath: click.xpath,
+      tagName: click.tagName,
+      responseMs: click.responseMs,
+      responseType: click.responseType,
+      windowMs: this.windowMs,
+    });
+  }
+
+  /**
+   * Drop pending clicks without reporting (page is navigating away)
+   */
+  clear(): void {
+    for (const click of this.pending) {
+      clearTimeout(click.timer);
+    }
+    this.pending = [];
+    this.disconnect();
+  }
+}
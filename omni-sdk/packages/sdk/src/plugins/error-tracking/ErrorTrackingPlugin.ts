@@ -0,0 +1,216 @@
+/**
+ * Error Tracking Plugin
+ * Captures uncaught errors (window "error") and unhandled promise rejections
+ * Sends message, type and stack; the backend groups them into issues by stack fingerprint
+ * Registered by default when SDKConfig.captureErrors is true
+ */
+
+import type { IPlugin, PluginContext, ErrorPayload } from "../../types";
+
+/**
+ * Options for error tracking plugin
+ */
+export interface ErrorTrackingOptions {
+  /**
+   * Maximum errors sent per page load (protects against error loops)
+   */
+  maxErrorsPerPage?: number;
+
+  /**
+   * Maximum times the same error (message + stack) is sent per page load
+   */
+  maxRepeatsPerError?: number;
+
+  /**
+   * Errors whose message matches are ignored
+   */
+  ignoreErrors?: Array<string | RegExp>;
+
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+// Cross-origin scripts without CORS headers only expose this message, nothing to group on
+const DEFAULT_IGNORE: RegExp[] = [/^Script error\.?$/];
+
+// Keep payloads small: long stacks are cut
+const MAX_STACK_LENGTH = 8000;
+const MAX_MESSAGE_LENGTH = 1000;
+// Longer (or empty) error types are rejected by the ingest schema
+const MAX_ERROR_TYPE_LENGTH = 255;
+
+export class ErrorTrackingPlugin implements IPlugin {
+  name = "ErrorTrackingPlugin";
+  version = "1.0.0";
+  private context: PluginContext | null = null;
+  private options: ErrorTrackingOptions;
+  private sentCount = 0;
+  private repeats = new Map<string, number>();
+  private errorListener: ((event: ErrorEvent) => void) | null = null;
+  private rejectionListener: ((event: PromiseRejectionEvent) => void) | null =
+    null;
+
+  constructor(options: ErrorTrackingOptions = {}) {
+    this.options = {
+      maxErrorsPerPage: 50,
+      maxRepeatsPerError: 5,
+      ignoreErrors: [],
+      debug: false,
+      ...options,
+    };
+  }
+
+  async init(context: PluginContext): Promise<void> {
+    this.context = context;
+
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    this.setupErrorTracking();
+
+    if (this.options.debug) {
+      console.log("[ErrorTrackingPlugin] Initialized");
+    }
+  }
+
+  /**
+   * Listen with addEventListener instead of assigning window.onerror,
+   * so handlers installed by the app keep working
+   */
+  private setupErrorTracking(): void {
+    this.errorListener = (event: ErrorEvent) => this.handleError(event);
+    this.rejectionListener = (event: PromiseRejectionEvent) =>
+      this.handleRejection(event);
+
+    window.addEventListener("error", this.errorListener);
+    window.addEventListener("unhandledrejection", this.rejectionListener);
+  }
+
+  private removeErrorTracking(): void {
+    if (this.errorListener) {
+      window.removeEventListener("error", this.errorListener);
+      this.errorListener = null;
+    }
+    if (this.rejectionListener) {
+      window.removeEventListener("unhandledrejection", this.rejectionListener);
+      this.rejectionListener = null;
+    }
+  }
+
+  /**
+   * Uncaught exception (window.onerror)
+   */
+  private handleError(event: ErrorEvent): void {
+    // Resource load errors (img, script) are not ErrorEvents with a message
+    if (!event.message && !event.error) return;
+
+    const error = event.error;
+    this.report({
+      message: event.message || String(error),
+      errorType: error instanceof Error ? error.name : "Error",
+      stack: error instanceof Error ? error.stack || null : null,
+      source: "onerror",
+      filename: event.filename || undefined,
+      lineno: event.lineno || undefined,
+      colno: event.colno || undefined,
+    });
+  }
+
+  /**
+   * Unhandled promise rejection (reason may be anything, not only an Error)
+   */
+  private handleRejection(event: PromiseRejectionEvent): void {
+    const reason = event.reason;
+
+    if (reason instanceof Error) {
+      this.report({
+        message: reason.message || String(reason),
+        errorType: reason.name,
+        stack: reason.stack || null,
+        source: "unhandledrejection",
+      });
+      return;
+    }
+
+    let message: string;
+    try {
+      message =
+        typeof reason === "string" ? reason : JSON.stringify(reason) ?? "";
+    } catch (e) {
+      message = String(reason);
+    }
+
+    this.report({
+      message: message || "Unhandled promise rejection",
+      errorType: "UnhandledRejection",
+      stack: null,
+      source: "unhandledrejection",
+    });
+  }
+
+  /**
+   * Apply ignore rules and rate limits, then send
+   */
+  private report(payload: ErrorPayload): void {
+    if (!this.context) return;
+
+    const message = payload.message.slice(0, MAX_MESSAGE_LENGTH);
+    if (this.isIgnored(message)) return;
+
+    const errorType = (payload.errorType || "Error").slice(
+      0,
+      MAX_ERROR_TYPE_LENGTH,
+    );
+
+    if (this.sentCount >= (this.options.maxErrorsPerPage ?? 50)) return;
+
+    const key = `${errorType}|${message}|${payload.stack ?? ""}`;
+    const repeats = this.repeats.get(key) ?? 0;
+    if (repeats >= (this.options.maxRepeatsPerError ?? 5)) return;
+
+    this.repeats.set(key, repeats + 1);
+    this.sentCount++;
+
+    if (this.options.debug) {
+      console.log("[ErrorTrackingPlugin] Captured:", errorType, message);
+    }
+
+    this.context.tracker.trackError({
+      ...payload,
+      message,
+      errorType,
+      stack: payload.stack ? payload.stack.slice(0, MAX_STACK_LENGTH) : null,
+    });
+  }
+
+  private isIgnored(message: string): boolean {
+    const patterns = [...DEFAULT_IGNORE, ...(this.options.ignoreErrors || [])];
+    return patterns.some((pattern) =>
+      typeof pattern === "string"
+        ? message.includes(pattern)
+        : pattern.test(message),
+    );
+  }
+
+  /**
+   * Pause error tracking
+   */
+  public async pause(): Promise<void> {
+    this.removeErrorTracking();
+  }
+
+  /**
+   * Resume error tracking
+   */
+  public async resume(): Promise<void> {
+    this.setupErrorTracking();
+  }
+
+  async destroy(): Promise<void> {
+    this.removeErrorTracking();
+    this.context = null;
+  }
+}
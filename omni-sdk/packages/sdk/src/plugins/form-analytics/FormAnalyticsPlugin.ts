@@ -0,0 +1,242 @@
+/**
+ * Form Analytics Plugin
+ * Records focus, blur, change and submit per form field for drop-off analysis
+ * Field values are never read: only which field was touched, when, and for how long
+ * Fields matching PrivacyConfig.maskSelectors (or the no-capture class) are not tracked
+ */
+
+import type { IPlugin, PluginContext, FormInteraction } from "../../types";
+import { CAPTURE_CONSTANTS } from "../../constants/CaptureConstants";
+import { generateCSSSelector } from "../../utils";
+
+/**
+ * Options for form analytics plugin
+ */
+export interface FormAnalyticsOptions {
+  /**
+   * Selectors for fields or forms to ignore (in addition to maskSelectors)
+   */
+  excludeSelectors?: string[];
+
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+// Longer form ids and field names are rejected by the ingest schema
+const MAX_IDENTIFIER_LENGTH = 512;
+
+// Input types that are buttons or invisible, not fields a user fills in
+const IGNORED_INPUT_TYPES = new Set([
+  "hidden",
+  "submit",
+  "button",
+  "reset",
+  "image",
+]);
+
+export class FormAnalyticsPlugin implements IPlugin {
+  name = "FormAnalyticsPlugin";
+  version = "1.0.0";
+  private context: PluginContext | null = null;
+  private options: FormAnalyticsOptions;
+  private excludeSelectors: string[] = [];
+  private focusedAt = new WeakMap<Element, number>();
+  private listeners: Array<[string, EventListener]> = [];
+
+  constructor(options: FormAnalyticsOptions = {}) {
+    this.options = {
+      debug: false,
+      ...options,
+    };
+  }
+
+  async init(context: PluginContext): Promise<void> {
+    this.context = context;
+
+    const maskSelectors: string[] =
+      context.config?.getPrivacyConfig?.()?.maskSelectors ?? [];
+    this.excludeSelectors = [
+      `.${CAPTURE_CONSTANTS.NO_CAPTURE_CLASS}`,
+      `.${CAPTURE_CONSTANTS.MASK_CLASS}`,
+      ...maskSelectors,
+      ...(this.options.excludeSelectors || []),
+    ];
+
+    this.setupFormTracking();
+
+    if (this.options.debug) {
+      console.log("[FormAnalyticsPlugin] Initialized");
+    }
+  }
+
+  /**
+   * Setup document-level listeners (capture phase, so stopPropagation in apps doesn't hide events)
+   */
+  private setupFormTracking(): void {
+    this.listeners = [
+      ["focusin", (e) => this.handleFieldEvent(e, "focus")],
+      ["focusout", (e) => this.handleFieldEvent(e, "blur")],
+      ["change", (e) => this.handleFieldEvent(e, "change")],
+      ["submit", (e) => this.handleSubmit(e)],
+    ];
+
+    for (const [type, listener] of this.listeners) {
+      document.addEventListener(type, listener, true);
+    }
+  }
+
+  /**
+   * Remove form listeners
+   */
+  private removeFormTracking(): void {
+    for (const [type, listener] of this.listeners) {
+      document.removeEventListener(type, listener, true);
+    }
+    this.listeners = [];
+  }
+
+  /**
+   * Handle focus, blur and change on a form field
+   */
+  private handleFieldEvent(event: Event, action: FormInteraction): void {
+    if (!this.context) return;
+
+    const field = event.target;
+    if (!this.isTrackableField(field)) return;
+
+    const form = field.form;
+    if (!form || this.isExcluded(form)) return;
+
+    let durationMs: number | undefined;
+    if (action === "focus") {
+      this.focusedAt.set(field, Date.now());
+    } else if (action === "blur") {
+      const focusedAt = this.focusedAt.get(field);
+      if (focusedAt !== undefined) {
+        durationMs = Date.now() - focusedAt;
+        this.focusedAt.delete(field);
+      }
+    }
+
+    if (this.options.debug) {
+      console.log(`[FormAnalyticsPlugin] ${action}:`, this.getFieldName(field));
+    }
+
+    this.context.tracker.trackFormInteraction({
+      action,
+      formId: this.getFormId(form),
+      fieldName: this.getFieldName(field),
+      selector: generateCSSSelector(field),
+      inputType: this.getInputType(field),
+      durationMs,
+    });
+  }
+
+  /**
+   * Handle form submission
+   */
+  private handleSubmit(event: Event): void {
+    if (!this.context) return;
+
+    const form = event.target;
+    if (!(form instanceof HTMLFormElement) || this.isExcluded(form)) return;
+
+    this.context.tracker.trackFormInteraction({
+      action: "submit",
+      formId: this.getFormId(form),
+      fieldName: null,
+      selector: generateCSSSelector(form),
+      inputType: "form",
+    });
+  }
+
+  /**
+   * Only user-fillable fields inside a form, outside masked/excluded areas
+   */
+  private isTrackableField(target: EventTarget | null): target is FormField {
+    if (
+      !(
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLSelectElement ||
+        target instanceof HTMLTextAreaElement
+      )
+    ) {
+      return false;
+    }
+
+    if (
+      target instanceof HTMLInputElement &&
+      IGNORED_INPUT_TYPES.has(target.type)
+    ) {
+      return false;
+    }
+
+    return !this.isExcluded(target);
+  }
+
+  private isExcluded(element: Element): boolean {
+    for (const selector of this.excludeSelectors) {
+      try {
+        if (element.closest(selector)) {
+          return true;
+        }
+      } catch (e) {
+        // Invalid selector from config, ignore it
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Stable form identifier: data-omni-form > id > name > CSS selector
+   * Attributes only: form.id / form.name return a control named "id" / "name"
+   */
+  private getFormId(form: HTMLFormElement): string {
+    return (
+      form.getAttribute("data-omni-form") ||
+      form.getAttribute("id") ||
+      form.getAttribute("name") ||
+      generateCSSSelector(form)
+    ).slice(0, MAX_IDENTIFIER_LENGTH);
+  }
+
+  /**
+   * Stable field identifier: name > id > CSS selector
+   */
+  private getFieldName(field: FormField): string {
+    return (
+      field.getAttribute("name") ||
+      field.id ||
+      generateCSSSelector(field)
+    ).slice(0, MAX_IDENTIFIER_LENGTH);
+  }
+
+  private getInputType(field: FormField): string {
+    if (field instanceof HTMLSelectElement) return "select";
+    if (field instanceof HTMLTextAreaElement) return "textarea";
+    return field.type || "text";
+  }
+
+  /**
+   * Pause form tracking
+   */
+  public async pause(): Promise<void> {
+    this.removeFormTracking();
+  }
+
+  /**
+   * Resume form tracking
+   */
+  public async resume(): Promise<void> {
+    this.setupFormTracking();
+  }
+
+  async destroy(): Promise<void> {
+    this.removeFormTracking();
+    this.context = null;
+  }
+}
@@ -9,3 +9,19 @@ export {
   type ClickTrackingOptions,
 } from "./click-tracking/ClickTrackingPlugin";
 export { ReplayPlugin } from "./replay/ReplayPlugin";
+export {
+  FormAnalyticsPlugin,
+  type FormAnalyticsOptions,
+} from "./form-analytics/FormAnalyticsPlugin";
+export {
+  WebVitalsPlugin,
+  type WebVitalsOptions,
+} from "./web-vitals/WebVitalsPlugin";
+export {
+  ErrorTrackingPlugin,
+  type ErrorTrackingOptions,
+} from "./error-tracking/ErrorTrackingPlugin";
+export {
+  ScrollDepthPlugin,
+  type ScrollDepthOptions,
+} from "./scroll-depth/ScrollDepthPlugin";
@@ -0,0 +1,204 @@
+/**
+ * Scroll Depth Plugin
+ * Measures how far down each page view the visitor gets (furthest viewport bottom / page height)
+ * The page height is read again at each measure: content loaded late (or an SDK loaded
+ * in <head>) must not turn the first measure into a 100% depth
+ * Reports the maximum when the page is hidden or the visitor navigates away (SPA included)
+ * Useful for scroll-reach heatmaps ("% of visitors reaching each fold")
+ */
+
+import type { IPlugin, PluginContext } from "../../types";
+import { generateUUID } from "../../utils";
+
+/**
+ * Options for scroll depth plugin
+ */
+export interface ScrollDepthOptions {
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+export class ScrollDepthPlugin implements IPlugin {
+  name = "ScrollDepthPlugin";
+  version = "1.0.0";
+  private context: PluginContext | null = null;
+  private options: ScrollDepthOptions;
+  private listeners: Array<[EventTarget, string, EventListener]> = [];
+  private frameRequested = false;
+  private paused = false;
+
+  // Current page view
+  private pageUrl = "";
+  private pageViewId = "";
+  private maxScrollY = 0;
+  private pageHeight = 0;
+  private reportedDepth = -1;
+
+  constructor(options: ScrollDepthOptions = {}) {
+    this.options = {
+      debug: false,
+      ...options,
+    };
+  }
+
+  async init(context: PluginContext): Promise<void> {
+    this.context = context;
+
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    this.startPageView();
+    this.measure();
+    this.setupListeners();
+
+    if (this.options.debug) {
+      console.log("[ScrollDepthPlugin] Initialized");
+    }
+  }
+
+  /**
+   * Scroll and resize are measured at most once per animation frame
+   * A URL change seen on any of these events closes the previous page view
+   * Hidden pages get no more frames, so hiding measures right away
+   */
+  private setupListeners(): void {
+    const onScroll = () => this.scheduleMeasure();
+    const onHidden = () => {
+      if (document.visibilityState === "hidden") {
+        this.measure();
+        this.report();
+      }
+    };
+    const onPageHide = () => {
+      this.measure();
+      this.report();
+    };
+    const onPopState = () => this.checkNavigation();
+
+    this.listeners = [
+      [window, "scroll", onScroll],
+      [window, "resize", onScroll],
+      [document, "visibilitychange", onHidden],
+      [window, "pagehide", onPageHide],
+      [window, "popstate", onPopState],
+    ];
+
+    for (const [target, type, listener] of this.listeners) {
+      target.addEventListener(type, listener, { passive: true });
+    }
+  }
+
+  private removeListeners(): void {
+    for (const [target, type, listener] of this.listeners) {
+      target.removeEventListener(type, listener);
+    }
+    this.listeners = [];
+  }
+
+  private scheduleMeasure(): void {
+    if (this.frameRequested) return;
+    this.frameRequested = true;
+
+    requestAnimationFrame(() => {
+      this.frameRequested = false;
+      this.measure();
+    });
+  }
+
+  /**
+   * Update the furthest point reached and the page height of the current page view
+   */
+  private measure(): void {
+    this.checkNavigation();
+
+    const bottom = window.scrollY + window.innerHeight;
+
+    this.maxScrollY = Math.max(this.maxScrollY, bottom);
+    this.pageHeight = document.documentElement.scrollHeight;
+  }
+
+  /**
+   * Furthest point reached over the last measured page height (0-1)
+   */
+  private getMaxDepth(): number {
+    if (this.pageHeight <= 0) return 0;
+    return Math.min(this.maxScrollY / this.pageHeight, 1);
+  }
+
+  /**
+   * SPA navigation: report the previous page view and start a new one
+   * Hash changes stay in the same page view
+   */
+  private checkNavigation(): void {
+    if (
+      this.withoutHash(window.location.href) === this.withoutHash(this.pageUrl)
+    ) {
+      return;
+    }
+
+    this.report();
+    this.startPageView();
+  }
+
+  private startPageView(): void {
+    this.pageUrl = window.location.href;
+    this.pageViewId = generateUUID();
+    this.maxScrollY = 0;
+    this.pageHeight = 0;
+    this.reportedDepth = -1;
+  }
+
+  /**
+   * Send the maximum depth of the current page view
+   * Sent again only if the visitor went deeper since the last report
+   */
+  private report(): void {
+    if (!this.context || this.paused) return;
+
+    const depth = this.getMaxDepth();
+    if (depth <= this.reportedDepth) return;
+
+    this.reportedDepth = depth;
+
+    const maxDepth = Math.round(depth * 10000) / 10000;
+
+    if (this.options.debug) {
+      console.log("[ScrollDepthPlugin] Max depth:", maxDepth, this.pageUrl);
+    }
+
+    this.context.tracker.trackScrollDepth({
+      pageViewId: this.pageViewId,
+      maxDepth,
+      maxScrollY: Math.round(Math.min(this.maxScrollY, this.pageHeight)),
+      url: this.pageUrl,
+    });
+  }
+
+  private withoutHash(url: string): string {
+    const index = url.indexOf("#");
+    return index === -1 ? url : url.slice(0, index);
+  }
+
+  /**
+   * Pause reporting (depth keeps being measured, nothing is sent)
+   */
+  public async pause(): Promise<void> {
+    this.paused = true;
+  }
+
+  /**
+   * Resume reporting
+   */
+  public async resume(): Promise<void> {
+    this.paused = false;
+  }
+
+  async destroy(): Promise<void> {
+    this.report();
+    this.removeListeners();
+    this.context = null;
+  }
+}
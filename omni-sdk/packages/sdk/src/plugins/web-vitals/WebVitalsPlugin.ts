@@ -0,0 +1,389 @@
+/**
+ * Web Vitals Plugin
+ * Collects field Core Web Vitals (LCP, INP, CLS) and FCP/TTFB for each page load
+ * Uses PerformanceObserver directly, no third-party dependency
+ * Each metric is reported once per page load, with the attribution element selector
+ */
+
+import type {
+  IPlugin,
+  PluginContext,
+  WebVitalName,
+  WebVitalRating,
+} from "../../types";
+import { generateCSSSelector } from "../../utils";
+
+/**
+ * Options for web vitals plugin
+ */
+export interface WebVitalsOptions {
+  /**
+   * Metrics to collect (default: all)
+   */
+  metrics?: WebVitalName[];
+
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+/**
+ * [good, poor] thresholds: value <= good is "good", value > poor is "poor"
+ * https://web.dev/articles/vitals
+ */
+const THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  INP: [200, 500],
+  CLS: [0.1, 0.25],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+};
+
+// Entry shapes not (yet) in lib.dom
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+  sources?: Array<{ node?: Node | null }>;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+  target?: Node | null;
+}
+
+interface LcpEntry extends PerformanceEntry {
+  element?: Element | null;
+}
+
+// Set for prerendered pages (Prerender spec)
+interface ActivationNavigationTiming extends PerformanceNavigationTiming {
+  activationStart?: number;
+}
+
+// durationThreshold is an Event Timing extension to observe() options
+interface EventTimingObserverInit extends PerformanceObserverInit {
+  durationThreshold?: number;
+}
+
+// How many slowest interactions to keep for the INP estimate
+const MAX_INTERACTIONS = 10;
+
+export class WebVitalsPlugin implements IPlugin {
+  name = "WebVitalsPlugin";
+  version = "1.0.0";
+  private context: PluginContext | null = null;
+  private options: WebVitalsOptions;
+  private observers: PerformanceObserver[] = [];
+  private listeners: Array<[EventTarget, string, EventListener]> = [];
+  private reported = new Set<WebVitalName>();
+  private paused = false;
+
+  // Page the metrics belong to (SPA navigations keep the landing URL)
+  private pageUrl = "";
+  private navigationType = "navigate";
+
+  private lcp: { value: number; selector: string | null } | null = null;
+  private cls = { value: 0, selector: null as string | null };
+  private clsWindow = {
+    value: 0,
+    firstAt: 0,
+    lastAt: 0,
+    largest: 0,
+    selector: null as string | null,
+  };
+  private interactions = new Map<
+    number,
+    { duration: number; selector: string | null }
+  >();
+  private interactionCount = 0;
+
+  constructor(options: WebVitalsOptions = {}) {
+    this.options = {
+      metrics: ["LCP", "INP", "CLS", "FCP", "TTFB"],
+      debug: false,
+      ...options,
+    };
+  }
+
+  async init(context: PluginContext): Promise<void> {
+    this.context = context;
+
+    if (
+      typeof window === "undefined" ||
+      typeof PerformanceObserver === "undefined"
+    ) {
+      return;
+    }
+
+    this.pageUrl = window.location.href;
+    this.navigationType = this.getNavigationType();
+
+    this.observeTTFB();
+    this.observe("paint", (entry) => {
+      if (entry.name === "first-contentful-paint") {
+        this.report("FCP", entry.startTime, null);
+      }
+    });
+    this.observe("largest-contentful-paint", (entry) => {
+      const element = (entry as LcpEntry).element;
+      this.lcp = {
+        value: entry.startTime,
+        selector: element ? generateCSSSelector(element) : null,
+      };
+    });
+    this.observe("layout-shift", (entry) =>
+      this.handleLayoutShift(entry as LayoutShiftEntry),
+    );
+    this.observe(
+      "event",
+      (entry) => this.handleEventTiming(entry as EventTimingEntry),
+      { durationThreshold: 40 },
+    );
+    this.observe("first-input", (entry) =>
+      this.handleEventTiming(entry as EventTimingEntry),
+    );
+
+    this.setupListeners();
+
+    if (this.options.debug) {
+      console.log("[WebVitalsPlugin] Initialized");
+    }
+  }
+
+  /**
+   * Subscribe to a performance entry type (buffered, so early entries are not missed)
+   * Unsupported entry types are skipped silently
+   */
+  private observe(
+    type: string,
+    callback: (entry: PerformanceEntry) => void,
+    extra: EventTimingObserverInit = {},
+  ): void {
+    try {
+      if (!PerformanceObserver.supportedEntryTypes?.includes(type)) {
+        return;
+      }
+      const observer = new PerformanceObserver((list) => {
+        list.getEntries().forEach(callback);
+      });
+      observer.observe({ type, buffered: true, ...extra });
+      this.observers.push(observer);
+    } catch (e) {
+      // Browser does not support this entry type
+    }
+  }
+
+  /**
+   * LCP stops at the first input; LCP, CLS and INP are final when the page is hidden
+   */
+  private setupListeners(): void {
+    const finalizeLcp = () => this.reportLcp();
+    const onHidden = () => {
+      if (document.visibilityState === "hidden") {
+        this.reportFinal();
+      }
+    };
+    const onPageHide = () => this.reportFinal();
+
+    this.listeners = [
+      [window, "keydown", finalizeLcp],
+      [window, "pointerdown", finalizeLcp],
+      [document, "visibilitychange", onHidden],
+      [window, "pagehide", onPageHide],
+    ];
+
+    for (const [target, type, listener] of this.listeners) {
+      target.addEventListener(type, listener, true);
+    }
+  }
+
+  private removeListeners(): void {
+    for (const [target, type, listener] of this.listeners) {
+      target.removeEventListener(type, listener, true);
+    }
+    this.listeners = [];
+  }
+
+  /**
+   * TTFB from the navigation entry (responseStart, relative to activation for prerendered pages)
+   */
+  private observeTTFB(): void {
+    const navigation = this.getNavigationEntry();
+    if (!navigation) return;
+
+    const activationStart = navigation.activationStart || 0;
+    const value = Math.max(navigation.responseStart - activationStart, 0);
+    this.report("TTFB", value, null);
+  }
+
+  /**
+   * CLS: largest session window (shifts < 1s apart, window <= 5s), excluding input-driven shifts
+   * Attribution: the node of the largest shift in the worst window
+   */
+  private handleLayoutShift(entry: LayoutShiftEntry): void {
+    if (entry.hadRecentInput) return;
+
+    const current = this.clsWindow;
+    const startsNewWindow =
+      current.value === 0 ||
+      entry.startTime - current.lastAt >= 1000 ||
+      entry.startTime - current.firstAt >= 5000;
+
+    if (startsNewWindow) {
+      current.value = 0;
+      current.firstAt = entry.startTime;
+      current.largest = 0;
+      current.selector = null;
+    }
+
+    current.value += entry.value;
+    current.lastAt = entry.startTime;
+
+    if (entry.value > current.largest) {
+      current.largest = entry.value;
+      const node = entry.sources?.find((source) => source.node)?.node;
+      current.selector =
+        node instanceof Element ? generateCSSSelector(node) : null;
+    }
+
+    if (current.value > this.cls.value) {
+      this.cls = { value: current.value, selector: current.selector };
+    }
+  }
+
+  /**
+   * INP: keep the slowest interactions (grouped by interactionId)
+   * The reported value skips one outlier per 50 interactions (≈ p98)
+   */
+  private handleEventTiming(entry: EventTimingEntry): void {
+    const interactionId = entry.interactionId;
+    if (!interactionId) return;
+
+    const existing = this.interactions.get(interactionId);
+    if (!existing) {
+      this.interactionCount++;
+    }
+    if (existing && existing.duration >= entry.duration) return;
+
+    const target = entry.target;
+    this.interactions.set(interactionId, {
+      duration: entry.duration,
+      selector: target instanceof Element ? generateCSSSelector(target) : null,
+    });
+
+    if (this.interactions.size > MAX_INTERACTIONS) {
+      let fastestId: number | null = null;
+      let fastest = Infinity;
+      for (const [id, interaction] of this.interactions) {
+        if (interaction.duration < fastest) {
+          fastest = interaction.duration;
+          fastestId = id;
+        }
+      }
+      if (fastestId !== null) this.interactions.delete(fastestId);
+    }
+  }
+
+  private reportLcp(): void {
+    if (this.lcp) {
+      this.report("LCP", this.lcp.value, this.lcp.selector);
+    }
+  }
+
+  private reportFinal(): void {
+    this.reportLcp();
+    this.report("CLS", this.cls.value, this.cls.selector);
+
+    if (this.interactions.size > 0) {
+      const slowest = Array.from(this.interactions.values()).sort(
+        (a, b) => b.duration - a.duration,
+      );
+      const index = Math.min(
+        Math.floor(this.interactionCount / 50),
+        slowest.length - 1,
+      );
+      this.report("INP", slowest[index].duration, slowest[index].selector);
+    }
+  }
+
+  /**
+   * Send a metric (once per page load)
+   */
+  private report(
+    name: WebVitalName,
+    value: number,
+    selector: string | null,
+  ): void {
+    if (!this.context || this.paused) return;
+    if (this.reported.has(name)) return;
+    if (!this.options.metrics?.includes(name)) return;
+
+    this.reported.add(name);
+
+    // CLS keeps 4 decimals, time-based metrics are whole milliseconds
+    const rounded =
+      name === "CLS" ? Math.round(value * 10000) / 10000 : Math.round(value);
+
+    if (this.options.debug) {
+      console.log(`[WebVitalsPlugin] ${name}:`, rounded, selector);
+    }
+
+    this.context.tracker.trackWebVital({
+      name,
+      value: rounded,
+      rating: this.getRating(name, rounded),
+      selector,
+      navigationType: this.navigationType,
+      url: this.pageUrl,
+    });
+  }
+
+  private getRating(name: WebVitalName, value: number): WebVitalRating {
+    const [good, poor] = THRESHOLDS[name];
+    if (value <= good) return "good";
+    if (value <= poor) return "needs-improvement";
+    return "poor";
+  }
+
+  private getNavigationEntry(): ActivationNavigationTiming | null {
+    try {
+      const [entry] = performance.getEntriesByType(
+        "navigation",
+      ) as ActivationNavigationTiming[];
+      return entry && entry.responseStart > 0 ? entry : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private getNavigationType(): string {
+    const navigation = this.getNavigationEntry();
+    if (!navigation) return "navigate";
+    if ((navigation.activationStart ?? 0) > 0) return "prerender";
+    return navigation.type.replace(/-/g, "_");
+  }
+
+  /**
+   * Pause reporting (observers keep buffering, nothing is sent)
+   */
+  public async pause(): Promise<void> {
+    this.paused = true;
+  }
+
+  /**
+   * Resume reporting
+   */
+  public async resume(): Promise<void> {
+    this.paused = false;
+  }
+
+  async destroy(): Promise<void> {
+    this.removeListeners();
+    for (const observer of this.observers) {
+      observer.disconnect();
+    }
+    this.observers = [];
+    this.context = null;
+  }
+}
@@ -2,12 +2,18 @@
  * Event Queue
  * Batches events and transmits them using the injected ITransmitter
  * High-level module responsible for batching strategy
+ * Failed batches go to the optional OfflineBuffer and are re-sent with backoff,
+ * when the browser comes back online, or on the next page load
+ * A batch only counts as delivered once a transmitter confirms it
+ * When the page is hidden or unloaded, queued events go out right away with sendBeacon
  * Single Responsibility: Event batching and transmission orchestration
  */
 
 import type { Event, Batch } from "../types";
 import type { ITransmitter } from "../transmitter/ITransmitter";
 import type { Config } from "../config/Config";
+import { TransmitterError } from "../transmitter/TransmitterError";
+import type { OfflineBuffer } from "./OfflineBuffer";
 import { generateUUID } from "../utils";
 
 export class EventQueue {
@@ -19,7 +25,27 @@ export class EventQueue {
   private readonly transmitters: ITransmitter[];
   private readonly onFlush?: (batch: Batch) => Promise<void>;
   private readonly config: Config;
+  private readonly offlineBuffer?: OfflineBuffer;
   private isProcessing = false;
+  private isRetrying = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private readonly handleOnline = () => {
+    // Connectivity is back: don't wait for the backoff
+    this.retryBuffered(true);
+  };
+  private isHidden = false;
+  private hideFlushScheduled = false;
+  private readonly handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      this.handleHide();
+    } else {
+      this.isHidden = false;
+    }
+  };
+  private readonly handlePageHide = () => this.handleHide();
+  private readonly handlePageShow = () => {
+    this.isHidden = false;
+  };
 
   constructor(
     transmitters: ITransmitter[],
@@ -27,6 +53,7 @@ export class EventQueue {
     batchTimeout: number = 10000,
     onFlush?: (batch: Batch) => Promise<void>,
     config?: Config,
+    offlineBuffer?: OfflineBuffer,
   ) {
     this.transmitters = transmitters.sort(
       (a, b) => (b.getPriority?.() ?? 0) - (a.getPriority?.() ?? 0),
@@ -36,6 +63,26 @@ export class EventQueue {
     this.onFlush = onFlush;
     this.config = config as Config;
     this.batchId = this.generateBatchId();
+    this.offlineBuffer = offlineBuffer;
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("pagehide", this.handlePageHide);
+      window.addEventListener("pageshow", this.handlePageShow);
+    }
+    if (typeof document !== "undefined") {
+      document.addEventListener(
+        "visibilitychange",
+        this.handleVisibilityChange,
+      );
+    }
+
+    if (this.offlineBuffer) {
+      if (typeof window !== "undefined") {
+        window.addEventListener("online", this.handleOnline);
+      }
+      // Re-send anything left over from a previous page load
+      this.scheduleRetry(0);
+    }
   }
 
   /**
@@ -50,6 +97,13 @@ export class EventQueue {
 
     this.events.push(event);
 
+    // Reported while hidden (final web vitals, scroll depth): send it now,
+    // the timer may never fire again
+    if (this.isHidden) {
+      this.scheduleHideFlush();
+      return;
+    }
+
     // Flush if batch size reached
     if (this.events.length >= this.batchSize) {
       this.flush();
@@ -70,51 +124,261 @@ export class EventQueue {
     this.isProcessing = true;
 
     try {
-      // Clear timer
-      if (this.flushTimer) {
-        clearTimeout(this.flushTimer);
-        this.flushTimer = null;
+      const batch = this.takeBatch();
+
+      try {
+        // No point trying while the browser knows it is offline
+        if (this.offlineBuffer && this.isOffline()) {
+          await this.bufferBatch(batch, 1);
+          return;
+        }
+
+        await this.deliver(batch);
+      } catch (error) {
+        if (this.offlineBuffer && this.isRetryable(error)) {
+          console.warn(
+            "[EventQueue] Batch delivery failed, buffering for retry:",
+            error,
+          );
+          await this.bufferBatch(batch, 1);
+          return;
+        }
+        throw error;
       }
 
-      // Create batch
-      const batch: Batch = {
-        events: [...this.events],
-        batchId: this.batchId,
-        timestamp: Date.now(),
-      };
+      // Delivery works again, drain anything buffered
+      this.retryBuffered();
+    } catch (error) {
+      this.handleDeliveryError(error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Send queued events while the page is being hidden or unloaded
+   * Transmitters that outlive the page (sendBeacon) go first, and are called
+   * synchronously: the page may be gone before any await resumes
+   */
+  private flushOnHide(): void {
+    if (this.events.length === 0) {
+      return;
+    }
+
+    const batch = this.takeBatch();
+
+    this.deliverOnHide(batch).catch((error) => {
+      console.error("[EventQueue] Error flushing batch on hide:", error);
+    });
+  }
+
+  /**
+   * Re-send buffered batches that are due, oldest first
+   * Stops at the first retryable failure (the network is likely still down)
+   *
+   * @param force - Ignore backoff and retry everything now (e.g. on "online")
+   */
+  async retryBuffered(force: boolean = false): Promise<void> {
+    if (!this.offlineBuffer || this.isRetrying || this.isOffline()) {
+      return;
+    }
+
+    this.isRetrying = true;
+
+    try {
+      const due = await this.offlineBuffer.getDue(
+        force ? Number.POSITIVE_INFINITY : Date.now(),
+      );
+
+      for (const entry of due) {
+        try {
+          await this.deliver(entry.batch);
+          await this.offlineBuffer.remove(entry.batchId);
+        } catch (error) {
+          if (this.isRetryable(error)) {
+            await this.offlineBuffer.add(entry.batch, entry.attempts + 1);
+            break;
+          }
+          // Permanently rejected, keeping it would only fail again
+          await this.offlineBuffer.remove(entry.batchId);
+          this.handleDeliveryError(error);
+        }
+      }
+    } catch (error) {
+      console.error("[EventQueue] Error retrying buffered batches:", error);
+    } finally {
+      this.isRetrying = false;
+    }
 
-      // Clear events
-      this.events = [];
+    try {
+      await this.scheduleNextRetry();
+    } catch (error) {
+      console.error("[EventQueue] Error scheduling retry:", error);
+    }
+  }
 
-      // Generate new batch ID
-      this.batchId = this.generateBatchId();
+  /**
+   * Send a batch through the custom flush handler or the transmitters
+   */
+  private async deliver(batch: Batch): Promise<void> {
+    // Call custom flush handler if provided
+    if (this.onFlush) {
+      await this.onFlush(batch);
+    } else {
+      // Transmit batch using available transmitter
+      await this.transmit(batch);
+    }
+  }
 
-      // Call custom flush handler if provided
-      if (this.onFlush) {
+  /**
+   * Deliver a batch taken on hide, buffering it if that fails
+   */
+  private async deliverOnHide(batch: Batch): Promise<void> {
+    try {
+      if (this.offlineBuffer && this.isOffline()) {
+        await this.bufferBatch(batch, 1);
+      } else if (this.onFlush) {
         await this.onFlush(batch);
       } else {
-        // Transmit batch using available transmitter
-        await this.transmit(batch);
+        await this.transmit(batch, true);
       }
     } catch (error) {
+      if (this.offlineBuffer && this.isRetryable(error)) {
+        await this.bufferBatch(batch, 1);
+        return;
+      }
+      this.handleDeliveryError(error);
+    }
+  }
+
+  private handleHide(): void {
+    this.isHidden = true;
+    this.flushOnHide();
+  }
+
+  /**
+   * Events added by other hide listeners are sent together, once they ran
+   */
+  private scheduleHideFlush(): void {
+    if (this.hideFlushScheduled) {
+      return;
+    }
+    this.hideFlushScheduled = true;
+    queueMicrotask(() => {
+      this.hideFlushScheduled = false;
+      this.flushOnHide();
+    });
+  }
+
+  /**
+   * Take the queued events as a batch and start a new one
+   */
+  private takeBatch(): Batch {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const batch: Batch = {
+      events: this.events,
+      batchId: this.batchId,
+      timestamp: Date.now(),
+    };
+
+    this.events = [];
+    this.batchId = this.generateBatchId();
+
+    return batch;
+  }
+
+  /**
+   * Persist a failed batch and make sure a retry is scheduled
+   */
+  private async bufferBatch(batch: Batch, attempts: number): Promise<void> {
+    await this.offlineBuffer!.add(batch, attempts);
+    await this.scheduleNextRetry();
+  }
+
+  /**
+   * Schedule the next retry for the earliest buffered batch
+   */
+  private async scheduleNextRetry(): Promise<void> {
+    const nextAttemptAt = await this.offlineBuffer?.getNextAttemptAt();
+    if (nextAttemptAt === null || nextAttemptAt === undefined) {
+      return;
+    }
+    this.scheduleRetry(Math.max(nextAttemptAt - Date.now(), 0));
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.retryBuffered();
+    }, delayMs);
+  }
+
+  /**
+   * Permanent rejections (e.g. invalid writeKey) are not worth buffering
+   */
+  private isRetryable(error: unknown): boolean {
+    return !(error instanceof TransmitterError && !error.retryable);
+  }
+
+  private isOffline(): boolean {
+    return typeof navigator !== "undefined" && navigator.onLine === false;
+  }
+
+  /**
+   * Log a batch that could not be delivered or buffered, and report it
+   */
+  private handleDeliveryError(error: unknown): void {
+    if (error instanceof TransmitterError && error.isAuthError()) {
+      console.error(
+        `[EventQueue] Batch rejected by server, check projectId and writeKey (${error.message})`,
+      );
+    } else {
       console.error("[EventQueue] Error flushing batch:", error);
-      // Re-add events to queue for retry? Or drop?
-      // For now, just log the error
-    } finally {
-      this.isProcessing = false;
     }
+    this.reportError(error);
   }
 
   /**
    * Transmit batch using best available transmitter
+   * Transmitters that can't confirm delivery (sendBeacon) are skipped when the
+   * offline buffer can keep the batch for a confirmed retry instead, unless
+   * the page is being hidden: then they go first, as they outlive the page
    */
-  private async transmit(batch: Batch): Promise<void> {
-    for (const transmitter of this.transmitters) {
+  private async transmit(
+    batch: Batch,
+    unloading: boolean = false,
+  ): Promise<void> {
+    const transmitters = unloading
+      ? [
+          ...this.transmitters.filter((t) => t.confirmsDelivery?.() === false),
+          ...this.transmitters.filter((t) => t.confirmsDelivery?.() !== false),
+        ]
+      : this.transmitters;
+
+    for (const transmitter of transmitters) {
+      if (
+        !unloading &&
+        this.offlineBuffer &&
+        transmitter.confirmsDelivery?.() === false
+      ) {
+        continue;
+      }
       if (transmitter.isAvailable()) {
         try {
           await transmitter.send(batch);
           return;
         } catch (error) {
+          // Permanent rejections (e.g. invalid writeKey) would fail on every transmitter
+          if (error instanceof TransmitterError && !error.retryable) {
+            throw error;
+          }
           // Try next transmitter
           console.warn("[EventQueue] Transmitter failed, trying next:", error);
         }
@@ -124,6 +388,20 @@ export class EventQueue {
     throw new Error("No available transmitters");
   }
 
+  /**
+   * Surface a delivery error to the configured onError callback
+   */
+  private reportError(error: unknown): void {
+    const handler = this.config?.getErrorHandler?.();
+    if (!handler) return;
+
+    try {
+      handler(error instanceof Error ? error : new Error(String(error)));
+    } catch (callbackError) {
+      console.error("[EventQueue] onError callback threw:", callbackError);
+    }
+  }
+
   /**
    * Get current queue size
    */
@@ -150,6 +428,23 @@ export class EventQueue {
       // Silently fail on destroy
     });
     this.clear();
+
+    // Buffered batches stay persisted for the next page load
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleOnline);
+      window.removeEventListener("pagehide", this.handlePageHide);
+      window.removeEventListener("pageshow", this.handlePageShow);
+    }
+    if (typeof document !== "undefined") {
+      document.removeEventListener(
+        "visibilitychange",
+        this.handleVisibilityChange,
+      );
+    }
   }
 
   /**
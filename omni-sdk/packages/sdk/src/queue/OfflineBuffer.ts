@@ -0,0 +1,315 @@
+/**
+ * Offline Buffer
+ * Persists batches that failed to transmit so they survive network blips and page reloads
+ * Storage: IndexedDB, falling back to localStorage, then to memory (SSR / private mode)
+ * Single Responsibility: Durable storage of undelivered batches
+ */
+
+import type { Batch } from "../types";
+
+/**
+ * A batch waiting to be re-sent
+ */
+export interface BufferedBatch {
+  batchId: string;
+  batch: Batch;
+  attempts: number;
+  nextAttemptAt: number;
+  storedAt: number;
+  sizeBytes: number;
+}
+
+/**
+ * Minimal persistence interface shared by all storage backends
+ */
+interface BatchStore {
+  getAll(): Promise<BufferedBatch[]>;
+  put(entry: BufferedBatch): Promise<void>;
+  delete(batchId: string): Promise<void>;
+}
+
+const IDB_STORE_NAME = "batches";
+
+/**
+ * IndexedDB-backed store (preferred: large quota, async, off the main thread)
+ */
+class IndexedDBBatchStore implements BatchStore {
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static open(name: string): Promise<IndexedDBBatchStore> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_STORE_NAME, {
+          keyPath: "batchId",
+        });
+      };
+      request.onsuccess = () =>
+        resolve(new IndexedDBBatchStore(request.result));
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("IndexedDB open blocked"));
+    });
+  }
+
+  getAll(): Promise<BufferedBatch[]> {
+    return this.run("readonly", (store) => store.getAll());
+  }
+
+  async put(entry: BufferedBatch): Promise<void> {
+    await this.run("readwrite", (store) => store.put(entry));
+  }
+
+  async delete(batchId: string): Promise<void> {
+    await this.run("readwrite", (store) => store.delete(batchId));
+  }
+
+  private run<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(IDB_STORE_NAME, mode);
+      const request = fn(transaction.objectStore(IDB_STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * localStorage-backed store (fallback: all entries under a single JSON key)
+ */
+class LocalStorageBatchStore implements BatchStore {
+  constructor(private readonly key: string) {}
+
+  async getAll(): Promise<BufferedBatch[]> {
+    try {
+      const raw = window.localStorage.getItem(this.key);
+      return raw ? (JSON.parse(raw) as BufferedBatch[]) : [];
+    } catch (e) {
+      // Corrupted entry, start over
+      return [];
+    }
+  }
+
+  async put(entry: BufferedBatch): Promise<void> {
+    const entries = (await this.getAll()).filter(
+      (e) => e.batchId !== entry.batchId,
+    );
+    entries.push(entry);
+    window.localStorage.setItem(this.key, JSON.stringify(entries));
+  }
+
+  async delete(batchId: string): Promise<void> {
+    const entries = (await this.getAll()).filter((e) => e.batchId !== batchId);
+    if (entries.length === 0) {
+      window.localStorage.removeItem(this.key);
+    } else {
+      window.localStorage.setItem(this.key, JSON.stringify(entries));
+    }
+  }
+}
+
+/**
+ * In-memory store (last resort: retries within the page, nothing survives reload)
+ */
+class MemoryBatchStore implements BatchStore {
+  private readonly entries = new Map<string, BufferedBatch>();
+
+  async getAll(): Promise<BufferedBatch[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async put(entry: BufferedBatch): Promise<void> {
+    this.entries.set(entry.batchId, entry);
+  }
+
+  async delete(batchId: string): Promise<void> {
+    this.entries.delete(batchId);
+  }
+}
+
+export class OfflineBuffer {
+  private readonly storageKey: string;
+  private readonly maxBytes: number;
+  private readonly maxAgeMs: number;
+  private storePromise: Promise<BatchStore> | null = null;
+
+  /**
+   * @param storageKey - IndexedDB database name / localStorage key (scoped per project)
+   * @param maxBytes - Size cap for all buffered batches, oldest are dropped first
+   * @param maxAgeMs - Batches older than this are dropped instead of re-sent
+   */
+  constructor(
+    storageKey: string,
+    maxBytes: number = 1024 * 1024,
+    maxAgeMs: number = 7 * 24 * 60 * 60 * 1000,
+  ) {
+    this.storageKey = storageKey;
+    this.maxBytes = maxBytes;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  /**
+   * Store a failed batch
+   * Re-storing a known batchId updates its retry state instead of duplicating it,
+   * and events already buffered under another batch (same eventId) are skipped
+   *
+   * @param batch - Batch that failed to transmit
+   * @param attempts - Delivery attempts so far (drives the backoff)
+   */
+  async add(batch: Batch, attempts: number = 1): Promise<void> {
+    const store = await this.getStore();
+    const existing = await store.getAll();
+
+    const knownEventIds = new Set<string>();
+    for (const entry of existing) {
+      if (entry.batchId === batch.batchId) continue;
+      for (const event of entry.batch.events) {
+        knownEventIds.add(event.eventId);
+      }
+    }
+
+    const events = batch.events.filter(
+      (event) => !knownEventIds.has(event.eventId),
+    );
+    if (events.length === 0) {
+      return;
+    }
+
+    const deduped: Batch = { ...batch, events };
+    const previous = existing.find((e) => e.batchId === batch.batchId);
+    const now = Date.now();
+
+    await store.put({
+      batchId: batch.batchId,
+      batch: deduped,
+      attempts,
+      nextAttemptAt: now + OfflineBuffer.backoffMs(attempts),
+      storedAt: previous?.storedAt ?? now,
+      sizeBytes: JSON.stringify(deduped).length,
+    });
+
+    await this.enforceLimits(store);
+  }
+
+  /**
+   * Get buffered batches that are due for a retry, oldest first
+   * Expired batches are dropped along the way
+   */
+  async getDue(now: number = Date.now()): Promise<BufferedBatch[]> {
+    const store = await this.getStore();
+    const entries = await this.enforceLimits(store);
+    return entries.filter((entry) => entry.nextAttemptAt <= now);
+  }
+
+  /**
+   * Earliest nextAttemptAt of all buffered batches, or null if empty
+   */
+  async getNextAttemptAt(): Promise<number | null> {
+    const store = await this.getStore();
+    const entries = await store.getAll();
+    if (entries.length === 0) return null;
+    return Math.min(...entries.map((entry) => entry.nextAttemptAt));
+  }
+
+  /**
+   * Remove a batch once delivered (or permanently rejected)
+   */
+  async remove(batchId: string): Promise<void> {
+    const store = await this.getStore();
+    await store.delete(batchId);
+  }
+
+  /**
+   * Number of buffered batches
+   */
+  async size(): Promise<number> {
+    const store = await this.getStore();
+    return (await store.getAll()).length;
+  }
+
+  /**
+   * Retry delay after N failed attempts: 5s, 10s, 20s ... capped at 5 minutes
+   */
+  static backoffMs(attempts: number): number {
+    return Math.min(5000 * Math.pow(2, Math.max(attempts - 1, 0)), 300000);
+  }
+
+  /**
+   * Drop expired batches, then the oldest ones until under the size cap
+   * Returns the remaining entries, oldest first
+   */
+  private async enforceLimits(store: BatchStore): Promise<BufferedBatch[]> {
+    const now = Date.now();
+    const entries = (await store.getAll()).sort(
+      (a, b) => a.storedAt - b.storedAt,
+    );
+
+    const kept: BufferedBatch[] = [];
+    for (const entry of entries) {
+      if (now - entry.storedAt > this.maxAgeMs) {
+        await store.delete(entry.batchId);
+      } else {
+        kept.push(entry);
+      }
+    }
+
+    let totalBytes = kept.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    while (totalBytes > this.maxBytes && kept.length > 0) {
+      const oldest = kept.shift()!;
+      totalBytes -= oldest.sizeBytes;
+      await store.delete(oldest.batchId);
+      console.warn(
+        `[OfflineBuffer] Size cap reached, dropped batch ${oldest.batchId}`,
+      );
+    }
+
+    return kept;
+  }
+
+  /**
+   * Resolve the best available storage backend (once)
+   */
+  private getStore(): Promise<BatchStore> {
+    if (!this.storePromise) {
+      this.storePromise = this.openStore();
+    }
+    return this.storePromise;
+  }
+
+  private async openStore(): Promise<BatchStore> {
+    if (typeof indexedDB !== "undefined") {
+      try {
+        return await IndexedDBBatchStore.open(this.storageKey);
+      } catch (error) {
+        console.warn(
+          "[OfflineBuffer] IndexedDB unavailable, falling back to localStorage:",
+          error,
+        );
+      }
+    }
+
+    if (this.isLocalStorageAvailable()) {
+      return new LocalStorageBatchStore(this.storageKey);
+    }
+
+    return new MemoryBatchStore();
+  }
+
+  private isLocalStorageAvailable(): boolean {
+    try {
+      if (typeof window === "undefined" || !window.localStorage) {
+        return false;
+      }
+      // Safari private mode exposes localStorage but throws on write
+      const probe = `${this.storageKey}__probe`;
+      window.localStorage.setItem(probe, "1");
+      window.localStorage.removeItem(probe);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+}
@@ -5,7 +5,23 @@
  * Single Responsibility: Providing public tracking interface
  */
 
-import type { Event, BaseEvent, PageViewEvent, ClickEvent } from "../types";
+import type {
+  Event,
+  BaseEvent,
+  PageViewEvent,
+  ClickEvent,
+  InputEvent,
+  FormInteraction,
+  IdentifyEvent,
+  WebVitalEvent,
+  WebVitalPayload,
+  CapturedErrorEvent,
+  ErrorPayload,
+  ScrollDepthEvent,
+  ScrollDepthPayload,
+  DeadClickEvent,
+  DeadClickPayload,
+} from "../types";
 import type {
   ScreenClass,
   SessionSnapshotEvent,
@@ -14,7 +30,11 @@ import type {
 import { Config } from "../config/Config";
 import { SessionManager } from "../session/SessionManager";
 import { EventQueue } from "../queue/EventQueue";
-import { getScreenClass, computeLayoutHash } from "../utils/domSerializer";
+import {
+  getScreenClass,
+  computeLayoutHash,
+  computeElementTextHash,
+} from "../utils/domSerializer";
 import {
   generateUUID,
   generateCSSSelector,
@@ -78,13 +98,14 @@ export class Tracker {
 
   /**
    * Track a click event with optional heatmap data (normalized coordinates, screen class, layout hash)
+   * Returns the eventId of the click (undefined when tracking is disabled)
    */
   trackClick(
     element: Element,
     coordinates?: { pageX?: number; pageY?: number },
-  ): void {
+  ): string | undefined {
     if (!this.config.isEnabled()) {
-      return;
+      return undefined;
     }
 
     const pageContext = getPageContext();
@@ -94,7 +115,7 @@ export class Tracker {
     const selector = generateCSSSelector(element);
     const xpath = generateXPath(element);
     const tagName = element.tagName.toLowerCase();
-    const elementText = (element as HTMLElement).innerText?.substring(0, 100);
+    const elementTextHash = computeElementTextHash(element);
 
     // Compute heatmap fields: normalized coordinates
     const pageX = coordinates?.pageX ?? 0;
@@ -125,6 +146,7 @@ export class Tracker {
       pageY,
       selector,
       xpath,
+      elementTextHash,
       tagName,
       xNorm,
       yNorm,
@@ -132,6 +154,166 @@ export class Tracker {
       layoutHash,
     };
 
+    this.track(event);
+    return event.eventId;
+  }
+
+  /**
+   * Track a form interaction (focus, blur, change, submit)
+   * Field values are never read or sent
+   */
+  trackFormInteraction(payload: {
+    action: FormInteraction;
+    formId: string;
+    fieldName: string | null;
+    selector: string;
+    inputType: string;
+    durationMs?: number;
+  }): void {
+    if (!this.config.isEnabled()) {
+      return;
+    }
+
+    const pageContext = getPageContext();
+    const { pageDimensions, viewport } = getPageDimensions();
+
+    const event: InputEvent = {
+      eventId: generateUUID(),
+      projectId: this.config.getProjectId(),
+      clientId: this.config.getClientId(),
+      sessionId: this.sessionManager.getSessionId(),
+      userId: this.config.getUserId(),
+      type: "input",
+      timestamp: Date.now(),
+      url: pageContext.url,
+      referrer: pageContext.referrer,
+      pageDimensions,
+      viewport,
+      properties: {},
+      ...payload,
+    };
+
+    this.track(event);
+  }
+
+  /**
+   * Track a web vital measurement (WebVitalsPlugin)
+   * payload.url is the page the metric belongs to, not necessarily the current URL
+   */
+  trackWebVital(payload: WebVitalPayload): void {
+    if (!this.config.isEnabled()) {
+      return;
+    }
+
+    const pageContext = getPageContext();
+    const { pageDimensions, viewport } = getPageDimensions();
+
+    const event: WebVitalEvent = {
+      eventId: generateUUID(),
+      projectId: this.config.getProjectId(),
+      clientId: this.config.getClientId(),
+      sessionId: this.sessionManager.getSessionId(),
+      userId: this.config.getUserId(),
+      type: "web_vital",
+      timestamp: Date.now(),
+      referrer: pageContext.referrer,
+      pageDimensions,
+      viewport,
+      screenClass: getScreenClass(viewport.w),
+      ...payload,
+    };
+
+    this.track(event);
+  }
+
+  /**
+   * Track an uncaught error or unhandled rejection (ErrorTrackingPlugin)
+   * Carries the replayId so the error can be opened in its session replay
+   */
+  trackError(payload: ErrorPayload): void {
+    if (!this.config.isEnabled()) {
+      return;
+    }
+
+    const pageContext = getPageContext();
+    const { pageDimensions, viewport } = getPageDimensions();
+
+    const event: CapturedErrorEvent = {
+      eventId: generateUUID(),
+      projectId: this.config.getProjectId(),
+      clientId: this.config.getClientId(),
+      sessionId: this.sessionManager.getSessionId(),
+      userId: this.config.getUserId(),
+      type: "error",
+      timestamp: Date.now(),
+      url: pageContext.url,
+      referrer: pageContext.referrer,
+      pageDimensions,
+      viewport,
+      replayId: this.config.getReplayId(),
+      ...payload,
+    };
+
+    this.track(event);
+  }
+
+  /**
+   * Track the maximum scroll depth of a page view (ScrollDepthPlugin)
+   * payload.url is the page the depth belongs to, not necessarily the current URL
+   */
+  trackScrollDepth(payload: ScrollDepthPayload): void {
+    if (!this.config.isEnabled()) {
+      return;
+    }
+
+    const pageContext = getPageContext();
+    const { pageDimensions, viewport } = getPageDimensions();
+
+    const event: ScrollDepthEvent = {
+      eventId: generateUUID(),
+      projectId: this.config.getProjectId(),
+      clientId: this.config.getClientId(),
+      sessionId: this.sessionManager.getSessionId(),
+      userId: this.config.getUserId(),
+      type: "scroll",
+      timestamp: Date.now(),
+      referrer: pageContext.referrer,
+      pageDimensions,
+      viewport,
+      screenClass: getScreenClass(viewport.w),
+      ...payload,
+    };
+
+    this.track(event);
+  }
+
+  /**
+   * Track a dead click (no DOM mutation, navigation or network activity after a click)
+   * Called by ClickTrackingPlugin; the click itself was tracked with trackClick
+   */
+  trackDeadClick(payload: DeadClickPayload): void {
+    if (!this.config.isEnabled()) {
+      return;
+    }
+
+    const pageContext = getPageContext();
+    const { pageDimensions, viewport } = getPageDimensions();
+
+    const event: DeadClickEvent = {
+      eventId: generateUUID(),
+      projectId: this.config.getProjectId(),
+      clientId: this.config.getClientId(),
+      sessionId: this.sessionManager.getSessionId(),
+      userId: this.config.getUserId(),
+      type: "dead_click",
+      timestamp: Date.now(),
+      url: pageContext.url,
+      referrer: pageContext.referrer,
+      pageDimensions,
+      viewport,
+      ...payload,
+    };
+
     this.track(event);
   }
 
@@ -194,6 +376,57 @@ export class Tracker {
     }
   }
 
+  /**
+   * Identify the current user (after login or signup)
+   * Sets the userId and sends an identify event, which links the anonymous
+   * clientId (and everything tracked under it before login) to this user
+   *
+   * @param userId - Your stable user identifier
+   * @param traits - Optional user attributes (plan, role, ...)
+   */
+  identify(userId: string, traits?: Record<string, any>): void {
+    if (!userId) {
+      return;
+    }
+
+    this.config.setUserId(userId);
+
+    if (!this.config.isEnabled()) {
+      return;
+    }
+
+    const pageContext = getPageContext();
+    const { pageDimensions, viewport } = getPageDimensions();
+
+    const event: IdentifyEvent = {
+      eventId: generateUUID(),
+      projectId: this.config.getProjectId(),
+      clientId: this.config.getClientId(),
+      sessionId: this.sessionManager.getSessionId(),
+      userId,
+      type: "identify",
+      timestamp: Date.now(),
+      url: pageContext.url,
+      referrer: pageContext.referrer,
+      pageDimensions,
+      viewport,
+      traits,
+    };
+
+    this.track(event);
+  }
+
+  /**
+   * Forget the identified user (on logout)
+   * Clears the userId, rotates the clientId and starts a new session,
+   * so later activity on this device is not attributed to the previous user
+   */
+  reset(): void {
+    this.config.setUserId(null);
+    this.config.resetClientId();
+    this.sessionManager.startNewSession();
+  }
+
   /**
    * Set client ID
    */
@@ -28,6 +28,10 @@ export class BeaconTransmitter implements ITransmitter {
     return 5; // Lower priority, used as fallback
   }
 
+  confirmsDelivery(): boolean {
+    return false; // true from sendBeacon only means the request was queued
+  }
+
   async send(batch: Batch): Promise<void> {
     if (!this.isAvailable()) {
       throw new Error("Navigator.sendBeacon not available");
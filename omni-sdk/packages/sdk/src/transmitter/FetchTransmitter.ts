@@ -6,6 +6,7 @@
 
 import type { Batch } from "../types";
 import { ITransmitter } from "./ITransmitter";
+import { TransmitterError } from "./TransmitterError";
 
 export class FetchTransmitter implements ITransmitter {
   private readonly endpoint: string;
@@ -63,10 +64,23 @@ export class FetchTransmitter implements ITransmitter {
           return;
         }
 
+        // Authentication failures won't fix themselves, don't retry
+        if (response.status === 401 || response.status === 403) {
+          throw new TransmitterError(
+            await this.readErrorMessage(response),
+            response.status,
+            false,
+          );
+        }
+
         lastError = new Error(
           `HTTP ${response.status}: ${response.statusText}`,
         );
       } catch (error) {
+        if (error instanceof TransmitterError && !error.retryable) {
+          throw error;
+        }
+
         lastError = error instanceof Error ? error : new Error(String(error));
 
         // Don't retry on abort or network errors immediately
@@ -80,6 +94,21 @@ export class FetchTransmitter implements ITransmitter {
     throw lastError || new Error("Failed to send batch after all retries");
   }
 
+  /**
+   * Read the `error` field of an ingest error response, falling back to the status text
+   */
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const body = await response.json();
+      if (body && typeof body.error === "string") {
+        return `HTTP ${response.status}: ${body.error}`;
+      }
+    } catch (e) {
+      // Body is not JSON, use status text
+    }
+    return `HTTP ${response.status}: ${response.statusText}`;
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
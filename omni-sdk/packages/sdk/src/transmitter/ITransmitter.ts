@@ -10,4 +10,5 @@ export interface ITransmitter {
   send(batch: Batch): Promise<void>;
   isAvailable(): boolean;
   getPriority?(): number;
+  confirmsDelivery?(): boolean;
 }
@@ -0,0 +1,24 @@
+/**
+ * Transmitter Error
+ * Raised when the ingest endpoint rejects a batch with an HTTP status
+ * Lets the EventQueue tell permanent rejections (bad writeKey) from transient failures
+ */
+
+export class TransmitterError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number, retryable: boolean) {
+    super(message);
+    this.name = "TransmitterError";
+    this.status = status;
+    this.retryable = retryable;
+  }
+
+  /**
+   * True when the server rejected the writeKey (401) or the project (403)
+   */
+  isAuthError(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
@@ -5,3 +5,4 @@
 export { ITransmitter } from "./ITransmitter";
 export { FetchTransmitter } from "./FetchTransmitter";
 export { BeaconTransmitter } from "./BeaconTransmitter";
+export { TransmitterError } from "./TransmitterError";
@@ -46,7 +46,12 @@ export type EventType =
   | "route"
   | "custom"
   | "session_snapshot"
-  | "rrweb";
+  | "rrweb"
+  | "identify"
+  | "web_vital"
+  | "error"
+  | "scroll"
+  | "dead_click";
 
 /**
  * Union type for all possible events
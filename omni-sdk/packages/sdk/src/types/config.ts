@@ -48,6 +48,26 @@ export interface ReplayConfig {
   debug?: boolean;
 }
 
+/**
+ * Offline buffer configuration for undelivered batches
+ */
+export interface OfflineConfig {
+  /**
+   * Keep failed batches in IndexedDB/localStorage and re-send them (default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Max total size of buffered batches in bytes, oldest dropped first (default: 1048576 = 1MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Max age of a buffered batch in ms before it is dropped (default: 604800000 = 7 days)
+   */
+  maxAgeMs?: number;
+}
+
 /**
  * Privacy and sanitization settings for snapshots
  */
@@ -169,10 +189,22 @@ export interface SDKConfig {
   sessionStorageKey?: string;
 
   /**
-   * Optional: Enable automatic error reporting
+   * Optional: Capture uncaught errors and unhandled rejections (ErrorTrackingPlugin)
+   * Default: false
    */
   captureErrors?: boolean;
 
+  /**
+   * Optional: Called when a batch cannot be delivered
+   * Receives a TransmitterError with status 401/403 when the server rejects the writeKey
+   */
+  onError?: (error: Error) => void;
+
+  /**
+   * Optional: Offline buffer for batches that fail to transmit
+   */
+  offline?: OfflineConfig;
+
   /**
    * Optional: Session configuration for inactivity timeout and lifecycle
    */
@@ -46,13 +46,22 @@ export interface ClickEvent extends BaseEvent {
 }
 
 /**
- * Input event - tracks form input interactions
+ * Form interaction kinds recorded by FormAnalyticsPlugin
+ */
+export type FormInteraction = "focus" | "blur" | "change" | "submit";
+
+/**
+ * Input event - tracks form interactions per field
+ * Never carries field values, only which field was touched and for how long
  */
 export interface InputEvent extends BaseEvent {
   type: "input";
-  selector: string;
-  inputType: string; // text, checkbox, radio, etc.
-  value?: string; // only for text inputs
+  action: FormInteraction;
+  formId: string; // data-omni-form > id > name > CSS selector of the <form>
+  fieldName: string | null; // name > id > CSS selector of the field (null for submit)
+  selector: string; // CSS selector of the field (or form for submit)
+  inputType: string; // text, checkbox, radio, select, textarea, form
+  durationMs?: number; // blur only: time since the field was focused
 }
 
 /**
@@ -71,3 +80,13 @@ export interface CustomEvent extends BaseEvent {
   type: "custom";
   eventName: string;
 }
+
+/**
+ * Identify event: links the anonymous clientId to a userId
+ * Sent by tracker.identify(); the backend aliases clientId -> userId
+ */
+export interface IdentifyEvent extends BaseEvent {
+  type: "identify";
+  userId: string;
+  traits?: Record<string, any>;
+}
@@ -0,0 +1,32 @@
+/**
+ * Dead click event types
+ */
+
+import { BaseEvent } from "../common";
+
+/**
+ * What the page did in response to a click
+ */
+export type ClickResponseType = "mutation" | "network" | "focus" | "scroll";
+
+/**
+ * Dead click payload reported by ClickTrackingPlugin
+ * Sent only for clicks the page did not respond to quickly (see DeadClickDetector)
+ */
+export interface DeadClickPayload {
+  clickEventId: string; // eventId of the click event
+  clickedAt: number; // click time, ms since epoch
+  selector: string;
+  xpath?: string;
+  tagName: string;
+  responseMs: number | null; // first response after the click, null = none within the window
+  responseType: ClickResponseType | null;
+  windowMs: number; // how long the page was observed
+}
+
+/**
+ * Dead click event - a click with no DOM mutation, navigation or network activity
+ */
+export interface DeadClickEvent extends BaseEvent, DeadClickPayload {
+  type: "dead_click";
+}
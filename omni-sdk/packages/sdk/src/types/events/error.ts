@@ -0,0 +1,32 @@
+/**
+ * Error event types
+ */
+
+import { BaseEvent } from "../common";
+
+/**
+ * Where the error was caught
+ */
+export type ErrorSource = "onerror" | "unhandledrejection";
+
+/**
+ * Error payload reported by ErrorTrackingPlugin
+ */
+export interface ErrorPayload {
+  message: string;
+  errorType: string; // Error name (TypeError, ReferenceError, ...) or "UnhandledRejection"
+  stack: string | null;
+  source: ErrorSource;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+}
+
+/**
+ * Error event - one uncaught error or unhandled promise rejection
+ * replayId links the error to the session replay it happened in
+ */
+export interface CapturedErrorEvent extends BaseEvent, ErrorPayload {
+  type: "error";
+  replayId: string;
+}
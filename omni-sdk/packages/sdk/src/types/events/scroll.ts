@@ -0,0 +1,24 @@
+/**
+ * Scroll depth event types
+ */
+
+import { BaseEvent } from "../common";
+import type { ScreenClass } from "./snapshot";
+
+/**
+ * Scroll depth payload reported by ScrollDepthPlugin
+ */
+export interface ScrollDepthPayload {
+  pageViewId: string; // one id per page view; later reports for the same view only go deeper
+  maxDepth: number; // deepest point seen (bottom of viewport / page height), 0-1 like yNorm
+  maxScrollY: number; // same point in pixels from the top of the page
+  url: string; // page the depth belongs to (may differ from the current URL after SPA navigation)
+}
+
+/**
+ * Scroll depth event - maximum scroll depth reached in one page view
+ */
+export interface ScrollDepthEvent extends BaseEvent, ScrollDepthPayload {
+  type: "scroll";
+  screenClass: ScreenClass;
+}
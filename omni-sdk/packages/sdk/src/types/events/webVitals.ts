@@ -0,0 +1,37 @@
+/**
+ * Web Vitals event types
+ */
+
+import { BaseEvent } from "../common";
+import type { ScreenClass } from "./snapshot";
+
+/**
+ * Core Web Vitals and supporting metrics collected from real users
+ * LCP, INP, FCP and TTFB are in milliseconds, CLS is unitless
+ */
+export type WebVitalName = "LCP" | "INP" | "CLS" | "FCP" | "TTFB";
+
+/**
+ * Rating against Google's thresholds (good / needs-improvement / poor)
+ */
+export type WebVitalRating = "good" | "needs-improvement" | "poor";
+
+/**
+ * Web vital payload reported by WebVitalsPlugin
+ */
+export interface WebVitalPayload {
+  name: WebVitalName;
+  value: number;
+  rating: WebVitalRating;
+  selector: string | null; // attribution element (LCP element, largest shift, slowest interaction)
+  navigationType: string; // navigate, reload, back_forward, prerender
+  url: string; // page the metric belongs to (the landing URL for SPAs)
+}
+
+/**
+ * Web vital event - one metric measurement for one page load
+ */
+export interface WebVitalEvent extends BaseEvent, WebVitalPayload {
+  type: "web_vital";
+  screenClass: ScreenClass;
+}
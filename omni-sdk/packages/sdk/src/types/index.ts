@@ -7,7 +7,12 @@
 export * from "./common";
 export type { ITransmitter, TransmitterConfig } from "./transmitter";
 export type { IPlugin, PluginContext, Logger, PluginMetadata } from "./plugin";
-export type { SDKConfig, SnapshotConfig, PrivacyConfig } from "./config";
+export type {
+  SDKConfig,
+  SnapshotConfig,
+  PrivacyConfig,
+  OfflineConfig,
+} from "./config";
 
 // Event types
 export type { PageViewEvent, PageViewPayload } from "./events/pageView";
@@ -16,9 +21,28 @@ export type {
   ClickPayload,
   ElementMetadata,
   InputEvent,
+  FormInteraction,
   RouteEvent,
   CustomEvent,
+  IdentifyEvent,
 } from "./events/click";
+export type {
+  WebVitalEvent,
+  WebVitalPayload,
+  WebVitalName,
+  WebVitalRating,
+} from "./events/webVitals";
+export type {
+  CapturedErrorEvent,
+  ErrorPayload,
+  ErrorSource,
+} from "./events/error";
+export type { ScrollDepthEvent, ScrollDepthPayload } from "./events/scroll";
+export type {
+  DeadClickEvent,
+  DeadClickPayload,
+  ClickResponseType,
+} from "./events/deadClick";
 export type {
   SessionSnapshotEvent,
   RrwebEvent,
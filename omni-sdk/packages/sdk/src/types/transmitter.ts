@@ -26,6 +26,12 @@ export interface ITransmitter {
    * Used by EventQueue to select best available transmitter
    */
   getPriority?(): number;
+
+  /**
+   * Optional: Whether a resolved send() means the server accepted the batch
+   * Default: true. sendBeacon only queues the request, so BeaconTransmitter returns false
+   */
+  confirmsDelivery?(): boolean;
 }
 
 /**
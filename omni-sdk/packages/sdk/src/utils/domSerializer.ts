@@ -40,6 +40,20 @@ export function computeLayoutHash(
   }
 }
 
+/**
+ * Hash the visible text of a clicked element (the text itself is never sent)
+ * Whitespace and case are normalized so re-renders keep the same hash
+ */
+export function computeElementTextHash(element: Element): string | undefined {
+  const text = ((element as HTMLElement).innerText ?? element.textContent ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+    .substring(0, 100);
+
+  return text ? hashString(text) : undefined;
+}
+
 /**
  * Build deterministic structure string from DOM
  * Focus on layout-relevant info, exclude dynamic content
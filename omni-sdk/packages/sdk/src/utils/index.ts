@@ -20,8 +20,10 @@ export function generateUUID(): string {
  * Generate CSS selector for an element
  */
 export function generateCSSSelector(element: Element): string {
-  if (element.id) {
-    return `#${element.id}`;
+  // getAttribute: on a form, .id can be a control named "id"
+  const id = element.getAttribute('id');
+  if (id) {
+    return `#${id}`;
   }
 
   const names: string[] = [];
@@ -29,9 +31,10 @@ export function generateCSSSelector(element: Element): string {
 
   while (current && current.nodeType === Node.ELEMENT_NODE) {
     let name = current.nodeName.toLowerCase();
+    const currentId = current.getAttribute('id');
 
-    if (current.id) {
-      names.unshift(`#${current.id}`);
+    if (currentId) {
+      names.unshift(`#${currentId}`);
       break;
     } else {
       let sibling = current;
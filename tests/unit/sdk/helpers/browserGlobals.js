@@ -0,0 +1,44 @@
+/**
+ * Minimal browser globals for SDK tests
+ * window and document are EventTargets, so tests can dispatch "pagehide",
+ * "online" or "visibilitychange" on them
+ */
+export function installBrowserGlobals({ window: windowProps = {}, document: documentProps = {}, globals = {} } = {}) {
+    const fakeWindow = Object.assign(new EventTarget(), windowProps);
+    const fakeDocument = Object.assign(new EventTarget(), { visibilityState: "visible" }, documentProps);
+    // Other test files replace or delete navigator, keep whatever was there
+    const navigatorDescriptor = Object.getOwnPropertyDescriptor(global, "navigator");
+    const fakeNavigator = { onLine: true };
+
+    global.window = fakeWindow;
+    global.document = fakeDocument;
+    Object.defineProperty(global, "navigator", {
+        value: fakeNavigator,
+        configurable: true,
+        writable: true,
+    });
+    Object.assign(global, globals);
+
+    return {
+        window: fakeWindow,
+        document: fakeDocument,
+        navigator: fakeNavigator,
+
+        setVisibility(state) {
+            fakeDocument.visibilityState = state;
+            fakeDocument.dispatchEvent(new Event("visibilitychange"));
+        },
+
+        restore() {
+            delete global.window;
+            delete global.document;
+            delete global.navigator;
+            if (navigatorDescriptor) {
+                Object.defineProperty(global, "navigator", navigatorDescriptor);
+            }
+            for (const key of Object.keys(globals)) {
+                delete global[key];
+            }
+        },
+    };
+}
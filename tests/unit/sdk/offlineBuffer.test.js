@@ -0,0 +1,98 @@
+import { describe, test, expect, spyOn, mock, afterEach } from "bun:test";
+import { OfflineBuffer } from "../../../omni-sdk/packages/sdk/src/queue/OfflineBuffer";
+
+// No indexedDB or window here: the buffer uses its in-memory store
+const makeBatch = (batchId, eventIds) => ({
+    batchId,
+    events: eventIds.map((eventId) => ({ eventId, type: "custom", timestamp: 1700000000000 })),
+    timestamp: 1700000000000,
+});
+
+describe("OfflineBuffer", () => {
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test("should buffer a batch and hand it back once due", async () => {
+        const buffer = new OfflineBuffer("omni_test");
+        const before = Date.now();
+
+        await buffer.add(makeBatch("batch_1", ["e1", "e2"]), 1);
+
+        expect(await buffer.size()).toBe(1);
+        expect(await buffer.getDue(before)).toEqual([]);
+
+        const due = await buffer.getDue(before + 5000 + 1000);
+        expect(due).toHaveLength(1);
+        expect(due[0].batchId).toBe("batch_1");
+        expect(due[0].attempts).toBe(1);
+        expect(due[0].batch.events.map((e) => e.eventId)).toEqual(["e1", "e2"]);
+
+        await buffer.remove("batch_1");
+        expect(await buffer.size()).toBe(0);
+        expect(await buffer.getNextAttemptAt()).toBeNull();
+    });
+
+    test("should update a known batchId instead of duplicating it", async () => {
+        const buffer = new OfflineBuffer("omni_test");
+        const now = spyOn(Date, "now").mockReturnValue(1000);
+
+        await buffer.add(makeBatch("batch_1", ["e1"]), 1);
+        now.mockReturnValue(2000);
+        await buffer.add(makeBatch("batch_1", ["e1"]), 2);
+
+        const [entry] = await buffer.getDue(Number.POSITIVE_INFINITY);
+        expect(await buffer.size()).toBe(1);
+        expect(entry.attempts).toBe(2);
+        expect(entry.storedAt).toBe(1000);
+        expect(entry.nextAttemptAt).toBe(2000 + 10000);
+    });
+
+    test("should skip events already buffered under another batch", async () => {
+        const buffer = new OfflineBuffer("omni_test");
+
+        await buffer.add(makeBatch("batch_1", ["e1", "e2"]));
+        await buffer.add(makeBatch("batch_2", ["e2", "e3"]));
+        await buffer.add(makeBatch("batch_3", ["e1", "e3"]));
+
+        const due = await buffer.getDue(Number.POSITIVE_INFINITY);
+        expect(due.map((entry) => entry.batchId)).toEqual(["batch_1", "batch_2"]);
+        expect(due[1].batch.events.map((e) => e.eventId)).toEqual(["e3"]);
+    });
+
+    test("should drop the oldest batches over the size cap", async () => {
+        const size = JSON.stringify(makeBatch("batch_1", ["e1"])).length;
+        const buffer = new OfflineBuffer("omni_test", size * 2);
+        const warn = spyOn(console, "warn").mockImplementation(() => {});
+        const now = spyOn(Date, "now");
+
+        now.mockReturnValue(1000);
+        await buffer.add(makeBatch("batch_1", ["e1"]));
+        now.mockReturnValue(2000);
+        await buffer.add(makeBatch("batch_2", ["e2"]));
+        now.mockReturnValue(3000);
+        await buffer.add(makeBatch("batch_3", ["e3"]));
+
+        const due = await buffer.getDue(Number.POSITIVE_INFINITY);
+        expect(due.map((entry) => entry.batchId)).toEqual(["batch_2", "batch_3"]);
+        expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should drop batches older than maxAgeMs", async () => {
+        const buffer = new OfflineBuffer("omni_test", 1024 * 1024, 60000);
+        const now = spyOn(Date, "now").mockReturnValue(1000);
+
+        await buffer.add(makeBatch("batch_1", ["e1"]));
+        now.mockReturnValue(1000 + 60001);
+
+        expect(await buffer.getDue(Number.POSITIVE_INFINITY)).toEqual([]);
+        expect(await buffer.size()).toBe(0);
+    });
+
+    test("backoffMs should double from 5s and cap at 5 minutes", () => {
+        expect(OfflineBuffer.backoffMs(1)).toBe(5000);
+        expect(OfflineBuffer.backoffMs(2)).toBe(10000);
+        expect(OfflineBuffer.backoffMs(3)).toBe(20000);
+        expect(OfflineBuffer.backoffMs(10)).toBe(300000);
+    });
+});
@@ -1,5 +1,8 @@
-import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { describe, test, expect, mock, spyOn, beforeEach, afterEach } from "bun:test";
 import { EventQueue } from "../../../omni-sdk/packages/sdk/src/queue/EventQueue";
+import { OfflineBuffer } from "../../../omni-sdk/packages/sdk/src/queue/OfflineBuffer";
+import { TransmitterError } from "../../../omni-sdk/packages/sdk/src/transmitter/TransmitterError";
+import { installBrowserGlobals } from "./helpers/browserGlobals";
 
 describe("EventQueue", () => {
     let mockTransmitter;
@@ -69,4 +72,212 @@ describe("EventQueue", () => {
         queue.clear();
         expect(queue.getQueueSize()).toBe(0);
     });
+
+    describe("delivery", () => {
+        let browser;
+        let queue;
+        let fetchSend;
+        let beaconSend;
+        let fetchTransmitter;
+        let beaconTransmitter;
+
+        const makeEvent = (eventId) => ({ eventId, type: "custom", timestamp: 1700000000000 });
+        const networkDown = () => Promise.reject(new Error("Failed to fetch"));
+        const sentEventIds = (send, call) => send.mock.calls[call][0].events.map((e) => e.eventId);
+
+        const waitFor = async (condition) => {
+            for (let i = 0; i < 50; i++) {
+                if (await condition()) return;
+                await new Promise(r => setTimeout(r, 1));
+            }
+            throw new Error("Condition not met");
+        };
+
+        const createQueue = async (buffer) => {
+            queue = new EventQueue([beaconTransmitter, fetchTransmitter], 50, 10000, undefined, undefined, buffer);
+            // Let the startup retry of a previous page load's batches run
+            await new Promise(r => setTimeout(r, 1));
+            return queue;
+        };
+
+        beforeEach(() => {
+            browser = installBrowserGlobals();
+            fetchSend = mock(() => Promise.resolve());
+            beaconSend = mock(() => Promise.resolve());
+            fetchTransmitter = { send: fetchSend, isAvailable: () => true, getPriority: () => 10 };
+            // Like BeaconTransmitter: resolves as soon as the browser queued the request
+            beaconTransmitter = {
+                send: beaconSend,
+                isAvailable: () => true,
+                getPriority: () => 5,
+                confirmsDelivery: () => false,
+            };
+            spyOn(console, "warn").mockImplementation(() => {});
+            spyOn(console, "error").mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            queue?.destroy();
+            queue = null;
+            browser.restore();
+            mock.restore();
+        });
+
+        test("should send a batch through the preferred transmitter", async () => {
+            const buffer = new OfflineBuffer("omni_test");
+            await createQueue(buffer);
+
+            queue.add(makeEvent("e1"));
+            queue.add(makeEvent("e2"));
+            await queue.flush();
+
+            expect(fetchSend).toHaveBeenCalledTimes(1);
+            expect(sentEventIds(fetchSend, 0)).toEqual(["e1", "e2"]);
+            expect(beaconSend).not.toHaveBeenCalled();
+            expect(queue.getQueueSize()).toBe(0);
+            expect(await buffer.size()).toBe(0);
+        });
+
+        test("should buffer a failed batch instead of counting a beacon as delivered", async () => {
+            const buffer = new OfflineBuffer("omni_test");
+            await createQueue(buffer);
+            fetchSend.mockImplementation(networkDown);
+
+            queue.add(makeEvent("e1"));
+            await queue.flush();
+
+            expect(beaconSend).not.toHaveBeenCalled();
+            const due = await buffer.getDue(Number.POSITIVE_INFINITY);
+            expect(due).toHaveLength(1);
+            expect(due[0].attempts).toBe(1);
+            expect(due[0].batch.events.map((e) => e.eventId)).toEqual(["e1"]);
+        });
+
+        test("should fall back to the beacon without an offline buffer", async () => {
+            await createQueue();
+            fetchSend.mockImplementation(networkDown);
+
+            queue.add(makeEvent("e1"));
+            await queue.flush();
+
+            expect(beaconSend).toHaveBeenCalledTimes(1);
+        });
+
+        test("should not buffer a batch the server rejected permanently", async () => {
+            const buffer = new OfflineBuffer("omni_test");
+            await createQueue(buffer);
+            fetchSend.mockImplementation(() =>
+                Promise.reject(new TransmitterError("HTTP 401: Invalid writeKey", 401, false)),
+            );
+
+            queue.add(makeEvent("e1"));
+            await queue.flush();
+
+            expect(await buffer.size()).toBe(0);
+            expect(beaconSend).not.toHaveBeenCalled();
+        });
+
+        test("retryBuffered should back off while failing and remove delivered batches", async () => {
+            const buffer = new OfflineBuffer("omni_test");
+            await createQueue(buffer);
+            fetchSend.mockImplementation(networkDown);
+
+            queue.add(makeEvent("e1"));
+            await queue.flush();
+            const [first] = await buffer.getDue(Number.POSITIVE_INFINITY);
+
+            // Not due yet: nothing is sent
+            await queue.retryBuffered();
+            expect(fetchSend).toHaveBeenCalledTimes(1);
+
+            // Failing again keeps the same batchId with the next backoff step
+            await queue.retryBuffered(true);
+            const [second] = await buffer.getDue(Number.POSITIVE_INFINITY);
+            expect(second.batchId).toBe(first.batchId);
+            expect(second.attempts).toBe(2);
+            expect(second.nextAttemptAt - first.nextAttemptAt).toBeGreaterThanOrEqual(
+                OfflineBuffer.backoffMs(2) - OfflineBuffer.backoffMs(1),
+            );
+            expect(await buffer.size()).toBe(1);
+
+            fetchSend.mockImplementation(() => Promise.resolve());
+            await queue.retryBuffered(true);
+
+            expect(fetchSend).toHaveBeenCalledTimes(3);
+            expect(await buffer.size()).toBe(0);
+            expect(beaconSend).not.toHaveBeenCalled();
+        });
+
+        test("should buffer while offline and retry as soon as the browser is online", async () => {
+            const buffer = new OfflineBuffer("omni_test");
+            await createQueue(buffer);
+            browser.navigator.onLine = false;
+
+            queue.add(makeEvent("e1"));
+            await queue.flush();
+
+            expect(fetchSend).not.toHaveBeenCalled();
+            expect(await buffer.size()).toBe(1);
+
+            browser.navigator.onLine = true;
+            browser.window.dispatchEvent(new Event("online"));
+
+            await waitFor(async () => (await buffer.size()) === 0);
+            expect(fetchSend).toHaveBeenCalledTimes(1);
+            expect(sentEventIds(fetchSend, 0)).toEqual(["e1"]);
+        });
+
+        test("should send queued events with the beacon as soon as the page is hidden", async () => {
+            const buffer = new OfflineBuffer("omni_test");
+            await createQueue(buffer);
+
+            queue.add(makeEvent("e1"));
+            browser.setVisibility("hidden");
+
+            // Sent synchronously, before the page can be discarded
+            expect(beaconSend).toHaveBeenCalledTimes(1);
+            expect(sentEventIds(beaconSend, 0)).toEqual(["e1"]);
+            expect(fetchSend).not.toHaveBeenCalled();
+
+            // Reported by a later hide listener (e.g. CLS): sent once listeners ran
+            queue.add(makeEvent("cls"));
+            queue.add(makeEvent("inp"));
+            expect(beaconSend).toHaveBeenCalledTimes(1);
+            await Promise.resolve();
+            expect(beaconSend).toHaveBeenCalledTimes(2);
+            expect(sentEventIds(beaconSend, 1)).toEqual(["cls", "inp"]);
+
+            // Visible again: back to batching
+            browser.setVisibility("visible");
+            queue.add(makeEvent("e2"));
+            await Promise.resolve();
+            expect(beaconSend).toHaveBeenCalledTimes(2);
+            expect(queue.getQueueSize()).toBe(1);
+        });
+
+        test("should send queued events on pagehide", () => {
+            queue = new EventQueue([beaconTransmitter, fetchTransmitter]);
+
+            queue.add(makeEvent("e1"));
+            browser.window.dispatchEvent(new Event("pagehide"));
+
+            expect(beaconSend).toHaveBeenCalledTimes(1);
+            expect(sentEventIds(beaconSend, 0)).toEqual(["e1"]);
+        });
+
+        test("should buffer events the beacon could not queue on hide", async () => {
+            const buffer = new OfflineBuffer("omni_test");
+            await createQueue(buffer);
+            beaconSend.mockImplementationOnce(() =>
+                Promise.reject(new Error("sendBeacon returned false - queue may be full")),
+            );
+            fetchSend.mockImplementation(networkDown);
+
+            queue.add(makeEvent("e1"));
+            browser.setVisibility("hidden");
+
+            await waitFor(async () => (await buffer.size()) === 1);
+            expect(fetchSend).toHaveBeenCalledTimes(1);
+        });
+    });
 });
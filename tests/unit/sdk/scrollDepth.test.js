@@ -0,0 +1,100 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { EventQueue } from "../../../omni-sdk/packages/sdk/src/queue/EventQueue";
+import { ScrollDepthPlugin } from "../../../omni-sdk/packages/sdk/src/plugins/scroll-depth/ScrollDepthPlugin";
+import { installBrowserGlobals } from "./helpers/browserGlobals";
+
+describe("ScrollDepthPlugin", () => {
+    let browser;
+    let queue;
+    let plugin;
+    let fetchSend;
+    let beaconSend;
+
+    const scrollTo = (y) => {
+        browser.window.scrollY = y;
+        browser.window.dispatchEvent(new Event("scroll"));
+    };
+
+    const startPlugin = async () => {
+        plugin = new ScrollDepthPlugin();
+        await plugin.init({
+            config: {},
+            tracker: {
+                trackScrollDepth: (payload) =>
+                    queue.add({ eventId: `scroll_${payload.pageViewId}`, type: "scroll", timestamp: Date.now(), ...payload }),
+            },
+        });
+    };
+
+    beforeEach(async () => {
+        // A 2000px page in a 500px viewport. No frames are rendered, so
+        // scrolls are only measured on hide
+        browser = installBrowserGlobals({
+            window: { location: { href: "https://example.com/blog/post" }, scrollY: 0, innerHeight: 500 },
+            document: { documentElement: { scrollHeight: 2000 } },
+            globals: { requestAnimationFrame: () => 0 },
+        });
+        fetchSend = mock(() => Promise.resolve());
+        beaconSend = mock(() => Promise.resolve());
+
+        // Created before the plugin, like in the Container
+        queue = new EventQueue([
+            { send: fetchSend, isAvailable: () => true, getPriority: () => 10 },
+            { send: beaconSend, isAvailable: () => true, getPriority: () => 5, confirmsDelivery: () => false },
+        ]);
+
+        await startPlugin();
+    });
+
+    afterEach(async () => {
+        await plugin.pause();
+        await plugin.destroy();
+        queue.destroy();
+        browser.restore();
+    });
+
+    test("should send the max depth when the page is hidden", async () => {
+        scrollTo(1500);
+
+        browser.setVisibility("hidden");
+        await Promise.resolve();
+
+        expect(beaconSend).toHaveBeenCalledTimes(1);
+        const [batch] = beaconSend.mock.calls[0];
+        expect(batch.events).toEqual([
+            expect.objectContaining({
+                type: "scroll",
+                maxDepth: 1,
+                maxScrollY: 2000,
+                url: "https://example.com/blog/post",
+            }),
+        ]);
+        expect(fetchSend).not.toHaveBeenCalled();
+    });
+
+    test("should send the max depth on pagehide", async () => {
+        scrollTo(500);
+
+        browser.window.dispatchEvent(new Event("pagehide"));
+        await Promise.resolve();
+
+        expect(beaconSend).toHaveBeenCalledTimes(1);
+        const [batch] = beaconSend.mock.calls[0];
+        expect(batch.events).toEqual([expect.objectContaining({ maxDepth: 0.5, maxScrollY: 1000 })]);
+    });
+
+    test("should measure the depth against the page height when it is sent", async () => {
+        // Loaded before the content: the first measure sees a single-screen page
+        await plugin.pause();
+        await plugin.destroy();
+        browser.document.documentElement.scrollHeight = 500;
+        await startPlugin();
+
+        browser.document.documentElement.scrollHeight = 2000;
+        browser.setVisibility("hidden");
+        await Promise.resolve();
+
+        const [batch] = beaconSend.mock.calls[0];
+        expect(batch.events).toEqual([expect.objectContaining({ maxDepth: 0.25, maxScrollY: 500 })]);
+    });
+});
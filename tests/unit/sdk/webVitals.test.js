@@ -0,0 +1,71 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { EventQueue } from "../../../omni-sdk/packages/sdk/src/queue/EventQueue";
+import { WebVitalsPlugin } from "../../../omni-sdk/packages/sdk/src/plugins/web-vitals/WebVitalsPlugin";
+import { installBrowserGlobals } from "./helpers/browserGlobals";
+
+describe("WebVitalsPlugin", () => {
+    let browser;
+    let queue;
+    let plugin;
+    let fetchSend;
+    let beaconSend;
+
+    beforeEach(async () => {
+        // No supported performance entry types: only the CLS total is reported
+        browser = installBrowserGlobals({
+            window: { location: { href: "https://example.com/pricing" } },
+            globals: { PerformanceObserver: { supportedEntryTypes: [] } },
+        });
+        fetchSend = mock(() => Promise.resolve());
+        beaconSend = mock(() => Promise.resolve());
+
+        // Created before the plugin, like in the Container
+        queue = new EventQueue([
+            { send: fetchSend, isAvailable: () => true, getPriority: () => 10 },
+            { send: beaconSend, isAvailable: () => true, getPriority: () => 5, confirmsDelivery: () => false },
+        ]);
+
+        plugin = new WebVitalsPlugin();
+        await plugin.init({
+            config: {},
+            tracker: {
+                trackWebVital: (vital) =>
+                    queue.add({ eventId: `vital_${vital.name}`, type: "web_vital", timestamp: Date.now(), ...vital }),
+            },
+        });
+    });
+
+    afterEach(async () => {
+        await plugin.destroy();
+        queue.destroy();
+        browser.restore();
+    });
+
+    test("should send the CLS reported when the page is hidden", async () => {
+        browser.setVisibility("hidden");
+        await Promise.resolve();
+
+        expect(beaconSend).toHaveBeenCalledTimes(1);
+        const [batch] = beaconSend.mock.calls[0];
+        expect(batch.events).toEqual([
+            expect.objectContaining({
+                type: "web_vital",
+                name: "CLS",
+                value: 0,
+                rating: "good",
+                url: "https://example.com/pricing",
+            }),
+        ]);
+        expect(fetchSend).not.toHaveBeenCalled();
+        expect(queue.getQueueSize()).toBe(0);
+    });
+
+    test("should send the CLS reported on pagehide", async () => {
+        browser.window.dispatchEvent(new Event("pagehide"));
+        await Promise.resolve();
+
+        expect(beaconSend).toHaveBeenCalledTimes(1);
+        const [batch] = beaconSend.mock.calls[0];
+        expect(batch.events.map((e) => e.name)).toEqual(["CLS"]);
+    });
+});
@@ -20,6 +20,15 @@ export function parseISO(dateString) {
   return isValid(d) ? d : null;
 }
 
+// IANA timezone of the browser, so analytics days match the dates picked here
+export function getBrowserTimezone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
 export function getDefaultDateRange() {
   const today = new Date();
   const thirtyDaysAgo = subDays(today, 30);